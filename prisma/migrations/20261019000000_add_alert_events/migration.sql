@@ -0,0 +1,41 @@
+-- ============================================================================
+-- MIGRACIÓN: Historial de disparos de alertas (AlertEvent)
+-- SEGURIDAD: Solo CREATE TABLE / INDEX nuevos - NO destructivo
+-- FECHA: 2026-10-19
+-- ============================================================================
+
+-- 1. Tabla de historial
+CREATE TABLE IF NOT EXISTS "AlertEvent" (
+    "id" UUID NOT NULL,
+    "alertId" UUID NOT NULL,
+    "bancaId" UUID,
+    "firedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "value" DOUBLE PRECISION NOT NULL,
+    "threshold" DOUBLE PRECISION NOT NULL,
+    "message" TEXT NOT NULL,
+    "details" JSONB,
+    "notifications" JSONB,
+
+    CONSTRAINT "AlertEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- 2. Índices para consulta de historial por alerta y por banca
+CREATE INDEX IF NOT EXISTS "AlertEvent_alertId_firedAt_idx" ON "AlertEvent"("alertId", "firedAt");
+CREATE INDEX IF NOT EXISTS "AlertEvent_bancaId_firedAt_idx" ON "AlertEvent"("bancaId", "firedAt");
+
+-- 3. FK con borrado en cascada desde Alert
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'AlertEvent_alertId_fkey'
+  ) THEN
+    ALTER TABLE "AlertEvent"
+      ADD CONSTRAINT "AlertEvent_alertId_fkey"
+      FOREIGN KEY ("alertId") REFERENCES "Alert"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- DROP TABLE IF EXISTS "AlertEvent";
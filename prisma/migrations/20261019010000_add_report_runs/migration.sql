@@ -0,0 +1,65 @@
+-- ============================================================================
+-- MIGRACIÓN: Reportes programados (horario en ReportSchedule + historial ReportRun)
+-- SEGURIDAD: Solo ADD COLUMN con default / CREATE TABLE nuevos - NO destructivo
+-- FECHA: 2026-10-19
+-- ============================================================================
+
+-- 1. Configuración de horario y formato por programación (hora CR)
+ALTER TABLE "ReportSchedule" ADD COLUMN IF NOT EXISTS "format" TEXT NOT NULL DEFAULT 'xlsx';
+ALTER TABLE "ReportSchedule" ADD COLUMN IF NOT EXISTS "timeOfDay" TEXT NOT NULL DEFAULT '07:00';
+ALTER TABLE "ReportSchedule" ADD COLUMN IF NOT EXISTS "dayOfWeek" INTEGER;
+ALTER TABLE "ReportSchedule" ADD COLUMN IF NOT EXISTS "dayOfMonth" INTEGER;
+
+-- 2. Historial de ejecuciones
+CREATE TABLE IF NOT EXISTS "ReportRun" (
+    "id" UUID NOT NULL,
+    "reportId" UUID NOT NULL,
+    "scheduleId" UUID,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'RUNNING',
+    "format" TEXT NOT NULL,
+    "periodFrom" TEXT,
+    "periodTo" TEXT,
+    "recipients" TEXT[],
+    "fileName" TEXT,
+    "sizeBytes" INTEGER,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+    "triggeredBy" UUID,
+
+    CONSTRAINT "ReportRun_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "ReportRun_reportId_startedAt_idx" ON "ReportRun"("reportId", "startedAt");
+CREATE INDEX IF NOT EXISTS "ReportRun_scheduleId_startedAt_idx" ON "ReportRun"("scheduleId", "startedAt");
+
+-- 3. FKs: el historial se borra con el reporte; sobrevive al borrar la programación
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'ReportRun_reportId_fkey'
+  ) THEN
+    ALTER TABLE "ReportRun"
+      ADD CONSTRAINT "ReportRun_reportId_fkey"
+      FOREIGN KEY ("reportId") REFERENCES "SavedReport"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'ReportRun_scheduleId_fkey'
+  ) THEN
+    ALTER TABLE "ReportRun"
+      ADD CONSTRAINT "ReportRun_scheduleId_fkey"
+      FOREIGN KEY ("scheduleId") REFERENCES "ReportSchedule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- DROP TABLE IF EXISTS "ReportRun";
+-- ALTER TABLE "ReportSchedule" DROP COLUMN IF EXISTS "format";
+-- ALTER TABLE "ReportSchedule" DROP COLUMN IF EXISTS "timeOfDay";
+-- ALTER TABLE "ReportSchedule" DROP COLUMN IF EXISTS "dayOfWeek";
+-- ALTER TABLE "ReportSchedule" DROP COLUMN IF EXISTS "dayOfMonth";
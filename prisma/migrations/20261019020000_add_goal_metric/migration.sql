@@ -0,0 +1,13 @@
+-- ============================================================================
+-- MIGRACIÓN: Métrica de metas (ventas, comisión o ganancia)
+-- SEGURIDAD: Solo ADD COLUMN con default - NO destructivo
+-- FECHA: 2026-10-19
+-- ============================================================================
+
+-- Metas existentes (si las hay) se interpretan como metas de ventas
+ALTER TABLE "Goal" ADD COLUMN IF NOT EXISTS "metric" TEXT NOT NULL DEFAULT 'sales';
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- ALTER TABLE "Goal" DROP COLUMN IF EXISTS "metric";
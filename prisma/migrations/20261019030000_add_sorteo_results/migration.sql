@@ -0,0 +1,62 @@
+-- ============================================================================
+-- MIGRACIÓN: Ingesta de resultados (cola SorteoResult + doble confirmación por banca)
+-- SEGURIDAD: Solo ADD COLUMN con default / CREATE TABLE nuevos - NO destructivo
+-- FECHA: 2026-10-19
+-- ============================================================================
+
+-- 1. Bancas que exigen que una segunda persona confirme el número ganador
+ALTER TABLE "Banca" ADD COLUMN IF NOT EXISTS "resultsDualConfirmation" BOOLEAN NOT NULL DEFAULT false;
+
+-- 2. Resultados obtenidos de proveedores (o cargados a mano) pendientes de aplicar
+CREATE TABLE IF NOT EXISTS "SorteoResult" (
+    "id" UUID NOT NULL,
+    "sorteoId" UUID NOT NULL,
+    "bancaId" UUID,
+    "winningNumber" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "raw" JSONB,
+    "error" TEXT,
+    "submittedBy" UUID,
+    "confirmedBy" UUID,
+    "confirmedAt" TIMESTAMP(3),
+    "secondConfirmedBy" UUID,
+    "secondConfirmedAt" TIMESTAMP(3),
+    "rejectedBy" UUID,
+    "rejectedAt" TIMESTAMP(3),
+    "rejectReason" TEXT,
+    "appliedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SorteoResult_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "SorteoResult_sorteoId_idx" ON "SorteoResult"("sorteoId");
+CREATE INDEX IF NOT EXISTS "SorteoResult_bancaId_status_idx" ON "SorteoResult"("bancaId", "status");
+
+-- 3. FKs
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'SorteoResult_sorteoId_fkey'
+  ) THEN
+    ALTER TABLE "SorteoResult"
+      ADD CONSTRAINT "SorteoResult_sorteoId_fkey"
+      FOREIGN KEY ("sorteoId") REFERENCES "Sorteo"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'SorteoResult_bancaId_fkey'
+  ) THEN
+    ALTER TABLE "SorteoResult"
+      ADD CONSTRAINT "SorteoResult_bancaId_fkey"
+      FOREIGN KEY ("bancaId") REFERENCES "Banca"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- DROP TABLE IF EXISTS "SorteoResult";
+-- ALTER TABLE "Banca" DROP COLUMN IF EXISTS "resultsDualConfirmation";
@@ -0,0 +1,57 @@
+-- ============================================================================
+-- MIGRACIÓN: Doble control (cuatro ojos) para evaluar y revertir sorteos
+-- SEGURIDAD: Solo ADD COLUMN con default / CREATE TABLE nuevos - NO destructivo
+-- FECHA: 2026-10-19
+-- ============================================================================
+
+-- 1. Política por banca: evaluar/revertir requiere aprobación de un segundo usuario
+ALTER TABLE "Banca" ADD COLUMN IF NOT EXISTS "evaluationDualControl" BOOLEAN NOT NULL DEFAULT false;
+
+-- 2. Solicitudes de evaluación/reversión pendientes de aprobación
+CREATE TABLE IF NOT EXISTS "SorteoApproval" (
+    "id" UUID NOT NULL,
+    "sorteoId" UUID NOT NULL,
+    "bancaId" UUID,
+    "action" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "proposedBy" UUID NOT NULL,
+    "proposedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "decidedBy" UUID,
+    "decidedAt" TIMESTAMP(3),
+    "decisionNote" TEXT,
+    "error" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SorteoApproval_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "SorteoApproval_sorteoId_status_idx" ON "SorteoApproval"("sorteoId", "status");
+CREATE INDEX IF NOT EXISTS "SorteoApproval_bancaId_status_idx" ON "SorteoApproval"("bancaId", "status");
+
+-- 3. FKs
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'SorteoApproval_sorteoId_fkey'
+  ) THEN
+    ALTER TABLE "SorteoApproval"
+      ADD CONSTRAINT "SorteoApproval_sorteoId_fkey"
+      FOREIGN KEY ("sorteoId") REFERENCES "Sorteo"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'SorteoApproval_bancaId_fkey'
+  ) THEN
+    ALTER TABLE "SorteoApproval"
+      ADD CONSTRAINT "SorteoApproval_bancaId_fkey"
+      FOREIGN KEY ("bancaId") REFERENCES "Banca"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- DROP TABLE IF EXISTS "SorteoApproval";
+-- ALTER TABLE "Banca" DROP COLUMN IF EXISTS "evaluationDualControl";
@@ -0,0 +1,69 @@
+-- ============================================================================
+-- MIGRACIÓN: Política de anulación de tiquetes y solicitudes de aprobación
+-- SEGURIDAD: Solo ADD COLUMN nullable / CREATE TABLE nuevos - NO destructivo
+-- FECHA: 2026-10-19
+-- ============================================================================
+
+-- 1. Política de anulación por banca y por ventana (la ventana sobreescribe a la banca)
+ALTER TABLE "Banca" ADD COLUMN IF NOT EXISTS "cancellationPolicyJson" JSONB;
+ALTER TABLE "Ventana" ADD COLUMN IF NOT EXISTS "cancellationPolicyJson" JSONB;
+
+-- 2. Anulaciones fuera de política pendientes de aprobación
+CREATE TABLE IF NOT EXISTS "CancelRequest" (
+    "id" UUID NOT NULL,
+    "ticketId" UUID NOT NULL,
+    "bancaId" UUID,
+    "ventanaId" UUID NOT NULL,
+    "vendedorId" UUID NOT NULL,
+    "requestedBy" UUID NOT NULL,
+    "reason" TEXT,
+    "violations" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "decidedBy" UUID,
+    "decidedAt" TIMESTAMP(3),
+    "decisionNote" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CancelRequest_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "CancelRequest_ticketId_status_idx" ON "CancelRequest"("ticketId", "status");
+CREATE INDEX IF NOT EXISTS "CancelRequest_bancaId_status_idx" ON "CancelRequest"("bancaId", "status");
+CREATE INDEX IF NOT EXISTS "CancelRequest_ventanaId_status_idx" ON "CancelRequest"("ventanaId", "status");
+
+-- 3. FKs
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'CancelRequest_ticketId_fkey'
+  ) THEN
+    ALTER TABLE "CancelRequest"
+      ADD CONSTRAINT "CancelRequest_ticketId_fkey"
+      FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'CancelRequest_bancaId_fkey'
+  ) THEN
+    ALTER TABLE "CancelRequest"
+      ADD CONSTRAINT "CancelRequest_bancaId_fkey"
+      FOREIGN KEY ("bancaId") REFERENCES "Banca"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'CancelRequest_ventanaId_fkey'
+  ) THEN
+    ALTER TABLE "CancelRequest"
+      ADD CONSTRAINT "CancelRequest_ventanaId_fkey"
+      FOREIGN KEY ("ventanaId") REFERENCES "Ventana"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- DROP TABLE IF EXISTS "CancelRequest";
+-- ALTER TABLE "Ventana" DROP COLUMN IF EXISTS "cancellationPolicyJson";
+-- ALTER TABLE "Banca" DROP COLUMN IF EXISTS "cancellationPolicyJson";
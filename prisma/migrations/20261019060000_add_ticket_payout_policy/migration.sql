@@ -0,0 +1,69 @@
+-- ============================================================================
+-- MIGRACIÓN: Política de pago de premios por banca y solicitudes de aprobación
+-- SEGURIDAD: Solo ADD COLUMN nullable / CREATE TABLE nuevos - NO destructivo
+-- FECHA: 2026-10-19
+-- ============================================================================
+
+-- 1. Política de pago por banca (ventana vendedora, tope diario por cajero, umbral, vencimiento)
+ALTER TABLE "Banca" ADD COLUMN IF NOT EXISTS "payoutPolicyJson" JSONB;
+
+-- 2. Pagos sobre el umbral pendientes de aprobación de la banca
+CREATE TABLE IF NOT EXISTS "PayoutRequest" (
+    "id" UUID NOT NULL,
+    "ticketId" UUID NOT NULL,
+    "bancaId" UUID,
+    "ventanaId" UUID NOT NULL,
+    "requestedBy" UUID NOT NULL,
+    "amountPaid" DOUBLE PRECISION NOT NULL,
+    "method" TEXT NOT NULL DEFAULT 'cash',
+    "notes" TEXT,
+    "isFinal" BOOLEAN NOT NULL DEFAULT false,
+    "violations" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "decidedBy" UUID,
+    "decidedAt" TIMESTAMP(3),
+    "decisionNote" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayoutRequest_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "PayoutRequest_ticketId_status_idx" ON "PayoutRequest"("ticketId", "status");
+CREATE INDEX IF NOT EXISTS "PayoutRequest_bancaId_status_idx" ON "PayoutRequest"("bancaId", "status");
+CREATE INDEX IF NOT EXISTS "PayoutRequest_ventanaId_status_idx" ON "PayoutRequest"("ventanaId", "status");
+
+-- 3. FKs
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'PayoutRequest_ticketId_fkey'
+  ) THEN
+    ALTER TABLE "PayoutRequest"
+      ADD CONSTRAINT "PayoutRequest_ticketId_fkey"
+      FOREIGN KEY ("ticketId") REFERENCES "Ticket"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'PayoutRequest_bancaId_fkey'
+  ) THEN
+    ALTER TABLE "PayoutRequest"
+      ADD CONSTRAINT "PayoutRequest_bancaId_fkey"
+      FOREIGN KEY ("bancaId") REFERENCES "Banca"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'PayoutRequest_ventanaId_fkey'
+  ) THEN
+    ALTER TABLE "PayoutRequest"
+      ADD CONSTRAINT "PayoutRequest_ventanaId_fkey"
+      FOREIGN KEY ("ventanaId") REFERENCES "Ventana"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- DROP TABLE IF EXISTS "PayoutRequest";
+-- ALTER TABLE "Banca" DROP COLUMN IF EXISTS "payoutPolicyJson";
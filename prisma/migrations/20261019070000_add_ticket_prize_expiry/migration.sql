@@ -0,0 +1,22 @@
+-- ============================================================================
+-- MIGRACIÓN: Vencimiento de premios no cobrados
+-- SEGURIDAD: Solo ADD COLUMN nullable / CREATE INDEX - NO destructivo
+-- FECHA: 2026-10-19
+-- ============================================================================
+
+-- 1. Plazo de cobro extendido manualmente por tiquete (null = política de la banca)
+ALTER TABLE "Ticket" ADD COLUMN IF NOT EXISTS "claimDeadline" TIMESTAMP(3);
+
+-- 2. Premio vencido: fecha de vencimiento y monto perdido (remainingAmount queda en 0)
+ALTER TABLE "Ticket" ADD COLUMN IF NOT EXISTS "expiredAt" TIMESTAMP(3);
+ALTER TABLE "Ticket" ADD COLUMN IF NOT EXISTS "forfeitedAmount" DOUBLE PRECISION;
+
+CREATE INDEX IF NOT EXISTS "Ticket_expiredAt_idx" ON "Ticket"("expiredAt");
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- DROP INDEX IF EXISTS "Ticket_expiredAt_idx";
+-- ALTER TABLE "Ticket" DROP COLUMN IF EXISTS "forfeitedAmount";
+-- ALTER TABLE "Ticket" DROP COLUMN IF EXISTS "expiredAt";
+-- ALTER TABLE "Ticket" DROP COLUMN IF EXISTS "claimDeadline";
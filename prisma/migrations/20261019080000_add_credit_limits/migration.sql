@@ -0,0 +1,63 @@
+-- ============================================================================
+-- MIGRACIÓN: Límites de crédito por ventana y por vendedor
+-- SEGURIDAD: Solo CREATE TABLE nuevo - NO destructivo
+-- FECHA: 2026-10-19
+-- ============================================================================
+
+-- 1. Límite blando (advertencia), duro (bloqueo) y ampliación temporal autorizada por la banca.
+--    vendedorId NULL = límite consolidado de la ventana.
+CREATE TABLE IF NOT EXISTS "CreditLimit" (
+    "id" UUID NOT NULL,
+    "bancaId" UUID NOT NULL,
+    "ventanaId" UUID NOT NULL,
+    "vendedorId" UUID,
+    "softLimit" DOUBLE PRECISION,
+    "hardLimit" DOUBLE PRECISION,
+    "overrideLimit" DOUBLE PRECISION,
+    "overrideUntil" TIMESTAMP(3),
+    "overrideReason" TEXT,
+    "overrideBy" UUID,
+    "updatedBy" UUID,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CreditLimit_pkey" PRIMARY KEY ("id")
+);
+
+-- 2. Un límite por vendedor y uno consolidado por ventana
+CREATE UNIQUE INDEX IF NOT EXISTS "CreditLimit_vendedorId_key" ON "CreditLimit"("vendedorId");
+CREATE UNIQUE INDEX IF NOT EXISTS "credit_limit_ventana_unique" ON "CreditLimit"("ventanaId") WHERE ("vendedorId" IS NULL);
+CREATE INDEX IF NOT EXISTS "CreditLimit_bancaId_idx" ON "CreditLimit"("bancaId");
+
+-- 3. FKs
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'CreditLimit_bancaId_fkey'
+  ) THEN
+    ALTER TABLE "CreditLimit"
+      ADD CONSTRAINT "CreditLimit_bancaId_fkey"
+      FOREIGN KEY ("bancaId") REFERENCES "Banca"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'CreditLimit_ventanaId_fkey'
+  ) THEN
+    ALTER TABLE "CreditLimit"
+      ADD CONSTRAINT "CreditLimit_ventanaId_fkey"
+      FOREIGN KEY ("ventanaId") REFERENCES "Ventana"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'CreditLimit_vendedorId_fkey'
+  ) THEN
+    ALTER TABLE "CreditLimit"
+      ADD CONSTRAINT "CreditLimit_vendedorId_fkey"
+      FOREIGN KEY ("vendedorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- DROP TABLE IF EXISTS "CreditLimit";
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- MIGRACIÓN: Política de números calientes por banca
+-- SEGURIDAD: Solo ADD COLUMN nullable - NO destructivo
+-- FECHA: 2026-10-19
+-- ============================================================================
+
+-- Capacidad de pago por número y tramos que reducen el límite o el multiplicador
+ALTER TABLE "Banca" ADD COLUMN IF NOT EXISTS "hotNumberPolicyJson" JSONB;
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- ALTER TABLE "Banca" DROP COLUMN IF EXISTS "hotNumberPolicyJson";
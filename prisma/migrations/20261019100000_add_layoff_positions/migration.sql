@@ -0,0 +1,62 @@
+-- ============================================================================
+-- MIGRACIÓN: Política de riesgo y cesiones (lay-off) de números a otras bancas
+-- SEGURIDAD: ADD COLUMN nullable + CREATE TABLE nuevo - NO destructivo
+-- FECHA: 2026-10-19
+-- ============================================================================
+
+-- 1. Pérdida máxima por número y condiciones por defecto de la cesión
+ALTER TABLE "Banca" ADD COLUMN IF NOT EXISTS "riskPolicyJson" JSONB;
+
+-- 2. Parte de la apuesta de un número cedida a otra banca (contraparte) en un sorteo.
+--    status: ACTIVE | CANCELLED
+CREATE TABLE IF NOT EXISTS "LayOffPosition" (
+    "id" UUID NOT NULL,
+    "bancaId" UUID NOT NULL,
+    "sorteoId" UUID NOT NULL,
+    "loteriaId" UUID NOT NULL,
+    "businessDate" DATE NOT NULL,
+    "number" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "multiplierX" DOUBLE PRECISION NOT NULL,
+    "commissionPercent" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "counterparty" TEXT NOT NULL,
+    "notes" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "createdBy" UUID NOT NULL,
+    "cancelledBy" UUID,
+    "cancelledAt" TIMESTAMP(3),
+    "cancelReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LayOffPosition_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "LayOffPosition_bancaId_businessDate_status_idx" ON "LayOffPosition"("bancaId", "businessDate", "status");
+CREATE INDEX IF NOT EXISTS "LayOffPosition_sorteoId_status_idx" ON "LayOffPosition"("sorteoId", "status");
+
+-- 3. FKs
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'LayOffPosition_bancaId_fkey'
+  ) THEN
+    ALTER TABLE "LayOffPosition"
+      ADD CONSTRAINT "LayOffPosition_bancaId_fkey"
+      FOREIGN KEY ("bancaId") REFERENCES "Banca"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'LayOffPosition_sorteoId_fkey'
+  ) THEN
+    ALTER TABLE "LayOffPosition"
+      ADD CONSTRAINT "LayOffPosition_sorteoId_fkey"
+      FOREIGN KEY ("sorteoId") REFERENCES "Sorteo"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- DROP TABLE IF EXISTS "LayOffPosition";
+-- ALTER TABLE "Banca" DROP COLUMN IF EXISTS "riskPolicyJson";
@@ -0,0 +1,177 @@
+-- ============================================================================
+-- MIGRACIÓN: Montos de dinero de DOUBLE PRECISION a NUMERIC(15,2)
+-- SEGURIDAD: ALTER COLUMN TYPE con redondeo a céntimos. Reescribe las tablas
+--            (bloqueo exclusivo mientras dura): ejecutar en ventana de mantenimiento.
+--            Cada valor que cambia queda en "MoneyConversionAudit" antes de convertir.
+-- FECHA: 2026-10-19
+-- ============================================================================
+--
+-- Redondeo: round(valor::numeric, 2) = mitad lejos de cero, igual que roundMoney()
+-- en src/utils/decimal.ts. fn_evaluate_sorteo sigue calculando amount * multiplicador;
+-- al guardar en "Jugada".payout (NUMERIC) el premio queda en céntimos y la suma por
+-- ticket ya es exacta.
+--
+-- Las vistas materializadas que leen estas columnas (mv_daily_account_summary,
+-- mv_diario_ventas_totales) impiden el ALTER: se guardan su definición, índices y
+-- comentario, se eliminan y se recrean con los datos ya convertidos.
+-- Re-ejecutable: solo convierte columnas que sigan en DOUBLE PRECISION.
+
+-- 1. Valores que cambian al redondear (reporte de conciliación)
+CREATE TABLE IF NOT EXISTS "MoneyConversionAudit" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "tableName" TEXT NOT NULL,
+    "rowId" TEXT NOT NULL,
+    "columnName" TEXT NOT NULL,
+    "oldValue" DOUBLE PRECISION NOT NULL,
+    "newValue" NUMERIC(15,2) NOT NULL,
+    "convertedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MoneyConversionAudit_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "MoneyConversionAudit_tableName_columnName_idx"
+    ON "MoneyConversionAudit"("tableName", "columnName");
+
+-- 2. Columnas de dinero a convertir
+CREATE TEMP TABLE money_columns (table_name TEXT, column_name TEXT);
+INSERT INTO money_columns (table_name, column_name) VALUES
+  ('Ticket', 'totalAmount'),
+  ('Ticket', 'totalPayout'),
+  ('Ticket', 'totalPaid'),
+  ('Ticket', 'remainingAmount'),
+  ('Ticket', 'totalCommission'),
+  ('Ticket', 'totalListeroCommission'),
+  ('Ticket', 'forfeitedAmount'),
+  ('TicketPayment', 'amountPaid'),
+  ('TicketPayment', 'remainingAmount'),
+  ('Jugada', 'amount'),
+  ('Jugada', 'payout'),
+  ('Jugada', 'commissionAmount'),
+  ('Jugada', 'listeroCommissionAmount'),
+  ('AccountStatement', 'totalSales'),
+  ('AccountStatement', 'totalPayouts'),
+  ('AccountStatement', 'listeroCommission'),
+  ('AccountStatement', 'vendedorCommission'),
+  ('AccountStatement', 'balance'),
+  ('AccountStatement', 'totalPaid'),
+  ('AccountStatement', 'remainingBalance'),
+  ('AccountStatement', 'totalCollected'),
+  ('AccountStatement', 'accumulatedBalance'),
+  ('AccountPayment', 'amount'),
+  ('ResumenCierreDiario', 'totalVendida'),
+  ('ResumenCierreDiario', 'ganado'),
+  ('ResumenCierreDiario', 'comisionTotal'),
+  ('DailyNumberSales', 'totalAmount'),
+  ('PayoutRequest', 'amountPaid'),
+  ('LayOffPosition', 'amount');
+
+-- Solo las que existen y siguen en DOUBLE PRECISION
+DELETE FROM money_columns mc
+WHERE NOT EXISTS (
+  SELECT 1 FROM information_schema.columns c
+  WHERE c.table_schema = 'public'
+    AND c.table_name = mc.table_name
+    AND c.column_name = mc.column_name
+    AND c.data_type = 'double precision'
+);
+
+-- 3. Vistas (normales y materializadas) que dependen de esas columnas
+CREATE TEMP TABLE money_dependent_views AS
+SELECT DISTINCT
+  v.oid,
+  v.relname,
+  v.relkind,
+  pg_get_viewdef(v.oid) AS definition,
+  obj_description(v.oid, 'pg_class') AS description
+FROM pg_depend d
+JOIN pg_rewrite r ON r.oid = d.objid
+JOIN pg_class v ON v.oid = r.ev_class
+JOIN pg_class t ON t.oid = d.refobjid
+JOIN pg_namespace n ON n.oid = t.relnamespace AND n.nspname = 'public'
+WHERE d.classid = 'pg_rewrite'::regclass
+  AND v.oid <> t.oid
+  AND v.relkind IN ('v', 'm')
+  AND t.relname IN (SELECT DISTINCT table_name FROM money_columns);
+
+CREATE TEMP TABLE money_dependent_indexes AS
+SELECT i.indexdef
+FROM pg_indexes i
+JOIN money_dependent_views v ON v.relname = i.tablename
+WHERE i.schemaname = 'public';
+
+DO $$
+DECLARE
+  v RECORD;
+BEGIN
+  FOR v IN SELECT relname, relkind FROM money_dependent_views LOOP
+    IF v.relkind = 'm' THEN
+      EXECUTE format('DROP MATERIALIZED VIEW IF EXISTS %I', v.relname);
+    ELSE
+      EXECUTE format('DROP VIEW IF EXISTS %I', v.relname);
+    END IF;
+  END LOOP;
+END $$;
+
+-- 4. Auditoría y conversión
+DO $$
+DECLARE
+  col RECORD;
+BEGIN
+  FOR col IN SELECT table_name, column_name FROM money_columns ORDER BY table_name, column_name LOOP
+    EXECUTE format(
+      'INSERT INTO "MoneyConversionAudit" ("tableName", "rowId", "columnName", "oldValue", "newValue")
+       SELECT %L, id::text, %L, %I, round(%I::numeric, 2)
+       FROM %I
+       WHERE %I IS NOT NULL AND %I::numeric <> round(%I::numeric, 2)',
+      col.table_name, col.column_name, col.column_name, col.column_name,
+      col.table_name, col.column_name, col.column_name, col.column_name
+    );
+
+    EXECUTE format(
+      'ALTER TABLE %I ALTER COLUMN %I TYPE NUMERIC(15,2) USING round(%I::numeric, 2)',
+      col.table_name, col.column_name, col.column_name
+    );
+  END LOOP;
+END $$;
+
+-- 5. Recrear vistas, índices (REFRESH CONCURRENTLY necesita el único) y comentarios
+DO $$
+DECLARE
+  v RECORD;
+  idx RECORD;
+BEGIN
+  FOR v IN SELECT relname, relkind, definition, description FROM money_dependent_views ORDER BY oid LOOP
+    IF v.relkind = 'm' THEN
+      EXECUTE format('CREATE MATERIALIZED VIEW %I AS %s', v.relname, v.definition);
+      IF v.description IS NOT NULL THEN
+        EXECUTE format('COMMENT ON MATERIALIZED VIEW %I IS %L', v.relname, v.description);
+      END IF;
+    ELSE
+      EXECUTE format('CREATE VIEW %I AS %s', v.relname, v.definition);
+      IF v.description IS NOT NULL THEN
+        EXECUTE format('COMMENT ON VIEW %I IS %L', v.relname, v.description);
+      END IF;
+    END IF;
+  END LOOP;
+
+  FOR idx IN SELECT indexdef FROM money_dependent_indexes LOOP
+    EXECUTE idx.indexdef;
+  END LOOP;
+END $$;
+
+DROP TABLE money_dependent_indexes;
+DROP TABLE money_dependent_views;
+DROP TABLE money_columns;
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- Los valores originales de las filas redondeadas están en "MoneyConversionAudit".
+-- Eliminar antes mv_daily_account_summary y mv_diario_ventas_totales y recrearlas
+-- después con migration_scripts/migrate_views_tenant.sql.
+-- Por cada tabla/columna de la lista del paso 2, por ejemplo:
+-- ALTER TABLE "Ticket" ALTER COLUMN "totalAmount" TYPE DOUBLE PRECISION;
+-- ALTER TABLE "Jugada" ALTER COLUMN "amount" TYPE DOUBLE PRECISION;
+-- ALTER TABLE "AccountStatement" ALTER COLUMN "balance" TYPE DOUBLE PRECISION;
+-- ALTER TABLE "AccountPayment" ALTER COLUMN "amount" TYPE DOUBLE PRECISION;
+-- DROP TABLE IF EXISTS "MoneyConversionAudit";
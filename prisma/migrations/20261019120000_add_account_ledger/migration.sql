@@ -0,0 +1,79 @@
+-- ============================================================================
+-- MIGRACIÓN: Libro de cuentas de doble partida ("LedgerEntry")
+-- SEGURIDAD: Solo crea tabla, índices y trigger. No toca datos existentes.
+--            El libro se llena con `ledger-replay` (herramienta de mantenimiento)
+--            y, desde el despliegue, con cada sorteo evaluado, pago, reversión y reset.
+-- FECHA: 2026-10-19
+-- ============================================================================
+--
+-- Cada asiento (journalId) tiene una línea ENTITY (vendedor, ventana o banca) y su
+-- contrapartida HOUSE con el monto negado: la suma por asiento es cero.
+-- Signo desde la entidad: venta +, premio −, comisión −, pago +, cobro −.
+-- Las correcciones se registran como nuevos asientos (REVERSAL o diferencia), nunca
+-- modificando filas: el trigger rechaza UPDATE y DELETE.
+
+-- 1. Tabla
+CREATE TABLE IF NOT EXISTS "LedgerEntry" (
+    "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "journalId" UUID NOT NULL,
+    "bancaId" UUID NOT NULL,
+    "businessDate" DATE NOT NULL,
+    "journalType" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "dimension" TEXT NOT NULL,
+    "entityId" UUID NOT NULL,
+    "account" TEXT NOT NULL,
+    "amount" NUMERIC(15,2) NOT NULL,
+    "sourceType" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "reversesJournalId" UUID,
+    "description" TEXT,
+    "createdBy" UUID,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "LedgerEntry_dimension_check" CHECK ("dimension" IN ('banca', 'ventana', 'vendedor')),
+    CONSTRAINT "LedgerEntry_account_check" CHECK ("account" IN ('ENTITY', 'HOUSE'))
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'LedgerEntry_bancaId_fkey') THEN
+    ALTER TABLE "LedgerEntry"
+      ADD CONSTRAINT "LedgerEntry_bancaId_fkey"
+      FOREIGN KEY ("bancaId") REFERENCES "Banca"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+-- 2. Índices (saldo por entidad/fecha, asientos por origen)
+CREATE INDEX IF NOT EXISTS "LedgerEntry_dimension_entityId_businessDate_idx"
+    ON "LedgerEntry"("dimension", "entityId", "businessDate");
+CREATE INDEX IF NOT EXISTS "LedgerEntry_sourceType_sourceId_idx"
+    ON "LedgerEntry"("sourceType", "sourceId");
+CREATE INDEX IF NOT EXISTS "LedgerEntry_journalId_idx"
+    ON "LedgerEntry"("journalId");
+CREATE INDEX IF NOT EXISTS "LedgerEntry_bancaId_businessDate_idx"
+    ON "LedgerEntry"("bancaId", "businessDate");
+
+-- 3. Solo inserción
+CREATE OR REPLACE FUNCTION fn_ledger_entry_append_only()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'LedgerEntry es de solo inserción: registre un asiento de reversión en lugar de %', TG_OP;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ledger_entry_append_only ON "LedgerEntry";
+CREATE TRIGGER trg_ledger_entry_append_only
+  BEFORE UPDATE OR DELETE ON "LedgerEntry"
+  FOR EACH ROW EXECUTE FUNCTION fn_ledger_entry_append_only();
+
+COMMENT ON TABLE "LedgerEntry" IS
+  'Libro de doble partida detrás de los estados de cuenta. Solo inserción; cada journalId suma cero.';
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- DROP TRIGGER IF EXISTS trg_ledger_entry_append_only ON "LedgerEntry";
+-- DROP FUNCTION IF EXISTS fn_ledger_entry_append_only();
+-- DROP TABLE IF EXISTS "LedgerEntry";
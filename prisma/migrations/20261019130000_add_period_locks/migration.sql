@@ -0,0 +1,55 @@
+-- ============================================================================
+-- MIGRACIÓN: Bloqueo de períodos por banca ("PeriodLock")
+-- SEGURIDAD: Solo crea tabla e índices. No toca datos existentes.
+--            Los meses ya cerrados quedan abiertos hasta el próximo cierre mensual
+--            o hasta que una banca los bloquee desde /accounts/period-locks.
+-- FECHA: 2026-10-19
+-- ============================================================================
+--
+-- Un período bloqueado (status = 'LOCKED') rechaza anulaciones de tiquetes, reversiones de
+-- evaluación, pagos/cobros, sus reversiones y el borrado de estados de cuenta con fecha
+-- de negocio entre startDate y endDate. Reabrirlo exige motivo y queda en la bitácora;
+-- al bloquearlo de nuevo se recalcula el cierre mensual de los meses que toca.
+
+-- 1. Tabla
+CREATE TABLE IF NOT EXISTS "PeriodLock" (
+    "id" UUID NOT NULL,
+    "bancaId" UUID NOT NULL,
+    "periodType" TEXT NOT NULL,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'LOCKED',
+    "lockedBy" UUID,
+    "lockedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reopenedBy" UUID,
+    "reopenedAt" TIMESTAMP(3),
+    "reopenReason" TEXT,
+    "reopenCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PeriodLock_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "PeriodLock_periodType_check" CHECK ("periodType" IN ('DAY', 'WEEK', 'MONTH')),
+    CONSTRAINT "PeriodLock_status_check" CHECK ("status" IN ('LOCKED', 'REOPENED')),
+    CONSTRAINT "PeriodLock_range_check" CHECK ("startDate" <= "endDate")
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'PeriodLock_bancaId_fkey') THEN
+    ALTER TABLE "PeriodLock"
+      ADD CONSTRAINT "PeriodLock_bancaId_fkey"
+      FOREIGN KEY ("bancaId") REFERENCES "Banca"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+-- 2. Índices (un bloqueo por período, búsqueda de bloqueos vigentes por fecha)
+CREATE UNIQUE INDEX IF NOT EXISTS "PeriodLock_bancaId_periodType_startDate_key"
+    ON "PeriodLock"("bancaId", "periodType", "startDate");
+CREATE INDEX IF NOT EXISTS "PeriodLock_bancaId_status_startDate_endDate_idx"
+    ON "PeriodLock"("bancaId", "status", "startDate", "endDate");
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- DROP TABLE IF EXISTS "PeriodLock";
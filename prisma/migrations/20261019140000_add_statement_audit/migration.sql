@@ -0,0 +1,81 @@
+-- ============================================================================
+-- MIGRACIÓN: Auditoría de integridad de estados de cuenta
+--            ("StatementAuditRun", "StatementAuditFinding")
+-- SEGURIDAD: Solo crea tablas e índices. No toca datos existentes.
+-- FECHA: 2026-10-19
+-- ============================================================================
+--
+-- Cada pasada recalcula los días del rango desde tiquetes y jugadas y los compara con
+-- AccountStatement, ResumenCierreDiario y DailyNumberSales. Cada diferencia queda como
+-- hallazgo (diffs: campo -> esperado / guardado / diferencia) con estado OPEN, RESOLVED
+-- (una pasada posterior lo vio cuadrado) o REPAIRED (la auditoría lo corrigió).
+
+-- 1. Pasadas
+CREATE TABLE IF NOT EXISTS "StatementAuditRun" (
+    "id" UUID NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "bancaId" UUID,
+    "fromDate" DATE NOT NULL,
+    "toDate" DATE NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'RUNNING',
+    "checked" INTEGER NOT NULL DEFAULT 0,
+    "findings" INTEGER NOT NULL DEFAULT 0,
+    "repaired" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "createdBy" UUID,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "StatementAuditRun_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "StatementAuditRun_trigger_check" CHECK ("trigger" IN ('SCHEDULED', 'MANUAL')),
+    CONSTRAINT "StatementAuditRun_status_check" CHECK ("status" IN ('RUNNING', 'COMPLETED', 'FAILED'))
+);
+
+CREATE INDEX IF NOT EXISTS "StatementAuditRun_startedAt_idx"
+    ON "StatementAuditRun"("startedAt");
+
+-- 2. Hallazgos
+CREATE TABLE IF NOT EXISTS "StatementAuditFinding" (
+    "id" UUID NOT NULL,
+    "runId" UUID NOT NULL,
+    "bancaId" UUID,
+    "businessDate" DATE NOT NULL,
+    "source" TEXT NOT NULL,
+    "dimension" TEXT NOT NULL,
+    "entityId" UUID NOT NULL,
+    "statementId" UUID,
+    "diffs" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "repairedAt" TIMESTAMP(3),
+    "repairError" TEXT,
+
+    CONSTRAINT "StatementAuditFinding_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "StatementAuditFinding_source_check"
+      CHECK ("source" IN ('ACCOUNT_STATEMENT', 'RESUMEN_CIERRE_DIARIO', 'DAILY_NUMBER_SALES')),
+    CONSTRAINT "StatementAuditFinding_status_check" CHECK ("status" IN ('OPEN', 'RESOLVED', 'REPAIRED'))
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'StatementAuditFinding_runId_fkey') THEN
+    ALTER TABLE "StatementAuditFinding"
+      ADD CONSTRAINT "StatementAuditFinding_runId_fkey"
+      FOREIGN KEY ("runId") REFERENCES "StatementAuditRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "StatementAuditFinding_bancaId_status_businessDate_idx"
+    ON "StatementAuditFinding"("bancaId", "status", "businessDate");
+CREATE INDEX IF NOT EXISTS "StatementAuditFinding_source_dimension_entityId_businessDate_idx"
+    ON "StatementAuditFinding"("source", "dimension", "entityId", "businessDate");
+CREATE INDEX IF NOT EXISTS "StatementAuditFinding_runId_idx"
+    ON "StatementAuditFinding"("runId");
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- DROP TABLE IF EXISTS "StatementAuditFinding";
+-- DROP TABLE IF EXISTS "StatementAuditRun";
@@ -0,0 +1,136 @@
+-- ============================================================================
+-- MIGRACIÓN: Importación de extractos bancarios y conciliación de transferencias
+-- SEGURIDAD: Crea tablas e índices y agrega una columna opcional a "AccountPayment".
+--            No toca datos existentes: las transferencias ya registradas quedan
+--            sin conciliar hasta que se importe el extracto que las contiene.
+-- FECHA: 2026-10-19
+-- ============================================================================
+--
+-- Cada banca define perfiles por banco (columnas del CSV u OFX). Las líneas importadas se
+-- concilian contra AccountPayment con method = 'transfer' por monto, fecha y referencia;
+-- una línea concilia a lo sumo un pago (paymentId único).
+
+-- 1. Referencia bancaria del pago (número de transferencia o comprobante)
+ALTER TABLE "AccountPayment" ADD COLUMN IF NOT EXISTS "reference" VARCHAR(100);
+
+-- 2. Perfiles de importación
+CREATE TABLE IF NOT EXISTS "BankStatementProfile" (
+    "id" UUID NOT NULL,
+    "bancaId" UUID NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "bankName" VARCHAR(100),
+    "format" TEXT NOT NULL DEFAULT 'CSV',
+    "delimiter" VARCHAR(1) NOT NULL DEFAULT ',',
+    "skipRows" INTEGER NOT NULL DEFAULT 0,
+    "dateColumn" VARCHAR(100),
+    "dateFormat" VARCHAR(20) NOT NULL DEFAULT 'YYYY-MM-DD',
+    "amountColumn" VARCHAR(100),
+    "creditColumn" VARCHAR(100),
+    "debitColumn" VARCHAR(100),
+    "referenceColumn" VARCHAR(100),
+    "descriptionColumn" VARCHAR(100),
+    "decimalSeparator" VARCHAR(1) NOT NULL DEFAULT '.',
+    "dateToleranceDays" INTEGER NOT NULL DEFAULT 3,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" UUID,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BankStatementProfile_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "BankStatementProfile_format_check" CHECK ("format" IN ('CSV', 'OFX')),
+    CONSTRAINT "BankStatementProfile_dateFormat_check" CHECK ("dateFormat" IN ('YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY')),
+    CONSTRAINT "BankStatementProfile_decimalSeparator_check" CHECK ("decimalSeparator" IN ('.', ',')),
+    CONSTRAINT "BankStatementProfile_dateToleranceDays_check" CHECK ("dateToleranceDays" BETWEEN 0 AND 15)
+);
+
+-- 3. Archivos importados
+CREATE TABLE IF NOT EXISTS "BankStatementImport" (
+    "id" UUID NOT NULL,
+    "bancaId" UUID NOT NULL,
+    "profileId" UUID NOT NULL,
+    "format" TEXT NOT NULL,
+    "fileName" VARCHAR(255) NOT NULL,
+    "fileHash" VARCHAR(64) NOT NULL,
+    "fromDate" DATE,
+    "toDate" DATE,
+    "lineCount" INTEGER NOT NULL DEFAULT 0,
+    "duplicateCount" INTEGER NOT NULL DEFAULT 0,
+    "matchedCount" INTEGER NOT NULL DEFAULT 0,
+    "importedBy" UUID,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BankStatementImport_pkey" PRIMARY KEY ("id")
+);
+
+-- 4. Líneas del extracto
+CREATE TABLE IF NOT EXISTS "BankStatementLine" (
+    "id" UUID NOT NULL,
+    "importId" UUID NOT NULL,
+    "bancaId" UUID NOT NULL,
+    "lineNumber" INTEGER NOT NULL,
+    "postedDate" DATE NOT NULL,
+    "amount" DECIMAL(15,2) NOT NULL,
+    "reference" VARCHAR(100),
+    "description" TEXT,
+    "fingerprint" VARCHAR(64) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'UNMATCHED',
+    "paymentId" UUID,
+    "matchRule" TEXT,
+    "matchedAt" TIMESTAMP(3),
+    "matchedBy" UUID,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BankStatementLine_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "BankStatementLine_status_check" CHECK ("status" IN ('UNMATCHED', 'MATCHED')),
+    CONSTRAINT "BankStatementLine_matchRule_check" CHECK ("matchRule" IS NULL OR "matchRule" IN ('REFERENCE', 'AMOUNT_DATE', 'MANUAL')),
+    CONSTRAINT "BankStatementLine_match_check" CHECK (("status" = 'MATCHED') = ("paymentId" IS NOT NULL))
+);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'BankStatementProfile_bancaId_fkey') THEN
+    ALTER TABLE "BankStatementProfile"
+      ADD CONSTRAINT "BankStatementProfile_bancaId_fkey"
+      FOREIGN KEY ("bancaId") REFERENCES "Banca"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'BankStatementImport_profileId_fkey') THEN
+    ALTER TABLE "BankStatementImport"
+      ADD CONSTRAINT "BankStatementImport_profileId_fkey"
+      FOREIGN KEY ("profileId") REFERENCES "BankStatementProfile"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'BankStatementLine_importId_fkey') THEN
+    ALTER TABLE "BankStatementLine"
+      ADD CONSTRAINT "BankStatementLine_importId_fkey"
+      FOREIGN KEY ("importId") REFERENCES "BankStatementImport"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'BankStatementLine_paymentId_fkey') THEN
+    ALTER TABLE "BankStatementLine"
+      ADD CONSTRAINT "BankStatementLine_paymentId_fkey"
+      FOREIGN KEY ("paymentId") REFERENCES "AccountPayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+-- 5. Índices (un perfil por nombre, un archivo por hash, una línea por huella, un pago por línea)
+CREATE UNIQUE INDEX IF NOT EXISTS "BankStatementProfile_bancaId_name_key"
+    ON "BankStatementProfile"("bancaId", "name");
+CREATE UNIQUE INDEX IF NOT EXISTS "BankStatementImport_bancaId_fileHash_key"
+    ON "BankStatementImport"("bancaId", "fileHash");
+CREATE INDEX IF NOT EXISTS "BankStatementImport_bancaId_createdAt_idx"
+    ON "BankStatementImport"("bancaId", "createdAt");
+CREATE UNIQUE INDEX IF NOT EXISTS "BankStatementLine_bancaId_fingerprint_key"
+    ON "BankStatementLine"("bancaId", "fingerprint");
+CREATE UNIQUE INDEX IF NOT EXISTS "BankStatementLine_paymentId_key"
+    ON "BankStatementLine"("paymentId");
+CREATE INDEX IF NOT EXISTS "BankStatementLine_bancaId_postedDate_idx"
+    ON "BankStatementLine"("bancaId", "postedDate");
+CREATE INDEX IF NOT EXISTS "BankStatementLine_bancaId_status_idx"
+    ON "BankStatementLine"("bancaId", "status");
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- DROP TABLE IF EXISTS "BankStatementLine";
+-- DROP TABLE IF EXISTS "BankStatementImport";
+-- DROP TABLE IF EXISTS "BankStatementProfile";
+-- ALTER TABLE "AccountPayment" DROP COLUMN IF EXISTS "reference";
@@ -0,0 +1,9 @@
+-- ============================================================================
+-- MIGRACIÓN: API keys globales explícitas ("ApiKey"."isGlobal")
+-- SEGURIDAD: Solo agrega una columna con default false. No toca otros datos.
+--            Las keys sin banca ya emitidas dejan de autenticar: antes tomaban el rol
+--            ADMIN de forma implícita. Un ADMIN debe emitirlas de nuevo como globales.
+-- FECHA: 2026-10-19
+-- ============================================================================
+
+ALTER TABLE "ApiKey" ADD COLUMN IF NOT EXISTS "isGlobal" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,60 @@
+-- ============================================================================
+-- MIGRACIÓN: Límites y montos de reglas de DOUBLE PRECISION a NUMERIC(15,2)
+-- SEGURIDAD: ALTER COLUMN TYPE con redondeo a céntimos (bloqueo exclusivo breve:
+--            tablas pequeñas). Cada valor que cambia queda en "MoneyConversionAudit".
+-- FECHA: 2026-10-19
+-- ============================================================================
+--
+-- Completa 20261019110000_money_decimal: límites de crédito, montos de las reglas de
+-- restricción y apuesta mínima por defecto de la banca. Mismo redondeo (round(valor, 2),
+-- mitad lejos de cero, igual que roundMoney). Ninguna vista lee estas columnas.
+-- Re-ejecutable: solo convierte columnas que sigan en DOUBLE PRECISION.
+
+DO $$
+DECLARE
+  col RECORD;
+BEGIN
+  FOR col IN
+    SELECT c.table_name, c.column_name
+    FROM information_schema.columns c
+    JOIN (VALUES
+      ('CreditLimit', 'softLimit'),
+      ('CreditLimit', 'hardLimit'),
+      ('CreditLimit', 'overrideLimit'),
+      ('RestrictionRule', 'maxAmount'),
+      ('RestrictionRule', 'maxTotal'),
+      ('RestrictionRule', 'baseAmount'),
+      ('Banca', 'defaultMinBet')
+    ) AS m (table_name, column_name)
+      ON m.table_name = c.table_name AND m.column_name = c.column_name
+    WHERE c.table_schema = 'public'
+      AND c.data_type = 'double precision'
+    ORDER BY c.table_name, c.column_name
+  LOOP
+    EXECUTE format(
+      'INSERT INTO "MoneyConversionAudit" ("tableName", "rowId", "columnName", "oldValue", "newValue")
+       SELECT %L, id::text, %L, %I, round(%I::numeric, 2)
+       FROM %I
+       WHERE %I IS NOT NULL AND %I::numeric <> round(%I::numeric, 2)',
+      col.table_name, col.column_name, col.column_name, col.column_name,
+      col.table_name, col.column_name, col.column_name, col.column_name
+    );
+
+    EXECUTE format(
+      'ALTER TABLE %I ALTER COLUMN %I TYPE NUMERIC(15,2) USING round(%I::numeric, 2)',
+      col.table_name, col.column_name, col.column_name
+    );
+  END LOOP;
+END $$;
+
+-- ============================================================================
+-- ROLLBACK (si se necesita revertir)
+-- ============================================================================
+-- Los valores originales de las filas redondeadas están en "MoneyConversionAudit".
+-- ALTER TABLE "CreditLimit" ALTER COLUMN "softLimit" TYPE DOUBLE PRECISION;
+-- ALTER TABLE "CreditLimit" ALTER COLUMN "hardLimit" TYPE DOUBLE PRECISION;
+-- ALTER TABLE "CreditLimit" ALTER COLUMN "overrideLimit" TYPE DOUBLE PRECISION;
+-- ALTER TABLE "RestrictionRule" ALTER COLUMN "maxAmount" TYPE DOUBLE PRECISION;
+-- ALTER TABLE "RestrictionRule" ALTER COLUMN "maxTotal" TYPE DOUBLE PRECISION;
+-- ALTER TABLE "RestrictionRule" ALTER COLUMN "baseAmount" TYPE DOUBLE PRECISION;
+-- ALTER TABLE "Banca" ALTER COLUMN "defaultMinBet" TYPE DOUBLE PRECISION;
@@ -0,0 +1,26 @@
+-- ============================================================================
+-- MIGRACIÓN: Cola de reintentos del libro ("LedgerPendingPost")
+-- SEGURIDAD: Solo crea tabla e índices. No toca datos existentes.
+-- FECHA: 2026-10-19
+-- ============================================================================
+--
+-- Un asiento que falla después de guardarse la operación (evaluación, pago, reset) queda
+-- aquí y el job ledgerRetry lo reintenta. Una fila por origen: un nuevo fallo del mismo
+-- origen reemplaza la solicitud (asentar siempre lleva el libro al estado actual del origen).
+
+CREATE TABLE IF NOT EXISTS "LedgerPendingPost" (
+    "id" UUID NOT NULL,
+    "sourceType" TEXT NOT NULL,
+    "sourceId" TEXT NOT NULL,
+    "request" JSONB NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "lastError" TEXT,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LedgerPendingPost_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "LedgerPendingPost_sourceType_sourceId_key" ON "LedgerPendingPost"("sourceType", "sourceId");
+CREATE INDEX IF NOT EXISTS "LedgerPendingPost_nextAttemptAt_idx" ON "LedgerPendingPost"("nextAttemptAt");
@@ -0,0 +1,12 @@
+-- ============================================================================
+-- MIGRACIÓN: Reintentos persistidos de webhooks ("WebhookDelivery"."nextAttemptAt")
+-- SEGURIDAD: Solo agrega una columna nullable y su índice. No toca datos existentes.
+-- FECHA: 2026-10-19
+-- ============================================================================
+--
+-- Un intento fallido con reintentos disponibles guarda cuándo toca el siguiente; el job
+-- webhookRetry los envía aunque el proceso se haya reiniciado entre intentos.
+
+ALTER TABLE "WebhookDelivery" ADD COLUMN IF NOT EXISTS "nextAttemptAt" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "WebhookDelivery_nextAttemptAt_idx" ON "WebhookDelivery"("nextAttemptAt");
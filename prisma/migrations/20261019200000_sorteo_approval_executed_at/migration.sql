@@ -0,0 +1,13 @@
+-- ============================================================================
+-- MIGRACIÓN: Consumo único de solicitudes aprobadas ("SorteoApproval"."executedAt")
+-- SEGURIDAD: Agrega una columna nullable y la llena en las solicitudes ya ejecutadas.
+-- FECHA: 2026-10-19
+-- ============================================================================
+--
+-- SorteoService marca la solicitud al ejecutarla: una aprobación autoriza una sola
+-- evaluación/reversión y no puede reutilizarse después.
+
+ALTER TABLE "SorteoApproval" ADD COLUMN IF NOT EXISTS "executedAt" TIMESTAMP(3);
+
+-- Las aprobadas antes de esta migración ya se ejecutaron al aprobarse
+UPDATE "SorteoApproval" SET "executedAt" = "decidedAt" WHERE "status" = 'APPROVED' AND "executedAt" IS NULL;
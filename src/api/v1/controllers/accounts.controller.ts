@@ -4,7 +4,7 @@ import { createHash } from "crypto";
 import { AccountsService } from "../services/accounts.service";
 import { AccountsExportService } from "../services/accounts-export.service";
 import { AuthenticatedRequest } from "../../../core/types";
-import { success } from "../../../utils/responses";
+import { accepted, success } from "../../../utils/responses";
 import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
 import { AppError } from "../../../core/errors";
 import { Role, ActivityType } from "../../../generated/prisma/client";
@@ -15,6 +15,8 @@ import { AccountPaymentRepository } from "../../../repositories/accountPayment.r
 import { applyRbacFilters, AuthContext } from "../../../utils/rbac";
 import { ExportFormat } from "../types/accounts-export.types";
 import { StatementResponse } from "../services/accounts/accounts.types";
+import { ExportJobService } from "../services/exportJob.service";
+import { EXPORT_JOB_FORMATS } from "../dto/exportJob.dto";
 
 /**
  * Calcula el ETag para una respuesta de estado de cuenta
@@ -328,7 +330,7 @@ export const AccountsController = {
   async createPayment(req: AuthenticatedRequest, res: Response) {
     const user = req.user!;
     //  CRÍTICO: Agregar bancaId al destructuring
-    const { date, time, ventanaId, vendedorId, bancaId, amount, type, method, notes, isFinal, idempotencyKey } = req.body;
+    const { date, time, ventanaId, vendedorId, bancaId, amount, type, method, notes, reference, isFinal, idempotencyKey } = req.body;
 
     // Validar permisos según rol
     if (user.role === Role.VENDEDOR) {
@@ -490,6 +492,7 @@ export const AccountsController = {
       type,
       method,
       notes,
+      reference,
       isFinal,
       idempotencyKey,
       paidById: user.id,
@@ -1107,6 +1110,7 @@ export const AccountsController = {
       includeBreakdown,
       includeMovements,
       bancaId,
+      async: isAsync,
     } = req.query as any;
 
     const user = req.user;
@@ -1226,6 +1230,28 @@ export const AccountsController = {
       throw new AppError("Rol no permitido", 403, "FORBIDDEN");
     }
 
+    // Exportación en segundo plano: se encola con los filtros ya resueltos por rol
+    if (isAsync) {
+      const { job, reused } = await ExportJobService.enqueue(
+        { source: "accounts", filters },
+        EXPORT_JOB_FORMATS[format],
+        user,
+        {
+          bancaId: filters.bancaId || getActiveBancaId(req) || null,
+          idempotencyKey: req.header("Idempotency-Key"),
+          requestId: req.requestId,
+        }
+      );
+      req.logger?.info({
+        layer: "controller",
+        action: "ACCOUNTS_EXPORT_QUEUED",
+        userId: user.id,
+        requestId: req.requestId,
+        payload: { jobId: job.id, format, reused },
+      });
+      return accepted(res, job);
+    }
+
     // Generar exportación
     const { buffer, filename, mimeType } = await AccountsExportService.export(filters, {
       format: format as ExportFormat,
@@ -1333,6 +1359,17 @@ export const AccountsController = {
       data: { settings: updatedSettings },
     });
 
+    // Libro: el reset es un arrastre que lleva el saldo del vendedor a cero; revertirlo lo revierte
+    const resetAt = revert ? currentSettings.balanceResetAt : updatedSettings.balanceResetAt;
+    const bancaId = vendedor.ventana?.bancaId;
+    if (resetAt && bancaId) {
+      const { AccountLedgerService } = await import("../services/accounts/accounts.ledger");
+      await AccountLedgerService.record("LEDGER_BALANCE_RESET_POSTED", {
+        sourceType: "BALANCE_RESET",
+        reset: { vendedorId, bancaId, balanceResetAt: resetAt, userId: user.id, revert: !!revert },
+      });
+    }
+
     // Invalidar el caché del estado de cuenta para el vendedor a partir de hoy
     const { invalidateAccountStatementCache } = await import("../../../utils/accountStatementCache");
     await invalidateAccountStatementCache({
@@ -0,0 +1,42 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { AlertService } from "../services/alert.service";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import * as responses from "../../../utils/responses";
+
+export const AlertController = {
+  async create(req: AuthenticatedRequest, res: Response) {
+    const alert = await AlertService.create(req.body, req.user!, getActiveBancaId(req));
+    responses.created(res, alert);
+  },
+
+  async findAll(req: AuthenticatedRequest, res: Response) {
+    const result = await AlertService.findAll(req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, result.data, result.meta);
+  },
+
+  async findById(req: AuthenticatedRequest, res: Response) {
+    const alert = await AlertService.findById(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, alert);
+  },
+
+  async update(req: AuthenticatedRequest, res: Response) {
+    const alert = await AlertService.update(req.params.id, req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, alert);
+  },
+
+  async remove(req: AuthenticatedRequest, res: Response) {
+    const result = await AlertService.remove(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+
+  async history(req: AuthenticatedRequest, res: Response) {
+    const result = await AlertService.history(req.params.id, req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, result.data, result.meta);
+  },
+
+  async evaluate(req: AuthenticatedRequest, res: Response) {
+    const result = await AlertService.evaluateNow(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+};
@@ -0,0 +1,32 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { ApiKeyService } from "../services/apiKey.service";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import * as responses from "../../../utils/responses";
+
+export const ApiKeyController = {
+  async create(req: AuthenticatedRequest, res: Response) {
+    const apiKey = await ApiKeyService.create(req.body, req.user!, getActiveBancaId(req));
+    responses.created(res, apiKey);
+  },
+
+  async findAll(req: AuthenticatedRequest, res: Response) {
+    const result = await ApiKeyService.findAll(req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, result.data, result.meta);
+  },
+
+  async findById(req: AuthenticatedRequest, res: Response) {
+    const apiKey = await ApiKeyService.findById(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, apiKey);
+  },
+
+  async update(req: AuthenticatedRequest, res: Response) {
+    const apiKey = await ApiKeyService.update(req.params.id, req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, apiKey);
+  },
+
+  async revoke(req: AuthenticatedRequest, res: Response) {
+    const apiKey = await ApiKeyService.revoke(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, apiKey);
+  },
+};
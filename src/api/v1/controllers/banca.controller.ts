@@ -1,5 +1,6 @@
 import { Request, Response } from "express";
 import { BancaService } from "../services/banca.service";
+import { BancaCloneService } from "../services/bancaClone.service";
 import { AuthenticatedRequest } from "../../../core/types";
 
 export const BancaController = {
@@ -8,6 +9,11 @@ export const BancaController = {
     res.status(201).json({ success: true, data: banca });
   },
 
+  async clone(req: AuthenticatedRequest, res: Response) {
+    const result = await BancaCloneService.clone(req.params.id, req.body, req.user!.id);
+    res.status(result.dryRun ? 200 : 201).json({ success: true, data: result });
+  },
+
   async update(req: AuthenticatedRequest, res: Response) {
     const { id } = req.params;
     const banca = await BancaService.update(id, req.body, req.user!.id, req.user!.role);
@@ -0,0 +1,47 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { BankReconciliationService } from "../services/accounts/accounts.bankReconciliation";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import * as responses from "../../../utils/responses";
+
+export const BankReconciliationController = {
+  async listProfiles(req: AuthenticatedRequest, res: Response) {
+    const profiles = await BankReconciliationService.listProfiles(getActiveBancaId(req));
+    responses.success(res, profiles);
+  },
+
+  async createProfile(req: AuthenticatedRequest, res: Response) {
+    const profile = await BankReconciliationService.createProfile(req.body, req.user!, getActiveBancaId(req));
+    responses.created(res, profile);
+  },
+
+  async updateProfile(req: AuthenticatedRequest, res: Response) {
+    const profile = await BankReconciliationService.updateProfile(req.params.id, req.body, getActiveBancaId(req));
+    responses.success(res, profile);
+  },
+
+  async importStatement(req: AuthenticatedRequest, res: Response) {
+    const summary = await BankReconciliationService.importStatement(req.body, req.user!, getActiveBancaId(req));
+    responses.created(res, summary);
+  },
+
+  async getReconciliation(req: AuthenticatedRequest, res: Response) {
+    const view = await BankReconciliationService.getReconciliation(req.query as any, getActiveBancaId(req));
+    responses.success(res, view);
+  },
+
+  async rematch(req: AuthenticatedRequest, res: Response) {
+    const result = await BankReconciliationService.rematchMonth(req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+
+  async matchLine(req: AuthenticatedRequest, res: Response) {
+    const line = await BankReconciliationService.matchLine(req.params.id, req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, line);
+  },
+
+  async unmatchLine(req: AuthenticatedRequest, res: Response) {
+    const line = await BankReconciliationService.unmatchLine(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, line);
+  },
+};
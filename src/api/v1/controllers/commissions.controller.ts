@@ -3,7 +3,7 @@ import { Response } from "express";
 import { CommissionsService } from "../services/commissions.service";
 import { CommissionsExportService } from "../services/commissions-export.service";
 import { AuthenticatedRequest } from "../../../core/types";
-import { success } from "../../../utils/responses";
+import { accepted, success } from "../../../utils/responses";
 import { Role } from "../../../generated/prisma/client";
 import { AppError } from "../../../core/errors";
 import { resolveDateRange } from "../../../utils/dateRange";
@@ -11,6 +11,8 @@ import { applyRbacFilters, AuthContext } from "../../../utils/rbac";
 import prisma from "../../../core/prismaClient";
 import { ExportFormat } from "../types/commissions-export.types";
 import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import { ExportJobService } from "../services/exportJob.service";
+import { EXPORT_JOB_FORMATS } from "../dto/exportJob.dto";
 
 export const CommissionsController = {
   /**
@@ -463,6 +465,7 @@ export const CommissionsController = {
       dimension,
       includeBreakdown = true,
       includeWarnings = true,
+      async: isAsync,
       ...rest
     } = req.query as any;
 
@@ -537,6 +540,26 @@ export const CommissionsController = {
       }
     }
 
+    // Exportación en segundo plano: se encola con los filtros ya resueltos por RBAC
+    if (isAsync) {
+      const { job, reused } = await ExportJobService.enqueue(
+        { source: "commissions", date: dateStr, fromDate: fromDateStr, toDate: toDateStr, filters, ventanaUserId },
+        EXPORT_JOB_FORMATS[formatStr],
+        req.user,
+        {
+          bancaId: filters.bancaId || context.bancaId,
+          idempotencyKey: req.header("Idempotency-Key"),
+          requestId: req.requestId,
+        }
+      );
+      req.logger?.info({
+        layer: "controller",
+        action: "COMMISSIONS_EXPORT_QUEUED",
+        payload: { jobId: job.id, format: formatStr, reused },
+      });
+      return accepted(res, job);
+    }
+
     // Opciones de exportación
     const options = {
       includeBreakdown: includeBreakdown === true || includeBreakdown === "true",
@@ -0,0 +1,37 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { CreditLimitService } from "../services/creditLimit.service";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import * as responses from "../../../utils/responses";
+
+export const CreditLimitController = {
+  async list(req: AuthenticatedRequest, res: Response) {
+    const limits = await CreditLimitService.list(req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, limits);
+  },
+
+  async status(req: AuthenticatedRequest, res: Response) {
+    const status = await CreditLimitService.status(req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, status);
+  },
+
+  async upsert(req: AuthenticatedRequest, res: Response) {
+    const limit = await CreditLimitService.upsert(req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, limit);
+  },
+
+  async remove(req: AuthenticatedRequest, res: Response) {
+    const result = await CreditLimitService.remove(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+
+  async setOverride(req: AuthenticatedRequest, res: Response) {
+    const limit = await CreditLimitService.setOverride(req.params.id, req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, limit);
+  },
+
+  async clearOverride(req: AuthenticatedRequest, res: Response) {
+    const limit = await CreditLimitService.clearOverride(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, limit);
+  },
+};
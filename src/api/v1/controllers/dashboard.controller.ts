@@ -1,10 +1,13 @@
 import { Response } from "express";
 import { AppError } from "../../../core/errors";
-import { success } from "../../../utils/responses";
+import { accepted, success } from "../../../utils/responses";
 import { AuthenticatedRequest } from "../../../core/types";
 import { Role } from "../../../generated/prisma/client";
 import DashboardService from "../services/dashboard.service";
 import { DashboardExportService } from "../services/dashboard-export.service";
+import { ExportJobService } from "../services/exportJob.service";
+import { GoalService } from "../services/goal.service";
+import { EXPORT_JOB_FORMATS } from "../dto/exportJob.dto";
 import { resolveDateRange } from "../../../utils/dateRange";
 import { validateVentanaUser } from "../../../utils/rbac";
 import prisma from "../../../core/prismaClient";
@@ -457,6 +460,21 @@ export const DashboardController = {
     return success(res, result);
   },
 
+  /**
+   * GET /api/v1/admin/dashboard/goals
+   * Metas activas hoy con avance real vs. meta y proyección al ritmo actual
+   */
+  async getGoals(req: AuthenticatedRequest, res: Response) {
+    if (!req.user) throw new AppError("Unauthorized", 401);
+
+    const result = await GoalService.dashboardBlock(req.user, req.bancaContext?.bancaId || null);
+
+    return success(res, {
+      data: result,
+      meta: { generatedAt: new Date().toISOString() },
+    });
+  },
+
   /**
    * GET /api/v1/admin/dashboard/export
    * Exportar dashboard en CSV/XLSX/PDF
@@ -471,7 +489,11 @@ export const DashboardController = {
     const query = req.query as any;
     const format = query.format || 'csv';
 
-    if (!['csv', 'xlsx', 'pdf'].includes(format)) {
+    if (query.async) {
+      if (!['csv', 'xlsx', 'json'].includes(format)) {
+        throw new AppError("Formato inválido para exportación asíncrona. Use: csv, xlsx, json", 422);
+      }
+    } else if (!['csv', 'xlsx', 'pdf'].includes(format)) {
       throw new AppError("Formato inválido. Use: csv, xlsx, pdf", 422);
     }
 
@@ -481,88 +503,48 @@ export const DashboardController = {
 
     const { ventanaId, vendedorId, bancaId } = await applyDashboardRbac(req, query);
 
-    const [fullDashboard, summaryResult, entitiesResult] = await Promise.all([
-      DashboardService.getFullDashboard({
-        fromDate: dateRange.fromAt,
-        toDate: dateRange.toAt,
-        ventanaId,
-        vendedorId,
-        bancaId,
-        loteriaId: query.loteriaId,
-        betType: query.betType,
-        scope: query.scope || 'all',
-        dimension: query.dimension,
-      }, req.user!.role),
-      DashboardService.calculateDashboardSummary({
-        fromDate: dateRange.fromAt,
-        toDate: dateRange.toAt,
-        ventanaId,
-        bancaId,
-      }),
-      DashboardService.calculateDashboardEntities({
-        fromDate: dateRange.fromAt,
-        toDate: dateRange.toAt,
-        ventanaId,
-        bancaId,
-      }),
-    ]);
-
-    const dashboardData = {
-      meta: {
-        fromAt: dateRange.fromAt.toISOString(),
-        toAt: dateRange.toAt.toISOString(),
-        tz: dateRange.tz || 'America/Costa_Rica',
-        generatedAt: new Date().toISOString(),
-      },
-      summary: {
-        period: {
-          totalSales: summaryResult.kpis.totalSales,
-          totalPayouts: summaryResult.kpis.totalPayouts,
-          commissionVentana: summaryResult.kpis.listeroCommission,
-          commissionUser: summaryResult.kpis.vendedorCommission,
-          totalNet: summaryResult.kpis.totalNet,
-          margin: summaryResult.kpis.margin,
-          totalTickets: summaryResult.kpis.ticketCount,
-          winningTickets: fullDashboard.summary.winningTickets || 0,
-          winRate: fullDashboard.summary.winRate || 0,
+    const exportFilters = {
+      fromDate: dateRange.fromAt,
+      toDate: dateRange.toAt,
+      tz: dateRange.tz,
+      ventanaId,
+      vendedorId,
+      bancaId,
+      loteriaId: query.loteriaId,
+      betType: query.betType,
+      scope: query.scope || 'all',
+      dimension: query.dimension,
+    };
+
+    // Exportación en segundo plano: se encola con los filtros ya resueltos por RBAC
+    if (query.async) {
+      const { job, reused } = await ExportJobService.enqueue(
+        {
+          source: 'dashboard',
+          filters: {
+            ...exportFilters,
+            fromDate: exportFilters.fromDate.toISOString(),
+            toDate: exportFilters.toDate.toISOString(),
+          },
+          role: req.user.role,
         },
-        monthToDate: {
-          totalSales: summaryResult.monthToDate.totalSales,
-          totalPayouts: summaryResult.monthToDate.totalPayouts,
-          commissionVentana: summaryResult.monthToDate.listeroCommission,
-          commissionUser: summaryResult.monthToDate.vendedorCommission,
-          totalNet: summaryResult.monthToDate.totalNet,
-          margin: summaryResult.monthToDate.margin,
+        EXPORT_JOB_FORMATS[format],
+        req.user,
+        {
+          bancaId: bancaId || req.bancaContext?.bancaId || null,
+          idempotencyKey: req.header('Idempotency-Key'),
+          requestId: req.requestId,
         }
-      },
-      balances: {
-        byVentana: summaryResult.byVentana.map((v: any) => ({
-          ventanaName: v.ventanaName,
-          isActive: v.isActive,
-          sales: v.totalSales,
-          payouts: v.totalPayouts,
-          commissionVentana: v.listeroCommission,
-          commissionUser: v.vendedorCommission,
-          net: v.net,
-          margin: v.margin,
-          monthAccumulatedBalance: v.remainingBalance,
-        })),
-        byVendedor: entitiesResult.vendedores.map((v: any) => ({
-          vendedorName: v.vendedorName,
-          ventanaName: v.ventanaName,
-          isActive: v.isActive,
-          sales: v.totalSales,
-          payouts: v.totalPayouts,
-          commissionVentana: v.listeroCommission,
-          commissionUser: v.vendedorCommission,
-          net: v.net,
-          margin: v.margin,
-          monthAccumulatedBalance: v.remainingBalance,
-        }))
-      },
-      timeSeries: fullDashboard.timeSeries,
-      exposure: fullDashboard.exposure
-    };
+      );
+      req.logger?.info({
+        layer: 'controller',
+        action: 'DASHBOARD_EXPORT_QUEUED',
+        payload: { jobId: job.id, format, reused },
+      });
+      return accepted(res, job);
+    }
+
+    const dashboardData = await DashboardExportService.buildExportData(exportFilters, req.user!.role);
 
     const timestamp = tz.toDateStr();
     const filename = `dashboard-${timestamp}.${format}`;
@@ -0,0 +1,52 @@
+import crypto from "crypto";
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { AppError } from "../../../core/errors";
+import { config } from "../../../config";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import { RealtimeEventType, RealtimeService } from "../services/realtime.service";
+
+export const EventsController = {
+  /**
+   * Server-Sent Events. El cliente debe enviar Authorization (y X-Active-Banca-Id) igual que
+   * en el resto del API, por lo que se usa un cliente SSE basado en fetch, no EventSource.
+   */
+  async stream(req: AuthenticatedRequest, res: Response) {
+    if (RealtimeService.connectionCount() >= config.realtime.maxConnections) {
+      throw new AppError("Tiempo real no disponible en este momento, intente más tarde", 503, "REALTIME_UNAVAILABLE");
+    }
+
+    const user = req.user!;
+    const query = req.query as { types?: RealtimeEventType[]; sorteoId?: string };
+
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+    // no-transform: evita que compression acumule el stream
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+    res.write("retry: 5000\n\n");
+
+    const unsubscribe = RealtimeService.subscribe({
+      id: crypto.randomUUID(),
+      userId: user.id,
+      role: user.role,
+      bancaId: getActiveBancaId(req) ?? null,
+      ventanaId: user.ventanaId ?? null,
+      types: query.types?.length ? new Set(query.types) : null,
+      sorteoId: query.sorteoId ?? null,
+      send: (event) => {
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      },
+      close: () => res.end(),
+    });
+
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), config.realtime.heartbeatSeconds * 1000);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  },
+};
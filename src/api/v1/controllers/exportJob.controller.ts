@@ -0,0 +1,40 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { ExportJobService } from "../services/exportJob.service";
+import * as responses from "../../../utils/responses";
+
+export const ExportJobController = {
+  async findAll(req: AuthenticatedRequest, res: Response) {
+    const result = await ExportJobService.findAll(req.query as any, req.user!);
+    responses.success(res, result.data, result.meta);
+  },
+
+  async findById(req: AuthenticatedRequest, res: Response) {
+    const job = await ExportJobService.findById(req.params.id, req.user!);
+    responses.success(res, job);
+  },
+
+  async download(req: AuthenticatedRequest, res: Response) {
+    const file = await ExportJobService.openDownload(req.params.id, req.user!);
+    res.writeHead(200, {
+      "Content-Type": file.mimeType,
+      "Content-Disposition": `attachment; filename="${file.filename}"`,
+      "Content-Length": file.size,
+    });
+    file.stream.on("error", (err) => {
+      req.logger?.error({
+        layer: "controller",
+        action: "EXPORT_JOB_DOWNLOAD_ERROR",
+        payload: { jobId: req.params.id, error: err.message },
+      });
+      res.destroy(err);
+    });
+    req.on("close", () => file.stream.destroy());
+    file.stream.pipe(res);
+  },
+
+  async cancel(req: AuthenticatedRequest, res: Response) {
+    const job = await ExportJobService.cancel(req.params.id, req.user!);
+    responses.success(res, job);
+  },
+};
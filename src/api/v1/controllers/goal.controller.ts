@@ -0,0 +1,37 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { GoalService } from "../services/goal.service";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import * as responses from "../../../utils/responses";
+
+export const GoalController = {
+  async create(req: AuthenticatedRequest, res: Response) {
+    const goal = await GoalService.create(req.body, req.user!, getActiveBancaId(req));
+    responses.created(res, goal);
+  },
+
+  async findAll(req: AuthenticatedRequest, res: Response) {
+    const result = await GoalService.findAll(req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, result.data, result.meta);
+  },
+
+  async findById(req: AuthenticatedRequest, res: Response) {
+    const goal = await GoalService.findById(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, goal);
+  },
+
+  async update(req: AuthenticatedRequest, res: Response) {
+    const goal = await GoalService.update(req.params.id, req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, goal);
+  },
+
+  async remove(req: AuthenticatedRequest, res: Response) {
+    const result = await GoalService.remove(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+
+  async progress(req: AuthenticatedRequest, res: Response) {
+    const result = await GoalService.progress(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+};
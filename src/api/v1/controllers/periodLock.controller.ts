@@ -0,0 +1,22 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { PeriodLockService } from "../services/accounts/accounts.periodLocks";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import * as responses from "../../../utils/responses";
+
+export const PeriodLockController = {
+  async list(req: AuthenticatedRequest, res: Response) {
+    const result = await PeriodLockService.list(req.query as any, getActiveBancaId(req));
+    responses.success(res, result.data, result.meta);
+  },
+
+  async lock(req: AuthenticatedRequest, res: Response) {
+    const result = await PeriodLockService.lock(req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+
+  async reopen(req: AuthenticatedRequest, res: Response) {
+    const lock = await PeriodLockService.reopen(req.params.id, req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, lock);
+  },
+};
@@ -177,6 +177,35 @@ export const ReportsController = {
     return success(res, result.data, result.meta);
   },
 
+  /**
+   * GET /api/v1/reports/tickets/forfeited-prizes
+   * Premios vencidos sin cobrar, por ventana
+   */
+  async getForfeitedPrizes(req: AuthenticatedRequest, res: Response) {
+    const query = req.query as any;
+
+    // Aplicar RBAC
+    const context: AuthContext = {
+      userId: req.user!.id,
+      role: req.user!.role,
+      ventanaId: req.user!.ventanaId,
+      bancaId: getActiveBancaId(req),
+    };
+    const effectiveFilters = await applyRbacFilters(context, query);
+
+    const result = await TicketsReportService.getForfeitedPrizes({
+      date: query.date || 'today',
+      fromDate: query.fromDate,
+      toDate: query.toDate,
+      ventanaId: effectiveFilters.ventanaId || undefined,
+      vendedorId: effectiveFilters.vendedorId,
+      bancaId: effectiveFilters.bancaId,
+      loteriaId: query.loteriaId,
+    });
+
+    return success(res, result.data, result.meta);
+  },
+
   /**
    * GET /api/v1/reports/loterias/performance
    * Rendimiento y rentabilidad por lotería
@@ -1,6 +1,8 @@
 import { Response } from "express";
 import { AuthenticatedRequest } from "../../../core/types";
 import { RestrictionRuleService } from "../services/restrictionRule.service";
+import { HotNumberService } from "../services/hotNumber.service";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
 import { rehydrateRedisAccumulated } from "../../../repositories/helpers/ticket-restriction.helper";
 import { applyRbacFilters, AuthContext, RequestFilters } from "../../../utils/rbac";
 import prisma from "../../../core/prismaClient";
@@ -277,6 +279,21 @@ export const RestrictionRuleController = {
     responses.success(res, result);
   },
 
+  async hotNumbers(req: AuthenticatedRequest, res: Response) {
+    const result = await HotNumberService.board(req.query as any, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+
+  async getHotNumberPolicy(req: AuthenticatedRequest, res: Response) {
+    const policy = await HotNumberService.getPolicy(getActiveBancaId(req));
+    responses.success(res, policy);
+  },
+
+  async updateHotNumberPolicy(req: AuthenticatedRequest, res: Response) {
+    const policy = await HotNumberService.updatePolicy(req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, policy);
+  },
+
   async rehydrateRedis(req: AuthenticatedRequest, res: Response) {
     const { sorteoId } = req.params;
     
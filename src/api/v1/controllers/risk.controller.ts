@@ -0,0 +1,37 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { RiskService } from "../services/risk.service";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import * as responses from "../../../utils/responses";
+
+export const RiskController = {
+  async exposure(req: AuthenticatedRequest, res: Response) {
+    const result = await RiskService.exposure(req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+
+  async listPositions(req: AuthenticatedRequest, res: Response) {
+    const result = await RiskService.listPositions(req.query as any, getActiveBancaId(req));
+    responses.success(res, result.data, result.meta);
+  },
+
+  async createPosition(req: AuthenticatedRequest, res: Response) {
+    const position = await RiskService.createPosition(req.body, req.user!, getActiveBancaId(req));
+    responses.created(res, position);
+  },
+
+  async cancelPosition(req: AuthenticatedRequest, res: Response) {
+    const position = await RiskService.cancelPosition(req.params.id, req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, position);
+  },
+
+  async getPolicy(req: AuthenticatedRequest, res: Response) {
+    const policy = await RiskService.getPolicy(getActiveBancaId(req));
+    responses.success(res, policy);
+  },
+
+  async updatePolicy(req: AuthenticatedRequest, res: Response) {
+    const policy = await RiskService.updatePolicy(req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, policy);
+  },
+};
@@ -0,0 +1,85 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { SavedReportService } from "../services/savedReport.service";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import * as responses from "../../../utils/responses";
+
+export const SavedReportController = {
+  async create(req: AuthenticatedRequest, res: Response) {
+    const report = await SavedReportService.create(req.body, req.user!, getActiveBancaId(req));
+    responses.created(res, report);
+  },
+
+  async findAll(req: AuthenticatedRequest, res: Response) {
+    const result = await SavedReportService.findAll(req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, result.data, result.meta);
+  },
+
+  async findById(req: AuthenticatedRequest, res: Response) {
+    const report = await SavedReportService.findById(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, report);
+  },
+
+  async update(req: AuthenticatedRequest, res: Response) {
+    const report = await SavedReportService.update(req.params.id, req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, report);
+  },
+
+  async remove(req: AuthenticatedRequest, res: Response) {
+    const result = await SavedReportService.remove(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+
+  /** Genera el reporte ahora y lo descarga como archivo */
+  async run(req: AuthenticatedRequest, res: Response) {
+    const file = await SavedReportService.runNow(
+      req.params.id,
+      (req.query as any).format,
+      req.user!,
+      getActiveBancaId(req)
+    );
+    res.writeHead(200, {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.fileName}"`,
+      "Content-Length": file.content.length,
+      "X-Report-Run-Id": file.runId,
+    });
+    res.end(file.content);
+  },
+
+  async runs(req: AuthenticatedRequest, res: Response) {
+    const result = await SavedReportService.runs(req.params.id, req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, result.data, result.meta);
+  },
+
+  async listSchedules(req: AuthenticatedRequest, res: Response) {
+    const schedules = await SavedReportService.listSchedules(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, schedules);
+  },
+
+  async createSchedule(req: AuthenticatedRequest, res: Response) {
+    const schedule = await SavedReportService.createSchedule(req.params.id, req.body, req.user!, getActiveBancaId(req));
+    responses.created(res, schedule);
+  },
+
+  async updateSchedule(req: AuthenticatedRequest, res: Response) {
+    const schedule = await SavedReportService.updateSchedule(
+      req.params.id,
+      req.params.scheduleId,
+      req.body,
+      req.user!,
+      getActiveBancaId(req)
+    );
+    responses.success(res, schedule);
+  },
+
+  async removeSchedule(req: AuthenticatedRequest, res: Response) {
+    const result = await SavedReportService.removeSchedule(
+      req.params.id,
+      req.params.scheduleId,
+      req.user!,
+      getActiveBancaId(req)
+    );
+    responses.success(res, result);
+  },
+};
@@ -1,5 +1,6 @@
 import { Response } from "express";
 import SorteoService from "../services/sorteo.service";
+import SorteoPayoutSimulationService from "../services/sorteoPayoutSimulation.service";
 import { AuthenticatedRequest } from "../../../core/types";
 
 export const SorteoController = {
@@ -56,6 +57,8 @@ export const SorteoController = {
       bancaId,
       req.user!.role
     );
+    // Banca con doble control: queda pendiente hasta que otro usuario apruebe
+    if ("approval" in s) return res.status(202).json({ success: true, data: s.approval });
     res.json({ success: true, data: s });
   },
 
@@ -213,9 +216,32 @@ export const SorteoController = {
       bancaId,
       req.user!.role
     );
+    if ("approval" in s) return res.status(202).json({ success: true, data: s.approval });
     res.json({ success: true, data: s });
   },
 
+  async payoutSimulation(req: AuthenticatedRequest, res: Response) {
+    const bancaId = req.bancaContext?.bancaId ?? undefined;
+    const result = await SorteoPayoutSimulationService.simulate(
+      req.params.id,
+      req.query as any,
+      bancaId,
+      req.user!.role
+    );
+    res.json({ success: true, data: result });
+  },
+
+  async payoutMatrix(req: AuthenticatedRequest, res: Response) {
+    const bancaId = req.bancaContext?.bancaId ?? undefined;
+    const result = await SorteoPayoutSimulationService.matrix(
+      req.params.id,
+      req.query as any,
+      bancaId,
+      req.user!.role
+    );
+    res.json({ success: true, data: result });
+  },
+
   async evaluatedSummary(req: AuthenticatedRequest, res: Response) {
     const { date, fromDate, toDate, scope, loteriaId, status, isActive, ignoreReset, summaryOnly, initialAccumulated } = req.query as any;
 
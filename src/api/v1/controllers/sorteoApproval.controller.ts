@@ -0,0 +1,27 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { SorteoApprovalService } from "../services/sorteoApproval.service";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import * as responses from "../../../utils/responses";
+
+export const SorteoApprovalController = {
+  async findAll(req: AuthenticatedRequest, res: Response) {
+    const result = await SorteoApprovalService.findAll(req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, result.data, result.meta);
+  },
+
+  async findById(req: AuthenticatedRequest, res: Response) {
+    const approval = await SorteoApprovalService.findById(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, approval);
+  },
+
+  async approve(req: AuthenticatedRequest, res: Response) {
+    const result = await SorteoApprovalService.approve(req.params.id, req.body ?? {}, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+
+  async reject(req: AuthenticatedRequest, res: Response) {
+    const approval = await SorteoApprovalService.reject(req.params.id, req.body ?? {}, req.user!, getActiveBancaId(req));
+    responses.success(res, approval);
+  },
+};
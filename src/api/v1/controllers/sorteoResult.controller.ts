@@ -0,0 +1,32 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { SorteoResultService } from "../services/sorteoResult.service";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import * as responses from "../../../utils/responses";
+
+export const SorteoResultController = {
+  async findAll(req: AuthenticatedRequest, res: Response) {
+    const result = await SorteoResultService.findAll(req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, result.data, result.meta);
+  },
+
+  async findById(req: AuthenticatedRequest, res: Response) {
+    const result = await SorteoResultService.findById(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+
+  async submit(req: AuthenticatedRequest, res: Response) {
+    const result = await SorteoResultService.submit(req.body, req.user!, getActiveBancaId(req));
+    responses.created(res, result);
+  },
+
+  async confirm(req: AuthenticatedRequest, res: Response) {
+    const result = await SorteoResultService.confirm(req.params.id, req.body ?? {}, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+
+  async reject(req: AuthenticatedRequest, res: Response) {
+    const result = await SorteoResultService.reject(req.params.id, req.body ?? {}, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+};
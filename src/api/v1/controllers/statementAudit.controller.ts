@@ -0,0 +1,17 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { StatementAuditService } from "../services/accounts/accounts.audit";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import * as responses from "../../../utils/responses";
+
+export const StatementAuditController = {
+  async list(req: AuthenticatedRequest, res: Response) {
+    const result = await StatementAuditService.listFindings(req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, result.data, result.meta);
+  },
+
+  async run(req: AuthenticatedRequest, res: Response) {
+    const run = await StatementAuditService.runOnDemand(req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, run);
+  },
+};
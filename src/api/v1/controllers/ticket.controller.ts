@@ -2,7 +2,7 @@
 import { Response } from "express";
 import { TicketService } from "../services/ticket.service";
 import { AuthenticatedRequest } from "../../../core/types";
-import { success } from "../../../utils/responses";
+import { accepted, success } from "../../../utils/responses";
 import { Role } from "../../../generated/prisma/client";
 import { resolveDateRange, DateRangeResolution } from "../../../utils/dateRange";
 import { applyRbacFilters, AuthContext, RequestFilters } from "../../../utils/rbac";
@@ -292,7 +292,12 @@ export const TicketController = {
   async cancel(req: AuthenticatedRequest, res: Response) {
     const userId = req.user!.id;
     const bancaId = req.bancaContext?.bancaId || undefined;
-    const result = await TicketService.cancel(req.params.id, userId, req.requestId, bancaId);
+    const result = await TicketService.cancel(req.params.id, userId, req.requestId, bancaId, {
+      role: req.user!.role,
+      reason: req.body?.reason,
+    });
+    // Fuera de política: 202 con la solicitud pendiente de aprobación
+    if ("cancelRequest" in result) return accepted(res, result.cancelRequest);
     return success(res, result);
   },
 
@@ -323,8 +328,11 @@ export const TicketController = {
       ticketId,
       req.body,
       userId,
-      req.requestId
+      req.requestId,
+      { role: req.user!.role, ventanaId: req.user!.ventanaId }
     );
+    // Sobre el umbral de la banca: queda pendiente de aprobación
+    if ("payoutRequest" in result) return accepted(res, result.payoutRequest);
     return success(res, result);
   },
 
@@ -0,0 +1,43 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { TicketCancellationService } from "../services/ticketCancellation.service";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import * as responses from "../../../utils/responses";
+
+export const TicketCancellationController = {
+  async findAll(req: AuthenticatedRequest, res: Response) {
+    const result = await TicketCancellationService.findAll(req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, result.data, result.meta);
+  },
+
+  async findById(req: AuthenticatedRequest, res: Response) {
+    const request = await TicketCancellationService.findById(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, request);
+  },
+
+  async approve(req: AuthenticatedRequest, res: Response) {
+    const result = await TicketCancellationService.approve(
+      req.params.id,
+      req.body ?? {},
+      req.user!,
+      getActiveBancaId(req),
+      req.requestId
+    );
+    responses.success(res, result);
+  },
+
+  async reject(req: AuthenticatedRequest, res: Response) {
+    const request = await TicketCancellationService.reject(req.params.id, req.body ?? {}, req.user!, getActiveBancaId(req));
+    responses.success(res, request);
+  },
+
+  async getPolicy(req: AuthenticatedRequest, res: Response) {
+    const policy = await TicketCancellationService.getPolicy(req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, policy);
+  },
+
+  async updatePolicy(req: AuthenticatedRequest, res: Response) {
+    const policy = await TicketCancellationService.updatePolicy(req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, policy);
+  },
+};
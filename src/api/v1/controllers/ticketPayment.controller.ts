@@ -1,6 +1,6 @@
 import { Request, Response } from "express";
 import { AppError } from "../../../core/errors";
-import { success, created } from "../../../utils/responses";
+import { success, created, accepted } from "../../../utils/responses";
 import { AuthenticatedRequest } from "../../../core/types";
 import ActivityService from "../../../core/activity.service";
 import TicketPaymentService from "../services/ticketPayment.service";
@@ -28,6 +28,9 @@ export const TicketPaymentController = {
       ventanaId: req.user.ventanaId,
     });
 
+    // Sobre el umbral de la banca: queda pendiente de aprobación (202)
+    if ("payoutRequest" in result) return accepted(res, result.payoutRequest);
+
     // Verificar si es una respuesta cacheada (pago duplicado con idempotencyKey)
     const isCached = (result as any).cached === true;
     const statusCode = isCached ? 200 : 201;
@@ -0,0 +1,61 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { TicketPayoutService } from "../services/ticketPayout.service";
+import { TicketExpiryService } from "../services/ticketExpiry.service";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import * as responses from "../../../utils/responses";
+
+export const TicketPayoutController = {
+  async lookup(req: AuthenticatedRequest, res: Response) {
+    const result = await TicketPayoutService.lookup(req.body.code, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+
+  async pay(req: AuthenticatedRequest, res: Response) {
+    const result = await TicketPayoutService.pay(req.body, req.user!, getActiveBancaId(req), req.requestId);
+    // Sobre el umbral de la banca: queda pendiente de aprobación
+    if ("payoutRequest" in result) return responses.accepted(res, result.payoutRequest);
+    responses.success(res, result);
+  },
+
+  async findAll(req: AuthenticatedRequest, res: Response) {
+    const result = await TicketPayoutService.findAll(req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, result.data, result.meta);
+  },
+
+  async findById(req: AuthenticatedRequest, res: Response) {
+    const request = await TicketPayoutService.findById(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, request);
+  },
+
+  async approve(req: AuthenticatedRequest, res: Response) {
+    const result = await TicketPayoutService.approve(
+      req.params.id,
+      req.body ?? {},
+      req.user!,
+      getActiveBancaId(req),
+      req.requestId
+    );
+    responses.success(res, result);
+  },
+
+  async reject(req: AuthenticatedRequest, res: Response) {
+    const request = await TicketPayoutService.reject(req.params.id, req.body ?? {}, req.user!, getActiveBancaId(req));
+    responses.success(res, request);
+  },
+
+  async getPolicy(req: AuthenticatedRequest, res: Response) {
+    const policy = await TicketPayoutService.getPolicy(req.user!, getActiveBancaId(req));
+    responses.success(res, policy);
+  },
+
+  async updatePolicy(req: AuthenticatedRequest, res: Response) {
+    const policy = await TicketPayoutService.updatePolicy(req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, policy);
+  },
+
+  async extendClaim(req: AuthenticatedRequest, res: Response) {
+    const result = await TicketExpiryService.extendClaim(req.params.ticketId, req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+};
@@ -0,0 +1,12 @@
+import { Request, Response } from "express";
+import { success } from "../../../utils/responses";
+import { TicketVerificationService } from "../services/ticketVerification.service";
+
+export const TicketVerificationController = {
+  async verify(req: Request, res: Response) {
+    const result = await TicketVerificationService.verify(req.params.token);
+    // El estado cambia al evaluar/pagar: no cachear en proxies
+    res.setHeader("Cache-Control", "no-store");
+    return success(res, result);
+  },
+};
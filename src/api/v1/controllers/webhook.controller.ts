@@ -0,0 +1,52 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../../../core/types";
+import { WebhookService } from "../services/webhook.service";
+import { getActiveBancaId } from "../../../middlewares/bancaContext.middleware";
+import * as responses from "../../../utils/responses";
+
+export const WebhookController = {
+  async create(req: AuthenticatedRequest, res: Response) {
+    const webhook = await WebhookService.create(req.body, req.user!, getActiveBancaId(req));
+    responses.created(res, webhook);
+  },
+
+  async findAll(req: AuthenticatedRequest, res: Response) {
+    const result = await WebhookService.findAll(req.query as any, req.user!, getActiveBancaId(req));
+    responses.success(res, result.data, result.meta);
+  },
+
+  async findById(req: AuthenticatedRequest, res: Response) {
+    const webhook = await WebhookService.findById(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, webhook);
+  },
+
+  async update(req: AuthenticatedRequest, res: Response) {
+    const webhook = await WebhookService.update(req.params.id, req.body, req.user!, getActiveBancaId(req));
+    responses.success(res, webhook);
+  },
+
+  async delete(req: AuthenticatedRequest, res: Response) {
+    const result = await WebhookService.remove(req.params.id, req.user!, getActiveBancaId(req));
+    responses.success(res, result);
+  },
+
+  async listDeliveries(req: AuthenticatedRequest, res: Response) {
+    const result = await WebhookService.listDeliveries(
+      req.params.id,
+      req.query as any,
+      req.user!,
+      getActiveBancaId(req)
+    );
+    responses.success(res, result.data, result.meta);
+  },
+
+  async redeliver(req: AuthenticatedRequest, res: Response) {
+    const result = await WebhookService.redeliver(
+      req.params.id,
+      req.params.deliveryId,
+      req.user!,
+      getActiveBancaId(req)
+    );
+    responses.success(res, result);
+  },
+};
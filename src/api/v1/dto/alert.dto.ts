@@ -0,0 +1,32 @@
+import { AlertCondition } from "../../../services/alerts/types";
+
+/** Ámbitos sobre los que puede definirse una alerta */
+export const ALERT_DIMENSIONS = ["banca", "ventana", "vendedor", "sorteo"] as const;
+
+export type AlertDimension = (typeof ALERT_DIMENSIONS)[number];
+
+export type CreateAlertInput = {
+  name: string;
+  dimension: AlertDimension;
+  targetId?: string | null;
+  condition: AlertCondition;
+  notifyEmail?: string | null;
+  notifyWebhook?: string | null;
+  isActive?: boolean;
+};
+
+export type UpdateAlertInput = Partial<CreateAlertInput>;
+
+export type ListAlertsQuery = {
+  page?: number;
+  pageSize?: number;
+  isActive?: boolean;
+  dimension?: AlertDimension;
+};
+
+export type ListAlertHistoryQuery = {
+  page?: number;
+  pageSize?: number;
+  from?: Date;
+  to?: Date;
+};
@@ -0,0 +1,22 @@
+import { ApiKeyScope } from "../../../utils/apiKeyScopes";
+
+export type CreateApiKeyInput = {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date | null;
+  bancaId?: string | null;
+  /** Key global con rol ADMIN (solo ADMIN puede emitirla) */
+  global?: boolean;
+};
+
+export type UpdateApiKeyInput = {
+  name?: string;
+  scopes?: ApiKeyScope[];
+  expiresAt?: Date | null;
+};
+
+export type ListApiKeysQuery = {
+  page?: number;
+  pageSize?: number;
+  isActive?: boolean;
+};
@@ -10,6 +10,8 @@ export type CreateBancaInput = {
   salesCutoffMinutes?: number;
   vendorLimit?: number;
   maxSessionsPerVendedor?: number;
+  resultsDualConfirmation?: boolean;
+  evaluationDualControl?: boolean;
   importBaseLoterias?: boolean;
   username?: string;
   password?: string;
@@ -17,6 +19,16 @@ export type CreateBancaInput = {
 
 export type UpdateBancaInput = Partial<CreateBancaInput>;
 
+/** Alta de una banca copiando la configuración de otra (plantilla); dryRun solo resume */
+export type CloneBancaInput = {
+  name: string;
+  code: string;
+  email?: string;
+  address?: string;
+  phone?: string;
+  dryRun?: boolean;
+};
+
 // (Opcional) Back-compat aliases si en algún lado usaron otros nombres:
 export type CreateBancaDTO = CreateBancaInput;
 export type UpdateBancaDTO = UpdateBancaInput;
@@ -0,0 +1,38 @@
+import { BankDateFormat, BankStatementFormat } from "../services/accounts/accounts.bankReconciliation.helpers";
+
+/** Perfil de un banco: en CSV, monto con signo (amountColumn) o columnas de crédito y débito */
+export type CreateBankProfileInput = {
+  name: string;
+  bankName?: string | null;
+  format: BankStatementFormat;
+  delimiter?: string;
+  skipRows?: number;
+  dateColumn?: string | null;
+  dateFormat?: BankDateFormat;
+  amountColumn?: string | null;
+  creditColumn?: string | null;
+  debitColumn?: string | null;
+  referenceColumn?: string | null;
+  descriptionColumn?: string | null;
+  decimalSeparator?: "." | ",";
+  dateToleranceDays?: number;
+};
+
+export type UpdateBankProfileInput = Partial<CreateBankProfileInput> & {
+  isActive?: boolean;
+};
+
+/** Contenido del archivo como texto (el API solo acepta JSON) */
+export type ImportBankStatementInput = {
+  profileId: string;
+  fileName: string;
+  content: string;
+};
+
+export type BankReconciliationQuery = {
+  month: string; // YYYY-MM
+};
+
+export type MatchBankLineInput = {
+  paymentId: string;
+};
@@ -0,0 +1,28 @@
+/**
+ * Límite de crédito de un vendedor o, sin vendedorId, consolidado de la ventana.
+ * softLimit solo advierte en la venta; hardLimit la bloquea. null = sin ese límite.
+ */
+export type UpsertCreditLimitInput = {
+  ventanaId: string;
+  vendedorId?: string;
+  softLimit: number | null;
+  hardLimit: number | null;
+};
+
+/** Ampliación temporal del límite duro autorizada por la banca */
+export type CreditOverrideInput = {
+  limit: number;
+  until: string;
+  reason: string;
+};
+
+export type ListCreditLimitsQuery = {
+  ventanaId?: string;
+  vendedorId?: string;
+};
+
+/** Exposición actual de un vendedor (o de la ventana si no se indica vendedor) */
+export type CreditStatusQuery = {
+  ventanaId?: string;
+  vendedorId?: string;
+};
@@ -0,0 +1,61 @@
+import { ExportFormat, JobStatus, Role } from "../../../generated/prisma/client";
+import { AccountsFilters } from "../services/accounts/accounts.types";
+
+/** Exportaciones que pueden generarse en segundo plano */
+export const EXPORT_JOB_SOURCES = ["accounts", "commissions", "dashboard"] as const;
+
+export type ExportJobSource = (typeof EXPORT_JOB_SOURCES)[number];
+
+/** Formato del query (?format=) → formato del ExportJob. PDF no se genera en segundo plano */
+export const EXPORT_JOB_FORMATS: Record<string, ExportFormat> = {
+  csv: ExportFormat.CSV,
+  excel: ExportFormat.XLSX,
+  xlsx: ExportFormat.XLSX,
+  json: ExportFormat.JSON,
+};
+
+export type CommissionsExportJobFilters = {
+  scope: string;
+  dimension: string;
+  ventanaId?: string;
+  vendedorId?: string;
+  bancaId?: string;
+};
+
+/**
+ * Definición persistida en ExportJob.filters. Los filtros ya vienen resueltos
+ * por RBAC en el endpoint original; el worker no vuelve a aplicar permisos.
+ */
+export type ExportJobDefinition =
+  | { source: "accounts"; filters: AccountsFilters }
+  | {
+      source: "commissions";
+      date: string;
+      fromDate?: string;
+      toDate?: string;
+      filters: CommissionsExportJobFilters;
+      ventanaUserId?: string;
+    }
+  | {
+      source: "dashboard";
+      // Fechas en ISO (JSON no conserva Date)
+      filters: {
+        fromDate: string;
+        toDate: string;
+        tz?: string;
+        ventanaId?: string;
+        vendedorId?: string;
+        bancaId?: string;
+        loteriaId?: string;
+        betType?: string;
+        scope?: string;
+        dimension?: string;
+      };
+      role: Role;
+    };
+
+export type ListExportJobsQuery = {
+  page?: number;
+  pageSize?: number;
+  status?: JobStatus;
+};
@@ -0,0 +1,38 @@
+/** Ámbitos sobre los que puede fijarse una meta */
+export const GOAL_DIMENSIONS = ["banca", "ventana", "vendedor", "loteria"] as const;
+
+/** Métricas medibles: ventas, comisión del ámbito o ganancia neta de la banca */
+export const GOAL_METRICS = ["sales", "commission", "profit"] as const;
+
+/**
+ * daily/weekly/monthly derivan endDate desde startDate;
+ * custom requiere endDate explícito.
+ */
+export const GOAL_PERIODS = ["daily", "weekly", "monthly", "custom"] as const;
+
+export type GoalDimension = (typeof GOAL_DIMENSIONS)[number];
+export type GoalMetric = (typeof GOAL_METRICS)[number];
+export type GoalPeriod = (typeof GOAL_PERIODS)[number];
+
+export type CreateGoalInput = {
+  name: string;
+  dimension: GoalDimension;
+  targetId?: string | null;
+  metric: GoalMetric;
+  targetValue: number;
+  period: GoalPeriod;
+  startDate: string; // YYYY-MM-DD (hora CR)
+  endDate?: string; // YYYY-MM-DD, requerido si period=custom
+  isActive?: boolean;
+};
+
+export type UpdateGoalInput = Partial<CreateGoalInput>;
+
+export type ListGoalsQuery = {
+  page?: number;
+  pageSize?: number;
+  isActive?: boolean;
+  dimension?: GoalDimension;
+  metric?: GoalMetric;
+  activeOn?: string; // YYYY-MM-DD: metas cuyo rango incluye ese día
+};
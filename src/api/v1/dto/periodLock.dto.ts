@@ -0,0 +1,18 @@
+import { PeriodLockStatus, PeriodType } from "../services/accounts/accounts.periodLocks.helpers";
+
+/** Bloquea el período (día, semana ISO o mes) que contiene `date` (YYYY-MM-DD) */
+export type CreatePeriodLockInput = {
+  periodType: PeriodType;
+  date: string;
+};
+
+export type ReopenPeriodLockInput = {
+  reason: string;
+};
+
+export type ListPeriodLocksQuery = {
+  status?: PeriodLockStatus;
+  periodType?: PeriodType;
+  page?: number;
+  pageSize?: number;
+};
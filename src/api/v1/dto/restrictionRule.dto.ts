@@ -1,3 +1,5 @@
+import { HotNumberPolicy } from "../../../types/schemas/databaseJson.schema";
+
 export type CreateRestrictionRuleInput = {
   bancaId?: string;
   ventanaId?: string;
@@ -19,3 +21,13 @@ export type CreateRestrictionRuleInput = {
 };
 
 export type UpdateRestrictionRuleInput = Partial<CreateRestrictionRuleInput>;
+
+/** Tablero de números calientes de la banca activa en un sorteo */
+export type HotNumbersQuery = {
+  sorteoId: string;
+  onlyHot?: boolean;
+};
+
+export type UpdateHotNumberPolicyInput = {
+  policy: HotNumberPolicy | null;
+};
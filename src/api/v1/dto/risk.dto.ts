@@ -0,0 +1,33 @@
+import { RiskPolicy } from "../../../types/schemas/databaseJson.schema";
+
+/** Riesgo por número de un sorteo abierto; maxLoss reemplaza el de la política */
+export type RiskExposureQuery = {
+  sorteoId: string;
+  maxLoss?: number;
+};
+
+/** Cesión de parte de la apuesta de un número a otra banca (registrada, no enviada) */
+export type CreateLayOffInput = {
+  sorteoId: string;
+  number: string;
+  amount: number;
+  multiplierX?: number;
+  commissionPercent?: number;
+  counterparty: string;
+  notes?: string;
+};
+
+export type CancelLayOffInput = {
+  reason: string;
+};
+
+export type ListLayOffsQuery = {
+  sorteoId?: string;
+  status?: "ACTIVE" | "CANCELLED";
+  page?: number;
+  pageSize?: number;
+};
+
+export type UpdateRiskPolicyInput = {
+  policy: RiskPolicy | null;
+};
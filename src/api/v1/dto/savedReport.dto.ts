@@ -0,0 +1,91 @@
+/**
+ * Endpoints de reporte que pueden guardarse y programarse.
+ * La clave es la ruta del endpoint original (bajo /api/v1).
+ */
+export const SAVED_REPORT_TYPES = [
+  "/reports/tickets/summary",
+  "/reports/ventanas/ranking",
+  "/cierres/weekly",
+  "/admin/dashboard",
+] as const;
+
+export type SavedReportType = (typeof SAVED_REPORT_TYPES)[number];
+
+/** Periodos relativos, resueltos en hora CR al momento de ejecutar */
+export const REPORT_PERIODS = [
+  "today",
+  "yesterday",
+  "last_7_days",
+  "this_week",
+  "last_week",
+  "this_month",
+  "last_month",
+] as const;
+
+export type ReportPeriod = (typeof REPORT_PERIODS)[number];
+
+export const REPORT_FORMATS = ["xlsx", "csv", "pdf"] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+/** Formatos que soporta el exportador de cada reporte */
+export const REPORT_FORMATS_BY_TYPE: Record<SavedReportType, ReportFormat[]> = {
+  "/reports/tickets/summary": ["xlsx", "csv"],
+  "/reports/ventanas/ranking": ["xlsx", "csv"],
+  "/cierres/weekly": ["xlsx"],
+  "/admin/dashboard": ["xlsx", "csv", "pdf"],
+};
+
+export const REPORT_FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY"] as const;
+
+export type ReportFrequency = (typeof REPORT_FREQUENCIES)[number];
+
+/**
+ * Contenido de SavedReport.filters.
+ * `params` son los query params del endpoint original, sin las fechas
+ * (se calculan a partir de `period`).
+ */
+export type SavedReportFilters = {
+  report: SavedReportType;
+  period: ReportPeriod;
+  params: Record<string, string>;
+};
+
+export type CreateSavedReportInput = {
+  name: string;
+  report: SavedReportType;
+  period: ReportPeriod;
+  params?: Record<string, string>;
+  isActive?: boolean;
+};
+
+export type UpdateSavedReportInput = Partial<CreateSavedReportInput>;
+
+export type ListSavedReportsQuery = {
+  page?: number;
+  pageSize?: number;
+  isActive?: boolean;
+  report?: SavedReportType;
+};
+
+export type CreateReportScheduleInput = {
+  frequency: ReportFrequency;
+  timeOfDay: string; // HH:mm hora CR
+  dayOfWeek?: number | null; // 1=lunes … 7=domingo (WEEKLY)
+  dayOfMonth?: number | null; // 1-28 (MONTHLY)
+  format: ReportFormat;
+  recipients: string[];
+  isActive?: boolean;
+};
+
+export type UpdateReportScheduleInput = Partial<CreateReportScheduleInput>;
+
+export type ListReportRunsQuery = {
+  page?: number;
+  pageSize?: number;
+  status?: "RUNNING" | "SUCCESS" | "FAILED";
+};
+
+export type RunSavedReportQuery = {
+  format?: ReportFormat;
+};
@@ -0,0 +1,36 @@
+export const SORTEO_APPROVAL_ACTIONS = ["EVALUATE", "REVERT"] as const;
+export type SorteoApprovalAction = (typeof SORTEO_APPROVAL_ACTIONS)[number];
+
+/**
+ * PENDING → APPROVED (ejecutada) | REJECTED | EXPIRED | FAILED (aprobada pero la ejecución falló)
+ */
+export const SORTEO_APPROVAL_STATUSES = ["PENDING", "APPROVED", "REJECTED", "EXPIRED", "FAILED"] as const;
+export type SorteoApprovalStatus = (typeof SORTEO_APPROVAL_STATUSES)[number];
+
+/** Datos propuestos, según la acción */
+export type SorteoApprovalPayload =
+  | { winningNumber: string; extraMultiplierId?: string | null; extraOutcomeCode?: string | null }
+  | { reason?: string | null };
+
+export type ApproveSorteoApprovalInput = {
+  /**
+   * Para EVALUATE el aprobador vuelve a digitar el número y el multiplicador extra;
+   * deben coincidir con lo propuesto
+   */
+  winningNumber?: string;
+  extraMultiplierId?: string | null;
+  extraOutcomeCode?: string | null;
+  note?: string;
+};
+
+export type RejectSorteoApprovalInput = {
+  note?: string;
+};
+
+export type ListSorteoApprovalsQuery = {
+  page?: number;
+  pageSize?: number;
+  status?: SorteoApprovalStatus;
+  action?: SorteoApprovalAction;
+  sorteoId?: string;
+};
@@ -0,0 +1,33 @@
+/**
+ * Estados de un resultado en la cola de ingesta:
+ * PENDING (recibido del proveedor) → CONFIRMED (primera confirmación, solo con doble confirmación)
+ * → APPLIED (sorteo evaluado). REJECTED y FAILED son finales.
+ */
+export const SORTEO_RESULT_STATUSES = ["PENDING", "CONFIRMED", "APPLIED", "REJECTED", "FAILED"] as const;
+export type SorteoResultStatus = (typeof SORTEO_RESULT_STATUSES)[number];
+
+/** Estados que todavía esperan una acción humana */
+export const OPEN_RESULT_STATUSES: SorteoResultStatus[] = ["PENDING", "CONFIRMED"];
+
+export type SubmitSorteoResultInput = {
+  sorteoId: string;
+  winningNumber: string;
+  extraMultiplierId?: string | null;
+};
+
+export type ConfirmSorteoResultInput = {
+  /** Con doble confirmación la segunda persona vuelve a digitar el número; debe coincidir */
+  winningNumber?: string;
+  extraMultiplierId?: string | null;
+};
+
+export type RejectSorteoResultInput = {
+  reason?: string;
+};
+
+export type ListSorteoResultsQuery = {
+  page?: number;
+  pageSize?: number;
+  status?: SorteoResultStatus;
+  sorteoId?: string;
+};
@@ -0,0 +1,20 @@
+import { AuditDimension, AuditSource } from "../services/accounts/accounts.audit.helpers";
+
+export type AuditFindingStatus = "OPEN" | "RESOLVED" | "REPAIRED";
+
+/** Pasada a demanda sobre días cerrados (YYYY-MM-DD, máximo 31 días) */
+export type RunStatementAuditInput = {
+  fromDate: string;
+  toDate: string;
+  repair?: boolean;
+};
+
+export type ListAuditFindingsQuery = {
+  status?: AuditFindingStatus;
+  source?: AuditSource;
+  dimension?: AuditDimension;
+  fromDate?: string;
+  toDate?: string;
+  page?: number;
+  pageSize?: number;
+};
@@ -0,0 +1,26 @@
+import { CancellationPolicy } from "../../../types/schemas/databaseJson.schema";
+
+/**
+ * PENDING → APPROVED (tiquete anulado) | REJECTED | FAILED (aprobada pero la anulación falló)
+ */
+export const CANCEL_REQUEST_STATUSES = ["PENDING", "APPROVED", "REJECTED", "FAILED"] as const;
+export type CancelRequestStatus = (typeof CANCEL_REQUEST_STATUSES)[number];
+
+export type DecideCancelRequestInput = {
+  note?: string;
+};
+
+export type ListCancelRequestsQuery = {
+  page?: number;
+  pageSize?: number;
+  status?: CancelRequestStatus;
+  ventanaId?: string;
+  vendedorId?: string;
+  ticketId?: string;
+};
+
+/** PUT /ticket-cancellations/policy: sin ventanaId se actualiza la política de la banca */
+export type UpdateCancellationPolicyInput = {
+  ventanaId?: string;
+  policy: CancellationPolicy | null;
+};
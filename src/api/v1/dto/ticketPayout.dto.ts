@@ -0,0 +1,46 @@
+import { PayoutPolicy } from "../../../types/schemas/databaseJson.schema";
+
+/**
+ * PENDING → APPROVED (pago registrado) | REJECTED | FAILED (aprobada pero el pago falló)
+ */
+export const PAYOUT_REQUEST_STATUSES = ["PENDING", "APPROVED", "REJECTED", "FAILED"] as const;
+export type PayoutRequestStatus = (typeof PAYOUT_REQUEST_STATUSES)[number];
+
+export const PAYOUT_METHODS = ["cash", "transfer", "check", "other"] as const;
+
+/** Código escaneado en caja: QR de verificación o código de barras del tiquete */
+export type ScanLookupInput = {
+  code: string;
+};
+
+/** Sin amountPaid se paga el saldo pendiente del premio */
+export type ScanPayInput = {
+  code: string;
+  amountPaid?: number;
+  method?: (typeof PAYOUT_METHODS)[number];
+  notes?: string;
+  isFinal?: boolean;
+  idempotencyKey?: string;
+};
+
+export type DecidePayoutRequestInput = {
+  note?: string;
+};
+
+export type ListPayoutRequestsQuery = {
+  page?: number;
+  pageSize?: number;
+  status?: PayoutRequestStatus;
+  ventanaId?: string;
+  ticketId?: string;
+};
+
+export type UpdatePayoutPolicyInput = {
+  policy: PayoutPolicy | null;
+};
+
+/** Extensión manual del plazo de cobro; restituye el premio si ya había vencido */
+export type ExtendClaimInput = {
+  claimDeadline: string;
+  reason: string;
+};
@@ -0,0 +1,48 @@
+/**
+ * Eventos soportados por el despachador de webhooks.
+ * Mantener sincronizado con los puntos de emisión en los servicios.
+ */
+export const WEBHOOK_EVENTS = [
+  "ticket.created",
+  "ticket.cancelled",
+  "ticket.paid",
+  "sorteo.evaluated",
+  "account.payment.created",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export type CreateWebhookInput = {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  secret?: string;
+  isActive?: boolean;
+  bancaId?: string | null;
+};
+
+export type UpdateWebhookInput = Partial<Omit<CreateWebhookInput, "bancaId">>;
+
+export type ListWebhooksQuery = {
+  page?: number;
+  pageSize?: number;
+  isActive?: boolean;
+};
+
+export type ListWebhookDeliveriesQuery = {
+  page?: number;
+  pageSize?: number;
+  event?: WebhookEvent;
+};
+
+/**
+ * Sobre que se envía a cada endpoint suscrito.
+ * `id` se mantiene entre reintentos para que el receptor pueda deduplicar.
+ */
+export type WebhookEnvelope = {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  bancaId: string | null;
+  data: Record<string, unknown>;
+};
@@ -2,6 +2,7 @@
 import { Router } from 'express';
 import { AccountStatementSettlementController } from '../controllers/accountStatementSettlement.controller';
 import { protect } from '../../../middlewares/auth.middleware';
+import { noApiKey } from '../../../middlewares/apiKeyScope.middleware';
 import { requireAdmin } from '../../../middlewares/roleGuards.middleware';
 import { validateBody } from '../../../middlewares/validate.middleware';
 import { UpdateAccountStatementSettlementConfigSchema } from '../validators/accountStatementSettlement.validator';
@@ -10,6 +11,7 @@ const router = Router();
 
 // Todas las rutas requieren autenticación
 router.use(protect);
+router.use(noApiKey);
 
 // Configuración (solo ADMIN)
 router.get('/auto-config', requireAdmin, AccountStatementSettlementController.getConfig);
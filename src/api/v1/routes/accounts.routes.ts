@@ -1,6 +1,9 @@
 // src/api/v1/routes/accounts.routes.ts
 import { Router } from "express";
 import { AccountsController } from "../controllers/accounts.controller";
+import { PeriodLockController } from "../controllers/periodLock.controller";
+import { StatementAuditController } from "../controllers/statementAudit.controller";
+import { BankReconciliationController } from "../controllers/bankReconciliation.controller";
 import {
   validateGetStatementQuery,
   validateCreatePaymentBody,
@@ -8,8 +11,22 @@ import {
   validateReversePaymentBody,
   validateGetCurrentBalanceQuery,
   validateAccountStatementExportQuery,
+  validateListPeriodLocksQuery,
+  validateCreatePeriodLockBody,
+  validatePeriodLockIdParam,
+  validateReopenPeriodLockBody,
+  validateListAuditFindingsQuery,
+  validateRunStatementAuditBody,
+  validateCreateBankProfileBody,
+  validateUpdateBankProfileBody,
+  validateBankIdParam,
+  validateImportBankStatementBody,
+  validateBankReconciliationQuery,
+  validateBankReconciliationBody,
+  validateMatchBankLineBody,
 } from "../validators/accounts.validator";
 import { protect, restrictTo } from "../../../middlewares/auth.middleware";
+import { apiKeyScope, noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
 import { Role } from "../../../generated/prisma/client";
 import rateLimit from "express-rate-limit";
@@ -18,6 +35,7 @@ const router = Router();
 
 // Autenticación y autorización (todos los endpoints requieren JWT)
 router.use(protect);
+router.use(noApiKey);
 router.use(restrictTo(Role.VENDEDOR, Role.VENTANA, Role.BANCA, Role.ADMIN));
 
 // Middleware de contexto de banca DESPUÉS de protect (para que req.user esté disponible)
@@ -40,13 +58,13 @@ const exportLimiter = rateLimit({
 
 // 1) Obtener estado de cuenta día a día del mes
 // GET /accounts/statement
-router.get("/statement", validateGetStatementQuery, AccountsController.getStatement);
+router.get("/statement", apiKeyScope("reports:read"), validateGetStatementQuery, AccountsController.getStatement);
 
 //  NUEVO: Endpoint para lazy loading de bySorteo
-router.get("/statement/:date/bySorteo", AccountsController.getBySorteo);
+router.get("/statement/:date/bySorteo", apiKeyScope("reports:read"), AccountsController.getBySorteo);
 
 //  NUEVO: Obtener entidades históricas (vendedores/ventanas) con movimientos en esta banca
-router.get("/historical-entities", AccountsController.getHistoricalEntities);
+router.get("/historical-entities", apiKeyScope("reports:read"), AccountsController.getHistoricalEntities);
 
 // 2) Registrar pago o cobro
 // POST /accounts/payment
@@ -54,7 +72,7 @@ router.post("/payment", validateCreatePaymentBody, AccountsController.createPaym
 
 // 3) Obtener historial de pagos/cobros de un día
 // GET /accounts/payment-history
-router.get("/payment-history", validateGetPaymentHistoryQuery, AccountsController.getPaymentHistory);
+router.get("/payment-history", apiKeyScope("reports:read"), validateGetPaymentHistoryQuery, AccountsController.getPaymentHistory);
 
 // 4) Revertir un pago/cobro
 // POST /accounts/reverse-payment
@@ -66,14 +84,54 @@ router.delete("/statement/:id", AccountsController.deleteStatement);
 
 // 6) Obtener balance acumulado actual de la ventana (solo VENTANA)
 // GET /accounts/balance/current
-router.get("/balance/current", validateGetCurrentBalanceQuery, AccountsController.getCurrentBalance);
+router.get("/balance/current", apiKeyScope("reports:read"), validateGetCurrentBalanceQuery, AccountsController.getCurrentBalance);
 
 // 8) Cancelar deuda (Borrón y cuenta nueva - solo ADMIN y BANCA)
 // POST /accounts/reset-balance
 router.post("/reset-balance", restrictTo(Role.ADMIN, Role.BANCA), AccountsController.resetBalance);
 
+// 9) Bloqueo de períodos (día, semana, mes) y reapertura con motivo (solo ADMIN y BANCA)
+// GET/POST /accounts/period-locks, POST /accounts/period-locks/:id/reopen
+router.get("/period-locks", apiKeyScope("reports:read"), restrictTo(Role.ADMIN, Role.BANCA), validateListPeriodLocksQuery, PeriodLockController.list);
+router.post("/period-locks", restrictTo(Role.ADMIN, Role.BANCA), validateCreatePeriodLockBody, PeriodLockController.lock);
+router.post(
+  "/period-locks/:id/reopen",
+  restrictTo(Role.ADMIN, Role.BANCA),
+  validatePeriodLockIdParam,
+  validateReopenPeriodLockBody,
+  PeriodLockController.reopen
+);
+
+// 10) Auditoría de integridad: diferencias entre tiquetes y estados de cuenta/rollups (solo ADMIN y BANCA)
+// GET /accounts/audit, POST /accounts/audit/run
+router.get("/audit", apiKeyScope("reports:read"), restrictTo(Role.ADMIN, Role.BANCA), validateListAuditFindingsQuery, StatementAuditController.list);
+router.post("/audit/run", restrictTo(Role.ADMIN, Role.BANCA), validateRunStatementAuditBody, StatementAuditController.run);
+
+// 11) Conciliación bancaria de transferencias: perfiles por banco, importación de extractos
+// (CSV/OFX) y vista mensual (solo ADMIN y BANCA)
+router.get("/bank-profiles", apiKeyScope("reports:read"), restrictTo(Role.ADMIN, Role.BANCA), BankReconciliationController.listProfiles);
+router.post("/bank-profiles", restrictTo(Role.ADMIN, Role.BANCA), validateCreateBankProfileBody, BankReconciliationController.createProfile);
+router.patch(
+  "/bank-profiles/:id",
+  restrictTo(Role.ADMIN, Role.BANCA),
+  validateBankIdParam,
+  validateUpdateBankProfileBody,
+  BankReconciliationController.updateProfile
+);
+router.post("/bank-statements/import", restrictTo(Role.ADMIN, Role.BANCA), validateImportBankStatementBody, BankReconciliationController.importStatement);
+router.get("/bank-reconciliation", apiKeyScope("reports:read"), restrictTo(Role.ADMIN, Role.BANCA), validateBankReconciliationQuery, BankReconciliationController.getReconciliation);
+router.post("/bank-reconciliation/rematch", restrictTo(Role.ADMIN, Role.BANCA), validateBankReconciliationBody, BankReconciliationController.rematch);
+router.post(
+  "/bank-reconciliation/lines/:id/match",
+  restrictTo(Role.ADMIN, Role.BANCA),
+  validateBankIdParam,
+  validateMatchBankLineBody,
+  BankReconciliationController.matchLine
+);
+router.post("/bank-reconciliation/lines/:id/unmatch", restrictTo(Role.ADMIN, Role.BANCA), validateBankIdParam, BankReconciliationController.unmatchLine);
+
 // 7) Exportar estados de cuenta (CSV, Excel, PDF)
 // GET /accounts/export
-router.get("/export", exportLimiter, validateAccountStatementExportQuery, AccountsController.export);
+router.get("/export", apiKeyScope("reports:read"), exportLimiter, validateAccountStatementExportQuery, AccountsController.export);
 
 export default router;
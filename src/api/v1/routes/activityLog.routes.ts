@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import ActivityLogController from '../controllers/activityLog.controller';
 import { protect, restrictTo } from '../../../middlewares/auth.middleware';
+import { noApiKey } from '../../../middlewares/apiKeyScope.middleware';
 import {
   validateParams,
   validateQuery,
@@ -21,6 +22,7 @@ const router = Router();
 
 // Todos los endpoints requieren autenticación y solo ADMIN o BANCA pueden acceder
 router.use(protect);
+router.use(noApiKey);
 router.use(bancaContextMiddleware);
 router.use(restrictTo(Role.ADMIN, Role.BANCA));
 
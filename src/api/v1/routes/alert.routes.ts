@@ -0,0 +1,49 @@
+import { Router } from "express";
+import { AlertController } from "../controllers/alert.controller";
+import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
+import { requireAdminOrBanca } from "../../../middlewares/roleGuards.middleware";
+import { validateBody, validateParams, validateQuery } from "../../../middlewares/validate.middleware";
+import {
+  AlertIdParamSchema,
+  CreateAlertSchema,
+  ListAlertHistoryQuerySchema,
+  ListAlertsQuerySchema,
+  UpdateAlertSchema,
+} from "../validators/alert.validator";
+
+const router = Router();
+
+router.use(protect);
+router.use(noApiKey);
+router.use(bancaContextMiddleware);
+router.use(requireAdminOrBanca);
+
+router.post("/", validateBody(CreateAlertSchema), AlertController.create);
+
+router.get("/", validateQuery(ListAlertsQuerySchema), AlertController.findAll);
+
+router.get("/:id", validateParams(AlertIdParamSchema), AlertController.findById);
+
+router.patch(
+  "/:id",
+  validateParams(AlertIdParamSchema),
+  validateBody(UpdateAlertSchema),
+  AlertController.update
+);
+
+router.delete("/:id", validateParams(AlertIdParamSchema), AlertController.remove);
+
+// Historial de disparos (AlertEvent)
+router.get(
+  "/:id/history",
+  validateParams(AlertIdParamSchema),
+  validateQuery(ListAlertHistoryQuerySchema),
+  AlertController.history
+);
+
+// Evaluación manual inmediata (ignora cooldown)
+router.post("/:id/evaluate", validateParams(AlertIdParamSchema), AlertController.evaluate);
+
+export default router;
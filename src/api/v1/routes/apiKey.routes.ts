@@ -0,0 +1,39 @@
+import { Router } from "express";
+import { ApiKeyController } from "../controllers/apiKey.controller";
+import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
+import { requireAdminOrBanca } from "../../../middlewares/roleGuards.middleware";
+import { validateBody, validateParams, validateQuery } from "../../../middlewares/validate.middleware";
+import {
+  ApiKeyIdParamSchema,
+  CreateApiKeySchema,
+  ListApiKeysQuerySchema,
+  UpdateApiKeySchema,
+} from "../validators/apiKey.validator";
+
+const router = Router();
+
+// Nota: ningún scope de API key cubre /api-keys, por lo que solo se gestionan con JWT
+router.use(protect);
+router.use(noApiKey);
+router.use(bancaContextMiddleware);
+router.use(requireAdminOrBanca);
+
+router.post("/", validateBody(CreateApiKeySchema), ApiKeyController.create);
+
+router.get("/", validateQuery(ListApiKeysQuerySchema), ApiKeyController.findAll);
+
+router.get("/:id", validateParams(ApiKeyIdParamSchema), ApiKeyController.findById);
+
+router.patch(
+  "/:id",
+  validateParams(ApiKeyIdParamSchema),
+  validateBody(UpdateApiKeySchema),
+  ApiKeyController.update
+);
+
+// Revocación (soft): la key deja de autenticar de inmediato
+router.delete("/:id", validateParams(ApiKeyIdParamSchema), ApiKeyController.revoke);
+
+export default router;
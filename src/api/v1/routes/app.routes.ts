@@ -5,9 +5,13 @@
 
 import { Router } from 'express';
 import { getVersionInfo, downloadApk } from '../controllers/app.controller';
+import { noApiKey } from '../../../middlewares/apiKeyScope.middleware';
 
 const router = Router();
 
+// Rutas sin API key (login, públicas o con su propio protect)
+router.use(noApiKey);
+
 /**
  * @route   GET /api/v1/app/version
  * @desc    Obtener información de la versión más reciente de la APK
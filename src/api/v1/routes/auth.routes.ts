@@ -5,10 +5,14 @@ import { authRateLimiter } from '../../../middlewares/rateLimit.middleware';
 import { registerSchema, loginSchema, setActiveBancaSchema } from '../validators/auth.validator';
 import { updateUserSchema } from '../validators/user.validator';
 import { protect, restrictTo } from '../../../middlewares/auth.middleware';
+import { noApiKey } from '../../../middlewares/apiKeyScope.middleware';
 import { Role } from '../../../generated/prisma/client';
 
 const router = Router();
 
+// Rutas sin API key (login, públicas o con su propio protect)
+router.use(noApiKey);
+
 router.post('/register', authRateLimiter, validateBody(registerSchema), AuthController.register);
 router.post('/login', authRateLimiter, validateBody(loginSchema), AuthController.login);
 router.post('/refresh', AuthController.refresh);
@@ -1,10 +1,12 @@
 import { Router } from "express";
 import { BancaController } from "../controllers/banca.controller";
 import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { validateBody, validateParams, validateQuery } from "../../../middlewares/validate.middleware";
 import {
   BancaIdParamSchema,
   CreateBancaSchema,
+  CloneBancaSchema,
   UpdateBancaSchema,
   ListBancasQuerySchema,
   ReasonBodySchema,
@@ -14,10 +16,20 @@ import { requireAdmin, requireAdminOrBanca } from "../../../middlewares/roleGuar
 const router = Router();
 
 router.use(protect);
+router.use(noApiKey);
 
 // Solo ADMIN puede crear/editar/eliminar Banca
 router.post("/", requireAdmin, validateBody(CreateBancaSchema), BancaController.create);
 
+// Alta de una banca a partir de la configuración de otra (:id = plantilla)
+router.post(
+  "/:id/clone",
+  requireAdmin,
+  validateParams(BancaIdParamSchema),
+  validateBody(CloneBancaSchema),
+  BancaController.clone
+);
+
 router.put(
   "/:id",
   requireAdminOrBanca,
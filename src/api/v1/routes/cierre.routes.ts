@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { protect, restrictTo } from '../../../middlewares/auth.middleware';
+import { apiKeyScope, noApiKey } from '../../../middlewares/apiKeyScope.middleware';
 import { bancaContextMiddleware } from '../../../middlewares/bancaContext.middleware';
 import { CierreController } from '../controllers/cierre.controller';
 import {
@@ -18,6 +19,7 @@ const router = Router();
 
 // Middleware de autenticación (todas las rutas)
 router.use(protect);
+router.use(noApiKey);
 
 // Middleware de autorización (solo ADMIN, BANCA y VENTANA)
 router.use(restrictTo(Role.ADMIN, Role.BANCA, Role.VENTANA));
@@ -39,7 +41,7 @@ router.use(bancaContextMiddleware);
  * - ADMIN: puede ver todas las ventanas (scope=all) o una específica
  * - VENTANA: solo su ventana (scope=mine forzado)
  */
-router.get('/weekly', validateCierreWeeklyQuery, CierreController.getWeekly);
+router.get('/weekly', apiKeyScope("reports:read"), validateCierreWeeklyQuery, CierreController.getWeekly);
 
 /**
  * GET /api/v1/cierres/by-seller
@@ -59,6 +61,7 @@ router.get('/weekly', validateCierreWeeklyQuery, CierreController.getWeekly);
  */
 router.get(
   '/by-seller',
+  apiKeyScope("reports:read"),
   validateCierreBySellerQuery,
   CierreController.getBySeller
 );
@@ -69,6 +72,7 @@ router.get(
  */
 router.get(
   '/by-seller/:vendedorId/detail',
+  apiKeyScope("reports:read"),
   validateCierreBySellerQuery,
   CierreController.getSellerDetail
 );
@@ -96,6 +100,7 @@ router.get(
  */
 router.get(
   '/export.xlsx',
+  apiKeyScope("reports:read"),
   validateCierreExportQuery,
   CierreController.exportXLSX
 );
@@ -112,6 +117,7 @@ router.get(
  */
 router.get(
   '/export.csv',
+  apiKeyScope("reports:read"),
   validateCierreExportQuery,
   CierreController.exportCSV
 );
@@ -13,10 +13,12 @@ import {
   restrictToAdminOrVentanaSelf,
 } from "../../../middlewares/auth.middleware";
 import { Role } from "../../../generated/prisma/client";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 
 const router = Router();
 
 router.use(protect);
+router.use(noApiKey);
 
 // ==================== BANCA COMMISSION POLICIES ====================
 
@@ -9,6 +9,7 @@ import {
   validateCommissionsExportQuery,
 } from "../validators/commissions.validator";
 import { protect, restrictTo } from "../../../middlewares/auth.middleware";
+import { apiKeyScope, noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
 import { Role } from "../../../generated/prisma/client";
 import rateLimit from "express-rate-limit";
@@ -17,6 +18,7 @@ const router = Router();
 
 // Autenticación y autorización (todos los endpoints requieren JWT)
 router.use(protect);
+router.use(noApiKey);
 router.use(restrictTo(Role.VENDEDOR, Role.VENTANA, Role.BANCA, Role.ADMIN));
 
 // Middleware de contexto de banca DESPUÉS de protect (para que req.user esté disponible)
@@ -39,23 +41,23 @@ const exportLimiter = rateLimit({
 
 // 1) Lista de comisiones por periodo
 // GET /api/v1/commissions
-router.get("/", validateCommissionsListQuery, CommissionsController.list);
+router.get("/", apiKeyScope("reports:read"), validateCommissionsListQuery, CommissionsController.list);
 
 // 1.5) Desglose anidado por Lotería/Multiplicador (Lazy Loading)
 // GET /api/v1/commissions/:date/breakdown
-router.get("/:date/breakdown", validateCommissionsBreakdown, CommissionsController.breakdown);
+router.get("/:date/breakdown", apiKeyScope("reports:read"), validateCommissionsBreakdown, CommissionsController.breakdown);
 
 // 2) Detalle de comisiones por lotería
 // GET /api/v1/commissions/detail
-router.get("/detail", validateCommissionsDetailQuery, CommissionsController.detail);
+router.get("/detail", apiKeyScope("reports:read"), validateCommissionsDetailQuery, CommissionsController.detail);
 
 // 3) Tickets con comisiones (con paginación)
 // GET /api/v1/commissions/tickets
-router.get("/tickets", validateCommissionsTicketsQuery, CommissionsController.tickets);
+router.get("/tickets", apiKeyScope("reports:read"), validateCommissionsTicketsQuery, CommissionsController.tickets);
 
 // 4) Exportación de comisiones (CSV, Excel, PDF)
 // GET /api/v1/commissions/export
-router.get("/export", exportLimiter, validateCommissionsExportQuery, CommissionsController.export);
+router.get("/export", apiKeyScope("reports:read"), exportLimiter, validateCommissionsExportQuery, CommissionsController.export);
 
 export default router;
 
@@ -0,0 +1,45 @@
+import { Router } from "express";
+import { CreditLimitController } from "../controllers/creditLimit.controller";
+import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
+import {
+  requireAdminBancaOrVentana,
+  requireAdminOrBanca,
+  requireAdminVentanaOrVendedor,
+} from "../../../middlewares/roleGuards.middleware";
+import { validateBody, validateParams, validateQuery } from "../../../middlewares/validate.middleware";
+import {
+  CreditLimitIdParamSchema,
+  CreditOverrideSchema,
+  CreditStatusQuerySchema,
+  ListCreditLimitsQuerySchema,
+  UpsertCreditLimitSchema,
+} from "../validators/creditLimit.validator";
+
+const router = Router();
+
+router.use(protect);
+router.use(noApiKey);
+router.use(bancaContextMiddleware);
+
+// Saldo a hoy + ventas sin evaluar frente al límite (VENDEDOR ve solo el suyo)
+router.get("/status", requireAdminVentanaOrVendedor, validateQuery(CreditStatusQuerySchema), CreditLimitController.status);
+
+router.get("/", requireAdminBancaOrVentana, validateQuery(ListCreditLimitsQuerySchema), CreditLimitController.list);
+
+// Configuración de límites: solo la banca
+router.put("/", requireAdminOrBanca, validateBody(UpsertCreditLimitSchema), CreditLimitController.upsert);
+router.delete("/:id", requireAdminOrBanca, validateParams(CreditLimitIdParamSchema), CreditLimitController.remove);
+
+// Ampliación temporal del límite de bloqueo
+router.post(
+  "/:id/override",
+  requireAdminOrBanca,
+  validateParams(CreditLimitIdParamSchema),
+  validateBody(CreditOverrideSchema),
+  CreditLimitController.setOverride
+);
+router.delete("/:id/override", requireAdminOrBanca, validateParams(CreditLimitIdParamSchema), CreditLimitController.clearOverride);
+
+export default router;
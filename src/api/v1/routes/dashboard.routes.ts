@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { protect } from "../../../middlewares/auth.middleware";
+import { apiKeyScope, noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
 import DashboardController from "../controllers/dashboard.controller";
 import { validateDashboardQuery, validateAccumulatedBalances } from "../validators/dashboard.validator";
@@ -8,6 +9,7 @@ const router = Router();
 
 // Middleware de autenticación PRIMERO
 router.use(protect);
+router.use(noApiKey);
 
 // Middleware de contexto de banca DESPUÉS de protect (para que req.user esté disponible)
 router.use(bancaContextMiddleware);
@@ -17,24 +19,25 @@ router.use(bancaContextMiddleware);
  */
 
 // Dashboard principal
-router.get("/", validateDashboardQuery, DashboardController.getMainDashboard);
+router.get("/", apiKeyScope("reports:read"), validateDashboardQuery, DashboardController.getMainDashboard);
 
 // Desgloses específicos
-router.get("/ganancia/month-to-date", DashboardController.getGananciaMonthToDate); //  NUEVO: Sin validateDashboardQuery (no usa fechas del query)
-router.get("/ganancia", validateDashboardQuery, DashboardController.getGanancia);
-router.get("/cxc", validateDashboardQuery, DashboardController.getCxC);
-router.get("/cxp", validateDashboardQuery, DashboardController.getCxP);
+router.get("/ganancia/month-to-date", apiKeyScope("reports:read"), DashboardController.getGananciaMonthToDate); //  NUEVO: Sin validateDashboardQuery (no usa fechas del query)
+router.get("/ganancia", apiKeyScope("reports:read"), validateDashboardQuery, DashboardController.getGanancia);
+router.get("/cxc", apiKeyScope("reports:read"), validateDashboardQuery, DashboardController.getCxC);
+router.get("/cxp", apiKeyScope("reports:read"), validateDashboardQuery, DashboardController.getCxP);
 
 // Endpoints consolidados (reemplazan múltiples requests del FE)
-router.get("/summary", validateDashboardQuery, DashboardController.getDashboardSummary);
-router.get("/entities", validateDashboardQuery, DashboardController.getDashboardEntities);
+router.get("/summary", apiKeyScope("reports:read"), validateDashboardQuery, DashboardController.getDashboardSummary);
+router.get("/entities", apiKeyScope("reports:read"), validateDashboardQuery, DashboardController.getDashboardEntities);
 
 // Endpoints legacy (se mantienen para compatibilidad hasta que el FE migre)
-router.get("/timeseries", validateDashboardQuery, DashboardController.getTimeSeries);
-router.get("/exposure", validateDashboardQuery, DashboardController.getExposure);
-router.get("/vendedores", validateDashboardQuery, DashboardController.getVendedores);
+router.get("/timeseries", apiKeyScope("reports:read"), validateDashboardQuery, DashboardController.getTimeSeries);
+router.get("/exposure", apiKeyScope("reports:read"), validateDashboardQuery, DashboardController.getExposure);
+router.get("/vendedores", apiKeyScope("reports:read"), validateDashboardQuery, DashboardController.getVendedores);
+router.get("/goals", apiKeyScope("reports:read"), DashboardController.getGoals); // Metas activas hoy (sin filtros de fecha)
 router.post("/accumulated-balances", DashboardController.getAccumulatedBalances);
-router.get("/accumulated-balances", DashboardController.getAccumulatedBalances);
-router.get("/export", validateDashboardQuery, DashboardController.exportDashboard);
+router.get("/accumulated-balances", apiKeyScope("reports:read"), DashboardController.getAccumulatedBalances);
+router.get("/export", apiKeyScope("reports:read"), validateDashboardQuery, DashboardController.exportDashboard);
 
 export default router;
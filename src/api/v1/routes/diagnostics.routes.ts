@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { requireAdminBancaOrVentana } from "../../../middlewares/roleGuards.middleware";
 import { validateQuery } from "../../../middlewares/validate.middleware";
 import { CutoffInspectQuerySchema } from "../validators/diagnostics.validator";
@@ -8,6 +9,7 @@ import DiagnosticsController from "../controllers/diagnostics.controller";
 const router = Router();
 
 router.use(protect);
+router.use(noApiKey);
 
 // Admin o Ventana (la verificación de “alcance” de ventana concreta se hace aguas arriba si deseas)
 router.get(
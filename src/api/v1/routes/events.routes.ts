@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { EventsController } from "../controllers/events.controller";
+import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
+import { requireAdminVentanaOrVendedor } from "../../../middlewares/roleGuards.middleware";
+import { validateQuery } from "../../../middlewares/validate.middleware";
+import { EventStreamQuerySchema } from "../validators/events.validator";
+
+const router = Router();
+
+router.use(protect);
+router.use(noApiKey);
+router.use(bancaContextMiddleware);
+router.use(requireAdminVentanaOrVendedor);
+
+// Stream SSE de ventas, acumulados por número, estados de sorteo y topes alcanzados
+router.get("/stream", validateQuery(EventStreamQuerySchema), EventsController.stream);
+
+export default router;
@@ -0,0 +1,23 @@
+import { Router } from "express";
+import { ExportJobController } from "../controllers/exportJob.controller";
+import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import { validateParams, validateQuery } from "../../../middlewares/validate.middleware";
+import { ExportJobIdParamSchema, ListExportJobsQuerySchema } from "../validators/exportJob.validator";
+
+const router = Router();
+
+// Cualquier rol que pueda exportar consulta sus propios trabajos (el servicio valida dueño)
+router.use(protect);
+router.use(noApiKey);
+
+router.get("/", validateQuery(ListExportJobsQuerySchema), ExportJobController.findAll);
+
+// Polling de estado/progreso
+router.get("/:id", validateParams(ExportJobIdParamSchema), ExportJobController.findById);
+
+router.get("/:id/download", validateParams(ExportJobIdParamSchema), ExportJobController.download);
+
+router.post("/:id/cancel", validateParams(ExportJobIdParamSchema), ExportJobController.cancel);
+
+export default router;
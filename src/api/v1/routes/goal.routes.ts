@@ -0,0 +1,42 @@
+import { Router } from "express";
+import { GoalController } from "../controllers/goal.controller";
+import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
+import { requireAdminOrBanca } from "../../../middlewares/roleGuards.middleware";
+import { validateBody, validateParams, validateQuery } from "../../../middlewares/validate.middleware";
+import {
+  CreateGoalSchema,
+  GoalIdParamSchema,
+  ListGoalsQuerySchema,
+  UpdateGoalSchema,
+} from "../validators/goal.validator";
+
+const router = Router();
+
+router.use(protect);
+router.use(noApiKey);
+router.use(bancaContextMiddleware);
+
+// Lectura: todos los roles (el servicio filtra por visibilidad)
+router.get("/", validateQuery(ListGoalsQuerySchema), GoalController.findAll);
+
+router.get("/:id", validateParams(GoalIdParamSchema), GoalController.findById);
+
+// Avance real vs. meta con proyección
+router.get("/:id/progress", validateParams(GoalIdParamSchema), GoalController.progress);
+
+// Gestión: solo ADMIN/BANCA
+router.post("/", requireAdminOrBanca, validateBody(CreateGoalSchema), GoalController.create);
+
+router.patch(
+  "/:id",
+  requireAdminOrBanca,
+  validateParams(GoalIdParamSchema),
+  validateBody(UpdateGoalSchema),
+  GoalController.update
+);
+
+router.delete("/:id", requireAdminOrBanca, validateParams(GoalIdParamSchema), GoalController.remove);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { bancaContextMiddleware } from '../../../middlewares/bancaContext.middleware';
+import { registerApiKeyRoutes } from '../../../utils/apiKeyScopes';
 import authRoutes from './auth.routes';
 import userRoutes from './user.routes';
 import ticketRoutes from './ticket.routes';
@@ -26,6 +27,20 @@ import listasExcluidasRoutes from "./listas-excluidas.routes"
 import accountStatementSettlementRoutes from "./accountStatementSettlement.routes"
 import appRoutes from "./app.routes"
 import telemetryRoutes from "./telemetry.routes"
+import webhookRoutes from "./webhook.routes"
+import apiKeyRoutes from "./apiKey.routes"
+import alertRoutes from "./alert.routes"
+import savedReportRoutes from "./savedReport.routes"
+import exportJobRoutes from "./exportJob.routes"
+import goalRoutes from "./goal.routes"
+import sorteoResultRoutes from "./sorteoResult.routes"
+import sorteoApprovalRoutes from "./sorteoApproval.routes"
+import ticketCancellationRoutes from "./ticketCancellation.routes"
+import eventsRoutes from "./events.routes"
+import publicRoutes from "./public.routes"
+import ticketPayoutRoutes from "./ticketPayout.routes"
+import creditLimitRoutes from "./creditLimit.routes"
+import riskRoutes from "./risk.routes"
 
 const router = Router();
 
@@ -34,6 +49,7 @@ const router = Router();
 
 router.use('/auth', authRoutes);
 router.use('/app', appRoutes); // Public routes for APK auto-update
+router.use('/public', publicRoutes); // Verificación pública de tiquetes (QR)
 router.use('/users', userRoutes);
 router.use('/tickets', ticketRoutes);
 router.use('/loterias', loteriaRoutes);
@@ -44,6 +60,9 @@ router.use("/sorteos", sorteoRoutes);
 router.use("/multiplier-overrides", multiplierOverrideRoutes);
 router.use("/restrictions", restrictionRuleRoutes);
 router.use("/ticket-payments", ticketPaymentRoutes);
+router.use("/ticket-payouts", ticketPayoutRoutes);
+router.use("/credit-limits", creditLimitRoutes);
+router.use("/risk", riskRoutes);
 router.use("/multipliers", multipliersRoutes);
 router.use("/diagnostics", diagnosticsRoutes);
 router.use("/ventas", ventaRoutes);
@@ -57,7 +76,20 @@ router.use("/reports", reportsRoutes);
 router.use("/listas-excluidas", listasExcluidasRoutes);
 router.use("/account-statements", accountStatementSettlementRoutes);
 router.use("/telemetry", telemetryRoutes);
+router.use("/webhooks", webhookRoutes);
+router.use("/api-keys", apiKeyRoutes);
+router.use("/alerts", alertRoutes);
+router.use("/saved-reports", savedReportRoutes);
+router.use("/export-jobs", exportJobRoutes);
+router.use("/goals", goalRoutes);
+router.use("/sorteo-results", sorteoResultRoutes);
+router.use("/sorteo-approvals", sorteoApprovalRoutes);
+router.use("/ticket-cancellations", ticketCancellationRoutes);
+router.use("/events", eventsRoutes);
 router.use("/", commissionRoutes); // Commission routes include their own path prefixes (políticas de comisión)
 
+// protect resuelve aquí el scope de API key que declara cada ruta
+registerApiKeyRoutes(router);
+
 export const apiV1Router = router;
 
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { SorteoListasController } from "../controllers/sorteo-listas.controller";
 import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { Role } from "../../../generated/prisma/client";
 import { requireAdminBancaOrVentana } from "../../../middlewares/roleGuards.middleware";
 import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
@@ -9,6 +10,7 @@ const router = Router();
 
 // Todas las rutas requieren autenticación
 router.use(protect);
+router.use(noApiKey);
 router.use(bancaContextMiddleware);
 router.use(requireAdminBancaOrVentana);
 
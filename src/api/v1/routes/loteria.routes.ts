@@ -2,6 +2,7 @@
 import { Router } from "express";
 import { LoteriaController } from "../controllers/loteria.controller";
 import { protect } from "../../../middlewares/auth.middleware";
+import { apiKeyScope, noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
 import { validateBody, validateParams, validateQuery } from "../../../middlewares/validate.middleware";
 import {
@@ -16,6 +17,7 @@ import z from "zod";
 
 const router = Router();
 router.use(protect);
+router.use(noApiKey);
 router.use(bancaContextMiddleware);
 
 // Colección
@@ -27,17 +29,18 @@ router.post(
   LoteriaController.seedSorteos
 )
 router.post("/", validateBody(createLoteriaSchema), LoteriaController.create);
-router.get("/", validateQuery(listLoteriaQuerySchema), LoteriaController.list);
+router.get("/", apiKeyScope("sorteos:read"), validateQuery(listLoteriaQuerySchema), LoteriaController.list);
 
 // Item (acciones específicas antes del GET por id es opcional; aquí lo dejo arriba por claridad)
 router.get(
   "/:id/preview_schedule",
+  apiKeyScope("sorteos:read"),
   validateParams(loteriaIdSchema),
   validateQuery(previewScheduleQuerySchema),
   LoteriaController.previewSchedule
 );
 
-router.get("/:id", validateParams(loteriaIdSchema), LoteriaController.getById);
+router.get("/:id", apiKeyScope("sorteos:read"), validateParams(loteriaIdSchema), LoteriaController.getById);
 router.patch("/:id", validateParams(loteriaIdSchema), validateBody(updateLoteriaSchema), LoteriaController.update);
 router.put("/:id", validateParams(loteriaIdSchema), validateBody(updateLoteriaSchema), LoteriaController.update);
 router.delete("/:id", validateParams(loteriaIdSchema), LoteriaController.remove);
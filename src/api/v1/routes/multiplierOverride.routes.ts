@@ -9,12 +9,14 @@ import {
 import MultiplierOverrideController from "../controllers/multiplierOverride.controller";
 import { validateBody, validateQuery, validateParams } from "../../../middlewares/validate.middleware";
 import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { requireAdminBancaOrVentana } from "../../../middlewares/roleGuards.middleware";
 
 const router = Router();
 
 // Authentication required for all routes
 router.use(protect);
+router.use(noApiKey);
 
 // Create (ADMIN, VENTANA)
 router.post(
@@ -0,0 +1,29 @@
+/**
+ * Rutas públicas (sin autenticación) para clientes finales
+ */
+
+import { Router } from "express";
+import { TicketVerificationController } from "../controllers/ticketVerification.controller";
+import { validateParams } from "../../../middlewares/validate.middleware";
+import { ticketVerifyRateLimiter } from "../../../middlewares/rateLimit.middleware";
+import { TicketVerifyParamsSchema } from "../validators/ticketVerification.validator";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+
+const router = Router();
+
+// Rutas sin API key (login, públicas o con su propio protect)
+router.use(noApiKey);
+
+/**
+ * @route   GET /api/v1/public/tickets/verify/:token
+ * @desc    Estado, sorteo y premio de un tiquete a partir del token de su QR
+ * @access  Public
+ */
+router.get(
+  "/tickets/verify/:token",
+  ticketVerifyRateLimiter,
+  validateParams(TicketVerifyParamsSchema),
+  TicketVerificationController.verify
+);
+
+export default router;
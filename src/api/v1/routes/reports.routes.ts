@@ -4,6 +4,7 @@
 
 import { Router } from 'express';
 import { protect } from '../../../middlewares/auth.middleware';
+import { apiKeyScope, noApiKey } from '../../../middlewares/apiKeyScope.middleware';
 import { bancaContextMiddleware } from '../../../middlewares/bancaContext.middleware';
 import { requireAdmin, requireAdminOrBanca, requireAdminBancaOrVentana } from '../../../middlewares/roleGuards.middleware';
 import { ReportsController } from '../controllers/reports.controller';
@@ -12,6 +13,7 @@ import {
   WinnersPaymentsQuerySchema,
   NumbersAnalysisQuerySchema,
   CancelledTicketsQuerySchema,
+  ForfeitedPrizesQuerySchema,
   LoteriasPerformanceQuerySchema,
   VentanasRankingQuerySchema,
   VendedoresCommissionsChartQuerySchema,
@@ -29,11 +31,13 @@ const router = Router();
 
 // Middleware de autenticación PRIMERO
 router.use(protect);
+router.use(noApiKey);
 router.use(bancaContextMiddleware);
 
 // Reportes de Tickets
 router.get(
   '/tickets/summary',
+  apiKeyScope("reports:read"),
   requireAdminOrBanca,
   validateQuery(TicketsSummaryQuerySchema),
   ReportsController.getTicketsSummary
@@ -41,6 +45,7 @@ router.get(
 
 router.get(
   '/tickets/winners-payments',
+  apiKeyScope("reports:read"),
   requireAdminOrBanca,
   validateQuery(WinnersPaymentsQuerySchema),
   ReportsController.getWinnersPayments
@@ -48,6 +53,7 @@ router.get(
 
 router.get(
   '/tickets/numbers-analysis',
+  apiKeyScope("reports:read"),
   requireAdminBancaOrVentana,
   validateQuery(NumbersAnalysisQuerySchema),
   ReportsController.getNumbersAnalysis
@@ -55,6 +61,7 @@ router.get(
 
 router.get(
   '/tickets/numbers-analysis/detail',
+  apiKeyScope("reports:read"),
   requireAdminOrBanca,
   validateQuery(NumbersAnalysisDetailQuerySchema),
   ReportsController.getNumbersAnalysisDetail
@@ -62,14 +69,24 @@ router.get(
 
 router.get(
   '/tickets/cancelled',
+  apiKeyScope("reports:read"),
   requireAdminOrBanca,
   validateQuery(CancelledTicketsQuerySchema),
   ReportsController.getCancelledTickets
 );
 
+router.get(
+  '/tickets/forfeited-prizes',
+  apiKeyScope("reports:read"),
+  requireAdminOrBanca,
+  validateQuery(ForfeitedPrizesQuerySchema),
+  ReportsController.getForfeitedPrizes
+);
+
 // Reportes de Loterías
 router.get(
   '/loterias/performance',
+  apiKeyScope("reports:read"),
   requireAdminOrBanca,
   validateQuery(LoteriasPerformanceQuerySchema),
   ReportsController.getLoteriasPerformance
@@ -78,6 +95,7 @@ router.get(
 // Reportes de Listeros
 router.get(
   '/ventanas/ranking',
+  apiKeyScope("reports:read"),
   requireAdminOrBanca,
   validateQuery(VentanasRankingQuerySchema),
   ReportsController.getVentanasRanking
@@ -86,6 +104,7 @@ router.get(
 // Reportes de Vendedores
 router.get(
   '/vendedores/commissions-chart',
+  apiKeyScope("reports:read"),
   requireAdminOrBanca,
   validateQuery(VendedoresCommissionsChartQuerySchema),
   ReportsController.getVendedoresCommissionsChart
@@ -93,6 +112,7 @@ router.get(
 
 router.get(
   '/vendedores/ranking',
+  apiKeyScope("reports:read"),
   requireAdminOrBanca,
   validateQuery(VendedoresRankingQuerySchema),
   ReportsController.getVendedoresRanking
@@ -101,6 +121,7 @@ router.get(
 // Nuevos Endpoints de Tickets
 router.get(
   '/tickets/exposure',
+  apiKeyScope("reports:read"),
   requireAdminOrBanca,
   validateQuery(ExposureQuerySchema),
   ReportsController.getExposure
@@ -108,6 +129,7 @@ router.get(
 
 router.get(
   '/tickets/profitability',
+  apiKeyScope("reports:read"),
   requireAdminOrBanca,
   validateQuery(ProfitabilityQuerySchema),
   ReportsController.getProfitability
@@ -115,6 +137,7 @@ router.get(
 
 router.get(
   '/tickets/time-analysis',
+  apiKeyScope("reports:read"),
   requireAdminOrBanca,
   validateQuery(TimeAnalysisQuerySchema),
   ReportsController.getTimeAnalysis
@@ -123,6 +146,7 @@ router.get(
 // Nuevo endpoint para lista de ganadores (Reporte optimizado)
 router.get(
   '/winners-list/:sorteoId',
+  apiKeyScope("reports:read"),
   validateParams(WinnersListParamsSchema),
   validateQuery(WinnersListQuerySchema),
   ReportsController.getWinnersList
@@ -8,9 +8,17 @@ import {
   ListRestrictionRuleQuerySchema,
   RestrictionRuleIdParamSchema,
   ReasonBodySchema,
+  HotNumbersQuerySchema,
+  UpdateHotNumberPolicySchema,
 } from "../validators/restrictionRule.validator";
 import { protect } from "../../../middlewares/auth.middleware";
-import { requireAdmin, requireAuth } from "../../../middlewares/roleGuards.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import {
+  requireAdmin,
+  requireAdminBancaOrVentana,
+  requireAdminOrBanca,
+  requireAuth,
+} from "../../../middlewares/roleGuards.middleware";
 import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
 import { Role } from "../../../generated/prisma/client";
 import { AuthenticatedRequest } from "../../../core/types";
@@ -20,6 +28,7 @@ const router = Router();
 
 //  todos los endpoints requieren estar autenticado
 router.use(protect);
+router.use(noApiKey);
 
 //  aplicar contexto de banca (resuelve bancaId para VENDEDOR/VENTANA)
 router.use(bancaContextMiddleware);
@@ -104,6 +113,31 @@ router.post(
   RestrictionRuleController.rehydrateRedis
 );
 
+/**
+ * Números calientes de la banca activa: estado dinámico por número en un sorteo
+ * GET /api/v1/restrictions/hot-numbers?sorteoId=
+ * GET|PUT /api/v1/restrictions/hot-numbers/policy
+ */
+router.get(
+  "/hot-numbers",
+  requireAdminBancaOrVentana,
+  validateQuery(HotNumbersQuerySchema),
+  RestrictionRuleController.hotNumbers
+);
+
+router.get(
+  "/hot-numbers/policy",
+  requireAdminBancaOrVentana,
+  RestrictionRuleController.getHotNumberPolicy
+);
+
+router.put(
+  "/hot-numbers/policy",
+  requireAdminOrBanca,
+  validateBody(UpdateHotNumberPolicySchema),
+  RestrictionRuleController.updateHotNumberPolicy
+);
+
 /**
  *  VENDEDOR: Obtener mis restricciones (generales + específicas)
  * GET /api/v1/restrictions/me
@@ -0,0 +1,41 @@
+import { Router } from "express";
+import { RiskController } from "../controllers/risk.controller";
+import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
+import { requireAdminOrBanca } from "../../../middlewares/roleGuards.middleware";
+import { validateBody, validateParams, validateQuery } from "../../../middlewares/validate.middleware";
+import {
+  CancelLayOffSchema,
+  CreateLayOffSchema,
+  LayOffIdParamSchema,
+  ListLayOffsQuerySchema,
+  RiskExposureQuerySchema,
+  UpdateRiskPolicySchema,
+} from "../validators/risk.validator";
+
+const router = Router();
+
+router.use(protect);
+router.use(noApiKey);
+router.use(bancaContextMiddleware);
+// El riesgo y las cesiones son de la banca completa
+router.use(requireAdminOrBanca);
+
+// Pasivo neto por número del sorteo abierto y sugerencias de cesión
+router.get("/exposure", validateQuery(RiskExposureQuerySchema), RiskController.exposure);
+
+router.get("/policy", RiskController.getPolicy);
+router.put("/policy", validateBody(UpdateRiskPolicySchema), RiskController.updatePolicy);
+
+// Cesiones (lay-off) pactadas con otras bancas
+router.get("/layoffs", validateQuery(ListLayOffsQuerySchema), RiskController.listPositions);
+router.post("/layoffs", validateBody(CreateLayOffSchema), RiskController.createPosition);
+router.post(
+  "/layoffs/:id/cancel",
+  validateParams(LayOffIdParamSchema),
+  validateBody(CancelLayOffSchema),
+  RiskController.cancelPosition
+);
+
+export default router;
@@ -2,6 +2,8 @@
 import { Router } from "express";
 import { SalesController } from "../controllers/sales.controller";
 import { protect } from "../../../middlewares/auth.middleware";
+import { apiKeyScope, noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
 import { requireAuth } from "../../../middlewares/roleGuards.middleware";
 import { z } from "zod";
 import { validateQuery } from "../../../middlewares/validate.middleware";
@@ -17,6 +19,8 @@ const router = Router();
 
 // Todos los endpoints requieren autenticación
 router.use(protect);
+router.use(noApiKey);
+router.use(bancaContextMiddleware);
 router.use(requireAuth);
 
 /**
@@ -25,6 +29,7 @@ router.use(requireAuth);
  */
 router.get(
   "/daily-stats",
+  apiKeyScope("reports:read"),
   validateQuery(DailyStatsQuerySchema),
   SalesController.getDailyStats
 );
@@ -0,0 +1,80 @@
+import { Router } from "express";
+import { SavedReportController } from "../controllers/savedReport.controller";
+import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
+import { requireAdminOrBanca } from "../../../middlewares/roleGuards.middleware";
+import { validateBody, validateParams, validateQuery } from "../../../middlewares/validate.middleware";
+import {
+  CreateReportScheduleSchema,
+  CreateSavedReportSchema,
+  ListReportRunsQuerySchema,
+  ListSavedReportsQuerySchema,
+  ReportScheduleParamSchema,
+  RunSavedReportQuerySchema,
+  SavedReportIdParamSchema,
+  UpdateReportScheduleSchema,
+  UpdateSavedReportSchema,
+} from "../validators/savedReport.validator";
+
+const router = Router();
+
+router.use(protect);
+router.use(noApiKey);
+router.use(bancaContextMiddleware);
+router.use(requireAdminOrBanca);
+
+router.post("/", validateBody(CreateSavedReportSchema), SavedReportController.create);
+
+router.get("/", validateQuery(ListSavedReportsQuerySchema), SavedReportController.findAll);
+
+router.get("/:id", validateParams(SavedReportIdParamSchema), SavedReportController.findById);
+
+router.patch(
+  "/:id",
+  validateParams(SavedReportIdParamSchema),
+  validateBody(UpdateSavedReportSchema),
+  SavedReportController.update
+);
+
+router.delete("/:id", validateParams(SavedReportIdParamSchema), SavedReportController.remove);
+
+// Ejecución manual (descarga el archivo) e historial de ejecuciones
+router.post(
+  "/:id/run",
+  validateParams(SavedReportIdParamSchema),
+  validateQuery(RunSavedReportQuerySchema),
+  SavedReportController.run
+);
+
+router.get(
+  "/:id/runs",
+  validateParams(SavedReportIdParamSchema),
+  validateQuery(ListReportRunsQuerySchema),
+  SavedReportController.runs
+);
+
+// Programaciones de envío por correo (hora CR)
+router.get("/:id/schedules", validateParams(SavedReportIdParamSchema), SavedReportController.listSchedules);
+
+router.post(
+  "/:id/schedules",
+  validateParams(SavedReportIdParamSchema),
+  validateBody(CreateReportScheduleSchema),
+  SavedReportController.createSchedule
+);
+
+router.patch(
+  "/:id/schedules/:scheduleId",
+  validateParams(ReportScheduleParamSchema),
+  validateBody(UpdateReportScheduleSchema),
+  SavedReportController.updateSchedule
+);
+
+router.delete(
+  "/:id/schedules/:scheduleId",
+  validateParams(ReportScheduleParamSchema),
+  SavedReportController.removeSchedule
+);
+
+export default router;
@@ -6,12 +6,14 @@ import {
     validateIncludeLista,
 } from "../validators/sorteo-listas.validator";
 import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
 import { requireAdminOrBanca, requireAdminBancaOrVentana } from "../../../middlewares/roleGuards.middleware";
 
 const router = Router();
 
 router.use(protect);
+router.use(noApiKey);
 router.use(bancaContextMiddleware);
 
 // GET /api/v1/sorteos/:id/listas - Obtener resumen de listas (ADMIN + BANCA + VENTANA)
@@ -11,6 +11,8 @@ import {
   validateRevertSorteo,
   validateEvaluatedSummaryQuery,
   validateSetActiveSorteo,
+  validatePayoutSimulationQuery,
+  validatePayoutMatrixQuery,
 } from "../validators/sorteo.validator";
 import {
   validateIdParam as validateListaIdParam,
@@ -18,6 +20,7 @@ import {
   validateIncludeLista,
 } from "../validators/sorteo-listas.validator";
 import { protect } from "../../../middlewares/auth.middleware";
+import { apiKeyScope, noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
 import { requireAdmin, requireAdminOrBanca, requireAdminVentanaOrVendedor } from "../../../middlewares/roleGuards.middleware";
 import { SorteosAutoController } from "../controllers/sorteosAuto.controller";
@@ -26,18 +29,19 @@ import { UpdateSorteosAutoConfigSchema } from "../validators/sorteosAuto.validat
 
 const router = Router();
 router.use(protect);
+router.use(noApiKey);
 router.use(bancaContextMiddleware);
 
 // IMPORTANTE: Rutas literales específicas DEBEN ir ANTES de las rutas con parámetros :id
 // Rutas de automatización de sorteos (rutas literales primero)
-router.get('/auto-config', requireAdmin, SorteosAutoController.getConfig);
+router.get('/auto-config', apiKeyScope("sorteos:read"), requireAdmin, SorteosAutoController.getConfig);
 router.patch(
   '/auto-config',
   requireAdmin,
   validateBody(UpdateSorteosAutoConfigSchema),
   SorteosAutoController.updateConfig
 );
-router.get('/auto-status', SorteosAutoController.getHealthStatus);
+router.get('/auto-status', apiKeyScope("sorteos:read"), SorteosAutoController.getHealthStatus);
 router.post('/auto-open/execute', requireAdminOrBanca, SorteosAutoController.executeAutoOpen);
 router.post('/auto-create/execute', requireAdminOrBanca, SorteosAutoController.executeAutoCreate);
 router.post('/auto-close/execute', requireAdminOrBanca, SorteosAutoController.executeAutoClose);
@@ -88,6 +92,7 @@ router.patch(
 );
 router.patch(
   "/:id/evaluate",
+  apiKeyScope("sorteos:evaluate"),
   requireAdminOrBanca,
   validateIdParam,
   validateEvaluateSorteo,
@@ -102,15 +107,33 @@ router.patch(
 );
 router.delete("/:id", requireAdminOrBanca, validateIdParam, SorteoController.delete);
 
+// Simulación de premios antes de evaluar (solo lectura)
+router.get(
+  "/:id/payout-simulation",
+  apiKeyScope("sorteos:read"),
+  requireAdminOrBanca,
+  validateIdParam,
+  validatePayoutSimulationQuery,
+  SorteoController.payoutSimulation
+);
+router.get(
+  "/:id/payout-simulation/matrix",
+  apiKeyScope("sorteos:read"),
+  requireAdminOrBanca,
+  validateIdParam,
+  validatePayoutMatrixQuery,
+  SorteoController.payoutMatrix
+);
+
 // Rutas de exclusión de listas (ADMIN only, pero VENTANA y VENDEDOR pueden ver el resumen)
-router.get("/:id/listas", requireAdminVentanaOrVendedor, validateListaIdParam, SorteoListasController.getListas);
+router.get("/:id/listas", apiKeyScope("sorteos:read"), requireAdminVentanaOrVendedor, validateListaIdParam, SorteoListasController.getListas);
 router.post("/:id/listas/exclude", requireAdminOrBanca, validateListaIdParam, validateExcludeLista, SorteoListasController.excludeLista);
 router.post("/:id/listas/include", requireAdminOrBanca, validateListaIdParam, validateIncludeLista, SorteoListasController.includeLista);
 
 // Lecturas
 // IMPORTANTE: Las rutas literales deben ir ANTES de las rutas con parámetros
-router.get("/evaluated-summary", validateEvaluatedSummaryQuery, SorteoController.evaluatedSummary);
-router.get("/", validateListSorteosQuery, SorteoController.list);
-router.get("/:id", validateIdParam, SorteoController.findById);
+router.get("/evaluated-summary", apiKeyScope("sorteos:read"), validateEvaluatedSummaryQuery, SorteoController.evaluatedSummary);
+router.get("/", apiKeyScope("sorteos:read"), validateListSorteosQuery, SorteoController.list);
+router.get("/:id", apiKeyScope("sorteos:read"), validateIdParam, SorteoController.findById);
 
 export default router;
@@ -0,0 +1,42 @@
+import { Router } from "express";
+import { SorteoApprovalController } from "../controllers/sorteoApproval.controller";
+import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
+import { requireAdminOrBanca } from "../../../middlewares/roleGuards.middleware";
+import { validateBody, validateParams, validateQuery } from "../../../middlewares/validate.middleware";
+import {
+  ApproveSorteoApprovalSchema,
+  ListSorteoApprovalsQuerySchema,
+  RejectSorteoApprovalSchema,
+  SorteoApprovalIdParamSchema,
+} from "../validators/sorteoApproval.validator";
+
+const router = Router();
+
+router.use(protect);
+router.use(noApiKey);
+router.use(bancaContextMiddleware);
+router.use(requireAdminOrBanca);
+
+// Solicitudes de evaluación/reversión (por defecto solo las pendientes)
+router.get("/", validateQuery(ListSorteoApprovalsQuerySchema), SorteoApprovalController.findAll);
+
+router.get("/:id", validateParams(SorteoApprovalIdParamSchema), SorteoApprovalController.findById);
+
+// Segundo usuario: aprueba (y ejecuta) o rechaza
+router.post(
+  "/:id/approve",
+  validateParams(SorteoApprovalIdParamSchema),
+  validateBody(ApproveSorteoApprovalSchema),
+  SorteoApprovalController.approve
+);
+
+router.post(
+  "/:id/reject",
+  validateParams(SorteoApprovalIdParamSchema),
+  validateBody(RejectSorteoApprovalSchema),
+  SorteoApprovalController.reject
+);
+
+export default router;
@@ -0,0 +1,46 @@
+import { Router } from "express";
+import { SorteoResultController } from "../controllers/sorteoResult.controller";
+import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
+import { requireAdminOrBanca } from "../../../middlewares/roleGuards.middleware";
+import { validateBody, validateParams, validateQuery } from "../../../middlewares/validate.middleware";
+import {
+  ConfirmSorteoResultSchema,
+  ListSorteoResultsQuerySchema,
+  RejectSorteoResultSchema,
+  SorteoResultIdParamSchema,
+  SubmitSorteoResultSchema,
+} from "../validators/sorteoResult.validator";
+
+const router = Router();
+
+router.use(protect);
+router.use(noApiKey);
+router.use(bancaContextMiddleware);
+router.use(requireAdminOrBanca);
+
+// Cola de resultados (ingestados por proveedores o cargados a mano)
+router.get("/", validateQuery(ListSorteoResultsQuerySchema), SorteoResultController.findAll);
+
+router.get("/:id", validateParams(SorteoResultIdParamSchema), SorteoResultController.findById);
+
+// Carga manual del número ganador
+router.post("/", validateBody(SubmitSorteoResultSchema), SorteoResultController.submit);
+
+// Confirmación de un click (o primera/segunda con doble confirmación)
+router.post(
+  "/:id/confirm",
+  validateParams(SorteoResultIdParamSchema),
+  validateBody(ConfirmSorteoResultSchema),
+  SorteoResultController.confirm
+);
+
+router.post(
+  "/:id/reject",
+  validateParams(SorteoResultIdParamSchema),
+  validateBody(RejectSorteoResultSchema),
+  SorteoResultController.reject
+);
+
+export default router;
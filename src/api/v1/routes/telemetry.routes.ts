@@ -1,11 +1,15 @@
 import { Router } from "express";
 import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { validateBody } from "../../../middlewares/validate.middleware";
 import { TelemetryPayloadSchema } from "../validators/telemetry.validator";
 import TelemetryController from "../controllers/telemetry.controller";
 
 const router = Router();
 
+// Rutas sin API key (login, públicas o con su propio protect)
+router.use(noApiKey);
+
 router.post(
   "/",
   protect,
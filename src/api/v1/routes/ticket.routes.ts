@@ -7,35 +7,38 @@ import {
   RegisterPaymentSchema,
   ReversePaymentSchema,
   FinalizePaymentSchema,
+  CancelTicketSchema,
   validateNumbersSummaryQuery,
   validateTicketNumberParam
 } from "../validators/ticket.validator";
 import { salesRateLimiter } from "../../../middlewares/rateLimit.middleware";
 import { protect, restrictTo } from "../../../middlewares/auth.middleware";
+import { apiKeyScope, noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
 import { Role } from "../../../generated/prisma/client";
 
 const router = Router();
 
 router.use(protect);
+router.use(noApiKey);
 router.use(bancaContextMiddleware);
 router.use(restrictTo(Role.VENDEDOR, Role.VENTANA, Role.BANCA, Role.ADMIN));
 
 // Ticket CRUD
 router.post("/", salesRateLimiter, validateBody(CreateTicketSchema), TicketController.create);
 // IMPORTANTE: Las rutas literales deben ir ANTES de las rutas con parámetros
-router.get("/validation/balances", TicketController.getBalances);
-router.get("/filter-options", TicketController.getFilterOptions);
-router.get("/numbers-summary/filter-options", validateNumbersSummaryQuery, TicketController.getNumbersSummaryFilterOptions);
-router.get("/numbers-summary", validateNumbersSummaryQuery, TicketController.numbersSummary);
+router.get("/validation/balances", apiKeyScope("tickets:read"), TicketController.getBalances);
+router.get("/filter-options", apiKeyScope("tickets:read"), TicketController.getFilterOptions);
+router.get("/numbers-summary/filter-options", apiKeyScope("tickets:read"), validateNumbersSummaryQuery, TicketController.getNumbersSummaryFilterOptions);
+router.get("/numbers-summary", apiKeyScope("tickets:read"), validateNumbersSummaryQuery, TicketController.numbersSummary);
 router.post("/numbers-summary/pdf", TicketController.numbersSummaryPdf);
 router.post("/numbers-summary/pdf/batch", TicketController.numbersSummaryPdfBatch);
-router.get("/by-number/:ticketNumber", validateTicketNumberParam, TicketController.getByTicketNumber);
+router.get("/by-number/:ticketNumber", apiKeyScope("tickets:read"), validateTicketNumberParam, TicketController.getByTicketNumber);
 // IMPORTANTE: /:id/image debe ir ANTES de /:id para que no capture esa ruta
-router.get("/:id/image", TicketController.getTicketImage);
-router.get("/:id", TicketController.getById);
-router.get("/", validateListTicketsQuery, TicketController.list);
-router.patch("/:id/cancel", TicketController.cancel);
+router.get("/:id/image", apiKeyScope("tickets:read"), TicketController.getTicketImage);
+router.get("/:id", apiKeyScope("tickets:read"), TicketController.getById);
+router.get("/", apiKeyScope("tickets:read"), validateListTicketsQuery, TicketController.list);
+router.patch("/:id/cancel", validateBody(CancelTicketSchema), TicketController.cancel);
 router.patch("/:id/restore", TicketController.restore);
 router.post("/:id/print", TicketController.registerPrint);
 
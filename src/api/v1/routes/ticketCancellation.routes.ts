@@ -0,0 +1,62 @@
+import { Router } from "express";
+import { TicketCancellationController } from "../controllers/ticketCancellation.controller";
+import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
+import {
+  requireAdminBancaOrVentana,
+  requireAdminOrBanca,
+  requireAdminVentanaOrVendedor,
+} from "../../../middlewares/roleGuards.middleware";
+import { validateBody, validateParams, validateQuery } from "../../../middlewares/validate.middleware";
+import {
+  CancellationPolicyQuerySchema,
+  CancelRequestIdParamSchema,
+  DecideCancelRequestSchema,
+  ListCancelRequestsQuerySchema,
+  UpdateCancellationPolicySchema,
+} from "../validators/ticketCancellation.validator";
+
+const router = Router();
+
+router.use(protect);
+router.use(noApiKey);
+router.use(bancaContextMiddleware);
+router.use(requireAdminVentanaOrVendedor);
+
+// Política de anulación (la ventana sobreescribe a la banca)
+router.get(
+  "/policy",
+  requireAdminBancaOrVentana,
+  validateQuery(CancellationPolicyQuerySchema),
+  TicketCancellationController.getPolicy
+);
+router.put(
+  "/policy",
+  requireAdminOrBanca,
+  validateBody(UpdateCancellationPolicySchema),
+  TicketCancellationController.updatePolicy
+);
+
+// Solicitudes de anulación fuera de política (por defecto solo las pendientes)
+router.get("/", validateQuery(ListCancelRequestsQuerySchema), TicketCancellationController.findAll);
+
+router.get("/:id", validateParams(CancelRequestIdParamSchema), TicketCancellationController.findById);
+
+// VENTANA o BANCA aprueba (y anula el tiquete) o rechaza; el vendedor puede retirar la suya
+router.post(
+  "/:id/approve",
+  requireAdminBancaOrVentana,
+  validateParams(CancelRequestIdParamSchema),
+  validateBody(DecideCancelRequestSchema),
+  TicketCancellationController.approve
+);
+
+router.post(
+  "/:id/reject",
+  validateParams(CancelRequestIdParamSchema),
+  validateBody(DecideCancelRequestSchema),
+  TicketCancellationController.reject
+);
+
+export default router;
@@ -1,5 +1,7 @@
 import { Router } from "express";
 import { protect } from "../../../middlewares/auth.middleware";
+import { apiKeyScope, noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
 import { validateBody, validateParams, validateQuery } from "../../../middlewares/validate.middleware";
 import { TicketPaymentController } from "../controllers/ticketPayment.controller";
 import {
@@ -12,6 +14,8 @@ import {
 const router = Router();
 
 router.use(protect);
+router.use(noApiKey);
+router.use(bancaContextMiddleware);
 
 /**
  * Ticket Payment endpoints
@@ -34,6 +38,7 @@ router.post(
 // Obtener detalles de un pago
 router.get(
   "/:id",
+  apiKeyScope("tickets:read"),
   validateParams(TicketPaymentIdParamSchema),
   TicketPaymentController.getById
 );
@@ -59,6 +64,7 @@ router.post(
  */
 router.get(
   "/tickets/:ticketId/payment-history",
+  apiKeyScope("tickets:read"),
   TicketPaymentController.getPaymentHistory
 );
 
@@ -0,0 +1,67 @@
+import { Router } from "express";
+import { TicketPayoutController } from "../controllers/ticketPayout.controller";
+import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
+import {
+  requireAdminBancaOrVentana,
+  requireAdminOrBanca,
+  requireAdminVentanaOrVendedor,
+} from "../../../middlewares/roleGuards.middleware";
+import { validateBody, validateParams, validateQuery } from "../../../middlewares/validate.middleware";
+import {
+  DecidePayoutRequestSchema,
+  ExtendClaimSchema,
+  ListPayoutRequestsQuerySchema,
+  PayoutRequestIdParamSchema,
+  ScanLookupSchema,
+  ScanPaySchema,
+  TicketIdParamSchema,
+  UpdatePayoutPolicySchema,
+} from "../validators/ticketPayout.validator";
+
+const router = Router();
+
+router.use(protect);
+router.use(noApiKey);
+router.use(bancaContextMiddleware);
+router.use(requireAdminVentanaOrVendedor);
+
+// Política de pago de premios de la banca activa
+router.get("/policy", requireAdminBancaOrVentana, TicketPayoutController.getPolicy);
+router.put("/policy", requireAdminOrBanca, validateBody(UpdatePayoutPolicySchema), TicketPayoutController.updatePolicy);
+
+// Caja: escanear (QR o código de barras) y pagar
+router.post("/scan", validateBody(ScanLookupSchema), TicketPayoutController.lookup);
+router.post("/scan/pay", validateBody(ScanPaySchema), TicketPayoutController.pay);
+
+// Pagos sobre el umbral pendientes de aprobación (por defecto solo las pendientes)
+router.get("/approvals", validateQuery(ListPayoutRequestsQuerySchema), TicketPayoutController.findAll);
+router.get("/approvals/:id", validateParams(PayoutRequestIdParamSchema), TicketPayoutController.findById);
+
+// BANCA aprueba (y se registra el pago) o rechaza; el cajero puede retirar la suya
+router.post(
+  "/approvals/:id/approve",
+  requireAdminOrBanca,
+  validateParams(PayoutRequestIdParamSchema),
+  validateBody(DecidePayoutRequestSchema),
+  TicketPayoutController.approve
+);
+
+router.post(
+  "/approvals/:id/reject",
+  validateParams(PayoutRequestIdParamSchema),
+  validateBody(DecidePayoutRequestSchema),
+  TicketPayoutController.reject
+);
+
+// Extensión del plazo de cobro de un premio (restituye premios vencidos)
+router.post(
+  "/tickets/:ticketId/claim-extension",
+  requireAdminOrBanca,
+  validateParams(TicketIdParamSchema),
+  validateBody(ExtendClaimSchema),
+  TicketPayoutController.extendClaim
+);
+
+export default router;
@@ -26,9 +26,11 @@ import prisma from "../../../core/prismaClient";
 import { AppError } from "../../../core/errors";
 import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
 import userBancaRoutes from "./userBanca.routes";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 
 const router = Router();
 router.use(protect);
+router.use(noApiKey);
 router.use(bancaContextMiddleware);
 
 router.use("/:id/bancas", userBancaRoutes);
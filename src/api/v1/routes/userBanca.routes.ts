@@ -1,6 +1,7 @@
 import { Router } from "express";
 import UserBancaController from "../controllers/userBanca.controller";
 import { protect, restrictTo } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { Role } from "../../../generated/prisma/client";
 import { validateBody, validateParams } from "../../../middlewares/validate.middleware";
 import { z } from "zod";
@@ -8,6 +9,7 @@ import { z } from "zod";
 const router = Router({ mergeParams: true });
 
 router.use(protect);
+router.use(noApiKey);
 
 const bancaIdParamSchema = z.object({ bancaId: z.string().uuid("Invalid bancaId") });
 const assignBancaSchema = z.object({ bancaId: z.string().uuid("Invalid bancaId"), isDefault: z.boolean().optional() });
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { VendedorController } from "../controllers/vendedor.controller";
 import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
 import {
   validateBody,
@@ -18,6 +19,7 @@ import { requireAdminOrBanca, requireAdminBancaOrVentana } from "../../../middle
 const router = Router();
 
 router.use(protect);
+router.use(noApiKey);
 router.use(bancaContextMiddleware);
 
 // Escritura
@@ -9,6 +9,7 @@ import {
   validateFacetsQuery,
 } from "../validators/venta.validator";
 import { protect, restrictTo } from "../../../middlewares/auth.middleware";
+import { apiKeyScope, noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
 import { Role } from "../../../generated/prisma/client";
 
@@ -16,6 +17,7 @@ const router = Router();
 
 // Autenticación y autorización (todos los endpoints requieren JWT)
 router.use(protect);
+router.use(noApiKey);
 router.use(restrictTo(Role.VENDEDOR, Role.VENTANA, Role.BANCA, Role.ADMIN));
 
 // Middleware de contexto de banca DESPUÉS de protect (para que req.user esté disponible)
@@ -23,23 +25,23 @@ router.use(bancaContextMiddleware);
 
 // 2) Resumen ejecutivo (KPI)
 // GET /ventas/summary
-router.get("/summary", validateVentasSummaryQuery, VentaController.summary);
+router.get("/summary", apiKeyScope("reports:read"), validateVentasSummaryQuery, VentaController.summary);
 
 // 3) Desglose por dimensión
 // GET /ventas/breakdown?dimension=ventana|vendedor|loteria|sorteo|numero&top=10
-router.get("/breakdown", validateVentasBreakdownQuery, VentaController.breakdown);
+router.get("/breakdown", apiKeyScope("reports:read"), validateVentasBreakdownQuery, VentaController.breakdown);
 
 // 4) Serie de tiempo
 // GET /ventas/timeseries?granularity=hour|day|week
-router.get("/timeseries", validateVentasTimeseriesQuery, VentaController.timeseries);
+router.get("/timeseries", apiKeyScope("reports:read"), validateVentasTimeseriesQuery, VentaController.timeseries);
 
 // 5) Facets - Valores válidos para filtros
 // GET /ventas/facets
-router.get("/facets", validateFacetsQuery, VentaController.facets);
+router.get("/facets", apiKeyScope("reports:read"), validateFacetsQuery, VentaController.facets);
 
 // 1) Listado transaccional (detalle)
 // GET /ventas
 // IMPORTANTE: Este debe ir al final para evitar conflictos con /summary, /breakdown, /timeseries, /facets
-router.get("/", validateListVentasQuery, VentaController.list);
+router.get("/", apiKeyScope("reports:read"), validateListVentasQuery, VentaController.list);
 
 export default router;
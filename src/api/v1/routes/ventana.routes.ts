@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { VentanaController } from "../controllers/ventana.controller";
 import { protect, restrictToAdminOrSelf, restrictToAdminOrVentanaSelf } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
 import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
 import { validateBody, validateParams, validateQuery } from "../../../middlewares/validate.middleware";
 import {
@@ -15,6 +16,7 @@ import { requireAdmin, requireAdminOrBanca } from "../../../middlewares/roleGuar
 const router = Router();
 
 router.use(protect);
+router.use(noApiKey);
 router.use(bancaContextMiddleware);
 
 // Solo ADMIN o BANCA pueden crear, editar o eliminar Ventanas
@@ -0,0 +1,55 @@
+import { Router } from "express";
+import { WebhookController } from "../controllers/webhook.controller";
+import { protect } from "../../../middlewares/auth.middleware";
+import { noApiKey } from "../../../middlewares/apiKeyScope.middleware";
+import { bancaContextMiddleware } from "../../../middlewares/bancaContext.middleware";
+import { requireAdminOrBanca } from "../../../middlewares/roleGuards.middleware";
+import { validateBody, validateParams, validateQuery } from "../../../middlewares/validate.middleware";
+import {
+  CreateWebhookSchema,
+  ListWebhookDeliveriesQuerySchema,
+  ListWebhooksQuerySchema,
+  UpdateWebhookSchema,
+  WebhookDeliveryParamSchema,
+  WebhookIdParamSchema,
+} from "../validators/webhook.validator";
+
+const router = Router();
+
+router.use(protect);
+router.use(noApiKey);
+router.use(bancaContextMiddleware);
+
+// Solo ADMIN y BANCA gestionan webhooks (BANCA limitado a su banca activa)
+router.use(requireAdminOrBanca);
+
+router.post("/", validateBody(CreateWebhookSchema), WebhookController.create);
+
+router.get("/", validateQuery(ListWebhooksQuerySchema), WebhookController.findAll);
+
+router.get("/:id", validateParams(WebhookIdParamSchema), WebhookController.findById);
+
+router.patch(
+  "/:id",
+  validateParams(WebhookIdParamSchema),
+  validateBody(UpdateWebhookSchema),
+  WebhookController.update
+);
+
+router.delete("/:id", validateParams(WebhookIdParamSchema), WebhookController.delete);
+
+// Historial de entregas y reenvío manual
+router.get(
+  "/:id/deliveries",
+  validateParams(WebhookIdParamSchema),
+  validateQuery(ListWebhookDeliveriesQuerySchema),
+  WebhookController.listDeliveries
+);
+
+router.post(
+  "/:id/deliveries/:deliveryId/redeliver",
+  validateParams(WebhookDeliveryParamSchema),
+  WebhookController.redeliver
+);
+
+export default router;
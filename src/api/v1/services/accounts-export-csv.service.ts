@@ -1,6 +1,7 @@
 // src/api/v1/services/accounts-export-csv.service.ts
 import { AccountStatementExportPayload } from '../types/accounts-export.types';
 import { getCRLocalComponents } from '../../../utils/businessDate';
+import { roundMoney } from "../../../utils/decimal";
 
 /**
  * Servicio para exportar estados de cuenta a CSV
@@ -333,7 +334,7 @@ export class AccountsExportCsvService {
   private static formatCurrency(value: number): string {
     if (typeof value !== 'number') return '0.00';
     // Formato simple para CSV (compatible con Excel)
-    return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).replace(/,/g, '');
+    return roundMoney(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).replace(/,/g, '');
   }
 
   /**
@@ -4,6 +4,7 @@ import path from 'path';
 import { AccountStatementExportPayload } from '../types/accounts-export.types';
 import { ResilienceService } from '../../../core/resilience.service';
 import { getCRLocalComponents } from '../../../utils/businessDate';
+import { roundMoney } from "../../../utils/decimal";
 
 /**
  * Servicio para exportar estados de cuenta a PDF
@@ -619,7 +620,8 @@ export class AccountsExportPdfService {
   }
 
   private static formatCurrency(value: number): string {
-    if (value < 0) return `-(${Math.abs(value).toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')})`;
-    return value.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+    const amount = roundMoney(value);
+    if (amount < 0) return `-(${Math.abs(amount).toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')})`;
+    return amount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
   }
 }
@@ -0,0 +1,93 @@
+import { roundMoney } from "../../../../utils/decimal";
+
+/** Qué se compara contra lo recalculado desde tiquetes y jugadas */
+export type AuditSource = "ACCOUNT_STATEMENT" | "RESUMEN_CIERRE_DIARIO" | "DAILY_NUMBER_SALES";
+
+/** Statements por vendedor/ventana/banca; ResumenCierreDiario por banca; DailyNumberSales por sorteo */
+export type AuditDimension = "vendedor" | "ventana" | "banca" | "sorteo";
+
+export type AuditTotals = Record<string, number>;
+
+/** Campo → recalculado (expected), guardado (actual) y diferencia expected − actual */
+export type AuditDiffs = Record<string, { expected: number; actual: number; diff: number }>;
+
+export type AuditKey = {
+  source: AuditSource;
+  dimension: AuditDimension;
+  entityId: string;
+  businessDate: string; // YYYY-MM-DD
+};
+
+/** Fila agregada de un rollup (o de su recálculo) con la banca y el día que la agrupan */
+export type AuditRollupRow = {
+  businessDate: string;
+  bancaId: string;
+  entityId: string;
+  totals: AuditTotals;
+};
+
+export type AuditRollupDrift = {
+  businessDate: string;
+  bancaId: string;
+  entityId: string;
+  diffs: AuditDiffs;
+};
+
+/** Campos de AccountStatement que se recalculan desde la fuente */
+export const STATEMENT_AUDIT_FIELDS = [
+  "totalSales",
+  "totalPayouts",
+  "listeroCommission",
+  "vendedorCommission",
+  "ticketCount",
+  "totalPaid",
+  "totalCollected",
+] as const;
+
+export const findingKey = (key: AuditKey) =>
+  `${key.source}|${key.dimension}|${key.entityId}|${key.businessDate}`;
+
+/**
+ * Diferencias al céntimo entre lo recalculado y lo guardado, solo de los campos de `fields`.
+ * Un campo ausente cuenta como 0 (statement o fila de rollup que no existe).
+ */
+export function diffTotals(expected: AuditTotals, actual: AuditTotals, fields: readonly string[]): AuditDiffs {
+  const diffs: AuditDiffs = {};
+  for (const field of fields) {
+    const e = roundMoney(expected[field] ?? 0);
+    const a = roundMoney(actual[field] ?? 0);
+    if (e !== a) diffs[field] = { expected: e, actual: a, diff: roundMoney(e - a) };
+  }
+  return diffs;
+}
+
+/** Compara un rollup fila a fila con su recálculo; las filas que sobran o faltan también son deriva */
+export function diffRollups(
+  expected: AuditRollupRow[],
+  actual: AuditRollupRow[],
+  fields: readonly string[]
+): AuditRollupDrift[] {
+  const keyOf = (row: AuditRollupRow) => `${row.businessDate}|${row.bancaId}|${row.entityId}`;
+  const stored = new Map(actual.map((row) => [keyOf(row), row]));
+  const rows = new Map(expected.map((row) => [keyOf(row), row]));
+  for (const [key, row] of stored) if (!rows.has(key)) rows.set(key, { ...row, totals: {} });
+
+  const drift: AuditRollupDrift[] = [];
+  for (const [key, row] of rows) {
+    const diffs = diffTotals(row.totals, stored.get(key)?.totals ?? {}, fields);
+    if (Object.keys(diffs).length > 0) {
+      drift.push({ businessDate: row.businessDate, bancaId: row.bancaId, entityId: row.entityId, diffs });
+    }
+  }
+  return drift;
+}
+
+/** Días cerrados que revisa la pasada programada: los últimos `lookbackDays` hasta ayer */
+export function auditRange(lookbackDays: number, todayStr: string) {
+  const day = (offset: number) => {
+    const d = new Date(`${todayStr}T00:00:00.000Z`);
+    d.setUTCDate(d.getUTCDate() - offset);
+    return d.toISOString().slice(0, 10);
+  };
+  return { fromDate: day(lookbackDays), toDate: day(1) };
+}
@@ -0,0 +1,465 @@
+/**
+ * Auditoría de integridad de estados de cuenta.
+ *
+ * Recalcula desde tiquetes y jugadas los días cerrados y los compara con lo guardado:
+ * AccountStatement (ventas, premios, comisiones, tiquetes, pagos y cobros), ResumenCierreDiario
+ * y DailyNumberSales. Cada diferencia queda como hallazgo OPEN con el detalle por campo; se
+ * cierra sola (RESOLVED) cuando una pasada posterior ya no la ve. Con reparación activa se
+ * vuelve a sincronizar lo que no cuadra, salvo en períodos bloqueados.
+ */
+
+import { AppError } from "../../../../core/errors";
+import ActivityService from "../../../../core/activity.service";
+import logger from "../../../../core/logger";
+import { AuthUser } from "../../../../core/types";
+import { ActivityType, Prisma, Role } from "../../../../generated/prisma/client";
+import StatementAuditRepository from "../../../../repositories/statementAudit.repository";
+import { AccountPaymentRepository } from "../../../../repositories/accountPayment.repository";
+import { crDateService } from "../../../../utils/crDateService";
+import { ListAuditFindingsQuery, RunStatementAuditInput } from "../../dto/statementAudit.dto";
+import { CierreRollupService } from "../cierre.rollup.service";
+import { DailyNumberSalesService } from "../dailyNumberSales.service";
+import { AccountStatementSyncService } from "./accounts.sync.service";
+import { calculateDayTotalsFromSource } from "./accounts.calculations";
+import { PeriodLockService } from "./accounts.periodLocks";
+import {
+  AuditDiffs,
+  AuditDimension,
+  AuditKey,
+  AuditRollupRow,
+  AuditSource,
+  AuditTotals,
+  diffRollups,
+  diffTotals,
+  STATEMENT_AUDIT_FIELDS,
+} from "./accounts.audit.helpers";
+
+const MAX_RANGE_DAYS = 31;
+
+type StatementDimension = "banca" | "ventana" | "vendedor";
+
+type AuditRunOptions = {
+  fromDate: string;
+  toDate: string;
+  bancaId?: string | null;
+  repair?: boolean;
+  trigger: "SCHEDULED" | "MANUAL";
+  userId?: string | null;
+};
+
+/** Una entidad-día que la pasada revisa; `statementId` nulo = estado de cuenta que falta */
+type StatementBook = {
+  businessDate: string;
+  dimension: StatementDimension;
+  entityId: string;
+  bancaId: string | null;
+  ventanaId?: string;
+  statementId: string | null;
+  stored: AuditTotals;
+};
+
+type Drift = AuditKey & { bancaId: string | null; statementId?: string | null; diffs: AuditDiffs };
+
+const ROLLUP_FIELDS: Record<Exclude<AuditSource, "ACCOUNT_STATEMENT">, string[]> = {
+  RESUMEN_CIERRE_DIARIO: ["totalAmount", "payout", "commission", "jugadasCount"],
+  DAILY_NUMBER_SALES: ["totalAmount", "jugadasCount"],
+};
+
+function buildMeta(total: number, page: number, pageSize: number) {
+  const totalPages = Math.ceil(total / pageSize);
+  return {
+    total,
+    page,
+    pageSize,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+}
+
+const toDate = (dateStr: string) => new Date(`${dateStr}T00:00:00.000Z`);
+
+function daysBetween(fromDate: string, toDateStr: string) {
+  return Math.round((toDate(toDateStr).getTime() - toDate(fromDate).getTime()) / 86_400_000) + 1;
+}
+
+function statementDimension(row: { vendedorId: string | null; ventanaId: string | null }): StatementDimension {
+  if (row.vendedorId) return "vendedor";
+  if (row.ventanaId) return "ventana";
+  return "banca";
+}
+
+function toRollupRows(rows: Awaited<ReturnType<typeof StatementAuditRepository.resumenStored>>): AuditRollupRow[] {
+  return rows.map((row) => ({
+    businessDate: row.businessDate,
+    bancaId: row.bancaId,
+    entityId: row.entityId,
+    totals: {
+      totalAmount: Number(row.totalAmount),
+      payout: Number(row.payout),
+      commission: Number(row.commission),
+      jugadasCount: Number(row.jugadasCount),
+    },
+  }));
+}
+
+export const StatementAuditService = {
+  /**
+   * Pasada completa sobre el rango: registra la corrida, los hallazgos nuevos o que siguen y
+   * cierra los que ya cuadran. Una falla deja la corrida en FAILED con el error.
+   */
+  async run(options: AuditRunOptions) {
+    const { fromDate, toDate: toDateStr, bancaId = null, repair = false } = options;
+    const run = await StatementAuditRepository.createRun({
+      trigger: options.trigger,
+      bancaId,
+      fromDate: toDate(fromDate),
+      toDate: toDate(toDateStr),
+      createdBy: options.userId ?? null,
+    });
+
+    try {
+      const books = await this.collectStatementBooks(fromDate, toDateStr, bancaId);
+      const drifts: Drift[] = [];
+      let checked = 0;
+
+      for (const book of books) {
+        checked++;
+        const diffs = await this.diffStatement(book);
+        if (Object.keys(diffs).length > 0) {
+          drifts.push({
+            source: "ACCOUNT_STATEMENT",
+            dimension: book.dimension,
+            entityId: book.entityId,
+            businessDate: book.businessDate,
+            bancaId: book.bancaId,
+            statementId: book.statementId,
+            diffs,
+          });
+        }
+      }
+
+      const rollups = await this.diffRollupSources(fromDate, toDateStr, bancaId);
+      checked += rollups.checked;
+      drifts.push(...rollups.drifts);
+
+      let repaired = 0;
+      for (const drift of drifts) {
+        const finding = await this.recordFinding(run.id, drift);
+        if (repair && (await this.repairFinding(finding.id, drift))) repaired++;
+      }
+      const resolved = await StatementAuditRepository.resolveUnseen(run.id, fromDate, toDateStr, bancaId);
+
+      const finished = await StatementAuditRepository.finishRun(run.id, {
+        status: "COMPLETED",
+        checked,
+        findings: drifts.length,
+        repaired,
+      });
+      logger.info({
+        layer: "service",
+        action: "STATEMENT_AUDIT_RUN_DONE",
+        payload: { runId: run.id, fromDate, toDate: toDateStr, bancaId, checked, findings: drifts.length, repaired, resolved },
+      });
+      return { ...finished, resolved };
+    } catch (error: any) {
+      await StatementAuditRepository.finishRun(run.id, { status: "FAILED", error: error?.message ?? String(error) });
+      logger.error({
+        layer: "service",
+        action: "STATEMENT_AUDIT_RUN_ERROR",
+        payload: { runId: run.id, fromDate, toDate: toDateStr, bancaId, error: error?.message },
+      });
+      throw error;
+    }
+  },
+
+  /** Pasada a demanda: BANCA (o ADMIN con banca activa) solo audita su banca */
+  async runOnDemand(data: RunStatementAuditInput, actor: AuthUser, activeBancaId?: string | null) {
+    const bancaId = actor.role === Role.ADMIN ? activeBancaId ?? null : activeBancaId;
+    if (actor.role !== Role.ADMIN && !bancaId) throw new AppError("Seleccione una banca", 400);
+
+    if (data.fromDate > data.toDate) {
+      throw new AppError("fromDate debe ser anterior o igual a toDate", 400, "INVALID_RANGE");
+    }
+    if (daysBetween(data.fromDate, data.toDate) > MAX_RANGE_DAYS) {
+      throw new AppError(`El rango no puede superar ${MAX_RANGE_DAYS} días`, 400, "RANGE_TOO_LARGE");
+    }
+    if (data.toDate >= crDateService.dateUTCToCRString(new Date())) {
+      throw new AppError("Solo se pueden auditar días ya cerrados", 400, "PERIOD_NOT_FINISHED");
+    }
+
+    const run = await this.run({
+      fromDate: data.fromDate,
+      toDate: data.toDate,
+      bancaId,
+      repair: data.repair ?? false,
+      trigger: "MANUAL",
+      userId: actor.id,
+    });
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "STATEMENT_AUDIT",
+      targetId: run.id,
+      details: {
+        op: "statement_audit_run",
+        fromDate: data.fromDate,
+        toDate: data.toDate,
+        repair: data.repair ?? false,
+        findings: run.findings,
+        repaired: run.repaired,
+        description: `Auditoría de estados de cuenta ${data.fromDate} a ${data.toDate}: ${run.findings} diferencias`,
+      } as Prisma.InputJsonObject,
+      layer: "service",
+    });
+    return this.serializeRun(run);
+  },
+
+  async listFindings(query: ListAuditFindingsQuery, actor: AuthUser, activeBancaId?: string | null) {
+    if (actor.role !== Role.ADMIN && !activeBancaId) throw new AppError("Seleccione una banca", 400);
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 50;
+
+    const where: Prisma.StatementAuditFindingWhereInput = { status: query.status ?? "OPEN" };
+    if (activeBancaId) where.bancaId = activeBancaId;
+    if (query.source) where.source = query.source;
+    if (query.dimension) where.dimension = query.dimension;
+    if (query.fromDate || query.toDate) {
+      where.businessDate = {
+        ...(query.fromDate ? { gte: toDate(query.fromDate) } : {}),
+        ...(query.toDate ? { lte: toDate(query.toDate) } : {}),
+      };
+    }
+
+    const [{ data, total }, lastRun] = await Promise.all([
+      StatementAuditRepository.listFindings(where, page, pageSize),
+      StatementAuditRepository.lastRun(activeBancaId),
+    ]);
+    return {
+      data: data.map((finding) => ({
+        ...finding,
+        businessDate: crDateService.postgresDateToCRString(finding.businessDate),
+      })),
+      meta: { ...buildMeta(total, page, pageSize), lastRun: lastRun ? this.serializeRun(lastRun) : null },
+    };
+  },
+
+  /**
+   * Estados de cuenta guardados del rango más los que deberían existir por tener tiquetes
+   * (vendedor, su ventana y su banca). Los vendedores con reinicio de saldo ese día se omiten:
+   * la sincronización solo toma lo posterior al reinicio y el recálculo no lo distingue.
+   */
+  async collectStatementBooks(fromDate: string, toDateStr: string, bancaId: string | null) {
+    const [statements, sourceBooks] = await Promise.all([
+      StatementAuditRepository.statementsInRange(fromDate, toDateStr, bancaId),
+      StatementAuditRepository.sourceBooks(fromDate, toDateStr, bancaId),
+    ]);
+
+    const books = new Map<string, StatementBook>();
+    const keyOf = (dimension: string, entityId: string, businessDate: string) => `${dimension}|${entityId}|${businessDate}`;
+
+    for (const row of statements) {
+      const dimension = statementDimension(row);
+      const entityId = row.vendedorId ?? row.ventanaId ?? row.bancaId;
+      if (!entityId) continue;
+      const businessDate = crDateService.postgresDateToCRString(row.date);
+      books.set(keyOf(dimension, entityId, businessDate), {
+        businessDate,
+        dimension,
+        entityId,
+        bancaId: row.bancaId,
+        ventanaId: row.ventanaId ?? undefined,
+        statementId: row.id,
+        stored: {
+          totalSales: Number(row.totalSales),
+          totalPayouts: Number(row.totalPayouts),
+          listeroCommission: Number(row.listeroCommission),
+          vendedorCommission: Number(row.vendedorCommission),
+          ticketCount: row.ticketCount,
+          totalPaid: Number(row.totalPaid),
+          totalCollected: Number(row.totalCollected),
+        },
+      });
+    }
+
+    for (const row of sourceBooks) {
+      const entities: Array<[StatementDimension, string | null]> = [
+        ["vendedor", row.vendedorId],
+        ["ventana", row.ventanaId],
+        ["banca", row.bancaId],
+      ];
+      for (const [dimension, entityId] of entities) {
+        if (!entityId || books.has(keyOf(dimension, entityId, row.businessDate))) continue;
+        books.set(keyOf(dimension, entityId, row.businessDate), {
+          businessDate: row.businessDate,
+          dimension,
+          entityId,
+          bancaId: row.bancaId,
+          ventanaId: dimension === "banca" ? undefined : row.ventanaId,
+          statementId: null,
+          stored: {},
+        });
+      }
+    }
+
+    const resetDays = await this.balanceResetDays(
+      Array.from(new Set(Array.from(books.values()).filter((b) => b.dimension === "vendedor").map((b) => b.entityId)))
+    );
+    return Array.from(books.values()).filter(
+      (book) => !(book.dimension === "vendedor" && resetDays.get(book.entityId) === book.businessDate)
+    );
+  },
+
+  async balanceResetDays(vendedorIds: string[]) {
+    const resetDays = new Map<string, string>();
+    if (vendedorIds.length === 0) return resetDays;
+    const users = await StatementAuditRepository.vendedorSettings(vendedorIds);
+    for (const user of users) {
+      const resetAt = (user.settings as Record<string, any> | null)?.balanceResetAt;
+      if (resetAt) resetDays.set(user.id, crDateService.dateUTCToCRString(new Date(resetAt)));
+    }
+    return resetDays;
+  },
+
+  async diffStatement(book: StatementBook) {
+    const date = toDate(book.businessDate);
+    const source = await calculateDayTotalsFromSource(
+      date,
+      book.dimension,
+      book.dimension === "ventana" ? book.entityId : undefined,
+      book.dimension === "vendedor" ? book.entityId : undefined,
+      book.dimension === "banca" ? book.entityId : undefined,
+      { activeJugadasOnly: true }
+    );
+
+    const [totalPaid, totalCollected] = book.statementId
+      ? await Promise.all([
+          AccountPaymentRepository.getTotalPaid(book.statementId),
+          AccountPaymentRepository.getTotalCollected(book.statementId),
+        ])
+      : [0, 0];
+
+    const expected: AuditTotals = {
+      totalSales: source.totalSales,
+      totalPayouts: source.totalPayouts,
+      listeroCommission: source.totalListeroCommission,
+      vendedorCommission: source.totalVendedorCommission,
+      ticketCount: source.ticketCount,
+      totalPaid: Number(totalPaid),
+      totalCollected: Number(totalCollected),
+    };
+    return diffTotals(expected, book.stored, STATEMENT_AUDIT_FIELDS);
+  },
+
+  async diffRollupSources(fromDate: string, toDateStr: string, bancaId: string | null) {
+    const [resumenStored, resumenSource, dnsStored, dnsSource] = await Promise.all([
+      StatementAuditRepository.resumenStored(fromDate, toDateStr, bancaId),
+      StatementAuditRepository.resumenSource(fromDate, toDateStr, bancaId),
+      StatementAuditRepository.dailyNumberSalesStored(fromDate, toDateStr, bancaId),
+      StatementAuditRepository.dailyNumberSalesSource(fromDate, toDateStr, bancaId),
+    ]);
+
+    const drifts: Drift[] = [];
+    const checks: Array<[Exclude<AuditSource, "ACCOUNT_STATEMENT">, AuditDimension, typeof resumenStored, typeof resumenSource]> = [
+      ["RESUMEN_CIERRE_DIARIO", "banca", resumenStored, resumenSource],
+      ["DAILY_NUMBER_SALES", "sorteo", dnsStored, dnsSource],
+    ];
+    let checked = 0;
+    for (const [source, dimension, stored, expected] of checks) {
+      checked += new Set([...stored, ...expected].map((r) => `${r.businessDate}|${r.bancaId}|${r.entityId}`)).size;
+      for (const drift of diffRollups(toRollupRows(expected), toRollupRows(stored), ROLLUP_FIELDS[source])) {
+        drifts.push({ source, dimension, ...drift });
+      }
+    }
+    return { checked, drifts };
+  },
+
+  /** Un hallazgo abierto con la misma clave se actualiza (sigue la deriva) en vez de duplicarse */
+  async recordFinding(runId: string, drift: Drift) {
+    const diffs = drift.diffs as unknown as Prisma.InputJsonObject;
+    const open = await StatementAuditRepository.findOpen(drift.source, drift.dimension, drift.entityId, drift.businessDate);
+    if (open) {
+      return StatementAuditRepository.updateFinding(open.id, {
+        runId,
+        diffs,
+        statementId: drift.statementId ?? null,
+        lastSeenAt: new Date(),
+      });
+    }
+    return StatementAuditRepository.createFinding({
+      runId,
+      bancaId: drift.bancaId,
+      businessDate: toDate(drift.businessDate),
+      source: drift.source,
+      dimension: drift.dimension,
+      entityId: drift.entityId,
+      statementId: drift.statementId ?? null,
+      diffs,
+    });
+  },
+
+  /**
+   * Vuelve a generar lo guardado desde la fuente. Los estados de cuenta se verifican después
+   * de sincronizar: si siguen sin cuadrar el hallazgo queda abierto con el motivo.
+   */
+  async repairFinding(findingId: string, drift: Drift) {
+    try {
+      await PeriodLockService.assertOpen(
+        {
+          bancaId: drift.bancaId,
+          ventanaId: drift.dimension === "ventana" ? drift.entityId : null,
+          vendedorId: drift.dimension === "vendedor" ? drift.entityId : null,
+        },
+        drift.businessDate,
+        "reparar el estado de cuenta"
+      );
+
+      if (drift.source === "ACCOUNT_STATEMENT") {
+        await AccountStatementSyncService.syncDayStatement(
+          toDate(drift.businessDate),
+          drift.dimension as StatementDimension,
+          drift.entityId,
+          { force: true }
+        );
+        const [book] = (await this.collectStatementBooks(drift.businessDate, drift.businessDate, drift.bancaId)).filter(
+          (b) => b.dimension === drift.dimension && b.entityId === drift.entityId
+        );
+        const remaining = book ? await this.diffStatement(book) : {};
+        if (Object.keys(remaining).length > 0) {
+          throw new Error(`Sigue sin cuadrar después de sincronizar: ${Object.keys(remaining).join(", ")}`);
+        }
+      } else if (drift.source === "RESUMEN_CIERRE_DIARIO") {
+        await CierreRollupService.aggregateRange(drift.businessDate, drift.businessDate);
+      } else {
+        await DailyNumberSalesService.aggregateSorteoSales(drift.entityId);
+      }
+
+      await StatementAuditRepository.updateFinding(findingId, {
+        status: "REPAIRED",
+        repairedAt: new Date(),
+        repairError: null,
+      });
+      return true;
+    } catch (error: any) {
+      await StatementAuditRepository.updateFinding(findingId, { repairError: error?.message ?? String(error) });
+      logger.warn({
+        layer: "service",
+        action: "STATEMENT_AUDIT_REPAIR_ERROR",
+        payload: { findingId, source: drift.source, entityId: drift.entityId, businessDate: drift.businessDate, error: error?.message },
+      });
+      return false;
+    }
+  },
+
+  serializeRun<T extends { fromDate: Date; toDate: Date }>(run: T) {
+    return {
+      ...run,
+      fromDate: crDateService.postgresDateToCRString(run.fromDate),
+      toDate: crDateService.postgresDateToCRString(run.toDate),
+    };
+  },
+};
+
+export default StatementAuditService;
@@ -6,6 +6,8 @@ import { crDateService } from "../../../../utils/crDateService";
 import { tz } from "../../../../utils/timezone";
 import { isExclusionListEmpty } from "../../../../core/exclusionListCache";
 import { ConcurrencyManager } from "../../../../utils/concurrency";
+import { rawBancaCondition } from "../../../../core/tenantIsolation";
+import { ticketVentanaBancaSql } from "../../../../core/tenantResolution";
 
 /**
  * Interface para los parámetros de cálculo de saldo anterior desde fuente
@@ -108,6 +110,9 @@ export async function calculatePreviousMonthBalanceFromSource(
         if (filters.vendedorId) {
             ticketConditions.push(Prisma.sql`t."vendedorId" = CAST(${filters.vendedorId} AS uuid)`);
         }
+        // Banca del contexto, aunque la dimensión sea ventana o vendedor
+        const tenantCondition = rawBancaCondition(ticketVentanaBancaSql);
+        if (tenantCondition) ticketConditions.push(tenantCondition);
 
         const ticketWhereClause = Prisma.sql`WHERE ${Prisma.join(ticketConditions, " AND ")}`;
 
@@ -0,0 +1,306 @@
+import { createHash } from "crypto";
+import { roundMoney, toMinorUnits } from "../../../../utils/decimal";
+
+export type BankStatementFormat = "CSV" | "OFX";
+export type BankDateFormat = "YYYY-MM-DD" | "DD/MM/YYYY" | "MM/DD/YYYY";
+export type BankMatchRule = "REFERENCE" | "AMOUNT_DATE" | "MANUAL";
+
+/** Columnas del CSV según el perfil del banco (nombres del encabezado) */
+export type BankCsvMapping = {
+  delimiter: string;
+  skipRows: number;
+  dateColumn: string | null;
+  dateFormat: string;
+  amountColumn: string | null;
+  creditColumn: string | null;
+  debitColumn: string | null;
+  referenceColumn: string | null;
+  descriptionColumn: string | null;
+  decimalSeparator: string;
+};
+
+/** Movimiento leído del archivo; `amount` positivo = ingreso a la cuenta de la banca */
+export type ParsedBankLine = {
+  lineNumber: number;
+  postedDate: string; // YYYY-MM-DD
+  amount: number;
+  reference: string | null;
+  description: string | null;
+  externalId: string | null; // FITID del OFX
+};
+
+export type BankParseError = { lineNumber: number; error: string };
+
+/** Transferencia registrada que puede conciliarse (type payment = salida, collection = ingreso) */
+export type ReconcilablePayment = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  type: string;
+  reference: string | null;
+};
+
+export type BankLineMatch = { lineIndex: number; paymentId: string; rule: BankMatchRule };
+
+const DATE_PATTERNS: Record<BankDateFormat, RegExp> = {
+  "YYYY-MM-DD": /^(?<y>\d{4})-(?<m>\d{1,2})-(?<d>\d{1,2})/,
+  "DD/MM/YYYY": /^(?<d>\d{1,2})[/.-](?<m>\d{1,2})[/.-](?<y>\d{4})/,
+  "MM/DD/YYYY": /^(?<m>\d{1,2})[/.-](?<d>\d{1,2})[/.-](?<y>\d{4})/,
+};
+
+const MIN_REFERENCE_LENGTH = 4;
+
+/** Fecha del archivo → YYYY-MM-DD; null si no es una fecha válida */
+export function parseBankDate(value: string, format: string): string | null {
+  const match = DATE_PATTERNS[format as BankDateFormat]?.exec(value.trim());
+  if (!match?.groups) return null;
+  const { y, m, d } = match.groups;
+  const date = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d)));
+  if (date.getUTCMonth() !== Number(m) - 1 || date.getUTCDate() !== Number(d)) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Monto del archivo → número con dos decimales. Acepta símbolo de moneda, separador de miles,
+ * signo al inicio o al final y negativos entre paréntesis.
+ */
+export function parseBankAmount(value: string, decimalSeparator: string): number | null {
+  let text = value.trim();
+  if (!text) return null;
+  const negative = /^\(.*\)$/.test(text) || /^-|-$/.test(text.replace(/[^\d,.()-]/g, ""));
+  text = text.replace(/[^\d,.]/g, "");
+  const thousands = decimalSeparator === "," ? "." : ",";
+  text = text.split(thousands).join("");
+  if (decimalSeparator === ",") text = text.replace(",", ".");
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+  const amount = roundMoney(Number(text));
+  return negative ? -amount : amount;
+}
+
+/** Divide una línea CSV respetando comillas dobles ("" dentro de un campo es una comilla) */
+export function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Lee un extracto CSV con el perfil del banco. Las filas sin fecha ni monto (totales, pies de
+ * página) se ignoran; una fila con fecha o monto ilegible se reporta como error.
+ */
+export function parseCsvStatement(content: string, mapping: BankCsvMapping) {
+  const rows = content.replace(/^\ufeff/, "").split(/\r?\n/);
+  const lines: ParsedBankLine[] = [];
+  const errors: BankParseError[] = [];
+
+  const headerIndex = rows.findIndex((row, i) => i >= mapping.skipRows && row.trim().length > 0);
+  if (headerIndex === -1) return { lines, errors: [{ lineNumber: 1, error: "El archivo no tiene encabezado" }] };
+
+  const header = splitCsvLine(rows[headerIndex], mapping.delimiter).map((h) => h.toLowerCase());
+  const column = (name: string | null) => (name ? header.indexOf(name.trim().toLowerCase()) : -1);
+  const idx = {
+    date: column(mapping.dateColumn),
+    amount: column(mapping.amountColumn),
+    credit: column(mapping.creditColumn),
+    debit: column(mapping.debitColumn),
+    reference: column(mapping.referenceColumn),
+    description: column(mapping.descriptionColumn),
+  };
+
+  const missing = [
+    idx.date === -1 ? mapping.dateColumn ?? "fecha" : null,
+    idx.amount === -1 && (idx.credit === -1 || idx.debit === -1)
+      ? mapping.amountColumn ?? `${mapping.creditColumn ?? "crédito"}/${mapping.debitColumn ?? "débito"}`
+      : null,
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    return { lines, errors: [{ lineNumber: headerIndex + 1, error: `Columnas no encontradas: ${missing.join(", ")}` }] };
+  }
+
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    if (!rows[i].trim()) continue;
+    const cells = splitCsvLine(rows[i], mapping.delimiter);
+    const cell = (index: number) => (index >= 0 ? cells[index] ?? "" : "");
+    const rawDate = cell(idx.date);
+    const rawAmount = idx.amount >= 0 ? cell(idx.amount) : `${cell(idx.credit)}${cell(idx.debit)}`;
+    if (!rawDate && !rawAmount) continue;
+
+    const postedDate = parseBankDate(rawDate, mapping.dateFormat);
+    let amount: number | null;
+    if (idx.amount >= 0) {
+      amount = parseBankAmount(rawAmount, mapping.decimalSeparator);
+    } else {
+      const credit = cell(idx.credit) ? parseBankAmount(cell(idx.credit), mapping.decimalSeparator) : 0;
+      const debit = cell(idx.debit) ? parseBankAmount(cell(idx.debit), mapping.decimalSeparator) : 0;
+      amount = credit === null || debit === null ? null : roundMoney(Math.abs(credit) - Math.abs(debit));
+    }
+
+    if (!postedDate) {
+      errors.push({ lineNumber: i + 1, error: `Fecha inválida: "${rawDate}"` });
+    } else if (amount === null) {
+      errors.push({ lineNumber: i + 1, error: `Monto inválido: "${rawAmount}"` });
+    } else {
+      lines.push({
+        lineNumber: i + 1,
+        postedDate,
+        amount,
+        reference: cell(idx.reference) || null,
+        description: cell(idx.description) || null,
+        externalId: null,
+      });
+    }
+  }
+  return { lines, errors };
+}
+
+/** Valor de un tag OFX, en SGML (sin cierre) o XML */
+function ofxTag(block: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  return match ? match[1].trim() || null : null;
+}
+
+/** Lee las transacciones (STMTTRN) de un extracto OFX 1.x (SGML) o 2.x (XML) */
+export function parseOfxStatement(content: string) {
+  const lines: ParsedBankLine[] = [];
+  const errors: BankParseError[] = [];
+  const blocks = content.split(/<STMTTRN>/i).slice(1);
+  if (blocks.length === 0) errors.push({ lineNumber: 1, error: "El archivo no tiene transacciones OFX (STMTTRN)" });
+
+  blocks.forEach((raw, index) => {
+    const block = raw.split(/<\/STMTTRN>/i)[0];
+    const lineNumber = index + 1;
+    const rawDate = ofxTag(block, "DTPOSTED") ?? "";
+    const rawAmount = ofxTag(block, "TRNAMT") ?? "";
+    const postedDate = /^\d{8}/.test(rawDate)
+      ? parseBankDate(`${rawDate.slice(0, 4)}-${rawDate.slice(4, 6)}-${rawDate.slice(6, 8)}`, "YYYY-MM-DD")
+      : null;
+    const amount = parseBankAmount(rawAmount, ".");
+
+    if (!postedDate) {
+      errors.push({ lineNumber, error: `Fecha inválida: "${rawDate}"` });
+    } else if (amount === null) {
+      errors.push({ lineNumber, error: `Monto inválido: "${rawAmount}"` });
+    } else {
+      const name = ofxTag(block, "NAME");
+      const memo = ofxTag(block, "MEMO");
+      lines.push({
+        lineNumber,
+        postedDate,
+        amount,
+        reference: ofxTag(block, "REFNUM") ?? ofxTag(block, "CHECKNUM"),
+        description: [name, memo].filter(Boolean).join(" - ") || null,
+        externalId: ofxTag(block, "FITID"),
+      });
+    }
+  });
+  return { lines, errors };
+}
+
+/**
+ * Huella de cada línea para no importarla dos veces cuando dos extractos se solapan: el FITID
+ * si existe; si no, fecha, monto, referencia y descripción más el número de repetición en el
+ * archivo (dos transferencias idénticas el mismo día son dos líneas distintas).
+ */
+export function lineFingerprints(lines: ParsedBankLine[]): string[] {
+  const seen = new Map<string, number>();
+  return lines.map((line) => {
+    const base = line.externalId
+      ? `FITID|${line.externalId}`
+      : `${line.postedDate}|${toMinorUnits(line.amount)}|${line.reference ?? ""}|${line.description ?? ""}`;
+    const occurrence = (seen.get(base) ?? 0) + 1;
+    seen.set(base, occurrence);
+    return createHash("sha256").update(line.externalId ? base : `${base}|${occurrence}`).digest("hex");
+  });
+}
+
+export const normalizeReference = (value: string | null | undefined) =>
+  (value ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+/** Monto con signo del pago visto desde la cuenta de la banca: cobro = ingreso, pago = salida */
+export const signedPaymentAmount = (payment: Pick<ReconcilablePayment, "amount" | "type">) =>
+  payment.type === "collection" ? roundMoney(payment.amount) : -roundMoney(payment.amount);
+
+const dayDistance = (a: string, b: string) =>
+  Math.abs(new Date(`${a}T00:00:00.000Z`).getTime() - new Date(`${b}T00:00:00.000Z`).getTime()) / 86_400_000;
+
+function referenceMatches(line: Pick<ParsedBankLine, "reference" | "description">, payment: ReconcilablePayment) {
+  const reference = normalizeReference(payment.reference);
+  if (reference.length < MIN_REFERENCE_LENGTH) return false;
+  return normalizeReference(`${line.reference ?? ""} ${line.description ?? ""}`).includes(reference);
+}
+
+/**
+ * Concilia líneas del extracto con transferencias registradas. Siempre exige el mismo monto
+ * (con signo) y fecha dentro de la tolerancia.
+ * 1. REFERENCE: la referencia del pago aparece en la referencia o descripción de la línea.
+ * 2. AMOUNT_DATE: sin referencia que lo confirme, solo si hay un único pago a la menor distancia;
+ *    un pago con referencia distinta a la de la línea no se toma.
+ */
+export function matchBankLines(
+  lines: Array<Pick<ParsedBankLine, "postedDate" | "amount" | "reference" | "description">>,
+  payments: ReconcilablePayment[],
+  toleranceDays: number
+): BankLineMatch[] {
+  const used = new Set<string>();
+  const matched = new Set<number>();
+  const matches: BankLineMatch[] = [];
+
+  const candidatesFor = (line: (typeof lines)[number]) =>
+    payments
+      .filter(
+        (p) =>
+          !used.has(p.id) &&
+          toMinorUnits(signedPaymentAmount(p)) === toMinorUnits(line.amount) &&
+          dayDistance(p.date, line.postedDate) <= toleranceDays
+      )
+      .sort((a, b) => dayDistance(a.date, line.postedDate) - dayDistance(b.date, line.postedDate));
+
+  const order = lines
+    .map((line, index) => ({ line, index }))
+    .sort((a, b) => a.line.postedDate.localeCompare(b.line.postedDate) || a.index - b.index);
+
+  for (const { line, index } of order) {
+    const payment = candidatesFor(line).find((p) => referenceMatches(line, p));
+    if (!payment) continue;
+    used.add(payment.id);
+    matched.add(index);
+    matches.push({ lineIndex: index, paymentId: payment.id, rule: "REFERENCE" });
+  }
+
+  for (const { line, index } of order) {
+    if (matched.has(index)) continue;
+    const lineReference = normalizeReference(line.reference);
+    const candidates = candidatesFor(line).filter(
+      (p) => !(lineReference && normalizeReference(p.reference) && !referenceMatches(line, p))
+    );
+    if (candidates.length === 0) continue;
+    const best = dayDistance(candidates[0].date, line.postedDate);
+    if (candidates.filter((p) => dayDistance(p.date, line.postedDate) === best).length > 1) continue;
+    used.add(candidates[0].id);
+    matches.push({ lineIndex: index, paymentId: candidates[0].id, rule: "AMOUNT_DATE" });
+  }
+
+  return matches.sort((a, b) => a.lineIndex - b.lineIndex);
+}
@@ -0,0 +1,356 @@
+/**
+ * Conciliación bancaria de transferencias.
+ *
+ * Cada banca define perfiles por banco (columnas del CSV u OFX) e importa sus extractos. Las
+ * líneas se concilian con los pagos/cobros registrados con method = "transfer" por monto,
+ * fecha (con tolerancia del perfil) y referencia. La vista mensual muestra lo conciliado, las
+ * líneas del banco sin pago registrado y las transferencias que el banco no confirma.
+ */
+
+import { createHash } from "crypto";
+import { AppError } from "../../../../core/errors";
+import ActivityService from "../../../../core/activity.service";
+import logger from "../../../../core/logger";
+import { AuthUser } from "../../../../core/types";
+import { ActivityType, Prisma } from "../../../../generated/prisma/client";
+import BankReconciliationRepository from "../../../../repositories/bankReconciliation.repository";
+import { crDateService } from "../../../../utils/crDateService";
+import { roundMoney, sumMoney, toMinorUnits } from "../../../../utils/decimal";
+import {
+  BankReconciliationQuery,
+  CreateBankProfileInput,
+  ImportBankStatementInput,
+  MatchBankLineInput,
+  UpdateBankProfileInput,
+} from "../../dto/bankReconciliation.dto";
+import {
+  lineFingerprints,
+  matchBankLines,
+  parseCsvStatement,
+  parseOfxStatement,
+  ParsedBankLine,
+  signedPaymentAmount,
+} from "./accounts.bankReconciliation.helpers";
+
+type ProfileRow = NonNullable<Awaited<ReturnType<typeof BankReconciliationRepository.findProfile>>>;
+
+const MAX_PARSE_ERRORS = 20;
+
+const addDays = (dateStr: string, days: number) => {
+  const date = new Date(`${dateStr}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+function monthRange(month: string) {
+  const [year, m] = month.split("-").map(Number);
+  const last = new Date(Date.UTC(year, m, 0)).getUTCDate();
+  return { fromDate: `${month}-01`, toDate: `${month}-${String(last).padStart(2, "0")}` };
+}
+
+/** Un perfil CSV necesita columna de fecha y monto con signo o crédito + débito */
+function assertCsvMapping(profile: Pick<ProfileRow, "format" | "dateColumn" | "amountColumn" | "creditColumn" | "debitColumn">) {
+  if (profile.format !== "CSV") return;
+  if (!profile.dateColumn) throw new AppError("El perfil CSV necesita dateColumn", 400, "INVALID_BANK_PROFILE");
+  if (!profile.amountColumn && !(profile.creditColumn && profile.debitColumn)) {
+    throw new AppError("El perfil CSV necesita amountColumn o creditColumn y debitColumn", 400, "INVALID_BANK_PROFILE");
+  }
+}
+
+export const BankReconciliationService = {
+  async listProfiles(activeBancaId?: string | null) {
+    const bancaId = this.requireBanca(activeBancaId);
+    return BankReconciliationRepository.listProfiles(bancaId);
+  },
+
+  async createProfile(data: CreateBankProfileInput, actor: AuthUser, activeBancaId?: string | null) {
+    const bancaId = this.requireBanca(activeBancaId);
+    const profile = {
+      ...data,
+      dateColumn: data.dateColumn ?? null,
+      amountColumn: data.amountColumn ?? null,
+      creditColumn: data.creditColumn ?? null,
+      debitColumn: data.debitColumn ?? null,
+    };
+    assertCsvMapping(profile);
+
+    try {
+      return await BankReconciliationRepository.createProfile({ ...profile, bancaId, createdBy: actor.id });
+    } catch (error: any) {
+      if (error?.code === "P2002") throw new AppError("Ya existe un perfil con ese nombre", 409, "BANK_PROFILE_EXISTS");
+      throw error;
+    }
+  },
+
+  async updateProfile(id: string, data: UpdateBankProfileInput, activeBancaId?: string | null) {
+    const bancaId = this.requireBanca(activeBancaId);
+    const current = await this.requireProfile(id, bancaId);
+    assertCsvMapping({ ...current, ...data } as ProfileRow);
+
+    try {
+      return await BankReconciliationRepository.updateProfile(id, data);
+    } catch (error: any) {
+      if (error?.code === "P2002") throw new AppError("Ya existe un perfil con ese nombre", 409, "BANK_PROFILE_EXISTS");
+      throw error;
+    }
+  },
+
+  /**
+   * Importa un extracto: un archivo con filas ilegibles se rechaza completo; las líneas que ya
+   * estaban importadas (extractos que se solapan) se omiten. Las nuevas se concilian al momento.
+   */
+  async importStatement(data: ImportBankStatementInput, actor: AuthUser, activeBancaId?: string | null) {
+    const bancaId = this.requireBanca(activeBancaId);
+    const profile = await this.requireProfile(data.profileId, bancaId);
+    if (!profile.isActive) throw new AppError("El perfil está inactivo", 409, "BANK_PROFILE_INACTIVE");
+
+    const fileHash = createHash("sha256").update(data.content).digest("hex");
+    if (await BankReconciliationRepository.findImportByHash(bancaId, fileHash)) {
+      throw new AppError("Este archivo ya fue importado", 409, "BANK_STATEMENT_ALREADY_IMPORTED");
+    }
+
+    const { lines, errors } = profile.format === "OFX" ? parseOfxStatement(data.content) : parseCsvStatement(data.content, profile);
+    if (errors.length > 0) {
+      throw new AppError("El archivo tiene filas que no se pudieron leer", 400, {
+        code: "BANK_STATEMENT_PARSE_ERROR",
+        errors: errors.slice(0, MAX_PARSE_ERRORS),
+        totalErrors: errors.length,
+      });
+    }
+    if (lines.length === 0) throw new AppError("El archivo no tiene movimientos", 400, "BANK_STATEMENT_EMPTY");
+
+    const fingerprints = lineFingerprints(lines);
+    const existing = await BankReconciliationRepository.existingFingerprints(bancaId, fingerprints);
+    const fresh = lines
+      .map((line, i) => ({ line, fingerprint: fingerprints[i] }))
+      .filter(({ fingerprint }) => !existing.has(fingerprint));
+    const dates = lines.map((line) => line.postedDate).sort();
+
+    const statementImport = await BankReconciliationRepository.createImport(
+      {
+        bancaId,
+        profileId: profile.id,
+        format: profile.format,
+        fileName: data.fileName,
+        fileHash,
+        fromDate: new Date(`${dates[0]}T00:00:00.000Z`),
+        toDate: new Date(`${dates[dates.length - 1]}T00:00:00.000Z`),
+        lineCount: fresh.length,
+        duplicateCount: lines.length - fresh.length,
+        importedBy: actor.id,
+      },
+      fresh.map(({ line, fingerprint }) => this.toLineData(line, fingerprint, bancaId))
+    );
+
+    const matched = await this.autoMatch(bancaId, await BankReconciliationRepository.unmatchedLines(statementImport.id), profile.dateToleranceDays);
+    await BankReconciliationRepository.setImportMatched(statementImport.id, matched);
+
+    const summary = {
+      importId: statementImport.id,
+      fileName: data.fileName,
+      fromDate: dates[0],
+      toDate: dates[dates.length - 1],
+      lines: fresh.length,
+      duplicates: lines.length - fresh.length,
+      matched,
+      unmatched: fresh.length - matched,
+    };
+    await this.logAction(bancaId, actor.id, "bank_statement_imported", statementImport.id,
+      `Extracto importado: ${data.fileName} (${fresh.length} líneas, ${matched} conciliadas)`, summary);
+    return summary;
+  },
+
+  /**
+   * Vista de conciliación del mes: líneas del banco (con el pago que las concilia), transferencias
+   * registradas sin confirmar por el banco y totales de cada grupo.
+   */
+  async getReconciliation(query: BankReconciliationQuery, activeBancaId?: string | null) {
+    const bancaId = this.requireBanca(activeBancaId);
+    const { fromDate, toDate } = monthRange(query.month);
+    const [lines, transfers] = await Promise.all([
+      BankReconciliationRepository.linesInRange(bancaId, fromDate, toDate),
+      BankReconciliationRepository.transfersInRange(bancaId, fromDate, toDate),
+    ]);
+
+    const matchedLines = lines.filter((line) => line.status === "MATCHED");
+    const unmatchedLines = lines.filter((line) => line.status === "UNMATCHED");
+    const unconfirmed = transfers.filter((payment) => !payment.bankLine);
+    const amountOf = (rows: Array<{ amount: number }>) => sumMoney(rows.map((row) => row.amount));
+
+    return {
+      month: query.month,
+      summary: {
+        bankLines: lines.length,
+        bankCredits: sumMoney(lines.filter((line) => line.amount > 0).map((line) => line.amount)),
+        bankDebits: roundMoney(-sumMoney(lines.filter((line) => line.amount < 0).map((line) => line.amount))),
+        matchedLines: matchedLines.length,
+        matchedAmount: amountOf(matchedLines),
+        unmatchedLines: unmatchedLines.length,
+        unmatchedAmount: amountOf(unmatchedLines),
+        transfers: transfers.length,
+        unconfirmedTransfers: unconfirmed.length,
+        unconfirmedAmount: sumMoney(unconfirmed.map(signedPaymentAmount)),
+      },
+      lines: lines.map((line) => ({ ...line, postedDate: crDateService.postgresDateToCRString(line.postedDate) })),
+      unconfirmedTransfers: unconfirmed.map(({ bankLine, ...payment }) => ({
+        ...payment,
+        date: crDateService.postgresDateToCRString(payment.date),
+      })),
+    };
+  },
+
+  /** Vuelve a conciliar las líneas pendientes del mes (p. ej. transferencias registradas después) */
+  async rematchMonth(query: BankReconciliationQuery, actor: AuthUser, activeBancaId?: string | null) {
+    const bancaId = this.requireBanca(activeBancaId);
+    const { fromDate, toDate } = monthRange(query.month);
+    const lines = (await BankReconciliationRepository.linesInRange(bancaId, fromDate, toDate)).filter(
+      (line) => line.status === "UNMATCHED"
+    );
+    const byTolerance = new Map<number, typeof lines>();
+    for (const line of lines) {
+      const toleranceDays = line.import.profile.dateToleranceDays;
+      byTolerance.set(toleranceDays, [...(byTolerance.get(toleranceDays) ?? []), line]);
+    }
+
+    let matched = 0;
+    for (const [toleranceDays, group] of byTolerance) {
+      matched += await this.autoMatch(bancaId, group, toleranceDays);
+    }
+    if (matched > 0) {
+      await this.logAction(bancaId, actor.id, "bank_statement_rematched", null,
+        `Conciliación automática de ${query.month}: ${matched} líneas`, { month: query.month, matched });
+    }
+    return { month: query.month, pending: lines.length, matched };
+  },
+
+  /** Conciliación manual: el monto con signo debe coincidir con el de la línea */
+  async matchLine(lineId: string, data: MatchBankLineInput, actor: AuthUser, activeBancaId?: string | null) {
+    const bancaId = this.requireBanca(activeBancaId);
+    const line = await this.requireLine(lineId, bancaId);
+    if (line.status !== "UNMATCHED") throw new AppError("La línea ya está conciliada", 409, "BANK_LINE_ALREADY_MATCHED");
+
+    const payment = await BankReconciliationRepository.findPayment(data.paymentId);
+    if (!payment || payment.bancaId !== bancaId) throw new AppError("Pago no encontrado", 404, "PAYMENT_NOT_FOUND");
+    if (payment.method !== "transfer") throw new AppError("Solo se concilian transferencias", 400, "PAYMENT_NOT_TRANSFER");
+    if (payment.isReversed) throw new AppError("El pago está revertido", 409, "PAYMENT_ALREADY_REVERSED");
+    if (payment.bankLine) throw new AppError("El pago ya está conciliado con otra línea", 409, "PAYMENT_ALREADY_RECONCILED");
+    if (toMinorUnits(signedPaymentAmount(payment)) !== toMinorUnits(line.amount)) {
+      throw new AppError("El monto del pago no coincide con el de la línea", 400, "BANK_AMOUNT_MISMATCH");
+    }
+
+    const moved = await this.tryMatch(line.id, payment.id, "MANUAL", actor.id);
+    if (!moved) throw new AppError("La línea cambió de estado, vuelva a intentar", 409, "BANK_LINE_CONFLICT");
+
+    await this.logAction(bancaId, actor.id, "bank_line_matched", line.id,
+      `Línea del ${crDateService.postgresDateToCRString(line.postedDate)} conciliada manualmente con el pago ${payment.id}`,
+      { paymentId: payment.id, amount: line.amount });
+    return BankReconciliationRepository.findLine(line.id);
+  },
+
+  async unmatchLine(lineId: string, actor: AuthUser, activeBancaId?: string | null) {
+    const bancaId = this.requireBanca(activeBancaId);
+    const line = await this.requireLine(lineId, bancaId);
+    if (line.status !== "MATCHED") throw new AppError("La línea no está conciliada", 409, "BANK_LINE_NOT_MATCHED");
+
+    const moved = await BankReconciliationRepository.unmatchLine(line.id);
+    if (!moved) throw new AppError("La línea cambió de estado, vuelva a intentar", 409, "BANK_LINE_CONFLICT");
+
+    await this.logAction(bancaId, actor.id, "bank_line_unmatched", line.id,
+      `Conciliación deshecha: línea del ${crDateService.postgresDateToCRString(line.postedDate)}`,
+      { paymentId: line.paymentId, matchRule: line.matchRule });
+    return BankReconciliationRepository.findLine(line.id);
+  },
+
+  /** Concilia las líneas contra las transferencias pendientes en su rango de fechas ± tolerancia */
+  async autoMatch(
+    bancaId: string,
+    lines: Array<{ id: string; postedDate: Date; amount: number; reference: string | null; description: string | null }>,
+    toleranceDays: number
+  ) {
+    if (lines.length === 0) return 0;
+    const dates = lines.map((line) => crDateService.postgresDateToCRString(line.postedDate));
+    const sorted = [...dates].sort();
+    const payments = await BankReconciliationRepository.unreconciledTransfers(
+      bancaId,
+      addDays(sorted[0], -toleranceDays),
+      addDays(sorted[sorted.length - 1], toleranceDays)
+    );
+
+    const matches = matchBankLines(
+      lines.map((line, i) => ({ ...line, postedDate: dates[i] })),
+      payments.map((payment) => ({ ...payment, date: crDateService.postgresDateToCRString(payment.date) })),
+      toleranceDays
+    );
+
+    let matched = 0;
+    for (const match of matches) {
+      if (await this.tryMatch(lines[match.lineIndex].id, match.paymentId, match.rule, null)) matched++;
+    }
+    return matched;
+  },
+
+  /** Un pago conciliado en paralelo por otra línea choca con el índice único: se deja pendiente */
+  async tryMatch(lineId: string, paymentId: string, rule: string, userId: string | null) {
+    try {
+      return await BankReconciliationRepository.matchLine(lineId, paymentId, rule, userId);
+    } catch (error: any) {
+      if (error?.code !== "P2002") throw error;
+      logger.warn({
+        layer: "service",
+        action: "BANK_LINE_MATCH_CONFLICT",
+        payload: { lineId, paymentId },
+      });
+      return false;
+    }
+  },
+
+  toLineData(line: ParsedBankLine, fingerprint: string, bancaId: string) {
+    return {
+      bancaId,
+      lineNumber: line.lineNumber,
+      postedDate: new Date(`${line.postedDate}T00:00:00.000Z`),
+      amount: line.amount,
+      reference: line.reference?.slice(0, 100) ?? null,
+      description: line.description,
+      fingerprint,
+    };
+  },
+
+  async requireProfile(id: string, bancaId: string) {
+    const profile = await BankReconciliationRepository.findProfile(id);
+    if (!profile || profile.bancaId !== bancaId) throw new AppError("Perfil no encontrado", 404, "NOT_FOUND");
+    return profile;
+  },
+
+  async requireLine(id: string, bancaId: string) {
+    const line = await BankReconciliationRepository.findLine(id);
+    if (!line || line.bancaId !== bancaId) throw new AppError("Línea no encontrada", 404, "NOT_FOUND");
+    return line;
+  },
+
+  requireBanca(activeBancaId?: string | null) {
+    if (!activeBancaId) throw new AppError("Seleccione una banca", 400);
+    return activeBancaId;
+  },
+
+  async logAction(
+    bancaId: string,
+    userId: string,
+    op: string,
+    targetId: string | null,
+    description: string,
+    extra: Record<string, unknown> = {}
+  ) {
+    await ActivityService.log({
+      userId,
+      bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "BANK_RECONCILIATION",
+      targetId,
+      details: { op, ...extra, description } as Prisma.InputJsonObject,
+      layer: "service",
+    });
+  },
+};
+
+export default BankReconciliationService;
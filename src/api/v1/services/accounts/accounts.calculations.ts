@@ -16,6 +16,8 @@ import { getCachedDayStatement, setCachedDayStatement, getCachedBySorteo, setCac
 import { intercalateSorteosAndMovements, SorteoOrMovement } from "./accounts.intercalate";
 import { getAccountStatementIfValid, getAccountStatementIfExists } from "./accounts.statement-reader";
 import { isExclusionListEmpty } from "../../../../core/exclusionListCache";
+import { rawBancaFilter } from "../../../../core/tenantIsolation";
+import { ticketVentanaBancaSql } from "../../../../core/tenantResolution";
 
 /**
  * ============================================================================
@@ -57,113 +59,21 @@ import { isExclusionListEmpty } from "../../../../core/exclusionListCache";
  */
 
 /**
- * Calcula y actualiza el estado de cuenta para un día específico
- * 
- * @param date - Fecha del día a calcular
- * @param month - Mes en formato YYYY-MM
- * @param dimension - Dimensión de agrupación: "banca" | "ventana" | "vendedor"
- * @param ventanaId - ID de ventana (opcional, según dimension)
- * @param vendedorId - ID de vendedor (opcional, según dimension)
- * @param bancaId - ID de banca (opcional, según dimension)
- * @param userRole - Rol del usuario para calcular balance correctamente
- * @returns Estado de cuenta del día con todos los totales y bySorteo
+ * Totales de un día calculados desde tiquetes y jugadas (sin leer ni escribir AccountStatement):
+ * ventas, premios, comisiones y cantidad de tiquetes (sorteos evaluados, sin tiquetes excluidos).
+ * Lo usan calculateDayStatement y la auditoría de integridad de estados de cuenta.
+ *
+ * @param options.activeJugadasOnly - Comisiones solo de jugadas vigentes y no excluidas, como la
+ *   sincronización (syncDayStatement). Lo usa la auditoría; calculateDayStatement no lo activa.
  */
-export async function calculateDayStatement(
+export async function calculateDayTotalsFromSource(
     date: Date,
-    month: string,
-    dimension: "banca" | "ventana" | "vendedor", //  NUEVO: Agregado 'banca'
+    dimension: "banca" | "ventana" | "vendedor",
     ventanaId?: string,
     vendedorId?: string,
     bancaId?: string,
-    userRole?: Role //  CRÍTICO: Rol del usuario para calcular balance correctamente
-): Promise<DayStatement> {
-    //  OPTIMIZACIÓN: Intentar obtener del caché primero
-    const dateStr = crDateService.postgresDateToCRString(date);
-    const cacheKey = {
-        date: dateStr,
-        dimension,
-        ventanaId: ventanaId || null,
-        vendedorId: vendedorId || null,
-        bancaId: bancaId || null,
-        userRole: userRole || "ADMIN",
-    };
-
-    const cached = await getCachedDayStatement<DayStatement>(cacheKey);
-    if (cached) {
-        return cached;
-    }
-
-    //  OPTIMIZACIÓN: Confiar en AccountStatement si existe
-    // La tabla se mantiene sincronizada en tiempo real por:
-    // - Evaluación de sorteos (syncSorteoStatements)
-    // - Registro/reversión de pagos (registerPayment/reversePayment)
-    // Solo recalculamos si el registro NO existe
-    const existingStatement = await getAccountStatementIfExists(
-        date,
-        dimension,
-        bancaId,
-        ventanaId,
-        vendedorId
-    );
-
-    if (existingStatement) {
-        // Mapear de AccountStatement (Prisma) a DayStatement (Frontend)
-
-        // Obtener total de pagos y cobros combinados
-        const totalPaymentsCollections = await AccountPaymentRepository.getTotalPaymentsCollections(existingStatement.id);
-
-        //  OPTIMIZACIÓN: Obtener nombres de ventana/vendedor en paralelo si existen
-        let ventanaName: string | null = null;
-        let vendedorName: string | null = null;
-
-        const [ventana, vendedor] = await Promise.all([
-            existingStatement.ventanaId
-                ? prisma.ventana.findUnique({
-                    where: { id: existingStatement.ventanaId },
-                    select: { name: true },
-                })
-                : Promise.resolve(null),
-            existingStatement.vendedorId
-                ? prisma.user.findUnique({
-                    where: { id: existingStatement.vendedorId },
-                    select: { name: true },
-                })
-                : Promise.resolve(null),
-        ]);
-
-        ventanaName = ventana?.name || null;
-        vendedorName = vendedor?.name || null;
-
-        const result: DayStatement = {
-            id: existingStatement.id,
-            date: existingStatement.date,
-            month: existingStatement.month,
-            bancaId: existingStatement.bancaId,
-            ventanaId: existingStatement.ventanaId,
-            vendedorId: existingStatement.vendedorId,
-            ventanaName,
-            vendedorName,
-            totalSales: Number(existingStatement.totalSales),
-            totalPayouts: Number(existingStatement.totalPayouts),
-            listeroCommission: Number(existingStatement.listeroCommission),
-            vendedorCommission: Number(existingStatement.vendedorCommission),
-            balance: Number(existingStatement.balance),
-            totalPaid: Number(existingStatement.totalPaid),
-            totalCollected: Number(existingStatement.totalCollected),
-            totalPaymentsCollections: parseFloat((Number(existingStatement.totalPaid) - Number(existingStatement.totalCollected)).toFixed(2)),
-            remainingBalance: Number(existingStatement.remainingBalance),
-            isSettled: existingStatement.isSettled,
-            canEdit: existingStatement.canEdit,
-            ticketCount: existingStatement.ticketCount,
-            createdAt: existingStatement.createdAt,
-            updatedAt: existingStatement.updatedAt,
-        };
-
-        // Cachear y retornar
-        await setCachedDayStatement(cacheKey, result);
-        return result;
-    }
-
+    options: { activeJugadasOnly?: boolean } = {}
+) {
     // Construir WHERE clause
     // FIX: Usar businessDate en lugar de createdAt para agrupar correctamente por día de negocio
     const dateFilter = buildTicketDateFilter(date);
@@ -199,36 +109,7 @@ export async function calculateDayStatement(
         where.vendedorId = vendedorId;
     }
 
-    //  CRÍTICO: Si se busca por vendedorId sin ventanaId, pero los tickets tienen ventanaId,
-    // debemos corregir el ventanaId desde los tickets reales para evitar crear statements incorrectos
-    // Esto soluciona el problema de statements con ventanaId: null cuando deberían tenerlo
-    let correctedVentanaId = ventanaId;
-    if (dimension === "vendedor" && vendedorId && !ventanaId) {
-        // Buscar un ticket de ejemplo para obtener el ventanaId real de ese día
-        // Usamos la misma query where pero solo necesitamos el primer ticket que tenga ventanaId
-        const sampleTicket = await prisma.ticket.findFirst({
-            where: {
-                ...where,
-            },
-            select: {
-                ventanaId: true,
-            },
-        });
-
-        if (sampleTicket?.ventanaId) {
-            correctedVentanaId = sampleTicket.ventanaId;
-            logger.info({
-                layer: 'service',
-                action: 'CORRECT_VENTANA_ID_FROM_TICKETS',
-                payload: {
-                    date: dateStr,
-                    vendedorId,
-                    inferredVentanaId: correctedVentanaId,
-                    note: 'Corrected ventanaId from actual tickets for the day',
-                },
-            });
-        }
-    }
+    const jugadaFilter = options.activeJugadasOnly ? { isActive: true, isExcluded: false } : {};
 
     // Usar agregaciones de Prisma para calcular totales directamente en la base de datos
     // Esto es mucho más eficiente que traer todos los tickets y jugadas a memoria
@@ -266,6 +147,7 @@ export async function calculateDayStatement(
             where: {
                 ticket: where,
                 deletedAt: null,
+                ...jugadaFilter,
                 commissionOrigin: "USER",
             },
             _sum: {
@@ -278,6 +160,7 @@ export async function calculateDayStatement(
             where: {
                 ticket: where,
                 deletedAt: null,
+                ...jugadaFilter,
             },
             _sum: {
                 listeroCommissionAmount: true, //  Usar snapshot en lugar de calcular desde políticas
@@ -320,6 +203,7 @@ export async function calculateDayStatement(
             where: {
                 ticket: where,
                 deletedAt: null,
+                ...jugadaFilter,
                 commissionOrigin: { in: ["VENTANA", "BANCA"] },
                 listeroCommissionAmount: 0, // Tickets antiguos tienen 0 por defecto
             },
@@ -346,6 +230,158 @@ export async function calculateDayStatement(
         }
     }
 
+    return {
+        where,
+        totalSales: Number(totalSales),
+        totalPayouts: Number(totalPayouts),
+        ticketCount,
+        totalVendedorCommission: Number(totalVendedorCommission),
+        totalListeroCommission: Number(totalListeroCommission),
+    };
+}
+
+/**
+ * Calcula y actualiza el estado de cuenta para un día específico
+ * 
+ * @param date - Fecha del día a calcular
+ * @param month - Mes en formato YYYY-MM
+ * @param dimension - Dimensión de agrupación: "banca" | "ventana" | "vendedor"
+ * @param ventanaId - ID de ventana (opcional, según dimension)
+ * @param vendedorId - ID de vendedor (opcional, según dimension)
+ * @param bancaId - ID de banca (opcional, según dimension)
+ * @param userRole - Rol del usuario para calcular balance correctamente
+ * @returns Estado de cuenta del día con todos los totales y bySorteo
+ */
+export async function calculateDayStatement(
+    date: Date,
+    month: string,
+    dimension: "banca" | "ventana" | "vendedor", //  NUEVO: Agregado 'banca'
+    ventanaId?: string,
+    vendedorId?: string,
+    bancaId?: string,
+    userRole?: Role //  CRÍTICO: Rol del usuario para calcular balance correctamente
+): Promise<DayStatement> {
+    //  OPTIMIZACIÓN: Intentar obtener del caché primero
+    const dateStr = crDateService.postgresDateToCRString(date);
+    const cacheKey = {
+        date: dateStr,
+        dimension,
+        ventanaId: ventanaId || null,
+        vendedorId: vendedorId || null,
+        bancaId: bancaId || null,
+        userRole: userRole || "ADMIN",
+    };
+
+    const cached = await getCachedDayStatement<DayStatement>(cacheKey);
+    if (cached) {
+        return cached;
+    }
+
+    //  OPTIMIZACIÓN: Confiar en AccountStatement si existe
+    // La tabla se mantiene sincronizada en tiempo real por:
+    // - Evaluación de sorteos (syncSorteoStatements)
+    // - Registro/reversión de pagos (registerPayment/reversePayment)
+    // Solo recalculamos si el registro NO existe
+    const existingStatement = await getAccountStatementIfExists(
+        date,
+        dimension,
+        bancaId,
+        ventanaId,
+        vendedorId
+    );
+
+    if (existingStatement) {
+        // Mapear de AccountStatement (Prisma) a DayStatement (Frontend)
+
+        // Obtener total de pagos y cobros combinados
+        const totalPaymentsCollections = await AccountPaymentRepository.getTotalPaymentsCollections(existingStatement.id);
+
+        //  OPTIMIZACIÓN: Obtener nombres de ventana/vendedor en paralelo si existen
+        let ventanaName: string | null = null;
+        let vendedorName: string | null = null;
+
+        const [ventana, vendedor] = await Promise.all([
+            existingStatement.ventanaId
+                ? prisma.ventana.findUnique({
+                    where: { id: existingStatement.ventanaId },
+                    select: { name: true },
+                })
+                : Promise.resolve(null),
+            existingStatement.vendedorId
+                ? prisma.user.findUnique({
+                    where: { id: existingStatement.vendedorId },
+                    select: { name: true },
+                })
+                : Promise.resolve(null),
+        ]);
+
+        ventanaName = ventana?.name || null;
+        vendedorName = vendedor?.name || null;
+
+        const result: DayStatement = {
+            id: existingStatement.id,
+            date: existingStatement.date,
+            month: existingStatement.month,
+            bancaId: existingStatement.bancaId,
+            ventanaId: existingStatement.ventanaId,
+            vendedorId: existingStatement.vendedorId,
+            ventanaName,
+            vendedorName,
+            totalSales: Number(existingStatement.totalSales),
+            totalPayouts: Number(existingStatement.totalPayouts),
+            listeroCommission: Number(existingStatement.listeroCommission),
+            vendedorCommission: Number(existingStatement.vendedorCommission),
+            balance: Number(existingStatement.balance),
+            totalPaid: Number(existingStatement.totalPaid),
+            totalCollected: Number(existingStatement.totalCollected),
+            totalPaymentsCollections: parseFloat((Number(existingStatement.totalPaid) - Number(existingStatement.totalCollected)).toFixed(2)),
+            remainingBalance: Number(existingStatement.remainingBalance),
+            isSettled: existingStatement.isSettled,
+            canEdit: existingStatement.canEdit,
+            ticketCount: existingStatement.ticketCount,
+            createdAt: existingStatement.createdAt,
+            updatedAt: existingStatement.updatedAt,
+        };
+
+        // Cachear y retornar
+        await setCachedDayStatement(cacheKey, result);
+        return result;
+    }
+
+    const { where, totalSales, totalPayouts, ticketCount, totalVendedorCommission, totalListeroCommission } =
+        await calculateDayTotalsFromSource(date, dimension, ventanaId, vendedorId, bancaId);
+
+    //  CRÍTICO: Si se busca por vendedorId sin ventanaId, pero los tickets tienen ventanaId,
+    // debemos corregir el ventanaId desde los tickets reales para evitar crear statements incorrectos
+    // Esto soluciona el problema de statements con ventanaId: null cuando deberían tenerlo
+    let correctedVentanaId = ventanaId;
+    if (dimension === "vendedor" && vendedorId && !ventanaId) {
+        // Buscar un ticket de ejemplo para obtener el ventanaId real de ese día
+        // Usamos la misma query where pero solo necesitamos el primer ticket que tenga ventanaId
+        const sampleTicket = await prisma.ticket.findFirst({
+            where: {
+                ...where,
+            },
+            select: {
+                ventanaId: true,
+            },
+        });
+
+        if (sampleTicket?.ventanaId) {
+            correctedVentanaId = sampleTicket.ventanaId;
+            logger.info({
+                layer: 'service',
+                action: 'CORRECT_VENTANA_ID_FROM_TICKETS',
+                payload: {
+                    date: dateStr,
+                    vendedorId,
+                    inferredVentanaId: correctedVentanaId,
+                    note: 'Corrected ventanaId from actual tickets for the day',
+                },
+            });
+        }
+    }
+
     // Si no hay tickets, retornar valores por defecto sin crear statement
     // FIX: No crear fechas nuevas cada vez para mantener consistencia
     if (ticketCount === 0) {
@@ -4198,6 +4234,7 @@ export async function getExcludedTicketIdsForDate(date: Date): Promise<string[]>
         )
         AND sle.ventana_id = t."ventanaId"
         AND (sle.vendedor_id IS NULL OR sle.vendedor_id = t."vendedorId")
+        ${rawBancaFilter(ticketVentanaBancaSql)}
     `;
 
     return excludedIds.map(r => r.id);
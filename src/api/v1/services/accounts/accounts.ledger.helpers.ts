@@ -0,0 +1,210 @@
+import { roundMoney, sumMoney } from "../../../../utils/decimal";
+
+export type LedgerDimension = "banca" | "ventana" | "vendedor";
+
+/** Categoría de la línea; las reversiones conservan la categoría de lo que revierten */
+export type LedgerKind = "SALE" | "PAYOUT" | "COMMISSION" | "PAYMENT" | "COLLECTION" | "CARRY_OVER";
+export type LedgerJournalType = LedgerKind | "REVERSAL";
+export type LedgerSourceType = "SORTEO" | "ACCOUNT_PAYMENT" | "BALANCE_RESET" | "OPENING";
+
+/** Libro de una entidad en una fecha de negocio (YYYY-MM-DD) */
+export type LedgerBookKey = {
+  bancaId: string;
+  dimension: LedgerDimension;
+  entityId: string;
+  businessDate: string;
+};
+
+/** Monto con signo desde la entidad: venta +, premio −, comisión −, pago +, cobro − */
+export type LedgerTarget = LedgerBookKey & { kind: LedgerKind; amount: number };
+
+/** Suma ya asentada (líneas ENTITY) de un origen por libro y categoría */
+export type LedgerPosted = LedgerTarget & { lastJournalId: string | null };
+
+/** Asiento a registrar: una línea ENTITY por `amount` y la contrapartida HOUSE por −amount */
+export type LedgerPosting = LedgerBookKey & {
+  journalType: LedgerJournalType;
+  kind: LedgerKind;
+  amount: number;
+  reversesJournalId: string | null;
+};
+
+export type LedgerLine = LedgerBookKey & {
+  kind: LedgerKind;
+  account: "ENTITY" | "HOUSE";
+  amount: number;
+};
+
+/** Ventas, premios y comisiones de un sorteo por vendedor/ventana/banca y fecha de negocio */
+export type SorteoLedgerRow = {
+  vendedorId: string;
+  ventanaId: string;
+  bancaId: string | null;
+  businessDate: string;
+  sales: number;
+  payouts: number;
+  listeroCommission: number;
+  vendedorCommission: number;
+};
+
+/** Pago o cobro tal como lo asienta el libro (bancaId ya resuelto) */
+export type LedgerPaymentRow = {
+  bancaId: string | null;
+  vendedorId: string | null;
+  ventanaId: string | null;
+  businessDate: string;
+  type: string;
+  amount: number;
+  isReversed: boolean;
+  isCarryOver: boolean;
+};
+
+/** Totales de un día de estado de cuenta leídos del libro */
+export type LedgerDayTotals = {
+  totalSales: number;
+  totalPayouts: number;
+  commission: number;
+  totalPaid: number;
+  totalCollected: number;
+  carryOver: number;
+  balance: number;
+};
+
+const SIGN: Record<Exclude<LedgerKind, "CARRY_OVER">, 1 | -1> = {
+  SALE: 1,
+  PAYOUT: -1,
+  COMMISSION: -1,
+  PAYMENT: 1,
+  COLLECTION: -1,
+};
+
+const keyOf = (row: LedgerBookKey & { kind: LedgerKind }) =>
+  `${row.bancaId}|${row.dimension}|${row.entityId}|${row.businessDate}|${row.kind}`;
+
+/** Monto positivo de una categoría → monto con el signo del libro */
+export function signedAmount(kind: Exclude<LedgerKind, "CARRY_OVER">, amount: number): number {
+  return roundMoney(SIGN[kind] * amount);
+}
+
+/**
+ * Objetivo de un sorteo en los tres libros, como los estados de cuenta: el del vendedor
+ * descuenta la comisión del vendedor; los de ventana y banca, la del listero.
+ */
+export function sorteoTargets(rows: SorteoLedgerRow[]): LedgerTarget[] {
+  const targets: LedgerTarget[] = [];
+  for (const row of rows) {
+    if (!row.bancaId) continue;
+    const books: Array<[LedgerDimension, string, number]> = [
+      ["vendedor", row.vendedorId, row.vendedorCommission],
+      ["ventana", row.ventanaId, row.listeroCommission],
+      ["banca", row.bancaId, row.listeroCommission],
+    ];
+    for (const [dimension, entityId, commission] of books) {
+      const book = { bancaId: row.bancaId, dimension, entityId, businessDate: row.businessDate };
+      targets.push(
+        { ...book, kind: "SALE", amount: signedAmount("SALE", row.sales) },
+        { ...book, kind: "PAYOUT", amount: signedAmount("PAYOUT", row.payouts) },
+        { ...book, kind: "COMMISSION", amount: signedAmount("COMMISSION", commission) }
+      );
+    }
+  }
+  return targets;
+}
+
+/**
+ * Objetivo de un pago: va al libro de su dimensión (vendedor, si no ventana, si no banca).
+ * Revertido o marcador de saldo arrastrado = nada asentado.
+ */
+export function paymentTargets(payment: LedgerPaymentRow): LedgerTarget[] {
+  if (!payment.bancaId || payment.isReversed || payment.isCarryOver) return [];
+  const kind = payment.type === "collection" ? "COLLECTION" : "PAYMENT";
+  const [dimension, entityId]: [LedgerDimension, string] = payment.vendedorId
+    ? ["vendedor", payment.vendedorId]
+    : payment.ventanaId
+      ? ["ventana", payment.ventanaId]
+      : ["banca", payment.bancaId];
+  return [
+    {
+      bancaId: payment.bancaId,
+      dimension,
+      entityId,
+      businessDate: payment.businessDate,
+      kind,
+      amount: signedAmount(kind, payment.amount),
+    },
+  ];
+}
+
+/**
+ * Asientos que llevan lo ya asentado de un origen a lo que debe quedar.
+ * Lo que desaparece del objetivo (sorteo revertido, pago anulado) se revierte completo con
+ * un REVERSAL; el resto se ajusta por diferencia con un asiento de su propia categoría.
+ */
+export function diffLedger(targets: LedgerTarget[], posted: LedgerPosted[]): LedgerPosting[] {
+  const current = new Map<string, LedgerPosted>();
+  for (const row of posted) current.set(keyOf(row), row);
+
+  const wanted = new Map<string, LedgerTarget>();
+  for (const row of targets) {
+    const key = keyOf(row);
+    const existing = wanted.get(key);
+    wanted.set(key, existing ? { ...existing, amount: sumMoney([existing.amount, row.amount]) } : { ...row });
+  }
+
+  const postings: LedgerPosting[] = [];
+  for (const [key, target] of wanted) {
+    const before = current.get(key);
+    const delta = sumMoney([target.amount, -(before?.amount ?? 0)]);
+    if (delta === 0) continue;
+    const { kind, amount: _amount, ...book } = target;
+    postings.push({
+      ...book,
+      kind,
+      amount: delta,
+      journalType: roundMoney(target.amount) === 0 ? "REVERSAL" : kind,
+      reversesJournalId: roundMoney(target.amount) === 0 ? before?.lastJournalId ?? null : null,
+    });
+  }
+
+  for (const [key, before] of current) {
+    if (wanted.has(key) || roundMoney(before.amount) === 0) continue;
+    const { kind, amount, lastJournalId, ...book } = before;
+    postings.push({
+      ...book,
+      kind,
+      amount: roundMoney(-amount),
+      journalType: "REVERSAL",
+      reversesJournalId: lastJournalId,
+    });
+  }
+
+  return postings;
+}
+
+/** Las dos líneas de un asiento: siempre suman cero */
+export function journalLines(posting: LedgerPosting): LedgerLine[] {
+  const { journalType: _journalType, reversesJournalId: _reverses, amount, ...book } = posting;
+  return [
+    { ...book, account: "ENTITY", amount: roundMoney(amount) },
+    { ...book, account: "HOUSE", amount: roundMoney(-amount) },
+  ];
+}
+
+/**
+ * Totales del estado de cuenta desde las sumas por categoría de un día (líneas ENTITY).
+ * balance = ventas − premios − comisión, igual que el statement; el arrastre solo mueve el saldo.
+ */
+export function dayTotalsFromKinds(sums: Partial<Record<LedgerKind, number>>): LedgerDayTotals {
+  const totalSales = roundMoney(sums.SALE ?? 0);
+  const totalPayouts = roundMoney(-(sums.PAYOUT ?? 0));
+  const commission = roundMoney(-(sums.COMMISSION ?? 0));
+  return {
+    totalSales,
+    totalPayouts,
+    commission,
+    totalPaid: roundMoney(sums.PAYMENT ?? 0),
+    totalCollected: roundMoney(-(sums.COLLECTION ?? 0)),
+    carryOver: roundMoney(sums.CARRY_OVER ?? 0),
+    balance: sumMoney([totalSales, -totalPayouts, -commission]),
+  };
+}
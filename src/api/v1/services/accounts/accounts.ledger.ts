@@ -0,0 +1,321 @@
+/**
+ * Libro de cuentas de doble partida detrás de los estados de cuenta.
+ *
+ * Cada operación (sorteo evaluado, pago/cobro, reversión, reset de saldo, saldo de apertura)
+ * se asienta como diferencia contra lo que su origen ya tenía en el libro: volver a asentar
+ * es idempotente y una corrección queda como asiento nuevo, nunca como UPDATE.
+ * Con `config.ledger.readsEnabled` los estados de cuenta y el saldo actual salen de estas sumas.
+ */
+
+import prisma, { AppTransactionClient } from "../../../../core/prismaClient";
+import logger from "../../../../core/logger";
+import { TenantContext } from "../../../../core/tenantContext";
+import { config } from "../../../../config";
+import { LedgerRepository, LedgerSource } from "../../../../repositories/ledger.repository";
+import { crDateService } from "../../../../utils/crDateService";
+import { sumMoney } from "../../../../utils/decimal";
+import { ACCOUNT_CARRY_OVER_NOTES, ACCOUNT_PREVIOUS_MONTH_METHOD } from "./accounts.types";
+import {
+  dayTotalsFromKinds,
+  diffLedger,
+  LedgerDimension,
+  LedgerPosting,
+  LedgerTarget,
+  paymentTargets,
+  sorteoTargets,
+} from "./accounts.ledger.helpers";
+
+type PostOptions = { dryRun?: boolean };
+type LedgerClient = AppTransactionClient | typeof prisma;
+
+type BalanceResetInput = { vendedorId: string; bancaId: string; balanceResetAt: string; userId: string; revert?: boolean };
+
+/** Asiento que puede rehacerse más tarde solo con estos datos (se guarda en LedgerPendingPost) */
+export type LedgerPostRequest =
+  | { sourceType: "SORTEO"; sorteoId: string }
+  | { sourceType: "ACCOUNT_PAYMENT"; paymentId: string }
+  | { sourceType: "BALANCE_RESET"; reset: BalanceResetInput };
+
+/** Reintentos de asientos fallidos: 1, 2, 4… minutos, hasta uno por hora */
+const RETRY_MAX_DELAY_MINUTES = 60;
+const RETRY_BATCH = 50;
+
+const retryDelayMs = (attempts: number) => Math.min(2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MINUTES) * 60 * 1000;
+
+/**
+ * Asienta la diferencia entre lo que el origen debe tener en el libro y lo que ya tiene.
+ * Lectura, diferencia e inserción van en una transacción con advisory lock por origen: dos
+ * asientos simultáneos del mismo origen no pueden ver el mismo estado y duplicar líneas.
+ * `targets` se calcula dentro del lock cuando depende del propio libro (reset, apertura).
+ */
+async function post(
+  source: LedgerSource,
+  targets: (client: LedgerClient) => Promise<LedgerTarget[]>,
+  options?: PostOptions
+): Promise<LedgerPosting[]> {
+  if (options?.dryRun) {
+    const posted = await LedgerRepository.postedBySource(source.sourceType, source.sourceId);
+    return diffLedger(await targets(prisma), posted);
+  }
+
+  return TenantContext.crossTenant(() =>
+    prisma.$transaction(async (tx) => {
+      await LedgerRepository.lockSource(tx, source.sourceType, source.sourceId);
+      const posted = await LedgerRepository.postedBySource(source.sourceType, source.sourceId, tx);
+      const postings = diffLedger(await targets(tx), posted);
+      await LedgerRepository.postJournals(postings, source, tx);
+      return postings;
+    })
+  );
+}
+
+const balanceResetSourceId = (vendedorId: string, balanceResetAt: string) => `${vendedorId}:${balanceResetAt}`;
+
+function requestSourceId(request: LedgerPostRequest) {
+  switch (request.sourceType) {
+    case "SORTEO":
+      return request.sorteoId;
+    case "ACCOUNT_PAYMENT":
+      return request.paymentId;
+    case "BALANCE_RESET":
+      return balanceResetSourceId(request.reset.vendedorId, request.reset.balanceResetAt);
+  }
+}
+
+export const AccountLedgerService = {
+  /** Los estados de cuenta y el saldo actual se leen del libro */
+  readsEnabled() {
+    return config.ledger.readsEnabled;
+  },
+
+  /**
+   * Asienta ventas, premios y comisiones de un sorteo en los libros de vendedor, ventana y banca.
+   * Un sorteo revertido o sin resultado queda en cero: lo asentado antes se revierte.
+   */
+  async postSorteo(sorteoId: string, options?: PostOptions) {
+    const targets = sorteoTargets(await LedgerRepository.sorteoTotals(sorteoId));
+    return post(
+      { sourceType: "SORTEO", sourceId: sorteoId, description: "Resultado de sorteo" },
+      async () => targets,
+      options
+    );
+  },
+
+  /**
+   * Asienta un pago (+) o cobro (−) en el libro de su dimensión; si ya está revertido asienta
+   * la reversión. Los marcadores de saldo arrastrado no son movimientos y no se asientan.
+   */
+  async postPayment(paymentId: string, options?: PostOptions) {
+    const payment = await prisma.accountPayment.findUnique({
+      where: { id: paymentId },
+      select: {
+        id: true,
+        date: true,
+        amount: true,
+        type: true,
+        method: true,
+        notes: true,
+        isReversed: true,
+        reversedBy: true,
+        paidById: true,
+        vendedorId: true,
+        ventanaId: true,
+        bancaId: true,
+      },
+    });
+    if (!payment) return [];
+
+    let bancaId = payment.bancaId;
+    if (!bancaId && payment.ventanaId) {
+      const ventana = await prisma.ventana.findUnique({ where: { id: payment.ventanaId }, select: { bancaId: true } });
+      bancaId = ventana?.bancaId ?? null;
+    }
+    if (!bancaId) {
+      logger.warn({
+        layer: "service",
+        action: "LEDGER_PAYMENT_WITHOUT_BANCA",
+        payload: { paymentId },
+      });
+      return [];
+    }
+
+    const targets = paymentTargets({
+      bancaId,
+      vendedorId: payment.vendedorId,
+      ventanaId: payment.ventanaId,
+      businessDate: crDateService.postgresDateToCRString(payment.date),
+      type: payment.type,
+      amount: payment.amount,
+      isReversed: payment.isReversed,
+      isCarryOver:
+        payment.method === ACCOUNT_PREVIOUS_MONTH_METHOD || !!payment.notes?.includes(ACCOUNT_CARRY_OVER_NOTES),
+    });
+
+    return post(
+      {
+        sourceType: "ACCOUNT_PAYMENT",
+        sourceId: payment.id,
+        description: payment.isReversed ? "Reversión de movimiento" : payment.type === "collection" ? "Cobro" : "Pago",
+        createdBy: payment.isReversed ? payment.reversedBy : payment.paidById,
+      },
+      async () => targets,
+      options
+    );
+  },
+
+  /**
+   * Reset de saldo del vendedor ("borrón y cuenta nueva"): un arrastre lleva su libro a cero
+   * en la fecha de hoy. Revertir el reset revierte ese arrastre.
+   */
+  async postBalanceReset(data: BalanceResetInput, options?: PostOptions) {
+    const sourceId = balanceResetSourceId(data.vendedorId, data.balanceResetAt);
+    const source: LedgerSource = {
+      sourceType: "BALANCE_RESET",
+      sourceId,
+      description: data.revert ? "Reversión de reset de saldo" : "Reset de saldo",
+      createdBy: data.userId,
+    };
+    if (data.revert) return post(source, async () => [], options);
+
+    const businessDate = crDateService.dateUTCToCRString(new Date(data.balanceResetAt));
+    return post(
+      source,
+      async (client) => {
+        // El saldo a anular no cuenta lo que este mismo reset ya asentó
+        const [balance, posted] = await Promise.all([
+          LedgerRepository.balanceAsOf("vendedor", data.vendedorId, undefined, client),
+          LedgerRepository.postedBySource("BALANCE_RESET", sourceId, client),
+        ]);
+        const before = sumMoney([balance, -sumMoney(posted.map((p) => p.amount))]);
+        return [
+          { bancaId: data.bancaId, dimension: "vendedor", entityId: data.vendedorId, businessDate, kind: "CARRY_OVER", amount: -before },
+        ];
+      },
+      options
+    );
+  },
+
+  /**
+   * Saldo de apertura: lleva el libro de una entidad al saldo que tenía su estado de cuenta al
+   * cierre de `businessDate` (arranque del libro sobre la historia ya existente).
+   */
+  async postOpening(
+    data: { bancaId: string; dimension: LedgerDimension; entityId: string; businessDate: string; balance: number },
+    options?: PostOptions
+  ) {
+    const sourceId = `${data.dimension}:${data.entityId}:${data.businessDate}`;
+    const { balance, ...book } = data;
+    return post(
+      { sourceType: "OPENING", sourceId, description: "Saldo de apertura del libro" },
+      async (client) => {
+        const [current, posted] = await Promise.all([
+          LedgerRepository.balanceAsOf(data.dimension, data.entityId, data.businessDate, client),
+          LedgerRepository.postedBySource("OPENING", sourceId, client),
+        ]);
+        const without = sumMoney([current, -sumMoney(posted.map((p) => p.amount))]);
+        return [{ ...book, kind: "CARRY_OVER", amount: sumMoney([balance, -without]) }];
+      },
+      options
+    );
+  },
+
+  /** Totales de un día y saldo al cierre de ese día, desde el libro */
+  async dayStatement(dimension: LedgerDimension, entityId: string, dateStr: string) {
+    const [sums, accumulatedBalance] = await Promise.all([
+      LedgerRepository.kindSums(dimension, entityId, dateStr),
+      LedgerRepository.balanceAsOf(dimension, entityId, dateStr),
+    ]);
+    return { ...dayTotalsFromKinds(sums), accumulatedBalance };
+  },
+
+  /** Saldo al cierre de una fecha (YYYY-MM-DD) */
+  balanceAsOf(dimension: LedgerDimension, entityId: string, dateStr: string) {
+    return LedgerRepository.balanceAsOf(dimension, entityId, dateStr);
+  },
+
+  /** Saldo al cierre de cada fecha (YYYY-MM-DD) */
+  closingBalances(dimension: LedgerDimension, entityId: string, dateStrs: string[]) {
+    return LedgerRepository.closingBalances(dimension, entityId, dateStrs);
+  },
+
+  /** Saldo actual: todo lo asentado hasta hoy (CR) */
+  currentBalance(dimension: LedgerDimension, entityId: string) {
+    return LedgerRepository.balanceAsOf(dimension, entityId, crDateService.dateUTCToCRString(new Date()));
+  },
+
+  /** Ejecuta una solicitud de asiento */
+  post(request: LedgerPostRequest): Promise<LedgerPosting[]> {
+    switch (request.sourceType) {
+      case "SORTEO":
+        return this.postSorteo(request.sorteoId);
+      case "ACCOUNT_PAYMENT":
+        return this.postPayment(request.paymentId);
+      case "BALANCE_RESET":
+        return this.postBalanceReset(request.reset);
+    }
+  },
+
+  /**
+   * Asienta sin interrumpir el flujo que lo llama (evaluación, pago, reset), que ya guardó su
+   * operación. Un fallo queda en LedgerPendingPost y el job ledgerRetry lo reintenta.
+   */
+  async record(action: string, request: LedgerPostRequest) {
+    const sourceId = requestSourceId(request);
+    try {
+      const postings = await this.post(request);
+      if (postings.length > 0) {
+        logger.info({ layer: "service", action, payload: { sourceType: request.sourceType, sourceId, journals: postings.length } });
+      }
+    } catch (error) {
+      const message = (error as Error).message;
+      logger.error({
+        layer: "service",
+        action: `${action}_ERROR`,
+        payload: { sourceType: request.sourceType, sourceId, error: message, retry: true },
+      });
+      await LedgerRepository.savePending({
+        sourceType: request.sourceType,
+        sourceId,
+        request,
+        error: message,
+        nextAttemptAt: new Date(Date.now() + retryDelayMs(1)),
+      }).catch((saveError: Error) =>
+        logger.error({
+          layer: "service",
+          action: "LEDGER_PENDING_SAVE_ERROR",
+          payload: { sourceType: request.sourceType, sourceId, error: saveError.message },
+        })
+      );
+    }
+  },
+
+  /** Reintenta los asientos pendientes que ya vencieron; los que vuelven a fallar se reprograman */
+  async retryPending(now: Date = new Date()) {
+    const due = await LedgerRepository.findDuePending(now, RETRY_BATCH);
+    let posted = 0;
+    let failed = 0;
+
+    for (const pending of due) {
+      try {
+        await this.post(pending.request as unknown as LedgerPostRequest);
+        await LedgerRepository.resolvePending(pending.id, pending.updatedAt);
+        posted++;
+      } catch (error) {
+        failed++;
+        const message = (error as Error).message;
+        await LedgerRepository.reschedulePending(pending.id, {
+          error: message,
+          nextAttemptAt: new Date(now.getTime() + retryDelayMs(pending.attempts + 1)),
+        });
+        logger.error({
+          layer: "service",
+          action: "LEDGER_RETRY_ERROR",
+          payload: { sourceType: pending.sourceType, sourceId: pending.sourceId, attempts: pending.attempts + 1, error: message },
+        });
+      }
+    }
+    return { due: due.length, posted, failed };
+  },
+};
+
+export default AccountLedgerService;
@@ -10,8 +10,11 @@ import { crDateService } from "../../../../utils/crDateService";
 import { recalculateMonthlyClosingForDimension } from "./monthlyClosing.service";
 import { getPreviousMonthFinalBalance } from "./accounts.balances";
 import { AccountStatementSyncService } from "./accounts.sync.service";
+import { AccountLedgerService } from "./accounts.ledger";
+import { PeriodLockService } from "./accounts.periodLocks";
 import ActivityService from "../../../../core/activity.service";
 import logger from "../../../../core/logger";
+import { WebhookService } from "../webhook.service";
 
 /**
  * Valida y procesa el campo time según especificación del FE
@@ -66,6 +69,7 @@ export async function registerPayment(data: {
     type: "payment" | "collection";
     method: "cash" | "transfer" | "check" | "other";
     notes?: string;
+    reference?: string | null; // Número de transferencia o comprobante (conciliación bancaria)
     isFinal?: boolean;
     idempotencyKey?: string;
     paidById: string;
@@ -133,6 +137,12 @@ export async function registerPayment(data: {
         }
     }
 
+    await PeriodLockService.assertOpen(
+        { bancaId: finalBancaId, ventanaId: finalVentanaId, vendedorId: data.vendedorId },
+        data.date,
+        "registrar pagos o cobros en esta fecha"
+    );
+
     // Buscar o crear el AccountStatement de forma segura
     let statement;
     if (data.vendedorId) {
@@ -341,6 +351,7 @@ export async function registerPayment(data: {
                 type: data.type,
                 method: data.method,
                 notes: data.notes,
+                reference: data.reference ?? null,
                 isFinal: data.isFinal || false,
                 idempotencyKey: data.idempotencyKey,
                 paidById: data.paidById,
@@ -353,6 +364,11 @@ export async function registerPayment(data: {
         isolationLevel: "ReadCommitted"
     });
 
+    // Asentar en el libro antes del sync: con lecturas desde el libro el statement sale de ahí
+    if (payment) {
+        await AccountLedgerService.record("LEDGER_PAYMENT_POSTED", { sourceType: "ACCOUNT_PAYMENT", paymentId: payment.id });
+    }
+
     // 2. Usar el sync service para recalcular correctamente el statement (FUERA de la tx del pago)
     //    En Arquitectura v5, el cómputo es stateless y requiere ver los datos commiteados.
     await AccountStatementSyncService.syncDayStatement(
@@ -463,6 +479,20 @@ export async function registerPayment(data: {
 
     // Invalidar caché
     updateCacheAfterMovement(data.date, finalVentanaId, data.vendedorId, finalBancaId);
+
+    WebhookService.emit("account.payment.created", finalBancaId, {
+        paymentId: payment.id,
+        date: data.date,
+        time: payment.time,
+        type: payment.type,
+        method: payment.method,
+        amount: payment.amount,
+        isFinal: payment.isFinal,
+        ventanaId: payment.ventanaId,
+        vendedorId: payment.vendedorId,
+        paidById: payment.paidById,
+    });
+
     return {
         payment: {
             ...payment,
@@ -500,6 +530,18 @@ export async function reversePayment(
     const dateStr = crDateService.postgresDateToCRString(payment.date);
     const entityId = statement.vendedorId || statement.ventanaId || statement.bancaId;
 
+    await PeriodLockService.assertOpen(
+        { bancaId: payment.bancaId ?? statement.bancaId, ventanaId: statement.ventanaId, vendedorId: statement.vendedorId },
+        dateStr,
+        "revertir el movimiento"
+    );
+
+    // Una transferencia que el banco ya confirmó no se revierte sin deshacer antes la conciliación
+    const bankLine = await prisma.bankStatementLine.findUnique({ where: { paymentId: payment.id }, select: { id: true } });
+    if (bankLine) {
+        throw new AppError("El movimiento está conciliado con el extracto bancario; deshaga la conciliación primero", 409, "PAYMENT_RECONCILED");
+    }
+
     let updatedStatement: any = undefined;
     await prisma.$transaction(async (tx) => {
         const currentStatement = await tx.accountStatement.findUnique({
@@ -520,6 +562,9 @@ export async function reversePayment(
         isolationLevel: "ReadCommitted"
     });
 
+    // La reversión queda como asiento nuevo en el libro (el original no se modifica)
+    await AccountLedgerService.record("LEDGER_PAYMENT_REVERSED", { sourceType: "ACCOUNT_PAYMENT", paymentId: payment.id });
+
     // 2. Usar el sync service para recalcular correctamente el statement (FUERA de la tx)
     await AccountStatementSyncService.syncDayStatement(
         paymentDate,
@@ -630,6 +675,12 @@ export async function deleteStatement(id: string) {
         throw new AppError("Estado de cuenta no encontrado", 404, "STATEMENT_NOT_FOUND");
     }
 
+    await PeriodLockService.assertOpen(
+        { bancaId: statement.bancaId, ventanaId: statement.ventanaId, vendedorId: statement.vendedorId },
+        crDateService.postgresDateToCRString(statement.date),
+        "eliminar el estado de cuenta"
+    );
+
     // Validar que no tenga tickets
     if (statement.ticketCount > 0) {
         throw new AppError("No se puede eliminar un estado de cuenta con tickets", 400, "STATEMENT_HAS_TICKETS");
@@ -0,0 +1,46 @@
+export type PeriodType = "DAY" | "WEEK" | "MONTH";
+export type PeriodLockStatus = "LOCKED" | "REOPENED";
+
+/** Rango de fechas de negocio (YYYY-MM-DD, ambos inclusive) */
+export type PeriodRange = { startDate: string; endDate: string };
+
+const toDate = (dateStr: string) => new Date(`${dateStr}T00:00:00.000Z`);
+const toStr = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Período que contiene `dateStr`: el día, la semana ISO (lunes a domingo) o el mes calendario.
+ */
+export function periodRange(periodType: PeriodType, dateStr: string): PeriodRange {
+  const date = toDate(dateStr);
+  if (periodType === "DAY") return { startDate: dateStr, endDate: dateStr };
+
+  if (periodType === "WEEK") {
+    const start = new Date(date);
+    start.setUTCDate(start.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    const end = new Date(start);
+    end.setUTCDate(end.getUTCDate() + 6);
+    return { startDate: toStr(start), endDate: toStr(end) };
+  }
+
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+  return { startDate: toStr(start), endDate: toStr(end) };
+}
+
+/** Meses (YYYY-MM) que toca un rango: una semana puede cruzar dos meses */
+export function monthsInRange(range: PeriodRange): string[] {
+  const months: string[] = [];
+  let month = range.startDate.slice(0, 7);
+  const last = range.endDate.slice(0, 7);
+  while (month <= last) {
+    months.push(month);
+    const [year, m] = month.split("-").map(Number);
+    month = m === 12 ? `${year + 1}-01` : `${year}-${String(m + 1).padStart(2, "0")}`;
+  }
+  return months;
+}
+
+/** `outer` contiene por completo a `inner` */
+export function rangeContains(outer: PeriodRange, inner: PeriodRange): boolean {
+  return outer.startDate <= inner.startDate && outer.endDate >= inner.endDate;
+}
@@ -0,0 +1,261 @@
+/**
+ * Bloqueo de períodos contables por banca (día, semana ISO, mes).
+ *
+ * Con el período bloqueado se rechazan las escrituras que cambiarían sus estados de cuenta:
+ * anular tiquetes, revertir evaluaciones, registrar o revertir pagos/cobros y borrar statements.
+ * El cierre mensual bloquea el mes que cierra; reabrir exige motivo (BANCA/ADMIN) y, al volver
+ * a bloquear, el cierre mensual de los meses que toca se recalcula con los datos corregidos.
+ */
+
+import { AppError } from "../../../../core/errors";
+import ActivityService from "../../../../core/activity.service";
+import logger from "../../../../core/logger";
+import { AuthUser } from "../../../../core/types";
+import { ActivityType, Prisma } from "../../../../generated/prisma/client";
+import PeriodLockRepository from "../../../../repositories/periodLock.repository";
+import { crDateService } from "../../../../utils/crDateService";
+import { CreatePeriodLockInput, ListPeriodLocksQuery, ReopenPeriodLockInput } from "../../dto/periodLock.dto";
+import { recalculateMonthlyClosingForDimension } from "./monthlyClosing.service";
+import { monthsInRange, PeriodRange, periodRange, PeriodType, rangeContains } from "./accounts.periodLocks.helpers";
+
+type PeriodLockRow = NonNullable<Awaited<ReturnType<typeof PeriodLockRepository.findById>>>;
+
+/** Dueño del registro que se escribe: sin banca propia, se resuelve por su ventana o vendedor */
+export type PeriodOwner = { bancaId?: string | null; ventanaId?: string | null; vendedorId?: string | null };
+
+const PERIOD_LABEL: Record<PeriodType, string> = { DAY: "día", WEEK: "semana", MONTH: "mes" };
+
+function buildMeta(total: number, page: number, pageSize: number) {
+  const totalPages = Math.ceil(total / pageSize);
+  return {
+    total,
+    page,
+    pageSize,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+}
+
+function rangeOf(lock: PeriodLockRow): PeriodRange {
+  return {
+    startDate: crDateService.postgresDateToCRString(lock.startDate),
+    endDate: crDateService.postgresDateToCRString(lock.endDate),
+  };
+}
+
+function serializeLock(lock: PeriodLockRow) {
+  return { ...lock, ...rangeOf(lock) };
+}
+
+function describe(lock: PeriodLockRow) {
+  const { startDate, endDate } = rangeOf(lock);
+  const label = PERIOD_LABEL[lock.periodType as PeriodType] ?? lock.periodType;
+  return startDate === endDate ? `${label} ${startDate}` : `${label} ${startDate} a ${endDate}`;
+}
+
+export const PeriodLockService = {
+  async list(query: ListPeriodLocksQuery, activeBancaId?: string | null) {
+    const bancaId = this.requireBanca(activeBancaId);
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 50;
+
+    const where: Prisma.PeriodLockWhereInput = { bancaId };
+    if (query.status) where.status = query.status;
+    if (query.periodType) where.periodType = query.periodType;
+
+    const { data, total } = await PeriodLockRepository.list(where, page, pageSize);
+    return { data: data.map(serializeLock), meta: buildMeta(total, page, pageSize) };
+  },
+
+  /**
+   * Bloquea el período que contiene `date`. Solo períodos ya terminados. Bloquear uno reabierto
+   * lo cierra de nuevo y recalcula el cierre mensual de los meses que toca.
+   */
+  async lock(data: CreatePeriodLockInput, actor: AuthUser, activeBancaId?: string | null) {
+    const bancaId = this.requireBanca(activeBancaId);
+    const range = periodRange(data.periodType, data.date);
+    if (range.endDate >= crDateService.dateUTCToCRString(new Date())) {
+      throw new AppError("Solo se pueden bloquear períodos ya terminados", 400, "PERIOD_NOT_FINISHED");
+    }
+
+    const existing = await PeriodLockRepository.findByPeriod(bancaId, data.periodType, range.startDate);
+    if (existing?.status === "LOCKED") {
+      return { lock: serializeLock(existing), reclosed: 0 };
+    }
+
+    if (!existing) {
+      const lock = await PeriodLockRepository.create({
+        bancaId,
+        periodType: data.periodType,
+        startDate: new Date(`${range.startDate}T00:00:00.000Z`),
+        endDate: new Date(`${range.endDate}T00:00:00.000Z`),
+        lockedBy: actor.id,
+      });
+      await this.logAction(lock, actor.id, "period_locked", `Período bloqueado: ${describe(lock)}`);
+      return { lock: serializeLock(lock), reclosed: 0 };
+    }
+
+    const moved = await PeriodLockRepository.transition(existing.id, "REOPENED", {
+      status: "LOCKED",
+      lockedBy: actor.id,
+      lockedAt: new Date(),
+    });
+    if (!moved) throw new AppError("El período cambió de estado, vuelva a intentar", 409, "PERIOD_LOCK_CONFLICT");
+
+    const reclosed = await this.recloseMonths(bancaId, rangeOf(existing));
+    const lock = (await PeriodLockRepository.findById(existing.id))!;
+    await this.logAction(lock, actor.id, "period_relocked", `Período bloqueado de nuevo: ${describe(lock)}`, {
+      reclosedMonthlyBalances: reclosed,
+    });
+    return { lock: serializeLock(lock), reclosed };
+  },
+
+  /** Reabre un período bloqueado para corregirlo; el motivo queda en el bloqueo y en la bitácora */
+  async reopen(id: string, data: ReopenPeriodLockInput, actor: AuthUser, activeBancaId?: string | null) {
+    const bancaId = this.requireBanca(activeBancaId);
+    const lock = await PeriodLockRepository.findById(id);
+    if (!lock || lock.bancaId !== bancaId) throw new AppError("Bloqueo no encontrado", 404, "NOT_FOUND");
+    if (lock.status !== "LOCKED") throw new AppError("El período no está bloqueado", 409, "PERIOD_NOT_LOCKED");
+
+    // Un bloqueo mayor (el mes que contiene la semana) lo seguiría bloqueando
+    const range = rangeOf(lock);
+    const covering = await PeriodLockRepository.findLockedCovering(bancaId, [range.startDate, range.endDate]);
+    const wider = covering.find((other) => other.id !== lock.id && rangeContains(rangeOf(other), range));
+    if (wider) {
+      throw new AppError(
+        `El período está dentro de otro bloqueo (${describe(wider)}); reabra ese primero`,
+        409,
+        "PERIOD_LOCKED_BY_WIDER"
+      );
+    }
+
+    const moved = await PeriodLockRepository.transition(id, "LOCKED", {
+      status: "REOPENED",
+      reopenedBy: actor.id,
+      reopenedAt: new Date(),
+      reopenReason: data.reason,
+      reopenCount: { increment: 1 },
+    });
+    if (!moved) throw new AppError("El período cambió de estado, vuelva a intentar", 409, "PERIOD_LOCK_CONFLICT");
+
+    const reopened = (await PeriodLockRepository.findById(id))!;
+    await this.logAction(reopened, actor.id, "period_reopened", `Período reabierto: ${describe(reopened)}. Motivo: ${data.reason}`, {
+      reason: data.reason,
+    });
+    return serializeLock(reopened);
+  },
+
+  /**
+   * Bloqueo del cierre mensual: solo meses terminados y sin bloqueo. Un mes reabierto sigue
+   * abierto hasta que alguien lo bloquee a propósito.
+   */
+  async lockClosedMonth(bancaId: string, closingMonth: string, userId?: string | null) {
+    const range = periodRange("MONTH", `${closingMonth}-01`);
+    if (range.endDate >= crDateService.dateUTCToCRString(new Date())) return false;
+    const existing = await PeriodLockRepository.findByPeriod(bancaId, "MONTH", range.startDate);
+    if (existing) return false;
+
+    const lock = await PeriodLockRepository.create({
+      bancaId,
+      periodType: "MONTH",
+      startDate: new Date(`${range.startDate}T00:00:00.000Z`),
+      endDate: new Date(`${range.endDate}T00:00:00.000Z`),
+      lockedBy: userId ?? null,
+    });
+    await this.logAction(lock, userId ?? null, "period_locked", `Mes cerrado y bloqueado: ${describe(lock)}`);
+    return true;
+  },
+
+  /**
+   * Rechaza la escritura si alguna fecha de negocio (YYYY-MM-DD) está en un período bloqueado
+   * de la banca. `action` completa el mensaje: "No se puede <action>: ...".
+   * Si no se puede determinar la banca del registro, también se rechaza: sin ella no se sabe
+   * si el período está bloqueado.
+   */
+  async assertOpen(owner: PeriodOwner, dateStrs: string | string[], action: string) {
+    const dates = Array.from(new Set(Array.isArray(dateStrs) ? dateStrs : [dateStrs]));
+    if (dates.length === 0) return;
+
+    const bancaId = owner.bancaId ?? (await PeriodLockRepository.findOwnerBancaId(owner.ventanaId, owner.vendedorId));
+    if (!bancaId) {
+      throw new AppError(
+        `No se puede ${action}: no se pudo determinar la banca para validar el período`,
+        409,
+        "PERIOD_BANCA_UNRESOLVED"
+      );
+    }
+
+    const [lock] = await PeriodLockRepository.findLockedCovering(bancaId, dates);
+    if (!lock) return;
+
+    throw new AppError(
+      `No se puede ${action}: el período está bloqueado (${describe(lock)})`,
+      409,
+      { code: "PERIOD_LOCKED", lockId: lock.id, periodType: lock.periodType, ...rangeOf(lock) }
+    );
+  },
+
+  /** Revertir la evaluación de un sorteo cambia los estados de cuenta de cada banca y día de sus tiquetes */
+  async assertSorteoOpen(sorteoId: string, action: string) {
+    const books = await PeriodLockRepository.sorteoBooks(sorteoId);
+    const byBanca = new Map<string, string[]>();
+    for (const book of books) {
+      byBanca.set(book.bancaId, [...(byBanca.get(book.bancaId) ?? []), book.businessDate]);
+    }
+    for (const [bancaId, dates] of byBanca) {
+      await this.assertOpen({ bancaId }, dates, action);
+    }
+  },
+
+  /** Recalcula los cierres mensuales ya guardados de la banca en los meses del rango */
+  async recloseMonths(bancaId: string, range: PeriodRange) {
+    const closings = await PeriodLockRepository.findMonthlyClosings(bancaId, monthsInRange(range));
+    for (const closing of closings) {
+      await recalculateMonthlyClosingForDimension(
+        closing.closingMonth,
+        closing.dimension as "banca" | "ventana" | "vendedor",
+        closing.ventanaId,
+        closing.vendedorId,
+        closing.bancaId
+      );
+    }
+    logger.info({
+      layer: "service",
+      action: "PERIOD_LOCK_RECLOSE",
+      payload: { bancaId, ...range, reclosed: closings.length },
+    });
+    return closings.length;
+  },
+
+  requireBanca(activeBancaId?: string | null) {
+    if (!activeBancaId) throw new AppError("Seleccione una banca", 400);
+    return activeBancaId;
+  },
+
+  async logAction(
+    lock: PeriodLockRow,
+    userId: string | null,
+    op: string,
+    description: string,
+    extra: Record<string, unknown> = {}
+  ) {
+    await ActivityService.log({
+      userId,
+      bancaId: lock.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "PERIOD_LOCK",
+      targetId: lock.id,
+      details: {
+        op,
+        periodType: lock.periodType,
+        ...rangeOf(lock),
+        ...extra,
+        description,
+      } as Prisma.InputJsonObject,
+      layer: "service",
+    });
+  },
+};
+
+export default PeriodLockService;
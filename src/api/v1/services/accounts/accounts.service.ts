@@ -4,9 +4,10 @@ import { resolveDateRange } from "../../../../utils/dateRange";
 import { getMovementsForDay, getSorteoBreakdownBatch } from "./accounts.queries";
 import { getStatementDirect, calculateDayStatement, getSettledStatements, getDatesNotSettled } from "./accounts.calculations";
 import { registerPayment, reversePayment, deleteStatement } from "./accounts.movements";
+import { AccountLedgerService } from "./accounts.ledger";
 import { AccountStatementRepository } from "../../../../repositories/accountStatement.repository";
 import { AccountPaymentRepository } from "../../../../repositories/accountPayment.repository";
-import prisma from "../../../../core/prismaClient";
+import prisma, { AppTransactionClient } from "../../../../core/prismaClient";
 import { Prisma, Role } from "../../../../generated/prisma/client";
 import { getCachedStatement, setCachedStatement } from "../../../../utils/accountStatementCache";
 import { crDateService } from "../../../../utils/crDateService";
@@ -1082,7 +1083,7 @@ export const AccountsService = {
             ignoreReset?: boolean;
         },
         includePreviousDayAccumulated: boolean = true, //  NUEVO: Flag para controlar si se incluye acumulado del día anterior
-        tx: Prisma.TransactionClient = prisma
+        tx: AppTransactionClient = prisma
     ) {
         // Convertir fecha string a Date
         const [year, month, day] = date.split('-').map(Number);
@@ -1782,12 +1783,10 @@ export const AccountsService = {
         const today = new Date();
         const currentMonth = `${today.getUTCFullYear()}-${String(today.getUTCMonth() + 1).padStart(2, '0')}`;
 
-        // 2. Obtener el saldo acumulado hasta el momento
-        const remainingBalance = await getMonthlyRemainingBalance(
-            currentMonth,
-            "ventana",
-            ventanaId
-        );
+        // 2. Obtener el saldo acumulado hasta el momento (del libro si está habilitado)
+        const remainingBalance = AccountLedgerService.readsEnabled()
+            ? await AccountLedgerService.currentBalance("ventana", ventanaId)
+            : await getMonthlyRemainingBalance(currentMonth, "ventana", ventanaId);
 
         //  NOTA: En este contexto, 'balance' y 'remainingBalance' representan lo mismo: la deuda actual.
         // La distinción anterior entre balance (operativo) y remainingBalance (final) pierde sentido
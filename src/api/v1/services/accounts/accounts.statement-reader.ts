@@ -1,8 +1,11 @@
 import prisma from "../../../../core/prismaClient";
-import { AccountStatement } from "../../../../generated/prisma/client";
+import { AccountStatement as AccountStatementRow } from "../../../../generated/prisma/client";
+import { WithMoney } from "../../../../core/moneyPrecision";
 import logger from "../../../../core/logger";
 import { getPreviousMonthFinalBalance } from "./accounts.balances";
 
+type AccountStatement = WithMoney<AccountStatementRow>;
+
 /**
  *  CRÍTICO: Helper para leer AccountStatement del día anterior
  * Esto permite validar y usar datos guardados en lugar de recalcular
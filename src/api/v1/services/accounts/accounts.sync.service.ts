@@ -7,8 +7,8 @@
  * Este servicio sincroniza AccountStatement para mantener accumulatedBalance como fuente de verdad.
  */
 
-import { Prisma, Role } from "../../../../generated/prisma/client";
-import prisma from "../../../../core/prismaClient";
+import { Role } from "../../../../generated/prisma/client";
+import prisma, { AppTransactionClient } from "../../../../core/prismaClient";
 import logger from "../../../../core/logger";
 import { AppError } from "../../../../core/errors";
 import { AccountStatementRepository } from "../../../../repositories/accountStatement.repository";
@@ -18,16 +18,25 @@ import { ACCOUNT_CARRY_OVER_NOTES, ACCOUNT_PREVIOUS_MONTH_METHOD } from "./accou
 import { calculateIsSettled } from "./accounts.commissions";
 import { buildTicketDateFilter } from "./accounts.dates.utils";
 import { crDateService } from "../../../../utils/crDateService";
+import { roundMoney, sumMoney } from "../../../../utils/decimal";
 import { getPreviousMonthFinalBalance } from "./accounts.balances";
 import { getExcludedTicketIdsForDate } from "./accounts.calculations";
 import { intercalateSorteosAndMovements } from "./accounts.intercalate";
 import { KeyedTaskQueue } from "../../../../core/keyedTaskQueue";
 import { ConcurrencyManager } from "../../../../utils/concurrency";
 import { CierreRollupService } from "../cierre.rollup.service";
+import { AccountLedgerService } from "./accounts.ledger";
+import { TenantContext } from "../../../../core/tenantContext";
 
 
 const SYNC_BATCH_SIZE = 5;
 
+/** Bloquea (FOR UPDATE) el estado de cuenta; el id sale de una lectura ya acotada a la banca */
+const lockStatement = (client: AppTransactionClient, id: string) =>
+  TenantContext.crossTenant(
+    () => client.$executeRaw`SELECT 1 FROM "AccountStatement" WHERE id = CAST(${id} AS uuid) FOR UPDATE`
+  );
+
 /**
  * Ejecuta promesas en batches de tamaño fijo.
  * Equivalente a p-limit pero sin dependencia externa.
@@ -59,6 +68,33 @@ export class AccountStatementSyncService {
     return `sync-entity-${dimension}-${entityId || 'global'}`;
   }
 
+  /**
+   * Con el libro habilitado, totales y saldo del día salen de las sumas de LedgerEntry:
+   * el saldo al cierre no depende del statement del día anterior.
+   */
+  private static async withLedgerTotals<T extends { ticketCount: number }>(
+    data: T,
+    dimension: "banca" | "ventana" | "vendedor",
+    entityId: string | undefined,
+    dateStr: string
+  ): Promise<T> {
+    if (!AccountLedgerService.readsEnabled() || !entityId) return data;
+
+    const ledger = await AccountLedgerService.dayStatement(dimension, entityId, dateStr);
+    return {
+      ...data,
+      totalSales: ledger.totalSales,
+      totalPayouts: ledger.totalPayouts,
+      ...(dimension === "vendedor" ? { vendedorCommission: ledger.commission } : { listeroCommission: ledger.commission }),
+      balance: ledger.balance,
+      totalPaid: ledger.totalPaid,
+      totalCollected: ledger.totalCollected,
+      remainingBalance: ledger.accumulatedBalance,
+      accumulatedBalance: ledger.accumulatedBalance,
+      isSettled: calculateIsSettled(data.ticketCount, ledger.accumulatedBalance, ledger.totalPaid, ledger.totalCollected),
+    };
+  }
+
   /**
    * Sincroniza el statement de un día específico
    */
@@ -200,17 +236,15 @@ export class AccountStatementSyncService {
       }
     });
 
-    const totalSales = tickets.reduce((sum, t) => sum + Number(t.totalAmount || 0), 0);
-    const totalPayouts = ticketsWithWinningJugadas.reduce((sum, t) => sum + Number(t.totalPayout || 0), 0);
+    // Sumas en céntimos: el statement cuadra al céntimo con el cierre semanal y el mensual
+    const totalSales = sumMoney(tickets.map((t) => t.totalAmount));
+    const totalPayouts = sumMoney(ticketsWithWinningJugadas.map((t) => t.totalPayout));
 
-    let listeroCommission = 0;
-    let vendedorCommission = 0;
-    for (const ticket of ticketsForCommissions) {
-      for (const jugada of ticket.jugadas) {
-        listeroCommission += Number(jugada.listeroCommissionAmount || 0);
-        if (jugada.commissionOrigin === "USER") vendedorCommission += Number(jugada.commissionAmount || 0);
-      }
-    }
+    const jugadasForCommissions = ticketsForCommissions.flatMap((t) => t.jugadas);
+    const listeroCommission = sumMoney(jugadasForCommissions.map((j) => j.listeroCommissionAmount));
+    const vendedorCommission = sumMoney(
+      jugadasForCommissions.filter((j) => j.commissionOrigin === "USER").map((j) => j.commissionAmount)
+    );
 
     const [totalP, totalC] = await Promise.all([
       prisma.accountPayment.aggregate({
@@ -251,7 +285,7 @@ export class AccountStatementSyncService {
 
     const totalPaid = totalP._sum.amount || 0;
     const totalCollected = totalC._sum.amount || 0;
-    const balance = totalSales - totalPayouts - (dimension === "vendedor" ? vendedorCommission : listeroCommission);
+    const balance = sumMoney([totalSales, -totalPayouts, -(dimension === "vendedor" ? vendedorCommission : listeroCommission)]);
 
     let previousDayAccumulated = 0;
     const dateStr = dateStrCR;
@@ -283,17 +317,17 @@ export class AccountStatementSyncService {
       }
     }
 
-    const accumulatedBalance = previousDayAccumulated + balance + totalPaid - totalCollected;
-    const updateData = {
-      totalSales: parseFloat(totalSales.toFixed(2)),
-      totalPayouts: parseFloat(totalPayouts.toFixed(2)),
-      listeroCommission: parseFloat(listeroCommission.toFixed(2)),
-      vendedorCommission: parseFloat(vendedorCommission.toFixed(2)),
-      balance: parseFloat(balance.toFixed(2)),
-      totalPaid: parseFloat(totalPaid.toFixed(2)),
-      totalCollected: parseFloat(totalCollected.toFixed(2)),
-      remainingBalance: parseFloat(accumulatedBalance.toFixed(2)),
-      accumulatedBalance: parseFloat(accumulatedBalance.toFixed(2)),
+    const accumulatedBalance = sumMoney([previousDayAccumulated, balance, totalPaid, -totalCollected]);
+    const updateData = await this.withLedgerTotals({
+      totalSales,
+      totalPayouts,
+      listeroCommission,
+      vendedorCommission,
+      balance,
+      totalPaid: roundMoney(totalPaid),
+      totalCollected: roundMoney(totalCollected),
+      remainingBalance: accumulatedBalance,
+      accumulatedBalance,
       isSettled: calculateIsSettled(tickets.length, accumulatedBalance, totalPaid, totalCollected),
       canEdit: true,
       ticketCount: tickets.length,
@@ -301,10 +335,10 @@ export class AccountStatementSyncService {
       bancaId: finalBancaId,
       ventanaId: dimension === "vendedor" ? null : (finalVentanaId || null),
       vendedorId: vendedorId || null,
-    };
+    }, dimension, entityId, dateStrCR);
 
     // 2. Fase de Escritura (DENTRO de transacción corta)
-    const writePhase = async (tx: Prisma.TransactionClient) => {
+    const writePhase = async (tx: AppTransactionClient) => {
       // Re-leer SIEMPRE dentro del tx para garantizar consistencia (Race Condition fix)
       let stmt = null;
       if (vendedorId) stmt = await tx.accountStatement.findFirst({ where: { date, vendedorId } });
@@ -313,7 +347,7 @@ export class AccountStatementSyncService {
 
       if (stmt) {
         // Bloqueo explícito FOR UPDATE
-        await tx.$executeRaw`SELECT 1 FROM "AccountStatement" WHERE id = CAST(${stmt.id} AS uuid) FOR UPDATE`;
+        await lockStatement(tx, stmt.id);
         await tx.accountStatement.update({ where: { id: stmt.id }, data: updateData });
       } else {
         try {
@@ -324,7 +358,7 @@ export class AccountStatementSyncService {
               where: dimension === "vendedor" ? { date, vendedorId } : dimension === "ventana" ? { date, ventanaId: finalVentanaId, vendedorId: null } : { date, bancaId: finalBancaId, ventanaId: null, vendedorId: null }
             });
             if (retry) {
-              await tx.$executeRaw`SELECT 1 FROM "AccountStatement" WHERE id = CAST(${retry.id} AS uuid) FOR UPDATE`;
+              await lockStatement(tx, retry.id);
               await tx.accountStatement.update({ where: { id: retry.id }, data: updateData });
             }
           } else throw e;
@@ -374,23 +408,20 @@ export class AccountStatementSyncService {
         return;
       }
 
-      let totalSales = 0, totalPayouts = 0, listeroCommission = 0, vendedorCommission = 0, totalPaid = 0, totalCollected = 0;
-      for (const event of bySorteoData) {
-        const isMov = (event.sorteoId || '').startsWith('mov-');
-        if (!isMov) {
-          totalSales += Number(event.sales || 0);
-          totalPayouts += Number(event.payouts || 0);
-          listeroCommission += Number(event.listeroCommission || 0);
-          vendedorCommission += Number(event.vendedorCommission || 0);
-        } else if (event.type !== 'initial_balance' && !event.isReversed) {
-          if (event.type === 'payment') totalPaid += Number(event.amount || 0);
-          else if (event.type === 'collection') totalCollected += Number(event.amount || 0);
-        }
-      }
-
-      const balance = totalSales - totalPayouts - (dimension === 'vendedor' ? vendedorCommission : listeroCommission);
+      const sorteoEvents = bySorteoData.filter((e: any) => !(e.sorteoId || '').startsWith('mov-'));
+      const movements = bySorteoData.filter(
+        (e: any) => (e.sorteoId || '').startsWith('mov-') && e.type !== 'initial_balance' && !e.isReversed
+      );
+      const totalSales = sumMoney(sorteoEvents.map((e: any) => e.sales));
+      const totalPayouts = sumMoney(sorteoEvents.map((e: any) => e.payouts));
+      const listeroCommission = sumMoney(sorteoEvents.map((e: any) => e.listeroCommission));
+      const vendedorCommission = sumMoney(sorteoEvents.map((e: any) => e.vendedorCommission));
+      const totalPaid = sumMoney(movements.filter((e: any) => e.type === 'payment').map((e: any) => e.amount));
+      const totalCollected = sumMoney(movements.filter((e: any) => e.type === 'collection').map((e: any) => e.amount));
+
+      const balance = sumMoney([totalSales, -totalPayouts, -(dimension === 'vendedor' ? vendedorCommission : listeroCommission)]);
       const lastEvent = bySorteoData.reduce((max: any, e: any) => (e.chronologicalIndex || 0) > (max.chronologicalIndex || 0) ? e : max, bySorteoData[0]);
-      const accumulatedBalance = parseFloat((lastEvent.accumulated || 0).toFixed(2));
+      const accumulatedBalance = roundMoney(lastEvent.accumulated || 0);
 
       let vendedorId: string | undefined, ventanaId: string | undefined, bancaId: string | undefined;
       if (dimension === 'vendedor') {
@@ -412,24 +443,24 @@ export class AccountStatementSyncService {
 
       const [year, month, day] = dateStr.split('-').map(Number);
       const dateUTC = new Date(Date.UTC(year, month - 1, day, 0, 0, 0, 0));
-      const updateData = {
-        totalSales: parseFloat(totalSales.toFixed(2)),
-        totalPayouts: parseFloat(totalPayouts.toFixed(2)),
-        listeroCommission: parseFloat(listeroCommission.toFixed(2)),
-        vendedorCommission: parseFloat(vendedorCommission.toFixed(2)),
-        balance: parseFloat(balance.toFixed(2)),
-        totalPaid: parseFloat(totalPaid.toFixed(2)),
-        totalCollected: parseFloat(totalCollected.toFixed(2)),
+      const updateData = await this.withLedgerTotals({
+        totalSales,
+        totalPayouts,
+        listeroCommission,
+        vendedorCommission,
+        balance,
+        totalPaid,
+        totalCollected,
         remainingBalance: accumulatedBalance,
         accumulatedBalance: accumulatedBalance,
-        isSettled: calculateIsSettled(bySorteoData.filter((e: any) => !(e.sorteoId || '').startsWith('mov-')).reduce((sum: number, e: any) => sum + (e.ticketCount || 0), 0), accumulatedBalance, totalPaid, totalCollected),
+        isSettled: calculateIsSettled(sorteoEvents.reduce((sum: number, e: any) => sum + (e.ticketCount || 0), 0), accumulatedBalance, totalPaid, totalCollected),
         canEdit: true,
-        ticketCount: bySorteoData.filter((e: any) => !(e.sorteoId || '').startsWith('mov-')).reduce((sum: number, e: any) => sum + (e.ticketCount || 0), 0),
+        ticketCount: sorteoEvents.reduce((sum: number, e: any) => sum + (e.ticketCount || 0), 0),
         month: `${year}-${String(month).padStart(2, '0')}`,
         bancaId: bancaId || null,
         ventanaId: dimension === 'vendedor' ? null : (ventanaId || null),
         vendedorId: vendedorId || null,
-      };
+      }, dimension, entityId, dateStr);
 
       // 2. Fase de Escritura (DENTRO de transacción local corta)
       await prisma.$transaction(async (tx) => {
@@ -439,7 +470,7 @@ export class AccountStatementSyncService {
         else if (bancaId) stmt = await tx.accountStatement.findFirst({ where: { date: dateUTC, bancaId, ventanaId: null, vendedorId: null } });
 
         if (stmt) {
-          await tx.$executeRaw`SELECT 1 FROM "AccountStatement" WHERE id = CAST(${stmt.id} AS uuid) FOR UPDATE`;
+          await lockStatement(tx, stmt.id);
           await tx.accountStatement.update({ where: { id: stmt.id }, data: updateData });
         } else {
           try {
@@ -477,6 +508,9 @@ export class AccountStatementSyncService {
     });
 
     try {
+      // El libro primero: con lecturas desde el libro, los statements se derivan de estos asientos
+      await AccountLedgerService.record("LEDGER_SORTEO_POSTED", { sourceType: "SORTEO", sorteoId });
+
       const affectedTickets = await prisma.ticket.findMany({
         where: {
           sorteoId: sorteoId,
@@ -697,7 +731,10 @@ export class AccountStatementSyncService {
       }
     }
 
-    const newRemaining = parseFloat(previousDayAccumulated.toFixed(2));
+    // Con el libro habilitado, un día sin actividad cierra con el saldo del libro a esa fecha
+    const newRemaining = AccountLedgerService.readsEnabled() && entityId
+      ? roundMoney(await AccountLedgerService.balanceAsOf(dimension, entityId, dateStr))
+      : roundMoney(previousDayAccumulated);
     const hasActivityToReset = 
       existingStmt.totalSales !== 0 ||
       existingStmt.totalPayouts !== 0 ||
@@ -713,7 +750,7 @@ export class AccountStatementSyncService {
     if (needsBalanceUpdate || hasActivityToReset) {
       await prisma.$transaction(async (localTx) => {
         // Bloqueo explícito para garantizar consistencia en el carry-forward
-        await localTx.$executeRaw`SELECT 1 FROM "AccountStatement" WHERE id = CAST(${existingStmt.id} AS uuid) FOR UPDATE`;
+        await lockStatement(localTx, existingStmt.id);
         await localTx.accountStatement.update({
           where: { id: existingStmt.id },
           data: { 
@@ -759,6 +796,11 @@ export class AccountStatementSyncService {
     else if (dimension === "ventana") { criteria.ventanaId = entityId; criteria.vendedorId = null; }
     else if (dimension === "banca") { criteria.bancaId = entityId; criteria.ventanaId = null; criteria.vendedorId = null; }
 
+    if (AccountLedgerService.readsEnabled() && entityId) {
+      await this.applyLedgerClosings(startDate, dimension, entityId, criteria);
+      return;
+    }
+
     // 1. Obtener el statement original para saber qué saldo arrastrar
     const startStatement = await prisma.accountStatement.findFirst({
       where: { date: startDate, ...criteria },
@@ -809,10 +851,10 @@ export class AccountStatementSyncService {
         const stmtDateStr = crDateService.postgresDateToCRString(stmt.date);
         
         // Nuevo saldo arrastrado
-        const newAccumulated = parseFloat(currentAccumulated.toFixed(2));
+        const newAccumulated = roundMoney(currentAccumulated);
         
         // Nuevo saldo final: arrastrado + balance del día + cobros - pagos
-        const newRemaining = parseFloat((newAccumulated + Number(stmt.balance) + Number(stmt.totalCollected) - Number(stmt.totalPaid)).toFixed(2));
+        const newRemaining = sumMoney([newAccumulated, stmt.balance, stmt.totalCollected, -stmt.totalPaid]);
         
         const newIsSettled = calculateIsSettled(
           stmt.ticketCount, 
@@ -822,7 +864,7 @@ export class AccountStatementSyncService {
         );
 
         // Actualizar en base de datos si hay cambios
-        if (Math.abs(Number(stmt.remainingBalance) - newRemaining) > 0.01 || Math.abs(Number(stmt.accumulatedBalance) - newAccumulated) > 0.01) {
+        if (stmt.remainingBalance !== newRemaining || stmt.accumulatedBalance !== newAccumulated) {
           await prisma.accountStatement.update({
             where: { id: stmt.id },
             data: {
@@ -851,6 +893,48 @@ export class AccountStatementSyncService {
     }
   }
 
+  /**
+   * Propagación con el libro habilitado: cada statement posterior toma el saldo del libro al
+   * cierre de su fecha, sin encadenar el acumulado de un día al siguiente.
+   */
+  private static async applyLedgerClosings(
+    startDate: Date,
+    dimension: "banca" | "ventana" | "vendedor",
+    entityId: string,
+    criteria: Record<string, string | null | undefined>
+  ): Promise<void> {
+    const statements = await prisma.accountStatement.findMany({
+      where: { date: { gt: startDate }, ...criteria },
+      orderBy: { date: "asc" },
+      select: { id: true, date: true, ticketCount: true, totalPaid: true, totalCollected: true, accumulatedBalance: true, remainingBalance: true },
+    });
+    if (statements.length === 0) return;
+
+    const dateStrs = statements.map((stmt) => crDateService.postgresDateToCRString(stmt.date));
+    const closings = await AccountLedgerService.closingBalances(dimension, entityId, dateStrs);
+
+    let updated = 0;
+    for (const [i, stmt] of statements.entries()) {
+      const closing = roundMoney(closings.get(dateStrs[i]) ?? 0);
+      if (stmt.remainingBalance === closing && stmt.accumulatedBalance === closing) continue;
+      await prisma.accountStatement.update({
+        where: { id: stmt.id },
+        data: {
+          accumulatedBalance: closing,
+          remainingBalance: closing,
+          isSettled: calculateIsSettled(stmt.ticketCount, closing, stmt.totalPaid, stmt.totalCollected),
+        },
+      });
+      updated++;
+    }
+
+    logger.info({
+      layer: "service",
+      action: "PROPAGATE_BALANCE_FROM_LEDGER",
+      payload: { dimension, entityId, startDate: crDateService.postgresDateToCRString(startDate), statements: statements.length, updated },
+    });
+  }
+
   /**
    * Resuelve la ventanaId y bancaId históricas de un vendedor para una fecha específica.
    */
@@ -0,0 +1,361 @@
+import prisma from "../../../core/prismaClient";
+import logger from "../../../core/logger";
+import { AppError } from "../../../core/errors";
+import ActivityService from "../../../core/activity.service";
+import AlertRepository from "../../../repositories/alert.repository";
+import { ActivityType, Alert, Prisma, Role } from "../../../generated/prisma/client";
+import { AuthUser } from "../../../core/types";
+import { evaluateAlertCondition } from "../../../services/alerts/evaluators";
+import { createDefaultNotifiers } from "../../../services/alerts/notifiers";
+import { AlertCondition, AlertEvaluation, AlertNotification, AlertNotifier } from "../../../services/alerts/types";
+import {
+  AlertDimension,
+  CreateAlertInput,
+  ListAlertHistoryQuery,
+  ListAlertsQuery,
+  UpdateAlertInput,
+} from "../dto/alert.dto";
+
+const DEFAULT_COOLDOWN_MINUTES = 60;
+
+export type AlertRunResult =
+  | { status: "skipped"; reason: "cooldown"; nextEligibleAt: string }
+  | { status: "skipped"; reason: "already_fired" }
+  | { status: "ok"; evaluation: AlertEvaluation }
+  | { status: "fired"; evaluation: AlertEvaluation; eventId: string; notifications: NotificationResult[] };
+
+type NotificationResult = { channel: string; ok: boolean; error?: string };
+
+type EvaluateOptions = {
+  notifiers?: AlertNotifier[];
+  now?: Date;
+  /** Ignora el cooldown (evaluación manual) */
+  force?: boolean;
+};
+
+function buildMeta(total: number, page: number, pageSize: number) {
+  const totalPages = Math.ceil(total / pageSize);
+  return {
+    total,
+    page,
+    pageSize,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+}
+
+function cooldownMinutesOf(alert: Alert): number {
+  const condition = alert.condition as unknown as AlertCondition;
+  return condition?.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES;
+}
+
+/**
+ * Verifica que el objetivo exista y, para BANCA, que pertenezca a su banca.
+ */
+async function assertTargetInScope(dimension: AlertDimension, targetId: string | null | undefined, bancaId: string | null) {
+  if (!targetId) return;
+
+  let targetBancaId: string | null | undefined;
+  switch (dimension) {
+    case "banca":
+      targetBancaId = (await prisma.banca.findUnique({ where: { id: targetId }, select: { id: true } }))?.id;
+      break;
+    case "ventana":
+      targetBancaId = (await prisma.ventana.findUnique({ where: { id: targetId }, select: { bancaId: true } }))?.bancaId;
+      break;
+    case "vendedor": {
+      const user = await prisma.user.findUnique({
+        where: { id: targetId },
+        select: { role: true, ventana: { select: { bancaId: true } } },
+      });
+      if (user && user.role !== Role.VENDEDOR) throw new AppError("El targetId no corresponde a un vendedor", 400);
+      targetBancaId = user?.ventana?.bancaId;
+      break;
+    }
+    case "sorteo": {
+      const sorteo = await prisma.sorteo.findUnique({ where: { id: targetId }, select: { id: true, bancaId: true } });
+      if (!sorteo) throw new AppError("El objetivo de la alerta no existe", 404, "NOT_FOUND");
+      // Sorteos globales (sin banca) son visibles para todas las bancas
+      targetBancaId = sorteo.bancaId ?? bancaId;
+      break;
+    }
+  }
+
+  if (targetBancaId === undefined) throw new AppError("El objetivo de la alerta no existe", 404, "NOT_FOUND");
+  if (bancaId && targetBancaId !== bancaId) {
+    throw new AppError("El objetivo de la alerta no pertenece a tu banca", 403, "FORBIDDEN");
+  }
+}
+
+export const AlertService = {
+  async create(data: CreateAlertInput, actor: AuthUser, activeBancaId?: string | null) {
+    if (actor.role === Role.BANCA && !activeBancaId) {
+      throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+    }
+    const bancaId = activeBancaId ?? null;
+    await assertTargetInScope(data.dimension, data.targetId, bancaId);
+
+    const alert = await AlertRepository.create({
+      name: data.name,
+      userId: actor.id,
+      bancaId,
+      dimension: data.dimension,
+      targetId: data.targetId ?? (data.dimension === "banca" ? bancaId : null),
+      condition: data.condition as unknown as Prisma.InputJsonValue,
+      notifyEmail: data.notifyEmail ?? null,
+      notifyWebhook: data.notifyWebhook ?? null,
+      isActive: data.isActive ?? true,
+    });
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "ALERT",
+      targetId: alert.id,
+      details: {
+        op: "create",
+        dimension: alert.dimension,
+        condition: data.condition,
+        description: `Alerta "${alert.name}" creada (${data.condition.type})`,
+      },
+      layer: "service",
+    });
+
+    return alert;
+  },
+
+  async findAll(query: ListAlertsQuery, actor: AuthUser, activeBancaId?: string | null) {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+
+    const where: Prisma.AlertWhereInput = {};
+    if (actor.role === Role.BANCA) {
+      if (!activeBancaId) throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+      where.bancaId = activeBancaId;
+    } else if (activeBancaId) {
+      where.bancaId = activeBancaId;
+    }
+    if (query.isActive !== undefined) where.isActive = query.isActive;
+    if (query.dimension) where.dimension = query.dimension;
+
+    const { data, total } = await AlertRepository.list(where, page, pageSize);
+    return { data, meta: buildMeta(total, page, pageSize) };
+  },
+
+  async findById(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    return this.getOwned(id, actor, activeBancaId);
+  },
+
+  async update(id: string, data: UpdateAlertInput, actor: AuthUser, activeBancaId?: string | null) {
+    const existing = await this.getOwned(id, actor, activeBancaId);
+
+    const dimension = data.dimension ?? (existing.dimension as AlertDimension);
+    const targetId = data.targetId !== undefined ? data.targetId : existing.targetId;
+    const condition = data.condition ?? (existing.condition as unknown as AlertCondition);
+    if (dimension !== "banca" && !targetId) {
+      throw new AppError(`targetId es requerido para dimensión ${dimension}`, 400);
+    }
+    if (dimension === "sorteo" && condition.type !== "EXPOSURE_PCT") {
+      throw new AppError("La dimensión sorteo solo admite EXPOSURE_PCT", 400);
+    }
+    if (data.dimension !== undefined || data.targetId !== undefined) {
+      await assertTargetInScope(dimension, targetId, existing.bancaId);
+    }
+
+    const alert = await AlertRepository.update(id, {
+      name: data.name,
+      dimension: data.dimension,
+      targetId: data.targetId,
+      condition: data.condition as unknown as Prisma.InputJsonValue | undefined,
+      notifyEmail: data.notifyEmail,
+      notifyWebhook: data.notifyWebhook,
+      isActive: data.isActive,
+    });
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: alert.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "ALERT",
+      targetId: alert.id,
+      details: {
+        op: "update",
+        changes: data,
+        description: `Alerta "${alert.name}" actualizada`,
+      },
+      layer: "service",
+    });
+
+    return alert;
+  },
+
+  async remove(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    const existing = await this.getOwned(id, actor, activeBancaId);
+    await AlertRepository.delete(id);
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: existing.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "ALERT",
+      targetId: existing.id,
+      details: {
+        op: "delete",
+        description: `Alerta "${existing.name}" eliminada`,
+      },
+      layer: "service",
+    });
+
+    return { id: existing.id };
+  },
+
+  async history(id: string, query: ListAlertHistoryQuery, actor: AuthUser, activeBancaId?: string | null) {
+    await this.getOwned(id, actor, activeBancaId);
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+
+    const where: Prisma.AlertEventWhereInput = { alertId: id };
+    if (query.from || query.to) {
+      where.firedAt = {
+        ...(query.from ? { gte: query.from } : {}),
+        ...(query.to ? { lte: query.to } : {}),
+      };
+    }
+
+    const { data, total } = await AlertRepository.listEvents(where, page, pageSize);
+    return { data, meta: buildMeta(total, page, pageSize) };
+  },
+
+  /** Evaluación manual desde la API (ignora cooldown) */
+  async evaluateNow(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    const alert = await this.getOwned(id, actor, activeBancaId);
+    return this.evaluateAlert(alert, { force: true });
+  },
+
+  /**
+   * Evalúa una alerta. Si se dispara, persiste el evento, mueve lastFiredAt
+   * y entrega la notificación por cada canal aplicable. Un fallo de canal
+   * no aborta los demás; el resultado queda registrado en el evento.
+   */
+  async evaluateAlert(alert: Alert, options: EvaluateOptions = {}): Promise<AlertRunResult> {
+    const now = options.now ?? new Date();
+
+    if (!options.force && alert.lastFiredAt) {
+      const nextEligibleAt = new Date(alert.lastFiredAt.getTime() + cooldownMinutesOf(alert) * 60_000);
+      if (nextEligibleAt > now) {
+        return { status: "skipped", reason: "cooldown", nextEligibleAt: nextEligibleAt.toISOString() };
+      }
+    }
+
+    const evaluation = await evaluateAlertCondition(alert, now);
+    if (!evaluation.triggered) {
+      return { status: "ok", evaluation };
+    }
+
+    // Reclamo atómico: con varias instancias del job solo una registra y notifica el disparo.
+    // La evaluación manual ignora el cooldown pero no dispara dos veces sobre el mismo lastFiredAt.
+    const cooldownStart = new Date(now.getTime() - cooldownMinutesOf(alert) * 60_000);
+    const claim: Prisma.AlertWhereInput = options.force
+      ? { lastFiredAt: alert.lastFiredAt }
+      : { OR: [{ lastFiredAt: null }, { lastFiredAt: { lte: cooldownStart } }] };
+    const event = await AlertRepository.recordFired(alert.id, claim, {
+      bancaId: alert.bancaId,
+      firedAt: now,
+      value: evaluation.value,
+      threshold: evaluation.threshold,
+      message: evaluation.message,
+      details: (evaluation.details ?? undefined) as Prisma.InputJsonValue | undefined,
+    });
+    if (!event) {
+      logger.info({ layer: "service", action: "ALERT_ALREADY_FIRED", payload: { alertId: alert.id } });
+      return { status: "skipped", reason: "already_fired" };
+    }
+
+    const notification: AlertNotification = {
+      alertId: alert.id,
+      alertName: alert.name,
+      bancaId: alert.bancaId,
+      dimension: alert.dimension,
+      targetId: alert.targetId,
+      conditionType: (alert.condition as unknown as AlertCondition).type,
+      value: evaluation.value,
+      threshold: evaluation.threshold,
+      message: evaluation.message,
+      details: evaluation.details,
+      firedAt: now.toISOString(),
+    };
+
+    const notifiers = (options.notifiers ?? createDefaultNotifiers()).filter((n) => n.supports(alert));
+    const notifications: NotificationResult[] = [];
+    for (const notifier of notifiers) {
+      try {
+        await notifier.notify(alert, notification);
+        notifications.push({ channel: notifier.channel, ok: true });
+      } catch (err: any) {
+        notifications.push({ channel: notifier.channel, ok: false, error: err?.message ?? String(err) });
+        logger.warn({
+          layer: "service",
+          action: "ALERT_NOTIFY_FAILED",
+          payload: { alertId: alert.id, eventId: event.id, channel: notifier.channel, error: err?.message },
+        });
+      }
+    }
+
+    if (notifications.length > 0) {
+      await AlertRepository.updateEventNotifications(event.id, notifications as unknown as Prisma.InputJsonValue);
+    }
+
+    logger.info({
+      layer: "service",
+      action: "ALERT_FIRED",
+      payload: { alertId: alert.id, eventId: event.id, value: evaluation.value, threshold: evaluation.threshold },
+    });
+
+    return { status: "fired", evaluation, eventId: event.id, notifications };
+  },
+
+  /**
+   * Evalúa todas las alertas activas (usado por el job). Los errores de una
+   * alerta se registran y no detienen el resto.
+   */
+  async evaluateAll(options: EvaluateOptions = {}) {
+    const alerts = await AlertRepository.findActive();
+    const notifiers = options.notifiers ?? createDefaultNotifiers();
+    const summary = { evaluated: 0, fired: 0, skipped: 0, failed: 0 };
+
+    for (const alert of alerts) {
+      try {
+        const result = await this.evaluateAlert(alert, { ...options, notifiers });
+        if (result.status === "skipped") summary.skipped++;
+        else {
+          summary.evaluated++;
+          if (result.status === "fired") summary.fired++;
+        }
+      } catch (err: any) {
+        summary.failed++;
+        logger.error({
+          layer: "service",
+          action: "ALERT_EVALUATION_FAILED",
+          payload: { alertId: alert.id, error: err?.message ?? String(err) },
+        });
+      }
+    }
+
+    return summary;
+  },
+
+  /** Carga la alerta y valida que pertenezca a la banca del actor */
+  async getOwned(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    const alert = await AlertRepository.findById(id);
+    if (!alert) throw new AppError("Alerta no encontrada", 404, "NOT_FOUND");
+
+    if (actor.role === Role.BANCA && alert.bancaId !== activeBancaId) {
+      throw new AppError("No tienes permiso para gestionar esta alerta", 403, "FORBIDDEN");
+    }
+    return alert;
+  },
+};
+
+export default AlertService;
@@ -0,0 +1,166 @@
+import { AppError } from "../../../core/errors";
+import ActivityService from "../../../core/activity.service";
+import { CacheService } from "../../../core/cache.service";
+import ApiKeyRepository from "../../../repositories/apiKey.repository";
+import { ActivityType, ApiKey, Prisma, Role } from "../../../generated/prisma/client";
+import { AuthUser } from "../../../core/types";
+import { generateApiKey, hashApiKey } from "../../../utils/crypto";
+import { apiKeyCacheKey } from "../../../utils/apiKeyScopes";
+import { CreateApiKeyInput, ListApiKeysQuery, UpdateApiKeyInput } from "../dto/apiKey.dto";
+
+/** Nunca exponer el hash almacenado. Una key sin banca ni marca global no tiene rol */
+function serializeApiKey(apiKey: ApiKey) {
+  const { key, ...rest } = apiKey;
+  return { ...rest, role: apiKey.bancaId ? Role.BANCA : apiKey.isGlobal ? Role.ADMIN : null };
+}
+
+function buildMeta(total: number, page: number, pageSize: number) {
+  const totalPages = Math.ceil(total / pageSize);
+  return {
+    total,
+    page,
+    pageSize,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+}
+
+export const ApiKeyService = {
+  /**
+   * Emite una nueva API key. La clave en claro solo se devuelve en esta respuesta.
+   * BANCA solo puede emitir keys de su banca activa. ADMIN emite keys de una banca o, pidiéndolo
+   * explícitamente (`global: true`), keys globales con rol ADMIN.
+   */
+  async create(data: CreateApiKeyInput, actor: AuthUser, activeBancaId?: string | null) {
+    const isGlobal = data.global === true;
+    if (isGlobal && actor.role !== Role.ADMIN) {
+      throw new AppError("Solo ADMIN puede emitir API keys globales", 403, "FORBIDDEN");
+    }
+
+    let bancaId: string | null;
+    if (actor.role === Role.BANCA) {
+      if (!activeBancaId) throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+      bancaId = activeBancaId;
+    } else {
+      bancaId = isGlobal ? null : data.bancaId ?? activeBancaId ?? null;
+    }
+    if (!bancaId && !isGlobal) {
+      throw new AppError("Indique la banca de la API key o emítala como global (global: true)", 400, "API_KEY_BANCA_REQUIRED");
+    }
+
+    const plainKey = generateApiKey();
+    const apiKey = await ApiKeyRepository.create({
+      name: data.name,
+      keyHash: hashApiKey(plainKey),
+      scopes: data.scopes,
+      expiresAt: data.expiresAt ?? null,
+      bancaId,
+      isGlobal,
+      userId: actor.id,
+    });
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "API_KEY",
+      targetId: apiKey.id,
+      details: {
+        op: "create",
+        scopes: apiKey.scopes,
+        isGlobal,
+        expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+        description: `API key "${apiKey.name}" emitida con scopes ${apiKey.scopes.join(", ")}`,
+      },
+      layer: "service",
+    });
+
+    return { ...serializeApiKey(apiKey), key: plainKey };
+  },
+
+  async findAll(query: ListApiKeysQuery, actor: AuthUser, activeBancaId?: string | null) {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+
+    const where: Prisma.ApiKeyWhereInput = {};
+    if (actor.role === Role.BANCA) {
+      if (!activeBancaId) throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+      where.bancaId = activeBancaId;
+    } else if (activeBancaId) {
+      where.bancaId = activeBancaId;
+    }
+    if (query.isActive !== undefined) where.isActive = query.isActive;
+
+    const { data, total } = await ApiKeyRepository.list(where, page, pageSize);
+    return { data: data.map(serializeApiKey), meta: buildMeta(total, page, pageSize) };
+  },
+
+  async findById(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    return serializeApiKey(await this.getOwned(id, actor, activeBancaId));
+  },
+
+  async update(id: string, data: UpdateApiKeyInput, actor: AuthUser, activeBancaId?: string | null) {
+    const existing = await this.getOwned(id, actor, activeBancaId);
+    if (!existing.isActive) throw new AppError("La API key está revocada", 409);
+
+    const apiKey = await ApiKeyRepository.update(id, data);
+    await CacheService.del(apiKeyCacheKey(existing.key));
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: apiKey.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "API_KEY",
+      targetId: apiKey.id,
+      details: {
+        op: "update",
+        changes: {
+          ...data,
+          expiresAt: data.expiresAt === undefined ? undefined : data.expiresAt?.toISOString() ?? null,
+        },
+        description: `API key "${apiKey.name}" actualizada`,
+      },
+      layer: "service",
+    });
+
+    return serializeApiKey(apiKey);
+  },
+
+  /** Revoca la key (soft): se conserva el registro para auditoría */
+  async revoke(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    const existing = await this.getOwned(id, actor, activeBancaId);
+    if (!existing.isActive) return serializeApiKey(existing);
+
+    const apiKey = await ApiKeyRepository.revoke(id);
+    await CacheService.del(apiKeyCacheKey(existing.key));
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: apiKey.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "API_KEY",
+      targetId: apiKey.id,
+      details: {
+        op: "revoke",
+        description: `API key "${apiKey.name}" revocada`,
+      },
+      layer: "service",
+    });
+
+    return serializeApiKey(apiKey);
+  },
+
+  /** Carga la key y valida que pertenezca a la banca del actor */
+  async getOwned(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    const apiKey = await ApiKeyRepository.findById(id);
+    if (!apiKey) throw new AppError("API key no encontrada", 404, "NOT_FOUND");
+
+    if (actor.role === Role.BANCA && apiKey.bancaId !== activeBancaId) {
+      throw new AppError("No tienes permiso para gestionar esta API key", 403, "FORBIDDEN");
+    }
+    return apiKey;
+  },
+};
+
+export default ApiKeyService;
@@ -1,6 +1,6 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
-import prisma from '../../../core/prismaClient';
+import prisma, { AppTransactionClient } from '../../../core/prismaClient';
 import { config } from '../../../config';
 import { RegisterDTO, LoginDTO, TokenPair, RequestContext } from '../dto/auth.dto';
 import { AppError } from '../../../core/errors';
@@ -8,7 +8,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { comparePassword, hashPassword } from '../../../utils/crypto';
 import { logger } from '../../../core/logger';
 import ActivityService from '../../../core/activity.service';
-import { ActivityType, Role, Prisma } from '../../../generated/prisma/client';
+import { ActivityType, Role } from '../../../generated/prisma/client';
 import { withConnectionRetry } from '../../../core/withConnectionRetry';
 import { CacheService } from '../../../core/cache.service';
 
@@ -179,7 +179,7 @@ export const AuthService = {
 
     if (user.role === Role.VENDEDOR && bancaId) {
       // VENDEDOR: Transacción con pool check
-      refreshTokenRaw = await withConnectionRetry(() => prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      refreshTokenRaw = await withConnectionRetry(() => prisma.$transaction(async (tx: AppTransactionClient) => {
         // STEP 1: Lock exclusivo en Banca
         const [banca] = await tx.$queryRaw<
           [{ vendorLimit: number | null; maxSessionsPerVendedor: number }]
@@ -36,6 +36,8 @@ export const BancaService = {
           globalMaxPerNumber: data.globalMaxPerNumber ?? 5000,
           salesCutoffMinutes: data.salesCutoffMinutes ?? 1,
           vendorLimit: data.vendorLimit,
+          resultsDualConfirmation: data.resultsDualConfirmation ?? false,
+          evaluationDualControl: data.evaluationDualControl ?? false,
           // Si hay cutoff, crear la regla inicial (esto replica la lógica del repositorio)
           ...(data.salesCutoffMinutes ? {
             restrictionRules: {
@@ -0,0 +1,280 @@
+import prisma from "../../../core/prismaClient";
+import logger from "../../../core/logger";
+import { AppError } from "../../../core/errors";
+import ActivityService from "../../../core/activity.service";
+import { CacheService } from "../../../core/cache.service";
+import { ActivityType, Prisma } from "../../../generated/prisma/client";
+import BancaRepository from "../../../repositories/banca.repository";
+import { CloneBancaInput } from "../dto/banca.dto";
+
+type IdMap = Map<string, string>;
+
+/**
+ * Reemplaza los ids de la plantilla por los de la banca nueva en cualquier JSON
+ * (reglas de comisión por loteriaId, claimDaysByLoteria, rulesJson...), tanto en
+ * valores como en llaves. Los ids que no están en el mapa (loterías globales) se conservan.
+ */
+export function remapJsonIds(value: unknown, ids: IdMap): unknown {
+  if (typeof value === "string") return ids.get(value) ?? value;
+  if (Array.isArray(value)) return value.map((item) => remapJsonIds(item, ids));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [ids.get(key) ?? key, remapJsonIds(item, ids)])
+    );
+  }
+  return value;
+}
+
+function asJson(value: unknown, ids: IdMap) {
+  return value === null || value === undefined
+    ? Prisma.DbNull
+    : (remapJsonIds(value, ids) as Prisma.InputJsonValue);
+}
+
+/** Todo lo que se copia de la banca plantilla */
+async function loadTemplate(templateId: string) {
+  const banca = await prisma.banca.findUnique({ where: { id: templateId } });
+  if (!banca || banca.deletedAt) throw new AppError("Banca plantilla no encontrada", 404, "BANCA_NOT_FOUND");
+
+  const loterias = await prisma.loteria.findMany({
+    where: { bancaId: templateId, deletedAt: null },
+    orderBy: { createdAt: "asc" },
+  });
+  const loteriaIds = loterias.map((l) => l.id);
+
+  const [multipliers, loteriaSettings, restrictionRules, sorteosAutoConfig, settlementConfig] = await Promise.all([
+    // Los multiplicadores extra de un sorteo puntual no forman parte de la configuración
+    prisma.loteriaMultiplier.findMany({
+      where: { OR: [{ bancaId: templateId }, { loteriaId: { in: loteriaIds } }], appliesToSorteoId: null },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.bancaLoteriaSetting.findMany({ where: { bancaId: templateId, deletedAt: null } }),
+    prisma.restrictionRule.findMany({ where: { bancaId: templateId, isActive: true }, orderBy: { createdAt: "asc" } }),
+    prisma.sorteosAutoConfig.findFirst({ where: { bancaId: templateId }, orderBy: { updatedAt: "desc" } }),
+    prisma.accountStatementSettlementConfig.findFirst({ where: { bancaId: templateId }, orderBy: { updatedAt: "desc" } }),
+  ]);
+
+  // Reglas de una ventana/vendedor o de una fecha puntual no aplican a otra banca
+  const clonableRules = restrictionRules.filter(
+    (r) => !r.ventanaId && !r.userId && (!r.appliesToDate || r.isAutoDate)
+  );
+
+  return {
+    banca,
+    loterias,
+    multipliers,
+    loteriaSettings,
+    restrictionRules: clonableRules,
+    skippedRules: restrictionRules.length - clonableRules.length,
+    sorteosAutoConfig,
+    settlementConfig,
+  };
+}
+
+type Template = Awaited<ReturnType<typeof loadTemplate>>;
+
+function summarize(template: Template) {
+  return {
+    loterias: template.loterias.length,
+    multipliers: template.multipliers.length,
+    loteriaSettings: template.loteriaSettings.length,
+    restrictionRules: template.restrictionRules.length,
+    sorteosAutoConfig: template.sorteosAutoConfig ? 1 : 0,
+    settlementConfig: template.settlementConfig ? 1 : 0,
+    commissionPolicy: template.banca.commissionPolicyJson !== null,
+  };
+}
+
+/**
+ * Alta de una banca a partir de otra que sirve de plantilla: configuración de la banca,
+ * loterías propias, multiplicadores, settings por lotería, reglas de restricción de banca,
+ * auto-sorteos, liquidación y políticas (comisión, anulación, pago, números calientes, riesgo) con los ids remapeados.
+ * No copia ventanas, usuarios, sorteos ni movimientos.
+ */
+export const BancaCloneService = {
+  async clone(templateId: string, input: CloneBancaInput, userId: string | null) {
+    const template = await loadTemplate(templateId);
+
+    if (await BancaRepository.findByCode(input.code)) throw new AppError("El código de la banca ya existe", 400);
+    if (await BancaRepository.findByName(input.name)) throw new AppError("El nombre de la banca ya existe", 400);
+
+    const created = summarize(template);
+    const base = {
+      template: { id: template.banca.id, name: template.banca.name },
+      created,
+      skipped: { restrictionRules: template.skippedRules },
+    };
+
+    if (input.dryRun) {
+      return { dryRun: true, banca: { id: null, name: input.name, code: input.code }, ...base, idMap: null };
+    }
+
+    const ids: IdMap = new Map();
+    const banca = await prisma.$transaction(
+      async (tx) => {
+        const src = template.banca;
+        const banca = await tx.banca.create({
+          data: {
+            name: input.name,
+            code: input.code,
+            email: input.email,
+            address: input.address,
+            phone: input.phone,
+            isActive: true,
+            defaultMinBet: src.defaultMinBet,
+            globalMaxPerNumber: src.globalMaxPerNumber,
+            salesCutoffMinutes: src.salesCutoffMinutes,
+            maxSessionsPerVendedor: src.maxSessionsPerVendedor,
+            vendorLimit: src.vendorLimit,
+            resultsDualConfirmation: src.resultsDualConfirmation,
+            evaluationDualControl: src.evaluationDualControl,
+          },
+        });
+        ids.set(src.id, banca.id);
+
+        for (const loteria of template.loterias) {
+          const copy = await tx.loteria.create({
+            data: { name: loteria.name, isActive: loteria.isActive, bancaId: banca.id },
+          });
+          ids.set(loteria.id, copy.id);
+        }
+
+        for (const m of template.multipliers) {
+          const copy = await tx.loteriaMultiplier.create({
+            data: {
+              name: m.name,
+              valueX: m.valueX,
+              kind: m.kind,
+              isActive: m.isActive,
+              appliesToDate: m.appliesToDate,
+              loteriaId: ids.get(m.loteriaId) ?? m.loteriaId,
+              bancaId: banca.id,
+            },
+          });
+          ids.set(m.id, copy.id);
+        }
+
+        // Con todos los ids conocidos se copian los JSON que los referencian
+        for (const loteria of template.loterias) {
+          if (loteria.rulesJson === null) continue;
+          await tx.loteria.update({
+            where: { id: ids.get(loteria.id)! },
+            data: { rulesJson: asJson(loteria.rulesJson, ids) },
+          });
+        }
+        await tx.banca.update({
+          where: { id: banca.id },
+          data: {
+            commissionPolicyJson: asJson(src.commissionPolicyJson, ids),
+            cancellationPolicyJson: asJson(src.cancellationPolicyJson, ids),
+            payoutPolicyJson: asJson(src.payoutPolicyJson, ids),
+            hotNumberPolicyJson: asJson(src.hotNumberPolicyJson, ids),
+            riskPolicyJson: asJson(src.riskPolicyJson, ids),
+          },
+        });
+
+        if (template.loteriaSettings.length > 0) {
+          await tx.bancaLoteriaSetting.createMany({
+            data: template.loteriaSettings.map((s) => ({
+              bancaId: banca.id,
+              loteriaId: ids.get(s.loteriaId) ?? s.loteriaId,
+              baseMultiplierX: s.baseMultiplierX,
+              maxTotalPerSorteo: s.maxTotalPerSorteo,
+              isActive: s.isActive,
+            })),
+          });
+        }
+
+        if (template.restrictionRules.length > 0) {
+          await tx.restrictionRule.createMany({
+            data: template.restrictionRules.map((r) => ({
+              bancaId: banca.id,
+              number: r.number,
+              maxAmount: r.maxAmount,
+              maxTotal: r.maxTotal,
+              appliesToDate: r.appliesToDate,
+              appliesToHour: r.appliesToHour,
+              isActive: r.isActive,
+              salesCutoffMinutes: r.salesCutoffMinutes,
+              loteriaId: r.loteriaId ? ids.get(r.loteriaId) ?? r.loteriaId : null,
+              multiplierId: r.multiplierId ? ids.get(r.multiplierId) ?? r.multiplierId : null,
+              message: r.message,
+              isAutoDate: r.isAutoDate,
+              baseAmount: r.baseAmount,
+              salesPercentage: r.salesPercentage,
+              appliesToVendedor: r.appliesToVendedor,
+            })),
+          });
+        }
+
+        // Configuración de jobs sin el historial de ejecuciones
+        const auto = template.sorteosAutoConfig;
+        if (auto) {
+          await tx.sorteosAutoConfig.create({
+            data: {
+              bancaId: banca.id,
+              autoOpenEnabled: auto.autoOpenEnabled,
+              autoCreateEnabled: auto.autoCreateEnabled,
+              autoCloseEnabled: auto.autoCloseEnabled,
+              openCronSchedule: auto.openCronSchedule,
+              createCronSchedule: auto.createCronSchedule,
+              closeCronSchedule: auto.closeCronSchedule,
+              updatedBy: userId,
+            },
+          });
+        }
+
+        const settlement = template.settlementConfig;
+        if (settlement) {
+          await tx.accountStatementSettlementConfig.create({
+            data: {
+              bancaId: banca.id,
+              enabled: settlement.enabled,
+              settlementAgeDays: settlement.settlementAgeDays,
+              cronSchedule: settlement.cronSchedule,
+              batchSize: settlement.batchSize,
+              updatedBy: userId,
+            },
+          });
+        }
+
+        return banca;
+      },
+      { timeout: 60_000 }
+    );
+
+    const idMap = {
+      loterias: Object.fromEntries(template.loterias.map((l) => [l.id, ids.get(l.id)])),
+      multipliers: Object.fromEntries(template.multipliers.map((m) => [m.id, ids.get(m.id)])),
+    };
+
+    logger.info({
+      layer: "service",
+      action: "BANCA_CLONE",
+      payload: { templateId, bancaId: banca.id, created },
+    });
+
+    await ActivityService.log({
+      userId,
+      bancaId: banca.id,
+      action: ActivityType.BANCA_CREATE,
+      targetType: "BANCA",
+      targetId: banca.id,
+      details: {
+        op: "banca_cloned",
+        templateId,
+        created,
+        skipped: base.skipped,
+        description: `Banca ${banca.name} (${banca.code}) creada a partir de ${template.banca.name}`,
+      },
+      layer: "service",
+    });
+
+    await CacheService.invalidateTag("loterias").catch(() => {});
+    await CacheService.invalidateTag("catalog:multipliers").catch(() => {});
+
+    return { dryRun: false, banca: { id: banca.id, name: banca.name, code: banca.code }, ...base, idMap };
+  },
+};
+
+export default BancaCloneService;
@@ -1,6 +1,7 @@
 import { Prisma } from '../../../generated/prisma/client';
 import prisma from '../../../core/prismaClient';
 import logger from '../../../core/logger';
+import { TenantContext } from '../../../core/tenantContext';
 
 export class CierreRollupService {
   private static activeRollups = new Map<string, Promise<void>>();
@@ -46,6 +47,72 @@ export class CierreRollupService {
     return promise;
   }
 
+  /**
+   * CTE con las jugadas que alimentan ResumenCierreDiario en el rango (`calculated_jugadas`;
+   * solo cuentan las filas con banda). Lo comparte la auditoría de estados de cuenta.
+   */
+  static sourceSql(startDate: string, endDate: string): Prisma.Sql {
+    return Prisma.sql`
+      WITH relevant_tickets AS (
+        SELECT t.id,
+           t."businessDate",
+           t."bancaId",
+           t."vendedorId",
+           t."ventanaId",
+           t."loteriaId",
+           t."sorteoId",
+           t."createdAt"
+          FROM "Ticket" t
+            JOIN "Sorteo" s ON t."sorteoId" = s.id
+         WHERE t."isActive" = true 
+           AND t."deletedAt" IS NULL 
+           AND t.status <> 'CANCELLED'::"TicketStatus" 
+           AND s.status = 'EVALUATED'::"SorteoStatus"
+           AND t."businessDate" >= ${startDate}::date 
+           AND t."businessDate" <= ${endDate}::date
+       ), lm_active AS (
+        SELECT lm."loteriaId",
+           lm."valueX",
+           lm."appliesToDate",
+           lm."appliesToSorteoId"
+          FROM "LoteriaMultiplier" lm
+         WHERE lm.kind = 'NUMERO'::"MultiplierKind" AND lm."isActive" = true
+       ), numero_bandas AS (
+        SELECT j."ticketId",
+           j.number,
+           min(j."finalMultiplierX") AS banda
+          FROM "Jugada" j
+            JOIN relevant_tickets rt ON rt.id = j."ticketId"
+         WHERE j.type = 'NUMERO'::"BetType" AND j."isActive" = true AND j."deletedAt" IS NULL
+         GROUP BY j."ticketId", j.number
+       ), calculated_jugadas AS (
+        SELECT rt."businessDate",
+           rt."bancaId",
+           rt."vendedorId",
+           rt."ventanaId",
+           rt."loteriaId",
+           rt."sorteoId",
+           j.type,
+               CASE
+                   WHEN j.type = 'NUMERO'::"BetType" AND (EXISTS ( SELECT 1
+                      FROM lm_active lm
+                     WHERE lm."loteriaId" = rt."loteriaId" AND lm."valueX" = j."finalMultiplierX" AND (lm."appliesToDate" IS NULL OR rt."createdAt" >= lm."appliesToDate") AND (lm."appliesToSorteoId" IS NULL OR lm."appliesToSorteoId" = rt."sorteoId"))) THEN j."finalMultiplierX"
+                   WHEN j.type = 'REVENTADO'::"BetType" THEN nb.banda
+                   ELSE NULL::double precision
+               END AS banda,
+           j.amount,
+           j.payout,
+           j."listeroCommissionAmount",
+           j.id AS "jugadaId",
+           rt.id AS "ticketId"
+          FROM "Jugada" j
+            JOIN relevant_tickets rt ON j."ticketId" = rt.id
+            LEFT JOIN numero_bandas nb ON nb."ticketId" = j."ticketId" AND nb.number = j.number AND j.type = 'REVENTADO'::"BetType"
+         WHERE j."isActive" = true AND j."deletedAt" IS NULL AND j."isExcluded" = false
+       )
+    `;
+  }
+
   private static async runAggregation(startDate: string, endDate: string): Promise<void> {
     try {
       logger.info({
@@ -54,8 +121,9 @@ export class CierreRollupService {
         payload: { startDate, endDate },
       });
 
-      // Envolvemos las operaciones en una transacción usando el Advisory Lock de Postgres
-      await prisma.$transaction(async (tx) => {
+      // Envolvemos las operaciones en una transacción usando el Advisory Lock de Postgres.
+      // El resumen del día se rehace para todas las bancas, aunque lo dispare una petición de una de ellas.
+      await TenantContext.crossTenant(() => prisma.$transaction(async (tx) => {
         const lockKey = `${startDate}_${endDate}`;
         // pg_advisory_xact_lock bloquea por la duración de la transacción y se libera automáticamente al hacer commit o rollback.
         await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`;
@@ -69,64 +137,8 @@ export class CierreRollupService {
         // 2. Ejecutar el insert desde la agregación
         // Utilizamos un CTE muy similar a la vista materializada original,
         // pero filtrado estrictamente por el rango de fechas.
-        const result = await tx.$executeRaw`
-          WITH relevant_tickets AS (
-            SELECT t.id,
-               t."businessDate",
-               t."bancaId",
-               t."vendedorId",
-               t."ventanaId",
-               t."loteriaId",
-               t."sorteoId",
-               t."createdAt"
-              FROM "Ticket" t
-                JOIN "Sorteo" s ON t."sorteoId" = s.id
-             WHERE t."isActive" = true 
-               AND t."deletedAt" IS NULL 
-               AND t.status <> 'CANCELLED'::"TicketStatus" 
-               AND s.status = 'EVALUATED'::"SorteoStatus"
-               AND t."businessDate" >= ${startDate}::date 
-               AND t."businessDate" <= ${endDate}::date
-           ), lm_active AS (
-            SELECT lm."loteriaId",
-               lm."valueX",
-               lm."appliesToDate",
-               lm."appliesToSorteoId"
-              FROM "LoteriaMultiplier" lm
-             WHERE lm.kind = 'NUMERO'::"MultiplierKind" AND lm."isActive" = true
-           ), numero_bandas AS (
-            SELECT j."ticketId",
-               j.number,
-               min(j."finalMultiplierX") AS banda
-              FROM "Jugada" j
-                JOIN relevant_tickets rt ON rt.id = j."ticketId"
-             WHERE j.type = 'NUMERO'::"BetType" AND j."isActive" = true AND j."deletedAt" IS NULL
-             GROUP BY j."ticketId", j.number
-           ), calculated_jugadas AS (
-            SELECT rt."businessDate",
-               rt."bancaId",
-               rt."vendedorId",
-               rt."ventanaId",
-               rt."loteriaId",
-               rt."sorteoId",
-               j.type,
-                   CASE
-                       WHEN j.type = 'NUMERO'::"BetType" AND (EXISTS ( SELECT 1
-                          FROM lm_active lm
-                         WHERE lm."loteriaId" = rt."loteriaId" AND lm."valueX" = j."finalMultiplierX" AND (lm."appliesToDate" IS NULL OR rt."createdAt" >= lm."appliesToDate") AND (lm."appliesToSorteoId" IS NULL OR lm."appliesToSorteoId" = rt."sorteoId"))) THEN j."finalMultiplierX"
-                       WHEN j.type = 'REVENTADO'::"BetType" THEN nb.banda
-                       ELSE NULL::double precision
-                   END AS banda,
-               j.amount,
-               j.payout,
-               j."listeroCommissionAmount",
-               j.id AS "jugadaId",
-               rt.id AS "ticketId"
-              FROM "Jugada" j
-                JOIN relevant_tickets rt ON j."ticketId" = rt.id
-                LEFT JOIN numero_bandas nb ON nb."ticketId" = j."ticketId" AND nb.number = j.number AND j.type = 'REVENTADO'::"BetType"
-             WHERE j."isActive" = true AND j."deletedAt" IS NULL AND j."isExcluded" = false
-           )
+        const result = await tx.$executeRaw(Prisma.sql`
+          ${CierreRollupService.sourceSql(startDate, endDate)}
            INSERT INTO "ResumenCierreDiario" (
               "id", "bancaId", "businessDate", "vendedorId", "ventanaId", 
               "loteriaId", "sorteoId", "tipo", "banda", "totalVendida", 
@@ -151,7 +163,7 @@ export class CierreRollupService {
              FROM calculated_jugadas
             WHERE banda IS NOT NULL
             GROUP BY "bancaId", "businessDate", "vendedorId", "ventanaId", "loteriaId", "sorteoId", type, banda
-        `;
+        `);
 
         logger.info({
           layer: 'service',
@@ -160,7 +172,7 @@ export class CierreRollupService {
         });
       }, {
         timeout: 30000 // 30 segundos de timeout para asegurar que el lock y el cálculo finalicen bien
-      });
+      }));
 
     } catch (error) {
       logger.error({
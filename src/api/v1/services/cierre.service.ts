@@ -34,6 +34,7 @@ import {
   CierreLoteriaGroup,
   CierreSorteoGroup,
   CierreBandData,
+  CierreCesiones,
   JugadaTipo,
 } from '../types/cierre.types';
 import { CierreMetaExtras, BandsUsedMetadata } from '../types/cierre.types';
@@ -41,6 +42,9 @@ import { createHash } from 'crypto';
 import logger from '../../../core/logger';
 import { crDateService } from '../../../utils/crDateService';
 import { isExclusionListEmpty } from '../../../core/exclusionListCache';
+import LayOffPositionRepository from '../../../repositories/layOffPosition.repository';
+import { layOffNet } from './risk.helpers';
+import { sumMoney } from '../../../utils/decimal';
 
 /** Fila interna para el desglose vendedor × lotería × sorteo × tipo × banda */
 interface SellerSorteoAggregateRow {
@@ -92,14 +96,15 @@ export class CierreService {
       const labelPrefix = `CW-${Math.random().toString(36).substring(7)}`;
 
       console.time(`${labelPrefix}.executeWeeklyAggregation`);
-      // Ejecutar agregación principal y anomalías en paralelo
-      const [rawData, anomalies] = await Promise.all([
+      // Ejecutar agregación principal, anomalías y cesiones en paralelo
+      const [rawData, anomalies, layOffRows] = await Promise.all([
         this.executeWeeklyAggregation(filters).then(d => { 
           console.timeEnd(`${labelPrefix}.executeWeeklyAggregation`);
           queryCount += 1; 
           return d; 
         }),
         computeAnomalies(filters).then(a => { queryCount += 2; return a; }),
+        this.loadLayOffs(filters).then(r => { if (r) queryCount += 1; return r; }),
       ]);
 
       // Transformar datos en estructura jerárquica (Lotería → Sorteo → Tipo → Banda)
@@ -115,6 +120,7 @@ export class CierreService {
       return {
         loterias,
         totals,
+        ...(layOffRows ? { cesiones: this.buildCesiones(layOffRows, totals) } : {}),
         _performance: {
           queryExecutionTime: Date.now() - startTime,
           totalQueries: queryCount,
@@ -128,6 +134,45 @@ export class CierreService {
     });
   }
 
+  /**
+   * Cesiones de sorteos evaluados del periodo; null si el cierre es de una ventana o vendedor
+   */
+  private static async loadLayOffs(filters: CierreFilters) {
+    if (filters.ventanaId || filters.vendedorId) return null;
+    const { startDateCRStr, endDateCRStr } = crDateService.dateRangeUTCToCRStrings(filters.fromDate, filters.toDate);
+    return LayOffPositionRepository.settledByLoteria({
+      fromDateStr: startDateCRStr,
+      toDateStr: endDateCRStr,
+      bancaId: filters.bancaId,
+      loteriaId: filters.loteriaId,
+    });
+  }
+
+  private static buildCesiones(
+    rows: Awaited<ReturnType<typeof LayOffPositionRepository.settledByLoteria>>,
+    totals: CeldaMetrics
+  ): CierreCesiones {
+    const sum = rows.reduce(
+      (acc, row) => ({
+        positions: acc.positions + row.positions,
+        ceded: acc.ceded + row.ceded,
+        commission: acc.commission + row.commission,
+        recovered: acc.recovered + row.recovered,
+      }),
+      { positions: 0, ceded: 0, commission: 0, recovered: 0 }
+    );
+    const neto = layOffNet(sum);
+    return {
+      positions: sum.positions,
+      cedido: sum.ceded,
+      comision: sum.commission,
+      recuperado: sum.recovered,
+      neto,
+      resultadoConCesiones: totals.netoDespuesComision - totals.ganado + neto,
+      byLoteria: rows.map((row) => ({ loteriaId: row.loteriaId, neto: layOffNet(row) })),
+    };
+  }
+
   /**
    * Agrega datos por vendedor
    * Retorna solo datos + performance metrics (controlador agrega meta)
@@ -1167,10 +1212,10 @@ export class CierreService {
         });
       }
       const bandRef = sorteoGroup.bands.get(bandaKey)!;
-      bandRef.totalVendida += metrics.totalVendida;
-      bandRef.ganado += metrics.ganado;
-      bandRef.comisionTotal += metrics.comisionTotal;
-      bandRef.netoDespuesComision += metrics.netoDespuesComision;
+      bandRef.totalVendida = sumMoney([bandRef.totalVendida, metrics.totalVendida]);
+      bandRef.ganado = sumMoney([bandRef.ganado, metrics.ganado]);
+      bandRef.comisionTotal = sumMoney([bandRef.comisionTotal, metrics.comisionTotal]);
+      bandRef.netoDespuesComision = sumMoney([bandRef.netoDespuesComision, metrics.netoDespuesComision]);
       bandRef.ticketsCount += metrics.ticketsCount;
       bandRef.refuerzos = (bandRef.refuerzos || 0) + (metrics.refuerzos || 0);
       if (tipo === BetType.NUMERO) {
@@ -1280,9 +1325,9 @@ export class CierreService {
         map.set(key, { ...row });
       } else {
         const existing = map.get(key)!;
-        existing.totalVendida += row.totalVendida;
-        existing.ganado += row.ganado;
-        existing.comisionTotal += row.comisionTotal;
+        existing.totalVendida = sumMoney([existing.totalVendida, row.totalVendida]);
+        existing.ganado = sumMoney([existing.ganado, row.ganado]);
+        existing.comisionTotal = sumMoney([existing.comisionTotal, row.comisionTotal]);
         existing.ticketsCount += row.ticketsCount;
         existing.jugadasCount += row.jugadasCount;
       }
@@ -1370,10 +1415,10 @@ export class CierreService {
       const bandRef = sorteoBands.get(bandaKey)!;
 
       // Acumular consolidado
-      bandRef.totalVendida += metrics.totalVendida;
-      bandRef.ganado += metrics.ganado;
-      bandRef.comisionTotal += metrics.comisionTotal;
-      bandRef.netoDespuesComision += metrics.netoDespuesComision;
+      bandRef.totalVendida = sumMoney([bandRef.totalVendida, metrics.totalVendida]);
+      bandRef.ganado = sumMoney([bandRef.ganado, metrics.ganado]);
+      bandRef.comisionTotal = sumMoney([bandRef.comisionTotal, metrics.comisionTotal]);
+      bandRef.netoDespuesComision = sumMoney([bandRef.netoDespuesComision, metrics.netoDespuesComision]);
       bandRef.ticketsCount += metrics.ticketsCount;
       bandRef.refuerzos = (bandRef.refuerzos || 0) + (metrics.refuerzos || 0);
 
@@ -1445,10 +1490,10 @@ export class CierreService {
 
     //  VALIDACIÓN CRÍTICA: Verificar que totals = Σ(loterias[].subtotal)
     const sumLoterias = loterias.reduce((acc, l) => {
-      acc.totalVendida += l.subtotal.totalVendida;
-      acc.ganado += l.subtotal.ganado;
-      acc.comisionTotal += l.subtotal.comisionTotal;
-      acc.netoDespuesComision += l.subtotal.netoDespuesComision;
+      acc.totalVendida = sumMoney([acc.totalVendida, l.subtotal.totalVendida]);
+      acc.ganado = sumMoney([acc.ganado, l.subtotal.ganado]);
+      acc.comisionTotal = sumMoney([acc.comisionTotal, l.subtotal.comisionTotal]);
+      acc.netoDespuesComision = sumMoney([acc.netoDespuesComision, l.subtotal.netoDespuesComision]);
       acc.ticketsCount += l.subtotal.ticketsCount;
       acc.refuerzos = (acc.refuerzos || 0) + (l.subtotal.refuerzos || 0);
       return acc;
@@ -1703,11 +1748,11 @@ export class CierreService {
     target: CeldaMetrics,
     source: CeldaMetrics
   ): void {
-    target.totalVendida += source.totalVendida;
-    target.ganado += source.ganado;
-    target.comisionTotal += source.comisionTotal;
-    target.netoDespuesComision += source.netoDespuesComision;
-    target.refuerzos += source.refuerzos;
+    target.totalVendida = sumMoney([target.totalVendida, source.totalVendida]);
+    target.ganado = sumMoney([target.ganado, source.ganado]);
+    target.comisionTotal = sumMoney([target.comisionTotal, source.comisionTotal]);
+    target.netoDespuesComision = sumMoney([target.netoDespuesComision, source.netoDespuesComision]);
+    target.refuerzos = sumMoney([target.refuerzos, source.refuerzos]);
     target.ticketsCount += source.ticketsCount;
     target.jugadasCount += source.jugadasCount;
   }
@@ -2,6 +2,7 @@
 import { CommissionExportPayload } from '../types/commissions-export.types';
 import { ResilienceService } from '../../../core/resilience.service';
 import { getCRLocalComponents } from '../../../utils/businessDate';
+import { roundMoney } from "../../../utils/decimal";
 
 /**
  * Servicio para exportar comisiones a CSV
@@ -287,11 +288,12 @@ export class CommissionsExportCsvService {
    * Formatea número como moneda (sin símbolo)
    */
   private static formatCurrency(value: number): string {
+    const amount = roundMoney(value);
     // Asegurar que los números negativos muestren el símbolo -
-    if (value < 0) {
-      return `-${Math.abs(value).toFixed(2)}`;
+    if (amount < 0) {
+      return `-${Math.abs(amount).toFixed(2)}`;
     }
-    return value.toFixed(2);
+    return amount.toFixed(2);
   }
 
   /**
@@ -4,6 +4,7 @@ import path from 'path';
 import { CommissionExportPayload } from '../types/commissions-export.types';
 import { ResilienceService } from '../../../core/resilience.service';
 import { getCRLocalComponents } from '../../../utils/businessDate';
+import { roundMoney } from "../../../utils/decimal";
 
 /**
  * Servicio para exportar comisiones a PDF
@@ -779,10 +780,11 @@ export class CommissionsExportPdfService {
    * Formatea número como moneda
    */
   private static formatCurrency(value: number): string {
-    if (value < 0) {
-      return `-${Math.abs(value).toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`;
+    const amount = roundMoney(value);
+    if (amount < 0) {
+      return `-${Math.abs(amount).toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',')}`;
     }
-    return value.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+    return amount.toFixed(2).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
   }
 
   /**
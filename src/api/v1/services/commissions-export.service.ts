@@ -12,11 +12,13 @@ import {
   CommissionPolicyRule,
 } from '../types/commissions-export.types';
 import prisma from '../../../core/prismaClient';
+import { rawBancaFilter } from '../../../core/tenantIsolation';
 import { resolveDateRange } from '../../../utils/dateRange';
 import { Prisma } from '../../../generated/prisma/client';
 import logger from '../../../core/logger';
 import { isExclusionListEmpty } from '../../../core/exclusionListCache';
 import { tz } from '../../../utils/timezone';
+import { sumMoney } from "../../../utils/decimal";
 
 /**
  * Servicio orquestador para exportación de comisiones
@@ -89,13 +91,13 @@ export class CommissionsExportService {
 
       // 6. Calcular totales
       const totals = {
-        totalSales: summary.reduce((acc, item) => acc + item.totalSales, 0),
+        totalSales: sumMoney(summary.map((item) => item.totalSales)),
         totalTickets: summary.reduce((acc, item) => acc + item.totalTickets, 0),
-        totalCommission: summary.reduce((acc, item) => acc + item.totalCommission, 0),
-        totalPayouts: summary.reduce((acc, item) => acc + item.totalPayouts, 0),
-        commissionListero: summary.reduce((acc, item) => acc + (item.commissionListero || 0), 0),
-        commissionVendedor: summary.reduce((acc, item) => acc + (item.commissionVendedor || 0), 0),
-        net: summary.reduce((acc, item) => acc + (item.net || 0), 0),
+        totalCommission: sumMoney(summary.map((item) => item.totalCommission)),
+        totalPayouts: sumMoney(summary.map((item) => item.totalPayouts)),
+        commissionListero: sumMoney(summary.map((item) => item.commissionListero)),
+        commissionVendedor: sumMoney(summary.map((item) => item.commissionVendedor)),
+        net: sumMoney(summary.map((item) => item.net)),
       };
 
       // 7. Construir payload completo
@@ -366,6 +368,7 @@ export class CommissionsExportService {
       WHERE s."scheduledAt"::date >= ${fromDateStr}::date
         AND s."scheduledAt"::date <= ${toDateStr}::date
         ${filters.ventanaId ? Prisma.sql`AND u."ventanaId" = CAST(${filters.ventanaId} AS uuid)` : Prisma.empty}
+        ${rawBancaFilter(Prisma.sql`v."bancaId"`)}
     `;
 
     for (const row of exclusionesActivas) {
@@ -0,0 +1,375 @@
+import prisma, { AppTransactionClient } from "../../../core/prismaClient";
+import logger from "../../../core/logger";
+import { AppError } from "../../../core/errors";
+import ActivityService from "../../../core/activity.service";
+import { CacheService } from "../../../core/cache.service";
+import { AuthUser } from "../../../core/types";
+import { ActivityType, Prisma, Role, TicketStatus } from "../../../generated/prisma/client";
+import CreditLimitRepository from "../../../repositories/creditLimit.repository";
+import { crDateService } from "../../../utils/crDateService";
+import { formatIsoLocal } from "../../../utils/datetime";
+import { sumMoney } from "../../../utils/decimal";
+import { getMonthlyRemainingBalance } from "./accounts/accounts.service";
+import {
+  CreditOverrideInput,
+  CreditStatusQuery,
+  ListCreditLimitsQuery,
+  UpsertCreditLimitInput,
+} from "../dto/creditLimit.dto";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Una ampliación es temporal: a lo sumo una semana
+const MAX_OVERRIDE_DAYS = 7;
+const LIMITS_TTL_SECONDS = 60;
+
+type CreditScope = { bancaId: string; ventanaId: string; vendedorId: string | null };
+type CreditSale = { bancaId: string; ventanaId: string; vendedorId: string; amount: number };
+type LimitValues = {
+  softLimit: number | null;
+  hardLimit: number | null;
+  overrideLimit: number | null;
+  overrideUntil: Date | null;
+};
+type StoredLimit = NonNullable<Awaited<ReturnType<typeof CreditLimitRepository.findById>>>;
+
+export type CreditWarning = {
+  code: "CREDIT_LIMIT_WARNING";
+  scope: "VENDEDOR" | "VENTANA";
+  limit: number;
+  exposure: number;
+  projected: number;
+  message: string;
+};
+
+/** Límite duro vigente: la ampliación de la banca mientras no haya vencido */
+function effectiveHardLimit(limit: LimitValues, now: Date): number | null {
+  if (limit.overrideLimit !== null && limit.overrideUntil && limit.overrideUntil > now) {
+    return limit.overrideLimit;
+  }
+  return limit.hardLimit;
+}
+
+function toView(limit: StoredLimit, now: Date = new Date()) {
+  const overrideActive = !!limit.overrideUntil && limit.overrideUntil > now && limit.overrideLimit !== null;
+  return {
+    ...limit,
+    overrideUntil: limit.overrideUntil ? formatIsoLocal(limit.overrideUntil) : null,
+    overrideActive,
+    effectiveHardLimit: effectiveHardLimit(limit, now),
+  };
+}
+
+function scopeLabel(scope: CreditScope) {
+  return scope.vendedorId ? "vendedor" : "ventana";
+}
+
+/**
+ * Límites de crédito por vendedor y por ventana, validados al vender contra el saldo a hoy
+ * (AccountStatement.remainingBalance: positivo = le debe a la banca) más las ventas del día
+ * aún sin evaluar, que los estados de cuenta todavía no incluyen.
+ */
+export const CreditLimitService = {
+  /**
+   * Exposición actual: saldo a hoy + ventas netas de hoy en sorteos sin evaluar
+   * (comisión del vendedor o del listero según el alcance).
+   */
+  async exposure(scope: CreditScope, client: AppTransactionClient | typeof prisma = prisma) {
+    const today = crDateService.getTodayCRString();
+    const [statementBalance, pending] = await Promise.all([
+      getMonthlyRemainingBalance(
+        today.slice(0, 7),
+        scope.vendedorId ? "vendedor" : "ventana",
+        scope.ventanaId,
+        scope.vendedorId ?? undefined,
+        scope.bancaId
+      ),
+      client.ticket.aggregate({
+        where: {
+          ...(scope.vendedorId ? { vendedorId: scope.vendedorId } : { ventanaId: scope.ventanaId }),
+          businessDate: new Date(`${today}T00:00:00Z`),
+          status: TicketStatus.ACTIVE,
+          isActive: true,
+          deletedAt: null,
+        },
+        _sum: { totalAmount: true, totalCommission: true, totalListeroCommission: true },
+      }),
+    ]);
+
+    const commission = scope.vendedorId ? pending._sum.totalCommission : pending._sum.totalListeroCommission;
+    const pendingSales = sumMoney([pending._sum.totalAmount, -(commission ?? 0)]);
+    return { statementBalance, pendingSales, exposure: sumMoney([statementBalance, pendingSales]) };
+  },
+
+  /** Límites de la ventana y del vendedor que aplican a una venta (ventana primero) */
+  async limitsForSale(sale: CreditSale) {
+    const limits = await CacheService.wrap(
+      `credit-limits:${sale.ventanaId}:${sale.vendedorId}`,
+      () => CreditLimitRepository.findForSale(sale.ventanaId, sale.vendedorId),
+      LIMITS_TTL_SECONDS,
+      [`credit-limits:${sale.ventanaId}`]
+    );
+    // Desde caché las fechas llegan serializadas
+    return limits
+      .map((raw) => ({ ...raw, overrideUntil: raw.overrideUntil ? new Date(raw.overrideUntil) : null }))
+      .sort((a, b) => Number(!!a.vendedorId) - Number(!!b.vendedorId));
+  },
+
+  /**
+   * Validación previa a la venta (TicketService.create). Supera el límite duro → 409
+   * CREDIT_LIMIT_EXCEEDED; supera el de advertencia → la venta sigue con un warning.
+   * Se compara con el monto bruto de la venta nueva (su comisión aún no se conoce).
+   */
+  async checkSale(
+    sale: CreditSale,
+    now: Date = new Date(),
+    client: AppTransactionClient | typeof prisma = prisma
+  ): Promise<CreditWarning[]> {
+    const limits = await this.limitsForSale(sale);
+    const warnings: CreditWarning[] = [];
+
+    for (const limit of limits) {
+      const hardLimit = effectiveHardLimit(limit, now);
+      if (hardLimit === null && limit.softLimit === null) continue;
+
+      const scope: CreditScope = { bancaId: sale.bancaId, ventanaId: sale.ventanaId, vendedorId: limit.vendedorId };
+      const { exposure } = await this.exposure(scope, client);
+      const projected = sumMoney([exposure, sale.amount]);
+      const scopeCode = limit.vendedorId ? "VENDEDOR" : "VENTANA";
+
+      if (hardLimit !== null && projected > hardLimit) {
+        logger.warn({
+          layer: "service",
+          action: "CREDIT_LIMIT_BLOCK",
+          payload: { limitId: limit.id, ...scope, hardLimit, exposure, amount: sale.amount },
+        });
+        throw new AppError(
+          `Venta bloqueada: el saldo del ${scopeLabel(scope)} (₡${exposure.toLocaleString()}) más esta venta supera su límite de crédito de ₡${hardLimit.toLocaleString()}`,
+          409,
+          { code: "CREDIT_LIMIT_EXCEEDED", scope: scopeCode, limit: hardLimit, exposure, projected }
+        );
+      }
+
+      if (limit.softLimit !== null && projected > limit.softLimit) {
+        warnings.push({
+          code: "CREDIT_LIMIT_WARNING",
+          scope: scopeCode,
+          limit: limit.softLimit,
+          exposure,
+          projected,
+          message: `El saldo del ${scopeLabel(scope)} supera el límite de advertencia de ₡${limit.softLimit.toLocaleString()}`,
+        });
+      }
+    }
+
+    return warnings;
+  },
+
+  /**
+   * Repite checkSale dentro de la transacción que crea el ticket (TicketRepository.createOptimized),
+   * con un advisory lock por cada ventana/vendedor que tiene límite: dos ventas simultáneas no
+   * pasan ambas con la exposición previa a la otra. Los locks se toman en orden fijo (ventana
+   * antes que vendedor) y se liberan al terminar la transacción.
+   */
+  async checkSaleInTransaction(tx: AppTransactionClient, sale: CreditSale, now: Date = new Date()) {
+    const limits = await this.limitsForSale(sale);
+    if (limits.length === 0) return [];
+
+    for (const limit of limits) {
+      const key = limit.vendedorId ? `credit-limit:vendedor:${limit.vendedorId}` : `credit-limit:ventana:${sale.ventanaId}`;
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${key}))`;
+    }
+    return this.checkSale(sale, now, tx);
+  },
+
+  async list(query: ListCreditLimitsQuery, actor: AuthUser, activeBancaId?: string | null) {
+    const where: Prisma.CreditLimitWhereInput = {};
+    if (query.vendedorId) where.vendedorId = query.vendedorId;
+    if (query.ventanaId) where.ventanaId = query.ventanaId;
+
+    if (actor.role === Role.VENTANA) {
+      if (!actor.ventanaId) throw new AppError("El usuario no tiene ventana asignada", 403, "FORBIDDEN");
+      where.ventanaId = actor.ventanaId;
+    } else if (actor.role === Role.BANCA) {
+      if (!activeBancaId) throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+      where.bancaId = activeBancaId;
+    } else if (activeBancaId) {
+      where.bancaId = activeBancaId;
+    }
+
+    const now = new Date();
+    return (await CreditLimitRepository.list(where)).map((limit) => toView(limit, now));
+  },
+
+  /** Estado de crédito: límites vigentes y exposición actual del vendedor o de la ventana */
+  async status(query: CreditStatusQuery, actor: AuthUser, activeBancaId?: string | null) {
+    let { ventanaId, vendedorId } = query;
+    if (actor.role === Role.VENDEDOR) {
+      vendedorId = actor.id;
+      ventanaId = actor.ventanaId ?? undefined;
+    } else if (actor.role === Role.VENTANA) {
+      ventanaId = actor.ventanaId ?? undefined;
+    }
+    if (!ventanaId) throw new AppError("ventanaId es requerido", 400);
+
+    const scope = await this.resolveScope(ventanaId, vendedorId ?? null, actor, activeBancaId);
+    const [limit, exposure] = await Promise.all([
+      CreditLimitRepository.findByScope(scope.ventanaId, scope.vendedorId),
+      this.exposure(scope),
+    ]);
+    const now = new Date();
+    const hardLimit = limit ? effectiveHardLimit(limit, now) : null;
+
+    return {
+      ...scope,
+      ...exposure,
+      softLimit: limit?.softLimit ?? null,
+      hardLimit,
+      available: hardLimit !== null ? hardLimit - exposure.exposure : null,
+      overrideUntil: limit?.overrideUntil && limit.overrideUntil > now ? formatIsoLocal(limit.overrideUntil) : null,
+    };
+  },
+
+  /** Crea o reemplaza el límite del vendedor / de la ventana; conserva la ampliación vigente */
+  async upsert(data: UpsertCreditLimitInput, actor: AuthUser, activeBancaId?: string | null) {
+    const scope = await this.resolveScope(data.ventanaId, data.vendedorId ?? null, actor, activeBancaId);
+    const existing = await CreditLimitRepository.findByScope(scope.ventanaId, scope.vendedorId);
+
+    const limit = existing
+      ? await CreditLimitRepository.update(existing.id, {
+          softLimit: data.softLimit,
+          hardLimit: data.hardLimit,
+          updatedBy: actor.id,
+        })
+      : await CreditLimitRepository.create({
+          ...scope,
+          softLimit: data.softLimit,
+          hardLimit: data.hardLimit,
+          updatedBy: actor.id,
+        });
+
+    await this.afterChange(limit, actor, "credit_limit_set", {
+      previous: existing ? { softLimit: existing.softLimit, hardLimit: existing.hardLimit } : null,
+      softLimit: limit.softLimit,
+      hardLimit: limit.hardLimit,
+      description: `Límite de crédito del ${scopeLabel(limit)} ${this.targetName(limit)}: advertencia ${limit.softLimit ?? "—"}, bloqueo ${limit.hardLimit ?? "—"}`,
+    });
+    return toView(limit);
+  },
+
+  async remove(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    const limit = await this.getOwned(id, actor, activeBancaId);
+    await CreditLimitRepository.delete(id);
+    await this.afterChange(limit, actor, "credit_limit_removed", {
+      softLimit: limit.softLimit,
+      hardLimit: limit.hardLimit,
+      description: `Límite de crédito del ${scopeLabel(limit)} ${this.targetName(limit)} eliminado`,
+    });
+    return { id, deleted: true };
+  },
+
+  /** Ampliación temporal del límite duro (solo BANCA / ADMIN) */
+  async setOverride(id: string, data: CreditOverrideInput, actor: AuthUser, activeBancaId?: string | null) {
+    const limit = await this.getOwned(id, actor, activeBancaId);
+    if (limit.hardLimit === null) {
+      throw new AppError("El límite no tiene bloqueo que ampliar", 409);
+    }
+    if (data.limit <= limit.hardLimit) {
+      throw new AppError("La ampliación debe superar el límite de bloqueo actual", 400);
+    }
+
+    const now = new Date();
+    const until = new Date(data.until);
+    if (until <= now) throw new AppError("La ampliación debe vencer en una fecha futura", 400);
+    if (until.getTime() - now.getTime() > MAX_OVERRIDE_DAYS * DAY_MS) {
+      throw new AppError(`La ampliación no puede durar más de ${MAX_OVERRIDE_DAYS} días`, 400);
+    }
+
+    const updated = await CreditLimitRepository.update(id, {
+      overrideLimit: data.limit,
+      overrideUntil: until,
+      overrideReason: data.reason,
+      overrideBy: actor.id,
+    });
+    await this.afterChange(updated, actor, "credit_limit_override", {
+      hardLimit: limit.hardLimit,
+      overrideLimit: data.limit,
+      overrideUntil: until.toISOString(),
+      reason: data.reason,
+      description: `Límite de crédito del ${scopeLabel(limit)} ${this.targetName(limit)} ampliado a ₡${data.limit.toLocaleString()} hasta ${formatIsoLocal(until)}`,
+    });
+    return toView(updated, now);
+  },
+
+  async clearOverride(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    const limit = await this.getOwned(id, actor, activeBancaId);
+    if (limit.overrideLimit === null) throw new AppError("El límite no tiene ampliación", 409);
+
+    const updated = await CreditLimitRepository.update(id, {
+      overrideLimit: null,
+      overrideUntil: null,
+      overrideReason: null,
+      overrideBy: null,
+    });
+    await this.afterChange(updated, actor, "credit_limit_override_cleared", {
+      overrideLimit: limit.overrideLimit,
+      overrideUntil: limit.overrideUntil?.toISOString() ?? null,
+      description: `Ampliación del límite de crédito del ${scopeLabel(limit)} ${this.targetName(limit)} retirada`,
+    });
+    return toView(updated);
+  },
+
+  /** Valida que la ventana (y el vendedor, si aplica) sean visibles para el actor */
+  async resolveScope(
+    ventanaId: string,
+    vendedorId: string | null,
+    actor: AuthUser,
+    activeBancaId?: string | null
+  ): Promise<CreditScope> {
+    const ventana = await prisma.ventana.findUnique({ where: { id: ventanaId }, select: { id: true, bancaId: true } });
+    const visible =
+      !!ventana &&
+      (actor.role === Role.ADMIN
+        ? !activeBancaId || ventana.bancaId === activeBancaId
+        : actor.role === Role.BANCA
+          ? ventana.bancaId === activeBancaId
+          : actor.ventanaId === ventana.id);
+    if (!visible) throw new AppError("Ventana no encontrada", 404, "VENTANA_NOT_FOUND");
+
+    if (vendedorId) {
+      const vendedor = await prisma.user.findUnique({ where: { id: vendedorId }, select: { role: true, ventanaId: true } });
+      if (!vendedor || vendedor.role !== Role.VENDEDOR || vendedor.ventanaId !== ventana!.id) {
+        throw new AppError("Vendedor no encontrado en la ventana", 404, "VENDEDOR_NOT_FOUND");
+      }
+    }
+
+    return { bancaId: ventana!.bancaId, ventanaId: ventana!.id, vendedorId };
+  },
+
+  async getOwned(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    const limit = await CreditLimitRepository.findById(id);
+    if (!limit || (actor.role !== Role.ADMIN && limit.bancaId !== activeBancaId)) {
+      throw new AppError("Límite de crédito no encontrado", 404, "CREDIT_LIMIT_NOT_FOUND");
+    }
+    return limit;
+  },
+
+  targetName(limit: StoredLimit) {
+    return limit.vendedor?.name ?? limit.ventana.name;
+  },
+
+  /** Las ventas toman el cambio de inmediato y queda en ActivityLog */
+  async afterChange(limit: StoredLimit, actor: AuthUser, op: string, details: Record<string, unknown>) {
+    await CacheService.invalidateTag(`credit-limits:${limit.ventanaId}`);
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: limit.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: limit.vendedorId ? "USER" : "VENTANA",
+      targetId: limit.vendedorId ?? limit.ventanaId,
+      details: { op, limitId: limit.id, ...details },
+      layer: "service",
+    });
+  },
+};
+
+export default CreditLimitService;
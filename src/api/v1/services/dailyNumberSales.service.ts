@@ -1,11 +1,14 @@
 import prisma from "../../../core/prismaClient";
 import { Prisma } from "../../../generated/prisma/client";
 import logger from "../../../core/logger";
+import { TenantContext } from "../../../core/tenantContext";
+import { resolvedTicketBancaSql, ticketTenantJoinsSql } from "../../../core/tenantResolution";
 
 export class DailyNumberSalesService {
   /**
    * Agrega las ventas por número de un sorteo y las almacena de forma atómica e idempotente.
    * Ejecutado completamente en la base de datos para no consumir memoria Node.js.
+   * La banca de cada fila se resuelve desde la ventana del tiquete (ver tenantResolution).
    */
   static async aggregateSorteoSales(sorteoId: string): Promise<void> {
     logger.info({
@@ -14,8 +17,9 @@ export class DailyNumberSalesService {
       payload: { sorteoId },
     });
 
-    // Usar una transacción para asegurar atomicidad con timeout ampliado de 30 segundos
-    await prisma.$transaction(async (tx) => {
+    // Usar una transacción para asegurar atomicidad con timeout ampliado de 30 segundos.
+    // Se rehace el sorteo completo (todas sus bancas), aunque lo dispare una petición de una de ellas.
+    await TenantContext.crossTenant(() => prisma.$transaction(async (tx) => {
       // 1. Limpiar agregaciones anteriores del sorteo para evitar duplicidad
       await tx.$executeRaw`
         DELETE FROM "DailyNumberSales"
@@ -31,7 +35,7 @@ export class DailyNumberSalesService {
         SELECT
           gen_random_uuid() as "id",
           t."businessDate",
-          COALESCE(t."bancaId", 'da3545ac-fb10-4674-a345-6b66c9f89146'::uuid) as "bancaId",
+          ${resolvedTicketBancaSql} as "bancaId",
           t."ventanaId",
           t."vendedorId",
           t."loteriaId",
@@ -43,16 +47,18 @@ export class DailyNumberSalesService {
           COUNT(j.id)::integer as "jugadasCount"
         FROM "Jugada" j
         INNER JOIN "Ticket" t ON j."ticketId" = t.id
+        ${ticketTenantJoinsSql}
         WHERE t."sorteoId" = ${sorteoId}::uuid
           AND t."deletedAt" IS NULL
           AND t."isActive" = true
           AND t.status IN ('ACTIVE', 'EVALUATED', 'PAID', 'PAGADO')
           AND j."deletedAt" IS NULL
-        GROUP BY t."businessDate", t."bancaId", t."ventanaId", t."vendedorId", t."loteriaId", t."sorteoId", j.number, j.type
+          AND ${resolvedTicketBancaSql} IS NOT NULL
+        GROUP BY t."businessDate", ${resolvedTicketBancaSql}, t."ventanaId", t."vendedorId", t."loteriaId", t."sorteoId", j.number, j.type
       `;
     }, {
       timeout: 30000
-    });
+    }));
 
     logger.info({
       layer: "service",
@@ -1,4 +1,7 @@
 import * as ExcelJS from 'exceljs';
+import { Role } from '../../../generated/prisma/client';
+import DashboardService from './dashboard.service';
+import { roundMoney, sumMoney } from "../../../utils/decimal";
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const pdfMake = require('pdfmake/build/pdfmake');
 // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -86,7 +89,97 @@ export interface DashboardExportDataV2 {
   };
 }
 
+export type DashboardExportFilters = Parameters<typeof DashboardService.getFullDashboard>[0] & {
+  tz?: string;
+};
+
 export class DashboardExportService {
+  /**
+   * Arma los datos de exportación (mismas fuentes que GET /admin/dashboard/export).
+   * Compartido por el endpoint de export y los reportes programados.
+   */
+  static async buildExportData(
+    filters: DashboardExportFilters,
+    role?: Role
+  ): Promise<DashboardExportDataV2> {
+    const { tz: exportTz, ...dashboardFilters } = filters;
+
+    const [fullDashboard, summaryResult, entitiesResult] = await Promise.all([
+      DashboardService.getFullDashboard(dashboardFilters, role),
+      DashboardService.calculateDashboardSummary({
+        fromDate: filters.fromDate,
+        toDate: filters.toDate,
+        ventanaId: filters.ventanaId,
+        bancaId: filters.bancaId,
+      }),
+      DashboardService.calculateDashboardEntities({
+        fromDate: filters.fromDate,
+        toDate: filters.toDate,
+        ventanaId: filters.ventanaId,
+        bancaId: filters.bancaId,
+      }),
+    ]);
+
+    const dashboardData = {
+      meta: {
+        fromAt: filters.fromDate.toISOString(),
+        toAt: filters.toDate.toISOString(),
+        tz: exportTz || 'America/Costa_Rica',
+        generatedAt: new Date().toISOString(),
+      },
+      summary: {
+        period: {
+          totalSales: summaryResult.kpis.totalSales,
+          totalPayouts: summaryResult.kpis.totalPayouts,
+          commissionVentana: summaryResult.kpis.listeroCommission,
+          commissionUser: summaryResult.kpis.vendedorCommission,
+          totalNet: summaryResult.kpis.totalNet,
+          margin: summaryResult.kpis.margin,
+          totalTickets: summaryResult.kpis.ticketCount,
+          winningTickets: fullDashboard.summary.winningTickets || 0,
+          winRate: fullDashboard.summary.winRate || 0,
+        },
+        monthToDate: {
+          totalSales: summaryResult.monthToDate.totalSales,
+          totalPayouts: summaryResult.monthToDate.totalPayouts,
+          commissionVentana: summaryResult.monthToDate.listeroCommission,
+          commissionUser: summaryResult.monthToDate.vendedorCommission,
+          totalNet: summaryResult.monthToDate.totalNet,
+          margin: summaryResult.monthToDate.margin,
+        }
+      },
+      balances: {
+        byVentana: summaryResult.byVentana.map((v: any) => ({
+          ventanaName: v.ventanaName,
+          isActive: v.isActive,
+          sales: v.totalSales,
+          payouts: v.totalPayouts,
+          commissionVentana: v.listeroCommission,
+          commissionUser: v.vendedorCommission,
+          net: v.net,
+          margin: v.margin,
+          monthAccumulatedBalance: v.remainingBalance,
+        })),
+        byVendedor: entitiesResult.vendedores.map((v: any) => ({
+          vendedorName: v.vendedorName,
+          ventanaName: v.ventanaName,
+          isActive: v.isActive,
+          sales: v.totalSales,
+          payouts: v.totalPayouts,
+          commissionVentana: v.listeroCommission,
+          commissionUser: v.vendedorCommission,
+          net: v.net,
+          margin: v.margin,
+          monthAccumulatedBalance: v.remainingBalance,
+        }))
+      },
+      timeSeries: fullDashboard.timeSeries,
+      exposure: fullDashboard.exposure
+    };
+
+    return dashboardData as DashboardExportDataV2;
+  }
+
   /**
    * Genera un workbook de Excel con múltiples hojas
    */
@@ -230,12 +323,12 @@ export class DashboardExportService {
       'TOTAL',
       ...(entityLabel === 'Vendedor' ? [''] : []),
       '',
-      this.formatCurrency(items.reduce((sum, i) => sum + i.sales, 0)),
-      this.formatCurrency(items.reduce((sum, i) => sum + i.payouts, 0)),
-      this.formatCurrency(items.reduce((sum, i) => sum + i.commissionVentana, 0)),
-      this.formatCurrency(items.reduce((sum, i) => sum + i.commissionUser, 0)),
-      this.formatCurrency(items.reduce((sum, i) => sum + i.net, 0)),
-      this.formatCurrency(items.reduce((sum, i) => sum + i.monthAccumulatedBalance, 0)),
+      this.formatCurrency(sumMoney(items.map((i) => i.sales))),
+      this.formatCurrency(sumMoney(items.map((i) => i.payouts))),
+      this.formatCurrency(sumMoney(items.map((i) => i.commissionVentana))),
+      this.formatCurrency(sumMoney(items.map((i) => i.commissionUser))),
+      this.formatCurrency(sumMoney(items.map((i) => i.net))),
+      this.formatCurrency(sumMoney(items.map((i) => i.monthAccumulatedBalance))),
       ''
     ];
     
@@ -273,8 +366,8 @@ export class DashboardExportService {
       // Total
       const totalRow = sheet.addRow([
         'TOTAL',
-        this.formatCurrency(timeSeries.reduce((sum, item) => sum + item.sales, 0)),
-        this.formatCurrency(timeSeries.reduce((sum, item) => sum + item.commissions, 0)),
+        this.formatCurrency(sumMoney(timeSeries.map((item) => item.sales))),
+        this.formatCurrency(sumMoney(timeSeries.map((item) => item.commissions))),
         timeSeries.reduce((sum, item) => sum + item.tickets, 0),
       ]);
       this.styleTotalRow(totalRow);
@@ -480,7 +573,7 @@ export class DashboardExportService {
     }
 
     const formatCurrency = (value: number): string => {
-      return `₡${value.toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+      return `₡${roundMoney(value).toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
     };
 
     const content: any[] = [];
@@ -737,7 +830,7 @@ export class DashboardExportService {
    * Utilidades de formato y estilo
    */
   private static formatCurrency(value: number): string {
-    return `₡${value.toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    return `₡${roundMoney(value).toLocaleString('es-CR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
   }
 
   private static formatDateTime(value: string): string {
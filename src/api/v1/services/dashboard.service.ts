@@ -12,6 +12,9 @@ import { tz } from "../../../utils/timezone";
 import { PerformanceMonitor, measureAsync } from "../../../utils/performanceMonitor";
 import { isExclusionListEmpty } from "../../../core/exclusionListCache";
 import { CacheService } from "../../../core/cache.service";
+import LayOffPositionRepository from "../../../repositories/layOffPosition.repository";
+import { layOffNet } from "./risk.helpers";
+import { percentOfMoney } from "../../../utils/decimal";
 
 /**
  * Dashboard Service
@@ -25,6 +28,7 @@ interface DashboardFilters {
   vendedorId?: string; //  NUEVO: Filtro global por vendedor
   bancaId?: string; // Para filtrar por banca activa (ADMIN multibanca)
   loteriaId?: string; // Filtro por lotería
+  sorteoId?: string; // Filtro por sorteo (riesgo por número)
   betType?: 'NUMERO' | 'REVENTADO'; // Filtro por tipo de apuesta
   status?: string; //  NUEVO: Filtro por estado del sorteo (OPEN, EVALUATED, CLOSED)
   scope?: 'all' | 'byVentana';
@@ -48,6 +52,14 @@ interface GananciaResult {
   margin: number;
   commissionUserTotal: number;
   commissionVentanaTotal: number;
+  // Cesiones (lay-off) de sorteos evaluados: ya incluidas en totalNet
+  layOff: {
+    positions: number;
+    ceded: number;
+    commission: number;
+    recovered: number;
+    net: number;
+  };
   byVentana: Array<{
     ventanaId: string;
     ventanaName: string;
@@ -74,6 +86,7 @@ interface GananciaResult {
     commissionUser: number;
     commissionVentana: number;
     payout: number;
+    layOffNet: number;
     net: number;
     margin: number;
     tickets: number;
@@ -332,6 +345,10 @@ function buildTicketBaseFilters(
     conditions.push(Prisma.sql`${Prisma.raw(`${alias}."vendedorId"`)} = CAST(${filters.vendedorId} AS uuid)`);
   }
 
+  if (filters.sorteoId) {
+    conditions.push(Prisma.sql`${Prisma.raw(`${alias}."sorteoId"`)} = CAST(${filters.sorteoId} AS uuid)`);
+  }
+
   let combined = conditions[0];
   for (let i = 1; i < conditions.length; i++) {
     combined = Prisma.sql`${combined} AND ${conditions[i]}`;
@@ -544,7 +561,7 @@ async function computeVentanaCommissionFromPolicies(filters: DashboardFilters) {
           betType: jugada.type as BetType,
           finalMultiplierX: jugada.finalMultiplierX ?? undefined,
         });
-        ventanaAmount = parseFloat(((jugada.amount * resolution.percent) / 100).toFixed(2));
+        ventanaAmount = percentOfMoney(jugada.amount, resolution.percent);
       } catch (err) {
         const fallback = commissionResolver.resolveVendedorCommission(
           {
@@ -754,7 +771,23 @@ export const DashboardService = {
     //  CRÍTICO: Ganancia Global SIEMPRE usa commissionVentanaTotal (comisión del listero)
     // Según especificaciones del cliente: la Ganancia Global de la Banca se calcula
     // restando las comisiones de los listeros (ventanas), NO las comisiones de usuarios
-    const totalNet = totalSales - totalPayouts - commissionVentanaTotal;
+    // Las cesiones son de la banca: no se reparten por ventana ni vendedor
+    const layOffRows = filters.ventanaId || filters.vendedorId
+      ? []
+      : await LayOffPositionRepository.settledByLoteria({ fromDateStr, toDateStr, bancaId: filters.bancaId });
+    const layOffByLoteria = new Map(layOffRows.map((row) => [row.loteriaId, layOffNet(row)]));
+    const layOffTotals = layOffRows.reduce(
+      (acc, row) => ({
+        positions: acc.positions + row.positions,
+        ceded: acc.ceded + row.ceded,
+        commission: acc.commission + row.commission,
+        recovered: acc.recovered + row.recovered,
+      }),
+      { positions: 0, ceded: 0, commission: 0, recovered: 0 }
+    );
+    const layOff = { ...layOffTotals, net: layOffNet(layOffTotals) };
+
+    const totalNet = totalSales - totalPayouts - commissionVentanaTotal + layOff.net;
     const margin = totalSales > 0 ? (totalNet / totalSales) * 100 : 0;
 
     return {
@@ -765,6 +798,7 @@ export const DashboardService = {
       margin: parseFloat(margin.toFixed(2)),
       commissionUserTotal,
       commissionVentanaTotal,
+      layOff,
       byVentana: byVentanaResult.map((row) => {
         const sales = Number(row.total_sales) || 0;
         const payout = Number(row.total_payouts) || 0;
@@ -814,7 +848,8 @@ export const DashboardService = {
         const commissionVentana = Number(row.commission_ventana) || 0;
         const commissions = commissionUser + commissionVentana;
         // Calcular ganancia neta: Banca viendo loterías siempre resta solo commissionVentana
-        const net = sales - payout - commissionVentana;
+        const loteriaLayOffNet = layOffByLoteria.get(row.loteria_id) ?? 0;
+        const net = sales - payout - commissionVentana + loteriaLayOffNet;
         const loteriaMargin = sales > 0 ? (net / sales) * 100 : 0;
 
         return {
@@ -826,6 +861,7 @@ export const DashboardService = {
           commissionUser,
           commissionVentana,
           payout,
+          layOffNet: loteriaLayOffNet,
           net,
           margin: parseFloat(loteriaMargin.toFixed(2)),
           tickets,
@@ -2234,6 +2270,65 @@ export const DashboardService = {
     };
   },
 
+  /**
+   * Pasivo por número de los sorteos OPEN (mismo universo que calculateExposure):
+   * venta, premio NUMERO (amount × finalMultiplierX), monto REVENTADO (se multiplica por el
+   * extra que salga) y comisiones, para el módulo de riesgo. Con `sorteoId` es un solo sorteo.
+   */
+  async calculateNumberLiability(filters: DashboardFilters) {
+    const { fromDateStr, toDateStr } = getBusinessDateRangeStrings(filters);
+    const skipExclusion = await isExclusionListEmpty();
+    const baseFilters = buildTicketBaseFilters("t", filters, fromDateStr, toDateStr, skipExclusion, true);
+
+    const rows = await prisma.$queryRaw<
+      Array<{
+        number: string;
+        total_sales: number;
+        numero_payout: number;
+        reventado_sales: number;
+        commission_user: number;
+        commission_ventana: number;
+        max_multiplier_x: number | null;
+        ticket_count: bigint;
+      }>
+    >(
+      Prisma.sql`
+        WITH tickets_in_range AS (
+          SELECT t.id
+          FROM "Ticket" t
+          INNER JOIN "Sorteo" s ON s.id = t."sorteoId"
+          WHERE ${baseFilters} AND s.status = 'OPEN'
+        )
+        SELECT
+          j.number,
+          COALESCE(SUM(j.amount), 0) as total_sales,
+          COALESCE(SUM(CASE WHEN j.type = 'NUMERO' THEN j.amount * j."finalMultiplierX" ELSE 0 END), 0) as numero_payout,
+          COALESCE(SUM(CASE WHEN j.type = 'REVENTADO' THEN j.amount ELSE 0 END), 0) as reventado_sales,
+          COALESCE(SUM(j."commissionAmount"), 0) as commission_user,
+          COALESCE(SUM(j."listeroCommissionAmount"), 0) as commission_ventana,
+          MAX(CASE WHEN j.type = 'NUMERO' THEN j."finalMultiplierX" END) as max_multiplier_x,
+          COUNT(DISTINCT j."ticketId") as ticket_count
+        FROM "Jugada" j
+        JOIN tickets_in_range tir ON tir.id = j."ticketId"
+        WHERE j."deletedAt" IS NULL
+          AND j."isExcluded" = false
+        GROUP BY j.number
+        ORDER BY numero_payout DESC
+      `
+    );
+
+    return rows.map(row => ({
+      number: row.number,
+      sales: Number(row.total_sales) || 0,
+      numeroPayout: Number(row.numero_payout) || 0,
+      reventadoSales: Number(row.reventado_sales) || 0,
+      commissionUser: Number(row.commission_user) || 0,
+      commissionVentana: Number(row.commission_ventana) || 0,
+      maxMultiplierX: row.max_multiplier_x !== null ? Number(row.max_multiplier_x) : null,
+      ticketCount: Number(row.ticket_count) || 0,
+    }));
+  },
+
   /**
    * Ranking por vendedor: ventas, comisiones, tickets
    */
@@ -0,0 +1,378 @@
+import { Writable } from "stream";
+import { once } from "events";
+import logger from "../../../core/logger";
+import { AppError } from "../../../core/errors";
+import ActivityService from "../../../core/activity.service";
+import ExportJobRepository from "../../../repositories/exportJob.repository";
+import { ActivityType, ExportFormat, ExportJob, JobStatus, Prisma, Role } from "../../../generated/prisma/client";
+import { AuthUser } from "../../../core/types";
+import { TenantContext, TenantScope } from "../../../core/tenantContext";
+import { config } from "../../../config";
+import { tz } from "../../../utils/timezone";
+import { getExportStorage, parseFileUrl } from "../../../services/exports/storage";
+import { resolveExportSource } from "../../../services/exports/sources";
+import { createRowWriter, EXPORT_FILE_EXTENSIONS, EXPORT_MIME_TYPES } from "../../../services/exports/writers";
+import { ExportJobDefinition, ListExportJobsQuery } from "../dto/exportJob.dto";
+
+/** Filas escritas entre cada actualización de progreso / chequeo de cancelación */
+const BATCH_SIZE = 500;
+/** Trabajos que toma el worker por ronda */
+const MAX_JOBS_PER_DRAIN = 5;
+/** Un trabajo en PROCESSING sin avanzar por más de esto se da por perdido */
+const STALE_PROCESSING_MINUTES = 30;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let draining = false;
+
+/**
+ * Descarta un archivo parcial: cierra el stream (sin propagar errores de
+ * escrituras pendientes) y recién entonces lo elimina del almacenamiento.
+ */
+async function discardPartial(output: Writable | null, key: string): Promise<void> {
+  if (output && !output.closed) {
+    output.on("error", () => undefined);
+    const closed = once(output, "close").catch(() => undefined);
+    output.destroy();
+    await closed;
+  }
+  await getExportStorage().delete(key).catch(() => undefined);
+}
+
+/**
+ * Contexto de banca de un trabajo: la banca guardada al encolarlo y el rol/ventana de quien
+ * lo pidió, como lo habría armado bancaContextMiddleware. Sin banca solo un ADMIN ve todo.
+ */
+function jobScope(job: ExportJob & { user: { role: Role; ventanaId: string | null } }): TenantScope {
+  return {
+    bancaId: job.bancaId,
+    role: job.user.role,
+    ventanaId: job.user.ventanaId,
+    userId: job.userId,
+  };
+}
+
+function buildMeta(total: number, page: number, pageSize: number) {
+  const totalPages = Math.ceil(total / pageSize);
+  return {
+    total,
+    page,
+    pageSize,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+}
+
+function expiresAt(job: ExportJob): Date | null {
+  return job.status === JobStatus.COMPLETED && job.completedAt
+    ? new Date(job.completedAt.getTime() + config.exportJobs.ttlHours * HOUR_MS)
+    : null;
+}
+
+function downloadName(job: ExportJob): string {
+  const definition = job.filters as unknown as ExportJobDefinition;
+  const prefix = resolveExportSource(definition).filePrefix;
+  return `${prefix}-${tz.toDateStr(job.createdAt)}.${EXPORT_FILE_EXTENSIONS[job.format]}`;
+}
+
+/**
+ * Vista pública: la ubicación interna del archivo (fileUrl) no se expone.
+ */
+function toView(job: ExportJob) {
+  const { fileUrl, ...rest } = job;
+  const expires = expiresAt(job);
+  return {
+    ...rest,
+    source: (job.filters as unknown as ExportJobDefinition)?.source ?? null,
+    expiresAt: expires,
+    downloadUrl: job.status === JobStatus.COMPLETED && fileUrl ? `/api/v1/export-jobs/${job.id}/download` : null,
+    expired: job.status === JobStatus.COMPLETED && !fileUrl,
+  };
+}
+
+export type ExportJobView = ReturnType<typeof toView>;
+
+export const ExportJobService = {
+  /**
+   * Registra un trabajo de exportación. Con idempotencyKey, repetir la misma
+   * solicitud devuelve el trabajo existente en vez de crear otro.
+   */
+  async enqueue(
+    definition: ExportJobDefinition,
+    format: ExportFormat,
+    actor: AuthUser,
+    options: { bancaId?: string | null; idempotencyKey?: string | null; requestId?: string } = {}
+  ): Promise<{ job: ExportJobView; reused: boolean }> {
+    // La clave es única global: se aísla por usuario
+    const idempotencyKey = options.idempotencyKey ? `${actor.id}:${options.idempotencyKey}` : null;
+    if (idempotencyKey) {
+      const existing = await ExportJobRepository.findByIdempotencyKey(idempotencyKey);
+      if (existing) return { job: toView(existing), reused: true };
+    }
+
+    let job: ExportJob;
+    try {
+      job = await ExportJobRepository.create({
+        userId: actor.id,
+        bancaId: options.bancaId ?? null,
+        format,
+        filters: definition as unknown as Prisma.InputJsonValue,
+        idempotencyKey,
+      });
+    } catch (err) {
+      // Dos solicitudes simultáneas con la misma clave
+      if (idempotencyKey && err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+        const existing = await ExportJobRepository.findByIdempotencyKey(idempotencyKey);
+        if (existing) return { job: toView(existing), reused: true };
+      }
+      throw err;
+    }
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: job.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "EXPORT_JOB",
+      targetId: job.id,
+      details: {
+        op: "enqueue",
+        source: definition.source,
+        format,
+        description: `Exportación ${definition.source} (${format}) en cola`,
+      },
+      layer: "service",
+      requestId: options.requestId,
+    });
+
+    // No esperar al siguiente tick del worker. El drenado procesa trabajos de cualquier banca:
+    // corre fuera del contexto de esta petición y cada trabajo con el de quien lo pidió
+    setImmediate(() =>
+      TenantContext.detached(() => {
+        ExportJobService.processPending().catch((error) =>
+          logger.error({ layer: "service", action: "EXPORT_JOB_DRAIN_FAILED", payload: { error: error?.message } })
+        );
+      })
+    );
+
+    return { job: toView(job), reused: false };
+  },
+
+  async findAll(query: ListExportJobsQuery, actor: AuthUser) {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+
+    const where: Prisma.ExportJobWhereInput = { userId: actor.id };
+    if (query.status) where.status = query.status;
+
+    const { data, total } = await ExportJobRepository.list(where, page, pageSize);
+    return { data: data.map(toView), meta: buildMeta(total, page, pageSize) };
+  },
+
+  async findById(id: string, actor: AuthUser) {
+    return toView(await this.getOwned(id, actor));
+  },
+
+  async cancel(id: string, actor: AuthUser) {
+    const job = await this.getOwned(id, actor);
+    if (job.status !== JobStatus.PENDING && job.status !== JobStatus.PROCESSING) {
+      throw new AppError(`No se puede cancelar una exportación en estado ${job.status}`, 409, "INVALID_STATE");
+    }
+
+    const cancelled = await ExportJobRepository.cancel(id);
+    if (!cancelled) {
+      throw new AppError("La exportación terminó antes de poder cancelarla", 409, "INVALID_STATE");
+    }
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: job.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "EXPORT_JOB",
+      targetId: job.id,
+      details: { op: "cancel", previousStatus: job.status, description: "Exportación cancelada" },
+      layer: "service",
+    });
+
+    return toView((await ExportJobRepository.findById(id))!);
+  },
+
+  /**
+   * Abre el archivo generado para descarga.
+   */
+  async openDownload(id: string, actor: AuthUser) {
+    const job = await this.getOwned(id, actor);
+    if (job.status !== JobStatus.COMPLETED) {
+      throw new AppError(`La exportación aún no está lista (estado ${job.status})`, 409, "NOT_READY");
+    }
+    if (!job.fileUrl) {
+      throw new AppError("El archivo de esta exportación expiró", 410, "EXPIRED");
+    }
+
+    const storage = getExportStorage();
+    const { key } = parseFileUrl(job.fileUrl);
+    const size = await storage.size(key);
+    if (size === null) {
+      throw new AppError("El archivo de esta exportación ya no está disponible", 410, "EXPIRED");
+    }
+
+    return {
+      stream: storage.createReadStream(key),
+      filename: downloadName(job),
+      mimeType: EXPORT_MIME_TYPES[job.format],
+      size,
+    };
+  },
+
+  /**
+   * Genera el archivo de un trabajo ya reclamado (PROCESSING).
+   * El origen se carga por páginas y cada una se escribe antes de pedir la
+   * siguiente. Tras cada página y cada lote se reporta progreso y, si el
+   * trabajo fue cancelado, se descarta el archivo parcial.
+   */
+  async process(job: ExportJob): Promise<JobStatus> {
+    const storage = getExportStorage();
+    const extension = EXPORT_FILE_EXTENSIONS[job.format];
+    const key = `${tz.toDateStr(job.createdAt).slice(0, 7)}/${job.id}.${extension}`;
+    const startedAt = Date.now();
+    let output: Writable | null = null;
+    let written = 0;
+
+    try {
+      const source = resolveExportSource(job.filters as unknown as ExportJobDefinition);
+      const pages = source.pages();
+
+      output = storage.createWriteStream(key);
+      const writer = createRowWriter(job.format, output, source.columns, source.sheetName);
+
+      // Progreso = páginas completas + fracción escrita de la página en curso
+      const reportProgress = async (page: number, fraction: number) => {
+        const progress = Math.floor((100 * (page + fraction)) / pages.length);
+        if (await ExportJobRepository.updateProgress(job.id, { progress: Math.min(progress, 99), totalRecords: written })) {
+          return true;
+        }
+        await discardPartial(output, key);
+        logger.info({ layer: "service", action: "EXPORT_JOB_CANCELLED", payload: { jobId: job.id, written } });
+        return false;
+      };
+
+      for (let page = 0; page < pages.length; page++) {
+        const rows = await pages[page]();
+        for (let i = 0; i < rows.length; i++) {
+          await writer.write(rows[i]);
+          written++;
+          if ((i + 1) % BATCH_SIZE === 0 && i + 1 < rows.length && !(await reportProgress(page, (i + 1) / rows.length))) {
+            return JobStatus.CANCELLED;
+          }
+        }
+        if (!(await reportProgress(page + 1, 0))) {
+          return JobStatus.CANCELLED;
+        }
+      }
+      await writer.end();
+
+      const completed = await ExportJobRepository.complete(job.id, {
+        fileUrl: `${storage.name}:${key}`,
+        totalRecords: written,
+      });
+      if (!completed) {
+        // Cancelado mientras se cerraba el archivo
+        await discardPartial(null, key);
+        return JobStatus.CANCELLED;
+      }
+
+      logger.info({
+        layer: "service",
+        action: "EXPORT_JOB_COMPLETED",
+        payload: { jobId: job.id, format: job.format, totalRecords: written, durationMs: Date.now() - startedAt },
+      });
+      return JobStatus.COMPLETED;
+    } catch (error: any) {
+      await discardPartial(output, key);
+      await ExportJobRepository.fail(job.id, error?.message ?? String(error));
+      logger.error({
+        layer: "service",
+        action: "EXPORT_JOB_FAILED",
+        payload: { jobId: job.id, error: error?.message ?? String(error) },
+      });
+      return JobStatus.FAILED;
+    }
+  },
+
+  /**
+   * Toma y procesa trabajos pendientes. Un solo drenado a la vez por proceso;
+   * entre instancias, el reclamo PENDING → PROCESSING evita duplicados.
+   */
+  async processPending() {
+    if (draining) return { processed: 0, skipped: true };
+    draining = true;
+
+    try {
+      const stale = await ExportJobRepository.failStale(
+        new Date(Date.now() - STALE_PROCESSING_MINUTES * 60 * 1000),
+        "La exportación se interrumpió (proceso reiniciado o sin progreso)"
+      );
+      if (stale > 0) {
+        logger.warn({ layer: "service", action: "EXPORT_JOB_STALE_FAILED", payload: { count: stale } });
+      }
+
+      let processed = 0;
+      for (;;) {
+        const pending = await ExportJobRepository.findPending(MAX_JOBS_PER_DRAIN);
+        if (pending.length === 0) break;
+
+        for (const job of pending) {
+          if (!(await ExportJobRepository.claim(job.id))) continue;
+          await TenantContext.run(jobScope(job), () => this.process(job));
+          processed++;
+        }
+      }
+      return { processed, skipped: false };
+    } finally {
+      draining = false;
+    }
+  },
+
+  /**
+   * Elimina los archivos con más de EXPORT_JOBS_TTL_HOURS. El trabajo se
+   * conserva como historial, sin fileUrl.
+   */
+  async cleanupExpired(now: Date = new Date()) {
+    const before = new Date(now.getTime() - config.exportJobs.ttlHours * HOUR_MS);
+    const storage = getExportStorage();
+    let removed = 0;
+
+    for (;;) {
+      const expired = await ExportJobRepository.findExpiredFiles(before);
+      if (expired.length === 0) break;
+
+      for (const job of expired) {
+        try {
+          await storage.delete(parseFileUrl(job.fileUrl!).key);
+        } catch (error: any) {
+          logger.warn({
+            layer: "service",
+            action: "EXPORT_JOB_FILE_DELETE_FAILED",
+            payload: { jobId: job.id, error: error?.message },
+          });
+        }
+        await ExportJobRepository.clearFile(job.id);
+        removed++;
+      }
+    }
+    return { removed };
+  },
+
+  /** Solo el dueño (o un ADMIN) puede consultar, descargar o cancelar */
+  async getOwned(id: string, actor: AuthUser): Promise<ExportJob> {
+    const job = await ExportJobRepository.findById(id);
+    if (!job) throw new AppError("Exportación no encontrada", 404, "NOT_FOUND");
+
+    if (job.userId !== actor.id && actor.role !== Role.ADMIN) {
+      throw new AppError("No tienes permiso para acceder a esta exportación", 403, "FORBIDDEN");
+    }
+    return job;
+  },
+};
+
+export default ExportJobService;
@@ -0,0 +1,420 @@
+import prisma from "../../../core/prismaClient";
+import { AppError } from "../../../core/errors";
+import ActivityService from "../../../core/activity.service";
+import GoalRepository from "../../../repositories/goal.repository";
+import { ActivityType, Goal, Prisma, Role } from "../../../generated/prisma/client";
+import { AuthUser } from "../../../core/types";
+import { tz } from "../../../utils/timezone";
+import { computeGoalPace, resolveGoalEndDate } from "../../../utils/goalPace";
+import DashboardService from "./dashboard.service";
+import { VendedoresReportService } from "./reports/vendedoresReport.service";
+import {
+  CreateGoalInput,
+  GoalDimension,
+  GoalMetric,
+  GoalPeriod,
+  ListGoalsQuery,
+  UpdateGoalInput,
+} from "../dto/goal.dto";
+
+/** Máximo de metas evaluadas en el bloque del dashboard */
+const DASHBOARD_GOALS_LIMIT = 20;
+
+function buildMeta(total: number, page: number, pageSize: number) {
+  const totalPages = Math.ceil(total / pageSize);
+  return {
+    total,
+    page,
+    pageSize,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+}
+
+/** Fechas del rango como días CR (startDate/endDate se guardan como instantes) */
+function toView(goal: Goal) {
+  return {
+    ...goal,
+    startDate: tz.toDateStr(goal.startDate),
+    endDate: tz.toDateStr(goal.endDate),
+  };
+}
+
+/**
+ * Banca dueña del objetivo. Loterías globales (sin banca) devuelven null.
+ */
+async function resolveTargetBanca(dimension: GoalDimension, targetId: string): Promise<string | null> {
+  let targetBancaId: string | null | undefined;
+  switch (dimension) {
+    case "banca":
+      targetBancaId = (await prisma.banca.findUnique({ where: { id: targetId }, select: { id: true } }))?.id;
+      break;
+    case "ventana":
+      targetBancaId = (await prisma.ventana.findUnique({ where: { id: targetId }, select: { bancaId: true } }))?.bancaId;
+      break;
+    case "vendedor": {
+      const user = await prisma.user.findUnique({
+        where: { id: targetId },
+        select: { role: true, ventana: { select: { bancaId: true } } },
+      });
+      if (user && user.role !== Role.VENDEDOR) throw new AppError("El targetId no corresponde a un vendedor", 400);
+      targetBancaId = user?.ventana?.bancaId;
+      break;
+    }
+    case "loteria": {
+      const loteria = await prisma.loteria.findUnique({ where: { id: targetId }, select: { id: true, bancaId: true } });
+      if (!loteria) throw new AppError("El objetivo de la meta no existe", 404, "NOT_FOUND");
+      return loteria.bancaId;
+    }
+  }
+
+  if (targetBancaId === undefined) throw new AppError("El objetivo de la meta no existe", 404, "NOT_FOUND");
+  return targetBancaId;
+}
+
+/**
+ * Resuelve targetId/bancaId de la meta y valida que el objetivo pertenezca a la banca activa.
+ */
+async function resolveScope(
+  dimension: GoalDimension,
+  targetId: string | null | undefined,
+  activeBancaId: string | null
+): Promise<{ targetId: string; bancaId: string | null }> {
+  const effectiveTargetId = targetId ?? (dimension === "banca" ? activeBancaId : null);
+  if (!effectiveTargetId) throw new AppError("targetId es requerido para esta dimensión", 400);
+
+  const targetBancaId = await resolveTargetBanca(dimension, effectiveTargetId);
+  if (activeBancaId && targetBancaId && targetBancaId !== activeBancaId) {
+    throw new AppError("El objetivo de la meta no pertenece a tu banca", 403, "FORBIDDEN");
+  }
+  return { targetId: effectiveTargetId, bancaId: activeBancaId ?? targetBancaId };
+}
+
+/**
+ * Metas visibles según rol: ADMIN/BANCA las de su banca; VENTANA las de su
+ * ventana y sus vendedores; VENDEDOR solo las propias.
+ */
+async function visibilityWhere(actor: AuthUser, activeBancaId?: string | null): Promise<Prisma.GoalWhereInput> {
+  switch (actor.role) {
+    case Role.ADMIN:
+      return activeBancaId ? { bancaId: activeBancaId } : {};
+    case Role.BANCA:
+      if (!activeBancaId) throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+      return { bancaId: activeBancaId };
+    case Role.VENTANA: {
+      if (!actor.ventanaId) throw new AppError("El usuario VENTANA no tiene una ventana asignada", 400, "NO_VENTANA");
+      const vendedores = await prisma.user.findMany({
+        where: { ventanaId: actor.ventanaId, role: Role.VENDEDOR },
+        select: { id: true },
+      });
+      return {
+        OR: [
+          { dimension: "ventana", targetId: actor.ventanaId },
+          { dimension: "vendedor", targetId: { in: vendedores.map((v) => v.id) } },
+        ],
+      };
+    }
+    default:
+      return { dimension: "vendedor", targetId: actor.id };
+  }
+}
+
+function pickMetric(metric: string, values: { sales: number; commission: number; profit: number }): number {
+  return values[metric as GoalMetric] ?? 0;
+}
+
+/**
+ * Valor real de la métrica en el rango de la meta, con las mismas
+ * agregaciones que el dashboard y el reporte de vendedores.
+ * commission = comisión del listero (banca/ventana/lotería) o del vendedor.
+ */
+async function measureGoal(goal: Goal): Promise<number> {
+  const fromDate = goal.startDate;
+  const toDate = goal.endDate;
+
+  switch (goal.dimension) {
+    case "banca": {
+      const ganancia = await DashboardService.calculateGanancia({
+        fromDate,
+        toDate,
+        bancaId: goal.targetId ?? goal.bancaId ?? undefined,
+      });
+      return pickMetric(goal.metric, {
+        sales: ganancia.totalSales,
+        commission: ganancia.commissionVentanaTotal,
+        profit: ganancia.totalNet,
+      });
+    }
+    case "ventana": {
+      const ganancia = await DashboardService.calculateGanancia({ fromDate, toDate, ventanaId: goal.targetId! });
+      const row = ganancia.byVentana.find((v) => v.ventanaId === goal.targetId);
+      return row ? pickMetric(goal.metric, { sales: row.sales, commission: row.commissionVentana, profit: row.net }) : 0;
+    }
+    case "loteria": {
+      const ganancia = await DashboardService.calculateGanancia({
+        fromDate,
+        toDate,
+        bancaId: goal.bancaId ?? undefined,
+      });
+      const row = ganancia.byLoteria.find((l) => l.loteriaId === goal.targetId);
+      return row ? pickMetric(goal.metric, { sales: row.sales, commission: row.commissionVentana, profit: row.net }) : 0;
+    }
+    case "vendedor": {
+      if (goal.metric === "profit") {
+        // Ganancia neta desde la perspectiva del vendedor (ventas - premios - su comisión)
+        const summary = await DashboardService.getSummary({ fromDate, toDate, vendedorId: goal.targetId! }, Role.VENDEDOR);
+        return summary.net;
+      }
+      const vendedor = await prisma.user.findUnique({ where: { id: goal.targetId! }, select: { ventanaId: true } });
+      if (!vendedor?.ventanaId) return 0;
+      const chart = await VendedoresReportService.getCommissionsChart({
+        ventanaId: vendedor.ventanaId,
+        date: "range",
+        fromDate: tz.toDateStr(fromDate),
+        toDate: tz.toDateStr(toDate),
+      });
+      const row = chart.data.chartData.find((v: any) => v.vendedorId === goal.targetId);
+      return row ? pickMetric(goal.metric, { sales: row.ventasTotal, commission: row.commissionsTotal, profit: 0 }) : 0;
+    }
+    default:
+      throw new AppError(`Dimensión "${goal.dimension}" no soportada`, 400);
+  }
+}
+
+/** Nombres legibles de los objetivos (una consulta por dimensión) */
+async function resolveTargetNames(goals: Goal[]): Promise<Map<string, string>> {
+  const idsBy = (dimension: string) =>
+    [...new Set(goals.filter((g) => g.dimension === dimension && g.targetId).map((g) => g.targetId!))];
+
+  const [bancas, ventanas, vendedores, loterias] = await Promise.all([
+    prisma.banca.findMany({ where: { id: { in: idsBy("banca") } }, select: { id: true, name: true } }),
+    prisma.ventana.findMany({ where: { id: { in: idsBy("ventana") } }, select: { id: true, name: true } }),
+    prisma.user.findMany({ where: { id: { in: idsBy("vendedor") } }, select: { id: true, name: true } }),
+    prisma.loteria.findMany({ where: { id: { in: idsBy("loteria") } }, select: { id: true, name: true } }),
+  ]);
+  return new Map([...bancas, ...ventanas, ...vendedores, ...loterias].map((e) => [e.id, e.name]));
+}
+
+export const GoalService = {
+  async create(data: CreateGoalInput, actor: AuthUser, activeBancaId?: string | null) {
+    if (actor.role === Role.BANCA && !activeBancaId) {
+      throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+    }
+    const scope = await resolveScope(data.dimension, data.targetId, activeBancaId ?? null);
+    const endDate = resolveGoalEndDate(data.period, data.startDate, data.endDate);
+
+    const goal = await GoalRepository.create({
+      name: data.name,
+      dimension: data.dimension,
+      targetId: scope.targetId,
+      bancaId: scope.bancaId,
+      metric: data.metric,
+      targetValue: data.targetValue,
+      period: data.period,
+      startDate: tz.startOfDay(data.startDate),
+      endDate: tz.endOfDay(endDate),
+      isActive: data.isActive ?? true,
+    });
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: goal.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "GOAL",
+      targetId: goal.id,
+      details: {
+        op: "create",
+        dimension: goal.dimension,
+        metric: goal.metric,
+        targetValue: goal.targetValue,
+        description: `Meta "${goal.name}" creada (${goal.metric} ${goal.targetValue} del ${data.startDate} al ${endDate})`,
+      },
+      layer: "service",
+    });
+
+    return toView(goal);
+  },
+
+  async findAll(query: ListGoalsQuery, actor: AuthUser, activeBancaId?: string | null) {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+
+    const where: Prisma.GoalWhereInput = { AND: [await visibilityWhere(actor, activeBancaId)] };
+    if (query.isActive !== undefined) where.isActive = query.isActive;
+    if (query.dimension) where.dimension = query.dimension;
+    if (query.metric) where.metric = query.metric;
+    if (query.activeOn) {
+      where.startDate = { lte: tz.endOfDay(query.activeOn) };
+      where.endDate = { gte: tz.startOfDay(query.activeOn) };
+    }
+
+    const { data, total } = await GoalRepository.list(where, page, pageSize);
+    return { data: data.map(toView), meta: buildMeta(total, page, pageSize) };
+  },
+
+  async findById(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    return toView(await this.getVisible(id, actor, activeBancaId));
+  },
+
+  async update(id: string, data: UpdateGoalInput, actor: AuthUser, activeBancaId?: string | null) {
+    const existing = await this.getOwned(id, actor, activeBancaId);
+
+    let scope: { targetId: string; bancaId: string | null } | undefined;
+    if (data.dimension !== undefined || data.targetId !== undefined) {
+      scope = await resolveScope(
+        (data.dimension ?? existing.dimension) as GoalDimension,
+        data.targetId !== undefined ? data.targetId : existing.targetId,
+        activeBancaId ?? existing.bancaId
+      );
+    }
+
+    let dates: { startDate: Date; endDate: Date } | undefined;
+    if (data.period !== undefined || data.startDate !== undefined || data.endDate !== undefined) {
+      const period = (data.period ?? existing.period) as GoalPeriod;
+      if (period !== "custom" && data.endDate) {
+        throw new AppError("endDate solo aplica a periodo custom", 400);
+      }
+      const startDate = data.startDate ?? tz.toDateStr(existing.startDate);
+      const endDate = resolveGoalEndDate(
+        period,
+        startDate,
+        data.endDate ?? (period === "custom" ? tz.toDateStr(existing.endDate) : undefined)
+      );
+      if (endDate < startDate) throw new AppError("endDate debe ser mayor o igual a startDate", 400);
+      dates = { startDate: tz.startOfDay(startDate), endDate: tz.endOfDay(endDate) };
+    }
+
+    const goal = await GoalRepository.update(id, {
+      name: data.name,
+      dimension: data.dimension,
+      targetId: scope?.targetId,
+      bancaId: scope?.bancaId,
+      metric: data.metric,
+      targetValue: data.targetValue,
+      period: data.period,
+      startDate: dates?.startDate,
+      endDate: dates?.endDate,
+      isActive: data.isActive,
+    });
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: goal.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "GOAL",
+      targetId: goal.id,
+      details: {
+        op: "update",
+        changes: data,
+        description: `Meta "${goal.name}" actualizada`,
+      },
+      layer: "service",
+    });
+
+    return toView(goal);
+  },
+
+  async remove(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    const existing = await this.getOwned(id, actor, activeBancaId);
+    await GoalRepository.delete(id);
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: existing.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "GOAL",
+      targetId: existing.id,
+      details: {
+        op: "delete",
+        description: `Meta "${existing.name}" eliminada`,
+      },
+      layer: "service",
+    });
+
+    return { id: existing.id };
+  },
+
+  /**
+   * Avance real vs. meta con proyección al ritmo actual.
+   */
+  async progress(id: string, actor: AuthUser, activeBancaId?: string | null, now: Date = new Date()) {
+    const goal = await this.getVisible(id, actor, activeBancaId);
+    return this.computeProgress(goal, now);
+  },
+
+  async computeProgress(goal: Goal, now: Date = new Date()) {
+    const actual = await measureGoal(goal);
+    const view = toView(goal);
+    return {
+      goal: view,
+      ...computeGoalPace({
+        actual,
+        target: goal.targetValue,
+        startDate: view.startDate,
+        endDate: view.endDate,
+        today: tz.toDateStr(now),
+      }),
+      computedAt: now.toISOString(),
+    };
+  },
+
+  /**
+   * Bloque del dashboard: metas activas hoy con su avance.
+   */
+  async dashboardBlock(actor: AuthUser, activeBancaId?: string | null, now: Date = new Date()) {
+    const goals = await GoalRepository.findActiveAt(
+      await visibilityWhere(actor, activeBancaId),
+      now,
+      DASHBOARD_GOALS_LIMIT
+    );
+    const names = await resolveTargetNames(goals);
+
+    // Secuencial: cada meta ejecuta agregaciones pesadas
+    const items = [];
+    for (const goal of goals) {
+      const { goal: view, ...pace } = await this.computeProgress(goal, now);
+      items.push({
+        id: view.id,
+        name: view.name,
+        dimension: view.dimension,
+        targetId: view.targetId,
+        targetName: view.targetId ? names.get(view.targetId) ?? null : null,
+        metric: view.metric,
+        period: view.period,
+        startDate: view.startDate,
+        endDate: view.endDate,
+        ...pace,
+      });
+    }
+
+    return {
+      date: tz.toDateStr(now),
+      total: items.length,
+      achieved: items.filter((i) => i.status === "achieved").length,
+      onTrack: items.filter((i) => i.status === "on_track").length,
+      behind: items.filter((i) => i.status === "behind").length,
+      goals: items,
+    };
+  },
+
+  /** Carga la meta y valida que pertenezca a la banca del actor (gestión) */
+  async getOwned(id: string, actor: AuthUser, activeBancaId?: string | null): Promise<Goal> {
+    const goal = await GoalRepository.findById(id);
+    if (!goal) throw new AppError("Meta no encontrada", 404, "NOT_FOUND");
+
+    if (actor.role === Role.BANCA && goal.bancaId !== activeBancaId) {
+      throw new AppError("No tienes permiso para gestionar esta meta", 403, "FORBIDDEN");
+    }
+    return goal;
+  },
+
+  /** Carga la meta si es visible para el actor (lectura) */
+  async getVisible(id: string, actor: AuthUser, activeBancaId?: string | null): Promise<Goal> {
+    const goal = await GoalRepository.findFirst({ AND: [{ id }, await visibilityWhere(actor, activeBancaId)] });
+    if (!goal) throw new AppError("Meta no encontrada", 404, "NOT_FOUND");
+    return goal;
+  },
+};
+
+export default GoalService;
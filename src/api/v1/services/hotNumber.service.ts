@@ -0,0 +1,129 @@
+import prisma from "../../../core/prismaClient";
+import { AppError } from "../../../core/errors";
+import ActivityService from "../../../core/activity.service";
+import { CacheService } from "../../../core/cache.service";
+import { AuthUser } from "../../../core/types";
+import { ActivityType, Prisma } from "../../../generated/prisma/client";
+import { HotNumberPolicySchema, parseHotNumberPolicy } from "../../../types/schemas/databaseJson.schema";
+import {
+  hotNumberCapacity,
+  hotNumberPolicyCacheTag,
+  loadSorteoSales,
+  resolveHotNumberState,
+} from "../../../repositories/helpers/hotNumbers.helper";
+import { HotNumbersQuery, UpdateHotNumberPolicyInput } from "../dto/restrictionRule.dto";
+
+type NumberTotalRow = { number: string; total: number; maxMultiplierX: number | null };
+
+async function loadPolicyOwner(activeBancaId?: string | null) {
+  if (!activeBancaId) throw new AppError("Seleccione una banca", 400);
+  const banca = await prisma.banca.findUnique({
+    where: { id: activeBancaId },
+    select: { id: true, hotNumberPolicyJson: true },
+  });
+  if (!banca) throw new AppError("Banca no encontrada", 404, "NOT_FOUND");
+  return banca;
+}
+
+/**
+ * Números calientes: límites y multiplicadores que se ajustan solos según lo vendido de cada
+ * número en el sorteo frente a la capacidad de pago de la banca. La venta los aplica en
+ * applyHotNumberPolicy; aquí se consulta el estado y se administra la política.
+ */
+export const HotNumberService = {
+  async getPolicy(activeBancaId?: string | null) {
+    const banca = await loadPolicyOwner(activeBancaId);
+    const stored = HotNumberPolicySchema.safeParse(banca.hotNumberPolicyJson);
+    return {
+      bancaId: banca.id,
+      policy: stored.success ? stored.data : null,
+      active: parseHotNumberPolicy(banca.hotNumberPolicyJson) !== null,
+    };
+  },
+
+  /** null elimina la política (sin ajuste dinámico) */
+  async updatePolicy(data: UpdateHotNumberPolicyInput, actor: AuthUser, activeBancaId?: string | null) {
+    const banca = await loadPolicyOwner(activeBancaId);
+    await prisma.banca.update({
+      where: { id: banca.id },
+      data: { hotNumberPolicyJson: data.policy ? (data.policy as Prisma.InputJsonValue) : Prisma.DbNull },
+    });
+    await CacheService.invalidateTag(hotNumberPolicyCacheTag(banca.id)).catch(() => {});
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: banca.id,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "BANCA",
+      targetId: banca.id,
+      details: {
+        op: "hot_number_policy_updated",
+        previous: banca.hotNumberPolicyJson ?? null,
+        policy: (data.policy ?? null) as Prisma.InputJsonValue,
+        description: "Política de números calientes de la banca actualizada",
+      } as Prisma.InputJsonObject,
+      layer: "service",
+    });
+
+    return this.getPolicy(banca.id);
+  },
+
+  /**
+   * Estado de cada número vendido en el sorteo (acumulado de la banca, fracción de la
+   * capacidad, tramo, tope por tiquete y multiplicador ofrecido), del más caliente al menos.
+   */
+  async board(query: HotNumbersQuery, activeBancaId?: string | null) {
+    const banca = await loadPolicyOwner(activeBancaId);
+    const sorteo = await prisma.sorteo.findUnique({
+      where: { id: query.sorteoId },
+      select: { id: true, name: true, loteriaId: true, bancaId: true, status: true },
+    });
+    if (!sorteo || (sorteo.bancaId && sorteo.bancaId !== banca.id)) {
+      throw new AppError("Sorteo no encontrado", 404, "NOT_FOUND");
+    }
+
+    const policy = parseHotNumberPolicy(banca.hotNumberPolicyJson);
+    if (!policy) {
+      return { sorteo, policyActive: false, capacity: null, sorteoSales: null, numbers: [] };
+    }
+
+    const [rows, setting, sorteoSales] = await Promise.all([
+      prisma.$queryRaw<NumberTotalRow[]>(Prisma.sql`
+        SELECT
+          j."number" AS number,
+          COALESCE(SUM(j.amount), 0)::float8 AS total,
+          MAX(CASE WHEN j."type" = 'NUMERO' THEN j."finalMultiplierX" END)::float8 AS "maxMultiplierX"
+        FROM "Ticket" t
+        INNER JOIN "Jugada" j ON j."ticketId" = t.id
+        INNER JOIN "Ventana" v ON v.id = t."ventanaId"
+        WHERE v."bancaId" = ${banca.id}::uuid
+          AND t."sorteoId" = ${sorteo.id}::uuid
+          AND t."status" != 'CANCELLED'
+          AND t."isActive" = true
+          AND t."deletedAt" IS NULL
+          AND j."isActive" = true
+          AND j."deletedAt" IS NULL
+        GROUP BY j."number"
+      `),
+      prisma.bancaLoteriaSetting.findUnique({
+        where: { bancaId_loteriaId: { bancaId: banca.id, loteriaId: sorteo.loteriaId } },
+        select: { baseMultiplierX: true },
+      }),
+      policy.salesCapacityPercent ? loadSorteoSales(prisma, banca.id, sorteo.id) : Promise.resolve(0),
+    ]);
+
+    const capacity = hotNumberCapacity(policy, sorteoSales);
+    const numbers = rows
+      .map((row) => {
+        // Multiplicador base de la banca; si no tiene, el mayor vendido para el número
+        const multiplierX = setting?.baseMultiplierX ?? row.maxMultiplierX ?? 0;
+        return resolveHotNumberState(policy, { number: row.number, accumulated: Number(row.total), capacity, multiplierX });
+      })
+      .filter((state) => !query.onlyHot || state.tier !== null || state.share >= 1)
+      .sort((a, b) => b.share - a.share);
+
+    return { sorteo, policyActive: true, capacity, sorteoSales, numbers };
+  },
+};
+
+export default HotNumberService;
@@ -0,0 +1,279 @@
+import crypto from "crypto";
+import { Role } from "../../../generated/prisma/client";
+import logger from "../../../core/logger";
+import { config } from "../../../config";
+import { getRedisClient } from "../../../core/redisClient";
+import { isCacheSubscriberActive, REALTIME_CHANNEL, RealtimeEvents } from "../../../core/cache.service";
+import SorteoRepository from "../../../repositories/sorteo.repository";
+
+export const REALTIME_EVENT_TYPES = [
+  "ticket.created",
+  "ticket.cancelled",
+  "sorteo.status",
+  "sorteo.exposure",
+  "restriction.limit_hit",
+] as const;
+export type RealtimeEventType = (typeof REALTIME_EVENT_TYPES)[number];
+
+/**
+ * Evento publicado a todas las instancias. bancaId/ventanaId/vendedorId definen quién lo recibe;
+ * bancaId null = sorteo global.
+ */
+export interface RealtimeEvent {
+  id: string;
+  type: RealtimeEventType;
+  at: string;
+  bancaId: string | null;
+  ventanaId?: string | null;
+  vendedorId?: string | null;
+  sorteoId?: string | null;
+  data: Record<string, unknown>;
+}
+
+/** Conexión SSE local con el alcance del usuario y sus filtros */
+export interface RealtimeClient {
+  id: string;
+  userId: string;
+  role: Role;
+  bancaId: string | null;
+  ventanaId: string | null;
+  types: Set<RealtimeEventType> | null;
+  sorteoId: string | null;
+  send: (event: RealtimeEvent) => void;
+  close: () => void;
+}
+
+const LIMIT_HIT_CODES = new Set(["NUMBER_MAXTOTAL_EXCEEDED", "NUMBER_MAXAMOUNT_EXCEEDED"]);
+
+const clients = new Map<string, RealtimeClient>();
+// Sorteos con ventas/anulaciones desde el último snapshot de acumulados: "sorteoId:bancaId"
+const dirtyExposure = new Set<string>();
+
+let listening = false;
+
+/**
+ * Alcance por rol:
+ * - ADMIN: todo (filtrado por banca activa si la tiene)
+ * - BANCA: eventos de su banca activa
+ * - VENTANA / VENDEDOR: eventos de su ventana / propios; de lo demás solo cambios de estado de sorteo
+ */
+export function canReceive(client: RealtimeClient, event: RealtimeEvent): boolean {
+  if (client.types && !client.types.has(event.type)) return false;
+  if (client.sorteoId && event.sorteoId !== client.sorteoId) return false;
+
+  const isGlobal = event.bancaId === null;
+  if (!isGlobal && client.bancaId && event.bancaId !== client.bancaId) return false;
+
+  switch (client.role) {
+    case Role.ADMIN:
+      return true;
+    case Role.BANCA:
+      return isGlobal ? event.type === "sorteo.status" : client.bancaId !== null;
+    case Role.VENTANA:
+      return event.ventanaId ? event.ventanaId === client.ventanaId : event.type === "sorteo.status";
+    case Role.VENDEDOR:
+      return event.vendedorId ? event.vendedorId === client.userId : event.type === "sorteo.status";
+    default:
+      return false;
+  }
+}
+
+function dispatch(raw: string) {
+  let event: RealtimeEvent;
+  try {
+    event = JSON.parse(raw);
+  } catch {
+    return;
+  }
+  for (const client of clients.values()) {
+    if (!canReceive(client, event)) continue;
+    try {
+      client.send(event);
+    } catch (err) {
+      logger.warn({
+        layer: "service",
+        action: "REALTIME_SEND_ERROR",
+        payload: { clientId: client.id, error: (err as Error).message },
+      });
+    }
+  }
+}
+
+export const RealtimeService = {
+  /**
+   * Publica el evento vía Redis para que lo reciban todas las instancias.
+   * Sin Redis (o sin suscriptor) se entrega solo a los streams de esta instancia.
+   * Nunca lanza: un fallo de tiempo real no debe afectar la operación que lo origina.
+   */
+  publish(event: Omit<RealtimeEvent, "id" | "at">) {
+    const full: RealtimeEvent = { id: crypto.randomUUID(), at: new Date().toISOString(), ...event };
+    const raw = JSON.stringify(full);
+    const redis = getRedisClient();
+
+    if (redis && isCacheSubscriberActive()) {
+      redis.publish(REALTIME_CHANNEL, raw).catch((err: Error) => {
+        logger.warn({ layer: "service", action: "REALTIME_PUBLISH_ERROR", payload: { type: event.type, error: err.message } });
+        RealtimeEvents.emit("event", raw);
+      });
+      return;
+    }
+    RealtimeEvents.emit("event", raw);
+  },
+
+  /** Registra un stream local; devuelve la función para darlo de baja */
+  subscribe(client: RealtimeClient): () => void {
+    if (!listening) {
+      RealtimeEvents.on("event", dispatch);
+      listening = true;
+    }
+    clients.set(client.id, client);
+    return () => {
+      clients.delete(client.id);
+    };
+  },
+
+  connectionCount() {
+    return clients.size;
+  },
+
+  /** Cierra los streams locales (apagado del servidor); los clientes SSE reconectan solos */
+  closeAll() {
+    for (const client of clients.values()) {
+      try {
+        client.close();
+      } catch {
+        // conexión ya cerrada
+      }
+    }
+    clients.clear();
+  },
+
+  ticketCreated(ticket: {
+    id: string;
+    ticketNumber: string;
+    sorteoId: string;
+    loteriaId: string;
+    totalAmount: number;
+    jugadas?: Array<{ type: string; number: string; amount: number }>;
+  }, scope: { bancaId: string; ventanaId: string; vendedorId: string }) {
+    this.publish({
+      type: "ticket.created",
+      ...scope,
+      sorteoId: ticket.sorteoId,
+      data: {
+        ticketId: ticket.id,
+        ticketNumber: ticket.ticketNumber,
+        loteriaId: ticket.loteriaId,
+        totalAmount: ticket.totalAmount,
+        jugadas: (ticket.jugadas ?? []).map((j) => ({ type: j.type, number: j.number, amount: j.amount })),
+      },
+    });
+    this.markExposureDirty(ticket.sorteoId, scope.bancaId);
+  },
+
+  /** Los montos de las jugadas van negativos: el cliente los aplica como delta */
+  ticketCancelled(ticket: {
+    id: string;
+    ticketNumber: string;
+    sorteoId: string;
+    totalAmount: number;
+    jugadas?: Array<{ type: string; number: string; amount: number }>;
+  }, scope: { bancaId: string; ventanaId: string; vendedorId: string }, cancelledBy: string) {
+    this.publish({
+      type: "ticket.cancelled",
+      ...scope,
+      sorteoId: ticket.sorteoId,
+      data: {
+        ticketId: ticket.id,
+        ticketNumber: ticket.ticketNumber,
+        totalAmount: -ticket.totalAmount,
+        jugadas: (ticket.jugadas ?? []).map((j) => ({ type: j.type, number: j.number, amount: -j.amount })),
+        cancelledBy,
+      },
+    });
+    this.markExposureDirty(ticket.sorteoId, scope.bancaId);
+  },
+
+  sorteoStatus(
+    sorteo: { id: string; bancaId: string | null; loteriaId: string; name: string; scheduledAt: Date; winningNumber?: string | null },
+    from: string,
+    to: string
+  ) {
+    this.publish({
+      type: "sorteo.status",
+      bancaId: sorteo.bancaId,
+      sorteoId: sorteo.id,
+      data: {
+        loteriaId: sorteo.loteriaId,
+        name: sorteo.name,
+        scheduledAt: sorteo.scheduledAt.toISOString(),
+        from,
+        to,
+        winningNumber: to === "EVALUATED" ? sorteo.winningNumber ?? null : null,
+      },
+    });
+  },
+
+  /** Publica el rechazo por límite de restricción; ignora cualquier otro error */
+  limitHit(err: any, scope: { bancaId: string; ventanaId: string; vendedorId: string; sorteoId: string }) {
+    const meta = err?.meta;
+    if (!meta || typeof meta !== "object" || !LIMIT_HIT_CODES.has(meta.code)) return;
+
+    this.publish({
+      type: "restriction.limit_hit",
+      ...scope,
+      data: {
+        code: meta.code,
+        number: meta.number ?? null,
+        scope: meta.scope ?? null,
+        limit: meta.effectiveMaxTotal ?? meta.maxAmount ?? null,
+        available: meta.available ?? null,
+        message: err.message,
+      },
+    });
+  },
+
+  markExposureDirty(sorteoId: string, bancaId: string) {
+    dirtyExposure.add(`${sorteoId}:${bancaId}`);
+  },
+
+  /**
+   * Publica los acumulados por número de los sorteos con movimiento desde la última pasada.
+   * Los tickets de sorteos globales se acumulan por banca.
+   */
+  async flushExposure() {
+    if (dirtyExposure.size === 0) return 0;
+    const keys = [...dirtyExposure];
+    dirtyExposure.clear();
+
+    for (const key of keys) {
+      const [sorteoId, bancaId] = key.split(":");
+      try {
+        const rows = await SorteoRepository.aggregatePayoutExposure(sorteoId, undefined, bancaId);
+        const numbers = rows
+          .map((r) => ({ number: r.number, amount: Number(r.amount), tickets: Number(r.tickets) }))
+          .sort((a, b) => a.number.localeCompare(b.number));
+        this.publish({
+          type: "sorteo.exposure",
+          bancaId,
+          sorteoId,
+          data: {
+            totalAmount: numbers.reduce((acc, n) => acc + n.amount, 0),
+            numbers,
+          },
+        });
+      } catch (err) {
+        // Se reintenta en la próxima pasada
+        dirtyExposure.add(key);
+        logger.warn({
+          layer: "service",
+          action: "REALTIME_EXPOSURE_ERROR",
+          payload: { sorteoId, bancaId, error: (err as Error).message },
+        });
+      }
+    }
+    return keys.length;
+  },
+};
+
+export default RealtimeService;
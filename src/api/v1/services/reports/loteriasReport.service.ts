@@ -8,6 +8,7 @@ import { resolveDateRange, calculatePreviousPeriod, calculateChangePercent, calc
 import { DateToken, ReportMeta } from '../../types/reports.types';
 import { formatIsoLocal } from '../../../../utils/datetime';
 import { commissionResolver } from '../../../../services/commission/CommissionResolver';
+import { percentOfMoney } from "../../../../utils/decimal";
 
 /**
  * Calcula comisiones de listero (ventana) desde las políticas de comisión
@@ -128,7 +129,7 @@ async function computeListeroCommissionByLoteria(
           betType: jugada.type as BetType,
           finalMultiplierX: jugada.finalMultiplierX ?? undefined,
         });
-        ventanaAmount = parseFloat(((jugada.amount * resolution.percent) / 100).toFixed(2));
+        ventanaAmount = percentOfMoney(jugada.amount, resolution.percent);
       } catch (err) {
         // Si falla, usar políticas de VENTANA/BANCA
         const fallback = commissionResolver.resolveVendedorCommission(
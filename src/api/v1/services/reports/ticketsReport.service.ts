@@ -1670,6 +1670,79 @@ export const TicketsReportService = {
     };
   },
 
+  /**
+   * Premios vencidos sin cobrar (Ticket.expiredAt) agrupados por ventana.
+   * El rango de fechas aplica a la fecha de vencimiento, no a la de venta.
+   */
+  async getForfeitedPrizes(filters: {
+    date?: DateToken;
+    fromDate?: string;
+    toDate?: string;
+    ventanaId?: string;
+    vendedorId?: string;
+    loteriaId?: string;
+    bancaId?: string;
+  }): Promise<any> {
+    const dateRange = resolveDateRange(
+      filters.date || 'today',
+      filters.fromDate,
+      filters.toDate
+    );
+
+    const where: Prisma.TicketWhereInput = {
+      expiredAt: { gte: dateRange.from, lte: dateRange.to },
+      deletedAt: null,
+      ...(filters.ventanaId && filters.ventanaId.trim() !== '' && { ventanaId: filters.ventanaId }),
+      ...(filters.vendedorId && filters.vendedorId.trim() !== '' && { vendedorId: filters.vendedorId }),
+      ...(filters.loteriaId && filters.loteriaId.trim() !== '' && { loteriaId: filters.loteriaId }),
+      ...(filters.bancaId && filters.bancaId.trim() !== '' && { bancaId: filters.bancaId }),
+    };
+
+    const groups = await prisma.ticket.groupBy({
+      by: ['ventanaId'],
+      where,
+      _count: { _all: true },
+      _sum: { forfeitedAmount: true, totalPayout: true, totalPaid: true },
+      _min: { expiredAt: true },
+      _max: { expiredAt: true },
+    });
+
+    const ventanas = await prisma.ventana.findMany({
+      where: { id: { in: groups.map((g) => g.ventanaId) } },
+      select: { id: true, name: true },
+    });
+    const names = new Map(ventanas.map((v) => [v.id, v.name]));
+
+    const byVentana = groups
+      .map((g) => ({
+        ventanaId: g.ventanaId,
+        ventanaName: names.get(g.ventanaId) ?? 'Desconocida',
+        ticketsCount: g._count._all,
+        forfeitedAmount: g._sum.forfeitedAmount ?? 0,
+        totalPayout: g._sum.totalPayout ?? 0,
+        totalPaid: g._sum.totalPaid ?? 0,
+        firstExpiredAt: g._min.expiredAt ? formatIsoLocal(g._min.expiredAt) : null,
+        lastExpiredAt: g._max.expiredAt ? formatIsoLocal(g._max.expiredAt) : null,
+      }))
+      .sort((a, b) => b.forfeitedAmount - a.forfeitedAmount);
+
+    return {
+      data: {
+        summary: {
+          ticketsCount: byVentana.reduce((sum, v) => sum + v.ticketsCount, 0),
+          forfeitedAmount: byVentana.reduce((sum, v) => sum + v.forfeitedAmount, 0),
+        },
+        byVentana,
+      },
+      meta: {
+        dateRange: {
+          from: formatDateOnly(dateRange.from),
+          to: formatDateOnly(dateRange.to),
+        },
+      },
+    };
+  },
+
   /**
    * Reporte de exposición y riesgo por número
    * CRÍTICO: Para gestión de riesgo financiero
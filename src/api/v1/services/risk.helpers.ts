@@ -0,0 +1,127 @@
+import { RiskPolicy } from "../../../types/schemas/databaseJson.schema";
+
+/** Fila de DashboardService.calculateNumberLiability */
+export type NumberLiabilityRow = {
+  number: string;
+  sales: number;
+  numeroPayout: number;
+  reventadoSales: number;
+  commissionUser: number;
+  commissionVentana: number;
+  maxMultiplierX: number | null;
+  ticketCount: number;
+};
+
+/** Cesión vigente: `amount` apostado en la contraparte, que paga `multiplierX` si sale el número */
+export type LayOffLeg = {
+  number: string;
+  amount: number;
+  multiplierX: number;
+  commissionPercent: number;
+};
+
+export type LayOffSuggestion = {
+  amount: number;
+  multiplierX: number;
+  commissionPercent: number;
+  /** Pérdida si sale el número después de ceder `amount` */
+  lossAfter: number;
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Costo neto de ceder: lo apostado menos la comisión que reconoce la contraparte */
+export const layOffCost = (leg: Pick<LayOffLeg, "amount" | "commissionPercent">) =>
+  leg.amount * (1 - leg.commissionPercent / 100);
+
+/**
+ * Resultado de las cesiones de sorteos evaluados: premio recuperado + comisión − lo cedido.
+ * Positivo = las cesiones le dejaron dinero a la banca.
+ */
+export const layOffNet = (summary: { ceded: number; commission: number; recovered: number }) =>
+  round2(summary.recovered + summary.commission - summary.ceded);
+
+/**
+ * Riesgo por número de un sorteo abierto. Si sale un número la banca paga su premio NUMERO
+ * más el REVENTADO al mayor extra posible y cobra la venta neta de comisión de listero de
+ * todo el sorteo; las cesiones recuperan su premio en el número y cuestan en todos.
+ * worstCaseLoss > 0 es pérdida. Con `maxLoss` se sugiere cuánto ceder para no superarla.
+ */
+export function computeNumberRisk(params: {
+  rows: NumberLiabilityRow[];
+  legs: LayOffLeg[];
+  reventadoMultiplierX: number;
+  maxLoss: number | null;
+  policy: RiskPolicy | null;
+  baseMultiplierX: number | null;
+}) {
+  const { rows, legs, reventadoMultiplierX, maxLoss, policy, baseMultiplierX } = params;
+
+  const sales = rows.reduce((acc, r) => acc + r.sales, 0);
+  const commissions = rows.reduce((acc, r) => acc + r.commissionVentana, 0);
+  const netSales = sales - commissions;
+  const layOffCostTotal = legs.reduce((acc, leg) => acc + layOffCost(leg), 0);
+
+  const coveredByNumber = new Map<string, { amount: number; payout: number }>();
+  for (const leg of legs) {
+    const entry = coveredByNumber.get(leg.number) ?? { amount: 0, payout: 0 };
+    entry.amount += leg.amount;
+    entry.payout += leg.amount * leg.multiplierX;
+    coveredByNumber.set(leg.number, entry);
+  }
+
+  const byNumber = new Map(rows.map((r) => [r.number, r]));
+  const numbers = [...new Set([...byNumber.keys(), ...coveredByNumber.keys()])].map((number) => {
+    const row = byNumber.get(number);
+    const covered = coveredByNumber.get(number) ?? { amount: 0, payout: 0 };
+    const payout = (row?.numeroPayout ?? 0) + (row?.reventadoSales ?? 0) * reventadoMultiplierX;
+    const worstCaseLoss = payout - covered.payout - netSales + layOffCostTotal;
+
+    let suggestion: LayOffSuggestion | null = null;
+    const excess = maxLoss !== null ? worstCaseLoss - maxLoss : 0;
+    const multiplierX = policy?.layOffMultiplierX ?? row?.maxMultiplierX ?? baseMultiplierX;
+    const commissionPercent = policy?.layOffCommissionPercent ?? 0;
+    // Cada colón cedido recupera multiplierX si sale el número y cuesta su parte neta de comisión
+    const recoveryPerUnit = (multiplierX ?? 0) - (1 - commissionPercent / 100);
+    if (excess > 0 && multiplierX && recoveryPerUnit > 0) {
+      const amount = Math.ceil(excess / recoveryPerUnit);
+      suggestion = {
+        amount,
+        multiplierX,
+        commissionPercent,
+        lossAfter: round2(worstCaseLoss - amount * recoveryPerUnit),
+      };
+    }
+
+    return {
+      number,
+      sales: round2(row?.sales ?? 0),
+      numeroPayout: round2(row?.numeroPayout ?? 0),
+      reventadoSales: round2(row?.reventadoSales ?? 0),
+      potentialPayout: round2(payout),
+      commissions: round2(row?.commissionVentana ?? 0),
+      ticketCount: row?.ticketCount ?? 0,
+      layOffAmount: round2(covered.amount),
+      layOffPayout: round2(covered.payout),
+      worstCaseLoss: round2(worstCaseLoss),
+      exceedsMaxLoss: excess > 0,
+      suggestion,
+    };
+  });
+
+  numbers.sort((a, b) => b.worstCaseLoss - a.worstCaseLoss);
+
+  return {
+    totals: {
+      sales: round2(sales),
+      commissions: round2(commissions),
+      netSales: round2(netSales),
+      layOffAmount: round2(legs.reduce((acc, leg) => acc + leg.amount, 0)),
+      layOffCost: round2(layOffCostTotal),
+      worstCaseLoss: numbers.length ? numbers[0].worstCaseLoss : round2(layOffCostTotal - netSales),
+      // Ceder también cuesta en los demás números: tras ceder, recalcular el sorteo
+      suggestedLayOff: numbers.reduce((acc, n) => acc + (n.suggestion?.amount ?? 0), 0),
+    },
+    numbers,
+  };
+}
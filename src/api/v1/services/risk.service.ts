@@ -0,0 +1,246 @@
+import prisma from "../../../core/prismaClient";
+import { AppError } from "../../../core/errors";
+import ActivityService from "../../../core/activity.service";
+import { AuthUser } from "../../../core/types";
+import { ActivityType, Prisma, SorteoStatus } from "../../../generated/prisma/client";
+import LayOffPositionRepository from "../../../repositories/layOffPosition.repository";
+import { parseRiskPolicy, RiskPolicySchema } from "../../../types/schemas/databaseJson.schema";
+import { tz } from "../../../utils/timezone";
+import DashboardService from "./dashboard.service";
+import SorteoService from "./sorteo.service";
+import { resolveScenarios } from "./sorteoPayoutSimulation.service";
+import { computeNumberRisk } from "./risk.helpers";
+import {
+  CancelLayOffInput,
+  CreateLayOffInput,
+  ListLayOffsQuery,
+  RiskExposureQuery,
+  UpdateRiskPolicyInput,
+} from "../dto/risk.dto";
+
+type OwnedSorteo = Awaited<ReturnType<typeof SorteoService.validateSorteoOwnership>>;
+
+function buildMeta(total: number, page: number, pageSize: number) {
+  const totalPages = Math.ceil(total / pageSize);
+  return {
+    total,
+    page,
+    pageSize,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+}
+
+/** Las cesiones se pactan antes del resultado: después no se registran ni se anulan */
+function assertBeforeResult(sorteo: Pick<OwnedSorteo, "status" | "winningNumber">) {
+  const open = sorteo.status === SorteoStatus.OPEN || sorteo.status === SorteoStatus.CLOSED;
+  if (!open || sorteo.winningNumber) {
+    throw new AppError("Las cesiones solo se registran o anulan antes del resultado del sorteo", 409, "SORTEO_SETTLED");
+  }
+}
+
+/**
+ * Riesgo por número de los sorteos abiertos y cesiones (lay-off) a otras bancas: la parte
+ * de la apuesta de un número que la banca pasa a una contraparte para limitar su pérdida.
+ * Las cesiones de sorteos evaluados entran en la ganancia del dashboard y en el cierre.
+ */
+export const RiskService = {
+  async getPolicy(activeBancaId?: string | null) {
+    const banca = await this.loadPolicyOwner(activeBancaId);
+    const stored = RiskPolicySchema.safeParse(banca.riskPolicyJson);
+    return { bancaId: banca.id, policy: stored.success ? stored.data : null };
+  },
+
+  /** null elimina la política (sin pérdida máxima: no hay sugerencias) */
+  async updatePolicy(data: UpdateRiskPolicyInput, actor: AuthUser, activeBancaId?: string | null) {
+    const banca = await this.loadPolicyOwner(activeBancaId);
+    await LayOffPositionRepository.updateBancaPolicy(
+      banca.id,
+      data.policy ? (data.policy as Prisma.InputJsonValue) : Prisma.DbNull
+    );
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: banca.id,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "BANCA",
+      targetId: banca.id,
+      details: {
+        op: "risk_policy_updated",
+        previous: banca.riskPolicyJson ?? null,
+        policy: (data.policy ?? null) as Prisma.InputJsonValue,
+        description: "Política de riesgo de la banca actualizada",
+      } as Prisma.InputJsonObject,
+      layer: "service",
+    });
+
+    return this.getPolicy(banca.id);
+  },
+
+  /**
+   * Pasivo neto por número de un sorteo abierto (peor caso con el mayor reventado posible),
+   * con las cesiones vigentes y la sugerencia de cuánto ceder para no superar la pérdida máxima.
+   */
+  async exposure(query: RiskExposureQuery, actor: AuthUser, activeBancaId?: string | null) {
+    const banca = await this.loadPolicyOwner(activeBancaId);
+    const sorteo = await SorteoService.validateSorteoOwnership(query.sorteoId, banca.id, actor.role);
+    if (sorteo.status !== SorteoStatus.OPEN) {
+      throw new AppError("El riesgo por número solo se calcula para sorteos abiertos", 409, "SORTEO_NOT_OPEN");
+    }
+    const policy = parseRiskPolicy(banca.riskPolicyJson);
+
+    const [rows, legs, scenarios, setting] = await Promise.all([
+      DashboardService.calculateNumberLiability({
+        fromDate: sorteo.scheduledAt,
+        toDate: sorteo.scheduledAt,
+        bancaId: banca.id,
+        sorteoId: sorteo.id,
+      }),
+      LayOffPositionRepository.findActiveBySorteo(sorteo.id),
+      resolveScenarios(sorteo),
+      this.loadBaseMultiplier(banca.id, sorteo.loteriaId),
+    ]);
+
+    const reventadoMultiplierX = Math.max(0, ...scenarios.map((s) => s.valueX));
+    const maxLoss = query.maxLoss ?? policy?.maxLossPerNumber ?? null;
+    const risk = computeNumberRisk({
+      rows,
+      legs,
+      reventadoMultiplierX,
+      maxLoss,
+      policy,
+      baseMultiplierX: setting?.baseMultiplierX ?? null,
+    });
+
+    return {
+      sorteo: {
+        id: sorteo.id,
+        name: sorteo.name,
+        scheduledAt: sorteo.scheduledAt,
+        status: sorteo.status,
+        loteria: sorteo.loteria,
+      },
+      policy,
+      maxLoss,
+      reventadoMultiplierX,
+      ...risk,
+    };
+  },
+
+  async listPositions(query: ListLayOffsQuery, activeBancaId?: string | null) {
+    const banca = await this.loadPolicyOwner(activeBancaId);
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 50;
+
+    const where: Prisma.LayOffPositionWhereInput = { bancaId: banca.id };
+    if (query.sorteoId) where.sorteoId = query.sorteoId;
+    if (query.status) where.status = query.status;
+
+    const { data, total } = await LayOffPositionRepository.list(where, page, pageSize);
+    return { data, meta: buildMeta(total, page, pageSize) };
+  },
+
+  /** Registra una cesión pactada con otra banca (no se comunica a la contraparte) */
+  async createPosition(data: CreateLayOffInput, actor: AuthUser, activeBancaId?: string | null) {
+    const banca = await this.loadPolicyOwner(activeBancaId);
+    const sorteo = await SorteoService.validateSorteoOwnership(data.sorteoId, banca.id, actor.role);
+    assertBeforeResult(sorteo);
+
+    const digits = sorteo.digits ?? 2;
+    if (data.number.length !== digits) {
+      throw new AppError(`El número debe tener ${digits} dígitos (recibido: ${data.number.length})`, 400);
+    }
+
+    const policy = parseRiskPolicy(banca.riskPolicyJson);
+    const setting = data.multiplierX || policy?.layOffMultiplierX
+      ? null
+      : await this.loadBaseMultiplier(banca.id, sorteo.loteriaId);
+    const multiplierX = data.multiplierX ?? policy?.layOffMultiplierX ?? setting?.baseMultiplierX;
+    if (!multiplierX) {
+      throw new AppError("Indique el multiplicador que paga la contraparte", 400);
+    }
+
+    const position = await LayOffPositionRepository.create({
+      bancaId: banca.id,
+      sorteoId: sorteo.id,
+      loteriaId: sorteo.loteriaId,
+      businessDate: new Date(`${tz.toDateStr(sorteo.scheduledAt)}T00:00:00Z`),
+      number: data.number,
+      amount: data.amount,
+      multiplierX,
+      commissionPercent: data.commissionPercent ?? policy?.layOffCommissionPercent ?? 0,
+      counterparty: data.counterparty,
+      notes: data.notes ?? null,
+      createdBy: actor.id,
+    });
+
+    await this.logAction(position, actor, "layoff_recorded", `Cesión del ${position.number} a ${position.counterparty} registrada`);
+    return position;
+  },
+
+  async cancelPosition(id: string, data: CancelLayOffInput, actor: AuthUser, activeBancaId?: string | null) {
+    const banca = await this.loadPolicyOwner(activeBancaId);
+    const position = await LayOffPositionRepository.findById(id);
+    if (!position || position.bancaId !== banca.id) {
+      throw new AppError("Cesión no encontrada", 404, "NOT_FOUND");
+    }
+    assertBeforeResult(position.sorteo);
+
+    const moved = await LayOffPositionRepository.transition(id, "ACTIVE", {
+      status: "CANCELLED",
+      cancelledBy: actor.id,
+      cancelledAt: new Date(),
+      cancelReason: data.reason,
+    });
+    if (!moved) throw new AppError(`La cesión ya está ${position.status}`, 409);
+
+    await this.logAction(position, actor, "layoff_cancelled", `Cesión del ${position.number} a ${position.counterparty} anulada`, {
+      reason: data.reason,
+    });
+    return (await LayOffPositionRepository.findById(id))!;
+  },
+
+  async loadPolicyOwner(activeBancaId?: string | null) {
+    if (!activeBancaId) throw new AppError("Seleccione una banca", 400);
+    const banca = await LayOffPositionRepository.findBancaPolicy(activeBancaId);
+    if (!banca) throw new AppError("Banca no encontrada", 404, "NOT_FOUND");
+    return banca;
+  },
+
+  loadBaseMultiplier(bancaId: string, loteriaId: string) {
+    return prisma.bancaLoteriaSetting.findUnique({
+      where: { bancaId_loteriaId: { bancaId, loteriaId } },
+      select: { baseMultiplierX: true },
+    });
+  },
+
+  async logAction(
+    position: { id: string; bancaId: string; sorteoId: string; number: string; amount: number; multiplierX: number; counterparty: string },
+    actor: AuthUser,
+    op: string,
+    description: string,
+    extra: Record<string, unknown> = {}
+  ) {
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: position.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "SORTEO",
+      targetId: position.sorteoId,
+      details: {
+        op,
+        layOffId: position.id,
+        number: position.number,
+        amount: position.amount,
+        multiplierX: position.multiplierX,
+        counterparty: position.counterparty,
+        ...extra,
+        description,
+      } as Prisma.InputJsonObject,
+      layer: "service",
+    });
+  },
+};
+
+export default RiskService;
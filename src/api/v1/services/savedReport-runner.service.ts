@@ -0,0 +1,423 @@
+import * as ExcelJS from 'exceljs';
+import { ZodError } from 'zod';
+import prisma from '../../../core/prismaClient';
+import logger from '../../../core/logger';
+import { AppError } from '../../../core/errors';
+import { ReportSchedule, Role, SavedReport } from '../../../generated/prisma/client';
+import { applyRbacFilters, AuthContext } from '../../../utils/rbac';
+import { resolveDateRange } from '../../../utils/dateRange';
+import { tz } from '../../../utils/timezone';
+import { computeNextRunAt, resolveReportPeriod } from '../../../utils/reportSchedule';
+import { MailTransport, createMailTransportFromConfig } from '../../../services/mail/mailTransport';
+import SavedReportRepository from '../../../repositories/savedReport.repository';
+import { TicketsReportService } from './reports/ticketsReport.service';
+import { VentanasReportService } from './reports/ventanasReport.service';
+import { CierreService } from './cierre.service';
+import { CierreExportService } from './cierre-export.service';
+import { DashboardExportService } from './dashboard-export.service';
+import { TicketsSummaryQuerySchema, VentanasRankingQuerySchema } from '../validators/reports.validator';
+import { CierreWeeklyQuerySchema } from '../validators/cierre.validator';
+import { DashboardQuerySchema } from '../validators/dashboard.validator';
+import {
+  REPORT_FORMATS_BY_TYPE,
+  ReportFormat,
+  SavedReportFilters,
+  SavedReportType,
+} from '../dto/savedReport.dto';
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+const REPORT_TITLES: Record<SavedReportType, string> = {
+  '/reports/tickets/summary': 'Resumen de tickets',
+  '/reports/ventanas/ranking': 'Ranking de listeros',
+  '/cierres/weekly': 'Cierre semanal',
+  '/admin/dashboard': 'Dashboard',
+};
+
+export interface RenderedReport {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+  period: { from: string; to: string };
+}
+
+type ReportOwner = { id: string; role: Role; ventanaId: string | null; isActive: boolean };
+
+/**
+ * Query equivalente a la del endpoint original, con las fechas del periodo.
+ * Se valida con el mismo schema zod que usa la ruta.
+ */
+function buildEndpointQuery(filters: SavedReportFilters, period: { from: string; to: string }) {
+  const params = filters.params ?? {};
+  switch (filters.report) {
+    case '/reports/tickets/summary':
+      return TicketsSummaryQuerySchema.parse({ ...params, date: 'range', fromDate: period.from, toDate: period.to });
+    case '/reports/ventanas/ranking':
+      return VentanasRankingQuerySchema.parse({ ...params, date: 'range', fromDate: period.from, toDate: period.to });
+    case '/cierres/weekly':
+      return CierreWeeklyQuerySchema.parse({ ...params, from: period.from, to: period.to });
+    case '/admin/dashboard':
+      return DashboardQuerySchema.parse({ ...params, date: 'range', fromDate: period.from, toDate: period.to });
+  }
+}
+
+// ─── Render genérico (reportes sin exportador propio) ─────────────────────────
+
+type TabularSection = { name: string; rows: Record<string, unknown>[] };
+
+/**
+ * Separa un resultado JSON en una sección clave/valor (escalares) y
+ * una tabla por cada arreglo de objetos.
+ */
+function toTabularSections(data: unknown): { summary: Array<[string, unknown]>; tables: TabularSection[] } {
+  const summary: Array<[string, unknown]> = [];
+  const tables: TabularSection[] = [];
+
+  const walk = (value: unknown, path: string) => {
+    if (Array.isArray(value)) {
+      if (value.length > 0 && value.every((v) => v && typeof v === 'object' && !Array.isArray(v))) {
+        tables.push({ name: path || 'datos', rows: value as Record<string, unknown>[] });
+      } else {
+        summary.push([path, value.join(', ')]);
+      }
+    } else if (value && typeof value === 'object' && !(value instanceof Date)) {
+      for (const [key, child] of Object.entries(value)) {
+        walk(child, path ? `${path}.${key}` : key);
+      }
+    } else {
+      summary.push([path, value instanceof Date ? value.toISOString() : value]);
+    }
+  };
+  walk(data, '');
+
+  return { summary, tables };
+}
+
+const csvCell = (value: unknown) => {
+  const str = value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+async function renderTabular(
+  title: string,
+  data: unknown,
+  format: ReportFormat,
+  period: { from: string; to: string }
+): Promise<Buffer> {
+  const { summary, tables } = toTabularSections(data);
+
+  if (format === 'csv') {
+    const lines = [csvCell(title), `Periodo,${period.from},${period.to}`, '', 'Métrica,Valor'];
+    summary.forEach(([k, v]) => lines.push(`${csvCell(k)},${csvCell(v)}`));
+    for (const table of tables) {
+      const columns = Object.keys(table.rows[0]);
+      lines.push('', csvCell(table.name), columns.map(csvCell).join(','));
+      table.rows.forEach((row) => lines.push(columns.map((c) => csvCell(row[c])).join(',')));
+    }
+    // BOM para que Excel abra el UTF-8 correctamente
+    return Buffer.from('\ufeff' + lines.join('\n'), 'utf8');
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Bancas';
+  workbook.created = new Date();
+
+  const summarySheet = workbook.addWorksheet('Resumen');
+  summarySheet.addRow([title]).font = { bold: true, size: 14 };
+  summarySheet.addRow([`Periodo: ${period.from} a ${period.to}`]);
+  summarySheet.addRow([]);
+  summarySheet.addRow(['Métrica', 'Valor']).font = { bold: true };
+  summary.forEach(([k, v]) => summarySheet.addRow([k, v as ExcelJS.CellValue]));
+  summarySheet.getColumn(1).width = 40;
+  summarySheet.getColumn(2).width = 20;
+
+  for (const table of tables) {
+    // Excel limita nombres de hoja a 31 caracteres sin []:*?/\
+    const sheet = workbook.addWorksheet(table.name.replace(/[[\]:*?/\\]/g, '_').slice(0, 31));
+    const columns = Object.keys(table.rows[0]);
+    sheet.columns = columns.map((c) => ({ header: c, key: c, width: Math.max(12, Math.min(40, c.length + 4)) }));
+    sheet.getRow(1).font = { bold: true };
+    table.rows.forEach((row) => {
+      sheet.addRow(
+        Object.fromEntries(columns.map((c) => [c, typeof row[c] === 'object' && row[c] !== null ? JSON.stringify(row[c]) : row[c]]))
+      );
+    });
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+function pdfToBuffer(pdfDoc: any): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // pdfmake getBuffer solo pasa el buffer, no un error
+    pdfDoc.getBuffer((buffer: Buffer) => {
+      if (!buffer || buffer.length === 0) return reject(new Error('Error generando PDF: buffer vacío'));
+      resolve(Buffer.from(buffer));
+    });
+  });
+}
+
+// ─── Ejecución ───────────────────────────────────────────────────────────────
+
+/**
+ * Ejecuta el reporte con los permisos del dueño (mismo RBAC que el endpoint)
+ * y lo renderiza con el exportador correspondiente.
+ */
+async function renderReport(
+  report: SavedReport,
+  owner: ReportOwner,
+  format: ReportFormat,
+  now: Date
+): Promise<RenderedReport> {
+  const filters = report.filters as unknown as SavedReportFilters;
+  if (!REPORT_FORMATS_BY_TYPE[filters.report]?.includes(format)) {
+    throw new AppError(`El reporte ${filters.report} no soporta formato ${format}`, 400);
+  }
+
+  const period = resolveReportPeriod(filters.period, now);
+  const query: any = buildEndpointQuery(filters, period);
+  const context: AuthContext = {
+    userId: owner.id,
+    role: owner.role,
+    ventanaId: owner.ventanaId,
+    bancaId: report.bancaId,
+  };
+
+  const slug = filters.report.replace(/^\//, '').replace(/\//g, '-');
+  const fileName = `${slug}-${period.from}-${period.to}.${format}`;
+  let content: Buffer;
+
+  switch (filters.report) {
+    case '/reports/tickets/summary': {
+      const effective = await applyRbacFilters(context, query);
+      const data = await TicketsReportService.getTicketsSummary({
+        date: 'range',
+        fromDate: period.from,
+        toDate: period.to,
+        ventanaId: effective.ventanaId || undefined,
+        vendedorId: effective.vendedorId,
+        bancaId: effective.bancaId,
+        loteriaId: query.loteriaId,
+      });
+      content = await renderTabular(REPORT_TITLES[filters.report], data, format, period);
+      break;
+    }
+
+    case '/reports/ventanas/ranking': {
+      const effective = await applyRbacFilters(context, query);
+      const result = await VentanasReportService.getRanking({
+        date: 'range',
+        fromDate: period.from,
+        toDate: period.to,
+        ventanaId: effective.ventanaId || undefined,
+        bancaId: effective.bancaId,
+        top: query.top,
+        sortBy: query.sortBy || 'ventas',
+        includeComparison: query.includeComparison === true,
+      });
+      content = await renderTabular(REPORT_TITLES[filters.report], result.data, format, period);
+      break;
+    }
+
+    case '/cierres/weekly': {
+      const effective = await applyRbacFilters(context, { ventanaId: query.ventanaId });
+      const cierreFilters = {
+        fromDate: tz.startOfDay(period.from),
+        toDate: tz.endOfDay(period.to),
+        ventanaId: effective.ventanaId || undefined,
+        scope: query.scope === 'mine' ? ('mine' as const) : ('all' as const),
+        bancaId: effective.bancaId,
+      };
+      const { _performance, _metaExtras, ...weeklyData } = await CierreService.aggregateWeekly(cierreFilters);
+      const { _performance: _sp, _metaExtras: _sm, ...sellerData } = await CierreService.aggregateBySeller(cierreFilters);
+      const workbook = await CierreExportService.generateWorkbook(
+        weeklyData,
+        'total',
+        period.from !== period.to,
+        sellerData
+      );
+      content = Buffer.from(await workbook.xlsx.writeBuffer());
+      break;
+    }
+
+    case '/admin/dashboard': {
+      const effective = await applyRbacFilters(context, { ventanaId: query.ventanaId });
+      const dateRange = resolveDateRange('range', period.from, period.to, now);
+      const data = await DashboardExportService.buildExportData({
+        fromDate: dateRange.fromAt,
+        toDate: dateRange.toAt,
+        tz: dateRange.tz,
+        ventanaId: effective.ventanaId || undefined,
+        bancaId: effective.bancaId,
+        loteriaId: query.loteriaId,
+        betType: query.betType,
+        scope: query.scope || 'all',
+        dimension: query.dimension,
+      }, owner.role);
+
+      if (format === 'csv') {
+        content = Buffer.from('\ufeff' + DashboardExportService.generateCSV(data), 'utf8');
+      } else if (format === 'pdf') {
+        content = await pdfToBuffer(DashboardExportService.generatePDF(data));
+      } else {
+        content = Buffer.from(await (await DashboardExportService.generateWorkbook(data)).xlsx.writeBuffer());
+      }
+      break;
+    }
+  }
+
+  return { fileName, contentType: CONTENT_TYPES[format], content, period };
+}
+
+async function loadOwner(userId: string): Promise<ReportOwner> {
+  const owner = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, role: true, ventanaId: true, isActive: true },
+  });
+  if (!owner) throw new AppError('El dueño del reporte no existe', 404, 'NOT_FOUND');
+  if (!owner.isActive) throw new AppError('El dueño del reporte está inactivo', 409);
+  return owner;
+}
+
+export const SavedReportRunner = {
+  /**
+   * Valida que la definición sea ejecutable con el schema del endpoint original.
+   */
+  validateDefinition(filters: SavedReportFilters, now: Date = new Date()) {
+    try {
+      buildEndpointQuery(filters, resolveReportPeriod(filters.period, now));
+    } catch (err) {
+      if (err instanceof ZodError) {
+        const detail = err.issues.map((i) => `${i.path.join('.') || 'params'}: ${i.message}`).join('; ');
+        throw new AppError(`Parámetros inválidos para ${filters.report}: ${detail}`, 400, 'VALIDATION_ERROR');
+      }
+      throw err;
+    }
+  },
+
+  /**
+   * Ejecuta un reporte guardado, registra el historial (ReportRun) y, si hay
+   * destinatarios, lo envía por correo como adjunto.
+   */
+  async run(
+    report: SavedReport,
+    options: {
+      format: ReportFormat;
+      trigger: 'SCHEDULE' | 'MANUAL';
+      recipients?: string[];
+      scheduleId?: string | null;
+      triggeredBy?: string | null;
+      transport?: MailTransport | null;
+      now?: Date;
+    }
+  ): Promise<{ runId: string; status: 'SUCCESS' | 'FAILED'; rendered?: RenderedReport; error?: string }> {
+    const now = options.now ?? new Date();
+    const recipients = options.recipients ?? [];
+    const run = await SavedReportRepository.createRun({
+      reportId: report.id,
+      scheduleId: options.scheduleId ?? null,
+      trigger: options.trigger,
+      format: options.format,
+      recipients,
+      triggeredBy: options.triggeredBy ?? null,
+      startedAt: now,
+    });
+    const startedMs = Date.now();
+
+    try {
+      const owner = await loadOwner(report.userId);
+      const rendered = await renderReport(report, owner, options.format, now);
+
+      if (recipients.length > 0) {
+        const transport = options.transport !== undefined ? options.transport : createMailTransportFromConfig();
+        if (!transport) throw new Error('SMTP no configurado (SMTP_HOST vacío)');
+        await transport.send({
+          to: recipients,
+          subject: `[Reporte] ${report.name} (${rendered.period.from} a ${rendered.period.to})`,
+          text: `Adjunto el reporte "${report.name}" del ${rendered.period.from} al ${rendered.period.to}.\n\nGenerado automáticamente el ${now.toISOString()}.`,
+          attachments: [{ filename: rendered.fileName, contentType: rendered.contentType, content: rendered.content }],
+        });
+      }
+
+      await SavedReportRepository.finishRun(run.id, {
+        status: 'SUCCESS',
+        periodFrom: rendered.period.from,
+        periodTo: rendered.period.to,
+        fileName: rendered.fileName,
+        sizeBytes: rendered.content.length,
+        finishedAt: new Date(),
+        durationMs: Date.now() - startedMs,
+      });
+
+      logger.info({
+        layer: 'service',
+        action: 'SAVED_REPORT_RUN_SUCCESS',
+        payload: { reportId: report.id, runId: run.id, trigger: options.trigger, format: options.format, recipients: recipients.length },
+      });
+
+      return { runId: run.id, status: 'SUCCESS', rendered };
+    } catch (err: any) {
+      const message = err?.message ?? String(err);
+      await SavedReportRepository.finishRun(run.id, {
+        status: 'FAILED',
+        error: message.slice(0, 1000),
+        finishedAt: new Date(),
+        durationMs: Date.now() - startedMs,
+      });
+
+      logger.error({
+        layer: 'service',
+        action: 'SAVED_REPORT_RUN_FAILED',
+        payload: { reportId: report.id, runId: run.id, trigger: options.trigger, error: message },
+      });
+
+      return { runId: run.id, status: 'FAILED', error: message };
+    }
+  },
+
+  /**
+   * Ejecuta las programaciones vencidas. Cada una se reclama moviendo
+   * nextRunAt antes de ejecutar, para no duplicar envíos entre instancias.
+   */
+  async runDueSchedules(options: { now?: Date; transport?: MailTransport | null } = {}) {
+    const now = options.now ?? new Date();
+    const due = await SavedReportRepository.findDueSchedules(now);
+    const summary = { due: due.length, success: 0, failed: 0, skipped: 0 };
+
+    for (const schedule of due) {
+      const claimed = await SavedReportRepository.claimSchedule(
+        schedule.id,
+        schedule.nextRunAt,
+        computeNextRunAt(schedule, now),
+        now
+      );
+      if (!claimed) {
+        summary.skipped++;
+        continue;
+      }
+
+      const result = await this.run(schedule.report, {
+        format: schedule.format as ReportFormat,
+        trigger: 'SCHEDULE',
+        recipients: schedule.recipients,
+        scheduleId: schedule.id,
+        transport: options.transport,
+        now,
+      });
+      if (result.status === 'SUCCESS') summary.success++;
+      else summary.failed++;
+    }
+
+    return summary;
+  },
+
+  nextRunAt(schedule: Pick<ReportSchedule, 'frequency' | 'timeOfDay' | 'dayOfWeek' | 'dayOfMonth'>, after?: Date) {
+    return computeNextRunAt(schedule, after);
+  },
+};
+
+export default SavedReportRunner;
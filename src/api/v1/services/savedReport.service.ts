@@ -0,0 +1,336 @@
+import { AppError } from "../../../core/errors";
+import ActivityService from "../../../core/activity.service";
+import SavedReportRepository from "../../../repositories/savedReport.repository";
+import { ActivityType, Prisma, Role, SavedReport } from "../../../generated/prisma/client";
+import { AuthUser } from "../../../core/types";
+import SavedReportRunner from "./savedReport-runner.service";
+import {
+  CreateReportScheduleInput,
+  CreateSavedReportInput,
+  ListReportRunsQuery,
+  ListSavedReportsQuery,
+  REPORT_FORMATS_BY_TYPE,
+  ReportFormat,
+  SavedReportFilters,
+  UpdateReportScheduleInput,
+  UpdateSavedReportInput,
+} from "../dto/savedReport.dto";
+
+function buildMeta(total: number, page: number, pageSize: number) {
+  const totalPages = Math.ceil(total / pageSize);
+  return {
+    total,
+    page,
+    pageSize,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+}
+
+function assertFormatSupported(filters: SavedReportFilters, format: ReportFormat) {
+  const supported = REPORT_FORMATS_BY_TYPE[filters.report];
+  if (!supported.includes(format)) {
+    throw new AppError(
+      `El reporte ${filters.report} no soporta formato ${format} (use: ${supported.join(", ")})`,
+      400
+    );
+  }
+}
+
+export const SavedReportService = {
+  async create(data: CreateSavedReportInput, actor: AuthUser, activeBancaId?: string | null) {
+    if (actor.role === Role.BANCA && !activeBancaId) {
+      throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+    }
+
+    const filters: SavedReportFilters = { report: data.report, period: data.period, params: data.params ?? {} };
+    SavedReportRunner.validateDefinition(filters);
+
+    const report = await SavedReportRepository.create({
+      name: data.name,
+      userId: actor.id,
+      bancaId: activeBancaId ?? null,
+      filters: filters as unknown as Prisma.InputJsonValue,
+      isActive: data.isActive ?? true,
+    });
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: report.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "SAVED_REPORT",
+      targetId: report.id,
+      details: {
+        op: "create",
+        filters,
+        description: `Reporte guardado "${report.name}" creado (${data.report})`,
+      },
+      layer: "service",
+    });
+
+    return report;
+  },
+
+  async findAll(query: ListSavedReportsQuery, actor: AuthUser, activeBancaId?: string | null) {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+
+    const where: Prisma.SavedReportWhereInput = {};
+    if (actor.role === Role.BANCA) {
+      if (!activeBancaId) throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+      where.bancaId = activeBancaId;
+    } else if (activeBancaId) {
+      where.bancaId = activeBancaId;
+    }
+    if (query.isActive !== undefined) where.isActive = query.isActive;
+    if (query.report) where.filters = { path: ["report"], equals: query.report };
+
+    const { data, total } = await SavedReportRepository.list(where, page, pageSize);
+    return { data, meta: buildMeta(total, page, pageSize) };
+  },
+
+  async findById(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    const report = await this.getOwned(id, actor, activeBancaId);
+    const schedules = await SavedReportRepository.listSchedules(id);
+    return { ...report, schedules };
+  },
+
+  async update(id: string, data: UpdateSavedReportInput, actor: AuthUser, activeBancaId?: string | null) {
+    const existing = await this.getOwned(id, actor, activeBancaId);
+    const current = existing.filters as unknown as SavedReportFilters;
+
+    let filters: SavedReportFilters | undefined;
+    if (data.report !== undefined || data.period !== undefined || data.params !== undefined) {
+      filters = {
+        report: data.report ?? current.report,
+        period: data.period ?? current.period,
+        // Cambiar de reporte invalida los params anteriores
+        params: data.params ?? (data.report && data.report !== current.report ? {} : current.params),
+      };
+      SavedReportRunner.validateDefinition(filters);
+
+      if (filters.report !== current.report) {
+        const schedules = await SavedReportRepository.listSchedules(id);
+        schedules.forEach((s) => assertFormatSupported(filters!, s.format as ReportFormat));
+      }
+    }
+
+    const report = await SavedReportRepository.update(id, {
+      name: data.name,
+      isActive: data.isActive,
+      filters: filters as unknown as Prisma.InputJsonValue | undefined,
+    });
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: report.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "SAVED_REPORT",
+      targetId: report.id,
+      details: {
+        op: "update",
+        changes: data,
+        description: `Reporte guardado "${report.name}" actualizado`,
+      },
+      layer: "service",
+    });
+
+    return report;
+  },
+
+  async remove(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    const existing = await this.getOwned(id, actor, activeBancaId);
+    await SavedReportRepository.delete(id);
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: existing.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "SAVED_REPORT",
+      targetId: existing.id,
+      details: {
+        op: "delete",
+        description: `Reporte guardado "${existing.name}" eliminado`,
+      },
+      layer: "service",
+    });
+
+    return { id: existing.id };
+  },
+
+  /**
+   * Ejecución manual: devuelve el archivo y queda registrada en el historial.
+   */
+  async runNow(id: string, format: ReportFormat | undefined, actor: AuthUser, activeBancaId?: string | null) {
+    const report = await this.getOwned(id, actor, activeBancaId);
+    const filters = report.filters as unknown as SavedReportFilters;
+    const effectiveFormat = format ?? REPORT_FORMATS_BY_TYPE[filters.report][0];
+    assertFormatSupported(filters, effectiveFormat);
+
+    const result = await SavedReportRunner.run(report, {
+      format: effectiveFormat,
+      trigger: "MANUAL",
+      triggeredBy: actor.id,
+    });
+    if (result.status === "FAILED" || !result.rendered) {
+      throw new AppError(`No se pudo generar el reporte: ${result.error}`, 500, { runId: result.runId });
+    }
+    return { runId: result.runId, ...result.rendered };
+  },
+
+  async runs(id: string, query: ListReportRunsQuery, actor: AuthUser, activeBancaId?: string | null) {
+    await this.getOwned(id, actor, activeBancaId);
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+
+    const where: Prisma.ReportRunWhereInput = { reportId: id };
+    if (query.status) where.status = query.status;
+
+    const { data, total } = await SavedReportRepository.listRuns(where, page, pageSize);
+    return { data, meta: buildMeta(total, page, pageSize) };
+  },
+
+  // ─── Programaciones ─────────────────────────────────────────────
+
+  async listSchedules(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    await this.getOwned(id, actor, activeBancaId);
+    return SavedReportRepository.listSchedules(id);
+  },
+
+  async createSchedule(id: string, data: CreateReportScheduleInput, actor: AuthUser, activeBancaId?: string | null) {
+    const report = await this.getOwned(id, actor, activeBancaId);
+    assertFormatSupported(report.filters as unknown as SavedReportFilters, data.format);
+
+    const timing = {
+      frequency: data.frequency,
+      timeOfDay: data.timeOfDay,
+      dayOfWeek: data.frequency === "WEEKLY" ? data.dayOfWeek ?? null : null,
+      dayOfMonth: data.frequency === "MONTHLY" ? data.dayOfMonth ?? null : null,
+    };
+    const schedule = await SavedReportRepository.createSchedule({
+      reportId: id,
+      ...timing,
+      format: data.format,
+      recipients: data.recipients,
+      isActive: data.isActive ?? true,
+      nextRunAt: SavedReportRunner.nextRunAt(timing),
+    });
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: report.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "SAVED_REPORT",
+      targetId: report.id,
+      details: {
+        op: "schedule_create",
+        scheduleId: schedule.id,
+        frequency: schedule.frequency,
+        recipients: schedule.recipients,
+        description: `Programación ${schedule.frequency} agregada al reporte "${report.name}"`,
+      },
+      layer: "service",
+    });
+
+    return schedule;
+  },
+
+  async updateSchedule(
+    id: string,
+    scheduleId: string,
+    data: UpdateReportScheduleInput,
+    actor: AuthUser,
+    activeBancaId?: string | null
+  ) {
+    const report = await this.getOwned(id, actor, activeBancaId);
+    const existing = await SavedReportRepository.findSchedule(id, scheduleId);
+    if (!existing) throw new AppError("Programación no encontrada", 404, "NOT_FOUND");
+
+    if (data.format) assertFormatSupported(report.filters as unknown as SavedReportFilters, data.format);
+
+    const frequency = data.frequency ?? existing.frequency;
+    const timing = {
+      frequency,
+      timeOfDay: data.timeOfDay ?? existing.timeOfDay,
+      dayOfWeek: frequency === "WEEKLY" ? (data.dayOfWeek !== undefined ? data.dayOfWeek : existing.dayOfWeek) : null,
+      dayOfMonth: frequency === "MONTHLY" ? (data.dayOfMonth !== undefined ? data.dayOfMonth : existing.dayOfMonth) : null,
+    };
+    if (frequency === "WEEKLY" && !timing.dayOfWeek) {
+      throw new AppError("dayOfWeek es requerido para frecuencia WEEKLY", 400);
+    }
+    if (frequency === "MONTHLY" && !timing.dayOfMonth) {
+      throw new AppError("dayOfMonth es requerido para frecuencia MONTHLY", 400);
+    }
+
+    const timingChanged =
+      timing.frequency !== existing.frequency ||
+      timing.timeOfDay !== existing.timeOfDay ||
+      timing.dayOfWeek !== existing.dayOfWeek ||
+      timing.dayOfMonth !== existing.dayOfMonth;
+    const reactivated = data.isActive === true && !existing.isActive;
+
+    const schedule = await SavedReportRepository.updateSchedule(scheduleId, {
+      ...timing,
+      format: data.format,
+      recipients: data.recipients,
+      isActive: data.isActive,
+      // Al cambiar horario o reactivar, no ejecutar lo atrasado
+      nextRunAt: timingChanged || reactivated ? SavedReportRunner.nextRunAt(timing) : undefined,
+    });
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: report.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "SAVED_REPORT",
+      targetId: report.id,
+      details: {
+        op: "schedule_update",
+        scheduleId,
+        changes: data,
+        description: `Programación del reporte "${report.name}" actualizada`,
+      },
+      layer: "service",
+    });
+
+    return schedule;
+  },
+
+  async removeSchedule(id: string, scheduleId: string, actor: AuthUser, activeBancaId?: string | null) {
+    const report = await this.getOwned(id, actor, activeBancaId);
+    const existing = await SavedReportRepository.findSchedule(id, scheduleId);
+    if (!existing) throw new AppError("Programación no encontrada", 404, "NOT_FOUND");
+
+    await SavedReportRepository.deleteSchedule(scheduleId);
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: report.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "SAVED_REPORT",
+      targetId: report.id,
+      details: {
+        op: "schedule_delete",
+        scheduleId,
+        description: `Programación eliminada del reporte "${report.name}"`,
+      },
+      layer: "service",
+    });
+
+    return { id: scheduleId };
+  },
+
+  /** Carga el reporte y valida que pertenezca a la banca del actor */
+  async getOwned(id: string, actor: AuthUser, activeBancaId?: string | null): Promise<SavedReport> {
+    const report = await SavedReportRepository.findById(id);
+    if (!report) throw new AppError("Reporte guardado no encontrado", 404, "NOT_FOUND");
+
+    if (actor.role === Role.BANCA && report.bancaId !== activeBancaId) {
+      throw new AppError("No tienes permiso para gestionar este reporte", 403, "FORBIDDEN");
+    }
+    return report;
+  },
+};
+
+export default SavedReportService;
@@ -25,6 +25,8 @@ import { CacheService } from "../../../core/cache.service";
 import crypto from 'crypto';
 import { ConcurrencyManager } from "../../../utils/concurrency";
 import { SorteoEvaluationCoordinator } from "./sorteoEvaluation.coordinator";
+import { RealtimeService } from "./realtime.service";
+import { PeriodLockService } from "./accounts/accounts.periodLocks";
 
 const FINAL_STATES: Set<SorteoStatus> = new Set([
   SorteoStatus.EVALUATED,
@@ -32,6 +34,11 @@ const FINAL_STATES: Set<SorteoStatus> = new Set([
 ]);
 const EVALUABLE_STATES = new Set<SorteoStatus>([SorteoStatus.OPEN]);
 
+interface SorteoApprovalOptions {
+  /** Solicitud de doble control APPROVED y sin ejecutar; se valida contra el sorteo, la acción y los datos */
+  approvedRequestId?: string;
+}
+
 function extractReventadoEnabled(loteria: any): boolean {
   if (!loteria || typeof loteria !== "object") return false;
   const rules = (loteria as any)?.rulesJson;
@@ -308,6 +315,7 @@ const SorteoService = {
 
     const s = await SorteoRepository.forceOpen(id);
     CacheService.invalidateTag(`sorteo:${id}`).catch(() => {});
+    RealtimeService.sorteoStatus(existing, existing.status, SorteoStatus.OPEN);
 
     const sFormattedAt = formatDateCRWithTZ(existing.scheduledAt);
     const lotName = existing.loteria?.name || 'Lotería';
@@ -506,6 +514,7 @@ const SorteoService = {
     const { clearSorteoCache } = require('../../../utils/sorteoCache');
     clearSorteoCache();
     CacheService.invalidateTag(`sorteo:${id}`).catch(() => {});
+    RealtimeService.sorteoStatus(existing, existing.status, SorteoStatus.OPEN);
 
     const sFormattedAt = formatDateCRWithTZ(existing.scheduledAt);
     const lotName = existing.loteria?.name || 'Lotería';
@@ -545,6 +554,7 @@ const SorteoService = {
     const { clearSorteoCache } = require('../../../utils/sorteoCache');
     clearSorteoCache();
     CacheService.invalidateTag(`sorteo:${id}`).catch(() => {});
+    RealtimeService.sorteoStatus(existing, existing.status, SorteoStatus.CLOSED);
 
     const sFormattedAt = formatDateCRWithTZ(existing.scheduledAt);
     const lotName = existing.loteria?.name || 'Lotería';
@@ -569,7 +579,18 @@ const SorteoService = {
     return serializeSorteo(s);
   },
 
-  async evaluate(id: string, body: EvaluateSorteoDTO, userId: string, bancaId?: string, role?: Role) {
+  /**
+   * `userId` null: resultado aplicado automáticamente por el sistema (sorteoResult.service).
+   * Banca con doble control: devuelve `{ approval }` pendiente en lugar de evaluar.
+   */
+  async evaluate(
+    id: string,
+    body: EvaluateSorteoDTO,
+    userId: string | null,
+    bancaId?: string,
+    role?: Role,
+    options: SorteoApprovalOptions = {}
+  ) {
     // 1) Cargar sorteo y validar propiedad
     const existing = await this.validateSorteoOwnership(id, bancaId, role);
 
@@ -582,6 +603,16 @@ const SorteoService = {
       role
     );
 
+    // 2.1) Banca con doble control: queda pendiente hasta que otro usuario apruebe.
+    // Con solicitud ya aprobada se valida y se consume antes de escribir.
+    const { SorteoApprovalService } = await import('./sorteoApproval.service');
+    if (options.approvedRequestId) {
+      await SorteoApprovalService.consumeApproved(options.approvedRequestId, id, "EVALUATE", body);
+    } else {
+      const approval = await SorteoApprovalService.proposeIfRequired("EVALUATE", existing, body, userId);
+      if (approval) return { approval };
+    }
+
     // 3) Ejecutar la evaluación transaccional (ACID) en base de datos
     const evaluated = await SorteoRepository.evaluate(id, {
       winningNumber: body.winningNumber.trim(),
@@ -661,7 +692,15 @@ const SorteoService = {
     return serializeSorteo(s);
   },
 
-  async revertEvaluation(id: string, userId: string, reason?: string, bancaId?: string, role?: Role) {
+  /** Banca con doble control: devuelve `{ approval }` pendiente en lugar de revertir */
+  async revertEvaluation(
+    id: string,
+    userId: string,
+    reason?: string,
+    bancaId?: string,
+    role?: Role,
+    options: SorteoApprovalOptions = {}
+  ) {
     const existing = await this.validateSorteoOwnership(id, bancaId, role);
     
     if (bancaId && !existing.bancaId && role !== Role.ADMIN) {
@@ -670,8 +709,18 @@ const SorteoService = {
     if (existing.status !== SorteoStatus.EVALUATED) {
       throw new AppError("Solo se puede revertir un sorteo evaluado", 409);
     }
+    await PeriodLockService.assertSorteoOpen(id, "revertir la evaluación del sorteo");
+
+    const { SorteoApprovalService } = await import('./sorteoApproval.service');
+    if (options.approvedRequestId) {
+      await SorteoApprovalService.consumeApproved(options.approvedRequestId, id, "REVERT");
+    } else {
+      const approval = await SorteoApprovalService.proposeIfRequired("REVERT", existing, { reason }, userId);
+      if (approval) return { approval };
+    }
 
     const reverted = await SorteoRepository.revertEvaluation(id);
+    RealtimeService.sorteoStatus(existing, existing.status, reverted.status);
 
     // Sincronizar AccountStatements después de revertir - SEGUNDO PLANO
     try {
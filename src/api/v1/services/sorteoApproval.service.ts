@@ -0,0 +1,329 @@
+import { AppError } from "../../../core/errors";
+import ActivityService from "../../../core/activity.service";
+import { AuthUser } from "../../../core/types";
+import { config } from "../../../config";
+import { ActivityType, Prisma, Role } from "../../../generated/prisma/client";
+import SorteoApprovalRepository from "../../../repositories/sorteoApproval.repository";
+import SorteoService from "./sorteo.service";
+import { EvaluateSorteoDTO } from "../dto/sorteo.dto";
+import {
+  ApproveSorteoApprovalInput,
+  ListSorteoApprovalsQuery,
+  RejectSorteoApprovalInput,
+  SorteoApprovalAction,
+} from "../dto/sorteoApproval.dto";
+
+type ApprovalWithSorteo = NonNullable<Awaited<ReturnType<typeof SorteoApprovalRepository.findById>>>;
+
+const ACTION_LABELS: Record<SorteoApprovalAction, string> = {
+  EVALUATE: "evaluación",
+  REVERT: "reversión de evaluación",
+};
+
+/** Datos de evaluación tal como se guardan en la solicitud y se comparan al aprobar */
+function normalizeEvaluation(data: EvaluateSorteoDTO) {
+  const extraMultiplierId = data.extraMultiplierId?.trim();
+  return {
+    winningNumber: data.winningNumber.trim(),
+    extraMultiplierId: extraMultiplierId && extraMultiplierId !== "none" ? extraMultiplierId : null,
+    extraOutcomeCode: data.extraOutcomeCode?.trim() || null,
+  };
+}
+
+/** Campos de la evaluación confirmada que difieren de lo propuesto */
+function evaluationMismatch(proposed: EvaluateSorteoDTO, confirmed: EvaluateSorteoDTO) {
+  const a = normalizeEvaluation(proposed);
+  const b = normalizeEvaluation(confirmed);
+  return (Object.keys(a) as Array<keyof typeof a>).filter((field) => a[field] !== b[field]);
+}
+
+function buildMeta(total: number, page: number, pageSize: number) {
+  const totalPages = Math.ceil(total / pageSize);
+  return {
+    total,
+    page,
+    pageSize,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+}
+
+export const SorteoApprovalService = {
+  /**
+   * Si la banca del sorteo exige doble control, registra la evaluación/reversión como
+   * solicitud pendiente y devuelve la solicitud. Devuelve null si se puede ejecutar directo.
+   * Lo llama SorteoService con el sorteo ya validado, justo antes de escribir: ningún camino
+   * (endpoint, resultados, integraciones) evalúa o revierte sin pasar por aquí.
+   */
+  async proposeIfRequired(
+    action: SorteoApprovalAction,
+    sorteo: { id: string; bancaId: string | null; name: string },
+    payload: EvaluateSorteoDTO | { reason?: string | null },
+    proposedBy: string | null
+  ) {
+    // Sorteos globales: solo ADMIN, sin política de banca
+    if (!sorteo.bancaId) return null;
+    if (!(await SorteoApprovalRepository.isDualControlEnabled(sorteo.bancaId))) return null;
+    if (!proposedBy) {
+      throw new AppError("La banca exige doble control: la operación requiere un usuario que la proponga", 409, "DUAL_CONTROL_REQUIRED");
+    }
+
+    const now = new Date();
+    await SorteoApprovalRepository.expireStale(now);
+    const pending = await SorteoApprovalRepository.findPendingForSorteo(sorteo.id);
+    if (pending) {
+      throw new AppError("El sorteo ya tiene una solicitud pendiente de aprobación", 409, { approvalId: pending.id });
+    }
+
+    const normalized =
+      action === "EVALUATE"
+        ? normalizeEvaluation(payload as EvaluateSorteoDTO)
+        : { reason: (payload as { reason?: string | null }).reason ?? null };
+
+    const created = await SorteoApprovalRepository.create({
+      sorteoId: sorteo.id,
+      bancaId: sorteo.bancaId,
+      action,
+      payload: normalized as Prisma.InputJsonValue,
+      proposedBy,
+      expiresAt: new Date(now.getTime() + config.sorteoApprovals.ttlMinutes * 60 * 1000),
+    });
+    const approval = (await SorteoApprovalRepository.findById(created.id))!;
+
+    await this.logAction(
+      approval,
+      proposedBy,
+      "approval_proposed",
+      `Solicitud de ${ACTION_LABELS[action]} de ${sorteo.name} pendiente de aprobación`
+    );
+    return approval;
+  },
+
+  /**
+   * Aprobación por un segundo usuario. En EVALUATE debe volver a digitar el número:
+   * si no coincide la solicitud se rechaza y hay que proponerla de nuevo.
+   */
+  async approve(id: string, data: ApproveSorteoApprovalInput, actor: AuthUser, activeBancaId?: string | null) {
+    await SorteoApprovalRepository.expireStale(new Date());
+    const approval = await this.getOwned(id, actor, activeBancaId);
+    if (approval.status !== "PENDING") {
+      throw new AppError(`La solicitud ya está ${approval.status}`, 409);
+    }
+    if (approval.proposedBy === actor.id) {
+      throw new AppError("Debe aprobarla un usuario distinto a quien la propuso", 409, "SECOND_APPROVER_REQUIRED");
+    }
+
+    const action = approval.action as SorteoApprovalAction;
+    const payload = approval.payload as Record<string, any>;
+
+    if (action === "EVALUATE") {
+      if (!data.winningNumber) {
+        throw new AppError("Digite el número ganador para confirmar la evaluación", 400);
+      }
+      // Se compara todo lo que se va a aplicar, no solo el número
+      const mismatch = evaluationMismatch(payload as EvaluateSorteoDTO, {
+        winningNumber: data.winningNumber,
+        extraMultiplierId: data.extraMultiplierId,
+        extraOutcomeCode: data.extraOutcomeCode,
+      });
+      if (mismatch.length > 0) {
+        await SorteoApprovalRepository.transition(id, "PENDING", {
+          status: "REJECTED",
+          decidedBy: actor.id,
+          decidedAt: new Date(),
+          decisionNote: `La confirmación no coincide con lo propuesto (${mismatch.join(", ")})`,
+        });
+        await this.logAction(approval, actor.id, "approval_mismatch", `Confirmación no coincide para ${approval.sorteo.name}; solicitud rechazada`, {
+          mismatch,
+        });
+        throw new AppError("Lo digitado no coincide con lo propuesto; la solicitud fue rechazada", 409, {
+          code: mismatch.includes("winningNumber") ? "WINNING_NUMBER_MISMATCH" : "EVALUATION_MISMATCH",
+          fields: mismatch,
+        });
+      }
+    }
+
+    const claimed = await SorteoApprovalRepository.transition(id, "PENDING", {
+      status: "APPROVED",
+      decidedBy: actor.id,
+      decidedAt: new Date(),
+      decisionNote: data.note ?? null,
+    });
+    if (!claimed) throw new AppError("La solicitud cambió de estado, recargue e intente de nuevo", 409);
+
+    let sorteo;
+    try {
+      sorteo =
+        action === "EVALUATE"
+          ? await SorteoService.evaluate(
+              approval.sorteoId,
+              payload as EvaluateSorteoDTO,
+              actor.id,
+              activeBancaId ?? undefined,
+              actor.role,
+              { approvedRequestId: approval.id }
+            )
+          : await SorteoService.revertEvaluation(
+              approval.sorteoId,
+              actor.id,
+              payload.reason ?? undefined,
+              activeBancaId ?? undefined,
+              actor.role,
+              { approvedRequestId: approval.id }
+            );
+    } catch (err: any) {
+      await this.markFailed(id, err);
+      throw err;
+    }
+
+    await this.logAction(approval, actor.id, "approval_approved", `Solicitud de ${ACTION_LABELS[action]} de ${approval.sorteo.name} aprobada y ejecutada`);
+    return { approval: (await SorteoApprovalRepository.findById(id))!, sorteo };
+  },
+
+  /**
+   * Registra como solicitud APPROVED una evaluación que ya confirmaron dos personas fuera de
+   * esta bandeja (segunda confirmación de la cola de resultados). Devuelve la solicitud para
+   * ejecutarla con `approvedRequestId`.
+   */
+  async recordConfirmed(
+    sorteo: { id: string; bancaId: string | null; name: string },
+    payload: EvaluateSorteoDTO,
+    proposedBy: string,
+    decidedBy: string,
+    note: string
+  ) {
+    const now = new Date();
+    const created = await SorteoApprovalRepository.create({
+      sorteoId: sorteo.id,
+      bancaId: sorteo.bancaId,
+      action: "EVALUATE",
+      payload: normalizeEvaluation(payload) as Prisma.InputJsonValue,
+      status: "APPROVED",
+      proposedBy,
+      proposedAt: now,
+      expiresAt: now,
+      decidedBy,
+      decidedAt: now,
+      decisionNote: note,
+    });
+    const approval = (await SorteoApprovalRepository.findById(created.id))!;
+    await this.logAction(approval, decidedBy, "approval_confirmed", `Evaluación de ${sorteo.name} confirmada por dos usuarios`);
+    return approval;
+  },
+
+  /**
+   * Lo llama SorteoService cuando recibe `approvedRequestId`: la solicitud debe estar APPROVED,
+   * ser de ese sorteo y acción, no haberse ejecutado antes y, en EVALUATE, traer lo aprobado.
+   * La marca como ejecutada; cualquier otro caso es 409 APPROVAL_INVALID.
+   */
+  async consumeApproved(id: string, sorteoId: string, action: SorteoApprovalAction, payload?: EvaluateSorteoDTO) {
+    const approval = await SorteoApprovalRepository.findById(id);
+    const invalid = (reason: string) =>
+      new AppError(`La solicitud de aprobación no autoriza esta operación (${reason})`, 409, "APPROVAL_INVALID");
+
+    if (!approval || approval.sorteoId !== sorteoId || approval.action !== action) {
+      throw invalid("no corresponde al sorteo o a la acción");
+    }
+    if (approval.status !== "APPROVED" || approval.executedAt) {
+      throw invalid(approval.executedAt ? "ya fue ejecutada" : `está ${approval.status}`);
+    }
+    if (action === "EVALUATE") {
+      const mismatch = evaluationMismatch(approval.payload as Record<string, any> as EvaluateSorteoDTO, payload!);
+      if (mismatch.length > 0) throw invalid(`difiere en ${mismatch.join(", ")}`);
+    }
+    if (!(await SorteoApprovalRepository.consume(id, sorteoId, action))) {
+      throw invalid("ya fue ejecutada");
+    }
+  },
+
+  /** La solicitud se aprobó pero la ejecución falló */
+  async markFailed(id: string, err: any) {
+    await SorteoApprovalRepository.transition(id, "APPROVED", { status: "FAILED", error: err?.message ?? String(err) });
+  },
+
+  /** Rechazo por otro usuario o retiro por quien la propuso */
+  async reject(id: string, data: RejectSorteoApprovalInput, actor: AuthUser, activeBancaId?: string | null) {
+    const approval = await this.getOwned(id, actor, activeBancaId);
+    const moved = await SorteoApprovalRepository.transition(id, "PENDING", {
+      status: "REJECTED",
+      decidedBy: actor.id,
+      decidedAt: new Date(),
+      decisionNote: data.note ?? null,
+    });
+    if (!moved) throw new AppError(`La solicitud ya está ${approval.status}`, 409);
+
+    await this.logAction(
+      approval,
+      actor.id,
+      approval.proposedBy === actor.id ? "approval_withdrawn" : "approval_rejected",
+      `Solicitud de ${ACTION_LABELS[approval.action as SorteoApprovalAction]} de ${approval.sorteo.name} rechazada`,
+      { note: data.note ?? null }
+    );
+    return (await SorteoApprovalRepository.findById(id))!;
+  },
+
+  /** Por defecto lista las pendientes (bandeja del aprobador) */
+  async findAll(query: ListSorteoApprovalsQuery, actor: AuthUser, activeBancaId?: string | null) {
+    await SorteoApprovalRepository.expireStale(new Date());
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+
+    const where: Prisma.SorteoApprovalWhereInput = { status: query.status ?? "PENDING" };
+    if (actor.role === Role.BANCA) {
+      if (!activeBancaId) throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+      where.bancaId = activeBancaId;
+    } else if (activeBancaId) {
+      where.bancaId = activeBancaId;
+    }
+    if (query.action) where.action = query.action;
+    if (query.sorteoId) where.sorteoId = query.sorteoId;
+
+    const { data, total } = await SorteoApprovalRepository.list(where, page, pageSize);
+    return { data, meta: buildMeta(total, page, pageSize) };
+  },
+
+  async findById(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    await SorteoApprovalRepository.expireStale(new Date());
+    return this.getOwned(id, actor, activeBancaId);
+  },
+
+  async logAction(
+    approval: ApprovalWithSorteo,
+    userId: string,
+    op: string,
+    description: string,
+    extra: Record<string, unknown> = {}
+  ) {
+    await ActivityService.log({
+      userId,
+      bancaId: approval.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "SORTEO",
+      targetId: approval.sorteoId,
+      details: {
+        op,
+        approvalId: approval.id,
+        approvalAction: approval.action,
+        proposedBy: approval.proposedBy,
+        payload: approval.payload,
+        ...extra,
+        description,
+      } as Prisma.InputJsonObject,
+      layer: "service",
+    });
+  },
+
+  /** Carga la solicitud y valida que pertenezca a la banca del actor */
+  async getOwned(id: string, actor: AuthUser, activeBancaId?: string | null): Promise<ApprovalWithSorteo> {
+    const approval = await SorteoApprovalRepository.findById(id);
+    if (!approval) throw new AppError("Solicitud de aprobación no encontrada", 404, "NOT_FOUND");
+
+    if (actor.role !== Role.ADMIN && approval.bancaId !== activeBancaId) {
+      throw new AppError("No tienes permiso para gestionar esta solicitud", 403, "FORBIDDEN");
+    }
+    return approval;
+  },
+};
+
+export default SorteoApprovalService;
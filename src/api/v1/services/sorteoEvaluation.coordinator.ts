@@ -7,6 +7,8 @@ import logger from "../../../core/logger";
 import { CacheService } from "../../../core/cache.service";
 import ActivityService from "../../../core/activity.service";
 import { clearSorteoCache } from "../../../utils/sorteoCache";
+import { WebhookService } from "./webhook.service";
+import { RealtimeService } from "./realtime.service";
 
 const EVALUABLE_STATES = new Set<SorteoStatus>([SorteoStatus.OPEN]);
 
@@ -89,7 +91,7 @@ export class SorteoEvaluationCoordinator {
     extraMultiplierId: string | null | undefined,
     existingSorteo: any,
     evaluatedSorteo: any,
-    userId: string
+    userId: string | null
   ) {
     // 1. Sincronización de Cuentas (Fire-and-Forget)
     import("./accounts/accounts.sync.service")
@@ -162,5 +164,17 @@ export class SorteoEvaluationCoordinator {
         payload: { sorteoId: id, error: err.message },
       });
     });
+
+    // 4. Webhooks salientes
+    WebhookService.emit("sorteo.evaluated", existingSorteo.bancaId, {
+      sorteoId: id,
+      loteriaId: existingSorteo.loteriaId,
+      scheduledAt: existingSorteo.scheduledAt,
+      winningNumber,
+      extraMultiplierId: extraMultiplierId ?? null,
+      extraOutcomeCode: (evaluatedSorteo as any)?.extraOutcomeCode ?? null,
+      hasWinner: (evaluatedSorteo as any)?.hasWinner ?? null,
+    });
+    RealtimeService.sorteoStatus({ ...existingSorteo, winningNumber }, existingSorteo.status, SorteoStatus.EVALUATED);
   }
 }
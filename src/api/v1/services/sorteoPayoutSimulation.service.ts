@@ -0,0 +1,204 @@
+import prisma from "../../../core/prismaClient";
+import { AppError } from "../../../core/errors";
+import { MultiplierKind, Role } from "../../../generated/prisma/client";
+import SorteoRepository from "../../../repositories/sorteo.repository";
+import SorteoService from "./sorteo.service";
+
+type ExposureRow = Awaited<ReturnType<typeof SorteoRepository.aggregatePayoutExposure>>[number];
+
+/** Escenario de reventado: null = sin multiplicador extra (REVENTADO no paga) */
+interface ReventadoScenario {
+  extraMultiplierId: string | null;
+  name: string;
+  valueX: number;
+}
+
+const BASE_SCENARIO: ReventadoScenario = { extraMultiplierId: null, name: "Sin reventado", valueX: 0 };
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function payoutsFor(row: { numeroPayout: number; reventadoAmount: number }, scenarios: ReventadoScenario[]) {
+  return scenarios.map((s) => ({
+    extraMultiplierId: s.extraMultiplierId,
+    totalPayout: round2(row.numeroPayout + row.reventadoAmount * s.valueX),
+  }));
+}
+
+/**
+ * Multiplicadores REVENTADO que podrían aplicarse al sorteo (mismas reglas que la evaluación).
+ * Con extraMultiplierId se simula solo ese.
+ */
+export async function resolveScenarios(sorteo: { id: string; loteriaId: string }, extraMultiplierId?: string) {
+  const multipliers = await prisma.loteriaMultiplier.findMany({
+    where: {
+      loteriaId: sorteo.loteriaId,
+      kind: MultiplierKind.REVENTADO,
+      isActive: true,
+      OR: [{ appliesToSorteoId: null }, { appliesToSorteoId: sorteo.id }],
+      ...(extraMultiplierId ? { id: extraMultiplierId } : {}),
+    },
+    select: { id: true, name: true, valueX: true },
+    orderBy: { valueX: "asc" },
+  });
+
+  if (extraMultiplierId) {
+    if (!multipliers.length) {
+      throw new AppError("extraMultiplierId inválido, inactivo o no aplica a este sorteo", 400);
+    }
+    return multipliers.map((m) => ({ extraMultiplierId: m.id, name: m.name, valueX: m.valueX }));
+  }
+  return [BASE_SCENARIO, ...multipliers.map((m) => ({ extraMultiplierId: m.id, name: m.name, valueX: m.valueX }))];
+}
+
+function sumRows(rows: ExposureRow[]) {
+  return rows.reduce(
+    (acc, r) => ({
+      amount: acc.amount + Number(r.amount),
+      numeroPayout: acc.numeroPayout + Number(r.numeroPayout),
+      reventadoAmount: acc.reventadoAmount + Number(r.reventadoAmount),
+      tickets: acc.tickets + Number(r.tickets),
+    }),
+    { amount: 0, numeroPayout: 0, reventadoAmount: 0, tickets: 0 }
+  );
+}
+
+function groupRows(rows: ExposureRow[], key: "ventanaId" | "vendedorId") {
+  const groups = new Map<string, ExposureRow[]>();
+  for (const row of rows) {
+    const id = row[key];
+    if (!id) continue;
+    groups.set(id, [...(groups.get(id) ?? []), row]);
+  }
+  return groups;
+}
+
+function sorteoSummary(sorteo: Awaited<ReturnType<typeof SorteoService.validateSorteoOwnership>>) {
+  return {
+    id: sorteo.id,
+    name: sorteo.name,
+    scheduledAt: sorteo.scheduledAt,
+    status: sorteo.status,
+    digits: sorteo.digits,
+    loteria: sorteo.loteria,
+  };
+}
+
+/**
+ * Simulación de premios antes de evaluar: "si sale X, cuánto pagamos".
+ * Solo lectura; usa la misma agregación y exclusiones de listas que fn_evaluate_sorteo.
+ */
+export const SorteoPayoutSimulationService = {
+  async simulate(
+    id: string,
+    query: { number: string; extraMultiplierId?: string },
+    bancaId?: string,
+    role?: Role
+  ) {
+    const sorteo = await SorteoService.validateSorteoOwnership(id, bancaId, role);
+    const digits = sorteo.digits ?? 2;
+    if (query.number.length !== digits) {
+      throw new AppError(`El número debe tener ${digits} dígitos (recibido: ${query.number.length})`, 400);
+    }
+
+    const [scenarios, allRows, numberRows] = await Promise.all([
+      resolveScenarios(sorteo, query.extraMultiplierId),
+      SorteoRepository.aggregatePayoutExposure(id),
+      SorteoRepository.aggregatePayoutExposure(id, query.number),
+    ]);
+
+    const totalSales = sumRows(allRows).amount;
+    const totals = sumRows(numberRows);
+    const byVentanaRows = groupRows(numberRows, "ventanaId");
+    const byVendedorRows = groupRows(numberRows, "vendedorId");
+
+    const [ventanas, vendedores] = await Promise.all([
+      prisma.ventana.findMany({ where: { id: { in: [...byVentanaRows.keys()] } }, select: { id: true, name: true } }),
+      prisma.user.findMany({ where: { id: { in: [...byVendedorRows.keys()] } }, select: { id: true, name: true } }),
+    ]);
+    const ventanaNames = new Map(ventanas.map((v) => [v.id, v.name]));
+    const vendedorNames = new Map(vendedores.map((v) => [v.id, v.name]));
+
+    const entry = (rows: ExposureRow[]) => {
+      const t = sumRows(rows);
+      return {
+        amount: round2(t.amount),
+        numeroPayout: round2(t.numeroPayout),
+        reventadoAmount: round2(t.reventadoAmount),
+        tickets: t.tickets,
+        payouts: payoutsFor(t, scenarios),
+      };
+    };
+
+    return {
+      sorteo: sorteoSummary(sorteo),
+      number: query.number,
+      totalSales: round2(totalSales),
+      numberSales: round2(totals.amount),
+      numeroPayout: round2(totals.numeroPayout),
+      reventadoAmount: round2(totals.reventadoAmount),
+      scenarios: scenarios.map((s) => {
+        const totalPayout = round2(totals.numeroPayout + totals.reventadoAmount * s.valueX);
+        return { ...s, reventadoPayout: round2(totals.reventadoAmount * s.valueX), totalPayout, net: round2(totalSales - totalPayout) };
+      }),
+      byVentana: [...byVentanaRows.entries()]
+        .map(([ventanaId, rows]) => ({ ventanaId, ventanaName: ventanaNames.get(ventanaId) ?? null, ...entry(rows) }))
+        .sort((a, b) => b.numeroPayout - a.numeroPayout),
+      byVendedor: [...byVendedorRows.entries()]
+        .map(([vendedorId, rows]) => ({
+          vendedorId,
+          vendedorName: vendedorNames.get(vendedorId) ?? null,
+          ventanaId: rows[0].ventanaId,
+          ...entry(rows),
+        }))
+        .sort((a, b) => b.numeroPayout - a.numeroPayout),
+    };
+  },
+
+  /**
+   * Pasivo por cada número posible (00–99 / 000–999) y el peor caso.
+   */
+  async matrix(id: string, query: { extraMultiplierId?: string }, bancaId?: string, role?: Role) {
+    const sorteo = await SorteoService.validateSorteoOwnership(id, bancaId, role);
+    const digits = sorteo.digits ?? 2;
+
+    const [scenarios, rows] = await Promise.all([
+      resolveScenarios(sorteo, query.extraMultiplierId),
+      SorteoRepository.aggregatePayoutExposure(id),
+    ]);
+    const byNumber = new Map(rows.map((r) => [r.number, r]));
+    const totalSales = sumRows(rows).amount;
+
+    const numbers = Array.from({ length: 10 ** digits }, (_, i) => {
+      const number = String(i).padStart(digits, "0");
+      const row = byNumber.get(number);
+      const exposure = {
+        amount: Number(row?.amount ?? 0),
+        numeroPayout: Number(row?.numeroPayout ?? 0),
+        reventadoAmount: Number(row?.reventadoAmount ?? 0),
+      };
+      const payouts = payoutsFor(exposure, scenarios);
+      const maxPayout = Math.max(...payouts.map((p) => p.totalPayout));
+      return {
+        number,
+        amount: round2(exposure.amount),
+        numeroPayout: round2(exposure.numeroPayout),
+        reventadoAmount: round2(exposure.reventadoAmount),
+        payouts,
+        maxPayout,
+        net: round2(totalSales - maxPayout),
+      };
+    });
+
+    const worst = numbers.reduce((a, b) => (b.maxPayout > a.maxPayout ? b : a), numbers[0]);
+
+    return {
+      sorteo: sorteoSummary(sorteo),
+      totalSales: round2(totalSales),
+      scenarios,
+      worst: { number: worst.number, maxPayout: worst.maxPayout, net: worst.net },
+      numbers,
+    };
+  },
+};
+
+export default SorteoPayoutSimulationService;
@@ -0,0 +1,401 @@
+import { AppError } from "../../../core/errors";
+import logger from "../../../core/logger";
+import ActivityService from "../../../core/activity.service";
+import { AuthUser } from "../../../core/types";
+import { config } from "../../../config";
+import { ActivityType, Prisma, Role } from "../../../generated/prisma/client";
+import SorteoResultRepository, { SorteoAwaitingResult } from "../../../repositories/sorteoResult.repository";
+import SorteoService from "./sorteo.service";
+import { SorteoApprovalService } from "./sorteoApproval.service";
+import { createResultProvider } from "../../../services/results/providers";
+import { ResultProvider } from "../../../services/results/types";
+import {
+  parseResultsProviderConfig,
+  ResultsProviderConfig,
+} from "../../../types/schemas/databaseJson.schema";
+import {
+  ConfirmSorteoResultInput,
+  ListSorteoResultsQuery,
+  OPEN_RESULT_STATUSES,
+  RejectSorteoResultInput,
+  SubmitSorteoResultInput,
+} from "../dto/sorteoResult.dto";
+
+type IngestOutcome = "not_ready" | "error" | "queued" | "applied" | "failed";
+
+type ResultWithSorteo = NonNullable<Awaited<ReturnType<typeof SorteoResultRepository.findById>>>;
+
+function buildMeta(total: number, page: number, pageSize: number) {
+  const totalPages = Math.ceil(total / pageSize);
+  return {
+    total,
+    page,
+    pageSize,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+}
+
+/** Mensaje de error si el número no cumple con los dígitos del sorteo; null si es válido */
+export function validateResultDigits(winningNumber: string, digits: number): string | null {
+  if (!/^\d+$/.test(winningNumber)) {
+    return `El número ganador solo admite dígitos (recibido: "${winningNumber}")`;
+  }
+  if (winningNumber.length !== digits) {
+    return `El número ganador debe tener ${digits} dígitos (recibido: ${winningNumber.length})`;
+  }
+  return null;
+}
+
+/** Doble confirmación propia de la cola o doble control general de evaluación */
+function requiresSecondConfirmation(banca: { resultsDualConfirmation: boolean; evaluationDualControl: boolean } | null) {
+  return !!banca && (banca.resultsDualConfirmation || banca.evaluationDualControl);
+}
+
+/**
+ * Motivo por el que un resultado no puede aplicarse sin intervención humana (null = puede).
+ * Reventado necesita elegir el multiplicador extra, y las bancas con doble confirmación
+ * siempre revisan el número aunque el proveedor esté en modo auto.
+ */
+function autoApplyBlocker(sorteo: SorteoAwaitingResult, providerConfig: ResultsProviderConfig): string | null {
+  if (providerConfig.mode !== "auto") return "Proveedor en modo confirmación";
+  if (requiresSecondConfirmation(sorteo.banca)) return "La banca exige doble confirmación";
+  if ((sorteo.loteria.rulesJson as any)?.reventadoConfig?.enabled) return "Lotería con reventado";
+  return null;
+}
+
+function toView(result: ResultWithSorteo) {
+  const { sorteo, ...rest } = result;
+  const { loteria, banca, ...sorteoRest } = sorteo;
+  return {
+    ...rest,
+    sorteo: { ...sorteoRest, loteria: { id: loteria.id, name: loteria.name } },
+    dualConfirmation: requiresSecondConfirmation(banca),
+  };
+}
+
+export const SorteoResultService = {
+  /**
+   * Recorre los sorteos que ya se jugaron y consulta a su proveedor de resultados.
+   * Llamado por el job de ingesta.
+   */
+  async ingestDue(now: Date = new Date(), resolveProvider: (c: ResultsProviderConfig) => ResultProvider = createResultProvider) {
+    const from = new Date(now.getTime() - config.resultsIngestion.lookbackHours * 60 * 60 * 1000);
+    const sorteos = await SorteoResultRepository.findAwaitingResults(from, now);
+
+    const summary = { checked: 0, queued: 0, applied: 0, failed: 0, notReady: 0, errors: 0 };
+    for (const sorteo of sorteos) {
+      const providerConfig = parseResultsProviderConfig(sorteo.loteria.rulesJson);
+      if (!providerConfig || providerConfig.type === "manual") continue;
+      if (now.getTime() < sorteo.scheduledAt.getTime() + providerConfig.delayMinutes * 60 * 1000) continue;
+
+      summary.checked++;
+      const outcome = await this.ingestSorteo(sorteo, providerConfig, resolveProvider(providerConfig));
+      if (outcome === "not_ready") summary.notReady++;
+      else if (outcome === "error") summary.errors++;
+      else summary[outcome]++;
+    }
+    return summary;
+  },
+
+  /**
+   * Consulta un proveedor para un sorteo y registra el resultado:
+   * inválido → FAILED, modo auto → evalúa, modo confirm → queda PENDING en la cola.
+   */
+  async ingestSorteo(
+    sorteo: SorteoAwaitingResult,
+    providerConfig: ResultsProviderConfig,
+    provider: ResultProvider
+  ): Promise<IngestOutcome> {
+    let fetched;
+    try {
+      fetched = await provider.fetch({
+        sorteoId: sorteo.id,
+        loteriaId: sorteo.loteria.id,
+        loteriaName: sorteo.loteria.name,
+        scheduledAt: sorteo.scheduledAt,
+        digits: sorteo.digits,
+        config: providerConfig,
+      });
+    } catch (err: any) {
+      // Error transitorio: sin registro, se reintenta en la siguiente pasada
+      logger.warn({
+        layer: "service",
+        action: "SORTEO_RESULT_FETCH_FAILED",
+        payload: { sorteoId: sorteo.id, provider: provider.type, error: err?.message ?? String(err) },
+      });
+      return "error";
+    }
+    if (!fetched) return "not_ready";
+
+    const winningNumber = fetched.winningNumber.trim();
+    const digitsError = validateResultDigits(winningNumber, sorteo.digits);
+    const result = await SorteoResultRepository.create({
+      sorteoId: sorteo.id,
+      bancaId: sorteo.bancaId,
+      winningNumber,
+      source: provider.type,
+      status: digitsError ? "FAILED" : "PENDING",
+      error: digitsError,
+      raw: (fetched.raw ?? undefined) as Prisma.InputJsonValue | undefined,
+    });
+
+    if (digitsError) {
+      logger.warn({
+        layer: "service",
+        action: "SORTEO_RESULT_INVALID",
+        payload: { sorteoId: sorteo.id, resultId: result.id, error: digitsError },
+      });
+      return "failed";
+    }
+
+    const blocker = autoApplyBlocker(sorteo, providerConfig);
+    if (!blocker) {
+      try {
+        await SorteoService.evaluate(sorteo.id, { winningNumber }, null);
+      } catch (err: any) {
+        await SorteoResultRepository.transition(result.id, OPEN_RESULT_STATUSES, {
+          status: "FAILED",
+          error: err?.message ?? String(err),
+        });
+        logger.error({
+          layer: "service",
+          action: "SORTEO_RESULT_AUTO_APPLY_FAILED",
+          payload: { sorteoId: sorteo.id, resultId: result.id, error: err?.message ?? String(err) },
+        });
+        return "failed";
+      }
+      await SorteoResultRepository.transition(result.id, OPEN_RESULT_STATUSES, {
+        status: "APPLIED",
+        appliedAt: new Date(),
+      });
+      return "applied";
+    }
+
+    await ActivityService.log({
+      userId: null,
+      bancaId: sorteo.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "SORTEO",
+      targetId: sorteo.id,
+      details: {
+        op: "result_queued",
+        resultId: result.id,
+        winningNumber,
+        source: provider.type,
+        reason: blocker,
+        description: `Resultado ${winningNumber} de ${sorteo.name} pendiente de confirmación (${blocker})`,
+      },
+      layer: "service",
+    });
+    return "queued";
+  },
+
+  /**
+   * Carga manual de un número. Cuenta como primera confirmación:
+   * sin doble confirmación se aplica de inmediato.
+   */
+  async submit(data: SubmitSorteoResultInput, actor: AuthUser, activeBancaId?: string | null) {
+    const sorteo = await SorteoService.validateSorteoOwnership(data.sorteoId, activeBancaId ?? undefined, actor.role);
+    if (actor.role !== Role.ADMIN && !sorteo.bancaId) {
+      throw new AppError("No tiene permisos para cargar resultados de un sorteo global", 403, "FORBIDDEN");
+    }
+
+    const digitsError = validateResultDigits(data.winningNumber, sorteo.digits);
+    if (digitsError) throw new AppError(digitsError, 400);
+
+    const open = await SorteoResultRepository.findOpenForSorteo(sorteo.id, OPEN_RESULT_STATUSES);
+    if (open) {
+      throw new AppError("El sorteo ya tiene un resultado pendiente de confirmación", 409, { resultId: open.id });
+    }
+
+    const now = new Date();
+    const created = await SorteoResultRepository.create({
+      sorteoId: sorteo.id,
+      bancaId: sorteo.bancaId,
+      winningNumber: data.winningNumber,
+      source: "manual",
+      status: "CONFIRMED",
+      submittedBy: actor.id,
+      confirmedBy: actor.id,
+      confirmedAt: now,
+    });
+    const result = (await SorteoResultRepository.findById(created.id))!;
+
+    await this.logAction(result, actor, "result_submitted", `Resultado ${data.winningNumber} cargado para ${sorteo.name}`);
+
+    if (requiresSecondConfirmation(result.sorteo.banca)) return toView(result);
+    return this.apply(result, actor, activeBancaId, data.extraMultiplierId);
+  },
+
+  /**
+   * Confirmación de un click. Con doble confirmación la primera solo marca CONFIRMED
+   * y la segunda (de otra persona) aplica el número.
+   */
+  async confirm(id: string, data: ConfirmSorteoResultInput, actor: AuthUser, activeBancaId?: string | null) {
+    const result = await this.getOwned(id, actor, activeBancaId);
+    if (!OPEN_RESULT_STATUSES.includes(result.status as any)) {
+      throw new AppError(`El resultado ya está ${result.status}`, 409);
+    }
+
+    const dual = requiresSecondConfirmation(result.sorteo.banca);
+
+    if (dual && result.status === "PENDING") {
+      const moved = await SorteoResultRepository.transition(id, ["PENDING"], {
+        status: "CONFIRMED",
+        confirmedBy: actor.id,
+        confirmedAt: new Date(),
+      });
+      if (!moved) throw new AppError("El resultado cambió de estado, recargue e intente de nuevo", 409);
+
+      await this.logAction(result, actor, "result_confirmed", `Primera confirmación del resultado ${result.winningNumber} (${result.sorteo.name})`);
+      return toView((await SorteoResultRepository.findById(id))!);
+    }
+
+    if (dual && result.confirmedBy === actor.id) {
+      throw new AppError("La segunda confirmación debe hacerla otra persona", 409, "SECOND_CONFIRMATION_REQUIRED");
+    }
+
+    // La segunda persona digita el número en lugar de solo aceptar el que ve en pantalla
+    if (dual) {
+      if (!data.winningNumber) {
+        throw new AppError("Digite el número ganador para confirmar el resultado", 400);
+      }
+      if (data.winningNumber.trim() !== result.winningNumber) {
+        await this.logAction(result, actor, "result_confirmation_mismatch", `Segunda confirmación no coincide para ${result.sorteo.name}`, {
+          typed: data.winningNumber.trim(),
+        });
+        throw new AppError("El número digitado no coincide con el resultado", 409, "WINNING_NUMBER_MISMATCH");
+      }
+    }
+
+    if (!dual && result.status === "PENDING") {
+      await SorteoResultRepository.transition(id, ["PENDING"], { confirmedBy: actor.id, confirmedAt: new Date() });
+    }
+    return this.apply(result, actor, activeBancaId, data.extraMultiplierId);
+  },
+
+  async reject(id: string, data: RejectSorteoResultInput, actor: AuthUser, activeBancaId?: string | null) {
+    const result = await this.getOwned(id, actor, activeBancaId);
+    const moved = await SorteoResultRepository.transition(id, OPEN_RESULT_STATUSES, {
+      status: "REJECTED",
+      rejectedBy: actor.id,
+      rejectedAt: new Date(),
+      rejectReason: data.reason ?? null,
+    });
+    if (!moved) throw new AppError(`El resultado ya está ${result.status}`, 409);
+
+    await this.logAction(result, actor, "result_rejected", `Resultado ${result.winningNumber} rechazado (${result.sorteo.name})`, {
+      reason: data.reason ?? null,
+    });
+    return toView((await SorteoResultRepository.findById(id))!);
+  },
+
+  async findAll(query: ListSorteoResultsQuery, actor: AuthUser, activeBancaId?: string | null) {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+
+    const where: Prisma.SorteoResultWhereInput = {};
+    if (actor.role === Role.BANCA) {
+      if (!activeBancaId) throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+      where.bancaId = activeBancaId;
+    } else if (activeBancaId) {
+      where.bancaId = activeBancaId;
+    }
+    if (query.status) where.status = query.status;
+    if (query.sorteoId) where.sorteoId = query.sorteoId;
+
+    const { data, total } = await SorteoResultRepository.list(where, page, pageSize);
+    return { data: data.map(toView), meta: buildMeta(total, page, pageSize) };
+  },
+
+  async findById(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    return toView(await this.getOwned(id, actor, activeBancaId));
+  },
+
+  /** Evalúa el sorteo con el número del resultado y lo marca APPLIED */
+  async apply(
+    result: ResultWithSorteo,
+    actor: AuthUser,
+    activeBancaId?: string | null,
+    extraMultiplierId?: string | null
+  ) {
+    // Si la evaluación falla el resultado sigue en la cola para corregir o rechazar.
+    // Con doble confirmación el resultado llega aquí confirmado por dos personas y se
+    // registra como solicitud aprobada: SorteoService solo ejecuta sin proponer con una.
+    const body = { winningNumber: result.winningNumber, extraMultiplierId: extraMultiplierId ?? null };
+    const secondConfirmation = result.status === "CONFIRMED" && requiresSecondConfirmation(result.sorteo.banca);
+    const approval = secondConfirmation
+      ? await SorteoApprovalService.recordConfirmed(
+          result.sorteo,
+          body,
+          result.confirmedBy!,
+          actor.id,
+          `Doble confirmación del resultado ${result.id}`
+        )
+      : null;
+
+    let evaluated;
+    try {
+      evaluated = await SorteoService.evaluate(
+        result.sorteoId,
+        body,
+        actor.id,
+        activeBancaId ?? undefined,
+        actor.role,
+        approval ? { approvedRequestId: approval.id } : {}
+      );
+    } catch (err) {
+      if (approval) await SorteoApprovalService.markFailed(approval.id, err);
+      throw err;
+    }
+    // La banca activó el doble control después de cargar el resultado
+    if (evaluated && "approval" in evaluated) {
+      throw new AppError("La banca exige doble control: el resultado necesita una segunda confirmación", 409, {
+        approvalId: evaluated.approval.id,
+      });
+    }
+
+    const now = new Date();
+    await SorteoResultRepository.transition(result.id, OPEN_RESULT_STATUSES, {
+      status: "APPLIED",
+      appliedAt: now,
+      ...(secondConfirmation ? { secondConfirmedBy: actor.id, secondConfirmedAt: now } : {}),
+    });
+
+    await this.logAction(result, actor, "result_applied", `Resultado ${result.winningNumber} aplicado a ${result.sorteo.name}`);
+    return toView((await SorteoResultRepository.findById(result.id))!);
+  },
+
+  async logAction(
+    result: ResultWithSorteo,
+    actor: AuthUser,
+    op: string,
+    description: string,
+    extra: Record<string, unknown> = {}
+  ) {
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: result.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "SORTEO",
+      targetId: result.sorteoId,
+      details: { op, resultId: result.id, winningNumber: result.winningNumber, ...extra, description } as Prisma.InputJsonObject,
+      layer: "service",
+    });
+  },
+
+  /** Carga el resultado y valida que pertenezca a la banca del actor */
+  async getOwned(id: string, actor: AuthUser, activeBancaId?: string | null): Promise<ResultWithSorteo> {
+    const result = await SorteoResultRepository.findById(id);
+    if (!result) throw new AppError("Resultado no encontrado", 404, "NOT_FOUND");
+
+    if (actor.role !== Role.ADMIN && result.bancaId !== activeBancaId) {
+      throw new AppError("No tienes permiso para gestionar este resultado", 403, "FORBIDDEN");
+    }
+    return result;
+  },
+};
+
+export default SorteoResultService;
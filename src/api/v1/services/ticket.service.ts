@@ -10,7 +10,7 @@ import TicketRepository from "../../../repositories/ticket.repository";
 import ActivityService from "../../../core/activity.service";
 import logger from "../../../core/logger";
 import { AppError } from "../../../core/errors";
-import prisma from "../../../core/prismaClient";
+import prisma, { AppTransactionClient } from "../../../core/prismaClient";
 import { RestrictionRuleRepository } from "../../../repositories/restrictionRule.repository";
 import { commissionService } from "../../../services/commission/CommissionService";
 import { CommissionContext } from "../../../services/commission/types/CommissionContext";
@@ -30,11 +30,22 @@ import { getCRLocalComponents } from "../../../utils/businessDate";
 import { PDFDocument } from "pdf-lib";
 import { ConcurrencyManager } from "../../../utils/concurrency";
 import { CacheService } from "../../../core/cache.service";
+import { CreditLimitService } from "./creditLimit.service";
 import crypto from "crypto";
 import { WorkerService } from "./worker.service";
 import { TicketValidationService } from "./ticket/TicketValidationService";
 import { TicketPrintService } from "./ticket/TicketPrintService";
 import { TicketPersistenceService } from "./ticket/TicketPersistenceService";
+import { WebhookService } from "./webhook.service";
+import { RealtimeService } from "./realtime.service";
+import { TicketVerificationService } from "./ticketVerification.service";
+import { TicketCancellationPolicyService } from "./ticket/TicketCancellationPolicyService";
+import CancelRequestRepository from "../../../repositories/cancelRequest.repository";
+import { TicketPayoutPolicyService } from "./ticket/TicketPayoutPolicyService";
+import PayoutRequestRepository from "../../../repositories/payoutRequest.repository";
+import { roundMoney, subtractDecimals, sumMoney } from "../../../utils/decimal";
+import { PeriodLockService } from "./accounts/accounts.periodLocks";
+import { crDateService } from "../../../utils/crDateService";
 
 const CUTOFF_GRACE_MS = 1000;
 // Updated: Added clienteNombre field support
@@ -52,6 +63,23 @@ interface RegisterPaymentInput {
   idempotencyKey?: string;
 }
 
+interface RegisterPaymentOptions {
+  /** Rol del cajero; sin rol no se aplica la política de pago (procesos internos) */
+  role?: Role;
+  ventanaId?: string | null;
+  /** Solicitud aprobada por la banca que origina el pago (ya pasó el umbral) */
+  approvedRequestId?: string;
+  /** Origen del pago para auditoría (p. ej. "scan" desde caja) */
+  channel?: string;
+}
+
+interface CancelTicketOptions {
+  role?: Role;
+  reason?: string;
+  /** Solicitud aprobada que origina la anulación (ya pasó la política) */
+  approvedRequestId?: string;
+}
+
 interface PaymentHistoryEntry {
   id: string;
   amountPaid: number;
@@ -392,6 +420,16 @@ export const TicketService = {
         };
       });
 
+      // Límites de crédito del vendedor / ventana (bloquea o advierte antes de persistir;
+      // la transacción que crea el ticket lo vuelve a validar bajo lock)
+      const creditSale = {
+        bancaId: ventanaWithBanca.bancaId,
+        ventanaId,
+        vendedorId: effectiveVendedorId,
+        amount: sumMoney(normalizedJugadas.map((j) => j.amount)),
+      };
+      const creditWarnings = await CreditLimitService.checkSale(creditSale);
+
       let createdBy: string | undefined;
       let createdByRole: Role | undefined;
 
@@ -421,6 +459,7 @@ export const TicketService = {
             createdByRole,
             scheduledAt: sorteo.scheduledAt,
             idempotencyKey: clientIdempotencyKey,
+            guard: (tx: AppTransactionClient) => CreditLimitService.checkSaleInTransaction(tx, creditSale),
             preFetched: {
               vendedor: vendedorToPass,
               sorteo: sorteo,
@@ -431,7 +470,11 @@ export const TicketService = {
           clientIdempotencyKey,
           userId,
           requestId,
-        );
+        ).catch((err) => {
+          // Rechazo por tope de restricción: visible en los tableros en vivo
+          RealtimeService.limitHit(err, { bancaId: ventanaWithBanca.bancaId, ventanaId, vendedorId: effectiveVendedorId, sorteoId });
+          throw err;
+        });
 
       // Invalidador de caché
       CacheService.invalidateTag(`vendedor:${effectiveVendedorId}`).catch(
@@ -492,15 +535,32 @@ export const TicketService = {
         },
       });
 
-      if (warnings && warnings.length > 0) {
+      WebhookService.emit("ticket.created", ventanaWithBanca.bancaId, {
+        ticketId: ticket.id,
+        ticketNumber: ticket.ticketNumber,
+        totalAmount: ticket.totalAmount,
+        sorteoId: ticket.sorteoId,
+        loteriaId: ticket.loteriaId,
+        ventanaId,
+        vendedorId: effectiveVendedorId,
+        jugadas: jugadasCount,
+      });
+      RealtimeService.ticketCreated(ticket as any, {
+        bancaId: ventanaWithBanca.bancaId,
+        ventanaId,
+        vendedorId: effectiveVendedorId,
+      });
+
+      const allWarnings = [...(warnings ?? []), ...creditWarnings];
+      if (allWarnings.length > 0) {
         logger.warn({
           layer: "service",
           action: "TICKET_CREATE_WARNINGS",
           userId,
           requestId,
-          payload: { warnings },
+          payload: { warnings: allWarnings },
         });
-        (response as any).warnings = warnings;
+        (response as any).warnings = allWarnings;
       }
 
       return response;
@@ -585,6 +645,8 @@ export const TicketService = {
     const enriched = {
       ...ticket,
       enableTicketReprints: process.env.ENABLE_TICKET_REPRINTS === "true",
+      // Contenido del QR de verificación pública (impresión desde el frontend)
+      verifyCode: TicketVerificationService.qrContent(ticket),
       sorteo: sorteoWithFormattedName,
       vendedor: ticket.vendedor
         ? {
@@ -623,6 +685,7 @@ export const TicketService = {
     userId: string,
     requestId?: string,
     bancaId?: string,
+    options: CancelTicketOptions = {},
   ) {
     // 1) Obtener ticket completo para validación de cutoff con filtro de banca
     const existing = await TicketRepository.getById(id, bancaId);
@@ -630,6 +693,15 @@ export const TicketService = {
       throw new AppError("Ticket no encontrado", 404, "NOT_FOUND");
     }
 
+    // 1.1) El día de negocio del tiquete no puede estar en un período bloqueado
+    await PeriodLockService.assertOpen(
+      { bancaId: existing.ventana.bancaId },
+      existing.businessDate
+        ? crDateService.postgresDateToCRString(existing.businessDate)
+        : crDateService.dateUTCToCRString(existing.createdAt),
+      "anular el tiquete",
+    );
+
     // 2) Validar cutoff (igual que en la creación)
     // Se utiliza el bancaId, ventanaId y vendedorId del ticket original
     const cutoff = await RestrictionRuleRepository.resolveSalesCutoff({
@@ -665,6 +737,62 @@ export const TicketService = {
       );
     }
 
+    // 3) Política de anulación de banca/ventana (solo vendedores).
+    // Fuera de política: queda como solicitud pendiente para VENTANA/BANCA, o se bloquea.
+    if (options.role === Role.VENDEDOR && !options.approvedRequestId) {
+      const policy = TicketCancellationPolicyService.resolve(
+        existing.ventana.banca.cancellationPolicyJson,
+        existing.ventana.cancellationPolicyJson,
+      );
+      const violations = await TicketCancellationPolicyService.check(existing, policy, now);
+
+      if (violations.length > 0) {
+        if (policy.onViolation === "block") {
+          throw new AppError(
+            `Anulación fuera de política: ${violations.map((v) => v.message).join("; ")}`,
+            403,
+            { code: "CANCELLATION_POLICY_VIOLATION", violations },
+          );
+        }
+
+        const pending = await CancelRequestRepository.findPendingForTicket(id);
+        if (pending) {
+          throw new AppError("El tiquete ya tiene una solicitud de anulación pendiente", 409, { requestId: pending.id });
+        }
+
+        const cancelRequest = await CancelRequestRepository.create({
+          ticketId: id,
+          bancaId: existing.ventana.bancaId,
+          ventanaId: existing.ventanaId,
+          vendedorId: existing.vendedorId,
+          requestedBy: userId,
+          reason: options.reason ?? null,
+          violations: violations as unknown as Prisma.InputJsonValue,
+        });
+
+        await ActivityService.log({
+          userId,
+          bancaId: existing.ventana.bancaId,
+          action: ActivityType.SYSTEM_ACTION,
+          targetType: "TICKET",
+          targetId: id,
+          details: {
+            op: "cancel_requested",
+            cancelRequestId: cancelRequest.id,
+            ticketNumber: existing.ticketNumber,
+            totalAmount: existing.totalAmount,
+            reason: options.reason ?? null,
+            violations: violations.map((v) => v.code),
+            description: `Anulación del ticket #${existing.ticketNumber} fuera de política, pendiente de aprobación`,
+          },
+          requestId,
+          layer: "service",
+        });
+
+        return { cancelRequest };
+      }
+    }
+
     const ticket = await TicketRepository.cancel(id, userId, bancaId);
 
     //  FASE BE-2: Invalidar caché del vendedor
@@ -690,7 +818,8 @@ export const TicketService = {
       details: {
         ticketNumber: ticket.ticketNumber,
         totalAmount: ticket.totalAmount,
-        reason: "Cancelled by user",
+        reason: options.reason ?? "Cancelled by user",
+        ...(options.approvedRequestId ? { cancelRequestId: options.approvedRequestId } : {}),
         description: `Ticket #${ticket.ticketNumber} cancelado (Monto: ₡${ticket.totalAmount.toLocaleString()})`,
       },
       requestId,
@@ -705,6 +834,21 @@ export const TicketService = {
       payload: { ticketId: id },
     });
 
+    WebhookService.emit("ticket.cancelled", existing.ventana.bancaId, {
+      ticketId: id,
+      ticketNumber: ticket.ticketNumber,
+      totalAmount: ticket.totalAmount,
+      sorteoId: existing.sorteoId,
+      ventanaId: existing.ventanaId,
+      vendedorId: existing.vendedorId,
+      cancelledBy: userId,
+    });
+    RealtimeService.ticketCancelled(
+      { ...ticket, sorteoId: existing.sorteoId, jugadas: existing.jugadas },
+      { bancaId: existing.ventana.bancaId, ventanaId: existing.ventanaId, vendedorId: existing.vendedorId },
+      userId
+    );
+
     return ticket;
   },
 
@@ -779,6 +923,7 @@ export const TicketService = {
     data: RegisterPaymentInput,
     userId: string,
     requestId?: string,
+    options: RegisterPaymentOptions = {},
   ) {
     try {
       // Verificar que el ticket existe y es ganador
@@ -790,7 +935,7 @@ export const TicketService = {
               jugadas: true,
               vendedor: true,
               ventana: true,
-              sorteo: { select: { id: true, status: true } },
+              sorteo: { select: { id: true, status: true, scheduledAt: true } },
             },
           }),
         { context: "TicketService.registerPayment.fetchTicket" },
@@ -816,13 +961,11 @@ export const TicketService = {
       }
 
       // Calcular totalPayout (suma de jugadas ganadoras)
-      const totalPayout = ticket.jugadas
-        .filter((j) => j.isWinner)
-        .reduce((acc, j) => acc + (j.payout ?? 0), 0);
+      const totalPayout = sumMoney(ticket.jugadas.filter((j) => j.isWinner).map((j) => j.payout));
 
       // Validar que no se exceda el monto total
       const currentPaid = ticket.totalPaid ?? 0;
-      const newTotal = currentPaid + data.amountPaid;
+      const newTotal = sumMoney([currentPaid, data.amountPaid]);
 
       if (newTotal > totalPayout) {
         throw new AppError(
@@ -853,9 +996,31 @@ export const TicketService = {
         }
       }
 
+      const bancaId = ticket.bancaId ?? ticket.ventana.bancaId;
+      const banca = await PayoutRequestRepository.findBancaPolicy(bancaId);
+      const policy = TicketPayoutPolicyService.resolve(banca?.payoutPolicyJson);
+
+      // Premio vencido: no se paga por ningún canal ni rol (solo tras extender el plazo)
+      const expired = TicketPayoutPolicyService.expiryViolation(ticket, policy, new Date());
+      if (expired) {
+        throw new AppError(expired.message, 409, { code: "PRIZE_EXPIRED", claimDeadline: expired.deadline ?? null });
+      }
+
+      // Política de pago de la banca: bloqueos, o aprobación de la banca sobre el umbral
+      if (options.role) {
+        const pending = await TicketPayoutPolicyService.enforce(
+          { ...ticket, totalPayout },
+          { id: userId, role: options.role, ventanaId: options.ventanaId },
+          data,
+          policy,
+          { bancaId, approvedRequestId: options.approvedRequestId, requestId },
+        );
+        if (pending) return pending;
+      }
+
       // Calcular si es pago parcial y monto restante
       const isPartial = newTotal < totalPayout;
-      const remainingAmount = isPartial ? totalPayout - newTotal : 0;
+      const remainingAmount = isPartial ? roundMoney(subtractDecimals(totalPayout, newTotal)) : 0;
 
       // Determinar si el ticket debe marcarse como PAID
       const shouldMarkPaid = !isPartial || data.isFinal;
@@ -884,6 +1049,11 @@ export const TicketService = {
       const updated = await withConnectionRetry(
         () =>
           prisma.$transaction(async (tx) => {
+            // Tope diario del cajero bajo lock: la validación previa no ve pagos simultáneos
+            if (options.role) {
+              await TicketPayoutPolicyService.enforceCashierDailyLimit(tx, { id: userId, role: options.role }, data.amountPaid, policy);
+            }
+
             // Crear registro de auditoría en TicketPayment
             await tx.ticketPayment.create({
               data: {
@@ -931,7 +1101,7 @@ export const TicketService = {
       // Log de actividad
       await ActivityService.log({
         userId,
-        bancaId: ticket.bancaId,
+        bancaId,
         action: ActivityType.TICKET_PAY,
         targetType: "TICKET",
         targetId: ticketId,
@@ -944,6 +1114,8 @@ export const TicketService = {
           isPartial,
           isFinal: data.isFinal,
           newStatus: shouldMarkPaid ? "PAID" : ticket.status,
+          ...(options.approvedRequestId ? { payoutRequestId: options.approvedRequestId } : {}),
+          ...(options.channel ? { channel: options.channel } : {}),
           description: `Pago de ₡${data.amountPaid.toLocaleString()} registrado para el Ticket #${ticket.ticketNumber}${isPartial ? " (Pago Parcial)" : ""}`,
         },
         requestId,
@@ -964,6 +1136,18 @@ export const TicketService = {
         },
       });
 
+      WebhookService.emit("ticket.paid", bancaId, {
+        ticketId,
+        ticketNumber: ticket.ticketNumber,
+        amountPaid: data.amountPaid,
+        totalPaid: newTotal,
+        totalPayout,
+        remainingAmount,
+        isPartial,
+        isFinal: !!data.isFinal,
+        status: updated.status,
+      });
+
       return updated;
     } catch (err: any) {
       logger.error({
@@ -1023,12 +1207,12 @@ export const TicketService = {
       );
 
       // Recalcular totales
-      const activePaid = updatedHistory
-        .filter((p) => !p.isReversed)
-        .reduce((acc, p) => acc + p.amountPaid, 0);
+      const activePaid = sumMoney(
+        updatedHistory.filter((p) => !p.isReversed).map((p) => p.amountPaid),
+      );
 
       const totalPayout = ticket.totalPayout ?? 0;
-      const remainingAmount = totalPayout - activePaid;
+      const remainingAmount = roundMoney(subtractDecimals(totalPayout, activePaid));
 
       // Determinar nuevo estado
       const newStatus =
@@ -1132,7 +1316,7 @@ export const TicketService = {
     try {
       const ticket = await prisma.ticket.findUnique({
         where: { id: ticketId },
-        include: { jugadas: true },
+        include: { jugadas: true, ventana: { select: { bancaId: true } } },
       });
 
       if (!ticket) throw new AppError("Ticket no encontrado", 404);
@@ -1152,7 +1336,9 @@ export const TicketService = {
       const totalPaid = ticket.totalPaid ?? 0;
       const totalPayout = ticket.totalPayout ?? 0;
 
-      if (totalPaid >= totalPayout) {
+      const remainingAccepted = roundMoney(subtractDecimals(totalPayout, totalPaid));
+
+      if (remainingAccepted <= 0) {
         throw new AppError(
           "El pago ya está completo, no es necesario finalizar",
           409,
@@ -1214,9 +1400,9 @@ export const TicketService = {
           ticketNumber: ticket.ticketNumber,
           totalPaid,
           totalPayout,
-          remainingAccepted: totalPayout - totalPaid,
+          remainingAccepted,
           notes,
-          description: `Pago finalizado para el Ticket #${ticket.ticketNumber}. Monto pendiente aceptado: ₡${(totalPayout - totalPaid).toLocaleString()}`,
+          description: `Pago finalizado para el Ticket #${ticket.ticketNumber}. Monto pendiente aceptado: ₡${remainingAccepted.toLocaleString()}`,
         },
         requestId,
         layer: "service",
@@ -1231,10 +1417,21 @@ export const TicketService = {
           ticketId,
           totalPaid,
           totalPayout,
-          remainingAccepted: totalPayout - totalPaid,
+          remainingAccepted,
         },
       });
 
+      WebhookService.emit("ticket.paid", ticket.bancaId ?? ticket.ventana.bancaId, {
+        ticketId,
+        ticketNumber: ticket.ticketNumber,
+        totalPaid,
+        totalPayout,
+        remainingAmount: remainingAccepted,
+        isPartial: remainingAccepted > 0,
+        isFinal: true,
+        status: updated.status,
+      });
+
       return updated;
     } catch (err: any) {
       logger.error({
@@ -3122,6 +3319,7 @@ export const TicketService = {
             clienteNombre: ticket.clienteNombre,
             createdAt: ticket.createdAt,
             isActive: ticket.isActive,
+            verifyCode: TicketVerificationService.qrContent(ticket),
             jugadas: ticket.jugadas,
             sorteo: {
               ...sorteoWithFormattedName,
@@ -0,0 +1,94 @@
+import prisma from "../../../../core/prismaClient";
+import { Prisma, TicketStatus } from "../../../../generated/prisma/client";
+import { parseCancellationPolicy } from "../../../../types/schemas/databaseJson.schema";
+import { getCRDayRangeUTC } from "../../../../utils/businessDate";
+
+export type CancellationViolationCode = "SALE_WINDOW_EXCEEDED" | "TOO_CLOSE_TO_SORTEO" | "DAILY_LIMIT_REACHED";
+
+export interface CancellationViolation {
+  code: CancellationViolationCode;
+  message: string;
+  limit: number;
+  actual: number;
+}
+
+/** Política resuelta (ventana sobre banca); null = sin límite */
+export interface EffectiveCancellationPolicy {
+  maxMinutesAfterSale: number | null;
+  minMinutesBeforeSorteo: number | null;
+  maxPerVendedorPerDay: number | null;
+  onViolation: "approval" | "block";
+}
+
+export const TicketCancellationPolicyService = {
+  resolve(bancaPolicyJson: Prisma.JsonValue | null | undefined, ventanaPolicyJson: Prisma.JsonValue | null | undefined): EffectiveCancellationPolicy {
+    const banca = parseCancellationPolicy(bancaPolicyJson);
+    const ventana = parseCancellationPolicy(ventanaPolicyJson);
+    const pick = (key: "maxMinutesAfterSale" | "minMinutesBeforeSorteo" | "maxPerVendedorPerDay") =>
+      ventana[key] !== undefined ? ventana[key] ?? null : banca[key] ?? null;
+
+    return {
+      maxMinutesAfterSale: pick("maxMinutesAfterSale"),
+      minMinutesBeforeSorteo: pick("minMinutesBeforeSorteo"),
+      maxPerVendedorPerDay: pick("maxPerVendedorPerDay"),
+      onViolation: ventana.onViolation ?? banca.onViolation ?? "approval",
+    };
+  },
+
+  /**
+   * Reglas que incumple la anulación del tiquete en `now`. El conteo diario incluye
+   * todas las anulaciones del vendedor en el día CR (directas o aprobadas).
+   */
+  async check(
+    ticket: { createdAt: Date; vendedorId: string; sorteo: { scheduledAt: Date } },
+    policy: EffectiveCancellationPolicy,
+    now: Date
+  ): Promise<CancellationViolation[]> {
+    const violations: CancellationViolation[] = [];
+
+    if (policy.maxMinutesAfterSale !== null) {
+      const minutesSinceSale = Math.floor((now.getTime() - ticket.createdAt.getTime()) / 60_000);
+      if (minutesSinceSale > policy.maxMinutesAfterSale) {
+        violations.push({
+          code: "SALE_WINDOW_EXCEEDED",
+          message: `Han pasado ${minutesSinceSale} min desde la venta (máximo ${policy.maxMinutesAfterSale})`,
+          limit: policy.maxMinutesAfterSale,
+          actual: minutesSinceSale,
+        });
+      }
+    }
+
+    if (policy.minMinutesBeforeSorteo !== null) {
+      const minutesToSorteo = Math.floor((ticket.sorteo.scheduledAt.getTime() - now.getTime()) / 60_000);
+      if (minutesToSorteo < policy.minMinutesBeforeSorteo) {
+        violations.push({
+          code: "TOO_CLOSE_TO_SORTEO",
+          message: `Faltan ${minutesToSorteo} min para el sorteo (mínimo ${policy.minMinutesBeforeSorteo})`,
+          limit: policy.minMinutesBeforeSorteo,
+          actual: minutesToSorteo,
+        });
+      }
+    }
+
+    if (policy.maxPerVendedorPerDay !== null) {
+      const { fromAt, toAtExclusive } = getCRDayRangeUTC(now);
+      const cancelledToday = await prisma.ticket.count({
+        where: {
+          vendedorId: ticket.vendedorId,
+          status: TicketStatus.CANCELLED,
+          deletedAt: { gte: fromAt, lt: toAtExclusive },
+        },
+      });
+      if (cancelledToday >= policy.maxPerVendedorPerDay) {
+        violations.push({
+          code: "DAILY_LIMIT_REACHED",
+          message: `El vendedor ya anuló ${cancelledToday} tiquetes hoy (máximo ${policy.maxPerVendedorPerDay})`,
+          limit: policy.maxPerVendedorPerDay,
+          actual: cancelledToday,
+        });
+      }
+    }
+
+    return violations;
+  },
+};
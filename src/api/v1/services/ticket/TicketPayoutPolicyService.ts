@@ -0,0 +1,241 @@
+import prisma, { AppTransactionClient } from "../../../../core/prismaClient";
+import { AppError } from "../../../../core/errors";
+import ActivityService from "../../../../core/activity.service";
+import { ActivityType, Prisma, Role } from "../../../../generated/prisma/client";
+import PayoutRequestRepository from "../../../../repositories/payoutRequest.repository";
+import { parsePayoutPolicy } from "../../../../types/schemas/databaseJson.schema";
+import { getCRDayRangeUTC } from "../../../../utils/businessDate";
+import { sumMoney } from "../../../../utils/decimal";
+
+export type PayoutViolationCode =
+  | "NOT_SELLING_VENTANA"
+  | "CLAIM_PERIOD_EXPIRED"
+  | "CASHIER_DAILY_LIMIT"
+  | "ABOVE_APPROVAL_THRESHOLD";
+
+export interface PayoutViolation {
+  code: PayoutViolationCode;
+  message: string;
+  limit?: number;
+  actual?: number;
+  deadline?: string;
+}
+
+/** Lo necesario del tiquete para saber hasta cuándo se puede cobrar */
+export interface ClaimableTicket {
+  loteriaId: string;
+  claimDeadline?: Date | null;
+  expiredAt?: Date | null;
+  sorteo: { scheduledAt: Date };
+}
+
+/** Política resuelta de la banca; null = sin límite */
+export interface EffectivePayoutPolicy {
+  sellingVentanaOnly: boolean;
+  maxPerCashierPerDay: number | null;
+  approvalThreshold: number | null;
+  claimDays: number | null;
+  claimDaysByLoteria: Record<string, number>;
+}
+
+/** Pago de caja que se somete a la política */
+export interface CashierPayout {
+  amountPaid: number;
+  method?: string;
+  notes?: string;
+  isFinal?: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function policyViolationError(blocking: PayoutViolation[]) {
+  return new AppError(
+    `Pago fuera de política: ${blocking.map((v) => v.message).join("; ")}`,
+    403,
+    { code: "PAYOUT_POLICY_VIOLATION", violations: blocking },
+  );
+}
+
+/** Roles que pagan en caja; ADMIN y BANCA solo quedan sujetos al vencimiento */
+const CASHIER_ROLES: Role[] = [Role.VENTANA, Role.VENDEDOR];
+
+export const TicketPayoutPolicyService = {
+  resolve(bancaPolicyJson: Prisma.JsonValue | null | undefined): EffectivePayoutPolicy {
+    const policy = parsePayoutPolicy(bancaPolicyJson);
+    return {
+      sellingVentanaOnly: policy.sellingVentanaOnly ?? false,
+      maxPerCashierPerDay: policy.maxPerCashierPerDay ?? null,
+      approvalThreshold: policy.approvalThreshold ?? null,
+      claimDays: policy.claimDays ?? null,
+      claimDaysByLoteria: policy.claimDaysByLoteria ?? {},
+    };
+  },
+
+  /**
+   * Último instante para reclamar el premio: la extensión manual del tiquete, o los días
+   * de la lotería / de la banca desde el sorteo. null si no hay plazo.
+   */
+  claimDeadline(ticket: ClaimableTicket, policy: EffectivePayoutPolicy): Date | null {
+    if (ticket.claimDeadline) return ticket.claimDeadline;
+    const days = policy.claimDaysByLoteria[ticket.loteriaId] ?? policy.claimDays;
+    return days === null ? null : new Date(ticket.sorteo.scheduledAt.getTime() + days * DAY_MS);
+  },
+
+  /** Premio ya marcado como vencido, o con el plazo cumplido aunque el job no haya pasado */
+  expiryViolation(ticket: ClaimableTicket, policy: EffectivePayoutPolicy, now: Date): PayoutViolation | null {
+    const deadline = this.claimDeadline(ticket, policy);
+    if (!ticket.expiredAt && (!deadline || now <= deadline)) return null;
+    return {
+      code: "CLAIM_PERIOD_EXPIRED",
+      message: "El plazo para reclamar el premio venció",
+      deadline: deadline?.toISOString(),
+    };
+  },
+
+  /**
+   * Reglas que incumple el pago. `blocking` rechaza el pago; `approval` lo deja
+   * pendiente de aprobación de la banca.
+   */
+  async check(
+    ticket: ClaimableTicket & { ventanaId: string; totalPayout: number },
+    cashier: { id: string; role: Role; ventanaId?: string | null },
+    amountPaid: number,
+    policy: EffectivePayoutPolicy,
+    now: Date
+  ): Promise<{ blocking: PayoutViolation[]; approval: PayoutViolation[] }> {
+    const blocking: PayoutViolation[] = [];
+    const approval: PayoutViolation[] = [];
+    const isCashier = CASHIER_ROLES.includes(cashier.role);
+
+    const expired = this.expiryViolation(ticket, policy, now);
+    if (expired) blocking.push(expired);
+
+    if (!isCashier) return { blocking, approval };
+
+    if (policy.sellingVentanaOnly && cashier.ventanaId !== ticket.ventanaId) {
+      blocking.push({
+        code: "NOT_SELLING_VENTANA",
+        message: "Solo la ventana que vendió el tiquete puede pagarlo",
+      });
+    }
+
+    const dailyLimit = await this.cashierDailyViolation(cashier.id, amountPaid, policy, now);
+    if (dailyLimit) blocking.push(dailyLimit);
+
+    // Sobre el premio completo: dividir en pagos parciales no evita la aprobación
+    if (policy.approvalThreshold !== null && ticket.totalPayout > policy.approvalThreshold) {
+      approval.push({
+        code: "ABOVE_APPROVAL_THRESHOLD",
+        message: `El premio de ₡${ticket.totalPayout.toLocaleString()} supera el umbral de ₡${policy.approvalThreshold.toLocaleString()}`,
+        limit: policy.approvalThreshold,
+        actual: ticket.totalPayout,
+      });
+    }
+
+    return { blocking, approval };
+  },
+
+  /** Lo que el cajero ya pagó hoy (sin reversos) más este pago, contra su tope diario */
+  async cashierDailyViolation(
+    cashierId: string,
+    amountPaid: number,
+    policy: EffectivePayoutPolicy,
+    now: Date,
+    client: AppTransactionClient | typeof prisma = prisma
+  ): Promise<PayoutViolation | null> {
+    if (policy.maxPerCashierPerDay === null) return null;
+
+    const { fromAt, toAtExclusive } = getCRDayRangeUTC(now);
+    const paidToday = await client.ticketPayment.aggregate({
+      _sum: { amountPaid: true },
+      where: {
+        paidById: cashierId,
+        isReversed: false,
+        paymentDate: { gte: fromAt, lt: toAtExclusive },
+      },
+    });
+    const total = sumMoney([paidToday._sum.amountPaid, amountPaid]);
+    if (total <= policy.maxPerCashierPerDay) return null;
+    return {
+      code: "CASHIER_DAILY_LIMIT",
+      message: `El cajero pagaría ₡${total.toLocaleString()} hoy (máximo ₡${policy.maxPerCashierPerDay.toLocaleString()})`,
+      limit: policy.maxPerCashierPerDay,
+      actual: total,
+    };
+  },
+
+  /**
+   * Repite el tope diario dentro de la transacción que registra el pago, bajo un advisory
+   * lock por cajero: dos pagos simultáneos no pasan ambos con el total previo al otro.
+   */
+  async enforceCashierDailyLimit(
+    tx: AppTransactionClient,
+    cashier: { id: string; role: Role },
+    amountPaid: number,
+    policy: EffectivePayoutPolicy,
+    now: Date = new Date()
+  ) {
+    if (policy.maxPerCashierPerDay === null || !CASHIER_ROLES.includes(cashier.role)) return;
+
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`payout-cashier:${cashier.id}`}))`;
+    const violation = await this.cashierDailyViolation(cashier.id, amountPaid, policy, now, tx);
+    if (violation) throw policyViolationError([violation]);
+  },
+
+  /**
+   * Aplica la política a un pago de caja, sea cual sea el endpoint: lanza 403 con los
+   * bloqueos; sobre el umbral registra la solicitud de aprobación y la devuelve en lugar
+   * de pagar. null = el pago puede registrarse.
+   */
+  async enforce(
+    ticket: ClaimableTicket & { id: string; ticketNumber: string; ventanaId: string; totalPayout: number },
+    cashier: { id: string; role: Role; ventanaId?: string | null },
+    payment: CashierPayout,
+    policy: EffectivePayoutPolicy,
+    context: { bancaId: string; approvedRequestId?: string; requestId?: string }
+  ) {
+    const { blocking, approval } = await this.check(ticket, cashier, payment.amountPaid, policy, new Date());
+
+    if (blocking.length > 0) throw policyViolationError(blocking);
+
+    if (approval.length === 0 || context.approvedRequestId) return null;
+
+    const pending = await PayoutRequestRepository.findPendingForTicket(ticket.id);
+    if (pending) {
+      throw new AppError("El tiquete ya tiene un pago pendiente de aprobación", 409, { requestId: pending.id });
+    }
+
+    const payoutRequest = await PayoutRequestRepository.create({
+      ticketId: ticket.id,
+      bancaId: context.bancaId,
+      ventanaId: ticket.ventanaId,
+      requestedBy: cashier.id,
+      amountPaid: payment.amountPaid,
+      method: payment.method ?? "cash",
+      notes: payment.notes || null,
+      isFinal: payment.isFinal ?? false,
+      violations: approval as unknown as Prisma.InputJsonValue,
+    });
+
+    await ActivityService.log({
+      userId: cashier.id,
+      bancaId: context.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "TICKET",
+      targetId: ticket.id,
+      details: {
+        op: "payout_requested",
+        payoutRequestId: payoutRequest.id,
+        ticketNumber: ticket.ticketNumber,
+        amountPaid: payment.amountPaid,
+        totalPayout: ticket.totalPayout,
+        violations: approval.map((v) => v.code),
+        description: `Pago de ₡${payment.amountPaid.toLocaleString()} del Ticket #${ticket.ticketNumber} pendiente de aprobación de la banca`,
+      },
+      requestId: context.requestId,
+      layer: "service",
+    });
+
+    return { payoutRequest };
+  },
+};
@@ -3,6 +3,8 @@ import TicketRepository from "../../../../repositories/ticket.repository";
 import { withConnectionRetry } from "../../../../core/withConnectionRetry";
 import prisma from "../../../../core/prismaClient";
 import logger from "../../../../core/logger";
+import { rawBancaFilter } from "../../../../core/tenantIsolation";
+import { Prisma } from "../../../../generated/prisma/client";
 
 export const TicketPersistenceService = {
   async createTicketOptimized(
@@ -40,6 +42,7 @@ export const TicketPersistenceService = {
             SELECT id FROM "Ticket"
             WHERE "idempotencyKey" = ${clientIdempotencyKey}
               AND "deletedAt" IS NULL
+              ${rawBancaFilter(Prisma.sql`"bancaId"`)}
             LIMIT 1
           `,
           { context: 'TicketPersistenceService.create.idempotencyRaceRecover' }
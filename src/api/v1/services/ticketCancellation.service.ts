@@ -0,0 +1,228 @@
+import { AppError } from "../../../core/errors";
+import ActivityService from "../../../core/activity.service";
+import { AuthUser } from "../../../core/types";
+import { ActivityType, Prisma, Role } from "../../../generated/prisma/client";
+import CancelRequestRepository from "../../../repositories/cancelRequest.repository";
+import { parseCancellationPolicy } from "../../../types/schemas/databaseJson.schema";
+import { TicketService } from "./ticket.service";
+import { TicketCancellationPolicyService } from "./ticket/TicketCancellationPolicyService";
+import {
+  DecideCancelRequestInput,
+  ListCancelRequestsQuery,
+  UpdateCancellationPolicyInput,
+} from "../dto/ticketCancellation.dto";
+
+type CancelRequestWithTicket = NonNullable<Awaited<ReturnType<typeof CancelRequestRepository.findById>>>;
+
+function buildMeta(total: number, page: number, pageSize: number) {
+  const totalPages = Math.ceil(total / pageSize);
+  return {
+    total,
+    page,
+    pageSize,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+}
+
+/**
+ * Solicitudes de anulación fuera de política (las crea TicketService.cancel) y
+ * configuración de la política por banca/ventana.
+ */
+export const TicketCancellationService = {
+  /** VENTANA o BANCA aprueba: se anula el tiquete con el aprobador como responsable */
+  async approve(id: string, data: DecideCancelRequestInput, actor: AuthUser, activeBancaId?: string | null, requestId?: string) {
+    const request = await this.getOwned(id, actor, activeBancaId);
+    if (request.status !== "PENDING") {
+      throw new AppError(`La solicitud ya está ${request.status}`, 409);
+    }
+    if (request.requestedBy === actor.id) {
+      throw new AppError("Debe aprobarla un usuario distinto a quien la solicitó", 409);
+    }
+
+    const claimed = await CancelRequestRepository.transition(id, "PENDING", {
+      status: "APPROVED",
+      decidedBy: actor.id,
+      decidedAt: new Date(),
+      decisionNote: data.note ?? null,
+    });
+    if (!claimed) throw new AppError("La solicitud cambió de estado, recargue e intente de nuevo", 409);
+
+    let ticket;
+    try {
+      ticket = await TicketService.cancel(request.ticketId, actor.id, requestId, activeBancaId ?? undefined, {
+        role: actor.role,
+        reason: request.reason ?? undefined,
+        approvedRequestId: id,
+      });
+    } catch (err: any) {
+      await CancelRequestRepository.transition(id, "APPROVED", { status: "FAILED", error: err?.message ?? String(err) });
+      throw err;
+    }
+
+    await this.logAction(request, actor, "cancel_approved", `Anulación del ticket #${request.ticket.ticketNumber} aprobada`, {
+      note: data.note ?? null,
+    });
+    return { request: (await CancelRequestRepository.findById(id))!, ticket };
+  },
+
+  /** Rechazo por VENTANA/BANCA o retiro por el vendedor que la solicitó */
+  async reject(id: string, data: DecideCancelRequestInput, actor: AuthUser, activeBancaId?: string | null) {
+    const request = await this.getOwned(id, actor, activeBancaId);
+    const withdrawn = request.requestedBy === actor.id;
+    if (actor.role === Role.VENDEDOR && !withdrawn) {
+      throw new AppError("No tienes permiso para rechazar esta solicitud", 403, "FORBIDDEN");
+    }
+
+    const moved = await CancelRequestRepository.transition(id, "PENDING", {
+      status: "REJECTED",
+      decidedBy: actor.id,
+      decidedAt: new Date(),
+      decisionNote: data.note ?? null,
+    });
+    if (!moved) throw new AppError(`La solicitud ya está ${request.status}`, 409);
+
+    await this.logAction(
+      request,
+      actor,
+      withdrawn ? "cancel_withdrawn" : "cancel_rejected",
+      `Anulación del ticket #${request.ticket.ticketNumber} ${withdrawn ? "retirada" : "rechazada"}`,
+      { note: data.note ?? null }
+    );
+    return (await CancelRequestRepository.findById(id))!;
+  },
+
+  /** Por defecto lista las pendientes (bandeja del aprobador) */
+  async findAll(query: ListCancelRequestsQuery, actor: AuthUser, activeBancaId?: string | null) {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+
+    const where: Prisma.CancelRequestWhereInput = { status: query.status ?? "PENDING" };
+    if (actor.role === Role.VENDEDOR) {
+      where.vendedorId = actor.id;
+    } else if (actor.role === Role.VENTANA) {
+      if (!actor.ventanaId) throw new AppError("El usuario no tiene ventana asignada", 403, "FORBIDDEN");
+      where.ventanaId = actor.ventanaId;
+    } else if (actor.role === Role.BANCA) {
+      if (!activeBancaId) throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+      where.bancaId = activeBancaId;
+    } else if (activeBancaId) {
+      where.bancaId = activeBancaId;
+    }
+    if (query.ventanaId && actor.role !== Role.VENTANA && actor.role !== Role.VENDEDOR) where.ventanaId = query.ventanaId;
+    if (query.vendedorId && actor.role !== Role.VENDEDOR) where.vendedorId = query.vendedorId;
+    if (query.ticketId) where.ticketId = query.ticketId;
+
+    const { data, total } = await CancelRequestRepository.list(where, page, pageSize);
+    return { data, meta: buildMeta(total, page, pageSize) };
+  },
+
+  async findById(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    return this.getOwned(id, actor, activeBancaId);
+  },
+
+  /** Política guardada en banca y ventana, y la efectiva que aplica a los vendedores */
+  async getPolicy(query: { ventanaId?: string }, actor: AuthUser, activeBancaId?: string | null) {
+    const ventanaId = actor.role === Role.VENTANA ? actor.ventanaId ?? undefined : query.ventanaId;
+    const { banca, ventana } = await this.loadPolicyOwners(ventanaId, actor, activeBancaId);
+
+    return {
+      bancaId: banca.id,
+      ventanaId: ventana?.id ?? null,
+      bancaPolicy: parseCancellationPolicy(banca.cancellationPolicyJson),
+      ventanaPolicy: ventana ? parseCancellationPolicy(ventana.cancellationPolicyJson) : null,
+      effective: TicketCancellationPolicyService.resolve(banca.cancellationPolicyJson, ventana?.cancellationPolicyJson),
+    };
+  },
+
+  /** Sin ventanaId actualiza la política de la banca; null la elimina */
+  async updatePolicy(data: UpdateCancellationPolicyInput, actor: AuthUser, activeBancaId?: string | null) {
+    const { banca, ventana } = await this.loadPolicyOwners(data.ventanaId, actor, activeBancaId);
+    const value = data.policy ? (data.policy as Prisma.InputJsonValue) : Prisma.DbNull;
+    const previous = ventana ? ventana.cancellationPolicyJson : banca.cancellationPolicyJson;
+
+    if (ventana) {
+      await CancelRequestRepository.updateVentanaPolicy(ventana.id, value);
+    } else {
+      await CancelRequestRepository.updateBancaPolicy(banca.id, value);
+    }
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: banca.id,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: ventana ? "VENTANA" : "BANCA",
+      targetId: ventana?.id ?? banca.id,
+      details: {
+        op: "cancellation_policy_updated",
+        previous: previous ?? null,
+        policy: (data.policy ?? null) as Prisma.InputJsonValue,
+        description: `Política de anulación de ${ventana ? "la ventana" : "la banca"} actualizada`,
+      } as Prisma.InputJsonObject,
+      layer: "service",
+    });
+
+    return this.getPolicy({ ventanaId: ventana?.id }, actor, activeBancaId);
+  },
+
+  /** Banca (y ventana) dueñas de la política, validando el alcance del actor */
+  async loadPolicyOwners(ventanaId: string | undefined, actor: AuthUser, activeBancaId?: string | null) {
+    const ventana = ventanaId ? await CancelRequestRepository.findVentanaPolicy(ventanaId) : null;
+    if (ventanaId && !ventana) throw new AppError("Ventana no encontrada", 404, "NOT_FOUND");
+
+    const bancaId = ventana?.bancaId ?? activeBancaId;
+    if (!bancaId) throw new AppError("Seleccione una banca", 400);
+    if (actor.role === Role.BANCA && bancaId !== activeBancaId) {
+      throw new AppError("No tienes permiso para gestionar esta política", 403, "FORBIDDEN");
+    }
+
+    const banca = await CancelRequestRepository.findBancaPolicy(bancaId);
+    if (!banca) throw new AppError("Banca no encontrada", 404, "NOT_FOUND");
+    return { banca, ventana };
+  },
+
+  async logAction(
+    request: CancelRequestWithTicket,
+    actor: AuthUser,
+    op: string,
+    description: string,
+    extra: Record<string, unknown> = {}
+  ) {
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: request.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "TICKET",
+      targetId: request.ticketId,
+      details: {
+        op,
+        cancelRequestId: request.id,
+        ticketNumber: request.ticket.ticketNumber,
+        requestedBy: request.requestedBy,
+        violations: request.violations,
+        ...extra,
+        description,
+      } as Prisma.InputJsonObject,
+      layer: "service",
+    });
+  },
+
+  /** Carga la solicitud y valida el alcance del actor (banca, ventana o vendedor) */
+  async getOwned(id: string, actor: AuthUser, activeBancaId?: string | null): Promise<CancelRequestWithTicket> {
+    const request = await CancelRequestRepository.findById(id);
+    if (!request) throw new AppError("Solicitud de anulación no encontrada", 404, "NOT_FOUND");
+
+    const allowed =
+      actor.role === Role.ADMIN ||
+      (actor.role === Role.BANCA && request.bancaId === activeBancaId) ||
+      (actor.role === Role.VENTANA && request.ventanaId === actor.ventanaId) ||
+      (actor.role === Role.VENDEDOR && request.vendedorId === actor.id);
+    if (!allowed) {
+      throw new AppError("No tienes permiso para gestionar esta solicitud", 403, "FORBIDDEN");
+    }
+    return request;
+  },
+};
+
+export default TicketCancellationService;
@@ -0,0 +1,212 @@
+import prisma from "../../../core/prismaClient";
+import logger from "../../../core/logger";
+import { AppError } from "../../../core/errors";
+import ActivityService from "../../../core/activity.service";
+import { AuthUser } from "../../../core/types";
+import { ActivityType, Prisma, Role, TicketStatus } from "../../../generated/prisma/client";
+import { formatIsoLocal } from "../../../utils/datetime";
+import { TicketPayoutPolicyService } from "./ticket/TicketPayoutPolicyService";
+import { ExtendClaimInput } from "../dto/ticketPayout.dto";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Tiquetes por consulta y máximo de consultas por pasada; el resto queda para la siguiente
+const BATCH_SIZE = 500;
+const MAX_BATCHES = 20;
+
+/** Premios con saldo pendiente que todavía pueden vencer */
+const pendingPrize = {
+  isWinner: true,
+  isActive: true,
+  deletedAt: null,
+  status: TicketStatus.EVALUATED,
+  expiredAt: null,
+  remainingAmount: { gt: 0 },
+} satisfies Prisma.TicketWhereInput;
+
+const expirySelect = {
+  id: true,
+  ticketNumber: true,
+  bancaId: true,
+  ventanaId: true,
+  loteriaId: true,
+  remainingAmount: true,
+  claimDeadline: true,
+  ventana: { select: { bancaId: true } },
+  sorteo: { select: { scheduledAt: true } },
+} satisfies Prisma.TicketSelect;
+
+/**
+ * Condiciones de vencimiento: tiquetes con plazo extendido ya cumplido, y por cada banca
+ * con plazo configurado los sorteos más antiguos que los días de la lotería / de la banca.
+ */
+async function buildExpiredWhere(now: Date): Promise<Prisma.TicketWhereInput[]> {
+  const conditions: Prisma.TicketWhereInput[] = [{ claimDeadline: { lt: now } }];
+
+  const bancas = await prisma.banca.findMany({
+    where: { payoutPolicyJson: { not: Prisma.DbNull } },
+    select: { id: true, payoutPolicyJson: true },
+  });
+
+  for (const banca of bancas) {
+    const policy = TicketPayoutPolicyService.resolve(banca.payoutPolicyJson);
+    const byLoteria = Object.entries(policy.claimDaysByLoteria);
+
+    for (const [loteriaId, days] of byLoteria) {
+      conditions.push({
+        claimDeadline: null,
+        loteriaId,
+        ventana: { bancaId: banca.id },
+        sorteo: { scheduledAt: { lt: new Date(now.getTime() - days * DAY_MS) } },
+      });
+    }
+
+    if (policy.claimDays !== null) {
+      conditions.push({
+        claimDeadline: null,
+        loteriaId: { notIn: byLoteria.map(([loteriaId]) => loteriaId) },
+        ventana: { bancaId: banca.id },
+        sorteo: { scheduledAt: { lt: new Date(now.getTime() - policy.claimDays * DAY_MS) } },
+      });
+    }
+  }
+
+  return conditions;
+}
+
+/**
+ * Vencimiento de premios no cobrados dentro del plazo de la política de pago de la banca.
+ * El saldo pendiente pasa a forfeitedAmount (remainingAmount = 0) para que deje de contar
+ * como premio por pagar; extender el plazo del tiquete lo restituye.
+ */
+export const TicketExpiryService = {
+  async expireDue(now: Date = new Date()) {
+    const conditions = await buildExpiredWhere(now);
+    let expired = 0;
+    let forfeitedAmount = 0;
+
+    for (let batch = 0; batch < MAX_BATCHES; batch++) {
+      const candidates = await prisma.ticket.findMany({
+        where: { ...pendingPrize, OR: conditions },
+        select: expirySelect,
+        orderBy: { createdAt: "asc" },
+        take: BATCH_SIZE,
+      });
+
+      for (const ticket of candidates) {
+        const amount = ticket.remainingAmount ?? 0;
+        // Si entró un pago entre la consulta y el update, el tiquete se omite
+        const { count } = await prisma.ticket.updateMany({
+          where: { id: ticket.id, ...pendingPrize, remainingAmount: amount },
+          data: { expiredAt: now, forfeitedAmount: amount, remainingAmount: 0 },
+        });
+        if (count !== 1) continue;
+
+        expired++;
+        forfeitedAmount += amount;
+        const bancaId = ticket.bancaId ?? ticket.ventana.bancaId;
+        await ActivityService.log({
+          userId: null,
+          bancaId,
+          action: ActivityType.SYSTEM_ACTION,
+          targetType: "TICKET",
+          targetId: ticket.id,
+          details: {
+            op: "prize_expired",
+            ticketNumber: ticket.ticketNumber,
+            ventanaId: ticket.ventanaId,
+            forfeitedAmount: amount,
+            claimDeadline: ticket.claimDeadline?.toISOString() ?? null,
+            sorteoScheduledAt: ticket.sorteo.scheduledAt.toISOString(),
+            description: `Premio de ₡${amount.toLocaleString()} del Ticket #${ticket.ticketNumber} vencido sin cobrar`,
+          },
+          layer: "service",
+        });
+      }
+
+      if (candidates.length < BATCH_SIZE) break;
+    }
+
+    if (expired > 0) {
+      logger.info({
+        layer: "service",
+        action: "TICKET_PRIZES_EXPIRED",
+        payload: { expired, forfeitedAmount },
+      });
+    }
+    return { expired, forfeitedAmount };
+  },
+
+  /**
+   * Extiende el plazo de cobro de un tiquete. Si el premio ya había vencido se restituye
+   * el saldo pendiente para que pueda pagarse.
+   */
+  async extendClaim(ticketId: string, data: ExtendClaimInput, actor: AuthUser, activeBancaId?: string | null) {
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      select: {
+        ...expirySelect,
+        isWinner: true,
+        status: true,
+        deletedAt: true,
+        expiredAt: true,
+        forfeitedAmount: true,
+      },
+    });
+
+    const bancaId = ticket ? ticket.bancaId ?? ticket.ventana.bancaId : null;
+    if (!ticket || ticket.deletedAt || (actor.role !== Role.ADMIN && bancaId !== activeBancaId)) {
+      throw new AppError("Ticket no encontrado", 404, "TICKET_NOT_FOUND");
+    }
+    if (!ticket.isWinner || ticket.status !== TicketStatus.EVALUATED) {
+      throw new AppError("Solo se puede extender el plazo de premios pendientes de pago", 409);
+    }
+
+    const claimDeadline = new Date(data.claimDeadline);
+    if (claimDeadline <= new Date()) {
+      throw new AppError("El nuevo plazo debe ser una fecha futura", 400);
+    }
+
+    const banca = await prisma.banca.findUnique({ where: { id: bancaId! }, select: { payoutPolicyJson: true } });
+    const previous = TicketPayoutPolicyService.claimDeadline(
+      ticket,
+      TicketPayoutPolicyService.resolve(banca?.payoutPolicyJson)
+    );
+    const reinstatedAmount = ticket.expiredAt ? ticket.forfeitedAmount ?? 0 : 0;
+
+    const { count } = await prisma.ticket.updateMany({
+      where: { id: ticket.id, status: TicketStatus.EVALUATED, expiredAt: ticket.expiredAt },
+      data: ticket.expiredAt
+        ? { claimDeadline, expiredAt: null, forfeitedAmount: null, remainingAmount: reinstatedAmount }
+        : { claimDeadline },
+    });
+    if (count !== 1) throw new AppError("El tiquete cambió de estado, recargue e intente de nuevo", 409);
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "TICKET",
+      targetId: ticket.id,
+      details: {
+        op: "claim_deadline_extended",
+        ticketNumber: ticket.ticketNumber,
+        previousDeadline: previous?.toISOString() ?? null,
+        claimDeadline: claimDeadline.toISOString(),
+        reinstatedAmount,
+        reason: data.reason,
+        description: `Plazo de cobro del Ticket #${ticket.ticketNumber} extendido${reinstatedAmount > 0 ? ` (premio de ₡${reinstatedAmount.toLocaleString()} restituido)` : ""}`,
+      },
+      layer: "service",
+    });
+
+    return {
+      ticketId: ticket.id,
+      ticketNumber: ticket.ticketNumber,
+      previousDeadline: previous ? formatIsoLocal(previous) : null,
+      claimDeadline: formatIsoLocal(claimDeadline),
+      reinstatedAmount,
+    };
+  },
+};
+
+export default TicketExpiryService;
@@ -1,8 +1,13 @@
 import prisma from "../../../core/prismaClient";
 import { AppError } from "../../../core/errors";
 import ActivityService from "../../../core/activity.service";
+import { WebhookService } from "./webhook.service";
 import { ActivityType, Role, TicketPayment, TicketStatus } from "../../../generated/prisma/client";
 import { CreatePaymentInput } from "../dto/ticketPayment.dto";
+import PayoutRequestRepository from "../../../repositories/payoutRequest.repository";
+import { TicketPayoutPolicyService } from "./ticket/TicketPayoutPolicyService";
+import { WithMoney } from "../../../core/moneyPrecision";
+import { roundMoney, subtractDecimals, sumMoney } from "../../../utils/decimal";
 
 interface AuthActor {
   id: string;
@@ -10,18 +15,22 @@ interface AuthActor {
   ventanaId?: string | null;
 }
 
-interface PaymentWithRelations extends TicketPayment {
+interface PaymentWithRelations extends WithMoney<TicketPayment> {
   ticket?: any;
   paidBy?: any;
 }
 
+/** Pago sobre el umbral: queda como solicitud pendiente de aprobación de la banca */
+type PendingPayout = NonNullable<Awaited<ReturnType<typeof TicketPayoutPolicyService.enforce>>>;
+
 export const TicketPaymentService = {
   /**
    * Registra un pago de tiquete ganador (total o parcial)
    * con validaciones de idempotencia, rol y monto.
    * Actualiza status a PAID si pago es completo o isFinal=true.
+   * Aplica la política de pago de la banca; sobre el umbral devuelve { payoutRequest }.
    */
-  async create(data: CreatePaymentInput, actor: AuthActor): Promise<PaymentWithRelations> {
+  async create(data: CreatePaymentInput, actor: AuthActor): Promise<PaymentWithRelations | PendingPayout> {
     const { id: userId, role } = actor;
 
     // Obtener tiquete con jugadas y ventana
@@ -30,6 +39,7 @@ export const TicketPaymentService = {
       include: {
         jugadas: true,
         ventana: true,
+        sorteo: { select: { scheduledAt: true } },
       },
     });
     if (!ticket) throw new AppError("TKT_PAY_001", 404);
@@ -40,6 +50,17 @@ export const TicketPaymentService = {
       throw new AppError("TKT_PAY_003", 409);
     }
 
+    // Banca del tiquete (los legacy sin bancaId la toman de su ventana): política, auditoría y webhooks
+    const bancaId = ticket.bancaId ?? ticket.ventana.bancaId;
+
+    // Validar que el premio no haya vencido (plazo de cobro de la banca/lotería)
+    const banca = await PayoutRequestRepository.findBancaPolicy(bancaId);
+    const policy = TicketPayoutPolicyService.resolve(banca?.payoutPolicyJson);
+    const expired = TicketPayoutPolicyService.expiryViolation(ticket, policy, new Date());
+    if (expired) {
+      throw new AppError("TKT_PAY_007", 409, { code: "PRIZE_EXPIRED", claimDeadline: expired.deadline ?? null });
+    }
+
     // Validar RBAC según rol
     if (role === Role.VENDEDOR) {
       // VENDEDOR solo puede pagar tiquetes propios (vendedorId = userId)
@@ -88,9 +109,7 @@ export const TicketPaymentService = {
     }
 
     // Calcular total premio
-    const totalPayout = ticket.jugadas
-      .filter(j => j.isWinner)
-      .reduce((acc, j) => acc + (j.payout ?? 0), 0);
+    const totalPayout = sumMoney(ticket.jugadas.filter(j => j.isWinner).map((j) => j.payout));
 
     // Validar monto
     if (data.amountPaid > totalPayout) {
@@ -101,9 +120,19 @@ export const TicketPaymentService = {
       throw new AppError("Amount must be greater than 0", 400);
     }
 
+    // Política de pago de la banca (misma que POST /tickets/:id/pay): bloqueos o aprobación
+    const pending = await TicketPayoutPolicyService.enforce(
+      { ...ticket, totalPayout },
+      actor,
+      data,
+      policy,
+      { bancaId }
+    );
+    if (pending) return pending;
+
     // Determinar si es pago parcial y monto restante
     const isPartial = data.amountPaid < totalPayout;
-    const remainingAmount = isPartial ? totalPayout - data.amountPaid : 0;
+    const remainingAmount = isPartial ? roundMoney(subtractDecimals(totalPayout, data.amountPaid)) : 0;
 
     // Determinar si el pago completa o finaliza
     const shouldMarkPaid = !isPartial || data.isFinal;
@@ -111,6 +140,9 @@ export const TicketPaymentService = {
 
     // Usar transacción para atomicidad
     const payment = await prisma.$transaction(async (tx) => {
+      // Tope diario del cajero bajo lock: la validación previa no ve pagos simultáneos
+      await TicketPayoutPolicyService.enforceCashierDailyLimit(tx, actor, data.amountPaid, policy);
+
       // Crear pago
       const newPayment = await tx.ticketPayment.create({
         data: {
@@ -138,6 +170,7 @@ export const TicketPaymentService = {
         // Log especial para cambio de status
         await ActivityService.log({
           userId,
+          bancaId,
           action: ActivityType.TICKET_STATUS_PAID,
           targetType: "TICKET",
           targetId: ticket.id,
@@ -157,6 +190,7 @@ export const TicketPaymentService = {
     // Log de pago
     await ActivityService.log({
       userId,
+      bancaId,
       action: ActivityType.TICKET_PAY,
       targetType: "TICKET_PAYMENT",
       targetId: payment.id,
@@ -176,6 +210,7 @@ export const TicketPaymentService = {
     if (data.isFinal && isPartial) {
       await ActivityService.log({
         userId,
+        bancaId,
         action: ActivityType.TICKET_PAY_FINALIZE,
         targetType: "TICKET_PAYMENT",
         targetId: payment.id,
@@ -189,6 +224,18 @@ export const TicketPaymentService = {
       });
     }
 
+    WebhookService.emit("ticket.paid", bancaId, {
+      ticketId: ticket.id,
+      ticketNumber: ticket.ticketNumber,
+      paymentId: payment.id,
+      amountPaid: data.amountPaid,
+      totalPayout,
+      remainingAmount,
+      isPartial,
+      isFinal: !!data.isFinal,
+      status: shouldMarkPaid ? TicketStatus.PAID : ticket.status,
+    });
+
     return payment;
   },
 
@@ -535,12 +582,10 @@ export const TicketPaymentService = {
       orderBy: { createdAt: 'asc' },
     });
 
-    const totalPayout = ticket.jugadas
-      .filter(j => j.isWinner)
-      .reduce((acc, j) => acc + (j.payout ?? 0), 0);
+    const totalPayout = sumMoney(ticket.jugadas.filter(j => j.isWinner).map((j) => j.payout));
 
-    const totalPaid = payments.reduce((acc, p) => acc + p.amountPaid, 0);
-    const remainingAmount = totalPayout - totalPaid;
+    const totalPaid = sumMoney(payments.map((p) => p.amountPaid));
+    const remainingAmount = roundMoney(subtractDecimals(totalPayout, totalPaid));
 
     return {
       ticketId: ticket.id,
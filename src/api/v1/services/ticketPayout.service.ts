@@ -0,0 +1,322 @@
+import { AppError } from "../../../core/errors";
+import ActivityService from "../../../core/activity.service";
+import { AuthUser } from "../../../core/types";
+import { ActivityType, Prisma, Role, TicketStatus } from "../../../generated/prisma/client";
+import PayoutRequestRepository from "../../../repositories/payoutRequest.repository";
+import { parsePayoutPolicy } from "../../../types/schemas/databaseJson.schema";
+import { formatIsoLocal } from "../../../utils/datetime";
+import { TicketService } from "./ticket.service";
+import { TicketVerificationService } from "./ticketVerification.service";
+import { TicketPayoutPolicyService } from "./ticket/TicketPayoutPolicyService";
+import {
+  DecidePayoutRequestInput,
+  ListPayoutRequestsQuery,
+  ScanPayInput,
+  UpdatePayoutPolicyInput,
+} from "../dto/ticketPayout.dto";
+import { sumMoney } from "../../../utils/decimal";
+
+type PayoutRequestWithTicket = NonNullable<Awaited<ReturnType<typeof PayoutRequestRepository.findById>>>;
+type ScannedTicket = NonNullable<Awaited<ReturnType<typeof PayoutRequestRepository.findTicketByNumber>>>;
+
+function buildMeta(total: number, page: number, pageSize: number) {
+  const totalPages = Math.ceil(total / pageSize);
+  return {
+    total,
+    page,
+    pageSize,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+}
+
+function prizeOf(ticket: ScannedTicket) {
+  const totalPayout = sumMoney(ticket.jugadas.map((j) => j.payout));
+  const totalPaid = ticket.totalPaid ?? 0;
+  return { totalPayout, totalPaid, remainingAmount: Math.max(totalPayout - totalPaid, 0) };
+}
+
+/**
+ * Pago de premios escaneando el tiquete en caja, con la política de pago de la banca
+ * (TicketService.registerPayment la aplica) y aprobación de pagos sobre el umbral.
+ */
+export const TicketPayoutService = {
+  /** Vista previa del escaneo: premio pendiente y reglas que aplicarían al cajero */
+  async lookup(code: string, actor: AuthUser, activeBancaId?: string | null) {
+    const ticket = await this.resolveScan(code, actor, activeBancaId);
+    const { totalPayout, totalPaid, remainingAmount } = prizeOf(ticket);
+    const policy = await this.loadPolicy(ticket);
+    const { blocking, approval } = await TicketPayoutPolicyService.check(
+      { ...ticket, totalPayout },
+      actor,
+      remainingAmount,
+      policy,
+      new Date()
+    );
+    const deadline = TicketPayoutPolicyService.claimDeadline(ticket, policy);
+    const payable =
+      ticket.isWinner &&
+      (ticket.status === TicketStatus.EVALUATED || ticket.status === TicketStatus.PAID) &&
+      remainingAmount > 0;
+
+    return {
+      ticketNumber: ticket.ticketNumber,
+      status: ticket.status,
+      isWinner: ticket.isWinner,
+      clienteNombre: ticket.clienteNombre,
+      ventana: { id: ticket.ventana.id, name: ticket.ventana.name },
+      sorteo: {
+        name: ticket.sorteo.name,
+        scheduledAt: formatIsoLocal(ticket.sorteo.scheduledAt),
+        status: ticket.sorteo.status,
+        winningNumber: ticket.sorteo.winningNumber,
+      },
+      jugadas: ticket.jugadas,
+      totalPayout,
+      totalPaid,
+      remainingAmount,
+      claimDeadline: deadline ? formatIsoLocal(deadline) : null,
+      expiredAt: ticket.expiredAt ? formatIsoLocal(ticket.expiredAt) : null,
+      forfeitedAmount: ticket.forfeitedAmount ?? 0,
+      violations: blocking,
+      requiresApproval: approval.length > 0,
+      canPay: payable && blocking.length === 0,
+    };
+  },
+
+  /** Sin amountPaid se paga el saldo pendiente; sobre el umbral devuelve { payoutRequest } */
+  async pay(data: ScanPayInput, actor: AuthUser, activeBancaId?: string | null, requestId?: string) {
+    const ticket = await this.resolveScan(data.code, actor, activeBancaId);
+    const { remainingAmount } = prizeOf(ticket);
+    const amountPaid = data.amountPaid ?? remainingAmount;
+    if (amountPaid <= 0) throw new AppError("El premio de este tiquete ya fue pagado", 409);
+
+    return TicketService.registerPayment(
+      ticket.id,
+      {
+        amountPaid,
+        method: data.method ?? "cash",
+        notes: data.notes,
+        isFinal: data.isFinal ?? false,
+        idempotencyKey: data.idempotencyKey,
+      },
+      actor.id,
+      requestId,
+      { role: actor.role, ventanaId: actor.ventanaId, channel: "scan" }
+    );
+  },
+
+  /**
+   * BANCA aprueba: el pago queda registrado a nombre del cajero que lo solicitó
+   * (quien entrega el efectivo). Las reglas de bloqueo se vuelven a validar.
+   */
+  async approve(id: string, data: DecidePayoutRequestInput, actor: AuthUser, activeBancaId?: string | null, requestId?: string) {
+    const request = await this.getOwned(id, actor, activeBancaId);
+    if (request.status !== "PENDING") {
+      throw new AppError(`La solicitud ya está ${request.status}`, 409);
+    }
+    if (request.requestedBy === actor.id) {
+      throw new AppError("Debe aprobarla un usuario distinto a quien la solicitó", 409);
+    }
+
+    const cashier = await PayoutRequestRepository.findCashier(request.requestedBy);
+    if (!cashier) throw new AppError("El cajero que solicitó el pago ya no existe", 409);
+
+    const claimed = await PayoutRequestRepository.transition(id, "PENDING", {
+      status: "APPROVED",
+      decidedBy: actor.id,
+      decidedAt: new Date(),
+      decisionNote: data.note ?? null,
+    });
+    if (!claimed) throw new AppError("La solicitud cambió de estado, recargue e intente de nuevo", 409);
+
+    let ticket;
+    try {
+      ticket = await TicketService.registerPayment(
+        request.ticketId,
+        {
+          amountPaid: request.amountPaid,
+          method: request.method,
+          notes: request.notes ?? undefined,
+          isFinal: request.isFinal,
+        },
+        cashier.id,
+        requestId,
+        { role: cashier.role, ventanaId: cashier.ventanaId, approvedRequestId: id }
+      );
+    } catch (err: any) {
+      await PayoutRequestRepository.transition(id, "APPROVED", { status: "FAILED", error: err?.message ?? String(err) });
+      throw err;
+    }
+
+    await this.logAction(request, actor, "payout_approved", `Pago de ₡${request.amountPaid.toLocaleString()} del ticket #${request.ticket.ticketNumber} aprobado`, {
+      note: data.note ?? null,
+    });
+    return { request: (await PayoutRequestRepository.findById(id))!, ticket };
+  },
+
+  /** Rechazo por BANCA o retiro por el cajero que la solicitó */
+  async reject(id: string, data: DecidePayoutRequestInput, actor: AuthUser, activeBancaId?: string | null) {
+    const request = await this.getOwned(id, actor, activeBancaId);
+    const withdrawn = request.requestedBy === actor.id;
+    if (actor.role !== Role.ADMIN && actor.role !== Role.BANCA && !withdrawn) {
+      throw new AppError("No tienes permiso para rechazar esta solicitud", 403, "FORBIDDEN");
+    }
+
+    const moved = await PayoutRequestRepository.transition(id, "PENDING", {
+      status: "REJECTED",
+      decidedBy: actor.id,
+      decidedAt: new Date(),
+      decisionNote: data.note ?? null,
+    });
+    if (!moved) throw new AppError(`La solicitud ya está ${request.status}`, 409);
+
+    await this.logAction(
+      request,
+      actor,
+      withdrawn ? "payout_withdrawn" : "payout_rejected",
+      `Pago del ticket #${request.ticket.ticketNumber} ${withdrawn ? "retirado" : "rechazado"}`,
+      { note: data.note ?? null }
+    );
+    return (await PayoutRequestRepository.findById(id))!;
+  },
+
+  /** Por defecto lista las pendientes (bandeja de la banca) */
+  async findAll(query: ListPayoutRequestsQuery, actor: AuthUser, activeBancaId?: string | null) {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+
+    const where: Prisma.PayoutRequestWhereInput = { status: query.status ?? "PENDING" };
+    if (actor.role === Role.VENDEDOR) {
+      where.requestedBy = actor.id;
+    } else if (actor.role === Role.VENTANA) {
+      if (!actor.ventanaId) throw new AppError("El usuario no tiene ventana asignada", 403, "FORBIDDEN");
+      where.ventanaId = actor.ventanaId;
+    } else if (actor.role === Role.BANCA) {
+      if (!activeBancaId) throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+      where.bancaId = activeBancaId;
+    } else if (activeBancaId) {
+      where.bancaId = activeBancaId;
+    }
+    if (query.ventanaId && actor.role !== Role.VENTANA && actor.role !== Role.VENDEDOR) where.ventanaId = query.ventanaId;
+    if (query.ticketId) where.ticketId = query.ticketId;
+
+    const { data, total } = await PayoutRequestRepository.list(where, page, pageSize);
+    return { data, meta: buildMeta(total, page, pageSize) };
+  },
+
+  async findById(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    return this.getOwned(id, actor, activeBancaId);
+  },
+
+  async getPolicy(actor: AuthUser, activeBancaId?: string | null) {
+    const banca = await this.loadPolicyOwner(activeBancaId);
+    return {
+      bancaId: banca.id,
+      policy: parsePayoutPolicy(banca.payoutPolicyJson),
+      effective: TicketPayoutPolicyService.resolve(banca.payoutPolicyJson),
+    };
+  },
+
+  /** null elimina la política (sin restricciones) */
+  async updatePolicy(data: UpdatePayoutPolicyInput, actor: AuthUser, activeBancaId?: string | null) {
+    const banca = await this.loadPolicyOwner(activeBancaId);
+    const value = data.policy ? (data.policy as Prisma.InputJsonValue) : Prisma.DbNull;
+
+    await PayoutRequestRepository.updateBancaPolicy(banca.id, value);
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: banca.id,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "BANCA",
+      targetId: banca.id,
+      details: {
+        op: "payout_policy_updated",
+        previous: banca.payoutPolicyJson ?? null,
+        policy: (data.policy ?? null) as Prisma.InputJsonValue,
+        description: "Política de pago de premios de la banca actualizada",
+      } as Prisma.InputJsonObject,
+      layer: "service",
+    });
+
+    return this.getPolicy(actor, activeBancaId);
+  },
+
+  async loadPolicyOwner(activeBancaId?: string | null) {
+    if (!activeBancaId) throw new AppError("Seleccione una banca", 400);
+    const banca = await PayoutRequestRepository.findBancaPolicy(activeBancaId);
+    if (!banca) throw new AppError("Banca no encontrada", 404, "NOT_FOUND");
+    return banca;
+  },
+
+  async loadPolicy(ticket: ScannedTicket) {
+    const banca = await PayoutRequestRepository.findBancaPolicy(ticket.bancaId ?? ticket.ventana.bancaId);
+    return TicketPayoutPolicyService.resolve(banca?.payoutPolicyJson);
+  },
+
+  /**
+   * Resuelve el código escaneado al tiquete. Un QR con firma inválida y los tiquetes de
+   * otra banca responden igual que uno inexistente.
+   */
+  async resolveScan(code: string, actor: AuthUser, activeBancaId?: string | null): Promise<ScannedTicket> {
+    const { ticketNumber, signature } = TicketVerificationService.parseScannedCode(code);
+    const ticket = await PayoutRequestRepository.findTicketByNumber(ticketNumber);
+
+    const visible =
+      ticket &&
+      !ticket.deletedAt &&
+      (!signature || TicketVerificationService.isAuthentic(ticket, signature)) &&
+      (actor.role === Role.ADMIN || (ticket.bancaId ?? ticket.ventana.bancaId) === activeBancaId);
+    if (!visible) {
+      throw new AppError(`No se encontró un ticket con el número ${ticketNumber}`, 404, "TICKET_NOT_FOUND");
+    }
+    return ticket;
+  },
+
+  async logAction(
+    request: PayoutRequestWithTicket,
+    actor: AuthUser,
+    op: string,
+    description: string,
+    extra: Record<string, unknown> = {}
+  ) {
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: request.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "TICKET",
+      targetId: request.ticketId,
+      details: {
+        op,
+        payoutRequestId: request.id,
+        ticketNumber: request.ticket.ticketNumber,
+        amountPaid: request.amountPaid,
+        requestedBy: request.requestedBy,
+        violations: request.violations,
+        ...extra,
+        description,
+      } as Prisma.InputJsonObject,
+      layer: "service",
+    });
+  },
+
+  /** Carga la solicitud y valida el alcance del actor (banca, ventana o cajero) */
+  async getOwned(id: string, actor: AuthUser, activeBancaId?: string | null): Promise<PayoutRequestWithTicket> {
+    const request = await PayoutRequestRepository.findById(id);
+    if (!request) throw new AppError("Solicitud de pago no encontrada", 404, "NOT_FOUND");
+
+    const allowed =
+      actor.role === Role.ADMIN ||
+      (actor.role === Role.BANCA && request.bancaId === activeBancaId) ||
+      (actor.role === Role.VENTANA && request.ventanaId === actor.ventanaId) ||
+      (actor.role === Role.VENDEDOR && request.requestedBy === actor.id);
+    if (!allowed) {
+      throw new AppError("No tienes permiso para gestionar esta solicitud", 403, "FORBIDDEN");
+    }
+    return request;
+  },
+};
+
+export default TicketPayoutService;
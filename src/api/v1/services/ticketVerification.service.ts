@@ -0,0 +1,116 @@
+import { AppError } from "../../../core/errors";
+import { config } from "../../../config";
+import { SorteoStatus, TicketStatus } from "../../../generated/prisma/client";
+import { TicketRepository } from "../../../repositories/ticket.repository";
+import {
+  isValidTicketVerifySignature,
+  parseTicketVerifyToken,
+  signTicketVerifyToken,
+} from "../../../utils/crypto";
+import { formatIsoLocal } from "../../../utils/datetime";
+
+export const TICKET_VERIFY_STATUSES = ["ACTIVE", "CANCELLED", "WINNER", "PAID", "NO_PRIZE"] as const;
+export type TicketVerifyStatus = (typeof TICKET_VERIFY_STATUSES)[number];
+
+type VerifiableTicket = NonNullable<Awaited<ReturnType<typeof TicketRepository.findForVerification>>>;
+
+// Misma respuesta para token inválido y tiquete inexistente: no se confirma qué números existen
+const NOT_FOUND_MESSAGE = "Tiquete no encontrado o código inválido";
+
+/**
+ * ACTIVE: sorteo sin evaluar. Premio parcialmente pagado sigue como WINNER.
+ */
+function resolveStatus(ticket: VerifiableTicket): TicketVerifyStatus {
+  if (
+    ticket.status === TicketStatus.CANCELLED ||
+    ticket.status === TicketStatus.EXCLUDED ||
+    ticket.deletedAt ||
+    !ticket.isActive
+  ) {
+    return "CANCELLED";
+  }
+  if (ticket.sorteo.status !== SorteoStatus.EVALUATED) return "ACTIVE";
+  if (!ticket.isWinner) return "NO_PRIZE";
+
+  const fullyPaid =
+    ticket.status === TicketStatus.PAID ||
+    ticket.status === TicketStatus.PAGADO ||
+    ((ticket.totalPaid ?? 0) > 0 && (ticket.remainingAmount ?? 0) <= 0);
+  return fullyPaid ? "PAID" : "WINNER";
+}
+
+/**
+ * Verificación pública de tiquetes mediante el QR impreso. La respuesta no incluye
+ * ids internos ni datos de vendedor/ventana.
+ */
+export const TicketVerificationService = {
+  /** Contenido del QR: URL de verificación si está configurada, si no el token solo */
+  qrContent(ticket: { id: string; ticketNumber: string }) {
+    const token = signTicketVerifyToken(ticket.ticketNumber, ticket.id, config.ticketVerify.secret);
+    return config.ticketVerify.baseUrl
+      ? `${config.ticketVerify.baseUrl.replace(/\/+$/, "")}/${encodeURIComponent(token)}`
+      : token;
+  },
+
+  /**
+   * Código leído en caja: QR (URL o token firmado) o código de barras (número de tiquete).
+   * signature null = código de barras, que no lleva firma.
+   */
+  parseScannedCode(code: string): { ticketNumber: string; signature: string | null } {
+    const raw = code.trim();
+    let last = raw.slice(raw.lastIndexOf("/") + 1);
+    try {
+      last = decodeURIComponent(last);
+    } catch {
+      // se usa tal cual
+    }
+    const parsed = parseTicketVerifyToken(last);
+    if (parsed && /^[A-Za-z0-9_-]{16}$/.test(parsed.signature)) return parsed;
+    return { ticketNumber: raw, signature: null };
+  },
+
+  isAuthentic(ticket: { id: string; ticketNumber: string }, signature: string) {
+    return isValidTicketVerifySignature(ticket.ticketNumber, ticket.id, signature, config.ticketVerify.secret);
+  },
+
+  async verify(token: string) {
+    const parsed = parseTicketVerifyToken(token);
+    if (!parsed) throw new AppError(NOT_FOUND_MESSAGE, 404, "NOT_FOUND");
+
+    const ticket = await TicketRepository.findForVerification(parsed.ticketNumber);
+    if (!ticket || !this.isAuthentic(ticket, parsed.signature)) {
+      throw new AppError(NOT_FOUND_MESSAGE, 404, "NOT_FOUND");
+    }
+
+    const status = resolveStatus(ticket);
+    const evaluated = ticket.sorteo.status === SorteoStatus.EVALUATED;
+    const showPrize = status === "WINNER" || status === "PAID";
+
+    return {
+      ticketNumber: ticket.ticketNumber,
+      status,
+      createdAt: formatIsoLocal(ticket.createdAt),
+      totalAmount: ticket.totalAmount,
+      winningAmount: showPrize ? ticket.totalPayout ?? 0 : 0,
+      paidAmount: showPrize ? ticket.totalPaid ?? 0 : 0,
+      pendingAmount: status === "WINNER" ? ticket.remainingAmount ?? 0 : 0,
+      sorteo: {
+        loteria: ticket.sorteo.loteria.name,
+        name: ticket.sorteo.name,
+        scheduledAt: formatIsoLocal(ticket.sorteo.scheduledAt),
+        status: ticket.sorteo.status,
+        winningNumber: evaluated ? ticket.sorteo.winningNumber : null,
+      },
+      // Permite al cliente comparar lo impreso con lo registrado
+      jugadas: ticket.jugadas.map((j) => ({
+        type: j.type,
+        number: j.number,
+        amount: j.amount,
+        isWinner: evaluated && j.isWinner,
+        payout: evaluated && j.isWinner ? j.payout ?? 0 : 0,
+      })),
+    };
+  },
+};
+
+export default TicketVerificationService;
@@ -1098,6 +1098,11 @@ export const VentasService = {
       if (filters.status) {
         whereSqlParts.push(Prisma.sql`t."status" = ${filters.status}`);
       }
+      if (filters.bancaId) {
+        whereSqlParts.push(
+          Prisma.sql`t."bancaId" = CAST(${filters.bancaId} AS uuid)`
+        );
+      }
       if (filters.ventanaId) {
         whereSqlParts.push(
           Prisma.sql`t."ventanaId" = CAST(${filters.ventanaId} AS uuid)`
@@ -0,0 +1,392 @@
+import crypto from "crypto";
+import { AppError } from "../../../core/errors";
+import ActivityService from "../../../core/activity.service";
+import logger from "../../../core/logger";
+import WebhookRepository from "../../../repositories/webhook.repository";
+import { ActivityType, Prisma, Role, Webhook } from "../../../generated/prisma/client";
+import { AuthUser } from "../../../core/types";
+import { publicUrlViolation } from "../../../utils/publicUrl";
+import {
+  CreateWebhookInput,
+  ListWebhookDeliveriesQuery,
+  ListWebhooksQuery,
+  UpdateWebhookInput,
+  WebhookEnvelope,
+  WebhookEvent,
+} from "../dto/webhook.dto";
+
+/** Intentos totales por evento (1 inicial + reintentos) */
+const MAX_ATTEMPTS = 5;
+/** Espera antes de cada reintento: 30s, 2m, 10m, 30m */
+const RETRY_BACKOFF_MS = [30_000, 120_000, 600_000, 1_800_000];
+/** Reintentos vencidos que toma el job por ronda */
+const RETRY_BATCH = 50;
+/** Un reintento tomado que no terminó (caída del proceso) vuelve a vencer tras esto */
+const RETRY_LEASE_MS = 5 * 60_000;
+/** Eventos consecutivos fallidos (con reintentos agotados) antes de desactivar el webhook */
+const DISABLE_AFTER_FAILURES = 10;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const RESPONSE_BODY_MAX_LENGTH = 2000;
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+
+/**
+ * Firma HMAC-SHA256 sobre `${timestamp}.${body}`.
+ * El receptor debe recalcularla con el mismo secreto y comparar en tiempo constante.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${digest}`;
+}
+
+function generateSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("hex")}`;
+}
+
+/** Nunca exponer el secreto en listados/lecturas */
+function serializeWebhook(webhook: Webhook) {
+  const { secret, ...rest } = webhook;
+  return { ...rest, hasSecret: !!secret };
+}
+
+function buildMeta(total: number, page: number, pageSize: number) {
+  const totalPages = Math.ceil(total / pageSize);
+  return {
+    total,
+    page,
+    pageSize,
+    totalPages,
+    hasNextPage: page < totalPages,
+    hasPrevPage: page > 1,
+  };
+}
+
+type AttemptResult = { ok: boolean; status: number; deliveryId: string };
+
+/**
+ * Ejecuta un único intento HTTP y lo registra en WebhookDelivery.
+ * status = 0 cuando no hubo respuesta (timeout, DNS, conexión rechazada).
+ * Con `scheduleRetry`, un fallo con intentos disponibles guarda nextAttemptAt para el job de reintentos.
+ */
+async function attemptDelivery(
+  webhook: Webhook,
+  envelope: WebhookEnvelope,
+  attempt: number,
+  scheduleRetry: boolean
+): Promise<AttemptResult> {
+  const body = JSON.stringify(envelope);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let status = 0;
+  let responseBody: string | null = null;
+
+  // SSRF: se valida en cada intento (el DNS puede cambiar después de registrar la URL)
+  const blocked = await publicUrlViolation(webhook.url);
+
+  try {
+    if (blocked) throw new Error(blocked);
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "bancas-webhooks/1.0",
+        "X-Webhook-Id": envelope.id,
+        "X-Webhook-Event": envelope.event,
+        "X-Webhook-Timestamp": String(timestamp),
+        ...(webhook.secret
+          ? { [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, timestamp, body) }
+          : {}),
+      },
+      body,
+      // Una redirección cuenta como fallo: podría apuntar a una red interna
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    status = response.status;
+    responseBody = (await response.text().catch(() => "")).slice(0, RESPONSE_BODY_MAX_LENGTH) || null;
+  } catch (err: any) {
+    responseBody = String(err?.message ?? err).slice(0, RESPONSE_BODY_MAX_LENGTH);
+  }
+
+  const ok = status >= 200 && status < 300;
+  const retry = !ok && scheduleRetry && attempt < MAX_ATTEMPTS;
+  const delay = RETRY_BACKOFF_MS[attempt - 1] ?? RETRY_BACKOFF_MS[RETRY_BACKOFF_MS.length - 1];
+
+  const delivery = await WebhookRepository.createDelivery({
+    webhookId: webhook.id,
+    event: envelope.event,
+    payload: envelope as unknown as Prisma.InputJsonValue,
+    status,
+    responseBody,
+    attempt,
+    nextAttemptAt: retry ? new Date(Date.now() + delay) : null,
+  });
+
+  return { ok, status, deliveryId: delivery.id };
+}
+
+/**
+ * Un intento de entrega. Si falla y quedan intentos, el reintento queda guardado en
+ * WebhookDelivery.nextAttemptAt (lo envía el job webhookRetry, sobrevive a reinicios);
+ * si se agotaron, cuenta como evento fallido. Antes de cada intento se relee el webhook
+ * para respetar desactivaciones/eliminaciones intermedias.
+ */
+async function deliver(webhookId: string, envelope: WebhookEnvelope, attempt = 1): Promise<void> {
+  const webhook = await WebhookRepository.findById(webhookId);
+  if (!webhook || !webhook.isActive) return;
+
+  const result = await attemptDelivery(webhook, envelope, attempt, true);
+
+  if (result.ok) {
+    await WebhookRepository.markSuccess(webhook.id);
+    return;
+  }
+
+  logger.warn({
+    layer: "service",
+    action: "WEBHOOK_DELIVERY_FAILED",
+    payload: { webhookId, event: envelope.event, eventId: envelope.id, attempt, status: result.status },
+  });
+
+  if (attempt < MAX_ATTEMPTS) return;
+
+  const updated = await WebhookRepository.markFailure(webhook.id, DISABLE_AFTER_FAILURES);
+  if (!updated.isActive) {
+    logger.error({
+      layer: "service",
+      action: "WEBHOOK_AUTO_DISABLED",
+      payload: { webhookId, failCount: updated.failCount, url: updated.url },
+    });
+    await ActivityService.log({
+      userId: null,
+      bancaId: updated.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "WEBHOOK",
+      targetId: updated.id,
+      details: {
+        op: "auto_disable",
+        failCount: updated.failCount,
+        description: `Webhook "${updated.name}" desactivado automáticamente tras ${updated.failCount} entregas fallidas consecutivas`,
+      },
+      layer: "service",
+    });
+  }
+}
+
+export const WebhookService = {
+  /**
+   * Publica un evento a los webhooks suscritos (fire-and-forget).
+   * Nunca lanza: un fallo de entrega no debe afectar la operación de negocio.
+   */
+  emit(event: WebhookEvent, bancaId: string | null | undefined, data: Record<string, unknown>) {
+    const envelope: WebhookEnvelope = {
+      id: crypto.randomUUID(),
+      event,
+      createdAt: new Date().toISOString(),
+      bancaId: bancaId ?? null,
+      data,
+    };
+
+    (async () => {
+      const subscribers = await WebhookRepository.findSubscribers(event, envelope.bancaId);
+      for (const webhook of subscribers) {
+        deliver(webhook.id, envelope).catch((err) => {
+          logger.error({
+            layer: "service",
+            action: "WEBHOOK_DELIVERY_ERROR",
+            payload: { webhookId: webhook.id, event, eventId: envelope.id, error: err.message },
+          });
+        });
+      }
+    })().catch((err) => {
+      logger.error({
+        layer: "service",
+        action: "WEBHOOK_EMIT_ERROR",
+        payload: { event, bancaId: envelope.bancaId, error: err.message },
+      });
+    });
+  },
+
+  /**
+   * Envía los reintentos vencidos (job webhookRetry). Cada uno se toma antes de enviarlo:
+   * con varias instancias no se envía dos veces; si el envío falla sin registrarse, vuelve a vencer.
+   */
+  async retryDue(now: Date = new Date()) {
+    const due = await WebhookRepository.findDueRetries(now, RETRY_BATCH);
+    let sent = 0;
+
+    for (const failed of due) {
+      if (!(await WebhookRepository.claimRetry(failed.id, failed.nextAttemptAt!, new Date(now.getTime() + RETRY_LEASE_MS)))) {
+        continue;
+      }
+      const envelope = failed.payload as unknown as WebhookEnvelope;
+      try {
+        await deliver(failed.webhookId, envelope, failed.attempt + 1);
+        await WebhookRepository.finishRetry(failed.id);
+        sent++;
+      } catch (err: any) {
+        logger.error({
+          layer: "service",
+          action: "WEBHOOK_RETRY_ERROR",
+          payload: { webhookId: failed.webhookId, eventId: envelope.id, attempt: failed.attempt + 1, error: err.message },
+        });
+      }
+    }
+    return { due: due.length, sent };
+  },
+
+  async create(data: CreateWebhookInput, actor: AuthUser, activeBancaId?: string | null) {
+    let bancaId: string | null;
+    if (actor.role === Role.BANCA) {
+      if (!activeBancaId) throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+      bancaId = activeBancaId;
+    } else {
+      bancaId = data.bancaId !== undefined ? data.bancaId : activeBancaId ?? null;
+    }
+
+    const secret = data.secret ?? generateSecret();
+    const webhook = await WebhookRepository.create({ ...data, bancaId, secret });
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "WEBHOOK",
+      targetId: webhook.id,
+      details: {
+        op: "create",
+        url: webhook.url,
+        events: webhook.events,
+        description: `Webhook "${webhook.name}" registrado para ${webhook.events.join(", ")}`,
+      },
+      layer: "service",
+    });
+
+    // El secreto solo se devuelve al crear
+    return { ...serializeWebhook(webhook), secret };
+  },
+
+  async findAll(query: ListWebhooksQuery, actor: AuthUser, activeBancaId?: string | null) {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+
+    const where: Prisma.WebhookWhereInput = {};
+    if (actor.role === Role.BANCA) {
+      if (!activeBancaId) throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+      where.bancaId = activeBancaId;
+    } else if (activeBancaId) {
+      where.bancaId = activeBancaId;
+    }
+    if (query.isActive !== undefined) where.isActive = query.isActive;
+
+    const { data, total } = await WebhookRepository.list(where, page, pageSize);
+    return { data: data.map(serializeWebhook), meta: buildMeta(total, page, pageSize) };
+  },
+
+  async findById(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    const webhook = await this.getOwned(id, actor, activeBancaId);
+    return serializeWebhook(webhook);
+  },
+
+  async update(id: string, data: UpdateWebhookInput, actor: AuthUser, activeBancaId?: string | null) {
+    const existing = await this.getOwned(id, actor, activeBancaId);
+
+    // Reactivar un webhook limpia el contador de fallos
+    const reactivating = data.isActive === true && !existing.isActive;
+    const webhook = await WebhookRepository.update(id, {
+      ...data,
+      ...(reactivating ? { failCount: 0 } : {}),
+    });
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: webhook.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "WEBHOOK",
+      targetId: webhook.id,
+      details: {
+        op: "update",
+        changes: { ...data, ...(data.secret ? { secret: "***" } : {}) },
+        description: `Webhook "${webhook.name}" actualizado`,
+      },
+      layer: "service",
+    });
+
+    return serializeWebhook(webhook);
+  },
+
+  async remove(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    const existing = await this.getOwned(id, actor, activeBancaId);
+    await WebhookRepository.delete(id);
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: existing.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "WEBHOOK",
+      targetId: id,
+      details: {
+        op: "delete",
+        url: existing.url,
+        description: `Webhook "${existing.name}" eliminado`,
+      },
+      layer: "service",
+    });
+
+    return { id };
+  },
+
+  async listDeliveries(id: string, query: ListWebhookDeliveriesQuery, actor: AuthUser, activeBancaId?: string | null) {
+    await this.getOwned(id, actor, activeBancaId);
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+    const { data, total } = await WebhookRepository.listDeliveries(id, page, pageSize, query.event);
+    return { data, meta: buildMeta(total, page, pageSize) };
+  },
+
+  /**
+   * Reenvía manualmente el payload original de una entrega (mismo `id` de evento).
+   * Es un único intento síncrono; permitido aunque el webhook esté desactivado
+   * para poder verificar el endpoint antes de reactivarlo.
+   */
+  async redeliver(id: string, deliveryId: string, actor: AuthUser, activeBancaId?: string | null) {
+    const webhook = await this.getOwned(id, actor, activeBancaId);
+    const original = await WebhookRepository.findDeliveryById(id, deliveryId);
+    if (!original) throw new AppError("Entrega no encontrada", 404, "NOT_FOUND");
+
+    const envelope = original.payload as unknown as WebhookEnvelope;
+    const result = await attemptDelivery(webhook, envelope, original.attempt + 1, false);
+    if (result.ok) await WebhookRepository.markSuccess(webhook.id);
+
+    await ActivityService.log({
+      userId: actor.id,
+      bancaId: webhook.bancaId,
+      action: ActivityType.SYSTEM_ACTION,
+      targetType: "WEBHOOK",
+      targetId: webhook.id,
+      details: {
+        op: "redeliver",
+        deliveryId,
+        newDeliveryId: result.deliveryId,
+        status: result.status,
+        description: `Reenvío manual del evento ${envelope.event} (HTTP ${result.status || "sin respuesta"})`,
+      },
+      layer: "service",
+    });
+
+    return result;
+  },
+
+  /** Carga el webhook y valida que pertenezca a la banca del actor */
+  async getOwned(id: string, actor: AuthUser, activeBancaId?: string | null) {
+    const webhook = await WebhookRepository.findById(id);
+    if (!webhook) throw new AppError("Webhook no encontrado", 404, "NOT_FOUND");
+
+    if (actor.role === Role.BANCA && webhook.bancaId !== activeBancaId) {
+      throw new AppError("No tienes permiso para gestionar este webhook", 403, "FORBIDDEN");
+    }
+    return webhook;
+  },
+};
+
+export default WebhookService;
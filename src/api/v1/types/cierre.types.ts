@@ -100,6 +100,21 @@ export interface VendedorMetrics extends CeldaMetrics {
 export interface CierreWeeklyData {
   loterias: CierreLoteriaGroup[];
   totals: CeldaMetrics;
+  cesiones?: CierreCesiones;
+}
+
+/**
+ * Cesiones (lay-off) de sorteos evaluados en el periodo. Son de la banca: solo se
+ * incluyen cuando el cierre no está filtrado por ventana o vendedor.
+ */
+export interface CierreCesiones {
+  positions: number;
+  cedido: number; // apostado en la contraparte
+  comision: number; // comisión que reconoce la contraparte
+  recuperado: number; // premio que paga la contraparte
+  neto: number; // recuperado + comision - cedido
+  resultadoConCesiones: number; // netoDespuesComision - ganado + neto
+  byLoteria: Array<{ loteriaId: string; neto: number }>;
 }
 
 /**
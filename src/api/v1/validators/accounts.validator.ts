@@ -2,7 +2,7 @@ import { SortOrder } from '../../../types/enums/sortOrder.enum';
 import { DateFilterOption } from '../../../types/enums/dateFilter.enum';
 // src/api/v1/validators/accounts.validator.ts
 import { z } from "zod";
-import { validateQuery, validateBody } from "../../../middlewares/validate.middleware";
+import { validateQuery, validateBody, validateParams } from "../../../middlewares/validate.middleware";
 import { ReportDimension, QueryScope } from "../../../types/enums/report.enum";
 import { ExportFormat } from "../../../types/enums/export.enum";
 
@@ -80,6 +80,7 @@ export const CreatePaymentBodySchema = z
     type: z.enum(["payment", "collection"]),
     method: z.enum(["cash", "transfer", "check", "other"]),
     notes: z.string().optional().nullable(),
+    reference: z.string().trim().max(100, "reference máximo 100 caracteres").optional().nullable(), // Referencia bancaria (transferencias)
     isFinal: z.boolean().optional().default(false),
     idempotencyKey: z.string().min(8, "idempotencyKey debe tener al menos 8 caracteres").max(100, "idempotencyKey máximo 100 caracteres").optional().nullable(),
   })
@@ -183,10 +184,29 @@ export const AccountStatementExportQuerySchema = z
     includeMovements: z.coerce.boolean().optional().default(true),
     sort: z.enum(SortOrder).optional().default(SortOrder.DESC),
     ignoreReset: z.string().optional(),
+
+    // Exportación en segundo plano (ExportJob): responde 202 con el trabajo
+    async: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
     _: z.string().optional(), // Para evitar caché del navegador (ignorado)
   })
   .strict()
   .superRefine((val, ctx) => {
+    // PDF no se genera en segundo plano; JSON solo existe en ese modo
+    if (val.async && val.format === ExportFormat.PDF) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["format"],
+        message: "format=pdf no está disponible con async=true",
+      });
+    }
+    if (!val.async && val.format === ExportFormat.JSON) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["format"],
+        message: "format=json requiere async=true",
+      });
+    }
+
     // month y date son mutuamente exclusivos
     if (val.month && val.date) {
       ctx.addIssue({
@@ -235,3 +255,165 @@ export const AccountStatementExportQuerySchema = z
  * Middleware de validación para GET /accounts/export
  */
 export const validateAccountStatementExportQuery = validateQuery(AccountStatementExportQuerySchema);
+
+/**
+ * Schema para GET /accounts/period-locks
+ */
+export const ListPeriodLocksQuerySchema = z
+  .object({
+    status: z.enum(["LOCKED", "REOPENED"], "Estado no soportado").optional(),
+    periodType: z.enum(["DAY", "WEEK", "MONTH"], "Tipo de período no soportado").optional(),
+    page: z.coerce.number().int().min(1).optional(),
+    pageSize: z.coerce.number().int().min(1).max(100).optional(),
+    _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+  })
+  .strict();
+
+/**
+ * Schema para body de POST /accounts/period-locks
+ */
+export const CreatePeriodLockBodySchema = z
+  .object({
+    periodType: z.enum(["DAY", "WEEK", "MONTH"], "Tipo de período no soportado"),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "date debe ser YYYY-MM-DD"),
+  })
+  .strict();
+
+/**
+ * Schema para POST /accounts/period-locks/:id/reopen
+ */
+export const PeriodLockIdParamSchema = z
+  .object({
+    id: z.uuid("id inválido (UUID)"),
+  })
+  .strict();
+
+export const ReopenPeriodLockBodySchema = z
+  .object({
+    reason: z.string().trim().min(5, "La razón debe tener al menos 5 caracteres").max(500),
+  })
+  .strict();
+
+/**
+ * Middlewares de validación para /accounts/period-locks
+ */
+export const validateListPeriodLocksQuery = validateQuery(ListPeriodLocksQuerySchema);
+export const validateCreatePeriodLockBody = validateBody(CreatePeriodLockBodySchema);
+export const validatePeriodLockIdParam = validateParams(PeriodLockIdParamSchema);
+export const validateReopenPeriodLockBody = validateBody(ReopenPeriodLockBodySchema);
+
+/**
+ * Schema para GET /accounts/audit
+ */
+export const ListAuditFindingsQuerySchema = z
+  .object({
+    status: z.enum(["OPEN", "RESOLVED", "REPAIRED"], "Estado no soportado").optional(),
+    source: z
+      .enum(["ACCOUNT_STATEMENT", "RESUMEN_CIERRE_DIARIO", "DAILY_NUMBER_SALES"], "Fuente no soportada")
+      .optional(),
+    dimension: z.enum(["vendedor", "ventana", "banca", "sorteo"], "Dimensión no soportada").optional(),
+    fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "fromDate debe ser YYYY-MM-DD").optional(),
+    toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "toDate debe ser YYYY-MM-DD").optional(),
+    page: z.coerce.number().int().min(1).optional(),
+    pageSize: z.coerce.number().int().min(1).max(100).optional(),
+    _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+  })
+  .strict();
+
+/**
+ * Schema para body de POST /accounts/audit/run (máximo 31 días, validado en el servicio)
+ */
+export const RunStatementAuditBodySchema = z
+  .object({
+    fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "fromDate debe ser YYYY-MM-DD"),
+    toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "toDate debe ser YYYY-MM-DD"),
+    repair: z.boolean().optional(),
+  })
+  .strict();
+
+/**
+ * Middlewares de validación para /accounts/audit
+ */
+export const validateListAuditFindingsQuery = validateQuery(ListAuditFindingsQuerySchema);
+export const validateRunStatementAuditBody = validateBody(RunStatementAuditBodySchema);
+
+const BankColumnSchema = z.string().trim().min(1).max(100).nullable().optional();
+
+/**
+ * Schema para body de POST /accounts/bank-profiles
+ */
+export const CreateBankProfileBodySchema = z
+  .object({
+    name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres").max(100),
+    bankName: z.string().trim().max(100).nullable().optional(),
+    format: z.enum(["CSV", "OFX"], "Formato no soportado"),
+    delimiter: z.enum([",", ";", "\t", "|"], "Separador no soportado").optional(),
+    skipRows: z.number().int().min(0).max(50).optional(),
+    dateColumn: BankColumnSchema,
+    dateFormat: z.enum(["YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY"], "Formato de fecha no soportado").optional(),
+    amountColumn: BankColumnSchema,
+    creditColumn: BankColumnSchema,
+    debitColumn: BankColumnSchema,
+    referenceColumn: BankColumnSchema,
+    descriptionColumn: BankColumnSchema,
+    decimalSeparator: z.enum([".", ","], "Separador decimal no soportado").optional(),
+    dateToleranceDays: z.number().int().min(0).max(15).optional(),
+  })
+  .strict();
+
+/**
+ * Schema para body de PATCH /accounts/bank-profiles/:id
+ */
+export const UpdateBankProfileBodySchema = CreateBankProfileBodySchema.partial()
+  .extend({ isActive: z.boolean().optional() })
+  .strict();
+
+export const BankIdParamSchema = z
+  .object({
+    id: z.uuid("id inválido (UUID)"),
+  })
+  .strict();
+
+/**
+ * Schema para body de POST /accounts/bank-statements/import (contenido del archivo como texto)
+ */
+export const ImportBankStatementBodySchema = z
+  .object({
+    profileId: z.uuid("profileId inválido (UUID)"),
+    fileName: z.string().trim().min(1).max(255),
+    content: z.string().min(1, "El archivo está vacío"),
+  })
+  .strict();
+
+/**
+ * Schema para GET /accounts/bank-reconciliation y POST /accounts/bank-reconciliation/rematch
+ */
+export const BankReconciliationQuerySchema = z
+  .object({
+    month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "month debe ser YYYY-MM"),
+    _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+  })
+  .strict();
+
+export const BankReconciliationBodySchema = z
+  .object({
+    month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "month debe ser YYYY-MM"),
+  })
+  .strict();
+
+export const MatchBankLineBodySchema = z
+  .object({
+    paymentId: z.uuid("paymentId inválido (UUID)"),
+  })
+  .strict();
+
+/**
+ * Middlewares de validación para perfiles, extractos y conciliación bancaria
+ */
+export const validateCreateBankProfileBody = validateBody(CreateBankProfileBodySchema);
+export const validateUpdateBankProfileBody = validateBody(UpdateBankProfileBodySchema);
+export const validateBankIdParam = validateParams(BankIdParamSchema);
+export const validateImportBankStatementBody = validateBody(ImportBankStatementBodySchema);
+export const validateBankReconciliationQuery = validateQuery(BankReconciliationQuerySchema);
+export const validateBankReconciliationBody = validateBody(BankReconciliationBodySchema);
+export const validateMatchBankLineBody = validateBody(MatchBankLineBodySchema);
@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { ALERT_DIMENSIONS } from "../dto/alert.dto";
+
+export const AlertIdParamSchema = z.object({
+  id: z.uuid("id inválido (UUID)"),
+}).strict();
+
+const ThresholdPctSchema = z.number().positive("El umbral debe ser mayor a 0").max(1000, "Umbral demasiado alto");
+const CooldownSchema = z.number().int().min(1, "El cooldown mínimo es 1 minuto").max(10080, "El cooldown máximo es 7 días").optional();
+
+const AlertConditionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("EXPOSURE_PCT"),
+    thresholdPct: ThresholdPctSchema,
+    cooldownMinutes: CooldownSchema,
+  }).strict(),
+  z.object({
+    type: z.literal("SALES_DROP_PCT"),
+    thresholdPct: ThresholdPctSchema.max(100, "La caída no puede superar 100%"),
+    minBaseline: z.number().nonnegative().optional(),
+    cooldownMinutes: CooldownSchema,
+  }).strict(),
+  z.object({
+    type: z.literal("CANCELLATION_RATE"),
+    thresholdPct: ThresholdPctSchema.max(100, "La tasa no puede superar 100%"),
+    minTickets: z.number().int().min(1).optional(),
+    cooldownMinutes: CooldownSchema,
+  }).strict(),
+], "Tipo de condición no soportado");
+
+const NotifyEmailSchema = z
+  .string()
+  .trim()
+  .max(500, "Lista de correos demasiado larga")
+  .refine(
+    (v) => v.split(",").map((s) => s.trim()).filter(Boolean).every((e) => z.email().safeParse(e).success),
+    "notifyEmail debe contener correos válidos separados por coma"
+  );
+
+const NotifyWebhookSchema = z
+  .string()
+  .trim()
+  .url("La URL no es válida")
+  .max(500, "URL demasiado larga")
+  .refine((u) => /^https?:\/\//i.test(u), "La URL debe usar http o https");
+
+const AlertBaseSchema = z.object({
+  name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres").max(100, "Nombre demasiado largo"),
+  dimension: z.enum(ALERT_DIMENSIONS, "Dimensión no soportada"),
+  targetId: z.uuid("targetId inválido (UUID)").nullable().optional(),
+  condition: AlertConditionSchema,
+  notifyEmail: NotifyEmailSchema.nullable().optional(),
+  notifyWebhook: NotifyWebhookSchema.nullable().optional(),
+  isActive: z.boolean().optional(),
+}).strict();
+
+export const CreateAlertSchema = AlertBaseSchema.superRefine((data, ctx) => {
+  if (data.dimension !== "banca" && !data.targetId) {
+    ctx.addIssue({ code: "custom", path: ["targetId"], message: `targetId es requerido para dimensión ${data.dimension}` });
+  }
+  if (data.dimension === "sorteo" && data.condition.type !== "EXPOSURE_PCT") {
+    ctx.addIssue({ code: "custom", path: ["condition", "type"], message: "La dimensión sorteo solo admite EXPOSURE_PCT" });
+  }
+});
+
+export const UpdateAlertSchema = AlertBaseSchema.partial().strict();
+
+export const ListAlertsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  isActive: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  dimension: z.enum(ALERT_DIMENSIONS).optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
+
+export const ListAlertHistoryQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  _: z.string().optional(),
+}).strict();
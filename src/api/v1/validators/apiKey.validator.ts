@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { API_KEY_SCOPES } from "../../../utils/apiKeyScopes";
+
+export const ApiKeyIdParamSchema = z.object({
+  id: z.uuid("id inválido (UUID)"),
+}).strict();
+
+const ApiKeyScopesSchema = z
+  .array(z.enum(API_KEY_SCOPES, "Scope de API key no soportado"))
+  .min(1, "Debe indicar al menos un scope")
+  .transform((scopes) => Array.from(new Set(scopes)));
+
+const ExpiresAtSchema = z.coerce
+  .date("expiresAt debe ser una fecha válida")
+  .refine((d) => d.getTime() > Date.now(), "expiresAt debe ser una fecha futura")
+  .nullable()
+  .optional();
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres").max(100, "Nombre demasiado largo"),
+  scopes: ApiKeyScopesSchema,
+  expiresAt: ExpiresAtSchema,
+  bancaId: z.uuid("bancaId inválido (UUID)").nullable().optional(),
+  global: z.boolean().optional(),
+}).strict()
+  .refine((data) => !(data.global && data.bancaId), {
+    message: "Una API key global no puede estar ligada a una banca",
+    path: ["global"],
+  });
+
+export const UpdateApiKeySchema = z.object({
+  name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres").max(100, "Nombre demasiado largo").optional(),
+  scopes: ApiKeyScopesSchema.optional(),
+  expiresAt: ExpiresAtSchema,
+}).strict();
+
+export const ListApiKeysQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  isActive: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
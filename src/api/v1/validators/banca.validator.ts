@@ -21,6 +21,8 @@ export const CreateBancaSchema = z.object({
     .max(20, 'El máximo de sesiones por vendedor no puede superar 20')
     .nullable()
     .optional(),
+  resultsDualConfirmation: z.boolean().optional(),
+  evaluationDualControl: z.boolean().optional(),
   importBaseLoterias: z.coerce.boolean().optional(),
   username: z.string().trim().min(3, "El nombre de usuario debe tener al menos 3 caracteres").max(100).optional(),
   password: z.string().min(6, "La contraseña debe tener al menos 6 caracteres").optional(),
@@ -29,6 +31,16 @@ export const CreateBancaSchema = z.object({
 
 export const UpdateBancaSchema = CreateBancaSchema.partial().strict();
 
+export const CloneBancaSchema = CreateBancaSchema.pick({
+  name: true,
+  code: true,
+  email: true,
+  address: true,
+  phone: true,
+}).extend({
+  dryRun: z.boolean().optional(),
+}).strict();
+
 export const ListBancasQuerySchema = z.object({
   page: z.coerce.number().int().positive().default(1),
   pageSize: z.coerce.number().int().min(1).max(100).default(20),
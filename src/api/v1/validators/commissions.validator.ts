@@ -148,10 +148,29 @@ export const CommissionsExportQuerySchema = z
     includeBreakdown: z.coerce.boolean().optional().default(true),
     includeWarnings: z.coerce.boolean().optional().default(true),
 
+    // Exportación en segundo plano (ExportJob): responde 202 con el trabajo
+    async: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+
     _: z.string().optional(), // Para evitar caché del navegador (ignorado)
   })
   .strict()
   .superRefine((val, ctx) => {
+    // PDF no se genera en segundo plano; JSON solo existe en ese modo
+    if (val.async && val.format === ExportFormat.PDF) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["format"],
+        message: "format=pdf no está disponible con async=true",
+      });
+    }
+    if (!val.async && val.format === ExportFormat.JSON) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["format"],
+        message: "format=json requiere async=true",
+      });
+    }
+
     //  CRÍTICO: Validar que date=range cuando hay fromDate/toDate
     if ((val.fromDate || val.toDate) && val.date !== 'range') {
       ctx.addIssue({
@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+export const CreditLimitIdParamSchema = z.object({
+  id: z.uuid("id inválido (UUID)"),
+}).strict();
+
+const LimitAmount = z.number().positive("El límite debe ser mayor a 0").nullable();
+
+export const UpsertCreditLimitSchema = z.object({
+  ventanaId: z.uuid("ventanaId inválido (UUID)"),
+  vendedorId: z.uuid("vendedorId inválido (UUID)").optional(),
+  softLimit: LimitAmount,
+  hardLimit: LimitAmount,
+}).strict().refine(
+  (data) => data.softLimit === null || data.hardLimit === null || data.softLimit <= data.hardLimit,
+  { message: "El límite de advertencia no puede superar el límite de bloqueo", path: ["softLimit"] }
+);
+
+export const CreditOverrideSchema = z.object({
+  limit: z.number().positive("El límite debe ser mayor a 0"),
+  until: z.string().datetime({ offset: true, message: "until debe ser fecha ISO" }),
+  reason: z.string().trim().min(3, "Indique el motivo").max(200),
+}).strict();
+
+export const ListCreditLimitsQuerySchema = z.object({
+  ventanaId: z.uuid("ventanaId inválido (UUID)").optional(),
+  vendedorId: z.uuid("vendedorId inválido (UUID)").optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
+
+export const CreditStatusQuerySchema = ListCreditLimitsQuerySchema;
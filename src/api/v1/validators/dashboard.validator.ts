@@ -55,6 +55,7 @@ export const DashboardQuerySchema = z
     // Export
     format: z.enum(ExportFormat).optional(),
     sections: z.string().optional(), // Secciones a incluir en export (kpis,ventanas,loterias,vendedores)
+    async: z.enum(["true", "false"]).transform((v) => v === "true").optional(), // Export en segundo plano (ExportJob)
 
     // Comparación
     compare: z.coerce.boolean().optional(),
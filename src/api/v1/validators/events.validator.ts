@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { REALTIME_EVENT_TYPES, RealtimeEventType } from "../services/realtime.service";
+
+export const EventStreamQuerySchema = z.object({
+  // Lista separada por comas; sin types se reciben todos los permitidos para el rol
+  types: z
+    .string()
+    .trim()
+    .transform((v) => v.split(",").map((t) => t.trim()).filter(Boolean))
+    .refine(
+      (types) => types.every((t) => (REALTIME_EVENT_TYPES as readonly string[]).includes(t)),
+      `types admite: ${REALTIME_EVENT_TYPES.join(", ")}`
+    )
+    .transform((types) => types as RealtimeEventType[])
+    .optional(),
+  sorteoId: z.uuid("sorteoId inválido (UUID)").optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
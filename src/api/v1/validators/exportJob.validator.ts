@@ -0,0 +1,13 @@
+import { z } from "zod";
+import { JobStatus } from "../../../generated/prisma/client";
+
+export const ExportJobIdParamSchema = z.object({
+  id: z.uuid("id inválido (UUID)"),
+}).strict();
+
+export const ListExportJobsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(JobStatus).optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { GOAL_DIMENSIONS, GOAL_METRICS, GOAL_PERIODS } from "../dto/goal.dto";
+
+const DateStrSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Formato de fecha inválido (YYYY-MM-DD)");
+
+export const GoalIdParamSchema = z.object({
+  id: z.uuid("id inválido (UUID)"),
+}).strict();
+
+const GoalBaseSchema = z.object({
+  name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres").max(100, "Nombre demasiado largo"),
+  dimension: z.enum(GOAL_DIMENSIONS, "Dimensión no soportada"),
+  targetId: z.uuid("targetId inválido (UUID)").nullable().optional(),
+  metric: z.enum(GOAL_METRICS, "Métrica no soportada"),
+  targetValue: z.number().positive("La meta debe ser mayor a 0"),
+  period: z.enum(GOAL_PERIODS, "Periodo no soportado"),
+  startDate: DateStrSchema,
+  endDate: DateStrSchema.optional(),
+  isActive: z.boolean().optional(),
+}).strict();
+
+export const CreateGoalSchema = GoalBaseSchema.superRefine((data, ctx) => {
+  if (data.dimension !== "banca" && !data.targetId) {
+    ctx.addIssue({ code: "custom", path: ["targetId"], message: "targetId es requerido para esta dimensión" });
+  }
+  if (data.period === "custom" && !data.endDate) {
+    ctx.addIssue({ code: "custom", path: ["endDate"], message: "endDate es requerido para periodo custom" });
+  }
+  if (data.period !== "custom" && data.endDate) {
+    ctx.addIssue({ code: "custom", path: ["endDate"], message: "endDate solo aplica a periodo custom" });
+  }
+  if (data.endDate && data.endDate < data.startDate) {
+    ctx.addIssue({ code: "custom", path: ["endDate"], message: "endDate debe ser mayor o igual a startDate" });
+  }
+});
+
+export const UpdateGoalSchema = GoalBaseSchema.partial().strict();
+
+export const ListGoalsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  isActive: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  dimension: z.enum(GOAL_DIMENSIONS).optional(),
+  metric: z.enum(GOAL_METRICS).optional(),
+  activeOn: DateStrSchema.optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
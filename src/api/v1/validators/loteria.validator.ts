@@ -1,14 +1,26 @@
 import { z } from "zod";
+import { ResultsProviderConfigSchema } from "../../../types/schemas/databaseJson.schema";
+
+// rulesJson es libre, salvo el bloque resultsProvider que consume la ingesta de resultados
+const rulesJsonSchema = z.record(z.string(), z.any()).superRefine((rules, ctx) => {
+  if (rules.resultsProvider == null) return;
+  const parsed = ResultsProviderConfigSchema.safeParse(rules.resultsProvider);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      ctx.addIssue({ code: "custom", path: ["resultsProvider", ...issue.path], message: issue.message });
+    }
+  }
+});
 
 export const createLoteriaSchema = z.object({
   name: z.string().min(2, "El nombre de la lotería debe tener al menos 2 caracteres"),
-  rulesJson: z.record(z.string(), z.any()).optional().nullable(),
+  rulesJson: rulesJsonSchema.optional().nullable(),
   isActive: z.boolean().optional(),
 }).passthrough();
 
 export const updateLoteriaSchema = z.object({
   name: z.string().min(2, "El nombre debe tener al menos 2 caracteres").optional(),
-  rulesJson: z.record(z.string(), z.any()).optional().nullable(),
+  rulesJson: rulesJsonSchema.optional().nullable(),
   isActive: z.boolean().optional(),
 }).passthrough();
 
@@ -77,6 +77,12 @@ export const CancelledTicketsQuerySchema = z.object({
   ...EntityFiltersSchema.shape,
 }).refine(dateRangeRefine, dateRangeRefineOptions).strict();
 
+// El rango filtra por fecha de vencimiento del premio (expiredAt)
+export const ForfeitedPrizesQuerySchema = z.object({
+  ...DateRangeSchemaBase.shape,
+  ...EntityFiltersSchema.shape,
+}).refine(dateRangeRefine, dateRangeRefineOptions).strict();
+
 // ============================================================================
 // REPORTE DE LOTERÍAS
 // ============================================================================
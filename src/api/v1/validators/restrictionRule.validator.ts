@@ -1,5 +1,6 @@
 // src/modules/restrictions/validators/restrictionRule.validator.ts
 import { z } from "zod";
+import { HotNumberPolicySchema } from "../../../types/schemas/databaseJson.schema";
 
 // id param
 export const RestrictionRuleIdParamSchema = z.object({
@@ -340,3 +341,13 @@ export const ListRestrictionRuleQuerySchema = z.object({
 export const ReasonBodySchema = z.object({
   reason: z.string().trim().min(3).max(200).optional(),
 }).strict();
+
+export const HotNumbersQuerySchema = z.object({
+  sorteoId: z.uuid("sorteoId inválido (UUID)"),
+  onlyHot: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
+
+export const UpdateHotNumberPolicySchema = z.object({
+  policy: HotNumberPolicySchema.nullable(),
+}).strict();
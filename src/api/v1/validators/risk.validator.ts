@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { RiskPolicySchema } from "../../../types/schemas/databaseJson.schema";
+
+export const LayOffIdParamSchema = z.object({
+  id: z.uuid("id inválido (UUID)"),
+}).strict();
+
+export const RiskExposureQuerySchema = z.object({
+  sorteoId: z.uuid("sorteoId inválido (UUID)"),
+  maxLoss: z.coerce.number().positive("maxLoss debe ser mayor a 0").optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
+
+export const CreateLayOffSchema = z.object({
+  sorteoId: z.uuid("sorteoId inválido (UUID)"),
+  number: z.string().trim().regex(/^\d{1,3}$/, "number debe ser de 1-3 dígitos"),
+  amount: z.number().positive("El monto cedido debe ser mayor a 0"),
+  multiplierX: z.number().positive("El multiplicador debe ser mayor a 0").optional(),
+  commissionPercent: z.number().min(0).max(100).optional(),
+  counterparty: z.string().trim().min(2, "Indique la banca que recibe la cesión").max(120),
+  notes: z.string().trim().max(500).optional(),
+}).strict();
+
+export const CancelLayOffSchema = z.object({
+  reason: z.string().trim().min(3, "Indique el motivo").max(200),
+}).strict();
+
+export const ListLayOffsQuerySchema = z.object({
+  sorteoId: z.uuid("sorteoId inválido (UUID)").optional(),
+  status: z.enum(["ACTIVE", "CANCELLED"], "Estado no soportado").optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
+
+export const UpdateRiskPolicySchema = z.object({
+  policy: RiskPolicySchema.nullable(),
+}).strict();
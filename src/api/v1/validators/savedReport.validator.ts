@@ -0,0 +1,82 @@
+import { z } from "zod";
+import {
+  REPORT_FORMATS,
+  REPORT_FREQUENCIES,
+  REPORT_PERIODS,
+  SAVED_REPORT_TYPES,
+} from "../dto/savedReport.dto";
+
+export const SavedReportIdParamSchema = z.object({
+  id: z.uuid("id inválido (UUID)"),
+}).strict();
+
+export const ReportScheduleParamSchema = z.object({
+  id: z.uuid("id inválido (UUID)"),
+  scheduleId: z.uuid("scheduleId inválido (UUID)"),
+}).strict();
+
+// Las fechas se calculan desde `period`; el formato se define en la programación
+const RESERVED_PARAMS = ["date", "fromDate", "toDate", "from", "to", "format", "_"];
+
+const ReportParamsSchema = z
+  .record(z.string(), z.string().max(200))
+  .refine((p) => Object.keys(p).length <= 20, "Demasiados parámetros")
+  .refine(
+    (p) => !Object.keys(p).some((k) => RESERVED_PARAMS.includes(k)),
+    `Los parámetros no pueden incluir ${RESERVED_PARAMS.join(", ")} (use period)`
+  );
+
+export const CreateSavedReportSchema = z.object({
+  name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres").max(100, "Nombre demasiado largo"),
+  report: z.enum(SAVED_REPORT_TYPES, "Reporte no soportado"),
+  period: z.enum(REPORT_PERIODS, "Periodo no soportado"),
+  params: ReportParamsSchema.optional(),
+  isActive: z.boolean().optional(),
+}).strict();
+
+export const UpdateSavedReportSchema = CreateSavedReportSchema.partial().strict();
+
+export const ListSavedReportsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  isActive: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  report: z.enum(SAVED_REPORT_TYPES).optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
+
+const ReportScheduleBaseSchema = z.object({
+  frequency: z.enum(REPORT_FREQUENCIES, "Frecuencia no soportada"),
+  timeOfDay: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "timeOfDay debe ser HH:mm (hora CR)"),
+  dayOfWeek: z.number().int().min(1, "dayOfWeek: 1=lunes … 7=domingo").max(7, "dayOfWeek: 1=lunes … 7=domingo").nullable().optional(),
+  dayOfMonth: z.number().int().min(1).max(28, "dayOfMonth debe estar entre 1 y 28").nullable().optional(),
+  format: z.enum(REPORT_FORMATS, "Formato no soportado"),
+  recipients: z
+    .array(z.email("Correo inválido"))
+    .min(1, "Debe indicar al menos un destinatario")
+    .max(20, "Máximo 20 destinatarios")
+    .transform((list) => Array.from(new Set(list.map((e) => e.toLowerCase())))),
+  isActive: z.boolean().optional(),
+}).strict();
+
+export const CreateReportScheduleSchema = ReportScheduleBaseSchema.superRefine((data, ctx) => {
+  if (data.frequency === "WEEKLY" && !data.dayOfWeek) {
+    ctx.addIssue({ code: "custom", path: ["dayOfWeek"], message: "dayOfWeek es requerido para frecuencia WEEKLY" });
+  }
+  if (data.frequency === "MONTHLY" && !data.dayOfMonth) {
+    ctx.addIssue({ code: "custom", path: ["dayOfMonth"], message: "dayOfMonth es requerido para frecuencia MONTHLY" });
+  }
+});
+
+export const UpdateReportScheduleSchema = ReportScheduleBaseSchema.partial().strict();
+
+export const ListReportRunsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(["RUNNING", "SUCCESS", "FAILED"]).optional(),
+  _: z.string().optional(),
+}).strict();
+
+export const RunSavedReportQuerySchema = z.object({
+  format: z.enum(REPORT_FORMATS, "Formato no soportado").optional(),
+  _: z.string().optional(),
+}).strict();
@@ -34,6 +34,18 @@ export const RevertSorteoSchema = z.object({
   reason: z.string().trim().min(3).max(200).optional(),
 }).strict();
 
+// Simulación de premios (solo lectura, antes de evaluar)
+export const PayoutSimulationQuerySchema = z.object({
+  number: z.string().regex(/^\d{1,3}$/, "number debe ser numérico (1-3 dígitos)"),
+  extraMultiplierId: z.uuid("extraMultiplierId inválido").optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
+
+export const PayoutMatrixQuerySchema = z.object({
+  extraMultiplierId: z.uuid("extraMultiplierId inválido").optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
+
 export const SetActiveSorteoSchema = z.object({
   isActive: z.coerce.boolean(),
 }).strict();
@@ -66,6 +78,10 @@ export const validateRevertSorteo = (req: Request, res: Response, next: NextFunc
   validateBody(RevertSorteoSchema)(req, res, next);
 export const validateSetActiveSorteo = (req: Request, res: Response, next: NextFunction) =>
   validateBody(SetActiveSorteoSchema)(req, res, next);
+export const validatePayoutSimulationQuery = (req: Request, res: Response, next: NextFunction) =>
+  validateQuery(PayoutSimulationQuerySchema)(req, res, next);
+export const validatePayoutMatrixQuery = (req: Request, res: Response, next: NextFunction) =>
+  validateQuery(PayoutMatrixQuerySchema)(req, res, next);
 
 //  export helper para rutas
 export const validateListSorteosQuery = (req: Request, res: Response, next: NextFunction) =>
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { SORTEO_APPROVAL_ACTIONS, SORTEO_APPROVAL_STATUSES } from "../dto/sorteoApproval.dto";
+
+export const SorteoApprovalIdParamSchema = z.object({
+  id: z.uuid("id inválido (UUID)"),
+}).strict();
+
+export const ApproveSorteoApprovalSchema = z.object({
+  winningNumber: z.string().trim().regex(/^\d+$/, "El número ganador solo admite dígitos").optional(),
+  extraMultiplierId: z.uuid("extraMultiplierId inválido").nullable().optional(),
+  extraOutcomeCode: z.string().trim().min(1).max(50).nullable().optional(),
+  note: z.string().trim().min(3).max(200).optional(),
+}).strict();
+
+export const RejectSorteoApprovalSchema = z.object({
+  note: z.string().trim().min(3).max(200).optional(),
+}).strict();
+
+export const ListSorteoApprovalsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).optional(),
+  status: z.enum(SORTEO_APPROVAL_STATUSES, "Estado no soportado").optional(),
+  action: z.enum(SORTEO_APPROVAL_ACTIONS, "Acción no soportada").optional(),
+  sorteoId: z.uuid("sorteoId inválido (UUID)").optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { SORTEO_RESULT_STATUSES } from "../dto/sorteoResult.dto";
+
+export const SorteoResultIdParamSchema = z.object({
+  id: z.uuid("id inválido (UUID)"),
+}).strict();
+
+export const SubmitSorteoResultSchema = z.object({
+  sorteoId: z.uuid("sorteoId inválido (UUID)"),
+  winningNumber: z.string().trim().regex(/^\d+$/, "El número ganador solo admite dígitos"),
+  extraMultiplierId: z.uuid("extraMultiplierId inválido (UUID)").nullable().optional(),
+}).strict();
+
+export const ConfirmSorteoResultSchema = z.object({
+  winningNumber: z.string().trim().regex(/^\d+$/, "El número ganador solo admite dígitos").optional(),
+  extraMultiplierId: z.uuid("extraMultiplierId inválido (UUID)").nullable().optional(),
+}).strict();
+
+export const RejectSorteoResultSchema = z.object({
+  reason: z.string().trim().min(3).max(200).optional(),
+}).strict();
+
+export const ListSorteoResultsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).optional(),
+  status: z.enum(SORTEO_RESULT_STATUSES, "Estado no soportado").optional(),
+  sorteoId: z.uuid("sorteoId inválido (UUID)").optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
@@ -140,6 +140,13 @@ export const ReversePaymentSchema = z.object({
   reason: z.string().min(5).max(500).optional(),
 });
 
+/**
+ * Schema para anular un tiquete (el motivo se muestra al aprobador si queda fuera de política)
+ */
+export const CancelTicketSchema = z.object({
+  reason: z.string().trim().min(3).max(255).optional(),
+});
+
 /**
  * Schema para marcar pago parcial como final
  */
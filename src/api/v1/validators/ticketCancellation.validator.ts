@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { CANCEL_REQUEST_STATUSES } from "../dto/ticketCancellation.dto";
+import { CancellationPolicySchema } from "../../../types/schemas/databaseJson.schema";
+
+export const CancelRequestIdParamSchema = z.object({
+  id: z.uuid("id inválido (UUID)"),
+}).strict();
+
+export const DecideCancelRequestSchema = z.object({
+  note: z.string().trim().min(3).max(200).optional(),
+}).strict();
+
+export const ListCancelRequestsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).optional(),
+  status: z.enum(CANCEL_REQUEST_STATUSES, "Estado no soportado").optional(),
+  ventanaId: z.uuid("ventanaId inválido (UUID)").optional(),
+  vendedorId: z.uuid("vendedorId inválido (UUID)").optional(),
+  ticketId: z.uuid("ticketId inválido (UUID)").optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
+
+export const CancellationPolicyQuerySchema = z.object({
+  ventanaId: z.uuid("ventanaId inválido (UUID)").optional(),
+  _: z.string().optional(),
+}).strict();
+
+export const UpdateCancellationPolicySchema = z.object({
+  ventanaId: z.uuid("ventanaId inválido (UUID)").optional(),
+  policy: CancellationPolicySchema.nullable(),
+}).strict();
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { PAYOUT_METHODS, PAYOUT_REQUEST_STATUSES } from "../dto/ticketPayout.dto";
+import { PayoutPolicySchema } from "../../../types/schemas/databaseJson.schema";
+
+export const PayoutRequestIdParamSchema = z.object({
+  id: z.uuid("id inválido (UUID)"),
+}).strict();
+
+export const TicketIdParamSchema = z.object({
+  ticketId: z.uuid("ticketId inválido (UUID)"),
+}).strict();
+
+const ScannedCode = z.string().trim().min(1, "code es requerido").max(300, "code máximo 300 caracteres");
+
+export const ScanLookupSchema = z.object({
+  code: ScannedCode,
+}).strict();
+
+export const ScanPaySchema = z.object({
+  code: ScannedCode,
+  amountPaid: z.number().positive("El monto pagado debe ser mayor a 0").optional(),
+  method: z.enum(PAYOUT_METHODS, "Método de pago no soportado").optional(),
+  notes: z.string().trim().max(500).optional(),
+  isFinal: z.boolean().optional(),
+  idempotencyKey: z.string().min(8).max(100).optional(),
+}).strict();
+
+export const DecidePayoutRequestSchema = z.object({
+  note: z.string().trim().min(3).max(200).optional(),
+}).strict();
+
+export const ListPayoutRequestsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(100).optional(),
+  status: z.enum(PAYOUT_REQUEST_STATUSES, "Estado no soportado").optional(),
+  ventanaId: z.uuid("ventanaId inválido (UUID)").optional(),
+  ticketId: z.uuid("ticketId inválido (UUID)").optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
+
+export const UpdatePayoutPolicySchema = z.object({
+  policy: PayoutPolicySchema.nullable(),
+}).strict();
+
+export const ExtendClaimSchema = z.object({
+  claimDeadline: z.string().datetime({ offset: true, message: "claimDeadline debe ser fecha ISO" }),
+  reason: z.string().trim().min(3, "Indique el motivo").max(200),
+}).strict();
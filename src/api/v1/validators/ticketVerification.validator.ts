@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+export const TicketVerifyParamsSchema = z.object({
+  token: z
+    .string()
+    .max(64, "Código inválido")
+    .regex(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]{16}$/, "Código inválido"),
+}).strict();
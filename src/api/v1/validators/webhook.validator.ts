@@ -0,0 +1,50 @@
+import { z } from "zod";
+import { WEBHOOK_EVENTS } from "../dto/webhook.dto";
+import { isPrivateHost } from "../../../utils/publicUrl";
+
+export const WebhookIdParamSchema = z.object({
+  id: z.uuid("id inválido (UUID)"),
+}).strict();
+
+export const WebhookDeliveryParamSchema = z.object({
+  id: z.uuid("id inválido (UUID)"),
+  deliveryId: z.uuid("deliveryId inválido (UUID)"),
+}).strict();
+
+const WebhookUrlSchema = z
+  .string()
+  .trim()
+  .url("La URL no es válida")
+  .max(500, "URL demasiado larga")
+  .refine((u) => /^https?:\/\//i.test(u), "La URL debe usar http o https")
+  .refine((u) => !isPrivateHost(new URL(u).hostname), "La URL no puede apuntar a una red privada o local");
+
+const WebhookEventsSchema = z
+  .array(z.enum(WEBHOOK_EVENTS, "Evento de webhook no soportado"))
+  .min(1, "Debe suscribirse al menos a un evento")
+  .transform((events) => Array.from(new Set(events)));
+
+export const CreateWebhookSchema = z.object({
+  name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres").max(100, "Nombre demasiado largo"),
+  url: WebhookUrlSchema,
+  events: WebhookEventsSchema,
+  secret: z.string().min(16, "El secreto debe tener al menos 16 caracteres").max(200).optional(),
+  isActive: z.boolean().optional(),
+  bancaId: z.uuid("bancaId inválido (UUID)").nullable().optional(),
+}).strict();
+
+export const UpdateWebhookSchema = CreateWebhookSchema.omit({ bancaId: true }).partial().strict();
+
+export const ListWebhooksQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  isActive: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+  _: z.string().optional(), // Para evitar caché del navegador (ignorado)
+}).strict();
+
+export const ListWebhookDeliveriesQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  event: z.enum(WEBHOOK_EVENTS).optional(),
+  _: z.string().optional(),
+}).strict();
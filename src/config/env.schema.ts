@@ -58,4 +58,62 @@ export const EnvSchema = z.object({
   REQUEST_TIMEOUT_MS: z.coerce.number().int().default(15000),
   PRISMA_CB_RESET_MS: z.coerce.number().int().default(15000),
   REDIS_CB_RESET_MS: z.coerce.number().int().default(10000),
+
+  // CORREO SALIENTE (alertas, reportes programados)
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().default(25),
+  SMTP_SECURE: z.preprocess(
+    (val) => val === 'true' || val === '1',
+    z.boolean()
+  ).default(false),
+  SMTP_FROM: z.string().default('notificaciones@localhost'),
+
+  // ALERTAS (motor de reglas + notificaciones)
+  ALERTS_EVALUATION_INTERVAL_MINUTES: z.coerce.number().int().min(1).default(5),
+
+  // REPORTES PROGRAMADOS
+  REPORTS_SCHEDULER_INTERVAL_MINUTES: z.coerce.number().int().min(1).default(1),
+
+  // EXPORTACIONES ASÍNCRONAS (ExportJob)
+  EXPORT_JOBS_STORAGE_DIR: z.string().optional(),
+  EXPORT_JOBS_POLL_SECONDS: z.coerce.number().int().min(1).default(10),
+  EXPORT_JOBS_TTL_HOURS: z.coerce.number().int().min(1).default(24),
+
+  // INGESTA DE RESULTADOS (proveedores de números ganadores)
+  RESULTS_INGESTION_INTERVAL_MINUTES: z.coerce.number().int().min(1).default(2),
+  RESULTS_INGESTION_LOOKBACK_HOURS: z.coerce.number().int().min(1).default(12),
+
+  // DOBLE CONTROL DE EVALUACIÓN (aprobaciones pendientes)
+  SORTEO_APPROVAL_TTL_MINUTES: z.coerce.number().int().min(1).default(60),
+
+  // STREAM DE EVENTOS EN TIEMPO REAL (SSE)
+  REALTIME_MAX_CONNECTIONS: z.coerce.number().int().min(0).default(500),
+  REALTIME_HEARTBEAT_SECONDS: z.coerce.number().int().min(5).default(25),
+  REALTIME_EXPOSURE_INTERVAL_SECONDS: z.coerce.number().int().min(1).default(5),
+
+  // VERIFICACIÓN PÚBLICA DE TIQUETES (QR firmado)
+  TICKET_VERIFY_SECRET: z.preprocess(
+    (val) => (val === '' ? undefined : val),
+    z.string().min(32).optional()
+  ),
+  TICKET_VERIFY_URL: z.preprocess(
+    (val) => (val === '' ? undefined : val),
+    z.string().url().optional()
+  ),
+  TICKET_VERIFY_RATE_LIMIT_PER_MINUTE: z.coerce.number().int().min(1).default(20),
+  TICKET_EXPIRY_INTERVAL_MINUTES: z.coerce.number().int().min(1).default(60),
+
+  // LIBRO DE CUENTAS: estados de cuenta y saldo actual derivados de LedgerEntry
+  LEDGER_READS_ENABLED: z.preprocess(
+    (val) => val === 'true' || val === '1',
+    z.boolean()
+  ).default(false),
+
+  // AUDITORÍA DE ESTADOS DE CUENTA (deriva entre tiquetes y AccountStatement/rollups)
+  STATEMENT_AUDIT_INTERVAL_MINUTES: z.coerce.number().int().min(1).default(360),
+  STATEMENT_AUDIT_LOOKBACK_DAYS: z.coerce.number().int().min(1).max(31).default(3),
+  STATEMENT_AUDIT_AUTO_REPAIR: z.preprocess(
+    (val) => val === 'true' || val === '1',
+    z.boolean()
+  ).default(false),
 });
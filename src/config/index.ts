@@ -73,4 +73,52 @@ export const config = {
     prismaCbResetMs: parsed.data.PRISMA_CB_RESET_MS,
     redisCbResetMs: parsed.data.REDIS_CB_RESET_MS,
   },
+  smtp: {
+    host: parsed.data.SMTP_HOST || undefined, // sin host => envío de email deshabilitado
+    port: parsed.data.SMTP_PORT,
+    secure: parsed.data.SMTP_SECURE,
+    from: parsed.data.SMTP_FROM,
+  },
+  alerts: {
+    evaluationIntervalMinutes: parsed.data.ALERTS_EVALUATION_INTERVAL_MINUTES,
+  },
+  reports: {
+    schedulerIntervalMinutes: parsed.data.REPORTS_SCHEDULER_INTERVAL_MINUTES,
+  },
+  exportJobs: {
+    storageDir: parsed.data.EXPORT_JOBS_STORAGE_DIR || undefined, // sin valor => <tmpdir>/bancas-exports
+    pollSeconds: parsed.data.EXPORT_JOBS_POLL_SECONDS,
+    ttlHours: parsed.data.EXPORT_JOBS_TTL_HOURS,
+  },
+  resultsIngestion: {
+    intervalMinutes: parsed.data.RESULTS_INGESTION_INTERVAL_MINUTES,
+    lookbackHours: parsed.data.RESULTS_INGESTION_LOOKBACK_HOURS,
+  },
+  sorteoApprovals: {
+    ttlMinutes: parsed.data.SORTEO_APPROVAL_TTL_MINUTES,
+  },
+  realtime: {
+    maxConnections: parsed.data.REALTIME_MAX_CONNECTIONS,
+    heartbeatSeconds: parsed.data.REALTIME_HEARTBEAT_SECONDS,
+    exposureIntervalSeconds: parsed.data.REALTIME_EXPOSURE_INTERVAL_SECONDS,
+  },
+  ticketVerify: {
+    // Sin secreto propio se usa el de JWT; rotarlo invalida los QR ya impresos
+    secret: parsed.data.TICKET_VERIFY_SECRET ?? parsed.data.JWT_ACCESS_SECRET,
+    baseUrl: parsed.data.TICKET_VERIFY_URL, // sin valor => el QR lleva solo el token
+    rateLimitPerMinute: parsed.data.TICKET_VERIFY_RATE_LIMIT_PER_MINUTE,
+  },
+  ticketExpiry: {
+    intervalMinutes: parsed.data.TICKET_EXPIRY_INTERVAL_MINUTES,
+  },
+  ledger: {
+    // El libro se escribe siempre; esto solo decide de dónde leen los estados de cuenta
+    readsEnabled: parsed.data.LEDGER_READS_ENABLED,
+  },
+  statementAudit: {
+    intervalMinutes: parsed.data.STATEMENT_AUDIT_INTERVAL_MINUTES,
+    lookbackDays: parsed.data.STATEMENT_AUDIT_LOOKBACK_DAYS,
+    // Sin reparación automática los hallazgos quedan abiertos para revisión
+    autoRepair: parsed.data.STATEMENT_AUDIT_AUTO_REPAIR,
+  },
 }
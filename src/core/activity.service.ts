@@ -1,4 +1,4 @@
-import prisma from './prismaClient';
+import prisma, { AppTransactionClient } from './prismaClient';
 import logger from './logger';
 import { ActivityType, Prisma } from '../generated/prisma/client';
 
@@ -21,7 +21,7 @@ function normalizeDetails(details: ActivityPayload['details']) {
 }
 
 async function resolveBancaId(
-  tx: Prisma.TransactionClient,
+  tx: AppTransactionClient,
   userId: string | null,
   targetType: string | null,
   targetId: string | null
@@ -144,7 +144,7 @@ export const ActivityService = {
     });
   },
 
-  async logWithTx(tx: Prisma.TransactionClient, payload: ActivityPayload) {
+  async logWithTx(tx: AppTransactionClient, payload: ActivityPayload) {
     const {
       userId = null,
       action,
@@ -3,21 +3,49 @@ import { config } from '../config';
 import logger from './logger';
 import { ResilienceService } from './resilience.service';
 import { EventEmitter } from 'events';
+import { TenantContext } from './tenantContext';
 
 export const CacheEvents = new EventEmitter();
+
+/** Canal de eventos en tiempo real: cada instancia reenvía lo recibido a sus streams SSE */
+export const REALTIME_CHANNEL = 'realtime:events';
+export const RealtimeEvents = new EventEmitter();
+RealtimeEvents.setMaxListeners(0);
+
 let isSubscribed = false;
 
-export function initCacheSubscriber() {
+export async function initCacheSubscriber() {
     if (!redisSubscriber || isSubscribed) return;
     isSubscribed = true;
-    
-    redisSubscriber.subscribe('cache:invalidate');
+
     redisSubscriber.on('message', (channel: string, message: string) => {
         if (channel === 'cache:invalidate') {
             l1Cache.delete(message);
             CacheEvents.emit('invalidate', message);
+        } else if (channel === REALTIME_CHANNEL) {
+            RealtimeEvents.emit('event', message);
         }
     });
+
+    try {
+        // El cliente duplicado hereda lazyConnect y no encola comandos offline
+        if (redisSubscriber.status === 'wait') await redisSubscriber.connect();
+        await redisSubscriber.subscribe('cache:invalidate', REALTIME_CHANNEL);
+        logger.info({ layer: 'cache', action: 'SUBSCRIBER_READY', payload: { channels: ['cache:invalidate', REALTIME_CHANNEL] } });
+    } catch (err) {
+        isSubscribed = false;
+        redisSubscriber.removeAllListeners('message');
+        logger.warn({
+            layer: 'cache',
+            action: 'SUBSCRIBER_INIT_ERROR',
+            payload: { error: (err as Error).message, fallback: 'Eventos solo se entregan en esta instancia' },
+        });
+    }
+}
+
+/** true si esta instancia recibe los mensajes pub/sub de Redis */
+export function isCacheSubscriberActive(): boolean {
+    return isSubscribed;
 }
 
 // OPTIMIZACIÓN L1: Caché en memoria para mitigar latencia de red y DB
@@ -308,11 +336,14 @@ export class CacheService {
      * Wrapper para Cache-Aside con Coalescing (evita Cache Stampede)
      */
     static async wrap<T>(
-        key: string,
+        baseKey: string,
         fetcher: () => Promise<T>,
         ttlSeconds: number = config.redis.ttlCutoff,
         tags: string[] = []
     ): Promise<T> {
+        // La entrada se guarda por banca: el fetcher corre con el filtro de tenant activo
+        const key = TenantContext.cacheKey(baseKey);
+
         // 1. Coalescing: Si hay una promesa en vuelo para esta misma clave, reutilizarla
         const existingPromise = inFlightPromises.get(key);
         if (existingPromise) {
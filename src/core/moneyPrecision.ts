@@ -0,0 +1,118 @@
+import { Prisma } from "../generated/prisma/client";
+import { MoneyValue, toMoneyNumber } from "../utils/decimal";
+
+type MoneyFieldResult<K extends string, R> = {
+  [F in K]: { needs: { [P in F]: true }; compute: (row: Record<F, unknown>) => R };
+};
+
+/** Tipo de modelo generado con los montos como los entrega el cliente (número) */
+export type WithMoney<T> = {
+  [K in keyof T]: T[K] extends Prisma.Decimal ? number : T[K] extends Prisma.Decimal | null ? number | null : T[K];
+};
+
+/**
+ * Campos de dinero guardados como Decimal(15,2): al leerlos se entregan como número con
+ * céntimos exactos (los tipos del cliente quedan en number y el JSON del API no cambia).
+ */
+function moneyFields<const K extends string, const N extends string = never>(
+  required: readonly K[],
+  nullable: readonly N[]
+): MoneyFieldResult<K, number> & MoneyFieldResult<N, number | null> {
+  const fields: Record<string, unknown> = {};
+  for (const field of required) {
+    fields[field] = { needs: { [field]: true }, compute: (row: Record<string, unknown>) => toMoneyNumber(row[field] as MoneyValue) ?? 0 };
+  }
+  for (const field of nullable) {
+    fields[field] = { needs: { [field]: true }, compute: (row: Record<string, unknown>) => toMoneyNumber(row[field] as MoneyValue) };
+  }
+  return fields as MoneyFieldResult<K, number> & MoneyFieldResult<N, number | null>;
+}
+
+/**
+ * NUMERIC de una fila de $queryRaw (SUM de montos, columnas de dinero, ROUND) → número.
+ * Sin redondear: no todo NUMERIC es dinero y los montos ya vienen con dos decimales.
+ */
+function normalizeRawRow(row: unknown): unknown {
+  if (!row || typeof row !== "object") return row;
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    out[key] = Prisma.Decimal.isDecimal(value) ? (value as Prisma.Decimal).toNumber() : value;
+  }
+  return out;
+}
+
+function normalizeRawResult(result: unknown) {
+  return Array.isArray(result) ? result.map(normalizeRawRow) : result;
+}
+
+/** aggregate/groupBy no pasan por los campos calculados: _sum, _avg, _min y _max llegan en Decimal */
+function normalizeAggregateRow(row: unknown): unknown {
+  if (!row || typeof row !== "object") return row;
+  const out: Record<string, unknown> = { ...(row as Record<string, unknown>) };
+  for (const key of ["_sum", "_avg", "_min", "_max"]) {
+    if (out[key]) out[key] = normalizeRawRow(out[key]);
+  }
+  return out;
+}
+
+/**
+ * Montos exactos: la base suma y redondea en NUMERIC y la aplicación recibe números
+ * con dos decimales. Mismo criterio de redondeo que roundMoney (mitad lejos de cero).
+ */
+export const moneyPrecision = Prisma.defineExtension({
+  name: "moneyPrecision",
+  result: {
+    ticket: moneyFields(
+      ["totalAmount", "totalListeroCommission"],
+      ["totalPayout", "totalPaid", "remainingAmount", "totalCommission", "forfeitedAmount"]
+    ),
+    ticketPayment: moneyFields(["amountPaid"], ["remainingAmount"]),
+    jugada: moneyFields(["amount", "commissionAmount", "listeroCommissionAmount"], ["payout"]),
+    accountStatement: moneyFields(
+      [
+        "totalSales",
+        "totalPayouts",
+        "listeroCommission",
+        "vendedorCommission",
+        "balance",
+        "totalPaid",
+        "remainingBalance",
+        "totalCollected",
+        "accumulatedBalance",
+      ],
+      []
+    ),
+    accountPayment: moneyFields(["amount"], []),
+    monthlyClosingBalance: moneyFields(
+      ["closingBalance", "totalSales", "totalPayouts", "totalCommission", "totalPaid", "totalCollected"],
+      []
+    ),
+    resumenCierreDiario: moneyFields(["totalVendida", "ganado", "comisionTotal"], []),
+    dailyNumberSales: moneyFields(["totalAmount"], []),
+    payoutRequest: moneyFields(["amountPaid"], []),
+    layOffPosition: moneyFields(["amount"], []),
+    ledgerEntry: moneyFields(["amount"], []),
+    moneyConversionAudit: moneyFields(["newValue"], []),
+    bankStatementLine: moneyFields(["amount"], []),
+    creditLimit: moneyFields([], ["softLimit", "hardLimit", "overrideLimit"]),
+    restrictionRule: moneyFields([], ["maxAmount", "maxTotal", "baseAmount"]),
+    banca: moneyFields(["defaultMinBet"], []),
+  },
+  query: {
+    $allModels: {
+      async aggregate({ args, query }) {
+        return normalizeAggregateRow(await query(args)) as Awaited<ReturnType<typeof query>>;
+      },
+      async groupBy({ args, query }) {
+        const rows = (await query(args)) as unknown[];
+        return rows.map(normalizeAggregateRow) as Awaited<ReturnType<typeof query>>;
+      },
+    },
+    async $queryRaw({ args, query }) {
+      return normalizeRawResult(await query(args));
+    },
+    async $queryRawUnsafe({ args, query }) {
+      return normalizeRawResult(await query(args));
+    },
+  },
+});
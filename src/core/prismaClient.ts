@@ -1,6 +1,8 @@
 import { PrismaClient } from "../generated/prisma/client";
 import { PrismaPg } from "@prisma/adapter-pg";
 import { Pool } from "pg";
+import { tenantIsolation } from "./tenantIsolation";
+import { moneyPrecision } from "./moneyPrecision";
 
 declare global {
   var __prisma: PrismaClient | undefined;
@@ -36,14 +38,22 @@ const adapter = new PrismaPg(pool);
 //  FIX: Cachear globalmente SIEMPRE (incluso en producción)
 // Antes: Solo se cacheaba en development → múltiples instancias en production
 // Ahora: Una sola instancia reutilizada → evita agotamiento de conexiones
-const prisma = global.__prisma ?? new PrismaClient({
+const basePrisma = global.__prisma ?? new PrismaClient({
   adapter,
   log: ['warn', 'error'],
 });
 
 //  CRÍTICO: Cachear en producción también para evitar múltiples instancias
 // Sin esto: cada import crea nueva instancia → exhausted connection pool
-global.__prisma = prisma;
+global.__prisma = basePrisma;
+
+// Aislamiento por banca según el contexto de la petición (ver tenantIsolation.ts) y montos
+// Decimal(15,2) leídos como número con céntimos exactos (ver moneyPrecision.ts).
+const prisma = basePrisma.$extends(tenantIsolation).$extends(moneyPrecision);
+
+export type AppPrismaClient = typeof prisma;
+/** Cliente dentro de prisma.$transaction (con las mismas extensiones) */
+export type AppTransactionClient = Parameters<Parameters<AppPrismaClient["$transaction"]>[0]>[0];
 
 /**
  * Verifica la conexión ejecutando un ping simple.
@@ -0,0 +1,62 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Contexto de banca (tenant) de la petición en curso.
+ * Lo establece bancaContextMiddleware y lo lee la extensión de aislamiento de Prisma
+ * (tenantIsolation.ts) para acotar las consultas de los modelos de cada banca.
+ */
+export type TenantScope = {
+  bancaId: string | null;
+  role: string;
+  /** Ventana y usuario propios: también acotan el SQL crudo (ver assertRawQueryScoped) */
+  ventanaId?: string | null;
+  userId?: string;
+  /** Opt-out explícito: la consulta puede cruzar bancas */
+  crossTenant?: boolean;
+};
+
+const storage = new AsyncLocalStorage<TenantScope>();
+
+export const TenantContext = {
+  run<T>(scope: TenantScope, fn: () => T): T {
+    return storage.run(scope, fn);
+  },
+
+  get(): TenantScope | undefined {
+    return storage.getStore();
+  },
+
+  /**
+   * Ejecuta `fn` sin el filtro por banca: reportes globales de ADMIN y jobs.
+   * El código que lo usa es responsable de validar la pertenencia.
+   */
+  crossTenant<T>(fn: () => T): T {
+    const current = storage.getStore();
+    if (!current) return fn();
+    return storage.run({ ...current, crossTenant: true }, () => {
+      const result: any = fn();
+      // Las consultas de Prisma son perezosas: se encadenan aquí para que se ejecuten sin el filtro
+      return typeof result?.then === "function" ? (Promise.resolve(result) as T) : result;
+    });
+  },
+
+  /**
+   * Ejecuta `fn` fuera del contexto de la petición en curso: trabajo en segundo plano que
+   * una petición dispara pero que no le pertenece (p. ej. el drenado de exportaciones).
+   */
+  detached<T>(fn: () => T): T {
+    return storage.exit(fn);
+  },
+
+  /**
+   * Clave de caché ligada a la banca del contexto: lo que se obtuvo con el filtro de una
+   * banca no lo lee otra. Sin filtro (ADMIN global, jobs, opt-out) la clave queda igual.
+   */
+  cacheKey(key: string): string {
+    const scope = storage.getStore();
+    if (!scope || scope.crossTenant || (!scope.bancaId && scope.role === "ADMIN")) return key;
+    return `${key}:tenant:${scope.bancaId ?? "none"}`;
+  },
+};
+
+export default TenantContext;
@@ -0,0 +1,253 @@
+import { Prisma } from "../generated/prisma/client";
+import { AppError } from "./errors";
+import { TenantContext, TenantScope } from "./tenantContext";
+
+/**
+ * Modelos con bancaId propio. `shared`: las filas con bancaId null son catálogo global
+ * (loterías, sorteos, multiplicadores y reglas base) y siguen visibles para todas las bancas.
+ */
+export const TENANT_MODELS: Record<string, { shared: boolean }> = {
+  Ticket: { shared: false },
+  Jugada: { shared: false },
+  Ventana: { shared: false },
+  AccountStatement: { shared: false },
+  AccountPayment: { shared: false },
+  DailyNumberSales: { shared: false },
+  CancelRequest: { shared: false },
+  PayoutRequest: { shared: false },
+  CreditLimit: { shared: false },
+  LayOffPosition: { shared: false },
+  LedgerEntry: { shared: false },
+  PeriodLock: { shared: false },
+  StatementAuditFinding: { shared: false },
+  BankStatementProfile: { shared: false },
+  BankStatementImport: { shared: false },
+  BankStatementLine: { shared: false },
+  Sorteo: { shared: true },
+  Loteria: { shared: true },
+  LoteriaMultiplier: { shared: true },
+  RestrictionRule: { shared: true },
+};
+
+const WHERE_OPS = new Set([
+  "findMany",
+  "findFirst",
+  "findFirstOrThrow",
+  "count",
+  "aggregate",
+  "groupBy",
+  "updateMany",
+  "updateManyAndReturn",
+  "deleteMany",
+]);
+const UNIQUE_OPS = new Set(["findUnique", "findUniqueOrThrow", "update", "delete", "upsert"]);
+const CREATE_OPS = new Set(["create", "createMany", "createManyAndReturn", "upsert"]);
+
+/**
+ * Banca a la que se acota la consulta; null = sin filtro.
+ * ADMIN sin banca activa y el opt-out explícito no se filtran; el resto de roles sin
+ * banca activa no puede tocar datos de ninguna banca.
+ */
+export function scopedBancaId(scope: TenantScope | undefined): string | null {
+  if (!scope || scope.crossTenant) return null;
+  if (scope.bancaId) return scope.bancaId;
+  if (scope.role === "ADMIN") return null;
+  throw new AppError("No tienes una banca activa", 403, "FORBIDDEN");
+}
+
+function asArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function assertOwnedData(model: string, data: any, bancaId: string) {
+  for (const row of asArray(data)) {
+    const direct = row?.bancaId;
+    const target = (direct && typeof direct === "object" ? direct.set : direct) ?? row?.banca?.connect?.id;
+    if (target && target !== bancaId) {
+      throw new AppError(`Operación denegada: ${model} pertenece a otra banca`, 403, "CROSS_TENANT_FORBIDDEN");
+    }
+  }
+}
+
+/**
+ * Relaciones de lista hacia modelos de banca, por nombre de campo: en el schema cada uno de
+ * estos nombres apunta siempre al mismo modelo (el test de aislamiento lo comprueba).
+ * Las lecturas anidadas por ellas se acotan igual que la consulta raíz; sin esto,
+ * `sorteo.findUnique({ include: { tickets: true } })` traería tickets de todas las bancas.
+ */
+export const TENANT_RELATIONS: Record<string, string> = {
+  tickets: "Ticket",
+  ticketsCreated: "Ticket",
+  ticketsPaid: "Ticket",
+  jugadas: "Jugada",
+  jugadasAtSale: "Jugada",
+  jugadasExcluded: "Jugada",
+  ventanas: "Ventana",
+  accountStatements: "AccountStatement",
+  accountStatementsSettled: "AccountStatement",
+  accountPayments: "AccountPayment",
+  accountPaymentsPaid: "AccountPayment",
+  accountPaymentsReversed: "AccountPayment",
+  payments: "AccountPayment",
+  DailyNumberSales: "DailyNumberSales",
+  cancelRequests: "CancelRequest",
+  payoutRequests: "PayoutRequest",
+  creditLimits: "CreditLimit",
+  layOffPositions: "LayOffPosition",
+  ledgerEntries: "LedgerEntry",
+  periodLocks: "PeriodLock",
+  items: "StatementAuditFinding",
+  bankStatementProfiles: "BankStatementProfile",
+  imports: "BankStatementImport",
+  lines: "BankStatementLine",
+};
+
+function tenantFilter(model: string, bancaId: string) {
+  return TENANT_MODELS[model]?.shared ? { OR: [{ bancaId }, { bancaId: null }] } : { bancaId };
+}
+
+/** Recorre include/select (y `_count.select`) añadiendo el filtro de banca a las relaciones de lista */
+function scopeSelection(selection: any, bancaId: string): any {
+  if (!selection || typeof selection !== "object") return selection;
+
+  const scoped: Record<string, any> = {};
+  for (const [field, value] of Object.entries(selection)) {
+    const target = TENANT_RELATIONS[field];
+    if (field === "_count" && value && typeof value === "object") {
+      scoped[field] = scopeNested(value, bancaId);
+    } else if (target && value) {
+      const nested: any = value === true ? {} : { ...value };
+      const filter = tenantFilter(target, bancaId);
+      nested.where = nested.where ? { AND: [nested.where, filter] } : filter;
+      scoped[field] = scopeNested(nested, bancaId);
+    } else if (value && typeof value === "object") {
+      scoped[field] = scopeNested(value, bancaId);
+    } else {
+      scoped[field] = value;
+    }
+  }
+  return scoped;
+}
+
+function scopeNested(args: any, bancaId: string) {
+  if (!args?.include && !args?.select) return args;
+  return {
+    ...args,
+    ...(args.include && { include: scopeSelection(args.include, bancaId) }),
+    ...(args.select && { select: scopeSelection(args.select, bancaId) }),
+  };
+}
+
+/**
+ * Acota los argumentos de una operación de Prisma a la banca del contexto, incluidas las
+ * lecturas anidadas por relaciones de lista (TENANT_RELATIONS), también desde modelos sin
+ * banca como User o Sorteo. Quedan fuera las relaciones a uno (heredan la banca de la fila
+ * que las contiene), los filtros por relación dentro de `where` y las escrituras anidadas.
+ */
+export function scopeTenantArgs(model: string | undefined, operation: string, args: any, scope = TenantContext.get()) {
+  const config = model ? TENANT_MODELS[model] : undefined;
+  if (!config) {
+    if (!args?.include && !args?.select) return args;
+    const bancaId = scopedBancaId(scope);
+    return bancaId ? scopeNested(args, bancaId) : args;
+  }
+
+  const bancaId = scopedBancaId(scope);
+  if (!bancaId) return args;
+
+  const filter = tenantFilter(model!, bancaId);
+  const scoped = scopeNested({ ...(args ?? {}) }, bancaId);
+
+  if (WHERE_OPS.has(operation)) {
+    scoped.where = scoped.where ? { AND: [scoped.where, filter] } : filter;
+  } else if (UNIQUE_OPS.has(operation)) {
+    scoped.where = { ...scoped.where, AND: [...asArray(scoped.where?.AND), filter] };
+  }
+
+  if (CREATE_OPS.has(operation)) {
+    assertOwnedData(model!, operation === "upsert" ? scoped.create : scoped.data, bancaId);
+  }
+  if (operation === "update" || operation === "updateMany" || operation === "upsert") {
+    // Mover una fila a otra banca también es cruzar de tenant
+    assertOwnedData(model!, operation === "upsert" ? scoped.update : scoped.data, bancaId);
+  }
+
+  return scoped;
+}
+
+/** Tablas de banca que no son catálogo, tal como se citan en el SQL ("Ticket", "Jugada", ...) */
+const TENANT_TABLE = new RegExp(
+  `"(${Object.keys(TENANT_MODELS).filter((model) => !TENANT_MODELS[model].shared).join("|")})"`
+);
+
+/**
+ * $queryRaw/$executeRaw no pasan por scopeTenantArgs, así que el SQL que toca tablas de banca
+ * dentro de un contexto acotado tiene que filtrar explícitamente: debe llevar como parámetro la
+ * banca del contexto, la ventana del usuario o el propio usuario (las consultas de VENTANA y
+ * VENDEDOR se acotan por ventanaId/vendedorId). Si no, se rechaza antes de llegar a la base de datos.
+ * Los procesos que cruzan bancas a propósito (jobs, recálculos de un sorteo o día completo)
+ * van dentro de TenantContext.crossTenant; cada uno documenta en su sitio por qué.
+ * Las funciones SQL (fn_evaluate_sorteo, fn_close_sorteo, fn_revert_sorteo,
+ * generate_ticket_number_v3/v4) no citan tablas y quedan fuera de esta comprobación: quien las
+ * llama valida antes que el sorteo pertenezca a la banca del contexto o sea global.
+ */
+export function assertRawQueryScoped(sql: string, values: unknown[], scope = TenantContext.get()) {
+  const bancaId = scopedBancaId(scope);
+  if (!bancaId || !TENANT_TABLE.test(sql)) return;
+
+  const allowed = [bancaId, scope!.ventanaId, scope!.userId].filter((id): id is string => !!id);
+
+  const bound = values.flat().some((value) => typeof value === "string" && allowed.includes(value));
+  if (bound || allowed.some((id) => sql.includes(id))) return;
+
+  throw new AppError("Consulta SQL sin filtro de banca", 403, "RAW_QUERY_UNSCOPED");
+}
+
+/**
+ * Condición de banca para SQL crudo cuyo llamador no recibe la banca: `<columna> = <banca>`
+ * con la banca del contexto, o null cuando el contexto no acota (ADMIN global, jobs).
+ */
+export function rawBancaCondition(column: Prisma.Sql): Prisma.Sql | null {
+  const bancaId = scopedBancaId(TenantContext.get());
+  return bancaId ? Prisma.sql`${column} = ${bancaId}::uuid` : null;
+}
+
+/** rawBancaCondition como fragmento `AND ...` (vacío sin contexto acotado) */
+export function rawBancaFilter(column: Prisma.Sql): Prisma.Sql {
+  const condition = rawBancaCondition(column);
+  return condition ? Prisma.sql`AND ${condition}` : Prisma.empty;
+}
+
+/**
+ * Extensión del cliente: toda consulta de un modelo pasa por scopeTenantArgs y todo SQL crudo
+ * por assertRawQueryScoped
+ */
+export const tenantIsolation = Prisma.defineExtension({
+  name: "tenantIsolation",
+  query: {
+    $allModels: {
+      async $allOperations({ model, operation, args, query }) {
+        return query(scopeTenantArgs(model, operation, args));
+      },
+    },
+    async $queryRaw({ args, query }) {
+      assertRawQueryScoped(args.sql, args.values);
+      return query(args);
+    },
+    async $executeRaw({ args, query }) {
+      assertRawQueryScoped(args.sql, args.values);
+      return query(args);
+    },
+    async $queryRawUnsafe({ args, query }) {
+      const [sql, ...values] = args;
+      assertRawQueryScoped(sql, values);
+      return query(args);
+    },
+    async $executeRawUnsafe({ args, query }) {
+      const [sql, ...values] = args;
+      assertRawQueryScoped(sql, values);
+      return query(args);
+    },
+  },
+});
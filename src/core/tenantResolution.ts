@@ -0,0 +1,35 @@
+import { Prisma } from "../generated/prisma/client";
+
+/**
+ * Resolución de banca (tenant) para tiquetes heredados sin bancaId o con uno inconsistente.
+ *
+ * La ventana es la fuente de verdad (Ventana.bancaId es obligatorio); le siguen el sorteo
+ * y la lotería, y solo como último recurso el bancaId guardado en el propio tiquete.
+ * Nunca se asigna una banca por defecto: una fila sin banca resoluble queda fuera.
+ */
+
+type WithBanca = { bancaId: string | null } | null | undefined;
+
+export type TenantResolvable = {
+  bancaId?: string | null;
+  ventana?: WithBanca;
+  sorteo?: WithBanca;
+  loteria?: WithBanca;
+};
+
+export function resolveTicketBancaId(row: TenantResolvable): string | null {
+  return row.ventana?.bancaId ?? row.sorteo?.bancaId ?? row.loteria?.bancaId ?? row.bancaId ?? null;
+}
+
+/** JOINs que necesita resolvedTicketBancaSql sobre un tiquete con alias `t` */
+export const ticketTenantJoinsSql = Prisma.sql`
+  LEFT JOIN "Ventana" tv ON tv.id = t."ventanaId"
+  LEFT JOIN "Sorteo" ts ON ts.id = t."sorteoId"
+  LEFT JOIN "Loteria" tl ON tl.id = t."loteriaId"
+`;
+
+/** Banca resuelta del tiquete `t` (mismo orden que resolveTicketBancaId) */
+export const resolvedTicketBancaSql = Prisma.sql`COALESCE(tv."bancaId", ts."bancaId", tl."bancaId", t."bancaId")`;
+
+/** Banca de la ventana del tiquete `t` como subconsulta, para SQL que no lleva ticketTenantJoinsSql */
+export const ticketVentanaBancaSql = Prisma.sql`(SELECT tv."bancaId" FROM "Ventana" tv WHERE tv.id = t."ventanaId")`;
@@ -6,6 +6,7 @@ export interface AuthUser {
     role: Role;
     ventanaId?: string | null;
     bancaId?: string | null;
+    apiKeyId?: string; // presente si se autenticó con X-Api-Key
 }
 
 export interface BancaContext {
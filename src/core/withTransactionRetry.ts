@@ -1,6 +1,6 @@
 import { Prisma } from "../generated/prisma/client";
 import { config } from "../config";
-import prisma from "./prismaClient";
+import prisma, { AppTransactionClient } from "./prismaClient";
 import logger from "./logger";
 import { ResilienceService } from "./resilience.service";
 
@@ -59,7 +59,7 @@ function connectionBackoffMs(attempt: number): number {
  * También reintenta ante rechazos temporales del pooler (P1001, P1008, P2024).
  */
 export async function withTransactionRetry<T>(
-  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  fn: (tx: AppTransactionClient) => Promise<T>,
   opts: TxRetryOptions = {}
 ): Promise<T> {
   const {
@@ -0,0 +1,90 @@
+/**
+ * Alert Evaluation Job
+ *
+ * Evalúa periódicamente todas las alertas activas (modelo Alert) contra
+ * ventas y exposición en vivo. Los disparos quedan en AlertEvent y se
+ * notifican por webhook/email según la configuración de cada alerta.
+ *
+ * Schedule: cada ALERTS_EVALUATION_INTERVAL_MINUTES (default: 5)
+ *
+ * Safety:
+ * - Cooldown por alerta vía lastFiredAt (condition.cooldownMinutes, default 60)
+ * - Si una ejecución sigue en curso, el siguiente tick se omite
+ */
+
+import { warmupConnection } from '../core/connectionWarmup';
+import logger from '../core/logger';
+import { config } from '../config';
+import AlertService from '../api/v1/services/alert.service';
+
+let evaluationTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+async function executeEvaluation(): Promise<void> {
+  if (running) {
+    logger.warn({ layer: 'job', action: 'ALERT_EVALUATION_SKIPPED', payload: { reason: 'previous run in progress' } });
+    return;
+  }
+  running = true;
+
+  try {
+    const isReady = await warmupConnection({ useDirect: false, context: 'alertEvaluation' });
+    if (!isReady) {
+      logger.error({ layer: 'job', action: 'ALERT_EVALUATION_WARMUP_FAILED', payload: {} });
+      return;
+    }
+
+    const startedAt = Date.now();
+    const summary = await AlertService.evaluateAll();
+    logger.info({
+      layer: 'job',
+      action: 'ALERT_EVALUATION_COMPLETED',
+      payload: { ...summary, durationMs: Date.now() - startedAt },
+    });
+  } catch (error: any) {
+    logger.error({
+      layer: 'job',
+      action: 'ALERT_EVALUATION_FAILED',
+      payload: { error: error?.message ?? String(error) },
+    });
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Inicia la evaluación periódica de alertas
+ */
+export function startAlertEvaluationJob(): void {
+  if (evaluationTimer) {
+    logger.info({ layer: 'job', action: 'ALERT_EVALUATION_ALREADY_RUNNING', payload: {} });
+    return;
+  }
+
+  const intervalMs = config.alerts.evaluationIntervalMinutes * 60 * 1000;
+  evaluationTimer = setInterval(executeEvaluation, intervalMs);
+
+  logger.info({
+    layer: 'job',
+    action: 'ALERT_EVALUATION_SCHEDULED',
+    payload: { intervalMinutes: config.alerts.evaluationIntervalMinutes },
+  });
+}
+
+/**
+ * Detiene la evaluación periódica
+ */
+export function stopAlertEvaluationJob(): void {
+  if (evaluationTimer) {
+    clearInterval(evaluationTimer);
+    evaluationTimer = null;
+    logger.info({ layer: 'job', action: 'ALERT_EVALUATION_STOPPED', payload: {} });
+  }
+}
+
+/**
+ * Ejecución manual (pruebas o soporte)
+ */
+export async function triggerAlertEvaluation(): Promise<void> {
+  await executeEvaluation();
+}
@@ -0,0 +1,111 @@
+/**
+ * Export Jobs Worker
+ *
+ * Procesa las exportaciones en segundo plano (ExportJob) solicitadas con
+ * async=true en /accounts/export, /commissions/export y /admin/dashboard/export,
+ * y elimina los archivos que superan EXPORT_JOBS_TTL_HOURS.
+ *
+ * Schedule:
+ * - Pendientes: cada EXPORT_JOBS_POLL_SECONDS (default: 10). Al encolar un
+ *   trabajo también se dispara un drenado inmediato.
+ * - Limpieza de archivos vencidos: cada hora.
+ *
+ * Safety:
+ * - Cada trabajo se reclama (PENDING → PROCESSING) antes de procesarlo
+ *   (no se duplica con varias instancias)
+ * - Si un drenado sigue en curso, el siguiente tick se omite
+ */
+
+import { warmupConnection } from '../core/connectionWarmup';
+import logger from '../core/logger';
+import { config } from '../config';
+import ExportJobService from '../api/v1/services/exportJob.service';
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+let pollTimer: NodeJS.Timeout | null = null;
+let cleanupTimer: NodeJS.Timeout | null = null;
+let cleaning = false;
+
+async function drainPendingJobs(): Promise<void> {
+  try {
+    const isReady = await warmupConnection({ useDirect: false, context: 'exportJobs' });
+    if (!isReady) {
+      logger.error({ layer: 'job', action: 'EXPORT_JOBS_WARMUP_FAILED', payload: {} });
+      return;
+    }
+
+    const summary = await ExportJobService.processPending();
+    if (summary.processed > 0) {
+      logger.info({ layer: 'job', action: 'EXPORT_JOBS_DRAINED', payload: summary });
+    }
+  } catch (error: any) {
+    logger.error({
+      layer: 'job',
+      action: 'EXPORT_JOBS_FAILED',
+      payload: { error: error?.message ?? String(error) },
+    });
+  }
+}
+
+async function cleanupExpiredFiles(): Promise<void> {
+  if (cleaning) return;
+  cleaning = true;
+
+  try {
+    const { removed } = await ExportJobService.cleanupExpired();
+    if (removed > 0) {
+      logger.info({ layer: 'job', action: 'EXPORT_JOBS_CLEANUP_COMPLETED', payload: { removed } });
+    }
+  } catch (error: any) {
+    logger.error({
+      layer: 'job',
+      action: 'EXPORT_JOBS_CLEANUP_FAILED',
+      payload: { error: error?.message ?? String(error) },
+    });
+  } finally {
+    cleaning = false;
+  }
+}
+
+/**
+ * Inicia el worker de exportaciones y la limpieza de archivos vencidos
+ */
+export function startExportJobsWorker(): void {
+  if (pollTimer) {
+    logger.info({ layer: 'job', action: 'EXPORT_JOBS_ALREADY_RUNNING', payload: {} });
+    return;
+  }
+
+  pollTimer = setInterval(drainPendingJobs, config.exportJobs.pollSeconds * 1000);
+  cleanupTimer = setInterval(cleanupExpiredFiles, CLEANUP_INTERVAL_MS);
+
+  logger.info({
+    layer: 'job',
+    action: 'EXPORT_JOBS_SCHEDULED',
+    payload: { pollSeconds: config.exportJobs.pollSeconds, ttlHours: config.exportJobs.ttlHours },
+  });
+}
+
+/**
+ * Detiene el worker (un trabajo en curso termina o queda marcado como interrumpido)
+ */
+export function stopExportJobsWorker(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+  if (cleanupTimer) {
+    clearInterval(cleanupTimer);
+    cleanupTimer = null;
+  }
+  logger.info({ layer: 'job', action: 'EXPORT_JOBS_STOPPED', payload: {} });
+}
+
+/**
+ * Ejecución manual (pruebas o soporte)
+ */
+export async function triggerExportJobs(): Promise<void> {
+  await drainPendingJobs();
+  await cleanupExpiredFiles();
+}
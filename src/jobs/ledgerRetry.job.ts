@@ -0,0 +1,80 @@
+/**
+ * Ledger Retry Job
+ *
+ * Reintenta los asientos del libro que fallaron después de guardarse la operación que los
+ * originó (evaluación de sorteo, pago/cobro, reversión, reset de saldo). Quedan en
+ * LedgerPendingPost hasta asentarse.
+ *
+ * Schedule: cada minuto; cada pendiente espera 1, 2, 4… minutos entre intentos (máx. 1 hora)
+ *
+ * Safety:
+ * - Asentar es idempotente: solo se registra la diferencia con lo ya asentado
+ * - Los asientos de un mismo origen se serializan con advisory lock (varias instancias)
+ * - Si una ejecución sigue en curso, el siguiente tick se omite
+ */
+
+import { warmupConnection } from '../core/connectionWarmup';
+import logger from '../core/logger';
+import AccountLedgerService from '../api/v1/services/accounts/accounts.ledger';
+
+const RETRY_INTERVAL_MS = 60 * 1000;
+
+let retryTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+async function executeRetry(): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    const isReady = await warmupConnection({ useDirect: false, context: 'ledgerRetry' });
+    if (!isReady) {
+      logger.error({ layer: 'job', action: 'LEDGER_RETRY_WARMUP_FAILED', payload: {} });
+      return;
+    }
+
+    const summary = await AccountLedgerService.retryPending();
+    if (summary.due > 0) {
+      logger.info({ layer: 'job', action: 'LEDGER_RETRY_COMPLETED', payload: summary });
+    }
+  } catch (error: any) {
+    logger.error({
+      layer: 'job',
+      action: 'LEDGER_RETRY_FAILED',
+      payload: { error: error?.message ?? String(error) },
+    });
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Inicia los reintentos periódicos de asientos pendientes
+ */
+export function startLedgerRetryJob(): void {
+  if (retryTimer) {
+    logger.info({ layer: 'job', action: 'LEDGER_RETRY_ALREADY_RUNNING', payload: {} });
+    return;
+  }
+
+  retryTimer = setInterval(executeRetry, RETRY_INTERVAL_MS);
+  logger.info({ layer: 'job', action: 'LEDGER_RETRY_SCHEDULED', payload: { intervalMs: RETRY_INTERVAL_MS } });
+}
+
+/**
+ * Detiene los reintentos periódicos
+ */
+export function stopLedgerRetryJob(): void {
+  if (retryTimer) {
+    clearInterval(retryTimer);
+    retryTimer = null;
+    logger.info({ layer: 'job', action: 'LEDGER_RETRY_STOPPED', payload: {} });
+  }
+}
+
+/**
+ * Ejecución manual (pruebas o soporte)
+ */
+export async function triggerLedgerRetry(): Promise<void> {
+  await executeRetry();
+}
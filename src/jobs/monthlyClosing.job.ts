@@ -13,6 +13,7 @@
  * - Only processes the previous month (not current month)
  * - Uses real data from tickets and payments (source of truth)
  * - Logs all operations for audit
+ * - Locks the closed month for each banca (PeriodLock); a reopened month stays open
  * - Can be executed manually at any time
  */
 
@@ -23,6 +24,7 @@ import {
     calculateRealMonthBalance,
     saveMonthlyClosingBalance,
 } from '../api/v1/services/accounts/monthlyClosing.service';
+import { PeriodLockService } from '../api/v1/services/accounts/accounts.periodLocks';
 import logger from '../core/logger';
 import { crDateService } from '../utils/crDateService';
 import { activeOperationsService } from '../core/activeOperations.service';
@@ -272,6 +274,7 @@ export async function executeMonthlyClosing(userId?: string, specificMonth?: str
         // 3. Process bancas (con paginación para prevenir memory issues)
         let bancasSuccess = 0;
         let bancasErrors = 0;
+        let bancasLocked = 0;
 
         try {
             // ✅ Primero obtener el total de bancas para logging
@@ -355,6 +358,24 @@ export async function executeMonthlyClosing(userId?: string, specificMonth?: str
                                 error: error.message,
                             },
                         });
+                        continue;
+                    }
+
+                    // El mes cerrado queda bloqueado: anulaciones, reversiones y pagos ya no lo cambian
+                    try {
+                        if (await PeriodLockService.lockClosedMonth(banca.id, closingMonth, userId)) {
+                            bancasLocked++;
+                        }
+                    } catch (error: any) {
+                        logger.error({
+                            layer: 'job',
+                            action: 'MONTHLY_CLOSING_LOCK_ERROR',
+                            payload: {
+                                closingMonth,
+                                bancaId: banca.id,
+                                error: error.message,
+                            },
+                        });
                     }
                 }
 
@@ -368,6 +389,7 @@ export async function executeMonthlyClosing(userId?: string, specificMonth?: str
                     closingMonth,
                     success: bancasSuccess,
                     errors: bancasErrors,
+                    locked: bancasLocked,
                     totalProcessed: bancasSuccess + bancasErrors,
                 },
             });
@@ -0,0 +1,68 @@
+/**
+ * Realtime Exposure Job
+ *
+ * Publica en el stream de eventos (/events/stream) los acumulados por número de los
+ * sorteos que tuvieron ventas o anulaciones desde la pasada anterior, para que los
+ * tableros de exposición no tengan que hacer polling.
+ *
+ * Schedule:
+ * - Cada REALTIME_EXPOSURE_INTERVAL_SECONDS (default: 5)
+ *
+ * Safety:
+ * - Solo consulta sorteos marcados por ventas/anulaciones de esta instancia
+ * - Una consulta agrupada por sorteo y banca; si falla se reintenta en la siguiente pasada
+ * - Si una pasada sigue en curso, el siguiente tick se omite
+ */
+
+import logger from '../core/logger';
+import { config } from '../config';
+import RealtimeService from '../api/v1/services/realtime.service';
+
+let exposureTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+async function publishExposure(): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    await RealtimeService.flushExposure();
+  } catch (error: any) {
+    logger.error({
+      layer: 'job',
+      action: 'REALTIME_EXPOSURE_FAILED',
+      payload: { error: error?.message ?? String(error) },
+    });
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Inicia la publicación periódica de acumulados por número
+ */
+export function startRealtimeExposureJob(): void {
+  if (exposureTimer) {
+    logger.info({ layer: 'job', action: 'REALTIME_EXPOSURE_ALREADY_RUNNING', payload: {} });
+    return;
+  }
+
+  exposureTimer = setInterval(publishExposure, config.realtime.exposureIntervalSeconds * 1000);
+
+  logger.info({
+    layer: 'job',
+    action: 'REALTIME_EXPOSURE_SCHEDULED',
+    payload: { intervalSeconds: config.realtime.exposureIntervalSeconds },
+  });
+}
+
+/**
+ * Detiene la publicación de acumulados
+ */
+export function stopRealtimeExposureJob(): void {
+  if (exposureTimer) {
+    clearInterval(exposureTimer);
+    exposureTimer = null;
+  }
+  logger.info({ layer: 'job', action: 'REALTIME_EXPOSURE_STOPPED', payload: {} });
+}
@@ -0,0 +1,89 @@
+/**
+ * Report Scheduler Job
+ *
+ * Ejecuta las programaciones de reportes guardados (ReportSchedule) cuyo
+ * nextRunAt ya venció, renderiza el archivo con el exportador del reporte
+ * y lo envía por correo a los destinatarios. Cada ejecución queda en ReportRun.
+ *
+ * Schedule: revisa cada REPORTS_SCHEDULER_INTERVAL_MINUTES (default: 1).
+ * Los horarios de cada programación se expresan en hora de Costa Rica.
+ *
+ * Safety:
+ * - Cada programación se reclama moviendo nextRunAt antes de ejecutar
+ *   (no se duplican envíos con varias instancias)
+ * - Si una revisión sigue en curso, el siguiente tick se omite
+ */
+
+import { warmupConnection } from '../core/connectionWarmup';
+import logger from '../core/logger';
+import { config } from '../config';
+import SavedReportRunner from '../api/v1/services/savedReport-runner.service';
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+async function executeDueSchedules(): Promise<void> {
+  if (running) {
+    logger.warn({ layer: 'job', action: 'REPORT_SCHEDULER_SKIPPED', payload: { reason: 'previous run in progress' } });
+    return;
+  }
+  running = true;
+
+  try {
+    const isReady = await warmupConnection({ useDirect: false, context: 'reportScheduler' });
+    if (!isReady) {
+      logger.error({ layer: 'job', action: 'REPORT_SCHEDULER_WARMUP_FAILED', payload: {} });
+      return;
+    }
+
+    const summary = await SavedReportRunner.runDueSchedules();
+    if (summary.due > 0) {
+      logger.info({ layer: 'job', action: 'REPORT_SCHEDULER_COMPLETED', payload: summary });
+    }
+  } catch (error: any) {
+    logger.error({
+      layer: 'job',
+      action: 'REPORT_SCHEDULER_FAILED',
+      payload: { error: error?.message ?? String(error) },
+    });
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Inicia la revisión periódica de programaciones
+ */
+export function startReportSchedulerJob(): void {
+  if (schedulerTimer) {
+    logger.info({ layer: 'job', action: 'REPORT_SCHEDULER_ALREADY_RUNNING', payload: {} });
+    return;
+  }
+
+  const intervalMs = config.reports.schedulerIntervalMinutes * 60 * 1000;
+  schedulerTimer = setInterval(executeDueSchedules, intervalMs);
+
+  logger.info({
+    layer: 'job',
+    action: 'REPORT_SCHEDULER_SCHEDULED',
+    payload: { intervalMinutes: config.reports.schedulerIntervalMinutes },
+  });
+}
+
+/**
+ * Detiene la revisión periódica
+ */
+export function stopReportSchedulerJob(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+    logger.info({ layer: 'job', action: 'REPORT_SCHEDULER_STOPPED', payload: {} });
+  }
+}
+
+/**
+ * Ejecución manual (pruebas o soporte)
+ */
+export async function triggerReportScheduler(): Promise<void> {
+  await executeDueSchedules();
+}
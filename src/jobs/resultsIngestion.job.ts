@@ -0,0 +1,95 @@
+/**
+ * Results Ingestion Job
+ *
+ * Consulta los proveedores de resultados configurados en Loteria.rulesJson.resultsProvider
+ * (feed HTTP JSON o carpeta de CSV) para los sorteos OPEN cuya hora ya pasó.
+ * Según el modo del proveedor el número se evalúa automáticamente o queda en la
+ * cola /sorteo-results para confirmación (doble confirmación si la banca lo exige).
+ *
+ * Schedule:
+ * - Cada RESULTS_INGESTION_INTERVAL_MINUTES (default: 2)
+ * - Cada sorteo se consulta a partir de scheduledAt + delayMinutes y durante
+ *   RESULTS_INGESTION_LOOKBACK_HOURS; después queda para carga manual
+ *
+ * Safety:
+ * - Un sorteo con cualquier resultado registrado no se vuelve a consultar
+ * - La evaluación pasa por SorteoService.evaluate (mismas validaciones que la manual)
+ * - Si una pasada sigue en curso, el siguiente tick se omite
+ */
+
+import { warmupConnection } from '../core/connectionWarmup';
+import logger from '../core/logger';
+import { config } from '../config';
+import SorteoResultService from '../api/v1/services/sorteoResult.service';
+
+let ingestionTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+async function ingestResults(): Promise<void> {
+  if (running) {
+    logger.warn({ layer: 'job', action: 'RESULTS_INGESTION_SKIPPED_OVERLAP', payload: {} });
+    return;
+  }
+  running = true;
+
+  try {
+    const isReady = await warmupConnection({ useDirect: false, context: 'resultsIngestion' });
+    if (!isReady) {
+      logger.error({ layer: 'job', action: 'RESULTS_INGESTION_WARMUP_FAILED', payload: {} });
+      return;
+    }
+
+    const summary = await SorteoResultService.ingestDue();
+    if (summary.checked > 0) {
+      logger.info({ layer: 'job', action: 'RESULTS_INGESTION_COMPLETED', payload: summary });
+    }
+  } catch (error: any) {
+    logger.error({
+      layer: 'job',
+      action: 'RESULTS_INGESTION_FAILED',
+      payload: { error: error?.message ?? String(error) },
+    });
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Inicia la ingesta periódica de resultados
+ */
+export function startResultsIngestionJob(): void {
+  if (ingestionTimer) {
+    logger.info({ layer: 'job', action: 'RESULTS_INGESTION_ALREADY_RUNNING', payload: {} });
+    return;
+  }
+
+  const intervalMs = config.resultsIngestion.intervalMinutes * 60 * 1000;
+  ingestionTimer = setInterval(ingestResults, intervalMs);
+
+  logger.info({
+    layer: 'job',
+    action: 'RESULTS_INGESTION_SCHEDULED',
+    payload: {
+      intervalMinutes: config.resultsIngestion.intervalMinutes,
+      lookbackHours: config.resultsIngestion.lookbackHours,
+    },
+  });
+}
+
+/**
+ * Detiene la ingesta de resultados
+ */
+export function stopResultsIngestionJob(): void {
+  if (ingestionTimer) {
+    clearInterval(ingestionTimer);
+    ingestionTimer = null;
+  }
+  logger.info({ layer: 'job', action: 'RESULTS_INGESTION_STOPPED', payload: {} });
+}
+
+/**
+ * Ejecución manual (pruebas o soporte)
+ */
+export async function triggerResultsIngestion(): Promise<void> {
+  await ingestResults();
+}
@@ -0,0 +1,110 @@
+/**
+ * Statement Audit Job
+ *
+ * Recalcula desde tiquetes y jugadas los últimos días cerrados y registra las diferencias con
+ * AccountStatement, ResumenCierreDiario y DailyNumberSales (consultables en GET /accounts/audit).
+ *
+ * Schedule: cada STATEMENT_AUDIT_INTERVAL_MINUTES (default: 360), sobre los últimos
+ * STATEMENT_AUDIT_LOOKBACK_DAYS días hasta ayer (default: 3)
+ *
+ * Safety:
+ * - Solo lectura salvo STATEMENT_AUDIT_AUTO_REPAIR=true (default: false)
+ * - La reparación no toca períodos bloqueados: el hallazgo queda abierto con el motivo
+ * - Si una ejecución sigue en curso, el siguiente tick se omite
+ */
+
+import { warmupConnection } from '../core/connectionWarmup';
+import logger from '../core/logger';
+import { config } from '../config';
+import StatementAuditService from '../api/v1/services/accounts/accounts.audit';
+import { auditRange } from '../api/v1/services/accounts/accounts.audit.helpers';
+import { crDateService } from '../utils/crDateService';
+
+let auditTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+async function executeAudit(): Promise<void> {
+  if (running) {
+    logger.warn({ layer: 'job', action: 'STATEMENT_AUDIT_SKIPPED', payload: { reason: 'previous run in progress' } });
+    return;
+  }
+  running = true;
+
+  try {
+    const isReady = await warmupConnection({ useDirect: false, context: 'statementAudit' });
+    if (!isReady) {
+      logger.error({ layer: 'job', action: 'STATEMENT_AUDIT_WARMUP_FAILED', payload: {} });
+      return;
+    }
+
+    const startedAt = Date.now();
+    const range = auditRange(config.statementAudit.lookbackDays, crDateService.dateUTCToCRString(new Date()));
+    const run = await StatementAuditService.run({
+      ...range,
+      trigger: 'SCHEDULED',
+      repair: config.statementAudit.autoRepair,
+    });
+    logger.info({
+      layer: 'job',
+      action: 'STATEMENT_AUDIT_COMPLETED',
+      payload: {
+        ...range,
+        runId: run.id,
+        checked: run.checked,
+        findings: run.findings,
+        repaired: run.repaired,
+        resolved: run.resolved,
+        durationMs: Date.now() - startedAt,
+      },
+    });
+  } catch (error: any) {
+    logger.error({
+      layer: 'job',
+      action: 'STATEMENT_AUDIT_FAILED',
+      payload: { error: error?.message ?? String(error) },
+    });
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Inicia la auditoría periódica de estados de cuenta
+ */
+export function startStatementAuditJob(): void {
+  if (auditTimer) {
+    logger.info({ layer: 'job', action: 'STATEMENT_AUDIT_ALREADY_RUNNING', payload: {} });
+    return;
+  }
+
+  const intervalMs = config.statementAudit.intervalMinutes * 60 * 1000;
+  auditTimer = setInterval(executeAudit, intervalMs);
+
+  logger.info({
+    layer: 'job',
+    action: 'STATEMENT_AUDIT_SCHEDULED',
+    payload: {
+      intervalMinutes: config.statementAudit.intervalMinutes,
+      lookbackDays: config.statementAudit.lookbackDays,
+      autoRepair: config.statementAudit.autoRepair,
+    },
+  });
+}
+
+/**
+ * Detiene la auditoría periódica
+ */
+export function stopStatementAuditJob(): void {
+  if (auditTimer) {
+    clearInterval(auditTimer);
+    auditTimer = null;
+    logger.info({ layer: 'job', action: 'STATEMENT_AUDIT_STOPPED', payload: {} });
+  }
+}
+
+/**
+ * Ejecución manual (pruebas o soporte)
+ */
+export async function triggerStatementAudit(): Promise<void> {
+  await executeAudit();
+}
@@ -0,0 +1,91 @@
+/**
+ * Ticket Expiry Job
+ *
+ * Marca como vencidos los premios no cobrados dentro del plazo de la política de pago
+ * de la banca (claimDays / claimDaysByLoteria) o de la extensión manual del tiquete.
+ * El saldo pendiente pasa a forfeitedAmount y cada vencimiento queda en ActivityLog.
+ *
+ * Schedule: cada TICKET_EXPIRY_INTERVAL_MINUTES (default: 60)
+ *
+ * Safety:
+ * - Solo bancas con política de pago y tiquetes EVALUATED con saldo pendiente
+ * - Un pago registrado durante la pasada gana: el tiquete se omite
+ * - Si una ejecución sigue en curso, el siguiente tick se omite
+ */
+
+import { warmupConnection } from '../core/connectionWarmup';
+import logger from '../core/logger';
+import { config } from '../config';
+import TicketExpiryService from '../api/v1/services/ticketExpiry.service';
+
+let expiryTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+async function executeExpiry(): Promise<void> {
+  if (running) {
+    logger.warn({ layer: 'job', action: 'TICKET_EXPIRY_SKIPPED', payload: { reason: 'previous run in progress' } });
+    return;
+  }
+  running = true;
+
+  try {
+    const isReady = await warmupConnection({ useDirect: false, context: 'ticketExpiry' });
+    if (!isReady) {
+      logger.error({ layer: 'job', action: 'TICKET_EXPIRY_WARMUP_FAILED', payload: {} });
+      return;
+    }
+
+    const startedAt = Date.now();
+    const summary = await TicketExpiryService.expireDue();
+    logger.info({
+      layer: 'job',
+      action: 'TICKET_EXPIRY_COMPLETED',
+      payload: { ...summary, durationMs: Date.now() - startedAt },
+    });
+  } catch (error: any) {
+    logger.error({
+      layer: 'job',
+      action: 'TICKET_EXPIRY_FAILED',
+      payload: { error: error?.message ?? String(error) },
+    });
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Inicia el vencimiento periódico de premios
+ */
+export function startTicketExpiryJob(): void {
+  if (expiryTimer) {
+    logger.info({ layer: 'job', action: 'TICKET_EXPIRY_ALREADY_RUNNING', payload: {} });
+    return;
+  }
+
+  const intervalMs = config.ticketExpiry.intervalMinutes * 60 * 1000;
+  expiryTimer = setInterval(executeExpiry, intervalMs);
+
+  logger.info({
+    layer: 'job',
+    action: 'TICKET_EXPIRY_SCHEDULED',
+    payload: { intervalMinutes: config.ticketExpiry.intervalMinutes },
+  });
+}
+
+/**
+ * Detiene el vencimiento periódico
+ */
+export function stopTicketExpiryJob(): void {
+  if (expiryTimer) {
+    clearInterval(expiryTimer);
+    expiryTimer = null;
+    logger.info({ layer: 'job', action: 'TICKET_EXPIRY_STOPPED', payload: {} });
+  }
+}
+
+/**
+ * Ejecución manual (pruebas o soporte)
+ */
+export async function triggerTicketExpiry(): Promise<void> {
+  await executeExpiry();
+}
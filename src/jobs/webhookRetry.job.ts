@@ -0,0 +1,79 @@
+/**
+ * Webhook Retry Job
+ *
+ * Envía los reintentos de entregas de webhooks fallidas. Cada intento fallido con reintentos
+ * disponibles guarda en WebhookDelivery.nextAttemptAt cuándo toca el siguiente (30s, 2m,
+ * 10m, 30m), así un reinicio o despliegue entre intentos no los pierde.
+ *
+ * Schedule: cada 15 segundos
+ *
+ * Safety:
+ * - Cada reintento se toma antes de enviarlo (no se duplica con varias instancias)
+ * - Si una ejecución sigue en curso, el siguiente tick se omite
+ */
+
+import { warmupConnection } from '../core/connectionWarmup';
+import logger from '../core/logger';
+import WebhookService from '../api/v1/services/webhook.service';
+
+const RETRY_INTERVAL_MS = 15 * 1000;
+
+let retryTimer: NodeJS.Timeout | null = null;
+let running = false;
+
+async function executeRetry(): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    const isReady = await warmupConnection({ useDirect: false, context: 'webhookRetry' });
+    if (!isReady) {
+      logger.error({ layer: 'job', action: 'WEBHOOK_RETRY_WARMUP_FAILED', payload: {} });
+      return;
+    }
+
+    const summary = await WebhookService.retryDue();
+    if (summary.due > 0) {
+      logger.info({ layer: 'job', action: 'WEBHOOK_RETRY_COMPLETED', payload: summary });
+    }
+  } catch (error: any) {
+    logger.error({
+      layer: 'job',
+      action: 'WEBHOOK_RETRY_FAILED',
+      payload: { error: error?.message ?? String(error) },
+    });
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Inicia el envío periódico de reintentos de webhooks
+ */
+export function startWebhookRetryJob(): void {
+  if (retryTimer) {
+    logger.info({ layer: 'job', action: 'WEBHOOK_RETRY_ALREADY_RUNNING', payload: {} });
+    return;
+  }
+
+  retryTimer = setInterval(executeRetry, RETRY_INTERVAL_MS);
+  logger.info({ layer: 'job', action: 'WEBHOOK_RETRY_SCHEDULED', payload: { intervalMs: RETRY_INTERVAL_MS } });
+}
+
+/**
+ * Detiene el envío periódico de reintentos
+ */
+export function stopWebhookRetryJob(): void {
+  if (retryTimer) {
+    clearInterval(retryTimer);
+    retryTimer = null;
+    logger.info({ layer: 'job', action: 'WEBHOOK_RETRY_STOPPED', payload: {} });
+  }
+}
+
+/**
+ * Ejecución manual (pruebas o soporte)
+ */
+export async function triggerWebhookRetry(): Promise<void> {
+  await executeRetry();
+}
@@ -0,0 +1,17 @@
+import { NextFunction, Request, Response } from "express";
+import { API_KEY_SCOPE_MARK, ApiKeyScope, ApiKeyScopeDeclaration } from "../utils/apiKeyScopes";
+
+function declare(scope: ApiKeyScopeDeclaration) {
+  const middleware = (_req: Request, _res: Response, next: NextFunction) => next();
+  return Object.assign(middleware, { [API_KEY_SCOPE_MARK]: scope });
+}
+
+/**
+ * Declara el scope de API key que habilita la ruta. No valida por sí mismo: protect resuelve
+ * la ruta del request y compara esta declaración con los scopes de la key, sin importar en
+ * qué posición quede el middleware.
+ */
+export const apiKeyScope = (scope: ApiKeyScope) => declare(scope);
+
+/** La ruta (o con router.use, todo el router salvo lo que declare apiKeyScope) no admite API keys */
+export const noApiKey = declare(null);
@@ -7,6 +7,10 @@ import { Role } from "../generated/prisma/client";
 import prisma from "../core/prismaClient";
 import { withConnectionRetry } from "../core/withConnectionRetry";
 import { CacheService } from "../core/cache.service";
+import logger from "../core/logger";
+import { hashApiKey } from "../utils/crypto";
+import { apiKeyCacheKey, routeApiKeyScope } from "../utils/apiKeyScopes";
+import { getCachedUserBancaIds } from "./bancaContext.middleware";
 
 /**
  * Interfaz para la sesión cacheada del usuario
@@ -90,6 +94,143 @@ async function getCachedUser(userId: string): Promise<UserSession | null> {
   return session;
 }
 
+/**
+ * Sesión cacheada de una API key (fechas en ISO porque pasa por JSON en Redis)
+ */
+interface ApiKeySession {
+  id: string;
+  userId: string | null;
+  bancaId: string | null;
+  scopes: string[];
+  isActive: boolean;
+  isGlobal: boolean;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+}
+
+/** No actualizar lastUsedAt más de una vez por minuto por key */
+const API_KEY_TOUCH_THROTTLE_MS = 60_000;
+
+async function getCachedApiKey(plainKey: string): Promise<ApiKeySession | null> {
+  const keyHash = hashApiKey(plainKey);
+  const cacheKey = apiKeyCacheKey(keyHash);
+
+  const cached = await CacheService.get<ApiKeySession>(cacheKey, true);
+  if (cached) return cached;
+
+  const apiKey = await withConnectionRetry(
+    () => prisma.apiKey.findUnique({
+      where: { key: keyHash },
+      select: {
+        id: true,
+        userId: true,
+        bancaId: true,
+        scopes: true,
+        isActive: true,
+        isGlobal: true,
+        expiresAt: true,
+        lastUsedAt: true,
+      }
+    }),
+    { context: 'authMiddleware.getCachedApiKey', maxRetries: 2 }
+  );
+
+  if (!apiKey) return null;
+
+  const session: ApiKeySession = {
+    ...apiKey,
+    expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+    lastUsedAt: apiKey.lastUsedAt?.toISOString() ?? null,
+  };
+
+  // La revocación invalida esta clave directamente (ApiKeyService)
+  await CacheService.set(cacheKey, session, 300, [], true);
+
+  return session;
+}
+
+/**
+ * Rol de la key según el estado actual de quien la emitió: una key de banca exige un ADMIN
+ * o un usuario BANCA que siga asignado a esa banca; una key global, un ADMIN.
+ * Así, degradar al emisor le quita el rol a sus keys sin tener que revocarlas.
+ */
+async function resolveApiKeyRole(apiKey: ApiKeySession, owner: UserSession): Promise<Role> {
+  if (apiKey.bancaId) {
+    if (owner.role === Role.ADMIN) return Role.BANCA;
+    if (owner.role === Role.BANCA) {
+      const bancaIds = owner.bancaId === apiKey.bancaId ? [owner.bancaId] : await getCachedUserBancaIds(owner.id);
+      if (bancaIds.includes(apiKey.bancaId)) return Role.BANCA;
+    }
+  } else if (owner.role === Role.ADMIN) {
+    return Role.ADMIN;
+  }
+  throw new AppError("El usuario que emitió la API key ya no tiene permisos para usarla", 403, "API_KEY_OWNER_FORBIDDEN");
+}
+
+/**
+ * Autenticación máquina-a-máquina vía header X-Api-Key.
+ * La key actúa con rol BANCA (si está ligada a una banca) o ADMIN (solo si se emitió como
+ * global), sobre la identidad del usuario que la emitió, y solo en rutas cubiertas por sus scopes.
+ */
+async function authenticateApiKey(req: AuthenticatedRequest, plainKey: string) {
+  const apiKey = await getCachedApiKey(plainKey);
+
+  if (!apiKey || !apiKey.isActive || !apiKey.userId) {
+    throw new AppError("Invalid API key", 401, "API_KEY_INVALID");
+  }
+
+  // Sin banca la key solo vale si se emitió explícitamente como global
+  if (!apiKey.bancaId && !apiKey.isGlobal) {
+    throw new AppError("Invalid API key", 401, "API_KEY_INVALID");
+  }
+
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now()) {
+    throw new AppError("API key expirada", 401, "API_KEY_EXPIRED");
+  }
+
+  const owner = await getCachedUser(apiKey.userId);
+  if (!owner || !owner.isActive) {
+    throw new AppError("El usuario que emitió la API key está inactivo", 401, "API_KEY_OWNER_INACTIVE");
+  }
+  const role = await resolveApiKeyRole(apiKey, owner);
+
+  // El scope lo declara la ruta que atenderá el request; sin declaración no hay acceso
+  const path = req.originalUrl.split("?")[0].replace(/^\/api\/v1/, "");
+  const scope = routeApiKeyScope(req.method, path);
+  if (!scope || !apiKey.scopes.includes(scope)) {
+    throw new AppError("La API key no tiene permisos (scope) para este recurso", 403, "API_KEY_SCOPE");
+  }
+
+  const lastUsed = apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).getTime() : 0;
+  if (Date.now() - lastUsed >= API_KEY_TOUCH_THROTTLE_MS) {
+    apiKey.lastUsedAt = new Date().toISOString();
+    prisma.apiKey
+      .update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date() } })
+      .catch((err) => {
+        logger.warn({
+          layer: 'middleware',
+          action: 'API_KEY_TOUCH_ERROR',
+          payload: { apiKeyId: apiKey.id, error: err.message },
+        });
+      });
+  }
+
+  // Trazabilidad: distinguir acciones hechas por la key de las del usuario emisor
+  logger.info({
+    layer: 'middleware',
+    action: 'API_KEY_AUTH',
+    payload: { apiKeyId: apiKey.id, userId: owner.id, bancaId: apiKey.bancaId, method: req.method, path },
+  });
+
+  req.user = {
+    id: owner.id,
+    role,
+    ventanaId: null,
+    bancaId: apiKey.bancaId,
+    apiKeyId: apiKey.id,
+  };
+}
+
 export const protect = async (
   req: AuthenticatedRequest,
   _res: Response,
@@ -100,6 +241,12 @@ export const protect = async (
     return next();
   }
 
+  const apiKeyHeader = req.headers["x-api-key"];
+  if (typeof apiKeyHeader === "string" && apiKeyHeader.trim()) {
+    await authenticateApiKey(req, apiKeyHeader.trim());
+    return next();
+  }
+
   const header = req.headers.authorization;
   if (!header || !header.startsWith("Bearer ")) {
     throw new AppError("Unauthorized", 401);
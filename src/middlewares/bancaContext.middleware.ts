@@ -5,6 +5,7 @@ import { AppError } from '../core/errors';
 import { AuthenticatedRequest, BancaContext } from '../core/types';
 import { Role } from '../generated/prisma/client';
 import { CacheService } from '../core/cache.service';
+import { TenantContext } from '../core/tenantContext';
 
 /**
  * Middleware para establecer el contexto de banca activa (filtro de vista)
@@ -15,11 +16,34 @@ import { CacheService } from '../core/cache.service';
  * 3. Si no hay header, no filtra por banca (ADMIN ve todas)
  * 4. Para VENTANA/VENDEDOR, usa su banca a través de ventanaId
  * 5. Establece req.bancaContext con la banca activa
+ * 6. El resto de la petición corre dentro de TenantContext: Prisma acota a esa banca
+ *    las consultas de los modelos de banca (ver core/tenantIsolation.ts)
+ * 7. Si no se puede resolver la banca de un rol que no es ADMIN, se usa la del JWT
+ *    o se responde 403 (BANCA_CONTEXT_UNRESOLVED)
  */
 export async function bancaContextMiddleware(
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
+): Promise<void> {
+  await resolveBancaContext(req, res, (err?: unknown) => {
+    if (err) return next(err);
+    if (!req.user) return next();
+
+    const role = String(req.user.role).toUpperCase();
+    const bancaId = req.bancaContext?.bancaId ?? null;
+    // Sin banca, un rol de banca recibiría 403 en cada consulta: se rechaza aquí con un motivo claro
+    if (!bancaId && role !== 'ADMIN') {
+      return next(new AppError("No se pudo determinar la banca del usuario", 403, "BANCA_CONTEXT_UNRESOLVED"));
+    }
+    TenantContext.run({ bancaId, role, ventanaId: req.user.ventanaId ?? null, userId: req.user.id }, next);
+  });
+}
+
+async function resolveBancaContext(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: (err?: unknown) => void
 ): Promise<void> {
   try {
     const user = req.user;
@@ -29,6 +53,16 @@ export async function bancaContextMiddleware(
 
     const roleStr = String(user.role).toUpperCase();
 
+    // API key ligada a una banca: el contexto es fijo (se ignora X-Active-Banca-Id)
+    if (user.apiKeyId && user.bancaId) {
+      req.bancaContext = {
+        bancaId: user.bancaId,
+        userId: user.id,
+        hasAccess: true,
+      };
+      return next();
+    }
+
     // ========================================================================
     // 1. CASO: USUARIO BANCA (Multi-tenant Admin)
     // ========================================================================
@@ -163,6 +197,19 @@ export async function bancaContextMiddleware(
       action: 'BANCA_CONTEXT_ERROR',
       payload: { error: (error as Error).message, userId: req.user?.id },
     });
+
+    const user = req.user;
+    if (user && String(user.role).toUpperCase() !== 'ADMIN') {
+      // Fallback: la banca del propio usuario (JWT); sin ella la petición se rechaza
+      if (!user.bancaId) {
+        return next(error instanceof AppError ? error : new AppError("No se pudo determinar la banca del usuario", 403, "BANCA_CONTEXT_UNRESOLVED"));
+      }
+      req.bancaContext = {
+        bancaId: user.bancaId,
+        userId: user.id,
+        hasAccess: true,
+      };
+    }
     next();
   }
 }
@@ -214,7 +261,7 @@ async function getCachedBancaMeta(bancaId: string): Promise<BancaMeta | null> {
  * Obtener listado de bancas asignadas a un usuario usando Cache-Aside (Redis)
  * con fallback directo a PostgreSQL vía Prisma.
  */
-async function getCachedUserBancaIds(userId: string): Promise<string[]> {
+export async function getCachedUserBancaIds(userId: string): Promise<string[]> {
   const cacheKey = `user:bancas:${userId}`;
   try {
     return await CacheService.wrap<string[]>(
@@ -4,6 +4,7 @@ import { getRedisClient, isRedisAvailable } from '../core/redisClient';
 import logger from '../core/logger';
 import { Request, Response, NextFunction } from 'express';
 import { Role } from '../generated/prisma/client';
+import { config } from '../config';
 
 /**
  * Configuración base para Rate Limiters
@@ -96,4 +97,15 @@ export const salesRateLimiter = createLimiter({
   prefix: 'sales',
   message: 'Límite de ventas por minuto alcanzado. Por favor, espera un momento.',
   keyGenerator: (req) => (req as any).user?.id || ipKeyGenerator(req) || 'unknown'
-});
\ No newline at end of file
+});
+
+/**
+ * 4. Verificación pública de tiquetes (QR): por IP, compartido entre instancias vía Redis
+ */
+export const ticketVerifyRateLimiter = createLimiter({
+  windowMs: 60 * 1000,
+  max: config.ticketVerify.rateLimitPerMinute,
+  prefix: 'ticket-verify',
+  message: 'Demasiadas consultas de tiquetes. Por favor, intenta de nuevo en un minuto.',
+  keyGenerator: (req) => ipKeyGenerator(req.ip || '') || 'unknown'
+});
@@ -26,6 +26,12 @@ export const resilienceMiddleware = (req: Request, res: Response, next: NextFunc
         });
     }
 
+    // Streams SSE (/events/stream): conexión larga con su propio límite; no ocupa
+    // slot de admisión ni aplica el timeout por request
+    if (req.headers.accept === 'text/event-stream') {
+        return next();
+    }
+
     // 2. Admission Control (Máximo de requests concurrentes)
     const activeCount = activeOperationsService.getActiveCount();
     if (activeCount >= config.hardening.maxConcurrentRequests) {
@@ -1,4 +1,4 @@
-import prisma from "../core/prismaClient";
+import prisma, { AppTransactionClient } from "../core/prismaClient";
 import { Prisma } from "../generated/prisma/client";
 import logger from "../core/logger";
 
@@ -14,7 +14,7 @@ export const AccountStatementRepository = {
     bancaId?: string;
     ventanaId?: string;
     vendedorId?: string;
-  }, tx: Prisma.TransactionClient = prisma) {
+  }, tx: AppTransactionClient = prisma) {
     let finalVentanaId: string | undefined = data.ventanaId;
     let finalBancaId: string | undefined = data.bancaId;
 
@@ -198,7 +198,7 @@ export const AccountStatementRepository = {
     // ventanaId and vendedorId are immutable after creation and should not be updated here
     settledAt?: Date | null;
     settledBy?: string | null;
-  }, tx: Prisma.TransactionClient = prisma) {
+  }, tx: AppTransactionClient = prisma) {
     return await tx.accountStatement.update({
       where: { id },
       data,
@@ -321,7 +321,7 @@ export const AccountStatementRepository = {
       vendedorId?: string;
       bancaId?: string;
     },
-    tx: Prisma.TransactionClient = prisma
+    tx: AppTransactionClient = prisma
   ) {
     const where: Prisma.AccountStatementWhereInput = {
       date,
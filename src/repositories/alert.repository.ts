@@ -0,0 +1,74 @@
+import prisma from "../core/prismaClient";
+import logger from "../core/logger";
+import { Prisma } from "../generated/prisma/client";
+
+const AlertRepository = {
+  async create(data: Prisma.AlertUncheckedCreateInput) {
+    const alert = await prisma.alert.create({ data });
+    logger.info({
+      layer: "repository",
+      action: "ALERT_CREATE_DB",
+      payload: { alertId: alert.id, bancaId: alert.bancaId, dimension: alert.dimension },
+    });
+    return alert;
+  },
+
+  findById(id: string) {
+    return prisma.alert.findUnique({ where: { id } });
+  },
+
+  async list(where: Prisma.AlertWhereInput, page = 1, pageSize = 20) {
+    const skip = (page - 1) * pageSize;
+    const [data, total] = await Promise.all([
+      prisma.alert.findMany({ where, skip, take: pageSize, orderBy: { createdAt: "desc" } }),
+      prisma.alert.count({ where }),
+    ]);
+    return { data, total };
+  },
+
+  findActive() {
+    return prisma.alert.findMany({ where: { isActive: true }, orderBy: { createdAt: "asc" } });
+  },
+
+  update(id: string, data: Prisma.AlertUncheckedUpdateInput) {
+    return prisma.alert.update({ where: { id }, data });
+  },
+
+  delete(id: string) {
+    return prisma.alert.delete({ where: { id } });
+  },
+
+  /**
+   * Reclama el disparo y lo registra en una sola transacción: lastFiredAt solo se mueve si
+   * la alerta sigue cumpliendo `claim` (fuera de cooldown). null si otro worker ya la disparó.
+   */
+  async recordFired(
+    alertId: string,
+    claim: Prisma.AlertWhereInput,
+    data: Omit<Prisma.AlertEventUncheckedCreateInput, "alertId">
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const { count } = await tx.alert.updateMany({
+        where: { ...claim, id: alertId },
+        data: { lastFiredAt: data.firedAt },
+      });
+      if (count !== 1) return null;
+      return tx.alertEvent.create({ data: { ...data, alertId } });
+    });
+  },
+
+  updateEventNotifications(eventId: string, notifications: Prisma.InputJsonValue) {
+    return prisma.alertEvent.update({ where: { id: eventId }, data: { notifications } });
+  },
+
+  async listEvents(where: Prisma.AlertEventWhereInput, page = 1, pageSize = 20) {
+    const skip = (page - 1) * pageSize;
+    const [data, total] = await Promise.all([
+      prisma.alertEvent.findMany({ where, skip, take: pageSize, orderBy: { firedAt: "desc" } }),
+      prisma.alertEvent.count({ where }),
+    ]);
+    return { data, total };
+  },
+};
+
+export default AlertRepository;
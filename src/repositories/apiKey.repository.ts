@@ -0,0 +1,77 @@
+import prisma from "../core/prismaClient";
+import logger from "../core/logger";
+import { Prisma } from "../generated/prisma/client";
+import { UpdateApiKeyInput } from "../api/v1/dto/apiKey.dto";
+
+const ApiKeyRepository = {
+  async create(data: {
+    name: string;
+    keyHash: string;
+    scopes: string[];
+    expiresAt: Date | null;
+    bancaId: string | null;
+    isGlobal: boolean;
+    userId: string;
+  }) {
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name: data.name,
+        key: data.keyHash,
+        scopes: data.scopes,
+        expiresAt: data.expiresAt,
+        bancaId: data.bancaId,
+        isGlobal: data.isGlobal,
+        userId: data.userId,
+      },
+    });
+    logger.info({
+      layer: "repository",
+      action: "API_KEY_CREATE_DB",
+      payload: { apiKeyId: apiKey.id, bancaId: apiKey.bancaId, isGlobal: apiKey.isGlobal, scopes: apiKey.scopes },
+    });
+    return apiKey;
+  },
+
+  findById(id: string) {
+    return prisma.apiKey.findUnique({ where: { id } });
+  },
+
+  findByHash(keyHash: string) {
+    return prisma.apiKey.findUnique({ where: { key: keyHash } });
+  },
+
+  async list(where: Prisma.ApiKeyWhereInput, page = 1, pageSize = 20) {
+    const skip = (page - 1) * pageSize;
+    const [data, total] = await Promise.all([
+      prisma.apiKey.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.apiKey.count({ where }),
+    ]);
+    return { data, total };
+  },
+
+  update(id: string, data: UpdateApiKeyInput) {
+    return prisma.apiKey.update({
+      where: { id },
+      data: {
+        name: data.name,
+        scopes: data.scopes,
+        expiresAt: data.expiresAt,
+      },
+    });
+  },
+
+  revoke(id: string) {
+    return prisma.apiKey.update({ where: { id }, data: { isActive: false } });
+  },
+
+  touchLastUsed(id: string) {
+    return prisma.apiKey.update({ where: { id }, data: { lastUsedAt: new Date() } });
+  },
+};
+
+export default ApiKeyRepository;
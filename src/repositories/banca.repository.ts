@@ -30,6 +30,8 @@ const toPrismaCreate = (d: CreateBancaInput): Prisma.BancaCreateInput => ({
     : {}),
   vendorLimit: d.vendorLimit,
   maxSessionsPerVendedor: d.maxSessionsPerVendedor,
+  resultsDualConfirmation: d.resultsDualConfirmation,
+  evaluationDualControl: d.evaluationDualControl,
 });
 
 const toPrismaUpdate = (d: UpdateBancaInput): Prisma.BancaUpdateInput => ({
@@ -47,6 +49,8 @@ const toPrismaUpdate = (d: UpdateBancaInput): Prisma.BancaUpdateInput => ({
     : {}),
   vendorLimit: d.vendorLimit,
   maxSessionsPerVendedor: d.maxSessionsPerVendedor,
+  resultsDualConfirmation: d.resultsDualConfirmation,
+  evaluationDualControl: d.evaluationDualControl,
 })
 
 const BancaRepository = {
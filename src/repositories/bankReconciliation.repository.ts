@@ -0,0 +1,154 @@
+import prisma from "../core/prismaClient";
+import logger from "../core/logger";
+import { Prisma } from "../generated/prisma/client";
+
+const toDate = (dateStr: string) => new Date(`${dateStr}T00:00:00.000Z`);
+
+const paymentSelect = {
+  id: true,
+  date: true,
+  time: true,
+  amount: true,
+  type: true,
+  method: true,
+  reference: true,
+  notes: true,
+  ventanaId: true,
+  vendedorId: true,
+  paidByName: true,
+  isReversed: true,
+} satisfies Prisma.AccountPaymentSelect;
+
+const BankReconciliationRepository = {
+  listProfiles(bancaId: string) {
+    return prisma.bankStatementProfile.findMany({ where: { bancaId }, orderBy: { name: "asc" } });
+  },
+
+  findProfile(id: string) {
+    return prisma.bankStatementProfile.findUnique({ where: { id } });
+  },
+
+  createProfile(data: Prisma.BankStatementProfileUncheckedCreateInput) {
+    return prisma.bankStatementProfile.create({ data });
+  },
+
+  updateProfile(id: string, data: Prisma.BankStatementProfileUncheckedUpdateInput) {
+    return prisma.bankStatementProfile.update({ where: { id }, data });
+  },
+
+  findImportByHash(bancaId: string, fileHash: string) {
+    return prisma.bankStatementImport.findUnique({ where: { bancaId_fileHash: { bancaId, fileHash } } });
+  },
+
+  /** Huellas que ya existen en la banca (líneas de extractos anteriores que se solapan) */
+  async existingFingerprints(bancaId: string, fingerprints: string[]) {
+    if (fingerprints.length === 0) return new Set<string>();
+    const rows = await prisma.bankStatementLine.findMany({
+      where: { bancaId, fingerprint: { in: fingerprints } },
+      select: { fingerprint: true },
+    });
+    return new Set(rows.map((row) => row.fingerprint));
+  },
+
+  /** Crea el import con sus líneas en una sola transacción */
+  async createImport(
+    data: Prisma.BankStatementImportUncheckedCreateInput,
+    lines: Omit<Prisma.BankStatementLineCreateManyInput, "importId">[]
+  ) {
+    const created = await prisma.$transaction(async (tx) => {
+      const statementImport = await tx.bankStatementImport.create({ data });
+      if (lines.length > 0) {
+        await tx.bankStatementLine.createMany({
+          data: lines.map((line) => ({ ...line, importId: statementImport.id })),
+        });
+      }
+      return statementImport;
+    });
+    logger.info({
+      layer: "repository",
+      action: "BANK_STATEMENT_IMPORT_CREATE_DB",
+      payload: { importId: created.id, bancaId: created.bancaId, lines: lines.length },
+    });
+    return created;
+  },
+
+  setImportMatched(id: string, matchedCount: number) {
+    return prisma.bankStatementImport.update({ where: { id }, data: { matchedCount } });
+  },
+
+  unmatchedLines(importId: string) {
+    return prisma.bankStatementLine.findMany({
+      where: { importId, status: "UNMATCHED" },
+      orderBy: [{ postedDate: "asc" }, { lineNumber: "asc" }],
+    });
+  },
+
+  findLine(id: string) {
+    return prisma.bankStatementLine.findUnique({ where: { id } });
+  },
+
+  /** Transferencias vigentes y sin conciliar de la banca entre las fechas */
+  unreconciledTransfers(bancaId: string, fromDate: string, toDateStr: string) {
+    return prisma.accountPayment.findMany({
+      where: {
+        bancaId,
+        method: "transfer",
+        isReversed: false,
+        bankLine: { is: null },
+        date: { gte: toDate(fromDate), lte: toDate(toDateStr) },
+      },
+      select: paymentSelect,
+    });
+  },
+
+  findPayment(id: string) {
+    return prisma.accountPayment.findUnique({
+      where: { id },
+      select: { ...paymentSelect, bancaId: true, bankLine: { select: { id: true } } },
+    });
+  },
+
+  /** Concilia solo si la línea sigue sin conciliar; el pago es único por línea en la base */
+  async matchLine(id: string, paymentId: string, matchRule: string, matchedBy: string | null) {
+    const { count } = await prisma.bankStatementLine.updateMany({
+      where: { id, status: "UNMATCHED" },
+      data: { status: "MATCHED", paymentId, matchRule, matchedAt: new Date(), matchedBy },
+    });
+    return count === 1;
+  },
+
+  async unmatchLine(id: string) {
+    const { count } = await prisma.bankStatementLine.updateMany({
+      where: { id, status: "MATCHED" },
+      data: { status: "UNMATCHED", paymentId: null, matchRule: null, matchedAt: null, matchedBy: null },
+    });
+    return count === 1;
+  },
+
+  linesInRange(bancaId: string, fromDate: string, toDateStr: string) {
+    return prisma.bankStatementLine.findMany({
+      where: { bancaId, postedDate: { gte: toDate(fromDate), lte: toDate(toDateStr) } },
+      include: {
+        payment: { select: paymentSelect },
+        import: { select: { fileName: true, profile: { select: { dateToleranceDays: true } } } },
+      },
+      orderBy: [{ postedDate: "asc" }, { lineNumber: "asc" }],
+    });
+  },
+
+  /** Transferencias del mes con su línea conciliada (si la tienen) */
+  transfersInRange(bancaId: string, fromDate: string, toDateStr: string) {
+    return prisma.accountPayment.findMany({
+      where: {
+        bancaId,
+        method: "transfer",
+        isReversed: false,
+        date: { gte: toDate(fromDate), lte: toDate(toDateStr) },
+      },
+      select: { ...paymentSelect, bankLine: { select: { id: true, postedDate: true, matchRule: true } } },
+      orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+    });
+  },
+};
+
+export default BankReconciliationRepository;
@@ -0,0 +1,75 @@
+import prisma from "../core/prismaClient";
+import logger from "../core/logger";
+import { Prisma } from "../generated/prisma/client";
+
+const ticketSummary = {
+  select: {
+    id: true,
+    ticketNumber: true,
+    totalAmount: true,
+    status: true,
+    createdAt: true,
+    vendedor: { select: { id: true, name: true } },
+    sorteo: { select: { id: true, name: true, scheduledAt: true, status: true } },
+  },
+} satisfies Prisma.TicketDefaultArgs;
+
+const include = {
+  ticket: ticketSummary,
+  ventana: { select: { id: true, name: true } },
+} satisfies Prisma.CancelRequestInclude;
+
+const CancelRequestRepository = {
+  async create(data: Prisma.CancelRequestUncheckedCreateInput) {
+    const request = await prisma.cancelRequest.create({ data });
+    logger.info({
+      layer: "repository",
+      action: "CANCEL_REQUEST_CREATE_DB",
+      payload: { requestId: request.id, ticketId: request.ticketId, vendedorId: request.vendedorId },
+    });
+    return request;
+  },
+
+  findById(id: string) {
+    return prisma.cancelRequest.findUnique({ where: { id }, include });
+  },
+
+  findPendingForTicket(ticketId: string) {
+    return prisma.cancelRequest.findFirst({ where: { ticketId, status: "PENDING" } });
+  },
+
+  async list(where: Prisma.CancelRequestWhereInput, page = 1, pageSize = 20) {
+    const skip = (page - 1) * pageSize;
+    const [data, total] = await Promise.all([
+      prisma.cancelRequest.findMany({ where, skip, take: pageSize, orderBy: { createdAt: "desc" }, include }),
+      prisma.cancelRequest.count({ where }),
+    ]);
+    return { data, total };
+  },
+
+  /**
+   * Cambia el estado solo si sigue en `from` (dos aprobadores simultáneos no anulan dos veces).
+   */
+  async transition(id: string, from: string, data: Prisma.CancelRequestUncheckedUpdateManyInput) {
+    const { count } = await prisma.cancelRequest.updateMany({ where: { id, status: from }, data });
+    return count === 1;
+  },
+
+  findBancaPolicy(bancaId: string) {
+    return prisma.banca.findUnique({ where: { id: bancaId }, select: { id: true, cancellationPolicyJson: true } });
+  },
+
+  findVentanaPolicy(ventanaId: string) {
+    return prisma.ventana.findUnique({ where: { id: ventanaId }, select: { id: true, bancaId: true, cancellationPolicyJson: true } });
+  },
+
+  updateBancaPolicy(bancaId: string, policy: Prisma.InputJsonValue | typeof Prisma.DbNull) {
+    return prisma.banca.update({ where: { id: bancaId }, data: { cancellationPolicyJson: policy } });
+  },
+
+  updateVentanaPolicy(ventanaId: string, policy: Prisma.InputJsonValue | typeof Prisma.DbNull) {
+    return prisma.ventana.update({ where: { id: ventanaId }, data: { cancellationPolicyJson: policy } });
+  },
+};
+
+export default CancelRequestRepository;
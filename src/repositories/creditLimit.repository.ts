@@ -0,0 +1,58 @@
+import prisma from "../core/prismaClient";
+import logger from "../core/logger";
+import { Prisma } from "../generated/prisma/client";
+
+const include = {
+  ventana: { select: { id: true, name: true, bancaId: true } },
+  vendedor: { select: { id: true, name: true, ventanaId: true } },
+} satisfies Prisma.CreditLimitInclude;
+
+const CreditLimitRepository = {
+  async create(data: Prisma.CreditLimitUncheckedCreateInput) {
+    const limit = await prisma.creditLimit.create({ data, include });
+    logger.info({
+      layer: "repository",
+      action: "CREDIT_LIMIT_CREATE_DB",
+      payload: { limitId: limit.id, ventanaId: limit.ventanaId, vendedorId: limit.vendedorId },
+    });
+    return limit;
+  },
+
+  update(id: string, data: Prisma.CreditLimitUncheckedUpdateInput) {
+    return prisma.creditLimit.update({ where: { id }, data, include });
+  },
+
+  delete(id: string) {
+    return prisma.creditLimit.delete({ where: { id } });
+  },
+
+  findById(id: string) {
+    return prisma.creditLimit.findUnique({ where: { id }, include });
+  },
+
+  /** Límite del vendedor o, con vendedorId null, el consolidado de la ventana */
+  findByScope(ventanaId: string, vendedorId: string | null) {
+    return prisma.creditLimit.findFirst({ where: { ventanaId, vendedorId }, include });
+  },
+
+  list(where: Prisma.CreditLimitWhereInput) {
+    return prisma.creditLimit.findMany({ where, include, orderBy: [{ ventanaId: "asc" }, { createdAt: "asc" }] });
+  },
+
+  /** Límites que aplican a una venta: el del vendedor y el de su ventana */
+  findForSale(ventanaId: string, vendedorId: string) {
+    return prisma.creditLimit.findMany({
+      where: { ventanaId, OR: [{ vendedorId }, { vendedorId: null }] },
+      select: {
+        id: true,
+        vendedorId: true,
+        softLimit: true,
+        hardLimit: true,
+        overrideLimit: true,
+        overrideUntil: true,
+      },
+    });
+  },
+};
+
+export default CreditLimitRepository;
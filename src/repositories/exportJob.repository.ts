@@ -0,0 +1,106 @@
+import prisma from "../core/prismaClient";
+import logger from "../core/logger";
+import { JobStatus, Prisma } from "../generated/prisma/client";
+
+const ExportJobRepository = {
+  async create(data: Prisma.ExportJobUncheckedCreateInput) {
+    const job = await prisma.exportJob.create({ data });
+    logger.info({
+      layer: "repository",
+      action: "EXPORT_JOB_CREATE_DB",
+      payload: { jobId: job.id, userId: job.userId, format: job.format },
+    });
+    return job;
+  },
+
+  findById(id: string) {
+    return prisma.exportJob.findUnique({ where: { id } });
+  },
+
+  findByIdempotencyKey(idempotencyKey: string) {
+    return prisma.exportJob.findUnique({ where: { idempotencyKey } });
+  },
+
+  async list(where: Prisma.ExportJobWhereInput, page = 1, pageSize = 20) {
+    const skip = (page - 1) * pageSize;
+    const [data, total] = await Promise.all([
+      prisma.exportJob.findMany({ where, skip, take: pageSize, orderBy: { createdAt: "desc" } }),
+      prisma.exportJob.count({ where }),
+    ]);
+    return { data, total };
+  },
+
+  /** Incluye rol y ventana de quien lo pidió: el worker arma con ellos el contexto de banca */
+  findPending(limit: number) {
+    return prisma.exportJob.findMany({
+      where: { status: JobStatus.PENDING },
+      orderBy: { createdAt: "asc" },
+      take: limit,
+      include: { user: { select: { role: true, ventanaId: true } } },
+    });
+  },
+
+  /** PENDING → PROCESSING; false si otro worker lo tomó o fue cancelado */
+  async claim(id: string) {
+    const { count } = await prisma.exportJob.updateMany({
+      where: { id, status: JobStatus.PENDING },
+      data: { status: JobStatus.PROCESSING, progress: 0 },
+    });
+    return count === 1;
+  },
+
+  /** Solo avanza trabajos en proceso; false indica que fue cancelado */
+  async updateProgress(id: string, data: { progress: number; totalRecords?: number }) {
+    const { count } = await prisma.exportJob.updateMany({
+      where: { id, status: JobStatus.PROCESSING },
+      data,
+    });
+    return count === 1;
+  },
+
+  async complete(id: string, data: { fileUrl: string; totalRecords: number }) {
+    const { count } = await prisma.exportJob.updateMany({
+      where: { id, status: JobStatus.PROCESSING },
+      data: { ...data, status: JobStatus.COMPLETED, progress: 100, completedAt: new Date() },
+    });
+    return count === 1;
+  },
+
+  fail(id: string, errorMessage: string) {
+    return prisma.exportJob.updateMany({
+      where: { id, status: JobStatus.PROCESSING },
+      data: { status: JobStatus.FAILED, errorMessage, completedAt: new Date() },
+    });
+  },
+
+  async cancel(id: string) {
+    const { count } = await prisma.exportJob.updateMany({
+      where: { id, status: { in: [JobStatus.PENDING, JobStatus.PROCESSING] } },
+      data: { status: JobStatus.CANCELLED, completedAt: new Date() },
+    });
+    return count === 1;
+  },
+
+  /** Trabajos que quedaron en PROCESSING sin avanzar (p. ej. reinicio del proceso) */
+  async failStale(before: Date, errorMessage: string) {
+    const { count } = await prisma.exportJob.updateMany({
+      where: { status: JobStatus.PROCESSING, updatedAt: { lt: before } },
+      data: { status: JobStatus.FAILED, errorMessage, completedAt: new Date() },
+    });
+    return count;
+  },
+
+  findExpiredFiles(before: Date, limit = 100) {
+    return prisma.exportJob.findMany({
+      where: { fileUrl: { not: null }, completedAt: { lt: before } },
+      select: { id: true, fileUrl: true },
+      take: limit,
+    });
+  },
+
+  clearFile(id: string) {
+    return prisma.exportJob.update({ where: { id }, data: { fileUrl: null } });
+  },
+};
+
+export default ExportJobRepository;
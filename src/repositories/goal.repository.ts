@@ -0,0 +1,51 @@
+import prisma from "../core/prismaClient";
+import logger from "../core/logger";
+import { Prisma } from "../generated/prisma/client";
+
+const GoalRepository = {
+  async create(data: Prisma.GoalUncheckedCreateInput) {
+    const goal = await prisma.goal.create({ data });
+    logger.info({
+      layer: "repository",
+      action: "GOAL_CREATE_DB",
+      payload: { goalId: goal.id, bancaId: goal.bancaId, dimension: goal.dimension, metric: goal.metric },
+    });
+    return goal;
+  },
+
+  findById(id: string) {
+    return prisma.goal.findUnique({ where: { id } });
+  },
+
+  findFirst(where: Prisma.GoalWhereInput) {
+    return prisma.goal.findFirst({ where });
+  },
+
+  async list(where: Prisma.GoalWhereInput, page = 1, pageSize = 20) {
+    const skip = (page - 1) * pageSize;
+    const [data, total] = await Promise.all([
+      prisma.goal.findMany({ where, skip, take: pageSize, orderBy: [{ startDate: "desc" }, { createdAt: "desc" }] }),
+      prisma.goal.count({ where }),
+    ]);
+    return { data, total };
+  },
+
+  /** Metas activas cuyo rango incluye el instante dado */
+  findActiveAt(where: Prisma.GoalWhereInput, at: Date, limit = 50) {
+    return prisma.goal.findMany({
+      where: { ...where, isActive: true, startDate: { lte: at }, endDate: { gte: at } },
+      orderBy: { endDate: "asc" },
+      take: limit,
+    });
+  },
+
+  update(id: string, data: Prisma.GoalUncheckedUpdateInput) {
+    return prisma.goal.update({ where: { id }, data });
+  },
+
+  delete(id: string) {
+    return prisma.goal.delete({ where: { id } });
+  },
+};
+
+export default GoalRepository;
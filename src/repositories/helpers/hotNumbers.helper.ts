@@ -0,0 +1,224 @@
+// src/repositories/helpers/hotNumbers.helper.ts
+import { BetType, TicketStatus } from '../../generated/prisma/client';
+import logger from "../../core/logger";
+import { AppError } from "../../core/errors";
+import prisma, { AppTransactionClient } from "../../core/prismaClient";
+import { CacheService } from "../../core/cache.service";
+import { ReportDimension } from '../../types/enums/report.enum';
+import { HotNumberPolicy, parseHotNumberPolicy } from "../../types/schemas/databaseJson.schema";
+import { calculateAccumulatedByNumbersAndScope, ScopeCache } from "./ticket-restriction.helper";
+
+const POLICY_CACHE_TTL_SECONDS = 300;
+
+export const hotNumberPolicyCacheTag = (bancaId: string) => `hot-number-policy:${bancaId}`;
+
+export type HotNumberTier = HotNumberPolicy["tiers"][number];
+
+/** Estado de un número en el sorteo frente a la capacidad de pago de la banca */
+export type HotNumberState = {
+  number: string;
+  accumulated: number;
+  multiplierX: number;
+  capacity: number;
+  /** Premio potencial (acumulado × multiplicador) / capacidad */
+  share: number;
+  tier: HotNumberTier | null;
+  /** Venta que agota la capacidad y lo que falta para llegar a ella */
+  maxStake: number;
+  remaining: number;
+  /** Máximo que acepta un tiquete para el número; null = sin tope dinámico */
+  ticketLimit: number | null;
+  offeredMultiplierX: number;
+  reason: string | null;
+};
+
+export type HotNumberWarning = {
+  code: "HOT_NUMBER_MULTIPLIER_REDUCED";
+  number: string;
+  share: number;
+  multiplierX: number;
+  previousMultiplierX: number;
+  message: string;
+};
+
+const round2 = (value: number) => Math.floor(value * 100) / 100;
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+/** Capacidad de pago por número: la fija o el % de la venta del sorteo, la mayor */
+export function hotNumberCapacity(policy: HotNumberPolicy, sorteoSales: number): number {
+  const bySales = policy.salesCapacityPercent ? (sorteoSales * policy.salesCapacityPercent) / 100 : 0;
+  return Math.max(policy.payoutCapacity ?? 0, bySales);
+}
+
+/**
+ * Tramo vigente de un número. El tope por tiquete es una fracción (limitFactor) de lo que
+ * falta para agotar la capacidad, así que se encoge con cada venta; agotada la capacidad
+ * el número se cierra aunque ningún tramo tenga limitFactor.
+ */
+export function resolveHotNumberState(
+  policy: HotNumberPolicy,
+  params: { number: string; accumulated: number; capacity: number; multiplierX: number }
+): HotNumberState {
+  const { number, accumulated, capacity, multiplierX } = params;
+  const share = capacity > 0 ? (accumulated * multiplierX) / capacity : 0;
+  const tier = [...policy.tiers].reverse().find((t) => share >= t.share) ?? null;
+
+  const maxStake = multiplierX > 0 ? capacity / multiplierX : 0;
+  const remaining = Math.max(0, maxStake - accumulated);
+
+  let ticketLimit: number | null = null;
+  let reason: string | null = null;
+  if (share >= 1) {
+    ticketLimit = 0;
+    reason = "Capacidad de pago agotada";
+  } else if (tier) {
+    if (tier.limitFactor !== undefined) ticketLimit = round2(remaining * tier.limitFactor);
+    reason = `Número caliente (${percent(share)} de la capacidad de pago)`;
+  }
+
+  return {
+    number,
+    accumulated,
+    multiplierX,
+    capacity,
+    share,
+    tier,
+    maxStake: round2(maxStake),
+    remaining: round2(remaining),
+    ticketLimit,
+    offeredMultiplierX: tier?.multiplierX !== undefined ? Math.min(multiplierX, tier.multiplierX) : multiplierX,
+    reason,
+  };
+}
+
+/** Política de la banca (cacheada; se invalida al actualizarla) */
+export async function loadHotNumberPolicy(bancaId: string): Promise<HotNumberPolicy | null> {
+  const json = await CacheService.wrap(
+    `hot-number-policy:${bancaId}`,
+    async () => {
+      const banca = await prisma.banca.findUnique({ where: { id: bancaId }, select: { hotNumberPolicyJson: true } });
+      return banca?.hotNumberPolicyJson ?? null;
+    },
+    POLICY_CACHE_TTL_SECONDS,
+    [hotNumberPolicyCacheTag(bancaId)]
+  );
+  return parseHotNumberPolicy(json);
+}
+
+/** Venta vigente del sorteo en la banca (base de salesCapacityPercent) */
+export async function loadSorteoSales(tx: AppTransactionClient, bancaId: string, sorteoId: string) {
+  const result = await tx.ticket.aggregate({
+    _sum: { totalAmount: true },
+    where: {
+      sorteoId,
+      ventana: { bancaId },
+      deletedAt: null,
+      isActive: true,
+      status: { notIn: [TicketStatus.CANCELLED, TicketStatus.EXCLUDED] },
+    },
+  });
+  return Number(result._sum.totalAmount) || 0;
+}
+
+/**
+ * Aplica la política de números calientes a las jugadas NUMERO de un tiquete en venta:
+ * rechaza el número si supera el tope del tramo y baja `finalMultiplierX` (en sitio) si el
+ * tramo ofrece un multiplicador menor. El acumulado es el de toda la banca en el sorteo.
+ */
+export async function applyHotNumberPolicy(
+  tx: AppTransactionClient,
+  params: {
+    bancaId: string;
+    sorteoId: string;
+    jugadas: Array<{ type: BetType; number: string; amount: number; finalMultiplierX: number }>;
+    cache?: ScopeCache;
+  }
+): Promise<HotNumberWarning[]> {
+  const { bancaId, sorteoId, jugadas, cache } = params;
+  const numeros = jugadas.filter((j) => j.type === BetType.NUMERO);
+  if (numeros.length === 0) return [];
+
+  const policy = await loadHotNumberPolicy(bancaId);
+  if (!policy) return [];
+
+  const byNumber = new Map<string, { amount: number; multiplierX: number }>();
+  for (const j of numeros) {
+    const entry = byNumber.get(j.number) ?? { amount: 0, multiplierX: 0 };
+    entry.amount += Number(j.amount);
+    entry.multiplierX = Math.max(entry.multiplierX, j.finalMultiplierX);
+    byNumber.set(j.number, entry);
+  }
+
+  const ticketTotal = jugadas.reduce((acc, j) => acc + Number(j.amount), 0);
+  const [accumulatedMap, sorteoSales] = await Promise.all([
+    calculateAccumulatedByNumbersAndScope(tx, {
+      numbers: [...byNumber.keys()],
+      scopeType: ReportDimension.BANCA,
+      scopeId: bancaId,
+      sorteoId,
+      multiplierFilter: null,
+      cache,
+    }),
+    policy.salesCapacityPercent ? loadSorteoSales(tx, bancaId, sorteoId) : Promise.resolve(0),
+  ]);
+  const capacity = hotNumberCapacity(policy, sorteoSales + ticketTotal);
+
+  const warnings: HotNumberWarning[] = [];
+  for (const [number, { amount, multiplierX }] of byNumber) {
+    const state = resolveHotNumberState(policy, {
+      number,
+      accumulated: accumulatedMap.get(number) ?? 0,
+      capacity,
+      multiplierX,
+    });
+
+    if (state.ticketLimit !== null && amount > state.ticketLimit) {
+      logger.warn({
+        layer: 'repository',
+        action: 'HOT_NUMBER_LIMIT_EXCEEDED',
+        payload: { bancaId, sorteoId, number, share: state.share, ticketLimit: state.ticketLimit, amount },
+      });
+
+      const message = state.ticketLimit > 0
+        ? `El número ${number}: ${state.reason}. Disponible ₡${state.ticketLimit.toFixed(2)}`
+        : `El número ${number}: ${state.reason}. Agotado para este sorteo`;
+      throw new AppError(message, 400, {
+        code: "NUMBER_HOT_LIMIT",
+        number,
+        reason: state.reason,
+        share: state.share,
+        accumulatedInSorteo: state.accumulated,
+        capacity: state.capacity,
+        amountAttempted: amount,
+        available: state.ticketLimit,
+        isDynamic: true,
+      });
+    }
+
+    if (state.offeredMultiplierX < multiplierX) {
+      for (const j of numeros) {
+        if (j.number === number && j.finalMultiplierX > state.offeredMultiplierX) {
+          j.finalMultiplierX = state.offeredMultiplierX;
+        }
+      }
+      warnings.push({
+        code: "HOT_NUMBER_MULTIPLIER_REDUCED",
+        number,
+        share: state.share,
+        multiplierX: state.offeredMultiplierX,
+        previousMultiplierX: multiplierX,
+        message: `El número ${number}: ${state.reason}. Se paga a ${state.offeredMultiplierX}x`,
+      });
+    }
+  }
+
+  if (warnings.length > 0) {
+    logger.info({
+      layer: 'repository',
+      action: 'HOT_NUMBER_MULTIPLIER_REDUCED',
+      payload: { bancaId, sorteoId, numbers: warnings.map((w) => w.number) },
+    });
+  }
+
+  return warnings;
+}
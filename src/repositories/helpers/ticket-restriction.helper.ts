@@ -6,7 +6,8 @@ import { AppError } from "../../core/errors";
 import { getCRLocalComponents } from "../../utils/businessDate";
 import { restrictionCacheV2 } from "../../utils/restrictionCacheV2";
 import { getRedisClient, isRedisAvailable, markRedisError } from "../../core/redisClient";
-import prisma from "../../core/prismaClient";
+import prisma, { AppTransactionClient } from "../../core/prismaClient";
+import { TenantContext } from "../../core/tenantContext";
 
 /**
  * Intenta adquirir un lock distribuido en Redis.
@@ -90,7 +91,7 @@ export interface ScopeCache {
  * @returns Map con número como clave y acumulado como valor
  */
 export async function calculateAccumulatedByNumbersAndScope(
-  tx: Prisma.TransactionClient,
+  tx: AppTransactionClient,
   params: {
     numbers: string[];          // Array de números (ej: ["15", "20"])
     scopeType: ReportDimension;
@@ -252,7 +253,8 @@ export async function calculateAccumulatedByNumbersAndScope(
       whereNumberClause = Prisma.sql`AND (${Prisma.join(numberConditions, ' OR ')})`;
     }
 
-    const result = await tx.$queryRaw<Array<{ number: string; total: number }>>(
+    // Ámbito del tiquete en venta, ya validado: sin filtro por bancaId para no omitir tiquetes antiguos sin banca
+    const result = await TenantContext.crossTenant(() => tx.$queryRaw<Array<{ number: string; total: number }>>(
       Prisma.sql`
         SELECT 
           j."number" as number,
@@ -275,7 +277,7 @@ export async function calculateAccumulatedByNumbersAndScope(
           ${whereNumberClause}
         GROUP BY j."number"
       `
-    );
+    ));
 
     // Convertir resultado a Map
     const accumulatedMap = new Map<string, number>();
@@ -335,7 +337,7 @@ export async function calculateAccumulatedByNumbersAndScope(
  * @param params Parámetros de cálculo masivo
  */
 export async function calculateAccumulatedForMultipleScopes(
-  tx: Prisma.TransactionClient,
+  tx: AppTransactionClient,
   params: {
     numbers: string[];
     sorteoId: string;
@@ -526,7 +528,8 @@ export async function calculateAccumulatedForMultipleScopes(
 
   try {
     // 4. Ejecutar la query masiva
-    const result = await tx.$queryRaw<
+    // Ámbitos del tiquete en venta, ya validados: sin filtro por bancaId para no omitir tiquetes antiguos sin banca
+    const result = await TenantContext.crossTenant(() => tx.$queryRaw<
       Array<{
         number: string;
         vendedorId: string | null;
@@ -560,7 +563,7 @@ export async function calculateAccumulatedForMultipleScopes(
           ${whereScopesClause}
         GROUP BY j."number", t."vendedorId", t."ventanaId", v."bancaId", j."type", j."multiplierId"
       `
-    );
+    ));
 
     // 5. Agrupar/mapear los resultados en memoria para cada scope solicitado
     for (const sc of scopesToQuery) {
@@ -651,7 +654,7 @@ export async function calculateAccumulatedForMultipleScopes(
  * @returns Monto acumulado del sorteo para el número y alcance
  */
 export async function calculateAccumulatedByNumberAndScope(
-  tx: Prisma.TransactionClient,
+  tx: AppTransactionClient,
   params: {
     number: string;              // Número específico (ej: "15")
     scopeType: ReportDimension;
@@ -761,7 +764,7 @@ export function resolveNumbersToValidate(
  * @returns void si todos son válidos, lanza error si alguno excede el límite
  */
 export async function validateMaxTotalForNumbers(
-  tx: Prisma.TransactionClient,
+  tx: AppTransactionClient,
   params: {
     numbers: Array<{ number: string; amountForNumber: number }>; // Array de números y sus montos
     rule: {
@@ -942,7 +945,7 @@ export async function validateMaxTotalForNumbers(
  * @returns void si es válido, lanza error si excede el límite
  */
 export async function validateMaxTotalForNumber(
-  tx: Prisma.TransactionClient,
+  tx: AppTransactionClient,
   params: {
     number: string;
     amountForNumber: number;     // Monto del ticket para este número específico
@@ -1082,7 +1085,7 @@ function organizeValidationTasks(rules: any[]): {
  * Ejecuta una tarea de validación individual
  */
 async function executeValidationTask(
-  tx: Prisma.TransactionClient,
+  tx: AppTransactionClient,
   task: ValidationTask,
   context: {
     sorteoId: string;
@@ -1349,7 +1352,7 @@ async function executeValidationTask(
  * @param params Parámetros de validación paralela
  */
 export async function validateRulesInParallel(
-  tx: Prisma.TransactionClient,
+  tx: AppTransactionClient,
   params: {
     rules: any[]; // Reglas aplicables con relaciones
     numbers: Array<{ 
@@ -1459,7 +1462,7 @@ export async function validateRulesInParallel(
  * Rehidrata de forma masiva los acumulados de un sorteo en Redis desde PostgreSQL.
  * Agrupa los acumulados en memoria y ejecuta un único HSET por clave dentro de un pipeline de Redis.
  */
-export async function rehydrateRedisAccumulated(sorteoId: string, tx?: Prisma.TransactionClient): Promise<void> {
+export async function rehydrateRedisAccumulated(sorteoId: string, tx?: AppTransactionClient): Promise<void> {
   if (!isRedisAvailable()) {
     logger.warn({
       layer: "redis-rehydrate",
@@ -1498,7 +1501,8 @@ export async function rehydrateRedisAccumulated(sorteoId: string, tx?: Prisma.Tr
     }
 
     // 1. Obtener todos los acumulados consolidados desde la base de datos
-    const result = await client.$queryRaw<
+    // Reconstruye los acumulados del sorteo en Redis para todas las bancas: cruza bancas a propósito
+    const result = await TenantContext.crossTenant(() => client.$queryRaw<
       Array<{
         number: string;
         vendedorId: string | null;
@@ -1530,7 +1534,7 @@ export async function rehydrateRedisAccumulated(sorteoId: string, tx?: Prisma.Tr
           AND j."deletedAt" IS NULL
         GROUP BY j."number", t."vendedorId", t."ventanaId", v."bancaId", j."type", j."multiplierId"
       `
-    );
+    ));
 
     // 2. Agrupar en memoria por clave de Redis
     const redisData = new Map<string, Record<string, number>>();
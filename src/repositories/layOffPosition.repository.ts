@@ -0,0 +1,105 @@
+import prisma from "../core/prismaClient";
+import logger from "../core/logger";
+import { Prisma } from "../generated/prisma/client";
+import { rawBancaFilter } from "../core/tenantIsolation";
+
+const include = {
+  sorteo: { select: { id: true, name: true, scheduledAt: true, status: true, winningNumber: true } },
+} satisfies Prisma.LayOffPositionInclude;
+
+type SettledRow = {
+  loteriaId: string;
+  positions: number;
+  ceded: number;
+  commission: number;
+  recovered: number;
+};
+
+/** Filtros del resultado de cesiones en reportes (fechas de negocio YYYY-MM-DD) */
+export type LayOffSummaryFilters = {
+  fromDateStr: string;
+  toDateStr: string;
+  bancaId?: string;
+  loteriaId?: string;
+};
+
+const LayOffPositionRepository = {
+  async create(data: Prisma.LayOffPositionUncheckedCreateInput) {
+    const position = await prisma.layOffPosition.create({ data, include });
+    logger.info({
+      layer: "repository",
+      action: "LAYOFF_POSITION_CREATE_DB",
+      payload: { positionId: position.id, sorteoId: position.sorteoId, number: position.number, amount: position.amount },
+    });
+    return position;
+  },
+
+  findById(id: string) {
+    return prisma.layOffPosition.findUnique({ where: { id }, include });
+  },
+
+  async list(where: Prisma.LayOffPositionWhereInput, page = 1, pageSize = 50) {
+    const skip = (page - 1) * pageSize;
+    const [data, total] = await Promise.all([
+      prisma.layOffPosition.findMany({ where, skip, take: pageSize, orderBy: { createdAt: "desc" }, include }),
+      prisma.layOffPosition.count({ where }),
+    ]);
+    return { data, total };
+  },
+
+  /** Cesiones vigentes de un sorteo (cálculo de riesgo) */
+  findActiveBySorteo(sorteoId: string) {
+    return prisma.layOffPosition.findMany({
+      where: { sorteoId, status: "ACTIVE" },
+      select: { id: true, number: true, amount: true, multiplierX: true, commissionPercent: true },
+    });
+  },
+
+  /** Cambia el estado solo si sigue en `from` */
+  async transition(id: string, from: string, data: Prisma.LayOffPositionUncheckedUpdateManyInput) {
+    const { count } = await prisma.layOffPosition.updateMany({ where: { id, status: from }, data });
+    return count === 1;
+  },
+
+  /**
+   * Resultado de las cesiones vigentes de sorteos ya evaluados, por lotería: lo cedido,
+   * la comisión que reconoce la contraparte y el premio que ella paga si salió el número.
+   */
+  async settledByLoteria(filters: LayOffSummaryFilters) {
+    const rows = await prisma.$queryRaw<SettledRow[]>(Prisma.sql`
+      SELECT
+        p."loteriaId" AS "loteriaId",
+        COUNT(*)::int AS positions,
+        COALESCE(SUM(p.amount), 0)::float8 AS ceded,
+        COALESCE(SUM(p.amount * p."commissionPercent" / 100), 0)::float8 AS commission,
+        COALESCE(SUM(CASE WHEN s."winningNumber" = p.number THEN p.amount * p."multiplierX" ELSE 0 END), 0)::float8 AS recovered
+      FROM "LayOffPosition" p
+      INNER JOIN "Sorteo" s ON s.id = p."sorteoId"
+      WHERE p.status = 'ACTIVE'
+        AND s."winningNumber" IS NOT NULL
+        AND s.status IN ('EVALUATED', 'CLOSED')
+        AND p."businessDate" BETWEEN ${filters.fromDateStr}::date AND ${filters.toDateStr}::date
+        ${filters.bancaId ? Prisma.sql`AND p."bancaId" = CAST(${filters.bancaId} AS uuid)` : Prisma.empty}
+        ${rawBancaFilter(Prisma.sql`p."bancaId"`)}
+        ${filters.loteriaId ? Prisma.sql`AND p."loteriaId" = CAST(${filters.loteriaId} AS uuid)` : Prisma.empty}
+      GROUP BY p."loteriaId"
+    `);
+    return rows.map((row) => ({
+      loteriaId: row.loteriaId,
+      positions: Number(row.positions) || 0,
+      ceded: Number(row.ceded) || 0,
+      commission: Number(row.commission) || 0,
+      recovered: Number(row.recovered) || 0,
+    }));
+  },
+
+  findBancaPolicy(bancaId: string) {
+    return prisma.banca.findUnique({ where: { id: bancaId }, select: { id: true, riskPolicyJson: true } });
+  },
+
+  updateBancaPolicy(bancaId: string, policy: Prisma.InputJsonValue | typeof Prisma.DbNull) {
+    return prisma.banca.update({ where: { id: bancaId }, data: { riskPolicyJson: policy } });
+  },
+};
+
+export default LayOffPositionRepository;
@@ -0,0 +1,240 @@
+import crypto from "crypto";
+import prisma, { AppTransactionClient } from "../core/prismaClient";
+import logger from "../core/logger";
+import { Prisma } from "../generated/prisma/client";
+import { TenantContext } from "../core/tenantContext";
+import { rawBancaFilter } from "../core/tenantIsolation";
+import {
+  journalLines,
+  LedgerDimension,
+  LedgerKind,
+  LedgerPosted,
+  LedgerPosting,
+  LedgerSourceType,
+  SorteoLedgerRow,
+} from "../api/v1/services/accounts/accounts.ledger.helpers";
+
+/** Origen común de los asientos de una misma operación */
+export type LedgerSource = {
+  sourceType: LedgerSourceType;
+  sourceId: string;
+  description?: string;
+  createdBy?: string | null;
+};
+
+type LedgerClient = AppTransactionClient | typeof prisma;
+
+type KindSumRow = { kind: LedgerKind; amount: number };
+type ClosingRow = { date: string; balance: number };
+
+export const LedgerRepository = {
+  /** Registra los asientos: dos líneas por asiento, todas en la misma sentencia */
+  async postJournals(postings: LedgerPosting[], source: LedgerSource, client: LedgerClient = prisma) {
+    if (postings.length === 0) return 0;
+
+    const data: Prisma.LedgerEntryCreateManyInput[] = postings.flatMap((posting) => {
+      const journalId = crypto.randomUUID();
+      return journalLines(posting).map((line) => ({
+        journalId,
+        bancaId: line.bancaId,
+        businessDate: new Date(`${line.businessDate}T00:00:00.000Z`),
+        journalType: posting.journalType,
+        kind: line.kind,
+        dimension: line.dimension,
+        entityId: line.entityId,
+        account: line.account,
+        amount: line.amount,
+        sourceType: source.sourceType,
+        sourceId: source.sourceId,
+        reversesJournalId: posting.reversesJournalId,
+        description: source.description ?? null,
+        createdBy: source.createdBy ?? null,
+      }));
+    });
+
+    await client.ledgerEntry.createMany({ data });
+    logger.info({
+      layer: "repository",
+      action: "LEDGER_POST_DB",
+      payload: { sourceType: source.sourceType, sourceId: source.sourceId, journals: postings.length },
+    });
+    return postings.length;
+  },
+
+  /**
+   * Serializa los asientos de un origen hasta el fin de la transacción `tx`: quien llega segundo
+   * espera y ve lo que asentó el primero
+   */
+  async lockSource(tx: AppTransactionClient, sourceType: LedgerSourceType, sourceId: string) {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${sourceType} || ':' || ${sourceId}))`;
+  },
+
+  /**
+   * Lo ya asentado por un origen, por libro y categoría (líneas ENTITY).
+   * Sin filtro de banca: el origen (sorteo, pago, ajuste) ya se validó y sus asientos son todos suyos.
+   */
+  postedBySource(sourceType: LedgerSourceType, sourceId: string, client: LedgerClient = prisma) {
+    return TenantContext.crossTenant(() => client.$queryRaw<LedgerPosted[]>(Prisma.sql`
+      SELECT
+        e."bancaId"::text AS "bancaId",
+        e.dimension,
+        e."entityId"::text AS "entityId",
+        to_char(e."businessDate", 'YYYY-MM-DD') AS "businessDate",
+        e.kind,
+        SUM(e.amount) AS amount,
+        (ARRAY_AGG(e."journalId"::text ORDER BY e."createdAt" DESC)
+          FILTER (WHERE e."journalType" <> 'REVERSAL'))[1] AS "lastJournalId"
+      FROM "LedgerEntry" e
+      WHERE e."sourceType" = ${sourceType}
+        AND e."sourceId" = ${sourceId}
+        AND e.account = 'ENTITY'
+      GROUP BY e."bancaId", e.dimension, e."entityId", e."businessDate", e.kind
+    `));
+  },
+
+  /**
+   * Ventas, premios y comisiones que un sorteo aporta a los estados de cuenta: mismos filtros
+   * que la sincronización (tiquetes vigentes, sin listas excluidas), sorteo con resultado.
+   * Sin filtro de banca: el sorteo ya se validó y se asienta completo (tiquetes antiguos sin banca incluidos).
+   */
+  sorteoTotals(sorteoId: string) {
+    return TenantContext.crossTenant(() => prisma.$queryRaw<SorteoLedgerRow[]>(Prisma.sql`
+      WITH tickets AS (
+        SELECT
+          t.id,
+          t."vendedorId",
+          t."ventanaId",
+          COALESCE(t."bancaId", v."bancaId") AS "bancaId",
+          COALESCE(
+            t."businessDate",
+            DATE(t."createdAt" AT TIME ZONE 'UTC' AT TIME ZONE 'America/Costa_Rica')
+          ) AS "businessDate",
+          t."totalAmount",
+          CASE
+            WHEN EXISTS (
+              SELECT 1 FROM "Jugada" j
+              WHERE j."ticketId" = t.id AND j."isWinner" = true AND j."deletedAt" IS NULL
+            ) THEN COALESCE(t."totalPayout", 0)
+            ELSE 0
+          END AS payout
+        FROM "Ticket" t
+        INNER JOIN "Sorteo" s ON s.id = t."sorteoId"
+        INNER JOIN "Ventana" v ON v.id = t."ventanaId"
+        WHERE t."sorteoId" = ${sorteoId}::uuid
+          AND t."deletedAt" IS NULL
+          AND t."isActive" = true
+          AND t.status IN ('ACTIVE', 'EVALUATED', 'PAID', 'PAGADO')
+          AND s."deletedAt" IS NULL
+          AND (s.status = 'EVALUATED' OR (s.status = 'CLOSED' AND s."winningNumber" IS NOT NULL))
+          AND NOT EXISTS (
+            SELECT 1 FROM "sorteo_lista_exclusion" sle
+            WHERE sle.sorteo_id = t."sorteoId"
+              AND sle.ventana_id = t."ventanaId"
+              AND (sle.vendedor_id IS NULL OR sle.vendedor_id = t."vendedorId")
+          )
+      )
+      SELECT
+        tk."vendedorId"::text AS "vendedorId",
+        tk."ventanaId"::text AS "ventanaId",
+        tk."bancaId"::text AS "bancaId",
+        to_char(tk."businessDate", 'YYYY-MM-DD') AS "businessDate",
+        COALESCE(SUM(tk."totalAmount"), 0) AS sales,
+        COALESCE(SUM(tk.payout), 0) AS payouts,
+        COALESCE(SUM(c.listero), 0) AS "listeroCommission",
+        COALESCE(SUM(c.vendedor), 0) AS "vendedorCommission"
+      FROM tickets tk
+      CROSS JOIN LATERAL (
+        SELECT
+          COALESCE(SUM(j."listeroCommissionAmount"), 0) AS listero,
+          COALESCE(SUM(CASE WHEN j."commissionOrigin" = 'USER' THEN j."commissionAmount" ELSE 0 END), 0) AS vendedor
+        FROM "Jugada" j
+        WHERE j."ticketId" = tk.id AND j."deletedAt" IS NULL AND j."isActive" = true AND j."isExcluded" = false
+      ) c
+      GROUP BY tk."vendedorId", tk."ventanaId", tk."bancaId", tk."businessDate"
+    `));
+  },
+
+  /** Sumas por categoría del libro de una entidad en un día */
+  async kindSums(dimension: LedgerDimension, entityId: string, dateStr: string) {
+    const rows = await prisma.$queryRaw<KindSumRow[]>(Prisma.sql`
+      SELECT kind, SUM(amount) AS amount
+      FROM "LedgerEntry"
+      WHERE dimension = ${dimension}
+        AND "entityId" = ${entityId}::uuid
+        AND "businessDate" = ${dateStr}::date
+        AND account = 'ENTITY'
+        ${rawBancaFilter(Prisma.sql`"bancaId"`)}
+      GROUP BY kind
+    `);
+    const sums: Partial<Record<LedgerKind, number>> = {};
+    for (const row of rows) sums[row.kind] = row.amount;
+    return sums;
+  },
+
+  /** Saldo de la entidad al cierre de `dateStr` (sin fecha: todo lo asentado) */
+  async balanceAsOf(dimension: LedgerDimension, entityId: string, dateStr?: string, client: LedgerClient = prisma) {
+    const rows = await client.$queryRaw<{ balance: number | null }[]>(Prisma.sql`
+      SELECT SUM(amount) AS balance
+      FROM "LedgerEntry"
+      WHERE dimension = ${dimension}
+        AND "entityId" = ${entityId}::uuid
+        AND account = 'ENTITY'
+        ${rawBancaFilter(Prisma.sql`"bancaId"`)}
+        ${dateStr ? Prisma.sql`AND "businessDate" <= ${dateStr}::date` : Prisma.empty}
+    `);
+    return rows[0]?.balance ?? 0;
+  },
+
+  /** Saldo al cierre de cada fecha pedida (YYYY-MM-DD → saldo) */
+  async closingBalances(dimension: LedgerDimension, entityId: string, dateStrs: string[]) {
+    if (dateStrs.length === 0) return new Map<string, number>();
+    const rows = await prisma.$queryRaw<ClosingRow[]>(Prisma.sql`
+      SELECT
+        to_char(d.day, 'YYYY-MM-DD') AS date,
+        COALESCE((
+          SELECT SUM(e.amount)
+          FROM "LedgerEntry" e
+          WHERE e.dimension = ${dimension}
+            AND e."entityId" = ${entityId}::uuid
+            AND e.account = 'ENTITY'
+            AND e."businessDate" <= d.day
+            ${rawBancaFilter(Prisma.sql`e."bancaId"`)}
+        ), 0) AS balance
+      FROM unnest(${dateStrs}::date[]) AS d(day)
+    `);
+    return new Map(rows.map((r) => [r.date, r.balance]));
+  },
+
+  /** Deja un asiento fallido para reintento; un fallo nuevo del mismo origen reemplaza la solicitud */
+  savePending(data: { sourceType: LedgerSourceType; sourceId: string; request: Prisma.InputJsonValue; error: string; nextAttemptAt: Date }) {
+    const { sourceType, sourceId, request, error, nextAttemptAt } = data;
+    return prisma.ledgerPendingPost.upsert({
+      where: { sourceType_sourceId: { sourceType, sourceId } },
+      create: { sourceType, sourceId, request, lastError: error, nextAttemptAt },
+      update: { request, lastError: error, nextAttemptAt, attempts: { increment: 1 } },
+    });
+  },
+
+  findDuePending(now: Date, limit: number) {
+    return prisma.ledgerPendingPost.findMany({
+      where: { nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: "asc" },
+      take: limit,
+    });
+  },
+
+  /** Borra el pendiente solo si nadie lo reemplazó mientras se reintentaba */
+  async resolvePending(id: string, updatedAt: Date) {
+    const { count } = await prisma.ledgerPendingPost.deleteMany({ where: { id, updatedAt } });
+    return count === 1;
+  },
+
+  reschedulePending(id: string, data: { error: string; nextAttemptAt: Date }) {
+    return prisma.ledgerPendingPost.update({
+      where: { id },
+      data: { lastError: data.error, nextAttemptAt: data.nextAttemptAt, attempts: { increment: 1 } },
+    });
+  },
+};
+
+export default LedgerRepository;
@@ -0,0 +1,105 @@
+import prisma from "../core/prismaClient";
+import logger from "../core/logger";
+import { Prisma } from "../generated/prisma/client";
+
+const ticketSummary = {
+  select: {
+    id: true,
+    ticketNumber: true,
+    totalAmount: true,
+    totalPayout: true,
+    totalPaid: true,
+    remainingAmount: true,
+    status: true,
+    vendedor: { select: { id: true, name: true } },
+    sorteo: { select: { id: true, name: true, scheduledAt: true, status: true } },
+  },
+} satisfies Prisma.TicketDefaultArgs;
+
+const include = {
+  ticket: ticketSummary,
+  ventana: { select: { id: true, name: true } },
+} satisfies Prisma.PayoutRequestInclude;
+
+const PayoutRequestRepository = {
+  async create(data: Prisma.PayoutRequestUncheckedCreateInput) {
+    const request = await prisma.payoutRequest.create({ data });
+    logger.info({
+      layer: "repository",
+      action: "PAYOUT_REQUEST_CREATE_DB",
+      payload: { requestId: request.id, ticketId: request.ticketId, amountPaid: request.amountPaid },
+    });
+    return request;
+  },
+
+  findById(id: string) {
+    return prisma.payoutRequest.findUnique({ where: { id }, include });
+  },
+
+  findPendingForTicket(ticketId: string) {
+    return prisma.payoutRequest.findFirst({ where: { ticketId, status: "PENDING" } });
+  },
+
+  async list(where: Prisma.PayoutRequestWhereInput, page = 1, pageSize = 20) {
+    const skip = (page - 1) * pageSize;
+    const [data, total] = await Promise.all([
+      prisma.payoutRequest.findMany({ where, skip, take: pageSize, orderBy: { createdAt: "desc" }, include }),
+      prisma.payoutRequest.count({ where }),
+    ]);
+    return { data, total };
+  },
+
+  /**
+   * Cambia el estado solo si sigue en `from` (dos aprobadores simultáneos no pagan dos veces).
+   */
+  async transition(id: string, from: string, data: Prisma.PayoutRequestUncheckedUpdateManyInput) {
+    const { count } = await prisma.payoutRequest.updateMany({ where: { id, status: from }, data });
+    return count === 1;
+  },
+
+  /** Tiquete escaneado con lo necesario para validar la política de pago */
+  findTicketByNumber(ticketNumber: string) {
+    return prisma.ticket.findUnique({
+      where: { ticketNumber },
+      select: {
+        id: true,
+        ticketNumber: true,
+        bancaId: true,
+        ventanaId: true,
+        loteriaId: true,
+        status: true,
+        isWinner: true,
+        deletedAt: true,
+        claimDeadline: true,
+        expiredAt: true,
+        forfeitedAmount: true,
+        totalAmount: true,
+        totalPayout: true,
+        totalPaid: true,
+        remainingAmount: true,
+        createdAt: true,
+        clienteNombre: true,
+        ventana: { select: { id: true, name: true, bancaId: true } },
+        sorteo: { select: { id: true, name: true, scheduledAt: true, status: true, winningNumber: true } },
+        jugadas: {
+          where: { deletedAt: null, isWinner: true },
+          select: { type: true, number: true, amount: true, payout: true },
+        },
+      },
+    });
+  },
+
+  findCashier(userId: string) {
+    return prisma.user.findUnique({ where: { id: userId }, select: { id: true, role: true, ventanaId: true } });
+  },
+
+  findBancaPolicy(bancaId: string) {
+    return prisma.banca.findUnique({ where: { id: bancaId }, select: { id: true, payoutPolicyJson: true } });
+  },
+
+  updateBancaPolicy(bancaId: string, policy: Prisma.InputJsonValue | typeof Prisma.DbNull) {
+    return prisma.banca.update({ where: { id: bancaId }, data: { payoutPolicyJson: policy } });
+  },
+};
+
+export default PayoutRequestRepository;
@@ -0,0 +1,98 @@
+import prisma from "../core/prismaClient";
+import logger from "../core/logger";
+import { Prisma } from "../generated/prisma/client";
+import { TenantContext } from "../core/tenantContext";
+
+/** Banca y fecha de negocio de los tiquetes vigentes de un sorteo */
+type SorteoBookRow = { bancaId: string; businessDate: string };
+
+const toDate = (dateStr: string) => new Date(`${dateStr}T00:00:00.000Z`);
+
+const PeriodLockRepository = {
+  async create(data: Prisma.PeriodLockUncheckedCreateInput) {
+    const lock = await prisma.periodLock.create({ data });
+    logger.info({
+      layer: "repository",
+      action: "PERIOD_LOCK_CREATE_DB",
+      payload: { lockId: lock.id, bancaId: lock.bancaId, periodType: lock.periodType, startDate: lock.startDate },
+    });
+    return lock;
+  },
+
+  findById(id: string) {
+    return prisma.periodLock.findUnique({ where: { id } });
+  },
+
+  findByPeriod(bancaId: string, periodType: string, startDate: string) {
+    return prisma.periodLock.findUnique({
+      where: { bancaId_periodType_startDate: { bancaId, periodType, startDate: toDate(startDate) } },
+    });
+  },
+
+  async list(where: Prisma.PeriodLockWhereInput, page = 1, pageSize = 50) {
+    const skip = (page - 1) * pageSize;
+    const [data, total] = await Promise.all([
+      prisma.periodLock.findMany({ where, skip, take: pageSize, orderBy: [{ startDate: "desc" }, { periodType: "asc" }] }),
+      prisma.periodLock.count({ where }),
+    ]);
+    return { data, total };
+  },
+
+  /** Bloqueos vigentes de la banca que cubren alguna de las fechas (YYYY-MM-DD) */
+  findLockedCovering(bancaId: string, dateStrs: string[]) {
+    return prisma.periodLock.findMany({
+      where: {
+        bancaId,
+        status: "LOCKED",
+        OR: dateStrs.map((dateStr) => ({ startDate: { lte: toDate(dateStr) }, endDate: { gte: toDate(dateStr) } })),
+      },
+      orderBy: { startDate: "asc" },
+    });
+  },
+
+  /** Banca de la ventana (o de la ventana del vendedor) para registros que no guardan la suya */
+  async findOwnerBancaId(ventanaId?: string | null, vendedorId?: string | null) {
+    if (!ventanaId && vendedorId) {
+      const vendedor = await prisma.user.findUnique({ where: { id: vendedorId }, select: { ventanaId: true } });
+      ventanaId = vendedor?.ventanaId ?? null;
+    }
+    if (!ventanaId) return null;
+    const ventana = await prisma.ventana.findUnique({ where: { id: ventanaId }, select: { bancaId: true } });
+    return ventana?.bancaId ?? null;
+  },
+
+  /** Cambia el estado solo si sigue en `from` */
+  async transition(id: string, from: string, data: Prisma.PeriodLockUncheckedUpdateManyInput) {
+    const { count } = await prisma.periodLock.updateMany({ where: { id, status: from }, data });
+    return count === 1;
+  },
+
+  /**
+   * Banca y fecha de negocio de cada grupo de tiquetes que un sorteo aporta a los estados de cuenta.
+   * Sin filtro de banca: el cierre de cualquier banca afectada debe bloquear la operación.
+   */
+  sorteoBooks(sorteoId: string) {
+    return TenantContext.crossTenant(() => prisma.$queryRaw<SorteoBookRow[]>(Prisma.sql`
+      SELECT DISTINCT
+        COALESCE(t."bancaId", v."bancaId")::text AS "bancaId",
+        to_char(
+          COALESCE(t."businessDate", DATE(t."createdAt" AT TIME ZONE 'UTC' AT TIME ZONE 'America/Costa_Rica')),
+          'YYYY-MM-DD'
+        ) AS "businessDate"
+      FROM "Ticket" t
+      INNER JOIN "Ventana" v ON v.id = t."ventanaId"
+      WHERE t."sorteoId" = ${sorteoId}::uuid
+        AND t."deletedAt" IS NULL
+    `));
+  },
+
+  /** Cierres mensuales ya guardados de la banca (sus ventanas y vendedores incluidos) */
+  findMonthlyClosings(bancaId: string, closingMonths: string[]) {
+    return prisma.monthlyClosingBalance.findMany({
+      where: { bancaId, closingMonth: { in: closingMonths } },
+      select: { closingMonth: true, dimension: true, ventanaId: true, vendedorId: true, bancaId: true },
+    });
+  },
+};
+
+export default PeriodLockRepository;
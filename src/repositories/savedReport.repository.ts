@@ -0,0 +1,107 @@
+import prisma from "../core/prismaClient";
+import logger from "../core/logger";
+import { Prisma } from "../generated/prisma/client";
+
+const SavedReportRepository = {
+  async create(data: Prisma.SavedReportUncheckedCreateInput) {
+    const report = await prisma.savedReport.create({ data });
+    logger.info({
+      layer: "repository",
+      action: "SAVED_REPORT_CREATE_DB",
+      payload: { reportId: report.id, bancaId: report.bancaId },
+    });
+    return report;
+  },
+
+  findById(id: string) {
+    return prisma.savedReport.findUnique({ where: { id } });
+  },
+
+  async list(where: Prisma.SavedReportWhereInput, page = 1, pageSize = 20) {
+    const skip = (page - 1) * pageSize;
+    const [data, total] = await Promise.all([
+      prisma.savedReport.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { createdAt: "desc" },
+        include: { schedules: { orderBy: { createdAt: "asc" } } },
+      }),
+      prisma.savedReport.count({ where }),
+    ]);
+    return { data, total };
+  },
+
+  update(id: string, data: Prisma.SavedReportUncheckedUpdateInput) {
+    return prisma.savedReport.update({ where: { id }, data });
+  },
+
+  delete(id: string) {
+    return prisma.savedReport.delete({ where: { id } });
+  },
+
+  // ─── Programaciones ─────────────────────────────────────────────
+
+  createSchedule(data: Prisma.ReportScheduleUncheckedCreateInput) {
+    return prisma.reportSchedule.create({ data });
+  },
+
+  findSchedule(reportId: string, scheduleId: string) {
+    return prisma.reportSchedule.findFirst({ where: { id: scheduleId, reportId } });
+  },
+
+  listSchedules(reportId: string) {
+    return prisma.reportSchedule.findMany({ where: { reportId }, orderBy: { createdAt: "asc" } });
+  },
+
+  updateSchedule(id: string, data: Prisma.ReportScheduleUncheckedUpdateInput) {
+    return prisma.reportSchedule.update({ where: { id }, data });
+  },
+
+  deleteSchedule(id: string) {
+    return prisma.reportSchedule.delete({ where: { id } });
+  },
+
+  /** Programaciones vencidas de reportes activos */
+  findDueSchedules(now: Date, limit = 50) {
+    return prisma.reportSchedule.findMany({
+      where: { isActive: true, nextRunAt: { lte: now }, report: { isActive: true } },
+      include: { report: true },
+      orderBy: { nextRunAt: "asc" },
+      take: limit,
+    });
+  },
+
+  /**
+   * Reclama una programación moviendo nextRunAt de forma condicional.
+   * Si otra instancia ya la tomó, count = 0 y no se ejecuta dos veces.
+   */
+  async claimSchedule(id: string, expectedNextRunAt: Date, nextRunAt: Date, now: Date) {
+    const { count } = await prisma.reportSchedule.updateMany({
+      where: { id, nextRunAt: expectedNextRunAt },
+      data: { nextRunAt, lastRunAt: now },
+    });
+    return count === 1;
+  },
+
+  // ─── Historial ──────────────────────────────────────────────────
+
+  createRun(data: Prisma.ReportRunUncheckedCreateInput) {
+    return prisma.reportRun.create({ data });
+  },
+
+  finishRun(id: string, data: Prisma.ReportRunUncheckedUpdateInput) {
+    return prisma.reportRun.update({ where: { id }, data });
+  },
+
+  async listRuns(where: Prisma.ReportRunWhereInput, page = 1, pageSize = 20) {
+    const skip = (page - 1) * pageSize;
+    const [data, total] = await Promise.all([
+      prisma.reportRun.findMany({ where, skip, take: pageSize, orderBy: { startedAt: "desc" } }),
+      prisma.reportRun.count({ where }),
+    ]);
+    return { data, total };
+  },
+};
+
+export default SavedReportRepository;
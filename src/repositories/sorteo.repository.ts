@@ -1,10 +1,11 @@
 // src/repositories/sorteo.repository.ts
-import prisma from "../core/prismaClient";
+import prisma, { AppTransactionClient } from "../core/prismaClient";
 import logger from "../core/logger";
 import { AppError } from "../core/errors";
 import { Prisma, SorteoStatus, TicketStatus } from "../generated/prisma/client";
 import { CreateSorteoDTO, UpdateSorteoDTO } from "../api/v1/dto/sorteo.dto";
 import { formatIsoLocal, parseCostaRicaDateTime } from "../utils/datetime";
+import { rawBancaCondition, rawBancaFilter } from "../core/tenantIsolation";
 
 // ️ helper para validar y obtener X del multiplier extra
 async function resolveExtraMultiplierX(
@@ -116,6 +117,9 @@ const SorteoRepository = {
     } else if (role === "VENTANA" && ventanaId) {
       rbacCountsConditions.push(Prisma.sql`t."ventanaId" = CAST(${ventanaId} AS uuid)`);
     }
+    // Sorteos globales: solo cuentan los tiquetes de la banca del contexto
+    const tenantCondition = rawBancaCondition(Prisma.sql`t."bancaId"`);
+    if (tenantCondition) rbacCountsConditions.push(tenantCondition);
 
     const rbacCountsWhere = Prisma.join(rbacCountsConditions, " AND ");
 
@@ -464,6 +468,50 @@ const SorteoRepository = {
     })
   },
 
+  /**
+   * Exposición de premios por número (solo lectura). Usa el mismo universo que
+   * fn_evaluate_sorteo: tickets no cancelados/excluidos y jugadas activas no excluidas
+   * por listas (SorteoListaExclusion marca isExcluded/isActive en la jugada).
+   * - numeroPayout: lo que pagaría NUMERO si sale el número (amount * finalMultiplierX)
+   * - reventadoAmount: apostado a REVENTADO en el número (se multiplica por el extra elegido)
+   * Con `number` se desglosa por ventana y vendedor; sin él agrupa solo por número.
+   * Con `bancaId` solo cuenta los tickets de esa banca (sorteos globales); dentro de un contexto
+   * de banca se acota siempre a la banca del contexto.
+   */
+  async aggregatePayoutExposure(id: string, number?: string, bancaId?: string) {
+    const breakdown = number !== undefined;
+    return prisma.$queryRaw<Array<{
+      number: string;
+      ventanaId: string | null;
+      vendedorId: string | null;
+      amount: number;
+      numeroPayout: number;
+      reventadoAmount: number;
+      tickets: number;
+    }>>`
+      SELECT
+        j."number" as "number",
+        ${breakdown ? Prisma.sql`t."ventanaId"` : Prisma.sql`NULL::uuid`} as "ventanaId",
+        ${breakdown ? Prisma.sql`t."vendedorId"` : Prisma.sql`NULL::uuid`} as "vendedorId",
+        COALESCE(SUM(j."amount"), 0)::float as "amount",
+        COALESCE(SUM(CASE WHEN j."type" = 'NUMERO' THEN j."amount" * j."finalMultiplierX" ELSE 0 END), 0)::float as "numeroPayout",
+        COALESCE(SUM(CASE WHEN j."type" = 'REVENTADO' THEN j."amount" ELSE 0 END), 0)::float as "reventadoAmount",
+        COUNT(DISTINCT t."id")::int as "tickets"
+      FROM "Jugada" j
+      JOIN "Ticket" t ON t."id" = j."ticketId"
+      WHERE t."sorteoId" = CAST(${id} AS uuid)
+        AND t."status" NOT IN ('CANCELLED', 'EXCLUDED')
+        AND t."deletedAt" IS NULL
+        AND j."deletedAt" IS NULL
+        AND j."isActive" = true
+        AND j."isExcluded" = false
+        ${breakdown ? Prisma.sql`AND j."number" = ${number}` : Prisma.empty}
+        ${bancaId ? Prisma.sql`AND t."bancaId" = CAST(${bancaId} AS uuid)` : Prisma.empty}
+        ${rawBancaFilter(Prisma.sql`t."bancaId"`)}
+      GROUP BY j."number"${breakdown ? Prisma.sql`, t."ventanaId", t."vendedorId"` : Prisma.empty}
+    `;
+  },
+
   async list(params: {
     loteriaId?: string;
     page: number;
@@ -608,6 +656,9 @@ const SorteoRepository = {
     } else if (role === "VENTANA" && ventanaId) {
       rbacCountsConditions.push(Prisma.sql`t."ventanaId" = CAST(${ventanaId} AS uuid)`);
     }
+    // Sorteos globales: solo cuentan los tiquetes de la banca del contexto
+    const tenantCondition = rawBancaCondition(Prisma.sql`t."bancaId"`);
+    if (tenantCondition) rbacCountsConditions.push(tenantCondition);
 
     const rbacCountsWhere = Prisma.join(rbacCountsConditions, " AND ");
 
@@ -924,7 +975,7 @@ const SorteoRepository = {
    * Usado cuando se inactiva una lotería mediante update(isActive=false)
    * Puede usar un cliente de transacción opcional para operaciones atómicas
    */
-  async setInactiveSorteosByLoteria(loteriaId: string, tx?: Prisma.TransactionClient): Promise<{ count: number; sorteosIds: string[] }> {
+  async setInactiveSorteosByLoteria(loteriaId: string, tx?: AppTransactionClient): Promise<{ count: number; sorteosIds: string[] }> {
     const client = tx || prisma;
 
     // Buscar sorteos activos de esta lotería (que no estén soft-deleted)
@@ -977,7 +1028,7 @@ const SorteoRepository = {
    * Solo afecta sorteos que actualmente están activos (deletedAt IS NULL)
    * Puede usar un cliente de transacción opcional para operaciones atómicas
    */
-  async inactivateSorteosByLoteria(loteriaId: string, userId: string, tx?: Prisma.TransactionClient): Promise<{ count: number; sorteosIds: string[] }> {
+  async inactivateSorteosByLoteria(loteriaId: string, userId: string, tx?: AppTransactionClient): Promise<{ count: number; sorteosIds: string[] }> {
     const client = tx || prisma;
     const now = new Date();
 
@@ -1034,7 +1085,7 @@ const SorteoRepository = {
    * Solo restaura sorteos que tienen deletedByCascade=true y deletedByCascadeFrom='loteria' y deletedByCascadeId=loteriaId
    * Puede usar un cliente de transacción opcional para operaciones atómicas
    */
-  async setActiveSorteosByLoteria(loteriaId: string, tx?: Prisma.TransactionClient): Promise<{ count: number; sorteosIds: string[] }> {
+  async setActiveSorteosByLoteria(loteriaId: string, tx?: AppTransactionClient): Promise<{ count: number; sorteosIds: string[] }> {
     const client = tx || prisma;
 
     // Buscar sorteos inactivados por cascada desde esta lotería (que no estén soft-deleted)
@@ -1091,7 +1142,7 @@ const SorteoRepository = {
    * Solo restaura sorteos que tienen deletedByCascade=true y deletedByCascadeFrom='loteria' y deletedByCascadeId=loteriaId
    * Puede usar un cliente de transacción opcional para operaciones atómicas
    */
-  async restoreSorteosByLoteria(loteriaId: string, tx?: Prisma.TransactionClient): Promise<{ count: number; sorteosIds: string[] }> {
+  async restoreSorteosByLoteria(loteriaId: string, tx?: AppTransactionClient): Promise<{ count: number; sorteosIds: string[] }> {
     const client = tx || prisma;
 
     // Buscar sorteos inactivados por cascada desde esta lotería (soft-deleted)
@@ -0,0 +1,87 @@
+import prisma from "../core/prismaClient";
+import logger from "../core/logger";
+import { Prisma } from "../generated/prisma/client";
+
+const sorteoSummary = {
+  select: {
+    id: true,
+    name: true,
+    scheduledAt: true,
+    status: true,
+    winningNumber: true,
+    bancaId: true,
+    loteria: { select: { id: true, name: true } },
+  },
+} satisfies Prisma.SorteoDefaultArgs;
+
+const SorteoApprovalRepository = {
+  async create(data: Prisma.SorteoApprovalUncheckedCreateInput) {
+    const approval = await prisma.sorteoApproval.create({ data });
+    logger.info({
+      layer: "repository",
+      action: "SORTEO_APPROVAL_CREATE_DB",
+      payload: { approvalId: approval.id, sorteoId: approval.sorteoId, action: approval.action },
+    });
+    return approval;
+  },
+
+  findById(id: string) {
+    return prisma.sorteoApproval.findUnique({ where: { id }, include: { sorteo: sorteoSummary } });
+  },
+
+  /** Política de doble control de la banca dueña del sorteo */
+  async isDualControlEnabled(bancaId: string) {
+    const banca = await prisma.banca.findUnique({ where: { id: bancaId }, select: { evaluationDualControl: true } });
+    return !!banca?.evaluationDualControl;
+  },
+
+  findPendingForSorteo(sorteoId: string) {
+    return prisma.sorteoApproval.findFirst({ where: { sorteoId, status: "PENDING" } });
+  },
+
+  async list(where: Prisma.SorteoApprovalWhereInput, page = 1, pageSize = 20) {
+    const skip = (page - 1) * pageSize;
+    const [data, total] = await Promise.all([
+      prisma.sorteoApproval.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { proposedAt: "desc" },
+        include: { sorteo: sorteoSummary },
+      }),
+      prisma.sorteoApproval.count({ where }),
+    ]);
+    return { data, total };
+  },
+
+  /** Marca EXPIRED las solicitudes pendientes vencidas */
+  async expireStale(now: Date) {
+    const { count } = await prisma.sorteoApproval.updateMany({
+      where: { status: "PENDING", expiresAt: { lte: now } },
+      data: { status: "EXPIRED" },
+    });
+    return count;
+  },
+
+  /**
+   * Cambia el estado solo si sigue en `from` (dos aprobadores simultáneos no ejecutan dos veces).
+   */
+  async transition(id: string, from: string, data: Prisma.SorteoApprovalUncheckedUpdateManyInput) {
+    const { count } = await prisma.sorteoApproval.updateMany({ where: { id, status: from }, data });
+    return count === 1;
+  },
+
+  /**
+   * Marca como ejecutada una solicitud APPROVED de ese sorteo y acción.
+   * Devuelve false si no existe, no coincide o ya se usó (una aprobación autoriza una sola ejecución).
+   */
+  async consume(id: string, sorteoId: string, action: string) {
+    const { count } = await prisma.sorteoApproval.updateMany({
+      where: { id, sorteoId, action, status: "APPROVED", executedAt: null },
+      data: { executedAt: new Date() },
+    });
+    return count === 1;
+  },
+};
+
+export default SorteoApprovalRepository;
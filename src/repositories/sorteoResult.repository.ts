@@ -0,0 +1,87 @@
+import prisma from "../core/prismaClient";
+import logger from "../core/logger";
+import { Prisma, SorteoStatus } from "../generated/prisma/client";
+import { SorteoResultStatus } from "../api/v1/dto/sorteoResult.dto";
+
+const sorteoSummary = {
+  select: {
+    id: true,
+    name: true,
+    scheduledAt: true,
+    status: true,
+    digits: true,
+    bancaId: true,
+    loteria: { select: { id: true, name: true, rulesJson: true } },
+    banca: { select: { resultsDualConfirmation: true, evaluationDualControl: true } },
+  },
+} satisfies Prisma.SorteoDefaultArgs;
+
+const SorteoResultRepository = {
+  async create(data: Prisma.SorteoResultUncheckedCreateInput) {
+    const result = await prisma.sorteoResult.create({ data });
+    logger.info({
+      layer: "repository",
+      action: "SORTEO_RESULT_CREATE_DB",
+      payload: { resultId: result.id, sorteoId: result.sorteoId, source: result.source, status: result.status },
+    });
+    return result;
+  },
+
+  findById(id: string) {
+    return prisma.sorteoResult.findUnique({ where: { id }, include: { sorteo: sorteoSummary } });
+  },
+
+  /** Resultado que sigue esperando confirmación para el sorteo (a lo sumo uno) */
+  findOpenForSorteo(sorteoId: string, openStatuses: SorteoResultStatus[]) {
+    return prisma.sorteoResult.findFirst({ where: { sorteoId, status: { in: openStatuses } } });
+  },
+
+  async list(where: Prisma.SorteoResultWhereInput, page = 1, pageSize = 20) {
+    const skip = (page - 1) * pageSize;
+    const [data, total] = await Promise.all([
+      prisma.sorteoResult.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { createdAt: "desc" },
+        include: { sorteo: sorteoSummary },
+      }),
+      prisma.sorteoResult.count({ where }),
+    ]);
+    return { data, total };
+  },
+
+  /**
+   * Sorteos abiertos cuya hora ya pasó (dentro de la ventana de búsqueda) y que
+   * todavía no tienen ningún resultado registrado.
+   */
+  findAwaitingResults(from: Date, to: Date) {
+    return prisma.sorteo.findMany({
+      where: {
+        status: SorteoStatus.OPEN,
+        isActive: true,
+        deletedAt: null,
+        scheduledAt: { gte: from, lte: to },
+        results: { none: {} },
+      },
+      orderBy: { scheduledAt: "asc" },
+      ...sorteoSummary,
+    });
+  },
+
+  /**
+   * Cambia el estado solo si sigue en uno de `from` (evita dobles confirmaciones concurrentes).
+   * Devuelve false si otro proceso ya lo movió.
+   */
+  async transition(id: string, from: SorteoResultStatus[], data: Prisma.SorteoResultUncheckedUpdateManyInput) {
+    const { count } = await prisma.sorteoResult.updateMany({
+      where: { id, status: { in: from } },
+      data,
+    });
+    return count === 1;
+  },
+};
+
+export type SorteoAwaitingResult = Awaited<ReturnType<typeof SorteoResultRepository.findAwaitingResults>>[number];
+
+export default SorteoResultRepository;
@@ -0,0 +1,233 @@
+import prisma from "../core/prismaClient";
+import logger from "../core/logger";
+import { Prisma } from "../generated/prisma/client";
+import { resolvedTicketBancaSql, ticketTenantJoinsSql } from "../core/tenantResolution";
+import { CierreRollupService } from "../api/v1/services/cierre.rollup.service";
+
+/** Vendedor, ventana y banca de un día con tiquetes que deberían tener estado de cuenta */
+type SourceBookRow = { businessDate: string; vendedorId: string; ventanaId: string; bancaId: string | null };
+
+/** Fila de rollup ya agregada por día, banca y entidad (sorteo o banca) */
+type RollupSumRow = {
+  businessDate: string;
+  bancaId: string;
+  entityId: string;
+  totalAmount: number;
+  payout: number;
+  commission: number;
+  jugadasCount: number;
+};
+
+const toDate = (dateStr: string) => new Date(`${dateStr}T00:00:00.000Z`);
+
+const bancaFilterSql = (column: Prisma.Sql, bancaId?: string | null) =>
+  bancaId ? Prisma.sql`AND ${column} = ${bancaId}::uuid` : Prisma.empty;
+
+const StatementAuditRepository = {
+  async createRun(data: Prisma.StatementAuditRunUncheckedCreateInput) {
+    const run = await prisma.statementAuditRun.create({ data });
+    logger.info({
+      layer: "repository",
+      action: "STATEMENT_AUDIT_RUN_CREATE_DB",
+      payload: { runId: run.id, trigger: run.trigger, bancaId: run.bancaId, fromDate: run.fromDate, toDate: run.toDate },
+    });
+    return run;
+  },
+
+  finishRun(id: string, data: Prisma.StatementAuditRunUncheckedUpdateInput) {
+    return prisma.statementAuditRun.update({ where: { id }, data: { ...data, finishedAt: new Date() } });
+  },
+
+  /** Última pasada terminada que cubre la banca (las globales también) */
+  lastRun(bancaId?: string | null) {
+    return prisma.statementAuditRun.findFirst({
+      where: {
+        status: { not: "RUNNING" },
+        ...(bancaId ? { OR: [{ bancaId }, { bancaId: null }] } : {}),
+      },
+      orderBy: { startedAt: "desc" },
+    });
+  },
+
+  async listFindings(where: Prisma.StatementAuditFindingWhereInput, page = 1, pageSize = 50) {
+    const skip = (page - 1) * pageSize;
+    const [data, total] = await Promise.all([
+      prisma.statementAuditFinding.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: [{ businessDate: "desc" }, { source: "asc" }, { lastSeenAt: "desc" }],
+      }),
+      prisma.statementAuditFinding.count({ where }),
+    ]);
+    return { data, total };
+  },
+
+  findOpen(source: string, dimension: string, entityId: string, businessDate: string) {
+    return prisma.statementAuditFinding.findFirst({
+      where: { source, dimension, entityId, businessDate: toDate(businessDate), status: "OPEN" },
+    });
+  },
+
+  createFinding(data: Prisma.StatementAuditFindingUncheckedCreateInput) {
+    return prisma.statementAuditFinding.create({ data });
+  },
+
+  updateFinding(id: string, data: Prisma.StatementAuditFindingUncheckedUpdateInput) {
+    return prisma.statementAuditFinding.update({ where: { id }, data });
+  },
+
+  /** Cierra las diferencias abiertas del rango que la pasada `runId` ya no vio */
+  async resolveUnseen(runId: string, fromDate: string, toDateStr: string, bancaId?: string | null) {
+    const { count } = await prisma.statementAuditFinding.updateMany({
+      where: {
+        status: "OPEN",
+        runId: { not: runId },
+        businessDate: { gte: toDate(fromDate), lte: toDate(toDateStr) },
+        ...(bancaId ? { bancaId } : {}),
+      },
+      data: { status: "RESOLVED", resolvedAt: new Date() },
+    });
+    return count;
+  },
+
+  statementsInRange(fromDate: string, toDateStr: string, bancaId?: string | null) {
+    return prisma.accountStatement.findMany({
+      where: {
+        date: { gte: toDate(fromDate), lte: toDate(toDateStr) },
+        ...(bancaId ? { bancaId } : {}),
+      },
+      select: {
+        id: true,
+        date: true,
+        bancaId: true,
+        ventanaId: true,
+        vendedorId: true,
+        totalSales: true,
+        totalPayouts: true,
+        listeroCommission: true,
+        vendedorCommission: true,
+        ticketCount: true,
+        totalPaid: true,
+        totalCollected: true,
+      },
+    });
+  },
+
+  /** Settings de los vendedores (balanceResetAt) */
+  vendedorSettings(vendedorIds: string[]) {
+    return prisma.user.findMany({ where: { id: { in: vendedorIds } }, select: { id: true, settings: true } });
+  },
+
+  /** Días con tiquetes de sorteos evaluados por vendedor (con su ventana y banca) */
+  sourceBooks(fromDate: string, toDateStr: string, bancaId?: string | null) {
+    return prisma.$queryRaw<SourceBookRow[]>(Prisma.sql`
+      SELECT DISTINCT
+        to_char(t."businessDate", 'YYYY-MM-DD') AS "businessDate",
+        t."vendedorId"::text AS "vendedorId",
+        t."ventanaId"::text AS "ventanaId",
+        v."bancaId"::text AS "bancaId"
+      FROM "Ticket" t
+      INNER JOIN "Ventana" v ON v.id = t."ventanaId"
+      INNER JOIN "Sorteo" s ON s.id = t."sorteoId"
+      WHERE t."businessDate" >= ${fromDate}::date
+        AND t."businessDate" <= ${toDateStr}::date
+        AND t."deletedAt" IS NULL
+        AND t."isActive" = true
+        AND t.status IN ('EVALUATED', 'PAID', 'PAGADO')
+        AND s.status = 'EVALUATED'
+        AND s."deletedAt" IS NULL
+        ${bancaFilterSql(Prisma.sql`v."bancaId"`, bancaId)}
+    `);
+  },
+
+  /** ResumenCierreDiario guardado, sumado por día y banca */
+  resumenStored(fromDate: string, toDateStr: string, bancaId?: string | null) {
+    return prisma.$queryRaw<RollupSumRow[]>(Prisma.sql`
+      SELECT
+        to_char(r."businessDate", 'YYYY-MM-DD') AS "businessDate",
+        r."bancaId"::text AS "bancaId",
+        r."bancaId"::text AS "entityId",
+        COALESCE(SUM(r."totalVendida"), 0)::double precision AS "totalAmount",
+        COALESCE(SUM(r.ganado), 0)::double precision AS payout,
+        COALESCE(SUM(r."comisionTotal"), 0)::double precision AS commission,
+        COALESCE(SUM(r."jugadasCount"), 0)::integer AS "jugadasCount"
+      FROM "ResumenCierreDiario" r
+      WHERE r."businessDate" >= ${fromDate}::date
+        AND r."businessDate" <= ${toDateStr}::date
+        AND r."bancaId" IS NOT NULL
+        ${bancaFilterSql(Prisma.sql`r."bancaId"`, bancaId)}
+      GROUP BY r."businessDate", r."bancaId"
+    `);
+  },
+
+  /** Lo que ResumenCierreDiario debería tener, con el mismo CTE del rollup */
+  resumenSource(fromDate: string, toDateStr: string, bancaId?: string | null) {
+    return prisma.$queryRaw<RollupSumRow[]>(Prisma.sql`
+      ${CierreRollupService.sourceSql(fromDate, toDateStr)}
+      SELECT
+        to_char("businessDate", 'YYYY-MM-DD') AS "businessDate",
+        "bancaId"::text AS "bancaId",
+        "bancaId"::text AS "entityId",
+        COALESCE(SUM(amount), 0)::double precision AS "totalAmount",
+        COALESCE(SUM(COALESCE(payout, 0)), 0)::double precision AS payout,
+        COALESCE(SUM(COALESCE("listeroCommissionAmount", 0)), 0)::double precision AS commission,
+        COUNT("jugadaId")::integer AS "jugadasCount"
+      FROM calculated_jugadas
+      WHERE banda IS NOT NULL
+        AND "bancaId" IS NOT NULL
+        ${bancaFilterSql(Prisma.sql`"bancaId"`, bancaId)}
+      GROUP BY "businessDate", "bancaId"
+    `);
+  },
+
+  /** DailyNumberSales guardado de los sorteos evaluados, sumado por día, banca y sorteo */
+  dailyNumberSalesStored(fromDate: string, toDateStr: string, bancaId?: string | null) {
+    return prisma.$queryRaw<RollupSumRow[]>(Prisma.sql`
+      SELECT
+        to_char(d."businessDate", 'YYYY-MM-DD') AS "businessDate",
+        d."bancaId"::text AS "bancaId",
+        d."sorteoId"::text AS "entityId",
+        COALESCE(SUM(d."totalAmount"), 0)::double precision AS "totalAmount",
+        0::double precision AS payout,
+        0::double precision AS commission,
+        COALESCE(SUM(d."jugadasCount"), 0)::integer AS "jugadasCount"
+      FROM "DailyNumberSales" d
+      INNER JOIN "Sorteo" s ON s.id = d."sorteoId"
+      WHERE d."businessDate" >= ${fromDate}::date
+        AND d."businessDate" <= ${toDateStr}::date
+        AND s.status = 'EVALUATED'
+        ${bancaFilterSql(Prisma.sql`d."bancaId"`, bancaId)}
+      GROUP BY d."businessDate", d."bancaId", d."sorteoId"
+    `);
+  },
+
+  /** Lo que DailyNumberSales debería tener (mismos filtros que DailyNumberSalesService.aggregateSorteoSales) */
+  dailyNumberSalesSource(fromDate: string, toDateStr: string, bancaId?: string | null) {
+    return prisma.$queryRaw<RollupSumRow[]>(Prisma.sql`
+      SELECT
+        to_char(t."businessDate", 'YYYY-MM-DD') AS "businessDate",
+        ${resolvedTicketBancaSql}::text AS "bancaId",
+        t."sorteoId"::text AS "entityId",
+        COALESCE(SUM(j.amount), 0)::double precision AS "totalAmount",
+        0::double precision AS payout,
+        0::double precision AS commission,
+        COUNT(j.id)::integer AS "jugadasCount"
+      FROM "Jugada" j
+      INNER JOIN "Ticket" t ON j."ticketId" = t.id
+      ${ticketTenantJoinsSql}
+      WHERE t."businessDate" >= ${fromDate}::date
+        AND t."businessDate" <= ${toDateStr}::date
+        AND ts.status = 'EVALUATED'
+        AND t."deletedAt" IS NULL
+        AND t."isActive" = true
+        AND t.status IN ('ACTIVE', 'EVALUATED', 'PAID', 'PAGADO')
+        AND j."deletedAt" IS NULL
+        AND ${resolvedTicketBancaSql} IS NOT NULL
+        ${bancaFilterSql(resolvedTicketBancaSql, bancaId)}
+      GROUP BY t."businessDate", ${resolvedTicketBancaSql}, t."sorteoId"
+    `);
+  },
+};
+
+export default StatementAuditRepository;
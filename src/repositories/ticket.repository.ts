@@ -1,5 +1,5 @@
 import { ReportDimension } from '../types/enums/report.enum';
-import prisma from "../core/prismaClient";
+import prisma, { AppTransactionClient } from "../core/prismaClient";
 import { Prisma, TicketStatus, Role, BetType, SorteoStatus, OverrideScope } from '../generated/prisma/client';
 import { withConnectionRetry } from "../core/withConnectionRetry";
 import logger from "../core/logger";
@@ -13,8 +13,11 @@ import { getBusinessDateCRInfo, getCRDayRangeUTC, getCRLocalComponents } from ".
 import { nowCR, validateDate, formatDateCRWithTZ } from "../utils/datetime";
 import { v4 as uuidv4 } from "uuid";
 import { resolveNumbersToValidate, validateMaxTotalForNumbers, validateRulesInParallel, ScopeCache, calculateAccumulatedByNumbersAndScope, calculateAccumulatedForMultipleScopes, acquireLock, releaseLock } from "./helpers/ticket-restriction.helper";
+import { applyHotNumberPolicy, HotNumberWarning } from "./helpers/hotNumbers.helper";
 import { getRedisClient, isRedisAvailable, markRedisError } from "../core/redisClient";
 import { CacheService } from "../core/cache.service";
+import { percentOfMoney } from "../utils/decimal";
+import { WithMoney } from "../core/moneyPrecision";
 
 
 const RULES_CACHE_TTL_SECONDS = 120; // 2 minutos en Redis
@@ -72,7 +75,7 @@ export async function invalidateRestrictionRulesCache(): Promise<void> {
  * @returns Límite dinámico calculado (siempre >= 0)
  */
 export async function calculateDynamicLimit(
-  tx: Prisma.TransactionClient,
+  tx: AppTransactionClient,
   rule: {
     baseAmount?: number | null;
     salesPercentage?: number | null;
@@ -247,11 +250,11 @@ type TicketWarning = {
   multiplierId: string;
   multiplierName?: string | null;
   message: string;
-};
+} | HotNumberWarning;
 
-type RestrictionRuleWithRelations = Prisma.RestrictionRuleGetPayload<{
+type RestrictionRuleWithRelations = WithMoney<Prisma.RestrictionRuleGetPayload<{
   include: { loteria: true; multiplier: true };
-}>;
+}>>;
 
 function isSameLocalDay(a: Date, b: Date) {
   const crA = getCRLocalComponents(a);
@@ -284,7 +287,7 @@ function calculatePriorityScore(rule: RestrictionRuleWithRelations): number {
 // ────────────────────────────────────────────────────────────────────────────────
 
 async function resolveBaseMultiplierX(
-  tx: Prisma.TransactionClient,
+  tx: AppTransactionClient,
   args: {
     bancaId: string;
     loteriaId: string;
@@ -405,7 +408,7 @@ async function resolveBaseMultiplierX(
 
 // Garantiza que exista un multiplicador "Base" (para linkear en jugadas NUMERO)
 async function ensureBaseMultiplierRow(
-  tx: Prisma.TransactionClient,
+  tx: AppTransactionClient,
   loteriaId: string
 ): Promise<{ id: string; valueX: number }> {
   const existing = await tx.loteriaMultiplier.findFirst({
@@ -1225,7 +1228,7 @@ export const TicketRepository = {
               }, true);
               listeroRes = {
                 commissionPercent: resolution.percent,
-                commissionAmount: parseFloat(((j.amount * resolution.percent) / 100).toFixed(2)),
+                commissionAmount: percentOfMoney(j.amount, resolution.percent),
                 commissionOrigin: "USER",
                 commissionRuleId: resolution.ruleId ?? null,
               };
@@ -1362,6 +1365,8 @@ export const TicketRepository = {
       createdBy?: string;
       createdByRole?: Role;
       idempotencyKey?: string;
+      /** Validación dentro de la transacción, justo antes de insertar (p. ej. límites de crédito) */
+      guard?: (tx: AppTransactionClient) => Promise<unknown>;
       preFetched?: {
         vendedor?: any;
         sorteo?: any;
@@ -2001,6 +2006,16 @@ export const TicketRepository = {
           },
         });
 
+        // 10.1) Números calientes: tope por tiquete y multiplicador según la exposición de la banca
+        //       (antes de comisiones: ajusta finalMultiplierX de preparedJugadas)
+        const hotNumberWarnings = await applyHotNumberPolicy(tx, {
+          bancaId,
+          sorteoId,
+          jugadas: preparedJugadas,
+          cache,
+        });
+        warnings.push(...hotNumberWarnings);
+
         // 11) Comisiones
         const commissionsDetails: any[] = [];
         let jugadasWithCommissions: Array<{
@@ -2047,9 +2062,7 @@ export const TicketRepository = {
                 amount: j.amount,
               });
               if (match) {
-                listeroCommissionAmount = parseFloat(
-                  ((j.amount * match.percent) / 100).toFixed(2)
-                );
+                listeroCommissionAmount = percentOfMoney(j.amount, match.percent);
               } else {
                 const listeroResult =
                   commissionService.calculateListeroCommission(
@@ -2180,6 +2193,9 @@ export const TicketRepository = {
         const normalizedClienteNombre =
           clienteNombre?.trim() || 'CLIENTE CONTADO';
 
+        // 11.1) Validaciones del llamador que deben ver las ventas ya confirmadas
+        if (options?.guard) await options.guard(tx);
+
         // 12) Crear ticket
         const createdTicket = await tx.ticket.create({
           data: {
@@ -2452,6 +2468,43 @@ export const TicketRepository = {
     );
   },
 
+  /** Datos mínimos para la verificación pública (QR): sin vendedor ni ids de banca/ventana */
+  async findForVerification(ticketNumber: string) {
+    return withConnectionRetry(
+      () => prisma.ticket.findUnique({
+        where: { ticketNumber },
+        select: {
+          id: true,
+          ticketNumber: true,
+          status: true,
+          isActive: true,
+          isWinner: true,
+          deletedAt: true,
+          totalAmount: true,
+          totalPayout: true,
+          totalPaid: true,
+          remainingAmount: true,
+          createdAt: true,
+          jugadas: {
+            where: { deletedAt: null, isActive: true },
+            select: { type: true, number: true, amount: true, isWinner: true, payout: true },
+            orderBy: { createdAt: "asc" },
+          },
+          sorteo: {
+            select: {
+              name: true,
+              scheduledAt: true,
+              status: true,
+              winningNumber: true,
+              loteria: { select: { name: true } },
+            },
+          },
+        },
+      }),
+      { context: "TicketRepository.findForVerification" }
+    );
+  },
+
   async list(
     page = 1,
     pageSize = 10,
@@ -0,0 +1,157 @@
+import prisma from "../core/prismaClient";
+import logger from "../core/logger";
+import { Prisma } from "../generated/prisma/client";
+import { CreateWebhookInput, UpdateWebhookInput } from "../api/v1/dto/webhook.dto";
+
+const WebhookRepository = {
+  async create(data: CreateWebhookInput & { secret: string }) {
+    const webhook = await prisma.webhook.create({
+      data: {
+        name: data.name,
+        url: data.url,
+        events: data.events,
+        secret: data.secret,
+        isActive: data.isActive ?? true,
+        bancaId: data.bancaId ?? null,
+      },
+    });
+    logger.info({
+      layer: "repository",
+      action: "WEBHOOK_CREATE_DB",
+      payload: { webhookId: webhook.id, bancaId: webhook.bancaId, events: webhook.events },
+    });
+    return webhook;
+  },
+
+  findById(id: string) {
+    return prisma.webhook.findUnique({ where: { id } });
+  },
+
+  async list(where: Prisma.WebhookWhereInput, page = 1, pageSize = 20) {
+    const skip = (page - 1) * pageSize;
+    const [data, total] = await Promise.all([
+      prisma.webhook.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.webhook.count({ where }),
+    ]);
+    return { data, total };
+  },
+
+  update(id: string, data: UpdateWebhookInput & { failCount?: number }) {
+    return prisma.webhook.update({
+      where: { id },
+      data: {
+        name: data.name,
+        url: data.url,
+        events: data.events,
+        secret: data.secret,
+        isActive: data.isActive,
+        failCount: data.failCount,
+      },
+    });
+  },
+
+  delete(id: string) {
+    return prisma.webhook.delete({ where: { id } });
+  },
+
+  /**
+   * Webhooks activos suscritos a un evento.
+   * Los webhooks globales (bancaId null, de ADMIN) reciben los eventos de todas las bancas;
+   * un evento sin banca (ej. sorteo global) solo se entrega a los globales.
+   */
+  findSubscribers(event: string, bancaId: string | null) {
+    return prisma.webhook.findMany({
+      where: {
+        isActive: true,
+        events: { has: event },
+        OR: bancaId ? [{ bancaId }, { bancaId: null }] : [{ bancaId: null }],
+      },
+    });
+  },
+
+  createDelivery(data: {
+    webhookId: string;
+    event: string;
+    payload: Prisma.InputJsonValue;
+    status: number;
+    responseBody: string | null;
+    attempt: number;
+    nextAttemptAt: Date | null;
+  }) {
+    return prisma.webhookDelivery.create({ data });
+  },
+
+  /** Intentos fallidos cuyo reintento ya venció */
+  findDueRetries(now: Date, limit: number) {
+    return prisma.webhookDelivery.findMany({
+      where: { nextAttemptAt: { lte: now } },
+      orderBy: { nextAttemptAt: "asc" },
+      take: limit,
+    });
+  },
+
+  /**
+   * Toma el reintento de un intento fallido corriendo su hora hasta `leaseUntil`: si el proceso
+   * cae antes de registrar el nuevo intento, vuelve a vencer. false si otra instancia ya lo tomó.
+   */
+  async claimRetry(id: string, dueAt: Date, leaseUntil: Date) {
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: { id, nextAttemptAt: dueAt },
+      data: { nextAttemptAt: leaseUntil },
+    });
+    return count === 1;
+  },
+
+  /** El reintento ya quedó registrado como intento nuevo */
+  finishRetry(id: string) {
+    return prisma.webhookDelivery.update({ where: { id }, data: { nextAttemptAt: null } });
+  },
+
+  findDeliveryById(webhookId: string, deliveryId: string) {
+    return prisma.webhookDelivery.findFirst({ where: { id: deliveryId, webhookId } });
+  },
+
+  async listDeliveries(webhookId: string, page = 1, pageSize = 20, event?: string) {
+    const skip = (page - 1) * pageSize;
+    const where: Prisma.WebhookDeliveryWhereInput = { webhookId, ...(event ? { event } : {}) };
+    const [data, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+    return { data, total };
+  },
+
+  markSuccess(id: string) {
+    return prisma.webhook.update({
+      where: { id },
+      data: { lastFiredAt: new Date(), failCount: 0 },
+    });
+  },
+
+  /**
+   * Incrementa el contador de fallos consecutivos y desactiva el webhook
+   * cuando alcanza el umbral. Retorna el webhook actualizado.
+   */
+  async markFailure(id: string, disableThreshold: number) {
+    const updated = await prisma.webhook.update({
+      where: { id },
+      data: { lastFiredAt: new Date(), failCount: { increment: 1 } },
+    });
+    if (updated.isActive && updated.failCount >= disableThreshold) {
+      return prisma.webhook.update({ where: { id }, data: { isActive: false } });
+    }
+    return updated;
+  },
+};
+
+export default WebhookRepository;
@@ -7,11 +7,21 @@ import { getPrismaDirect } from '../core/prismaClientDirect'
 import { startSorteosAutoJobs, stopSorteosAutoJobs } from '../jobs/sorteosAuto.job'
 import { startAccountStatementSettlementJob, stopAccountStatementSettlementJob } from '../jobs/accountStatementSettlement.job'
 import { startMonthlyClosingJob, stopMonthlyClosingJob } from '../jobs/monthlyClosing.job'
+import { startAlertEvaluationJob, stopAlertEvaluationJob } from '../jobs/alertEvaluation.job'
+import { startReportSchedulerJob, stopReportSchedulerJob } from '../jobs/reportScheduler.job'
+import { startExportJobsWorker, stopExportJobsWorker } from '../jobs/exportJobs.job'
+import { startResultsIngestionJob, stopResultsIngestionJob } from '../jobs/resultsIngestion.job'
+import { startRealtimeExposureJob, stopRealtimeExposureJob } from '../jobs/realtimeExposure.job'
+import { startTicketExpiryJob, stopTicketExpiryJob } from '../jobs/ticketExpiry.job'
+import { startStatementAuditJob, stopStatementAuditJob } from '../jobs/statementAudit.job'
+import { startLedgerRetryJob, stopLedgerRetryJob } from '../jobs/ledgerRetry.job'
+import { startWebhookRetryJob, stopWebhookRetryJob } from '../jobs/webhookRetry.job'
 import { initRedisClient, closeRedisClient } from '../core/redisClient'
 import { initCacheSubscriber } from '../core/cache.service'
 import { restrictionCacheV2 } from '../utils/restrictionCacheV2'
 import { activeOperationsService } from '../core/activeOperations.service'
 import { warmupConnection } from '../core/connectionWarmup'
+import RealtimeService from '../api/v1/services/realtime.service'
 
 const server = http.createServer(app)
 
@@ -44,6 +54,9 @@ server.listen(config.port, 511, async () => {
     })
   }
 
+  // Pub/Sub de Redis: invalidación de L1 y eventos en tiempo real entre instancias
+  await initCacheSubscriber()
+
   // Iniciar jobs de automatización de sorteos
   try {
     startSorteosAutoJobs()
@@ -98,6 +111,168 @@ server.listen(config.port, 511, async () => {
     })
   }
 
+  // Iniciar job de evaluación de alertas
+  try {
+    startAlertEvaluationJob()
+    logger.info({
+      layer: 'server',
+      action: 'ALERT_EVALUATION_JOB_STARTED',
+      requestId: null,
+      payload: { message: 'Job de evaluación de alertas iniciado' },
+    })
+  } catch (error: any) {
+    logger.error({
+      layer: 'server',
+      action: 'ALERT_EVALUATION_JOB_START_ERROR',
+      requestId: null,
+      meta: { error: error instanceof Error ? error.message : String(error) },
+    })
+  }
+
+  // Iniciar scheduler de reportes programados
+  try {
+    startReportSchedulerJob()
+    logger.info({
+      layer: 'server',
+      action: 'REPORT_SCHEDULER_JOB_STARTED',
+      requestId: null,
+      payload: { message: 'Scheduler de reportes programados iniciado' },
+    })
+  } catch (error: any) {
+    logger.error({
+      layer: 'server',
+      action: 'REPORT_SCHEDULER_JOB_START_ERROR',
+      requestId: null,
+      meta: { error: error instanceof Error ? error.message : String(error) },
+    })
+  }
+
+  // Iniciar worker de exportaciones asíncronas
+  try {
+    startExportJobsWorker()
+    logger.info({
+      layer: 'server',
+      action: 'EXPORT_JOBS_WORKER_STARTED',
+      requestId: null,
+      payload: { message: 'Worker de exportaciones asíncronas iniciado' },
+    })
+  } catch (error: any) {
+    logger.error({
+      layer: 'server',
+      action: 'EXPORT_JOBS_WORKER_START_ERROR',
+      requestId: null,
+      meta: { error: error instanceof Error ? error.message : String(error) },
+    })
+  }
+
+  // Iniciar ingesta de resultados desde proveedores
+  try {
+    startResultsIngestionJob()
+    logger.info({
+      layer: 'server',
+      action: 'RESULTS_INGESTION_JOB_STARTED',
+      requestId: null,
+      payload: { message: 'Ingesta de resultados iniciada' },
+    })
+  } catch (error: any) {
+    logger.error({
+      layer: 'server',
+      action: 'RESULTS_INGESTION_JOB_START_ERROR',
+      requestId: null,
+      meta: { error: error instanceof Error ? error.message : String(error) },
+    })
+  }
+
+  // Iniciar publicación de acumulados por número para el stream de eventos
+  try {
+    startRealtimeExposureJob()
+    logger.info({
+      layer: 'server',
+      action: 'REALTIME_EXPOSURE_JOB_STARTED',
+      requestId: null,
+      payload: { message: 'Publicación de acumulados en tiempo real iniciada' },
+    })
+  } catch (error: any) {
+    logger.error({
+      layer: 'server',
+      action: 'REALTIME_EXPOSURE_JOB_START_ERROR',
+      requestId: null,
+      meta: { error: error instanceof Error ? error.message : String(error) },
+    })
+  }
+
+  // Iniciar vencimiento de premios no cobrados
+  try {
+    startTicketExpiryJob()
+    logger.info({
+      layer: 'server',
+      action: 'TICKET_EXPIRY_JOB_STARTED',
+      requestId: null,
+      payload: { message: 'Vencimiento de premios no cobrados iniciado' },
+    })
+  } catch (error: any) {
+    logger.error({
+      layer: 'server',
+      action: 'TICKET_EXPIRY_JOB_START_ERROR',
+      requestId: null,
+      meta: { error: error instanceof Error ? error.message : String(error) },
+    })
+  }
+
+  // Iniciar auditoría de integridad de estados de cuenta
+  try {
+    startStatementAuditJob()
+    logger.info({
+      layer: 'server',
+      action: 'STATEMENT_AUDIT_JOB_STARTED',
+      requestId: null,
+      payload: { message: 'Auditoría de estados de cuenta iniciada' },
+    })
+  } catch (error: any) {
+    logger.error({
+      layer: 'server',
+      action: 'STATEMENT_AUDIT_JOB_START_ERROR',
+      requestId: null,
+      meta: { error: error instanceof Error ? error.message : String(error) },
+    })
+  }
+
+  // Iniciar reintentos de asientos del libro que fallaron
+  try {
+    startLedgerRetryJob()
+    logger.info({
+      layer: 'server',
+      action: 'LEDGER_RETRY_JOB_STARTED',
+      requestId: null,
+      payload: { message: 'Reintentos de asientos del libro iniciados' },
+    })
+  } catch (error: any) {
+    logger.error({
+      layer: 'server',
+      action: 'LEDGER_RETRY_JOB_START_ERROR',
+      requestId: null,
+      meta: { error: error instanceof Error ? error.message : String(error) },
+    })
+  }
+
+  // Iniciar reintentos de entregas de webhooks
+  try {
+    startWebhookRetryJob()
+    logger.info({
+      layer: 'server',
+      action: 'WEBHOOK_RETRY_JOB_STARTED',
+      requestId: null,
+      payload: { message: 'Reintentos de webhooks iniciados' },
+    })
+  } catch (error: any) {
+    logger.error({
+      layer: 'server',
+      action: 'WEBHOOK_RETRY_JOB_START_ERROR',
+      requestId: null,
+      meta: { error: error instanceof Error ? error.message : String(error) },
+    })
+  }
+
   // Iniciar warming process de restriction cache V2
   try {
     restrictionCacheV2.startWarmingProcess()
@@ -138,6 +313,16 @@ const gracefulShutdown = async (signal: string) => {
   try { stopSorteosAutoJobs(); } catch (e) {}
   try { stopAccountStatementSettlementJob(); } catch (e) {}
   try { stopMonthlyClosingJob(); } catch (e) {}
+  try { stopAlertEvaluationJob(); } catch (e) {}
+  try { stopReportSchedulerJob(); } catch (e) {}
+  try { stopExportJobsWorker(); } catch (e) {}
+  try { stopResultsIngestionJob(); } catch (e) {}
+  try { stopRealtimeExposureJob(); } catch (e) {}
+  try { stopTicketExpiryJob(); } catch (e) {}
+  try { stopStatementAuditJob(); } catch (e) {}
+  try { stopLedgerRetryJob(); } catch (e) {}
+  try { stopWebhookRetryJob(); } catch (e) {}
+  try { RealtimeService.closeAll(); } catch (e) {}
   try { restrictionCacheV2.stopWarmingProcess(); } catch (e) {}
   try { closeRedisClient(); } catch (e) {}
 
@@ -0,0 +1,263 @@
+import prisma, { AppTransactionClient } from "../../core/prismaClient";
+import { Alert, BetType, Prisma, TicketStatus } from "../../generated/prisma/client";
+import { AppError } from "../../core/errors";
+import { ReportDimension } from "../../types/enums/report.enum";
+import { getCRDayRangeUTC } from "../../utils/businessDate";
+import {
+  calculateAccumulatedByNumbersAndScope,
+  resolveNumbersToValidate,
+} from "../../repositories/helpers/ticket-restriction.helper";
+import DashboardService from "../../api/v1/services/dashboard.service";
+import { AlertCondition, AlertEvaluation } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Filtro de tickets según el ámbito de la alerta (dimension + targetId).
+ */
+function buildTicketScope(alert: Alert): Prisma.TicketWhereInput {
+  switch (alert.dimension) {
+    case "vendedor":
+      if (!alert.targetId) throw new AppError("La alerta de vendedor requiere targetId", 400);
+      return { vendedorId: alert.targetId };
+    case "ventana":
+      if (!alert.targetId) throw new AppError("La alerta de ventana requiere targetId", 400);
+      return { ventanaId: alert.targetId };
+    case "banca": {
+      const bancaId = alert.targetId ?? alert.bancaId;
+      return bancaId ? { bancaId } : {};
+    }
+    default:
+      throw new AppError(`Dimensión "${alert.dimension}" no soportada para esta condición`, 400);
+  }
+}
+
+/**
+ * Exposición: % del maxTotal (RestrictionRule) ya consumido por cada número
+ * en sorteos OPEN. Reutiliza el cálculo de acumulados del validador de tickets.
+ */
+async function evaluateExposure(
+  alert: Alert,
+  condition: Extract<AlertCondition, { type: "EXPOSURE_PCT" }>,
+  now: Date
+): Promise<AlertEvaluation> {
+  const { fromAt, toAtExclusive } = getCRDayRangeUTC(now);
+
+  let sorteoIds: string[];
+  if (alert.dimension === "sorteo") {
+    if (!alert.targetId) throw new AppError("La alerta de sorteo requiere targetId", 400);
+    sorteoIds = [alert.targetId];
+  } else {
+    // Sorteos abiertos con ventas en el ámbito (mismo cálculo que el dashboard)
+    const exposure = await DashboardService.calculateExposure({
+      fromDate: fromAt,
+      toDate: now,
+      bancaId: alert.bancaId ?? undefined,
+      ventanaId: alert.dimension === "ventana" ? alert.targetId ?? undefined : undefined,
+    });
+    sorteoIds = exposure.bySorteo.map((s) => s.sorteoId);
+  }
+
+  const sorteos = await prisma.sorteo.findMany({
+    where: { id: { in: sorteoIds }, status: "OPEN" },
+    select: { id: true, name: true, loteriaId: true },
+  });
+
+  const bancaScope: Prisma.RestrictionRuleWhereInput = alert.bancaId
+    ? {
+        OR: [
+          { bancaId: alert.bancaId },
+          { ventana: { bancaId: alert.bancaId } },
+          { user: { ventana: { bancaId: alert.bancaId } } },
+        ],
+      }
+    : {};
+
+  const offenders: Array<{
+    sorteoId: string;
+    sorteoName: string;
+    number: string;
+    ruleId: string;
+    accumulated: number;
+    maxTotal: number;
+    pct: number;
+  }> = [];
+
+  for (const sorteo of sorteos) {
+    const rules = await prisma.restrictionRule.findMany({
+      where: {
+        isActive: true,
+        maxTotal: { not: null },
+        appliesToVendedor: false,
+        AND: [
+          bancaScope,
+          { OR: [{ loteriaId: null }, { loteriaId: sorteo.loteriaId }] },
+          { OR: [{ appliesToDate: null }, { appliesToDate: { gte: fromAt, lt: toAtExclusive } }] },
+        ],
+      },
+      include: { multiplier: { select: { id: true, kind: true } } },
+    });
+    if (rules.length === 0) continue;
+
+    let soldNumbers: string[] | null = null;
+
+    for (const rule of rules) {
+      const scopeType = rule.userId ? ReportDimension.VENDEDOR
+        : rule.ventanaId ? ReportDimension.VENTANA
+          : rule.bancaId ? ReportDimension.BANCA
+            : null;
+      const scopeId = rule.userId || rule.ventanaId || rule.bancaId;
+      if (!scopeType || !scopeId) continue;
+
+      let numbers = resolveNumbersToValidate(rule, now);
+      if (numbers.length === 0) {
+        // Regla sin número específico: aplica a todos los números vendidos del sorteo
+        soldNumbers ??= (
+          await prisma.jugada.groupBy({
+            by: ["number"],
+            where: { ticket: { sorteoId: sorteo.id }, deletedAt: null, isExcluded: false },
+          })
+        ).map((j) => j.number);
+        numbers = soldNumbers;
+      }
+      if (numbers.length === 0) continue;
+
+      const accumulated = await calculateAccumulatedByNumbersAndScope(
+        prisma,
+        {
+          numbers,
+          scopeType,
+          scopeId,
+          sorteoId: sorteo.id,
+          multiplierFilter: rule.multiplier
+            ? { id: rule.multiplier.id, kind: rule.multiplier.kind === "REVENTADO" ? BetType.REVENTADO : BetType.NUMERO }
+            : null,
+        }
+      );
+
+      const maxTotal = rule.maxTotal!;
+      if (maxTotal <= 0) continue;
+      for (const [number, total] of accumulated) {
+        // baseAmount es crédito inicial que no consume el límite
+        const consumed = Math.max(0, total - (rule.baseAmount ?? 0));
+        offenders.push({
+          sorteoId: sorteo.id,
+          sorteoName: sorteo.name,
+          number,
+          ruleId: rule.id,
+          accumulated: total,
+          maxTotal,
+          pct: round2((consumed / maxTotal) * 100),
+        });
+      }
+    }
+  }
+
+  offenders.sort((a, b) => b.pct - a.pct);
+  const worst = offenders[0];
+  const value = worst?.pct ?? 0;
+
+  return {
+    triggered: !!worst && value >= condition.thresholdPct,
+    value,
+    threshold: condition.thresholdPct,
+    message: worst
+      ? `Número ${worst.number} en ${worst.sorteoName} al ${value}% de su máximo (₡${worst.accumulated.toLocaleString()} de ₡${worst.maxTotal.toLocaleString()})`
+      : "Sin exposición contra límites maxTotal",
+    details: {
+      sorteosEvaluated: sorteos.length,
+      top: offenders.filter((o) => o.pct >= condition.thresholdPct).slice(0, 10),
+    },
+  };
+}
+
+/**
+ * Ventas de hoy (desde inicio del día CR hasta ahora) vs. misma franja hace 7 días.
+ */
+async function evaluateSalesDrop(
+  alert: Alert,
+  condition: Extract<AlertCondition, { type: "SALES_DROP_PCT" }>,
+  now: Date
+): Promise<AlertEvaluation> {
+  const scope = buildTicketScope(alert);
+  const { fromAt } = getCRDayRangeUTC(now);
+  const baseWhere: Prisma.TicketWhereInput = {
+    ...scope,
+    deletedAt: null,
+    status: { not: TicketStatus.CANCELLED },
+  };
+
+  const [today, lastWeek] = await Promise.all([
+    prisma.ticket.aggregate({
+      _sum: { totalAmount: true },
+      where: { ...baseWhere, createdAt: { gte: fromAt, lt: now } },
+    }),
+    prisma.ticket.aggregate({
+      _sum: { totalAmount: true },
+      where: {
+        ...baseWhere,
+        createdAt: { gte: new Date(fromAt.getTime() - 7 * DAY_MS), lt: new Date(now.getTime() - 7 * DAY_MS) },
+      },
+    }),
+  ]);
+
+  const todaySales = today._sum.totalAmount ?? 0;
+  const baseline = lastWeek._sum.totalAmount ?? 0;
+  const minBaseline = condition.minBaseline ?? 1;
+  const dropPct = baseline > 0 ? round2(((baseline - todaySales) / baseline) * 100) : 0;
+
+  return {
+    triggered: baseline >= minBaseline && dropPct >= condition.thresholdPct,
+    value: dropPct,
+    threshold: condition.thresholdPct,
+    message: `Ventas de hoy ₡${todaySales.toLocaleString()} vs ₡${baseline.toLocaleString()} la semana pasada (caída ${dropPct}%)`,
+    details: { todaySales, baseline, minBaseline },
+  };
+}
+
+/**
+ * Tasa de cancelación del día CR en curso.
+ */
+async function evaluateCancellationRate(
+  alert: Alert,
+  condition: Extract<AlertCondition, { type: "CANCELLATION_RATE" }>,
+  now: Date
+): Promise<AlertEvaluation> {
+  const scope = buildTicketScope(alert);
+  const { fromAt } = getCRDayRangeUTC(now);
+  const where: Prisma.TicketWhereInput = { ...scope, deletedAt: null, createdAt: { gte: fromAt, lt: now } };
+
+  const [total, cancelled] = await Promise.all([
+    prisma.ticket.count({ where }),
+    prisma.ticket.count({ where: { ...where, status: TicketStatus.CANCELLED } }),
+  ]);
+
+  const minTickets = condition.minTickets ?? 10;
+  const rate = total > 0 ? round2((cancelled / total) * 100) : 0;
+
+  return {
+    triggered: total >= minTickets && rate >= condition.thresholdPct,
+    value: rate,
+    threshold: condition.thresholdPct,
+    message: `Tasa de cancelación ${rate}% (${cancelled} de ${total} tickets hoy)`,
+    details: { total, cancelled, minTickets },
+  };
+}
+
+/**
+ * Evalúa la condición de una alerta sin efectos secundarios.
+ */
+export async function evaluateAlertCondition(alert: Alert, now: Date = new Date()): Promise<AlertEvaluation> {
+  const condition = alert.condition as unknown as AlertCondition;
+  switch (condition?.type) {
+    case "EXPOSURE_PCT":
+      return evaluateExposure(alert, condition, now);
+    case "SALES_DROP_PCT":
+      return evaluateSalesDrop(alert, condition, now);
+    case "CANCELLATION_RATE":
+      return evaluateCancellationRate(alert, condition, now);
+    default:
+      throw new AppError(`Tipo de condición no soportado: ${(condition as any)?.type}`, 400);
+  }
+}
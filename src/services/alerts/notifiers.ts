@@ -0,0 +1,73 @@
+import { Alert } from "../../generated/prisma/client";
+import { AlertNotification, AlertNotifier } from "./types";
+import { MailTransport, createMailTransportFromConfig } from "../mail/mailTransport";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * POST JSON a Alert.notifyWebhook. Cualquier respuesta no-2xx se considera fallo.
+ */
+export class WebhookAlertNotifier implements AlertNotifier {
+  readonly channel = "webhook";
+
+  supports(alert: Alert): boolean {
+    return !!alert.notifyWebhook;
+  }
+
+  async notify(alert: Alert, notification: AlertNotification): Promise<void> {
+    const response = await fetch(alert.notifyWebhook!, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "User-Agent": "bancas-alerts/1.0" },
+      body: JSON.stringify({ event: "alert.fired", ...notification }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook respondió HTTP ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Email a Alert.notifyEmail (acepta varias direcciones separadas por coma).
+ */
+export class EmailAlertNotifier implements AlertNotifier {
+  readonly channel = "email";
+
+  constructor(private readonly transport: MailTransport) {}
+
+  supports(alert: Alert): boolean {
+    return !!alert.notifyEmail;
+  }
+
+  async notify(alert: Alert, notification: AlertNotification): Promise<void> {
+    const to = alert.notifyEmail!.split(",").map((s) => s.trim()).filter(Boolean);
+    const lines = [
+      notification.message,
+      "",
+      `Alerta: ${notification.alertName}`,
+      `Condición: ${notification.conditionType}`,
+      `Valor: ${notification.value}`,
+      `Umbral: ${notification.threshold}`,
+      `Ámbito: ${notification.dimension}${notification.targetId ? ` (${notification.targetId})` : ""}`,
+      `Fecha: ${notification.firedAt}`,
+    ];
+    await this.transport.send({
+      to,
+      subject: `[Alerta] ${notification.alertName}`,
+      text: lines.join("\n"),
+    });
+  }
+}
+
+/**
+ * Notificadores por defecto según configuración.
+ * Sin SMTP_HOST el canal de email no se registra.
+ */
+export function createDefaultNotifiers(): AlertNotifier[] {
+  const notifiers: AlertNotifier[] = [new WebhookAlertNotifier()];
+  const transport = createMailTransportFromConfig();
+  if (transport) {
+    notifiers.push(new EmailAlertNotifier(transport));
+  }
+  return notifiers;
+}
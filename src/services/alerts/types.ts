@@ -0,0 +1,63 @@
+import { Alert } from "../../generated/prisma/client";
+
+/**
+ * Tipos de condición soportados por el motor de alertas.
+ * Se almacenan en Alert.condition (JSON) y se validan al crear/editar la alerta.
+ */
+export type AlertCondition =
+  | {
+      /** % consumido del maxTotal (RestrictionRule) por cualquier número del sorteo */
+      type: "EXPOSURE_PCT";
+      thresholdPct: number;
+      cooldownMinutes?: number;
+    }
+  | {
+      /** Caída % de ventas de hoy vs. mismo día de la semana pasada (misma franja horaria) */
+      type: "SALES_DROP_PCT";
+      thresholdPct: number;
+      minBaseline?: number;
+      cooldownMinutes?: number;
+    }
+  | {
+      /** % de tickets cancelados sobre el total del día */
+      type: "CANCELLATION_RATE";
+      thresholdPct: number;
+      minTickets?: number;
+      cooldownMinutes?: number;
+    };
+
+export type AlertConditionType = AlertCondition["type"];
+
+/** Resultado de evaluar una condición */
+export interface AlertEvaluation {
+  triggered: boolean;
+  value: number;
+  threshold: number;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/** Payload que reciben los notificadores cuando una alerta se dispara */
+export interface AlertNotification {
+  alertId: string;
+  alertName: string;
+  bancaId: string | null;
+  dimension: string;
+  targetId: string | null;
+  conditionType: AlertConditionType;
+  value: number;
+  threshold: number;
+  message: string;
+  details?: Record<string, unknown>;
+  firedAt: string;
+}
+
+/**
+ * Canal de entrega de alertas. Implementaciones: webhook, email (SMTP).
+ * `supports` decide si el canal aplica a la alerta (ej. tiene notifyEmail).
+ */
+export interface AlertNotifier {
+  readonly channel: string;
+  supports(alert: Alert): boolean;
+  notify(alert: Alert, notification: AlertNotification): Promise<void>;
+}
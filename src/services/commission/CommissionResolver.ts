@@ -11,6 +11,7 @@ import {
 } from "./types/CommissionTypes";
 import { parseCommissionPolicy } from "./utils/PolicyParser";
 import { findMatchingRule, matchNumero, matchReventado } from "./utils/RuleMatcher";
+import { percentOfMoney } from "../../utils/decimal";
 
 /**
  * Configuración para validación de REVENTADO
@@ -39,7 +40,7 @@ export class CommissionResolver {
     if (userPolicy) {
       const match = findMatchingRule(userPolicy, input);
       if (match) {
-        const commissionAmount = parseFloat(((input.amount * match.percent) / 100).toFixed(2));
+        const commissionAmount = percentOfMoney(input.amount, match.percent);
         return {
           commissionPercent: match.percent,
           commissionAmount,
@@ -54,7 +55,7 @@ export class CommissionResolver {
     if (ventanaPolicy) {
       const match = findMatchingRule(ventanaPolicy, input);
       if (match) {
-        const commissionAmount = parseFloat(((input.amount * match.percent) / 100).toFixed(2));
+        const commissionAmount = percentOfMoney(input.amount, match.percent);
         return {
           commissionPercent: match.percent,
           commissionAmount,
@@ -69,7 +70,7 @@ export class CommissionResolver {
     if (bancaPolicy) {
       const match = findMatchingRule(bancaPolicy, input);
       if (match) {
-        const commissionAmount = parseFloat(((input.amount * match.percent) / 100).toFixed(2));
+        const commissionAmount = percentOfMoney(input.amount, match.percent);
         return {
           commissionPercent: match.percent,
           commissionAmount,
@@ -115,7 +116,7 @@ export class CommissionResolver {
     if (ventanaPolicy) {
       const match = findMatchingRule(ventanaPolicy, input);
       if (match) {
-        const commissionAmount = parseFloat(((input.amount * match.percent) / 100).toFixed(2));
+        const commissionAmount = percentOfMoney(input.amount, match.percent);
         // logger.info({
         //   layer: "service",
         //   action: "LISTERO_COMMISSION_RESOLVED",
@@ -143,7 +144,7 @@ export class CommissionResolver {
     if (bancaPolicy) {
       const match = findMatchingRule(bancaPolicy, input);
       if (match) {
-        const commissionAmount = parseFloat(((input.amount * match.percent) / 100).toFixed(2));
+        const commissionAmount = percentOfMoney(input.amount, match.percent);
         // logger.info({
         //   layer: "service",
         //   action: "LISTERO_COMMISSION_RESOLVED",
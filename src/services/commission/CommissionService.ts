@@ -8,6 +8,7 @@ import {
 import { CommissionContext } from "./types/CommissionContext";
 import { parseCommissionPolicy } from "./utils/PolicyParser";
 import { getCachedCommissionPolicy } from "../../utils/commissionCache";
+import { percentOfMoney } from "../../utils/decimal";
 
 /**
  * Servicio centralizado para cálculo de comisiones
@@ -66,9 +67,7 @@ export class CommissionService {
         input
       );
       if (match) {
-        const commissionAmount = parseFloat(
-          ((input.amount * match.percent) / 100).toFixed(2)
-        );
+        const commissionAmount = percentOfMoney(input.amount, match.percent);
         return {
           commissionPercent: match.percent,
           commissionAmount,
@@ -85,9 +84,7 @@ export class CommissionService {
         input
       );
       if (match) {
-        const commissionAmount = parseFloat(
-          ((input.amount * match.percent) / 100).toFixed(2)
-        );
+        const commissionAmount = percentOfMoney(input.amount, match.percent);
         return {
           commissionPercent: match.percent,
           commissionAmount,
@@ -104,9 +101,7 @@ export class CommissionService {
         input
       );
       if (match) {
-        const commissionAmount = parseFloat(
-          ((input.amount * match.percent) / 100).toFixed(2)
-        );
+        const commissionAmount = percentOfMoney(input.amount, match.percent);
         return {
           commissionPercent: match.percent,
           commissionAmount,
@@ -0,0 +1,179 @@
+import { AccountsService } from "../../api/v1/services/accounts/accounts.service";
+import { DayStatement, StatementResponse } from "../../api/v1/services/accounts/accounts.types";
+import CommissionsService from "../../api/v1/services/commissions.service";
+import { DashboardExportService } from "../../api/v1/services/dashboard-export.service";
+import { ExportJobDefinition } from "../../api/v1/dto/exportJob.dto";
+import { resolveDateRange } from "../../utils/dateRange";
+import { tz } from "../../utils/timezone";
+import { ExportColumn, ExportRow } from "./writers";
+
+/** Carga una página de filas; se llama recién cuando la anterior ya se escribió */
+export type ExportPage = () => Promise<ExportRow[]>;
+
+/**
+ * Origen de datos de un ExportJob: columnas fijas + páginas de filas planas.
+ * El worker escribe cada página antes de cargar la siguiente, así que en memoria
+ * solo vive una página (un mes o una sección), no la exportación completa.
+ */
+export interface ExportSource {
+  filePrefix: string;
+  sheetName: string;
+  columns: ExportColumn[];
+  pages(): ExportPage[];
+}
+
+const dateStr = (value: Date | string) => (typeof value === "string" ? value : value.toISOString().slice(0, 10));
+
+type DateChunk = { fromDate: string; toDate: string };
+
+/**
+ * Parte el período (date/fromDate/toDate) en meses calendario de Costa Rica,
+ * sin pasar de hoy. Sigue el orden del reporte: más reciente primero salvo sort=asc.
+ */
+function monthChunks(date: string, fromDate?: string, toDate?: string, sort: "asc" | "desc" = "desc"): DateChunk[] {
+  const range = resolveDateRange(date, fromDate, toDate);
+  const today = tz.toDateStr();
+  const from = tz.toDateStr(range.fromAt);
+  const to = tz.toDateStr(range.toAt) < today ? tz.toDateStr(range.toAt) : today;
+
+  const chunks: DateChunk[] = [];
+  let cursor = from;
+  while (cursor <= to) {
+    const [year, month] = cursor.split("-").map(Number);
+    const monthEnd = new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+    chunks.push({ fromDate: cursor, toDate: monthEnd < to ? monthEnd : to });
+    cursor = new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10);
+  }
+  return sort === "asc" ? chunks : chunks.reverse();
+}
+
+const ACCOUNT_COLUMNS: ExportColumn[] = [
+  { key: "date", header: "Fecha" },
+  { key: "bancaName", header: "Banca" },
+  { key: "ventanaName", header: "Listero" },
+  { key: "vendedorName", header: "Vendedor" },
+  { key: "ticketCount", header: "Tickets" },
+  { key: "totalSales", header: "Ventas" },
+  { key: "totalPayouts", header: "Premios" },
+  { key: "listeroCommission", header: "Comisión Listero" },
+  { key: "vendedorCommission", header: "Comisión Vendedor" },
+  { key: "balance", header: "Balance" },
+  { key: "totalPaid", header: "Pagado" },
+  { key: "totalCollected", header: "Cobrado" },
+  { key: "remainingBalance", header: "Saldo" },
+  { key: "isSettled", header: "Saldado" },
+];
+
+/**
+ * Una fila por entidad y día. Los statements agrupados ("Todos") se abren
+ * en su desglose byVendedor/byVentana/byBanca.
+ */
+function flattenStatement(statement: DayStatement): ExportRow[] {
+  const date = dateStr(statement.date);
+  const breakdown = statement.byVendedor?.length
+    ? statement.byVendedor
+    : statement.byVentana?.length
+      ? statement.byVentana
+      : statement.byBanca?.length
+        ? statement.byBanca
+        : null;
+
+  if (!breakdown) {
+    return [{ ...statement, date }];
+  }
+  return breakdown.map((item: any) => ({
+    ...item,
+    date,
+    bancaName: item.bancaName ?? statement.bancaName ?? null,
+    ventanaName: item.ventanaName ?? statement.ventanaName ?? null,
+    vendedorName: item.vendedorName ?? null,
+    isSettled: statement.isSettled,
+  }));
+}
+
+const COMMISSION_COLUMNS: ExportColumn[] = [
+  { key: "date", header: "Fecha" },
+  { key: "ventanaName", header: "Listero" },
+  { key: "vendedorName", header: "Vendedor" },
+  { key: "totalTickets", header: "Tickets" },
+  { key: "totalSales", header: "Ventas" },
+  { key: "totalPayouts", header: "Premios" },
+  { key: "totalCommission", header: "Comisión" },
+  { key: "commissionListero", header: "Comisión Listero" },
+  { key: "commissionVendedor", header: "Comisión Vendedor" },
+  { key: "net", header: "Neto" },
+];
+
+const DASHBOARD_COLUMNS: ExportColumn[] = [
+  { key: "section", header: "Sección" },
+  { key: "ventanaName", header: "Listero" },
+  { key: "vendedorName", header: "Vendedor" },
+  { key: "isActive", header: "Activo" },
+  { key: "sales", header: "Ventas" },
+  { key: "payouts", header: "Premios" },
+  { key: "commissionVentana", header: "Comisión Listero" },
+  { key: "commissionUser", header: "Comisión Vendedor" },
+  { key: "net", header: "Neto" },
+  { key: "margin", header: "Margen" },
+  { key: "monthAccumulatedBalance", header: "Saldo Acumulado Mes" },
+];
+
+export function resolveExportSource(definition: ExportJobDefinition): ExportSource {
+  switch (definition.source) {
+    case "accounts":
+      return {
+        filePrefix: "estados-cuenta",
+        sheetName: "Estados de Cuenta",
+        columns: ACCOUNT_COLUMNS,
+        pages() {
+          const load = (filters: typeof definition.filters): ExportPage => async () => {
+            const response = (await AccountsService.getStatement(filters)) as StatementResponse;
+            return response.statements.flatMap(flattenStatement);
+          };
+          const { date, fromDate, toDate, sort } = definition.filters;
+          // Sin date el período es un solo mes (month o el actual): una página
+          if (!date) return [load(definition.filters)];
+          return monthChunks(date, fromDate, toDate, sort).map((chunk) =>
+            load({ ...definition.filters, month: undefined, date: "range", ...chunk })
+          );
+        },
+      };
+    case "commissions":
+      return {
+        filePrefix: "comisiones",
+        sheetName: "Comisiones",
+        columns: COMMISSION_COLUMNS,
+        pages() {
+          // El listado viene ordenado por fecha descendente: los meses también
+          return monthChunks(definition.date, definition.fromDate, definition.toDate).map(
+            (chunk): ExportPage => () =>
+              CommissionsService.list("range", chunk.fromDate, chunk.toDate, definition.filters, definition.ventanaUserId)
+          );
+        },
+      };
+    case "dashboard":
+      return {
+        filePrefix: "dashboard",
+        sheetName: "Dashboard",
+        columns: DASHBOARD_COLUMNS,
+        pages() {
+          // Una fila por listero/vendedor del período (no por día): cabe en una sola página
+          return [
+            async () => {
+              const { fromDate, toDate, ...rest } = definition.filters;
+              const data = await DashboardExportService.buildExportData(
+                { ...rest, fromDate: new Date(fromDate), toDate: new Date(toDate) } as any,
+                definition.role
+              );
+              return [
+                ...data.balances.byVentana.map((row) => ({ section: "Listeros", ...row })),
+                ...data.balances.byVendedor.map((row) => ({ section: "Vendedores", ...row })),
+              ];
+            },
+          ];
+        },
+      };
+    default:
+      throw new Error(`Origen de exportación no soportado: ${(definition as any)?.source}`);
+  }
+}
@@ -0,0 +1,89 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable, Writable } from "stream";
+import { config } from "../../config";
+
+/**
+ * Almacenamiento de archivos de exportación (intercambiable: disco local, S3, etc.).
+ * Las claves son rutas relativas; cada adaptador decide dónde viven.
+ */
+export interface ExportStorage {
+  /** Identificador corto que se guarda junto a la clave en ExportJob.fileUrl */
+  readonly name: string;
+  createWriteStream(key: string): Writable;
+  createReadStream(key: string): Readable;
+  size(key: string): Promise<number | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Disco local. La clave se normaliza para que nunca salga del directorio base.
+ */
+export class LocalDiskExportStorage implements ExportStorage {
+  readonly name = "local";
+
+  constructor(private readonly baseDir: string) {}
+
+  private resolve(key: string): string {
+    const fullPath = path.resolve(this.baseDir, key);
+    if (!fullPath.startsWith(path.resolve(this.baseDir) + path.sep)) {
+      throw new Error(`Clave de almacenamiento inválida: ${key}`);
+    }
+    return fullPath;
+  }
+
+  createWriteStream(key: string): Writable {
+    const fullPath = this.resolve(key);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    return fs.createWriteStream(fullPath);
+  }
+
+  createReadStream(key: string): Readable {
+    return fs.createReadStream(this.resolve(key));
+  }
+
+  async size(key: string): Promise<number | null> {
+    try {
+      return (await fs.promises.stat(this.resolve(key))).size;
+    } catch {
+      return null;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.size(key)) !== null;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+let storage: ExportStorage | null = null;
+
+/**
+ * Adaptador activo (por defecto disco local en EXPORT_JOBS_STORAGE_DIR).
+ */
+export function getExportStorage(): ExportStorage {
+  storage ??= new LocalDiskExportStorage(
+    config.exportJobs.storageDir ?? path.join(os.tmpdir(), "bancas-exports")
+  );
+  return storage;
+}
+
+/**
+ * Reemplaza el adaptador (otro backend de almacenamiento o tests).
+ */
+export function setExportStorage(adapter: ExportStorage): void {
+  storage = adapter;
+}
+
+/** "local:2026/10/<id>.csv" → { storage: "local", key: "2026/10/<id>.csv" } */
+export function parseFileUrl(fileUrl: string): { storage: string; key: string } {
+  const idx = fileUrl.indexOf(":");
+  return idx === -1
+    ? { storage: "local", key: fileUrl }
+    : { storage: fileUrl.slice(0, idx), key: fileUrl.slice(idx + 1) };
+}
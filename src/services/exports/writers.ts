@@ -0,0 +1,133 @@
+import { Writable } from "stream";
+import { once } from "events";
+import ExcelJS from "exceljs";
+import { ExportFormat } from "../../generated/prisma/client";
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+}
+
+export type ExportRow = Record<string, unknown>;
+
+/**
+ * Escritor de filas hacia un stream de salida. Las filas se escriben
+ * a medida que llegan (no se arma el archivo completo en memoria).
+ */
+export interface ExportRowWriter {
+  write(row: ExportRow): Promise<void>;
+  /** Cierra el archivo y espera a que el stream termine de escribir */
+  end(): Promise<void>;
+}
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  CSV: "csv",
+  XLSX: "xlsx",
+  JSON: "json",
+};
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  CSV: "text/csv; charset=utf-8",
+  XLSX: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  JSON: "application/json; charset=utf-8",
+};
+
+const csvCell = (value: unknown) => {
+  const str = value === null || value === undefined ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+/** Escribe respetando backpressure del stream de destino */
+async function writeChunk(output: Writable, chunk: string): Promise<void> {
+  if (!output.write(chunk)) {
+    await once(output, "drain");
+  }
+}
+
+async function finish(output: Writable): Promise<void> {
+  if (output.writableFinished) return;
+  const done = once(output, "finish");
+  output.end();
+  await done;
+}
+
+class CsvRowWriter implements ExportRowWriter {
+  private started = false;
+
+  constructor(private readonly output: Writable, private readonly columns: ExportColumn[]) {}
+
+  private async header() {
+    if (this.started) return;
+    this.started = true;
+    // BOM para que Excel abra el CSV como UTF-8
+    await writeChunk(this.output, "\ufeff" + this.columns.map((c) => csvCell(c.header)).join(",") + "\n");
+  }
+
+  async write(row: ExportRow) {
+    await this.header();
+    await writeChunk(this.output, this.columns.map((c) => csvCell(row[c.key])).join(",") + "\n");
+  }
+
+  async end() {
+    await this.header();
+    await finish(this.output);
+  }
+}
+
+class JsonRowWriter implements ExportRowWriter {
+  private count = 0;
+
+  constructor(private readonly output: Writable, private readonly columns: ExportColumn[]) {}
+
+  async write(row: ExportRow) {
+    const item: ExportRow = {};
+    this.columns.forEach((c) => (item[c.key] = row[c.key] ?? null));
+    await writeChunk(this.output, (this.count++ === 0 ? "[\n" : ",\n") + JSON.stringify(item));
+  }
+
+  async end() {
+    await writeChunk(this.output, this.count === 0 ? "[]\n" : "\n]\n");
+    await finish(this.output);
+  }
+}
+
+class XlsxRowWriter implements ExportRowWriter {
+  private readonly workbook: ExcelJS.stream.xlsx.WorkbookWriter;
+  private readonly sheet: ExcelJS.Worksheet;
+
+  constructor(output: Writable, columns: ExportColumn[], sheetName: string) {
+    this.workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+    this.workbook.creator = "Sistema de Bancas";
+    this.sheet = this.workbook.addWorksheet(sheetName.slice(0, 31));
+    this.sheet.columns = columns.map((c) => ({ header: c.header, key: c.key, width: Math.max(12, c.header.length + 2) }));
+    this.sheet.getRow(1).font = { bold: true };
+    this.sheet.getRow(1).commit();
+  }
+
+  async write(row: ExportRow) {
+    this.sheet.addRow(row).commit();
+  }
+
+  async end() {
+    this.sheet.commit();
+    await this.workbook.commit();
+  }
+}
+
+export function createRowWriter(
+  format: ExportFormat,
+  output: Writable,
+  columns: ExportColumn[],
+  sheetName = "Datos"
+): ExportRowWriter {
+  switch (format) {
+    case "CSV":
+      return new CsvRowWriter(output, columns);
+    case "JSON":
+      return new JsonRowWriter(output, columns);
+    case "XLSX":
+      return new XlsxRowWriter(output, columns, sheetName);
+    default:
+      throw new Error(`Formato de exportación no soportado: ${format}`);
+  }
+}
@@ -0,0 +1,164 @@
+import net from "net";
+import tls from "tls";
+import os from "os";
+import { randomBytes } from "crypto";
+import { config } from "../../config";
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+/**
+ * Transporte de correo intercambiable (en tests se reemplaza por un stub).
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  from: string;
+  secure?: boolean; // TLS implícito (ej. puerto 465)
+  timeoutMs?: number;
+}
+
+type SmtpReply = { code: number; text: string };
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+const wrapBase64 = (value: string | Buffer) =>
+  ((Buffer.isBuffer(value) ? value : Buffer.from(value, "utf8")).toString("base64").match(/.{1,76}/g) ?? []).join("\r\n");
+
+/**
+ * Cuerpo MIME: text/plain simple o multipart/mixed cuando hay adjuntos.
+ */
+function buildMimeBody(message: MailMessage): string[] {
+  const textPart = [
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(message.text),
+  ];
+  if (!message.attachments?.length) return textPart;
+
+  const boundary = `=_bancas_${randomBytes(12).toString("hex")}`;
+  const lines = [`Content-Type: multipart/mixed; boundary="${boundary}"`, "", `--${boundary}`, ...textPart];
+  for (const attachment of message.attachments) {
+    const filename = encodeHeader(attachment.filename);
+    lines.push(
+      `--${boundary}`,
+      `Content-Type: ${attachment.contentType}; name="${filename}"`,
+      "Content-Transfer-Encoding: base64",
+      `Content-Disposition: attachment; filename="${filename}"`,
+      "",
+      wrapBase64(attachment.content)
+    );
+  }
+  lines.push(`--${boundary}--`);
+  return lines;
+}
+
+/**
+ * Cliente SMTP mínimo (sin autenticación) pensado para un relay local
+ * (postfix/mailpit/etc.). Cuerpo en base64 para no depender de 8BITMIME.
+ */
+export class SmtpMailTransport implements MailTransport {
+  constructor(private readonly options: SmtpTransportOptions) {}
+
+  async send(message: MailMessage): Promise<void> {
+    if (message.to.length === 0) return;
+
+    const { host, port, from, secure = false, timeoutMs = 15_000 } = this.options;
+    const socket: net.Socket = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    socket.setEncoding("utf8");
+    socket.setTimeout(timeoutMs);
+
+    let buffer = "";
+    const pending: Array<{ resolve: (r: SmtpReply) => void; reject: (e: Error) => void }> = [];
+    let failure: Error | null = null;
+
+    const failAll = (err: Error) => {
+      failure = failure ?? err;
+      while (pending.length) pending.shift()!.reject(failure);
+    };
+
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      // Una respuesta termina con una línea "NNN texto" (sin guion tras el código)
+      let match: RegExpMatchArray | null;
+      while ((match = buffer.match(/^((?:\d{3}-[^\r\n]*\r?\n)*)(\d{3}) ([^\r\n]*)\r?\n/))) {
+        buffer = buffer.slice(match[0].length);
+        const reply = { code: Number(match[2]), text: `${match[1]}${match[3]}`.trim() };
+        pending.shift()?.resolve(reply);
+      }
+    });
+    socket.on("timeout", () => {
+      failAll(new Error("SMTP timeout"));
+      socket.destroy();
+    });
+    socket.on("error", failAll);
+    socket.on("close", () => failAll(new Error("SMTP connection closed")));
+
+    const read = () =>
+      new Promise<SmtpReply>((resolve, reject) => {
+        if (failure) return reject(failure);
+        pending.push({ resolve, reject });
+      });
+
+    const expect = async (command: string | null, accepted: number[]) => {
+      const reply = read();
+      if (command !== null) socket.write(`${command}\r\n`);
+      const { code, text } = await reply;
+      if (!accepted.includes(code)) {
+        throw new Error(`SMTP ${command ?? "greeting"} rechazado: ${code} ${text}`);
+      }
+    };
+
+    try {
+      await expect(null, [220]);
+      await expect(`EHLO ${os.hostname() || "localhost"}`, [250]);
+      await expect(`MAIL FROM:<${from}>`, [250]);
+      for (const rcpt of message.to) {
+        await expect(`RCPT TO:<${rcpt}>`, [250, 251]);
+      }
+      await expect("DATA", [354]);
+
+      const body = [
+        `From: ${from}`,
+        `To: ${message.to.join(", ")}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        "MIME-Version: 1.0",
+        ...buildMimeBody(message),
+        ".",
+      ].join("\r\n");
+      await expect(body, [250]);
+
+      await expect("QUIT", [221]).catch(() => {});
+    } finally {
+      socket.removeAllListeners("close");
+      socket.end();
+    }
+  }
+}
+
+/**
+ * Transporte configurado por SMTP_*; null si no hay SMTP_HOST (email deshabilitado).
+ */
+export function createMailTransportFromConfig(): MailTransport | null {
+  const { host, port, secure, from } = config.smtp;
+  return host ? new SmtpMailTransport({ host, port, secure, from }) : null;
+}
@@ -0,0 +1,143 @@
+import fs from "fs/promises";
+import path from "path";
+import { tz } from "../../utils/timezone";
+import { ResultsProviderConfig } from "../../types/schemas/databaseJson.schema";
+import { FetchedResult, ResultProvider, ResultRequest } from "./types";
+
+const HTTP_TIMEOUT_MS = 10_000;
+
+const timeFormatter = new Intl.DateTimeFormat("en-GB", {
+  timeZone: tz.name,
+  hour: "2-digit",
+  minute: "2-digit",
+  hour12: false,
+});
+
+/** Fecha (YYYY-MM-DD) y hora (HH:mm) del sorteo en la TZ del negocio */
+function localSlot(scheduledAt: Date): { date: string; time: string } {
+  return { date: tz.toDateStr(scheduledAt), time: timeFormatter.format(scheduledAt) };
+}
+
+/** "7:05" → "07:05" */
+function normalizeTime(value: string): string {
+  const [h, m = "00"] = value.trim().split(":");
+  return `${h.padStart(2, "0")}:${m.padStart(2, "0")}`;
+}
+
+function normalizeNumber(value: unknown, digits: number): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number") return String(value).padStart(digits, "0");
+  const str = String(value).trim();
+  return str.length ? str : null;
+}
+
+/** Lee "a.b.0.c" dentro de un objeto JSON */
+function readPath(body: unknown, dotPath: string): unknown {
+  return dotPath.split(".").reduce<any>((acc, key) => (acc == null ? undefined : acc[key]), body);
+}
+
+/**
+ * Feed HTTP JSON. La URL admite {date}, {time}, {loteria} y {code}.
+ * 404 o número vacío = resultado aún no publicado.
+ */
+export class HttpJsonResultProvider implements ResultProvider {
+  readonly type = "http";
+
+  async fetch(request: ResultRequest): Promise<FetchedResult | null> {
+    const { date, time } = localSlot(request.scheduledAt);
+    const code = request.config.externalCode ?? request.loteriaName;
+    const url = request.config.url!
+      .replace(/\{date\}/g, encodeURIComponent(date))
+      .replace(/\{time\}/g, encodeURIComponent(time))
+      .replace(/\{loteria\}/g, encodeURIComponent(request.loteriaId))
+      .replace(/\{code\}/g, encodeURIComponent(code));
+
+    const response = await fetch(url, {
+      headers: { Accept: "application/json", "User-Agent": "bancas-results/1.0", ...request.config.headers },
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Proveedor respondió HTTP ${response.status}`);
+    }
+
+    const body = await response.json();
+    const winningNumber = normalizeNumber(readPath(body, request.config.numberPath ?? "winningNumber"), request.digits);
+    if (!winningNumber) return null;
+    return { winningNumber, raw: { url, body } };
+  }
+}
+
+/**
+ * Carpeta donde se depositan archivos .csv con encabezado loteria,date,time,number
+ * (date YYYY-MM-DD y time HH:mm en hora local). Si varias filas coinciden
+ * gana la del último archivo en orden alfabético (permite publicar correcciones).
+ */
+export class CsvDropFolderResultProvider implements ResultProvider {
+  readonly type = "csv";
+
+  async fetch(request: ResultRequest): Promise<FetchedResult | null> {
+    const directory = request.config.directory!;
+    const { date, time } = localSlot(request.scheduledAt);
+    const code = (request.config.externalCode ?? request.loteriaName).trim().toLowerCase();
+
+    const files = (await fs.readdir(directory)).filter((f) => f.toLowerCase().endsWith(".csv")).sort();
+    let match: FetchedResult | null = null;
+
+    for (const file of files) {
+      const content = await fs.readFile(path.join(directory, file), "utf8");
+      const lines = content.replace(/^\ufeff/, "").split(/\r?\n/).filter((l) => l.trim().length);
+      if (!lines.length) continue;
+
+      const header = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+      const idx = {
+        loteria: header.indexOf("loteria"),
+        date: header.indexOf("date"),
+        time: header.indexOf("time"),
+        number: header.indexOf("number"),
+      };
+      if (Object.values(idx).some((i) => i === -1)) continue;
+
+      for (let i = 1; i < lines.length; i++) {
+        const cols = splitCsvLine(lines[i]);
+        if (
+          cols[idx.loteria]?.toLowerCase() === code &&
+          cols[idx.date] === date &&
+          cols[idx.time] &&
+          normalizeTime(cols[idx.time]) === time
+        ) {
+          const winningNumber = normalizeNumber(cols[idx.number], request.digits);
+          if (winningNumber) match = { winningNumber, raw: { file, line: i + 1, row: lines[i] } };
+        }
+      }
+    }
+
+    return match;
+  }
+}
+
+function splitCsvLine(line: string): string[] {
+  return line.split(",").map((c) => c.trim().replace(/^"(.*)"$/, "$1"));
+}
+
+/**
+ * Sin ingesta automática: el número se carga desde la cola de resultados o con /evaluate.
+ */
+export class ManualResultProvider implements ResultProvider {
+  readonly type = "manual";
+
+  async fetch(): Promise<FetchedResult | null> {
+    return null;
+  }
+}
+
+export function createResultProvider(config: ResultsProviderConfig): ResultProvider {
+  switch (config.type) {
+    case "http":
+      return new HttpJsonResultProvider();
+    case "csv":
+      return new CsvDropFolderResultProvider();
+    case "manual":
+      return new ManualResultProvider();
+  }
+}
@@ -0,0 +1,27 @@
+import { ResultsProviderConfig } from "../../types/schemas/databaseJson.schema";
+
+/** Datos del sorteo que recibe un proveedor para buscar su resultado */
+export interface ResultRequest {
+  sorteoId: string;
+  loteriaId: string;
+  loteriaName: string;
+  scheduledAt: Date;
+  digits: number;
+  config: ResultsProviderConfig;
+}
+
+/** Número obtenido del proveedor (sin validar) */
+export interface FetchedResult {
+  winningNumber: string;
+  raw?: Record<string, unknown>;
+}
+
+/**
+ * Fuente de números ganadores. Implementaciones: feed HTTP JSON, carpeta de CSV, manual.
+ * `fetch` devuelve null mientras el resultado todavía no está publicado;
+ * los errores de red/lectura se lanzan y el job reintenta en la siguiente pasada.
+ */
+export interface ResultProvider {
+  readonly type: string;
+  fetch(request: ResultRequest): Promise<FetchedResult | null>;
+}
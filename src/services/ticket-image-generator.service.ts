@@ -48,9 +48,12 @@ interface TicketData {
     };
     isActive: boolean;
     printCount: number | null;
+    verifyCode?: string | null; // Contenido del QR de verificación pública
   };
 }
 
+const QR_SIZE = 96; // Lado del QR en px (antes de escalar)
+
 interface Group {
   amount: number;
   numbers: string[];
@@ -472,7 +475,41 @@ export async function generateTicketImage(
     }
   }
 
-  // ========== 8. FIRMA DE SEGURIDAD ==========
+  // ========== 8. QR DE VERIFICACIÓN ==========
+  if (ticketData.ticket.verifyCode) {
+    try {
+      const qrBuffer = await bwipjs.toBuffer({
+        bcid: 'qrcode',
+        text: ticketData.ticket.verifyCode,
+        scale: 2 * scale,
+        paddingwidth: 0,
+        paddingheight: 0,
+      });
+      const qrImage = await loadImage(qrBuffer);
+      const qrSize = QR_SIZE * scale;
+
+      y += 4 * scale;
+      ctx.drawImage(qrImage, (canvasWidth - qrSize) / 2, y, qrSize, qrSize);
+      y += qrSize + 4 * scale;
+
+      ctx.font = `${11 * scale}px monospace`;
+      ctx.textAlign = 'center';
+      ctx.fillText('Verifique su tiquete', canvasWidth / 2, y);
+      y += 11 * scale + 4 * scale;
+    } catch (error: any) {
+      // Sin QR el tiquete sigue siendo válido; solo se pierde la verificación pública
+      logger.warn({
+        layer: 'service',
+        action: 'TICKET_QR_GENERATION_FAILED',
+        payload: {
+          ticketId: ticketData.ticket.id,
+          error: error.message,
+        },
+      });
+    }
+  }
+
+  // ========== 9. FIRMA DE SEGURIDAD ==========
   if (process.env.ENABLE_TICKET_REPRINTS === 'true') {
     y += 4 * scale;
     ctx.font = `900 ${11 * scale}px monospace`;
@@ -558,6 +595,11 @@ function calculateTicketHeight(
     height += 12 * scale + 4 * scale + 50 * scale; // Texto + espacio para código de barras
   }
 
+  // QR DE VERIFICACIÓN
+  if (ticketData.ticket.verifyCode) {
+    height += 4 * scale + QR_SIZE * scale + 4 * scale + 11 * scale + 4 * scale;
+  }
+
   // FIRMA DE SEGURIDAD
   if (process.env.ENABLE_TICKET_REPRINTS === 'true') {
     height += 11 * scale + 8 * scale;
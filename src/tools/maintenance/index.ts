@@ -4,10 +4,14 @@ import { join, dirname } from "path";
 import { parseArgs, requireFlag, optionalFlag, flagAsBoolean } from "./utils/argParser";
 import { parseDateRange } from "./utils/dateRange";
 import { clonePolicies } from "./tasks/clonePolicies";
+import { cloneBanca } from "./tasks/cloneBanca";
 import { processTickets } from "./tasks/processTickets";
 import { reapplyCommissions } from "./tasks/reapplyCommissions";
 import { purgeTickets } from "./tasks/purgeTickets";
 import { backfillSorteoClosed } from "./tasks/backfillSorteoClosed";
+import { backfillTenant, tenantReport } from "./tasks/tenantBackfill";
+import { moneyReconciliation } from "./tasks/moneyReconciliation";
+import { ledgerReplay } from "./tasks/ledgerReplay";
 import { info, error, success, warn } from "./utils/logger";
 
 async function main() {
@@ -19,6 +23,9 @@ async function main() {
       case "clone-policies":
         await handleClonePolicies(flags);
         break;
+      case "clone-banca":
+        await handleCloneBanca(flags);
+        break;
       case "recalc-commissions":
         await handleRecalc(flags);
         break;
@@ -34,6 +41,18 @@ async function main() {
       case "backfill-sorteo-closed":
         await handleBackfillSorteoClosed(flags);
         break;
+      case "tenant-report":
+        await handleTenantReport(flags);
+        break;
+      case "backfill-tenant":
+        await handleBackfillTenant(flags);
+        break;
+      case "money-reconciliation":
+        await handleMoneyReconciliation(flags);
+        break;
+      case "ledger-replay":
+        await handleLedgerReplay(flags);
+        break;
       case "help":
       default:
         printHelp();
@@ -58,6 +77,12 @@ Comandos disponibles:
     [--include-banca]
     [--dry-run]
 
+  clone-banca              Crea una banca nueva copiando la configuración de otra
+    --template-banca <id>
+    --name <nombre>
+    --code <código>
+    [--dry-run]
+
   recalc-commissions       Normaliza multipliers y recalcula comisiones
     --from YYYY-MM-DD
     --to YYYY-MM-DD
@@ -84,6 +109,21 @@ Comandos disponibles:
   backfill-sorteo-closed   Marca tickets de sorteos CLOSED como isSorteoClosed
     [--dry-run]
     [--limit N] (procesar máximo N sorteos, para testing)
+
+  tenant-report            Lista tiquetes/jugadas/agregados cuya banca no coincide con la de su ventana
+    [--limit N] (filas por tabla en el reporte, default 500)
+
+  backfill-tenant          Corrige bancaId de Ticket, Jugada y DailyNumberSales desde la ventana
+    [--batch-size N] (default 5000)
+    [--dry-run]
+
+  money-reconciliation     Montos que cambiaron al convertir a Decimal(15,2) y tiquetes que no cuadran con sus jugadas
+    [--limit N] (filas en el reporte, default 500)
+
+  ledger-replay            Reconstruye el libro de cuentas (saldo de apertura, sorteos, pagos) de un rango
+    --from YYYY-MM-DD
+    --to YYYY-MM-DD
+    [--dry-run]
 `);
 }
 
@@ -104,6 +144,16 @@ async function handleClonePolicies(flags: Record<string, string | boolean>) {
   });
 }
 
+async function handleCloneBanca(flags: Record<string, string | boolean>) {
+  const templateBancaId = requireFlag(flags, "template-banca");
+  const name = requireFlag(flags, "name");
+  const code = requireFlag(flags, "code");
+  const dryRun = flagAsBoolean(flags, "dry-run");
+
+  info(`Clonando banca ${templateBancaId} -> ${name} (${code}) (dryRun=${dryRun})`);
+  await cloneBanca({ templateBancaId, name, code, dryRun });
+}
+
 async function handleRecalc(flags: Record<string, string | boolean>) {
   const from = requireFlag(flags, "from");
   const to = requireFlag(flags, "to");
@@ -187,6 +237,48 @@ async function handleBackfillSorteoClosed(flags: Record<string, string | boolean
   await backfillSorteoClosed({ dryRun, limit });
 }
 
+async function handleTenantReport(flags: Record<string, string | boolean>) {
+  const limitStr = optionalFlag(flags, "limit");
+  const report = await tenantReport({ limit: limitStr ? parseInt(limitStr, 10) : undefined });
+
+  const reportPath = join(process.cwd(), "debug", `tenant-report-${report.generatedAt.slice(0, 10)}.json`);
+  mkdirSync(dirname(reportPath), { recursive: true });
+  writeFileSync(reportPath, JSON.stringify(report, null, 2));
+  success(`Reporte escrito en ${reportPath}`);
+}
+
+async function handleBackfillTenant(flags: Record<string, string | boolean>) {
+  const dryRun = flagAsBoolean(flags, "dry-run");
+  const batchSizeStr = optionalFlag(flags, "batch-size");
+
+  await backfillTenant({ dryRun, batchSize: batchSizeStr ? parseInt(batchSizeStr, 10) : undefined });
+}
+
+async function handleMoneyReconciliation(flags: Record<string, string | boolean>) {
+  const limitStr = optionalFlag(flags, "limit");
+  const report = await moneyReconciliation({ limit: limitStr ? parseInt(limitStr, 10) : undefined });
+
+  const reportPath = join(process.cwd(), "debug", `money-reconciliation-${report.generatedAt.slice(0, 10)}.json`);
+  mkdirSync(dirname(reportPath), { recursive: true });
+  writeFileSync(reportPath, JSON.stringify(report, null, 2));
+  success(`Reporte escrito en ${reportPath}`);
+}
+
+async function handleLedgerReplay(flags: Record<string, string | boolean>) {
+  const from = requireFlag(flags, "from");
+  const to = requireFlag(flags, "to");
+  const dryRun = flagAsBoolean(flags, "dry-run");
+
+  parseDateRange(from, to);
+  info(`Reconstruyendo libro de cuentas ${from} - ${to} (dryRun=${dryRun})`);
+  const report = await ledgerReplay({ from, to, dryRun });
+
+  const reportPath = join(process.cwd(), "debug", `ledger-replay-${from}-${to}.json`);
+  mkdirSync(dirname(reportPath), { recursive: true });
+  writeFileSync(reportPath, JSON.stringify(report, null, 2));
+  success(`Reporte escrito en ${reportPath}`);
+}
+
 main().catch((err) => {
   error((err as Error).message);
   process.exitCode = 1;
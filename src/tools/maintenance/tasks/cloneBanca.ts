@@ -0,0 +1,28 @@
+import { BancaCloneService } from "../../../api/v1/services/bancaClone.service";
+import { CloneBancaOptions } from "../types";
+import { info, success, warn } from "../utils/logger";
+
+export async function cloneBanca(options: CloneBancaOptions) {
+  const result = await BancaCloneService.clone(
+    options.templateBancaId,
+    { name: options.name, code: options.code, dryRun: options.dryRun },
+    null
+  );
+
+  const { created, skipped } = result;
+  info(
+    `Loterías: ${created.loterias}, multiplicadores: ${created.multipliers}, settings por lotería: ${created.loteriaSettings}, reglas: ${created.restrictionRules}`
+  );
+  info(
+    `Auto-sorteos: ${created.sorteosAutoConfig}, liquidación: ${created.settlementConfig}, política de comisión: ${created.commissionPolicy ? "sí" : "no"}`
+  );
+  if (skipped.restrictionRules > 0) {
+    warn(`${skipped.restrictionRules} reglas de ventana/vendedor o de fecha puntual no se copian`);
+  }
+
+  if (result.dryRun) {
+    success(`Dry-run: se crearía la banca ${options.name} (${options.code}) a partir de ${result.template.name}`);
+    return;
+  }
+  success(`Banca ${result.banca.name} creada (${result.banca.id}) a partir de ${result.template.name}`);
+}
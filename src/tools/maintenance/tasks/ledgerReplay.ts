@@ -0,0 +1,149 @@
+/**
+ * TASK: Reconstrucción del libro de cuentas (LedgerEntry) sobre un rango de fechas
+ *
+ * - Saldo de apertura: cada entidad con estado de cuenta antes de --from arranca con el
+ *   saldo de su último statement (asiento OPENING al día anterior a --from).
+ * - Sorteos del rango: ventas, premios y comisiones por vendedor, ventana y banca.
+ * - Pagos y cobros del rango, con sus reversiones.
+ *
+ * Idempotente: cada origen se asienta por diferencia, así que correrlo de nuevo solo agrega
+ * las correcciones que falten. Con --dry-run calcula los asientos sin escribir.
+ *
+ * Uso:
+ *   npx ts-node src/tools/maintenance/index.ts ledger-replay --from YYYY-MM-DD --to YYYY-MM-DD [--dry-run]
+ */
+
+import prisma from "../../../core/prismaClient";
+import { Prisma } from "../../../generated/prisma/client";
+import { AccountLedgerService } from "../../../api/v1/services/accounts/accounts.ledger";
+import { LedgerDimension, LedgerPosting } from "../../../api/v1/services/accounts/accounts.ledger.helpers";
+import { sumMoney } from "../../../utils/decimal";
+import { info, success, warn } from "../utils/logger";
+
+export interface LedgerReplayOptions {
+  from: string; // YYYY-MM-DD (día de negocio CR)
+  to: string;
+  dryRun?: boolean;
+}
+
+type OpeningRow = {
+  bancaId: string | null;
+  vendedorId: string | null;
+  ventanaId: string | null;
+  balance: number;
+};
+
+type SourceSummary = { sources: number; journals: number; failed: number; net: number };
+
+const emptySummary = (): SourceSummary => ({ sources: 0, journals: 0, failed: 0, net: 0 });
+
+function dayBefore(dateStr: string) {
+  const d = new Date(`${dateStr}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Asienta un origen y acumula el resumen. Un origen que falla no detiene el resto:
+ * queda en `failures` para revisarlo y volver a correr.
+ */
+async function replaySource(
+  summary: SourceSummary,
+  failures: Array<{ source: string; id: string; error: string }>,
+  source: string,
+  id: string,
+  fn: () => Promise<LedgerPosting[]>
+) {
+  summary.sources++;
+  try {
+    const postings = await fn();
+    summary.journals += postings.length;
+    summary.net = sumMoney([summary.net, ...postings.map((p) => p.amount)]);
+  } catch (err) {
+    summary.failed++;
+    failures.push({ source, id, error: (err as Error).message });
+  }
+}
+
+export async function ledgerReplay(opts: LedgerReplayOptions) {
+  const { from, to, dryRun = false } = opts;
+  const openingDate = dayBefore(from);
+  const summary = { opening: emptySummary(), sorteos: emptySummary(), payments: emptySummary() };
+  const failures: Array<{ source: string; id: string; error: string }> = [];
+
+  // 1. Saldo de apertura: último statement de cada entidad antes del rango
+  const openings = await prisma.$queryRaw<OpeningRow[]>(Prisma.sql`
+    SELECT DISTINCT ON (COALESCE(s."vendedorId", s."ventanaId", s."bancaId"))
+      s."bancaId"::text AS "bancaId",
+      s."vendedorId"::text AS "vendedorId",
+      s."ventanaId"::text AS "ventanaId",
+      s."remainingBalance" AS balance
+    FROM "AccountStatement" s
+    WHERE s.date < ${from}::date
+    ORDER BY COALESCE(s."vendedorId", s."ventanaId", s."bancaId"), s.date DESC
+  `);
+  info(`Saldos de apertura al ${openingDate}: ${openings.length} entidades`);
+
+  for (const row of openings) {
+    const [dimension, entityId]: [LedgerDimension, string | null] = row.vendedorId
+      ? ["vendedor", row.vendedorId]
+      : row.ventanaId
+        ? ["ventana", row.ventanaId]
+        : ["banca", row.bancaId];
+    if (!row.bancaId || !entityId) continue;
+    await replaySource(summary.opening, failures, "OPENING", entityId, () =>
+      AccountLedgerService.postOpening(
+        { bancaId: row.bancaId!, dimension, entityId, businessDate: openingDate, balance: row.balance },
+        { dryRun }
+      )
+    );
+  }
+
+  // 2. Sorteos del rango (también los revertidos: su asiento vuelve a cero)
+  const sorteos = await prisma.$queryRaw<{ id: string }[]>(Prisma.sql`
+    SELECT s.id::text AS id
+    FROM "Sorteo" s
+    WHERE DATE(s."scheduledAt" AT TIME ZONE 'UTC' AT TIME ZONE 'America/Costa_Rica')
+          BETWEEN ${from}::date AND ${to}::date
+    ORDER BY s."scheduledAt" ASC
+  `);
+  info(`Sorteos del rango: ${sorteos.length}`);
+  for (const sorteo of sorteos) {
+    await replaySource(summary.sorteos, failures, "SORTEO", sorteo.id, () =>
+      AccountLedgerService.postSorteo(sorteo.id, { dryRun })
+    );
+  }
+
+  // 3. Pagos y cobros del rango
+  const payments = await prisma.accountPayment.findMany({
+    where: { date: { gte: new Date(`${from}T00:00:00.000Z`), lte: new Date(`${to}T00:00:00.000Z`) } },
+    orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+    select: { id: true },
+  });
+  info(`Pagos y cobros del rango: ${payments.length}`);
+  for (const payment of payments) {
+    await replaySource(summary.payments, failures, "ACCOUNT_PAYMENT", payment.id, () =>
+      AccountLedgerService.postPayment(payment.id, { dryRun })
+    );
+  }
+
+  const journals = summary.opening.journals + summary.sorteos.journals + summary.payments.journals;
+  if (failures.length > 0) {
+    warn(`Orígenes con error: ${failures.length} (ver reporte)`);
+  }
+  if (journals === 0) {
+    success("El libro ya cuadra con la historia del rango: no hay asientos pendientes.");
+  } else {
+    success(`${dryRun ? "Asientos por registrar" : "Asientos registrados"}: ${journals}`);
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    from,
+    to,
+    dryRun,
+    openingDate,
+    summary,
+    failures,
+  };
+}
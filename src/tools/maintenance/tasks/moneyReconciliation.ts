@@ -0,0 +1,147 @@
+/**
+ * TASK: Conciliación de la migración de montos Float → Decimal(15,2)
+ *
+ * - Resume por tabla/columna las filas cuyo valor cambió al redondear a céntimos
+ *   (MoneyConversionAudit, escrita por la migración money_decimal) y lista las primeras.
+ * - Verifica que los totales guardados en el tiquete sigan cuadrando con sus jugadas
+ *   (venta y premio) después del redondeo por fila.
+ *
+ * Uso:
+ *   npx ts-node src/tools/maintenance/index.ts money-reconciliation [--limit N]
+ */
+
+import prisma from "../../../core/prismaClient";
+import { Prisma } from "../../../generated/prisma/client";
+import { info, success, warn } from "../utils/logger";
+
+export interface MoneyReconciliationOptions {
+  limit?: number;
+}
+
+type ColumnSummaryRow = {
+  tableName: string;
+  columnName: string;
+  rows: number;
+  oldTotal: number;
+  newTotal: number;
+  delta: number;
+  maxAbsDelta: number;
+};
+
+type ChangedRow = {
+  tableName: string;
+  rowId: string;
+  columnName: string;
+  oldValue: number;
+  newValue: number;
+  delta: number;
+};
+
+type TicketMismatchRow = {
+  id: string;
+  ticketNumber: string;
+  stored: number;
+  fromJugadas: number;
+};
+
+const DEFAULT_REPORT_LIMIT = 500;
+
+// Jugadas que cuentan en la venta del tiquete / premios de jugadas ganadoras (alias t = Ticket)
+const ticketSalesMismatch = Prisma.sql`
+  FROM "Ticket" t
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(SUM(j.amount), 0) AS total
+    FROM "Jugada" j
+    WHERE j."ticketId" = t.id AND j."deletedAt" IS NULL
+  ) js
+  WHERE t."deletedAt" IS NULL AND t."totalAmount" <> js.total
+`;
+const ticketPayoutMismatch = Prisma.sql`
+  FROM "Ticket" t
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(SUM(j.payout), 0) AS total
+    FROM "Jugada" j
+    WHERE j."ticketId" = t.id AND j."deletedAt" IS NULL AND j."isWinner" = true
+  ) js
+  WHERE t."deletedAt" IS NULL AND t."isWinner" = true AND COALESCE(t."totalPayout", 0) <> js.total
+`;
+
+/**
+ * Reporte de conciliación: cuántas filas cambiaron por columna (y cuánto), las primeras
+ * filas cambiadas y los tiquetes cuyo total ya no coincide con la suma de sus jugadas.
+ */
+export async function moneyReconciliation(opts: MoneyReconciliationOptions = {}) {
+  const limit = opts.limit ?? DEFAULT_REPORT_LIMIT;
+
+  const [columns, changedRows, salesCount, payoutCount] = await Promise.all([
+    prisma.$queryRaw<ColumnSummaryRow[]>(Prisma.sql`
+      SELECT
+        "tableName",
+        "columnName",
+        COUNT(*)::int AS rows,
+        ROUND(SUM("oldValue")::numeric, 2) AS "oldTotal",
+        SUM("newValue") AS "newTotal",
+        ROUND(SUM("newValue" - "oldValue"::numeric), 2) AS delta,
+        ROUND(MAX(ABS("newValue" - "oldValue"::numeric)), 4) AS "maxAbsDelta"
+      FROM "MoneyConversionAudit"
+      GROUP BY "tableName", "columnName"
+      ORDER BY "tableName", "columnName"
+    `),
+    prisma.$queryRaw<ChangedRow[]>(Prisma.sql`
+      SELECT
+        "tableName", "rowId", "columnName", "oldValue", "newValue",
+        ROUND("newValue" - "oldValue"::numeric, 4) AS delta
+      FROM "MoneyConversionAudit"
+      ORDER BY ABS("newValue" - "oldValue"::numeric) DESC, "tableName", "rowId"
+      LIMIT ${limit}
+    `),
+    prisma.$queryRaw<{ count: bigint }[]>(Prisma.sql`SELECT COUNT(*)::bigint AS count ${ticketSalesMismatch}`),
+    prisma.$queryRaw<{ count: bigint }[]>(Prisma.sql`SELECT COUNT(*)::bigint AS count ${ticketPayoutMismatch}`),
+  ]);
+
+  const [ticketSales, ticketPayouts] = await Promise.all([
+    prisma.$queryRaw<TicketMismatchRow[]>(Prisma.sql`
+      SELECT t.id, t."ticketNumber", t."totalAmount" AS stored, js.total AS "fromJugadas"
+      ${ticketSalesMismatch}
+      ORDER BY t."createdAt" ASC
+      LIMIT ${limit}
+    `),
+    prisma.$queryRaw<TicketMismatchRow[]>(Prisma.sql`
+      SELECT t.id, t."ticketNumber", t."totalPayout" AS stored, js.total AS "fromJugadas"
+      ${ticketPayoutMismatch}
+      ORDER BY t."createdAt" ASC
+      LIMIT ${limit}
+    `),
+  ]);
+
+  const changed = columns.reduce((acc, c) => acc + c.rows, 0);
+  const counts = {
+    changedValues: changed,
+    ticketSalesMismatches: Number(salesCount[0]?.count ?? 0),
+    ticketPayoutMismatches: Number(payoutCount[0]?.count ?? 0),
+  };
+
+  if (changed === 0) {
+    success("Ningún monto cambió al convertir a Decimal(15,2).");
+  } else {
+    for (const c of columns) {
+      info(`${c.tableName}.${c.columnName}: ${c.rows} filas, diferencia total ${c.delta}, máxima ${c.maxAbsDelta}`);
+    }
+    warn(`Montos redondeados a céntimos: ${changed}`);
+  }
+  if (counts.ticketSalesMismatches + counts.ticketPayoutMismatches > 0) {
+    warn(
+      `Tiquetes que no cuadran con sus jugadas: ${counts.ticketSalesMismatches} en venta, ${counts.ticketPayoutMismatches} en premio`
+    );
+  } else {
+    success("Los totales de los tiquetes cuadran con sus jugadas.");
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    counts,
+    limit,
+    columns,
+    rows: { changed: changedRows, ticketSales, ticketPayouts },
+  };
+}
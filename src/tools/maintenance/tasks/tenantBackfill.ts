@@ -0,0 +1,211 @@
+/**
+ * TASK: Banca (tenant) de tiquetes, jugadas y agregados heredados
+ *
+ * - tenant-report: lista las filas cuyo bancaId falta o no coincide con la banca de su ventana.
+ * - backfill-tenant: corrige Ticket.bancaId (ventana → sorteo → lotería), luego Jugada.bancaId
+ *   desde su tiquete, DailyNumberSales.bancaId desde su ventana y completa el bancaId faltante
+ *   de AccountStatement / AccountPayment. Idempotente, por lotes.
+ *
+ * Uso:
+ *   npx ts-node src/tools/maintenance/index.ts tenant-report [--limit N]
+ *   npx ts-node src/tools/maintenance/index.ts backfill-tenant [--dry-run] [--batch-size N]
+ */
+
+import prisma from "../../../core/prismaClient";
+import { Prisma } from "../../../generated/prisma/client";
+import { resolvedTicketBancaSql, ticketTenantJoinsSql } from "../../../core/tenantResolution";
+import { info, success, warn } from "../utils/logger";
+
+export interface TenantReportOptions {
+  limit?: number;
+}
+
+export interface BackfillTenantOptions {
+  dryRun?: boolean;
+  batchSize?: number;
+}
+
+type MismatchRow = {
+  id: string;
+  ticketId: string | null;
+  ventanaId: string;
+  bancaId: string | null;
+  expectedBancaId: string | null;
+};
+
+type CountRow = { count: bigint };
+
+const DEFAULT_REPORT_LIMIT = 500;
+const DEFAULT_BATCH_SIZE = 5000;
+
+// Condiciones de desacuerdo por tabla (alias t = Ticket, j = Jugada, d = DailyNumberSales)
+const ticketMismatch = Prisma.sql`t."bancaId" IS DISTINCT FROM ${resolvedTicketBancaSql}`;
+const jugadaMismatch = Prisma.sql`jt."bancaId" IS NOT NULL AND j."bancaId" IS DISTINCT FROM jt."bancaId"`;
+const dailyMismatch = Prisma.sql`d."bancaId" <> dv."bancaId"`;
+
+/** Ventana de un estado de cuenta / pago: la propia o la del vendedor (alias a) */
+const accountVentanaSql = Prisma.sql`COALESCE(a."ventanaId", (SELECT u."ventanaId" FROM "User" u WHERE u.id = a."vendedorId"))`;
+
+async function count(query: Prisma.Sql): Promise<number> {
+  const [row] = await prisma.$queryRaw<CountRow[]>(query);
+  return Number(row?.count ?? 0);
+}
+
+async function countMismatches() {
+  const [tickets, jugadas, dailyNumberSales] = await Promise.all([
+    count(Prisma.sql`SELECT COUNT(*)::bigint AS count FROM "Ticket" t ${ticketTenantJoinsSql} WHERE ${ticketMismatch}`),
+    // Jugada contra la banca (ya resuelta) de su tiquete
+    count(Prisma.sql`
+      SELECT COUNT(*)::bigint AS count
+      FROM "Jugada" j
+      INNER JOIN "Ticket" t ON t.id = j."ticketId"
+      ${ticketTenantJoinsSql}
+      CROSS JOIN LATERAL (SELECT ${resolvedTicketBancaSql} AS "bancaId") jt
+      WHERE ${jugadaMismatch}
+    `),
+    count(Prisma.sql`
+      SELECT COUNT(*)::bigint AS count
+      FROM "DailyNumberSales" d
+      INNER JOIN "Ventana" dv ON dv.id = d."ventanaId"
+      WHERE ${dailyMismatch}
+    `),
+  ]);
+  return { tickets, jugadas, dailyNumberSales };
+}
+
+/**
+ * Reporte de verificación: conteos y primeras filas de cada tabla cuyo bancaId
+ * falta o difiere del de la ventana.
+ */
+export async function tenantReport(opts: TenantReportOptions = {}) {
+  const limit = opts.limit ?? DEFAULT_REPORT_LIMIT;
+  const counts = await countMismatches();
+
+  const [tickets, jugadas, dailyNumberSales] = await Promise.all([
+    prisma.$queryRaw<MismatchRow[]>(Prisma.sql`
+      SELECT t.id, t.id AS "ticketId", t."ventanaId", t."bancaId", ${resolvedTicketBancaSql} AS "expectedBancaId"
+      FROM "Ticket" t
+      ${ticketTenantJoinsSql}
+      WHERE ${ticketMismatch}
+      ORDER BY t."createdAt" ASC
+      LIMIT ${limit}
+    `),
+    prisma.$queryRaw<MismatchRow[]>(Prisma.sql`
+      SELECT j.id, j."ticketId", t."ventanaId", j."bancaId", jt."bancaId" AS "expectedBancaId"
+      FROM "Jugada" j
+      INNER JOIN "Ticket" t ON t.id = j."ticketId"
+      ${ticketTenantJoinsSql}
+      CROSS JOIN LATERAL (SELECT ${resolvedTicketBancaSql} AS "bancaId") jt
+      WHERE ${jugadaMismatch}
+      ORDER BY j."createdAt" ASC
+      LIMIT ${limit}
+    `),
+    prisma.$queryRaw<MismatchRow[]>(Prisma.sql`
+      SELECT d.id, NULL AS "ticketId", d."ventanaId", d."bancaId", dv."bancaId" AS "expectedBancaId"
+      FROM "DailyNumberSales" d
+      INNER JOIN "Ventana" dv ON dv.id = d."ventanaId"
+      WHERE ${dailyMismatch}
+      LIMIT ${limit}
+    `),
+  ]);
+
+  const total = counts.tickets + counts.jugadas + counts.dailyNumberSales;
+  if (total === 0) {
+    success("Todas las filas coinciden con la banca de su ventana.");
+  } else {
+    warn(
+      `Filas con banca inconsistente: ${counts.tickets} tiquetes, ${counts.jugadas} jugadas, ${counts.dailyNumberSales} agregados`
+    );
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    counts,
+    limit,
+    rows: { tickets, jugadas, dailyNumberSales },
+  };
+}
+
+/** Ejecuta un UPDATE por lotes hasta que no queden filas por corregir */
+async function updateInBatches(label: string, statement: (batchSize: number) => Prisma.Sql, batchSize: number) {
+  let updated = 0;
+  for (;;) {
+    const affected = await prisma.$executeRaw(statement(batchSize));
+    updated += affected;
+    if (affected > 0) info(`${label}: ${updated} filas corregidas`);
+    if (affected < batchSize) return updated;
+  }
+}
+
+export async function backfillTenant(opts: BackfillTenantOptions = {}) {
+  const batchSize = opts.batchSize ?? DEFAULT_BATCH_SIZE;
+  const pending = await countMismatches();
+  info(
+    `Pendientes: ${pending.tickets} tiquetes, ${pending.jugadas} jugadas, ${pending.dailyNumberSales} agregados (dryRun=${opts.dryRun ? "sí" : "no"})`
+  );
+
+  if (opts.dryRun) {
+    warn("dryRun habilitado: no se modificarán registros.");
+    return { dryRun: true, pending, updated: null };
+  }
+
+  // 1. Tiquetes primero: las jugadas toman la banca ya corregida de su tiquete
+  const tickets = await updateInBatches(
+    "Ticket",
+    (size) => Prisma.sql`
+      WITH batch AS (
+        SELECT t.id, ${resolvedTicketBancaSql} AS "expected"
+        FROM "Ticket" t
+        ${ticketTenantJoinsSql}
+        WHERE ${ticketMismatch}
+        LIMIT ${size}
+      )
+      UPDATE "Ticket" t SET "bancaId" = batch."expected"
+      FROM batch
+      WHERE t.id = batch.id
+    `,
+    batchSize
+  );
+
+  const jugadas = await updateInBatches(
+    "Jugada",
+    (size) => Prisma.sql`
+      WITH batch AS (
+        SELECT j.id, t."bancaId" AS "expected"
+        FROM "Jugada" j
+        INNER JOIN "Ticket" t ON t.id = j."ticketId"
+        WHERE t."bancaId" IS NOT NULL AND j."bancaId" IS DISTINCT FROM t."bancaId"
+        LIMIT ${size}
+      )
+      UPDATE "Jugada" j SET "bancaId" = batch."expected"
+      FROM batch
+      WHERE j.id = batch.id
+    `,
+    batchSize
+  );
+
+  // 2. Agregados: la clave única no incluye bancaId, se corrigen en sitio
+  const dailyNumberSales = await prisma.$executeRaw(Prisma.sql`
+    UPDATE "DailyNumberSales" d SET "bancaId" = dv."bancaId"
+    FROM "Ventana" dv
+    WHERE dv.id = d."ventanaId" AND ${dailyMismatch}
+  `);
+
+  // 3. Estados de cuenta y pagos heredados sin banca (el aislamiento por banca los ocultaría)
+  const accountStatements = await prisma.$executeRaw(Prisma.sql`
+    UPDATE "AccountStatement" a SET "bancaId" = v."bancaId"
+    FROM "Ventana" v
+    WHERE a."bancaId" IS NULL AND v.id = ${accountVentanaSql}
+  `);
+  const accountPayments = await prisma.$executeRaw(Prisma.sql`
+    UPDATE "AccountPayment" a SET "bancaId" = v."bancaId"
+    FROM "Ventana" v
+    WHERE a."bancaId" IS NULL AND v.id = ${accountVentanaSql}
+  `);
+
+  const updated = { tickets, jugadas, dailyNumberSales, accountStatements, accountPayments };
+  success(
+    `Corregidos ${tickets} tiquetes, ${jugadas} jugadas, ${dailyNumberSales} agregados, ${accountStatements} estados de cuenta y ${accountPayments} pagos.`
+  );
+  return { dryRun: false, pending, updated };
+}
@@ -17,6 +17,13 @@ export interface ClonePoliciesOptions {
   dryRun?: boolean;
 }
 
+export interface CloneBancaOptions {
+  templateBancaId: string;
+  name: string;
+  code: string;
+  dryRun?: boolean;
+}
+
 export interface TicketRangeOptions {
   from: Date;
   to: Date;
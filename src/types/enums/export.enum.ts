@@ -2,7 +2,8 @@ export enum ExportFormat {
   CSV = 'csv',
   EXCEL = 'excel',
   XLSX = 'xlsx',
-  PDF = 'pdf'
+  PDF = 'pdf',
+  JSON = 'json' // solo exportación asíncrona (async=true)
 }
 
 export enum ListaMode {
@@ -36,8 +36,119 @@ export const LoteriaRulesSchema = z.object({
   }),
 });
 
+/**
+ * Proveedor de resultados de la lotería (rulesJson.resultsProvider).
+ * - http: GET a `url` (admite {date}, {time}, {loteria}, {code}) y lee el número en `numberPath`
+ * - csv: archivos .csv en `directory` con columnas loteria,date,time,number
+ * - manual: sin ingesta automática; el número se carga a mano
+ */
+export const ResultsProviderConfigSchema = z.object({
+  type: z.enum(["http", "csv", "manual"]),
+  url: z.string().url("url inválida").optional(),
+  numberPath: z.string().min(1).optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  directory: z.string().min(1).optional(),
+  /** Identificador de la lotería en el feed; por defecto su nombre */
+  externalCode: z.string().min(1).optional(),
+  /** auto: evalúa al recibir el número; confirm: queda en cola para confirmación */
+  mode: z.enum(["auto", "confirm"]).default("confirm"),
+  /** Minutos después de scheduledAt antes de consultar al proveedor */
+  delayMinutes: z.number().int().min(0).max(720).default(5),
+}).superRefine((cfg, ctx) => {
+  if (cfg.type === "http" && !cfg.url) {
+    ctx.addIssue({ code: "custom", path: ["url"], message: "url es requerida para el proveedor http" });
+  }
+  if (cfg.type === "csv" && !cfg.directory) {
+    ctx.addIssue({ code: "custom", path: ["directory"], message: "directory es requerido para el proveedor csv" });
+  }
+});
+
+/**
+ * Política de anulación de tiquetes (cancellationPolicyJson en Banca y Ventana).
+ * La ventana sobreescribe campo por campo a la banca; null = sin límite.
+ * Aplica a las anulaciones hechas por VENDEDOR.
+ */
+export const CancellationPolicySchema = z.object({
+  /** Minutos máximos desde la venta para anular */
+  maxMinutesAfterSale: z.number().int().min(0).nullable().optional(),
+  /** Minutos mínimos antes de scheduledAt del sorteo para anular */
+  minMinutesBeforeSorteo: z.number().int().min(0).nullable().optional(),
+  /** Anulaciones máximas por vendedor en el día */
+  maxPerVendedorPerDay: z.number().int().min(0).nullable().optional(),
+  /** approval: fuera de política queda pendiente de aprobación; block: se rechaza */
+  onViolation: z.enum(["approval", "block"]).optional(),
+}).strict();
+
+/**
+ * Política de pago de premios de una banca (Banca.payoutPolicyJson); null = sin límite.
+ * Las reglas de ventana y tope diario aplican a VENTANA/VENDEDOR.
+ */
+export const PayoutPolicySchema = z.object({
+  /** Solo la ventana que vendió el tiquete puede pagarlo */
+  sellingVentanaOnly: z.boolean().optional(),
+  /** Monto máximo que un cajero puede pagar en el día */
+  maxPerCashierPerDay: z.number().min(0).nullable().optional(),
+  /** Premios mayores a este monto requieren aprobación de la banca */
+  approvalThreshold: z.number().min(0).nullable().optional(),
+  /** Días después del sorteo para reclamar el premio */
+  claimDays: z.number().int().min(1).nullable().optional(),
+  /** Plazo por lotería (loteriaId → días); tiene prioridad sobre claimDays */
+  claimDaysByLoteria: z.record(z.uuid(), z.number().int().min(1)).optional(),
+}).strict();
+
+/**
+ * Números calientes (Banca.hotNumberPolicyJson): cuando lo vendido de un número en un sorteo
+ * alcanza una fracción (`share`) de la capacidad de pago, el tramo reduce el monto que
+ * acepta cada tiquete y/o el multiplicador ofrecido. null = desactivado.
+ */
+export const HotNumberPolicySchema = z.object({
+  enabled: z.boolean().default(true),
+  /** Premio máximo que la banca asume por número en un sorteo */
+  payoutCapacity: z.number().positive().nullable().optional(),
+  /** Capacidad como % de la venta del sorteo en la banca; gana el mayor de ambos */
+  salesCapacityPercent: z.number().positive().max(10000).nullable().optional(),
+  tiers: z.array(
+    z.object({
+      /** Fracción de la capacidad (0-1) desde la que aplica el tramo */
+      share: z.number().gt(0).max(1),
+      /** Fracción del saldo disponible del número que puede tomar un solo tiquete */
+      limitFactor: z.number().min(0).max(1).optional(),
+      /** Multiplicador ofrecido para jugadas NUMERO del número en este tramo */
+      multiplierX: z.number().positive().optional(),
+    }).strict().refine((t) => t.limitFactor !== undefined || t.multiplierX !== undefined, {
+      message: "Cada tramo requiere limitFactor o multiplierX",
+    })
+  ).min(1, "Debe definir al menos un tramo").max(10),
+}).strict().superRefine((policy, ctx) => {
+  if (!policy.payoutCapacity && !policy.salesCapacityPercent) {
+    ctx.addIssue({ code: "custom", path: ["payoutCapacity"], message: "Defina payoutCapacity o salesCapacityPercent" });
+  }
+  const shares = policy.tiers.map((t) => t.share);
+  if (new Set(shares).size !== shares.length) {
+    ctx.addIssue({ code: "custom", path: ["tiers"], message: "Los tramos no pueden repetir share" });
+  }
+});
+
+/**
+ * Riesgo por número (Banca.riskPolicyJson): pérdida máxima que la banca acepta si sale un
+ * número de un sorteo abierto; lo que la supere se sugiere ceder a otra banca.
+ */
+export const RiskPolicySchema = z.object({
+  /** Pérdida neta máxima por número (premio − venta neta del sorteo) */
+  maxLossPerNumber: z.number().positive(),
+  /** Multiplicador que paga la banca que recibe la cesión; por defecto el de venta */
+  layOffMultiplierX: z.number().positive().optional(),
+  /** Comisión que la contraparte reconoce sobre lo cedido (0-100) */
+  layOffCommissionPercent: z.number().min(0).max(100).optional(),
+}).strict();
+
 export type CommissionPolicy = z.infer<typeof CommissionPolicySchema>;
 export type LoteriaRules = z.infer<typeof LoteriaRulesSchema>;
+export type ResultsProviderConfig = z.infer<typeof ResultsProviderConfigSchema>;
+export type CancellationPolicy = z.infer<typeof CancellationPolicySchema>;
+export type PayoutPolicy = z.infer<typeof PayoutPolicySchema>;
+export type HotNumberPolicy = z.infer<typeof HotNumberPolicySchema>;
+export type RiskPolicy = z.infer<typeof RiskPolicySchema>;
 
 /**
  * Helper para Parsear de forma segura la política de comisiones de una banca/ventana
@@ -71,3 +182,52 @@ export function safeParseLoteriaRules(json: any, defaultMaxBet: number = 5000):
   }
   return result.data;
 }
+
+/**
+ * Configuración del proveedor de resultados de una lotería, o null si no tiene
+ * (o si es inválida: una lotería mal configurada no debe frenar la ingesta del resto).
+ */
+export function parseResultsProviderConfig(rulesJson: any): ResultsProviderConfig | null {
+  const raw = (rulesJson ?? {})?.resultsProvider;
+  if (!raw) return null;
+  const result = ResultsProviderConfigSchema.safeParse(raw);
+  return result.success ? result.data : null;
+}
+
+/**
+ * Política de anulación guardada en banca/ventana; {} si no tiene o es inválida.
+ */
+export function parseCancellationPolicy(json: any): CancellationPolicy {
+  if (!json) return {};
+  const result = CancellationPolicySchema.safeParse(json);
+  return result.success ? result.data : {};
+}
+
+/**
+ * Política de pago guardada en la banca; {} si no tiene o es inválida.
+ */
+export function parsePayoutPolicy(json: any): PayoutPolicy {
+  if (!json) return {};
+  const result = PayoutPolicySchema.safeParse(json);
+  return result.success ? result.data : {};
+}
+
+/**
+ * Política de números calientes de la banca; null si no tiene, está desactivada o es inválida.
+ * Los tramos se devuelven ordenados por share.
+ */
+export function parseHotNumberPolicy(json: any): HotNumberPolicy | null {
+  if (!json) return null;
+  const result = HotNumberPolicySchema.safeParse(json);
+  if (!result.success || !result.data.enabled) return null;
+  return { ...result.data, tiers: [...result.data.tiers].sort((a, b) => a.share - b.share) };
+}
+
+/**
+ * Política de riesgo de la banca; null si no tiene o es inválida.
+ */
+export function parseRiskPolicy(json: any): RiskPolicy | null {
+  if (!json) return null;
+  const result = RiskPolicySchema.safeParse(json);
+  return result.success ? result.data : null;
+}
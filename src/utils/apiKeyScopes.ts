@@ -0,0 +1,155 @@
+import type { Router } from "express";
+
+/**
+ * Scopes de API keys, declarados en cada ruta de /api/v1.
+ *
+ * Una API key se autentica con el rol BANCA (si está ligada a una banca) o ADMIN
+ * (solo si se emitió como global), siempre que quien la emitió conserve ese rol,
+ * por lo que los guards de roleGuards.middleware siguen aplicando.
+ * Además, la ruta que atiende el request debe declarar con apiKeyScope (apiKeyScope.middleware)
+ * un scope que la key tenga: las rutas con noApiKey o sin declaración quedan denegadas
+ * (incluida la gestión de API keys).
+ */
+
+export const API_KEY_SCOPES = [
+  "tickets:read",
+  "sorteos:read",
+  "sorteos:evaluate",
+  "reports:read",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/** Scope que habilita la ruta, o null si la ruta no admite API keys */
+export type ApiKeyScopeDeclaration = ApiKeyScope | null;
+
+/** Propiedad con la que los middlewares de apiKeyScope.middleware llevan su declaración */
+export const API_KEY_SCOPE_MARK = Symbol("apiKeyScope");
+
+type Declared = { [API_KEY_SCOPE_MARK]?: ApiKeyScopeDeclaration };
+
+/** Lo que se usa de los layers internos de Express 4 (router.stack / route.stack) */
+interface RouteLayer {
+  handle: Declared;
+}
+
+interface StackLayer {
+  handle: Declared & { stack?: StackLayer[] };
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: RouteLayer[];
+    _handles_method(method: string): boolean;
+  };
+  regexp: RegExp & { fast_slash?: boolean };
+  path?: string;
+  match(path: string): boolean;
+}
+
+export type ApiKeyRoute = { method: string; path: string; scope: ApiKeyScopeDeclaration | undefined };
+
+function declarationOf(handle: Declared): ApiKeyScopeDeclaration | undefined {
+  return handle[API_KEY_SCOPE_MARK];
+}
+
+/** Declaración del router para todas sus rutas (router.use(noApiKey)); la de cada ruta la reemplaza */
+function routerDeclaration(stack: StackLayer[], inherited: ApiKeyScopeDeclaration | undefined) {
+  for (const layer of stack) {
+    if (layer.route) continue;
+    const declared = declarationOf(layer.handle);
+    if (declared !== undefined) return declared;
+  }
+  return inherited;
+}
+
+function routeDeclaration(layer: StackLayer, routerDefault: ApiKeyScopeDeclaration | undefined) {
+  for (const routeLayer of layer.route!.stack) {
+    const declared = declarationOf(routeLayer.handle);
+    if (declared !== undefined) return declared;
+  }
+  return routerDefault;
+}
+
+function matches(layer: StackLayer, path: string) {
+  try {
+    return layer.match(path);
+  } catch {
+    // Parámetro mal codificado: Express responde 400 antes de llegar a la ruta
+    return false;
+  }
+}
+
+/**
+ * Recorre el stack como lo hace Express: la primera ruta que atiende método y path decide.
+ * null = ninguna ruta atiende el request.
+ */
+function resolve(
+  stack: StackLayer[],
+  method: string,
+  path: string,
+  inherited: ApiKeyScopeDeclaration | undefined
+): { scope: ApiKeyScopeDeclaration | undefined } | null {
+  const routerDefault = routerDeclaration(stack, inherited);
+  for (const layer of stack) {
+    if (!matches(layer, path)) continue;
+    if (layer.route) {
+      if (layer.route._handles_method(method)) return { scope: routeDeclaration(layer, routerDefault) };
+      continue;
+    }
+    if (layer.handle.stack) {
+      const rest = path.slice((layer.path ?? "").length) || "/";
+      const found = resolve(layer.handle.stack, method, rest.startsWith("/") ? rest : `/${rest}`, routerDefault);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+/** Prefijo de un router montado con router.use: Express 4 solo guarda su expresión regular */
+function mountPath(layer: StackLayer) {
+  if (layer.regexp.fast_slash) return "";
+  return layer.regexp.source
+    .replace(/^\^/, "")
+    .replace(/\\\/\?\(\?=\\\/\|\$\)$/, "")
+    .replace(/\(\?:\(\[\^\\\/]\+\?\)\)/g, ":param")
+    .replace(/\\\//g, "/");
+}
+
+function collect(stack: StackLayer[], prefix: string, inherited: ApiKeyScopeDeclaration | undefined, out: ApiKeyRoute[]) {
+  const routerDefault = routerDeclaration(stack, inherited);
+  for (const layer of stack) {
+    if (layer.route) {
+      const scope = routeDeclaration(layer, routerDefault);
+      for (const method of Object.keys(layer.route.methods)) {
+        out.push({ method: method.toUpperCase(), path: `${prefix}${layer.route.path}`, scope });
+      }
+    } else if (layer.handle.stack) {
+      collect(layer.handle.stack, `${prefix}${mountPath(layer)}`, routerDefault, out);
+    }
+  }
+  return out;
+}
+
+let registered: StackLayer[] | null = null;
+
+/** Router de /api/v1 contra el que protect resuelve la declaración de cada request */
+export function registerApiKeyRoutes(router: Router) {
+  registered = (router as unknown as { stack: StackLayer[] }).stack;
+}
+
+/**
+ * Declaración de la ruta que atenderá el request (undefined si no declara o no existe).
+ * @param path Ruta relativa a /api/v1 (sin query string)
+ */
+export function routeApiKeyScope(method: string, path: string): ApiKeyScopeDeclaration | undefined {
+  if (!registered) return undefined;
+  return resolve(registered, method.toLowerCase(), path, undefined)?.scope;
+}
+
+/** Todas las rutas del router con su declaración, para verificar que ninguna quede sin declarar */
+export function listApiKeyRoutes(router: Router): ApiKeyRoute[] {
+  return collect((router as unknown as { stack: StackLayer[] }).stack, "", undefined, []);
+}
+
+/** Clave de caché de la sesión de una API key (por hash) */
+export const apiKeyCacheKey = (keyHash: string) => `auth:apikey:${keyHash}`;
@@ -1,4 +1,47 @@
 import bcrypt from "bcryptjs";
+import crypto from "crypto";
 
 export const hashPassword = (plain: string) => bcrypt.hash(plain, 8);
 export const comparePassword = (plain: string, hash: string) => bcrypt.compare(plain, hash);
+
+/**
+ * API keys: alta entropía, por lo que basta SHA-256 (permite búsqueda por índice único).
+ * Solo se persiste el hash; la clave en claro se muestra una única vez al emitirla.
+ */
+export const API_KEY_PREFIX = "bk_";
+export const generateApiKey = () => `${API_KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+export const hashApiKey = (plain: string) => crypto.createHash("sha256").update(plain).digest("hex");
+
+/**
+ * Token del QR del tiquete: `<ticketNumber>.<firma>`. La firma (HMAC truncado a 96 bits)
+ * cubre número e id del tiquete: conocer o adivinar el número no basta para consultarlo.
+ */
+const TICKET_VERIFY_SIGNATURE_BYTES = 12;
+
+const ticketVerifySignature = (ticketNumber: string, ticketId: string, secret: string) =>
+  crypto
+    .createHmac("sha256", secret)
+    .update(`ticket-verify:v1:${ticketNumber}:${ticketId}`)
+    .digest()
+    .subarray(0, TICKET_VERIFY_SIGNATURE_BYTES);
+
+export const signTicketVerifyToken = (ticketNumber: string, ticketId: string, secret: string) =>
+  `${ticketNumber}.${ticketVerifySignature(ticketNumber, ticketId, secret).toString("base64url")}`;
+
+/** Separa el token; null si no tiene la forma esperada */
+export const parseTicketVerifyToken = (token: string) => {
+  const dot = token.lastIndexOf(".");
+  if (dot <= 0) return null;
+  return { ticketNumber: token.slice(0, dot), signature: token.slice(dot + 1) };
+};
+
+export const isValidTicketVerifySignature = (
+  ticketNumber: string,
+  ticketId: string,
+  signature: string,
+  secret: string
+) => {
+  const given = Buffer.from(signature, "base64url");
+  const expected = ticketVerifySignature(ticketNumber, ticketId, secret);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
@@ -47,3 +47,44 @@ export const divideDecimals = (
 ): Decimal => {
   return toDecimal(a).div(toDecimal(b));
 };
+
+/**
+ * Dinero: dos decimales (céntimos). En la base los montos son NUMERIC(15,2); en memoria se
+ * opera en unidades menores (enteros) para que sumar en distinto orden no cambie el céntimo.
+ * Redondeo a la mitad lejos de cero, igual que el cast a NUMERIC de PostgreSQL.
+ */
+export type MoneyValue = string | number | Decimal | { toString(): string };
+
+export const MONEY_SCALE = 2;
+
+/** Monto → céntimos (entero) */
+export const toMinorUnits = (value: MoneyValue): number =>
+  toDecimal(value as string | number | Decimal)
+    .toDecimalPlaces(MONEY_SCALE, Decimal.ROUND_HALF_UP)
+    .times(10 ** MONEY_SCALE)
+    .toNumber();
+
+/** Céntimos → monto */
+export const fromMinorUnits = (minor: number): number => minor / 10 ** MONEY_SCALE;
+
+/** Redondea un monto a céntimos */
+export const roundMoney = (value: MoneyValue): number => fromMinorUnits(toMinorUnits(value));
+
+/** Suma montos en céntimos (null/undefined cuentan como 0) */
+export const sumMoney = (values: Array<MoneyValue | null | undefined>): number =>
+  fromMinorUnits(values.reduce<number>((acc, value) => acc + (value == null ? 0 : toMinorUnits(value)), 0));
+
+/** monto × factor (multiplicador, porcentaje/100) redondeado a céntimos */
+export const multiplyMoney = (amount: MoneyValue, factor: MoneyValue): number =>
+  roundMoney(multiplyDecimals(amount as string | number | Decimal, factor as string | number | Decimal));
+
+/** Porcentaje (0-100) de un monto, redondeado a céntimos: comisiones */
+export const percentOfMoney = (amount: MoneyValue, percent: MoneyValue): number =>
+  roundMoney(multiplyDecimals(amount as string | number | Decimal, percent as string | number | Decimal).div(100));
+
+/** Monto leído de Prisma ($queryRaw, Decimal, texto de caché) → número; null se conserva */
+export function toMoneyNumber(value: MoneyValue | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number") return value;
+  return roundMoney(value);
+}
@@ -0,0 +1,111 @@
+/**
+ * Cálculos de calendario y ritmo para metas (Goal).
+ * Las fechas son días YYYY-MM-DD en la TZ del negocio (America/Costa_Rica).
+ */
+
+import { tz } from './timezone';
+import type { GoalPeriod } from '../api/v1/dto/goal.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export type GoalPaceStatus = 'upcoming' | 'on_track' | 'behind' | 'achieved' | 'missed';
+
+export interface GoalPace {
+  actual: number;
+  target: number;
+  pct: number; // % alcanzado
+  totalDays: number;
+  elapsedDays: number;
+  remainingDays: number;
+  projected: number | null; // valor al cierre si se mantiene el ritmo diario
+  projectedPct: number | null;
+  requiredDailyRate: number | null; // lo que falta por día para llegar a la meta
+  status: GoalPaceStatus;
+  message: string;
+}
+
+/** Días entre dos fechas YYYY-MM-DD (b - a) */
+function diffDays(a: string, b: string): number {
+  const [ay, am, ad] = a.split('-').map(Number);
+  const [by, bm, bd] = b.split('-').map(Number);
+  return Math.round((Date.UTC(by, bm - 1, bd) - Date.UTC(ay, am - 1, ad)) / DAY_MS);
+}
+
+function shiftDateStr(dateStr: string, days: number): string {
+  return tz.toDateStr(tz.addDays(tz.parse(`${dateStr}T12:00:00`), days));
+}
+
+/**
+ * Último día (inclusive) de una meta según su periodo.
+ * weekly = 7 días desde startDate; monthly = fin del mes de startDate.
+ */
+export function resolveGoalEndDate(period: GoalPeriod, startDate: string, endDate?: string | null): string {
+  switch (period) {
+    case 'daily':
+      return startDate;
+    case 'weekly':
+      return shiftDateStr(startDate, 6);
+    case 'monthly': {
+      const [y, m] = startDate.split('-').map(Number);
+      const lastDay = new Date(Date.UTC(y, m, 0)).getUTCDate();
+      return `${y}-${String(m).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`;
+    }
+    case 'custom':
+      if (!endDate) throw new Error('endDate es requerido para periodo custom');
+      return endDate;
+  }
+}
+
+/**
+ * Avance contra la meta y proyección lineal: si en `elapsedDays` días se
+ * llevan `actual`, al cierre se llegaría a actual / elapsedDays * totalDays.
+ */
+export function computeGoalPace(params: {
+  actual: number;
+  target: number;
+  startDate: string;
+  endDate: string;
+  today: string;
+}): GoalPace {
+  const { actual, target, startDate, endDate, today } = params;
+  const totalDays = diffDays(startDate, endDate) + 1;
+  const elapsedDays = Math.min(Math.max(diffDays(startDate, today) + 1, 0), totalDays);
+  const remainingDays = totalDays - elapsedDays;
+  const pct = target > 0 ? round2((actual / target) * 100) : 0;
+
+  const ended = today > endDate;
+  const projected = elapsedDays > 0 ? round2(ended ? actual : (actual / elapsedDays) * totalDays) : null;
+  const projectedPct = projected !== null && target > 0 ? round2((projected / target) * 100) : null;
+  const requiredDailyRate = remainingDays > 0 ? round2(Math.max(0, target - actual) / remainingDays) : null;
+
+  let status: GoalPaceStatus;
+  let message: string;
+  if (actual >= target) {
+    status = 'achieved';
+    message = `Meta alcanzada (${pct}%)`;
+  } else if (elapsedDays === 0) {
+    status = 'upcoming';
+    message = `La meta inicia el ${startDate}`;
+  } else if (ended) {
+    status = 'missed';
+    message = `Meta no alcanzada: cerró en ${pct}%`;
+  } else {
+    status = (projectedPct ?? 0) >= 100 ? 'on_track' : 'behind';
+    message = `Al ritmo actual alcanzará el ${Math.round(projectedPct ?? 0)}% de la meta`;
+  }
+
+  return {
+    actual: round2(actual),
+    target,
+    pct,
+    totalDays,
+    elapsedDays,
+    remainingDays,
+    projected,
+    projectedPct,
+    requiredDailyRate,
+    status,
+    message,
+  };
+}
@@ -91,7 +91,7 @@ export const buildMeta = (
 export async function paginateOffset<T>(
   model: {
     findMany: (args: any) => Promise<T[]>;
-    count: (args?: any) => Promise<number>;
+    count: (args: { where?: any }) => Promise<number>;
   },
   options?: {
     where?: Record<string, any>;
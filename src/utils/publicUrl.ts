@@ -0,0 +1,71 @@
+import { lookup } from "dns/promises";
+import net from "net";
+
+/**
+ * Rangos a los que un webhook nunca debe llegar (SSRF): privados, loopback, link-local
+ * (metadatos de nube en 169.254.169.254), CGNAT, multicast y reservados.
+ */
+const BLOCKED = new net.BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  BLOCKED.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED.addSubnet(address, prefix, "ipv6");
+}
+
+const LOCAL_HOSTNAMES = /^(localhost|.*\.localhost|.*\.local|.*\.internal)$/i;
+
+/** true si la IP literal pertenece a una red privada, local o reservada */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return BLOCKED.check(mapped[1], "ipv4");
+  const family = net.isIP(address);
+  if (family === 4) return BLOCKED.check(address, "ipv4");
+  if (family === 6) return BLOCKED.check(address, "ipv6");
+  return false;
+}
+
+/** Validación sin red: nombres locales e IPs literales privadas (para validar la URL al guardarla) */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  return LOCAL_HOSTNAMES.test(host) || isPrivateAddress(host);
+}
+
+/**
+ * Resuelve el host de la URL y devuelve el motivo si alguna de sus direcciones es privada
+ * (o no resuelve); null si es seguro enviarle la petición.
+ */
+export async function publicUrlViolation(url: string): Promise<string | null> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return "URL inválida";
+  }
+  if (isPrivateHost(hostname)) return `El host ${hostname} pertenece a una red privada o local`;
+  if (net.isIP(hostname.replace(/^\[|\]$/g, ""))) return null;
+
+  try {
+    const addresses = await lookup(hostname, { all: true });
+    const blocked = addresses.find((a) => isPrivateAddress(a.address));
+    return blocked ? `El host ${hostname} resuelve a una dirección privada (${blocked.address})` : null;
+  } catch (err: any) {
+    return `No se pudo resolver ${hostname}: ${err?.code ?? err?.message ?? err}`;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Utilidades de calendario para reportes programados.
+ * Todo se calcula en la TZ del negocio (America/Costa_Rica) vía `tz`.
+ */
+
+import { tz } from './timezone';
+import type { ReportFrequency, ReportPeriod } from '../api/v1/dto/savedReport.dto';
+
+export interface ScheduleTiming {
+  frequency: ReportFrequency | string;
+  timeOfDay: string; // HH:mm
+  dayOfWeek?: number | null; // 1=lunes … 7=domingo
+  dayOfMonth?: number | null; // 1-28
+}
+
+/** Día de semana ISO (1=lunes … 7=domingo) en TZ negocio */
+function isoDayOfWeek(date: Date): number {
+  const dow = tz.dayOfWeek(date);
+  return dow === 0 ? 7 : dow;
+}
+
+function shiftDateStr(dateStr: string, days: number): string {
+  return tz.toDateStr(tz.addDays(tz.parse(`${dateStr}T12:00:00`), days));
+}
+
+/**
+ * Resuelve un periodo relativo a fechas YYYY-MM-DD (inclusive) en hora CR.
+ * Las semanas van de lunes a domingo.
+ */
+export function resolveReportPeriod(period: ReportPeriod, now: Date = new Date()): { from: string; to: string } {
+  const today = tz.toDateStr(now);
+  const dow = isoDayOfWeek(now);
+  const [y, m] = today.split('-').map(Number);
+  const monthStart = `${y}-${String(m).padStart(2, '0')}-01`;
+
+  switch (period) {
+    case 'today':
+      return { from: today, to: today };
+    case 'yesterday': {
+      const yesterday = shiftDateStr(today, -1);
+      return { from: yesterday, to: yesterday };
+    }
+    case 'last_7_days':
+      return { from: shiftDateStr(today, -7), to: shiftDateStr(today, -1) };
+    case 'this_week':
+      return { from: shiftDateStr(today, 1 - dow), to: today };
+    case 'last_week': {
+      const lastMonday = shiftDateStr(today, 1 - dow - 7);
+      return { from: lastMonday, to: shiftDateStr(lastMonday, 6) };
+    }
+    case 'this_month':
+      return { from: monthStart, to: today };
+    case 'last_month': {
+      const prevMonthEnd = shiftDateStr(monthStart, -1);
+      return { from: `${prevMonthEnd.slice(0, 7)}-01`, to: prevMonthEnd };
+    }
+  }
+}
+
+/**
+ * Próxima ejecución estrictamente posterior a `after`, como instante UTC.
+ */
+export function computeNextRunAt(schedule: ScheduleTiming, after: Date = new Date()): Date {
+  const startStr = tz.toDateStr(after);
+
+  // 62 días cubre cualquier frecuencia mensual con dayOfMonth ≤ 28
+  for (let i = 0; i <= 62; i++) {
+    const dateStr = shiftDateStr(startStr, i);
+    const candidate = tz.parse(`${dateStr}T${schedule.timeOfDay}:00`);
+    if (candidate <= after) continue;
+
+    if (schedule.frequency === 'WEEKLY' && isoDayOfWeek(candidate) !== schedule.dayOfWeek) continue;
+    if (schedule.frequency === 'MONTHLY' && Number(dateStr.slice(8, 10)) !== schedule.dayOfMonth) continue;
+
+    return candidate;
+  }
+
+  throw new Error(`No se pudo calcular la próxima ejecución para ${JSON.stringify(schedule)}`);
+}
@@ -17,6 +17,14 @@ export const created = (res: Response, data: any) => {
   });
 };
 
+export const accepted = (res: Response, data: any) => {
+  if (res.headersSent) return;
+  return res.status(202).json({
+    success: true,
+    data,
+  });
+};
+
 export const noContent = (res: Response) => {
   if (res.headersSent) return;
   return res.status(204).send();
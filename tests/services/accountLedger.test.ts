@@ -0,0 +1,219 @@
+/// <reference types="jest" />
+import { AccountLedgerService } from '../../src/api/v1/services/accounts/accounts.ledger';
+import { LedgerRepository } from '../../src/repositories/ledger.repository';
+import prisma from '../../src/core/prismaClient';
+import {
+  dayTotalsFromKinds,
+  diffLedger,
+  journalLines,
+  LedgerPosted,
+  LedgerPosting,
+  paymentTargets,
+  sorteoTargets,
+} from '../../src/api/v1/services/accounts/accounts.ledger.helpers';
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: { $transaction: jest.fn(), accountPayment: { findUnique: jest.fn() } },
+}));
+
+jest.mock('../../src/repositories/ledger.repository', () => {
+  const repository = {
+    lockSource: jest.fn(),
+    postedBySource: jest.fn(),
+    postJournals: jest.fn(),
+    sorteoTotals: jest.fn(),
+    savePending: jest.fn(),
+    findDuePending: jest.fn(),
+    resolvePending: jest.fn(),
+    reschedulePending: jest.fn(),
+  };
+  return { __esModule: true, LedgerRepository: repository, default: repository };
+});
+
+const row = {
+  vendedorId: 'vend-1',
+  ventanaId: 'vent-1',
+  bancaId: 'banca-1',
+  businessDate: '2026-10-18',
+  sales: 10000,
+  payouts: 7000,
+  listeroCommission: 1000,
+  vendedorCommission: 500,
+};
+
+// Lo que quedó asentado del sorteo en el libro del vendedor
+const postedVendedor = (kind: 'SALE' | 'PAYOUT' | 'COMMISSION', amount: number): LedgerPosted => ({
+  bancaId: 'banca-1',
+  dimension: 'vendedor',
+  entityId: 'vend-1',
+  businessDate: '2026-10-18',
+  kind,
+  amount,
+  lastJournalId: `j-${kind}`,
+});
+
+describe('account ledger', () => {
+  it('posts a sorteo in the three books with the commission each statement uses', () => {
+    const postings = diffLedger(sorteoTargets([row]), []);
+
+    expect(postings).toHaveLength(9);
+    const balanceOf = (dimension: string) =>
+      postings.filter((p) => p.dimension === dimension).reduce((acc, p) => acc + p.amount, 0);
+    expect(balanceOf('vendedor')).toBe(2500);
+    expect(balanceOf('ventana')).toBe(2000);
+    expect(balanceOf('banca')).toBe(2000);
+    expect(postings.every((p) => p.journalType === p.kind)).toBe(true);
+  });
+
+  it('is idempotent and only posts the difference on re-evaluation', () => {
+    const posted = [postedVendedor('SALE', 10000), postedVendedor('PAYOUT', -7000), postedVendedor('COMMISSION', -500)];
+    const vendedorOnly = sorteoTargets([row]).filter((t) => t.dimension === 'vendedor');
+
+    expect(diffLedger(vendedorOnly, posted)).toEqual([]);
+
+    const reevaluated = sorteoTargets([{ ...row, payouts: 0 }]).filter((t) => t.dimension === 'vendedor');
+    expect(diffLedger(reevaluated, posted)).toEqual([
+      expect.objectContaining({ kind: 'PAYOUT', amount: 7000, journalType: 'REVERSAL', reversesJournalId: 'j-PAYOUT' }),
+    ]);
+  });
+
+  it('reverses everything a reverted sorteo had posted', () => {
+    const posted = [postedVendedor('SALE', 10000), postedVendedor('PAYOUT', -7000), postedVendedor('COMMISSION', -500)];
+    const postings = diffLedger([], posted);
+
+    expect(postings.map((p) => [p.kind, p.amount, p.journalType])).toEqual([
+      ['SALE', -10000, 'REVERSAL'],
+      ['PAYOUT', 7000, 'REVERSAL'],
+      ['COMMISSION', 500, 'REVERSAL'],
+    ]);
+  });
+
+  it('books payments in their own dimension and skips carry-over markers', () => {
+    const payment = {
+      bancaId: 'banca-1',
+      vendedorId: null,
+      ventanaId: 'vent-1',
+      businessDate: '2026-10-18',
+      type: 'collection',
+      amount: 1500.5,
+      isReversed: false,
+      isCarryOver: false,
+    };
+
+    expect(paymentTargets(payment)).toEqual([
+      expect.objectContaining({ dimension: 'ventana', entityId: 'vent-1', kind: 'COLLECTION', amount: -1500.5 }),
+    ]);
+    expect(paymentTargets({ ...payment, isCarryOver: true })).toEqual([]);
+    expect(paymentTargets({ ...payment, isReversed: true })).toEqual([]);
+  });
+
+  it('balances every journal against the house', () => {
+    const [posting] = diffLedger(sorteoTargets([row]), []);
+    const lines = journalLines(posting);
+
+    expect(lines.map((l) => l.account)).toEqual(['ENTITY', 'HOUSE']);
+    expect(lines[0].amount + lines[1].amount).toBe(0);
+  });
+
+  it('derives the statement totals from the sums per kind', () => {
+    expect(
+      dayTotalsFromKinds({ SALE: 10000, PAYOUT: -7000, COMMISSION: -1000, PAYMENT: 300, COLLECTION: -200.25, CARRY_OVER: -50 })
+    ).toEqual({
+      totalSales: 10000,
+      totalPayouts: 7000,
+      commission: 1000,
+      totalPaid: 300,
+      totalCollected: 200.25,
+      carryOver: -50,
+      balance: 2000,
+    });
+  });
+});
+
+describe('AccountLedgerService posting', () => {
+  const repo = LedgerRepository as unknown as Record<string, jest.Mock>;
+  let ledger: LedgerPosting[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ledger = [];
+
+    // Advisory lock por origen: se libera al terminar la transacción que lo tomó
+    let held: Promise<void> = Promise.resolve();
+    (prisma.$transaction as jest.Mock).mockImplementation(async (fn: any) => {
+      const tx: { release?: () => void } = {};
+      try {
+        return await fn(tx);
+      } finally {
+        tx.release?.();
+      }
+    });
+    repo.lockSource.mockImplementation(async (tx: any) => {
+      const previous = held;
+      held = new Promise((resolve) => (tx.release = resolve));
+      await previous;
+    });
+    repo.postedBySource.mockImplementation(async () => {
+      const sums = new Map<string, LedgerPosted>();
+      for (const p of ledger) {
+        const key = `${p.dimension}:${p.entityId}:${p.kind}`;
+        const current = sums.get(key);
+        if (current) current.amount += p.amount;
+        else sums.set(key, { bancaId: p.bancaId, dimension: p.dimension, entityId: p.entityId, businessDate: p.businessDate, kind: p.kind, amount: p.amount, lastJournalId: null });
+      }
+      return [...sums.values()];
+    });
+    repo.postJournals.mockImplementation(async (postings: LedgerPosting[]) => {
+      // La inserción llega después de otras consultas: sin lock, otro asiento leería el estado viejo
+      await new Promise((resolve) => setImmediate(resolve));
+      ledger.push(...postings);
+      return postings.length;
+    });
+    repo.sorteoTotals.mockResolvedValue([row]);
+    repo.savePending.mockResolvedValue({});
+  });
+
+  it('does not post the same sorteo twice when two posts overlap', async () => {
+    await Promise.all([AccountLedgerService.postSorteo('sorteo-1'), AccountLedgerService.postSorteo('sorteo-1')]);
+
+    expect(ledger).toHaveLength(9);
+    expect(repo.lockSource).toHaveBeenCalledWith(expect.anything(), 'SORTEO', 'sorteo-1');
+    expect(repo.postJournals).toHaveBeenLastCalledWith([], expect.objectContaining({ sourceId: 'sorteo-1' }), expect.anything());
+  });
+
+  it('queues a failed post for retry instead of dropping it', async () => {
+    repo.sorteoTotals.mockRejectedValueOnce(new Error('connection reset'));
+
+    await AccountLedgerService.record('LEDGER_SORTEO_POSTED', { sourceType: 'SORTEO', sorteoId: 'sorteo-1' });
+
+    expect(repo.savePending).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sourceType: 'SORTEO',
+        sourceId: 'sorteo-1',
+        request: { sourceType: 'SORTEO', sorteoId: 'sorteo-1' },
+        error: 'connection reset',
+      })
+    );
+  });
+
+  it('retries due posts, clearing the ones that post and backing off the rest', async () => {
+    const now = new Date('2026-10-19T16:00:00Z');
+    const updatedAt = new Date('2026-10-19T15:59:00Z');
+    repo.findDuePending.mockResolvedValue([
+      { id: 'pending-1', sourceType: 'SORTEO', sourceId: 'sorteo-1', request: { sourceType: 'SORTEO', sorteoId: 'sorteo-1' }, attempts: 1, updatedAt },
+      { id: 'pending-2', sourceType: 'SORTEO', sourceId: 'sorteo-2', request: { sourceType: 'SORTEO', sorteoId: 'sorteo-2' }, attempts: 3, updatedAt },
+    ]);
+    repo.sorteoTotals.mockResolvedValueOnce([row]).mockRejectedValueOnce(new Error('still down'));
+
+    const summary = await AccountLedgerService.retryPending(now);
+
+    expect(summary).toEqual({ due: 2, posted: 1, failed: 1 });
+    expect(ledger).toHaveLength(9);
+    expect(repo.resolvePending).toHaveBeenCalledWith('pending-1', updatedAt);
+    expect(repo.reschedulePending).toHaveBeenCalledWith('pending-2', {
+      error: 'still down',
+      nextAttemptAt: new Date('2026-10-19T16:08:00Z'),
+    });
+  });
+});
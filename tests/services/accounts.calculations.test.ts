@@ -0,0 +1,48 @@
+/// <reference types="jest" />
+import { calculateDayTotalsFromSource } from '../../src/api/v1/services/accounts/accounts.calculations';
+import prisma from '../../src/core/prismaClient';
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: {
+    ticket: { aggregate: jest.fn() },
+    jugada: { aggregate: jest.fn() },
+    $queryRaw: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/core/exclusionListCache', () => ({
+  __esModule: true,
+  isExclusionListEmpty: jest.fn().mockResolvedValue(true),
+}));
+
+describe('calculateDayTotalsFromSource', () => {
+  const date = new Date('2026-10-18T00:00:00Z');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.ticket.aggregate as jest.Mock).mockResolvedValue({ _sum: { totalAmount: 1000, totalPayout: 0 }, _count: { id: 2 } });
+    (prisma.jugada.aggregate as jest.Mock).mockResolvedValue({ _sum: { commissionAmount: 50, listeroCommissionAmount: 80 } });
+  });
+
+  const jugadaWheres = () => (prisma.jugada.aggregate as jest.Mock).mock.calls.map((call) => call[0].where);
+
+  it('keeps the statement commissions over every jugada by default', async () => {
+    const totals = await calculateDayTotalsFromSource(date, 'ventana', 'ventana-1');
+
+    expect(totals).toMatchObject({ totalSales: 1000, ticketCount: 2, totalVendedorCommission: 50, totalListeroCommission: 80 });
+    for (const where of jugadaWheres()) {
+      expect(where).not.toHaveProperty('isActive');
+      expect(where).not.toHaveProperty('isExcluded');
+    }
+  });
+
+  it('only counts active, non-excluded jugadas for the audit', async () => {
+    await calculateDayTotalsFromSource(date, 'ventana', 'ventana-1', undefined, undefined, { activeJugadasOnly: true });
+
+    expect(jugadaWheres()).toHaveLength(2);
+    for (const where of jugadaWheres()) {
+      expect(where).toMatchObject({ deletedAt: null, isActive: true, isExcluded: false });
+    }
+  });
+});
@@ -0,0 +1,161 @@
+/// <reference types="jest" />
+import { AlertService } from '../../src/api/v1/services/alert.service';
+import { EmailAlertNotifier } from '../../src/services/alerts/notifiers';
+import { MailMessage, MailTransport } from '../../src/services/mail/mailTransport';
+import prisma from '../../src/core/prismaClient';
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: {
+    ticket: {
+      count: jest.fn(),
+    },
+    alert: {
+      updateMany: jest.fn(),
+    },
+    alertEvent: {
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn((fn: any) => fn(prisma)),
+  },
+}));
+
+class StubTransport implements MailTransport {
+  sent: MailMessage[] = [];
+  async send(message: MailMessage) {
+    this.sent.push(message);
+  }
+}
+
+const buildAlert = (overrides: Record<string, unknown> = {}) => ({
+  id: 'alert-1',
+  name: 'Cancelaciones ventana centro',
+  userId: 'user-1',
+  bancaId: 'banca-1',
+  dimension: 'ventana',
+  targetId: 'ventana-1',
+  condition: { type: 'CANCELLATION_RATE', thresholdPct: 20, minTickets: 5 },
+  isActive: true,
+  lastFiredAt: null,
+  notifyEmail: 'ops@example.com, gerencia@example.com',
+  notifyWebhook: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+}) as any;
+
+describe('AlertService.evaluateAlert', () => {
+  const now = new Date('2026-10-19T18:00:00Z');
+  let transport: StubTransport;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    transport = new StubTransport();
+    (prisma.alertEvent.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 'event-1', ...data }));
+    (prisma.alert.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.alertEvent.update as jest.Mock).mockResolvedValue({});
+  });
+
+  it('fires CANCELLATION_RATE, persists the event and sends email', async () => {
+    (prisma.ticket.count as jest.Mock)
+      .mockResolvedValueOnce(20) // total
+      .mockResolvedValueOnce(6); // cancelados
+
+    const result = await AlertService.evaluateAlert(buildAlert(), {
+      notifiers: [new EmailAlertNotifier(transport)],
+      now,
+    });
+
+    expect(result.status).toBe('fired');
+    if (result.status !== 'fired') return;
+    expect(result.evaluation.value).toBe(30);
+    expect(result.notifications).toEqual([{ channel: 'email', ok: true }]);
+
+    // Conteo acotado a la ventana de la alerta
+    expect((prisma.ticket.count as jest.Mock).mock.calls[0][0].where.ventanaId).toBe('ventana-1');
+
+    expect(prisma.alertEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ alertId: 'alert-1', bancaId: 'banca-1', value: 30, threshold: 20, firedAt: now }),
+    });
+    expect(prisma.alert.updateMany).toHaveBeenCalledWith({
+      where: {
+        OR: [{ lastFiredAt: null }, { lastFiredAt: { lte: new Date(now.getTime() - 60 * 60_000) } }],
+        id: 'alert-1',
+      },
+      data: { lastFiredAt: now },
+    });
+    expect(prisma.alertEvent.update).toHaveBeenCalledWith({
+      where: { id: 'event-1' },
+      data: { notifications: [{ channel: 'email', ok: true }] },
+    });
+
+    expect(transport.sent).toHaveLength(1);
+    expect(transport.sent[0].to).toEqual(['ops@example.com', 'gerencia@example.com']);
+    expect(transport.sent[0].subject).toContain('Cancelaciones ventana centro');
+  });
+
+  it('does not fire below minTickets', async () => {
+    (prisma.ticket.count as jest.Mock)
+      .mockResolvedValueOnce(3)
+      .mockResolvedValueOnce(3);
+
+    const result = await AlertService.evaluateAlert(buildAlert(), {
+      notifiers: [new EmailAlertNotifier(transport)],
+      now,
+    });
+
+    expect(result.status).toBe('ok');
+    expect(prisma.alertEvent.create).not.toHaveBeenCalled();
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it('skips evaluation while within the cooldown window', async () => {
+    const alert = buildAlert({
+      lastFiredAt: new Date(now.getTime() - 10 * 60_000),
+      condition: { type: 'CANCELLATION_RATE', thresholdPct: 20, cooldownMinutes: 30 },
+    });
+
+    const result = await AlertService.evaluateAlert(alert, { notifiers: [new EmailAlertNotifier(transport)], now });
+
+    expect(result).toEqual({
+      status: 'skipped',
+      reason: 'cooldown',
+      nextEligibleAt: new Date(now.getTime() + 20 * 60_000).toISOString(),
+    });
+    expect(prisma.ticket.count).not.toHaveBeenCalled();
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it('records channel failures without aborting', async () => {
+    (prisma.ticket.count as jest.Mock)
+      .mockResolvedValueOnce(10)
+      .mockResolvedValueOnce(5);
+    const failing: MailTransport = { send: jest.fn().mockRejectedValue(new Error('SMTP caído')) };
+
+    const result = await AlertService.evaluateAlert(buildAlert(), {
+      notifiers: [new EmailAlertNotifier(failing)],
+      now,
+    });
+
+    expect(result.status).toBe('fired');
+    if (result.status !== 'fired') return;
+    expect(result.notifications).toEqual([{ channel: 'email', ok: false, error: 'SMTP caído' }]);
+  });
+
+  it('does not record or notify when another worker already fired the alert', async () => {
+    (prisma.ticket.count as jest.Mock)
+      .mockResolvedValueOnce(20)
+      .mockResolvedValueOnce(6);
+    (prisma.alert.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+    const result = await AlertService.evaluateAlert(buildAlert(), {
+      notifiers: [new EmailAlertNotifier(transport)],
+      now,
+    });
+
+    expect(result).toEqual({ status: 'skipped', reason: 'already_fired' });
+    expect(prisma.alertEvent.create).not.toHaveBeenCalled();
+    expect(transport.sent).toHaveLength(0);
+  });
+});
@@ -0,0 +1,197 @@
+/// <reference types="jest" />
+import { Router } from 'express';
+import { protect } from '../../src/middlewares/auth.middleware';
+import { apiKeyScope, noApiKey } from '../../src/middlewares/apiKeyScope.middleware';
+import { ApiKeyService } from '../../src/api/v1/services/apiKey.service';
+import { CacheService } from '../../src/core/cache.service';
+import prisma from '../../src/core/prismaClient';
+import { apiKeyCacheKey, registerApiKeyRoutes } from '../../src/utils/apiKeyScopes';
+import { generateApiKey, hashApiKey } from '../../src/utils/crypto';
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: {
+    apiKey: { findUnique: jest.fn(), update: jest.fn(), create: jest.fn() },
+    user: { findUnique: jest.fn() },
+    refreshToken: { findMany: jest.fn() },
+    userBanca: { findMany: jest.fn() },
+  },
+}));
+
+jest.mock('../../src/core/activity.service', () => ({
+  __esModule: true,
+  default: { log: jest.fn() },
+}));
+
+const admin = { id: 'admin-1', role: 'ADMIN', isActive: true, ventanaId: null, bancaId: null, ventana: null };
+const bancaOwner = { id: 'banca-user', role: 'BANCA', isActive: true, ventanaId: null, bancaId: null, ventana: null };
+
+let keys: any[];
+let users: Record<string, any>;
+let assignments: Record<string, string[]>;
+const cache = new Map<string, unknown>();
+
+const issue = (overrides: Record<string, unknown> = {}) => {
+  const plain = generateApiKey();
+  keys.push({
+    id: `key-${keys.length + 1}`,
+    name: 'ERP',
+    key: hashApiKey(plain),
+    userId: bancaOwner.id,
+    bancaId: 'banca-1',
+    isGlobal: false,
+    scopes: ['tickets:read'],
+    isActive: true,
+    expiresAt: null,
+    lastUsedAt: null,
+    ...overrides,
+  });
+  return plain;
+};
+
+// Rutas mínimas con sus declaraciones: protect resuelve el scope contra el router registrado
+const handler = jest.fn();
+const tickets = Router();
+tickets.use(noApiKey);
+tickets.get('/', apiKeyScope('tickets:read'), handler);
+tickets.post('/', handler);
+tickets.get('/:id/image', handler);
+const sorteos = Router();
+sorteos.get('/', handler);
+const apiKeys = Router();
+apiKeys.use(noApiKey);
+apiKeys.get('/', handler);
+const v1 = Router();
+v1.use('/tickets', tickets);
+v1.use('/sorteos', sorteos);
+v1.use('/api-keys', apiKeys);
+registerApiKeyRoutes(v1);
+
+const call = async (plain: string, method = 'GET', url = '/api/v1/tickets?page=1') => {
+  const req: any = { method, originalUrl: url, headers: { 'x-api-key': plain } };
+  const next = jest.fn();
+  await protect(req, {} as any, next);
+  return req.user;
+};
+
+describe('API key authentication', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cache.clear();
+    keys = [];
+    users = { [admin.id]: { ...admin }, [bancaOwner.id]: { ...bancaOwner } };
+    assignments = { [bancaOwner.id]: ['banca-1'] };
+
+    jest.spyOn(CacheService, 'get').mockImplementation(async (key: string) => (cache.get(key) as any) ?? null);
+    jest.spyOn(CacheService, 'set').mockImplementation(async (key: string, value: unknown) => {
+      cache.set(key, JSON.parse(JSON.stringify(value)));
+    });
+    jest.spyOn(CacheService, 'del').mockImplementation(async (key: string) => {
+      cache.delete(key);
+    });
+    jest.spyOn(CacheService, 'wrap').mockImplementation(async (_key: string, fetcher: () => Promise<any>) => fetcher());
+
+    (prisma.apiKey.findUnique as jest.Mock).mockImplementation(async ({ where }: any) =>
+      keys.find((k) => (where.id ? k.id === where.id : k.key === where.key)) ?? null
+    );
+    (prisma.apiKey.update as jest.Mock).mockImplementation(async ({ where, data }: any) =>
+      Object.assign(keys.find((k) => k.id === where.id), data)
+    );
+    (prisma.apiKey.create as jest.Mock).mockImplementation(async ({ data }: any) => ({ id: 'key-new', ...data }));
+    (prisma.user.findUnique as jest.Mock).mockImplementation(async ({ where }: any) => users[where.id] ?? null);
+    (prisma.refreshToken.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.userBanca.findMany as jest.Mock).mockImplementation(async ({ where }: any) =>
+      (assignments[where.userId] ?? []).map((bancaId) => ({ bancaId }))
+    );
+  });
+
+  it('acts as BANCA on the key banca within its scopes', async () => {
+    const plain = issue();
+
+    expect(await call(plain)).toEqual({
+      id: 'banca-user',
+      role: 'BANCA',
+      ventanaId: null,
+      bancaId: 'banca-1',
+      apiKeyId: 'key-1',
+    });
+  });
+
+  it('rejects a wrong secret, an expired key and a route outside the scopes', async () => {
+    issue();
+    const expired = issue({ expiresAt: new Date(Date.now() - 1000) });
+    const plain = issue();
+
+    await expect(call(generateApiKey())).rejects.toMatchObject({ statusCode: 401, meta: 'API_KEY_INVALID' });
+    await expect(call(expired)).rejects.toMatchObject({ statusCode: 401, meta: 'API_KEY_EXPIRED' });
+    await expect(call(plain, 'POST', '/api/v1/tickets')).rejects.toMatchObject({ statusCode: 403, meta: 'API_KEY_SCOPE' });
+    await expect(call(plain, 'GET', '/api/v1/api-keys')).rejects.toMatchObject({ statusCode: 403, meta: 'API_KEY_SCOPE' });
+  });
+
+  it('only allows routes that declare one of the key scopes', async () => {
+    const plain = issue({ scopes: ['tickets:read', 'sorteos:read'] });
+    const denied = { statusCode: 403, meta: 'API_KEY_SCOPE' };
+
+    expect(await call(plain, 'GET', '/api/v1/tickets/')).toMatchObject({ apiKeyId: 'key-1' });
+    // El default noApiKey del router cubre las rutas sin declaración propia
+    await expect(call(plain, 'GET', '/api/v1/tickets/abc/image')).rejects.toMatchObject(denied);
+    // Router sin ninguna declaración: se deniega aunque el path "parezca" de lectura
+    await expect(call(plain, 'GET', '/api/v1/sorteos')).rejects.toMatchObject(denied);
+    await expect(call(plain, 'GET', '/api/v1/does-not-exist')).rejects.toMatchObject(denied);
+  });
+
+  it('stops authenticating a revoked key even when its session was cached', async () => {
+    const plain = issue();
+    await call(plain);
+    expect(cache.has(apiKeyCacheKey(hashApiKey(plain)))).toBe(true);
+
+    await ApiKeyService.revoke('key-1', { id: admin.id, role: 'ADMIN' } as any, null);
+
+    expect(cache.has(apiKeyCacheKey(hashApiKey(plain)))).toBe(false);
+    await expect(call(plain)).rejects.toMatchObject({ statusCode: 401, meta: 'API_KEY_INVALID' });
+  });
+
+  it('only grants ADMIN to keys explicitly issued as global by a current ADMIN', async () => {
+    const implicit = issue({ userId: admin.id, bancaId: null });
+    const global = issue({ userId: admin.id, bancaId: null, isGlobal: true });
+
+    await expect(call(implicit)).rejects.toMatchObject({ statusCode: 401, meta: 'API_KEY_INVALID' });
+    expect(await call(global)).toMatchObject({ id: admin.id, role: 'ADMIN', bancaId: null });
+  });
+
+  it('drops the role of keys whose issuer was demoted, unassigned or deactivated', async () => {
+    const global = issue({ userId: admin.id, bancaId: null, isGlobal: true });
+    const bancaKey = issue();
+    const forbidden = { statusCode: 403, meta: 'API_KEY_OWNER_FORBIDDEN' };
+
+    users[admin.id].role = 'BANCA';
+    await expect(call(global)).rejects.toMatchObject(forbidden);
+
+    assignments[bancaOwner.id] = ['banca-2'];
+    await expect(call(bancaKey)).rejects.toMatchObject(forbidden);
+
+    cache.clear();
+    users[bancaOwner.id].role = 'VENTANA';
+    await expect(call(bancaKey)).rejects.toMatchObject(forbidden);
+
+    cache.clear();
+    users[bancaOwner.id] = { ...bancaOwner, isActive: false };
+    await expect(call(bancaKey)).rejects.toMatchObject({ statusCode: 401, meta: 'API_KEY_OWNER_INACTIVE' });
+  });
+
+  it('requires a banca or an explicit global flag when issuing keys', async () => {
+    const input = { name: 'ERP', scopes: ['reports:read'] as any };
+    const adminActor = { id: admin.id, role: 'ADMIN' } as any;
+
+    await expect(ApiKeyService.create(input, adminActor, null)).rejects.toMatchObject({
+      statusCode: 400,
+      meta: 'API_KEY_BANCA_REQUIRED',
+    });
+    await expect(
+      ApiKeyService.create({ ...input, global: true }, { id: bancaOwner.id, role: 'BANCA' } as any, 'banca-1')
+    ).rejects.toMatchObject({ statusCode: 403 });
+
+    const created = await ApiKeyService.create({ ...input, global: true }, adminActor, 'banca-1');
+    expect(created).toMatchObject({ bancaId: null, isGlobal: true, role: 'ADMIN' });
+  });
+});
@@ -0,0 +1,40 @@
+/// <reference types="jest" />
+import { apiV1Router } from '../../src/api/v1/routes';
+import { listApiKeyRoutes, routeApiKeyScope } from '../../src/utils/apiKeyScopes';
+
+jest.mock('uuid', () => ({ v4: jest.fn() }));
+
+describe('API key scopes on /api/v1 routes', () => {
+  const routes = listApiKeyRoutes(apiV1Router);
+  const label = (route: { method: string; path: string }) => `${route.method} ${route.path}`;
+
+  it('declares a scope or noApiKey on every route', () => {
+    expect(routes.length).toBeGreaterThan(100);
+    // Una ruta nueva debe decidir si la usan las API keys: apiKeyScope(...) o noApiKey
+    expect(routes.filter((route) => route.scope === undefined).map(label)).toEqual([]);
+  });
+
+  it('only opens sorteo evaluation to API keys beyond reads', () => {
+    const writes = routes.filter((route) => route.scope && route.method !== 'GET').map(label);
+
+    expect(writes).toEqual(['PATCH /sorteos/:id/evaluate']);
+    expect(routes).toContainEqual({ method: 'PATCH', path: '/sorteos/:id/evaluate', scope: 'sorteos:evaluate' });
+  });
+
+  it('keeps API key management and session routes closed to API keys', () => {
+    const closed = routes.filter((route) => /^\/(api-keys|auth|users|webhooks)(\/|$)/.test(route.path));
+
+    expect(closed.length).toBeGreaterThan(0);
+    expect(closed.filter((route) => route.scope !== null).map(label)).toEqual([]);
+  });
+
+  it('resolves the same declaration protect uses for a request', () => {
+    expect(routeApiKeyScope('GET', '/tickets/3f1c0a52-1111-4a2b-9c3d-000000000001')).toBe('tickets:read');
+    expect(routeApiKeyScope('GET', '/tickets/filter-options')).toBe('tickets:read');
+    expect(routeApiKeyScope('POST', '/tickets')).toBeNull();
+    expect(routeApiKeyScope('PATCH', '/sorteos/abc/evaluate')).toBe('sorteos:evaluate');
+    expect(routeApiKeyScope('GET', '/reports/tickets/summary')).toBe('reports:read');
+    expect(routeApiKeyScope('GET', '/api-keys')).toBeNull();
+    expect(routeApiKeyScope('GET', '/nothing-here')).toBeUndefined();
+  });
+});
@@ -0,0 +1,181 @@
+/// <reference types="jest" />
+import { BancaCloneService, remapJsonIds } from '../../src/api/v1/services/bancaClone.service';
+import BancaRepository from '../../src/repositories/banca.repository';
+import prisma from '../../src/core/prismaClient';
+import ActivityService from '../../src/core/activity.service';
+
+jest.mock('../../src/core/prismaClient', () => {
+  const tx = {
+    banca: { create: jest.fn(), update: jest.fn() },
+    loteria: { create: jest.fn(), update: jest.fn() },
+    loteriaMultiplier: { create: jest.fn() },
+    bancaLoteriaSetting: { createMany: jest.fn() },
+    restrictionRule: { createMany: jest.fn() },
+    sorteosAutoConfig: { create: jest.fn() },
+    accountStatementSettlementConfig: { create: jest.fn() },
+  };
+  return {
+    __esModule: true,
+    default: {
+      tx,
+      $transaction: jest.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+      banca: { findUnique: jest.fn() },
+      loteria: { findMany: jest.fn() },
+      loteriaMultiplier: { findMany: jest.fn() },
+      bancaLoteriaSetting: { findMany: jest.fn() },
+      restrictionRule: { findMany: jest.fn() },
+      sorteosAutoConfig: { findFirst: jest.fn() },
+      accountStatementSettlementConfig: { findFirst: jest.fn() },
+    },
+  };
+});
+
+jest.mock('../../src/repositories/banca.repository', () => ({
+  __esModule: true,
+  default: { findByCode: jest.fn(), findByName: jest.fn() },
+}));
+
+jest.mock('../../src/core/cache.service', () => ({
+  __esModule: true,
+  CacheService: { invalidateTag: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../../src/core/activity.service', () => ({
+  __esModule: true,
+  default: { log: jest.fn() },
+}));
+
+const tx = (prisma as any).tx;
+const GLOBAL_LOTERIA = 'global-loteria';
+
+const rule = (overrides: Record<string, unknown> = {}) => ({
+  id: 'rule-1',
+  ventanaId: null,
+  userId: null,
+  number: '13',
+  maxAmount: 1000,
+  maxTotal: null,
+  appliesToDate: null,
+  appliesToHour: null,
+  isActive: true,
+  salesCutoffMinutes: null,
+  loteriaId: 'tica',
+  multiplierId: 'tica-x90',
+  message: null,
+  isAutoDate: false,
+  baseAmount: null,
+  salesPercentage: null,
+  appliesToVendedor: false,
+  ...overrides,
+});
+
+describe('BancaCloneService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.banca.findUnique as jest.Mock).mockResolvedValue({
+      id: 'template',
+      name: 'Banca Plantilla',
+      deletedAt: null,
+      defaultMinBet: 100,
+      globalMaxPerNumber: 5000,
+      salesCutoffMinutes: 5,
+      maxSessionsPerVendedor: 1,
+      vendorLimit: null,
+      resultsDualConfirmation: true,
+      evaluationDualControl: false,
+      commissionPolicyJson: {
+        version: 1,
+        defaultPercent: 5,
+        rules: [
+          { id: 'r1', loteriaId: 'tica', percent: 10 },
+          { id: 'r2', loteriaId: GLOBAL_LOTERIA, percent: 8 },
+        ],
+      },
+      cancellationPolicyJson: null,
+      payoutPolicyJson: { claimDays: 30, claimDaysByLoteria: { tica: 7 } },
+    });
+    (prisma.loteria.findMany as jest.Mock).mockResolvedValue([
+      { id: 'tica', name: 'Tica', isActive: true, rulesJson: { closingTimeBeforeDraw: 5 } },
+    ]);
+    (prisma.loteriaMultiplier.findMany as jest.Mock).mockResolvedValue([
+      { id: 'tica-x90', loteriaId: 'tica', name: 'Base', valueX: 90, kind: 'NUMERO', isActive: true, appliesToDate: null },
+    ]);
+    (prisma.bancaLoteriaSetting.findMany as jest.Mock).mockResolvedValue([
+      { loteriaId: 'tica', baseMultiplierX: 90, maxTotalPerSorteo: null, isActive: true },
+    ]);
+    (prisma.restrictionRule.findMany as jest.Mock).mockResolvedValue([
+      rule(),
+      rule({ id: 'rule-2', ventanaId: 'ventana-1' }),
+      rule({ id: 'rule-3', appliesToDate: new Date('2026-10-01T00:00:00Z') }),
+    ]);
+    (prisma.sorteosAutoConfig.findFirst as jest.Mock).mockResolvedValue({
+      autoOpenEnabled: true,
+      autoCreateEnabled: true,
+      autoCloseEnabled: false,
+      openCronSchedule: '0 6 * * *',
+      createCronSchedule: null,
+      closeCronSchedule: null,
+      lastOpenCount: 12,
+    });
+    (prisma.accountStatementSettlementConfig.findFirst as jest.Mock).mockResolvedValue(null);
+    (BancaRepository.findByCode as jest.Mock).mockResolvedValue(null);
+    (BancaRepository.findByName as jest.Mock).mockResolvedValue(null);
+
+    tx.banca.create.mockResolvedValue({ id: 'new-banca', name: 'Banca Norte', code: 'NORTE' });
+    tx.loteria.create.mockResolvedValue({ id: 'new-tica' });
+    tx.loteriaMultiplier.create.mockResolvedValue({ id: 'new-x90' });
+  });
+
+  it('summarizes the template without writing in dry-run mode', async () => {
+    const result = await BancaCloneService.clone('template', { name: 'Banca Norte', code: 'NORTE', dryRun: true }, 'admin-1');
+
+    expect(result).toMatchObject({
+      dryRun: true,
+      banca: { id: null, code: 'NORTE' },
+      created: { loterias: 1, multipliers: 1, loteriaSettings: 1, restrictionRules: 1, sorteosAutoConfig: 1, settlementConfig: 0 },
+      skipped: { restrictionRules: 2 },
+    });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+    expect(ActivityService.log).not.toHaveBeenCalled();
+  });
+
+  it('copies the configuration remapping loteria and multiplier ids', async () => {
+    const result = await BancaCloneService.clone('template', { name: 'Banca Norte', code: 'NORTE' }, 'admin-1');
+
+    expect(result.idMap).toEqual({ loterias: { tica: 'new-tica' }, multipliers: { 'tica-x90': 'new-x90' } });
+    expect(tx.loteriaMultiplier.create.mock.calls[0][0].data).toMatchObject({ loteriaId: 'new-tica', bancaId: 'new-banca' });
+    expect(tx.banca.update.mock.calls[0][0].data).toMatchObject({
+      commissionPolicyJson: {
+        rules: [
+          { id: 'r1', loteriaId: 'new-tica', percent: 10 },
+          { id: 'r2', loteriaId: GLOBAL_LOTERIA, percent: 8 },
+        ],
+      },
+      payoutPolicyJson: { claimDays: 30, claimDaysByLoteria: { 'new-tica': 7 } },
+    });
+    expect(tx.restrictionRule.createMany.mock.calls[0][0].data).toEqual([
+      expect.objectContaining({ bancaId: 'new-banca', loteriaId: 'new-tica', multiplierId: 'new-x90', number: '13' }),
+    ]);
+    expect(tx.sorteosAutoConfig.create.mock.calls[0][0].data).toEqual(
+      expect.not.objectContaining({ lastOpenCount: expect.anything() })
+    );
+    expect((ActivityService.log as jest.Mock).mock.calls[0][0]).toMatchObject({
+      bancaId: 'new-banca',
+      details: { op: 'banca_cloned', templateId: 'template' },
+    });
+  });
+
+  it('rejects a duplicated code before touching the database', async () => {
+    (BancaRepository.findByCode as jest.Mock).mockResolvedValue({ id: 'other' });
+
+    await expect(BancaCloneService.clone('template', { name: 'Banca Norte', code: 'NORTE' }, null)).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('remaps ids in nested values and keys only', () => {
+    const ids = new Map([['a', 'A']]);
+    expect(remapJsonIds({ a: ['a', 'b', 3], nested: { key: 'a' } }, ids)).toEqual({ A: ['A', 'b', 3], nested: { key: 'A' } });
+  });
+});
@@ -0,0 +1,115 @@
+/// <reference types="jest" />
+import {
+  BankCsvMapping,
+  lineFingerprints,
+  matchBankLines,
+  parseBankAmount,
+  parseCsvStatement,
+  parseOfxStatement,
+  ReconcilablePayment,
+} from '../../src/api/v1/services/accounts/accounts.bankReconciliation.helpers';
+
+const mapping: BankCsvMapping = {
+  delimiter: ';',
+  skipRows: 1,
+  dateColumn: 'Fecha',
+  dateFormat: 'DD/MM/YYYY',
+  amountColumn: null,
+  creditColumn: 'Crédito',
+  debitColumn: 'Débito',
+  referenceColumn: 'Referencia',
+  descriptionColumn: 'Detalle',
+  decimalSeparator: ',',
+};
+
+const payment = (id: string, date: string, amount: number, type: string, reference: string | null = null): ReconcilablePayment => ({
+  id,
+  date,
+  amount,
+  type,
+  reference,
+});
+
+describe('bank reconciliation', () => {
+  it('reads a CSV with credit/debit columns using the bank profile', () => {
+    const csv = [
+      'Banco Nacional - Estado de cuenta',
+      'Fecha;Referencia;Detalle;Débito;Crédito',
+      '18/10/2026;TRF-88120;"Transferencia SINPE; ventana Centro";;150.000,50',
+      '19/10/2026;;Pago premios;25.000,00;',
+      ';;Saldo final;;',
+    ].join('\r\n');
+
+    const { lines, errors } = parseCsvStatement(csv, mapping);
+
+    expect(errors).toEqual([]);
+    expect(lines).toEqual([
+      expect.objectContaining({ lineNumber: 3, postedDate: '2026-10-18', amount: 150000.5, reference: 'TRF-88120', description: 'Transferencia SINPE; ventana Centro' }),
+      expect.objectContaining({ lineNumber: 4, postedDate: '2026-10-19', amount: -25000, reference: null }),
+    ]);
+  });
+
+  it('reports unreadable rows instead of importing them', () => {
+    const csv = ['x', 'Fecha;Referencia;Detalle;Débito;Crédito', '31/02/2026;;;;100,00'].join('\n');
+
+    expect(parseCsvStatement(csv, mapping).errors).toEqual([{ lineNumber: 3, error: 'Fecha inválida: "31/02/2026"' }]);
+  });
+
+  it('parses amounts with currency, thousands and negative notations', () => {
+    expect(parseBankAmount('₡1,250.75', '.')).toBe(1250.75);
+    expect(parseBankAmount('(300.00)', '.')).toBe(-300);
+    expect(parseBankAmount('300.00-', '.')).toBe(-300);
+    expect(parseBankAmount('abc', '.')).toBeNull();
+  });
+
+  it('reads OFX transactions in SGML form', () => {
+    const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20261018120000[-6:CST]<TRNAMT>150000.50<FITID>2026101801<NAME>SINPE<MEMO>TRF-88120
+</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20261019<TRNAMT>-25000.00<FITID>2026101902<REFNUM>4471
+</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+    const { lines, errors } = parseOfxStatement(ofx);
+
+    expect(errors).toEqual([]);
+    expect(lines).toEqual([
+      { lineNumber: 1, postedDate: '2026-10-18', amount: 150000.5, reference: null, description: 'SINPE - TRF-88120', externalId: '2026101801' },
+      { lineNumber: 2, postedDate: '2026-10-19', amount: -25000, reference: '4471', description: null, externalId: '2026101902' },
+    ]);
+  });
+
+  it('fingerprints identical lines in the same file as distinct', () => {
+    const line = { lineNumber: 1, postedDate: '2026-10-18', amount: 500, reference: null, description: 'SINPE', externalId: null };
+    const [first, second] = lineFingerprints([line, { ...line, lineNumber: 2 }]);
+
+    expect(first).not.toBe(second);
+    expect(lineFingerprints([line])[0]).toBe(first);
+  });
+
+  it('matches by reference first, then by amount and closest date', () => {
+    const lines = [
+      { postedDate: '2026-10-18', amount: 150000.5, reference: null, description: 'SINPE TRF-88120' },
+      { postedDate: '2026-10-19', amount: -25000, reference: null, description: 'Pago premios' },
+    ];
+    const payments = [
+      payment('p-ref', '2026-10-17', 150000.5, 'collection', 'trf 88120'),
+      payment('p-other', '2026-10-18', 150000.5, 'collection'),
+      payment('p-out', '2026-10-19', 25000, 'payment'),
+    ];
+
+    expect(matchBankLines(lines, payments, 3)).toEqual([
+      { lineIndex: 0, paymentId: 'p-ref', rule: 'REFERENCE' },
+      { lineIndex: 1, paymentId: 'p-out', rule: 'AMOUNT_DATE' },
+    ]);
+  });
+
+  it('leaves a line unmatched when amount and date do not single out one payment', () => {
+    const lines = [{ postedDate: '2026-10-18', amount: 5000, reference: null, description: null }];
+
+    expect(matchBankLines(lines, [payment('a', '2026-10-17', 5000, 'collection'), payment('b', '2026-10-19', 5000, 'collection')], 3)).toEqual([]);
+    expect(matchBankLines(lines, [payment('a', '2026-10-10', 5000, 'collection')], 3)).toEqual([]);
+    expect(matchBankLines(lines, [payment('a', '2026-10-18', 5000, 'payment')], 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,170 @@
+/// <reference types="jest" />
+import { CreditLimitService } from '../../src/api/v1/services/creditLimit.service';
+import CreditLimitRepository from '../../src/repositories/creditLimit.repository';
+import { getMonthlyRemainingBalance } from '../../src/api/v1/services/accounts/accounts.service';
+import prisma from '../../src/core/prismaClient';
+import ActivityService from '../../src/core/activity.service';
+import { CacheService } from '../../src/core/cache.service';
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: {
+    ticket: { aggregate: jest.fn() },
+  },
+}));
+
+jest.mock('../../src/repositories/creditLimit.repository', () => ({
+  __esModule: true,
+  default: {
+    findForSale: jest.fn(),
+    findById: jest.fn(),
+    update: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/api/v1/services/accounts/accounts.service', () => ({
+  __esModule: true,
+  getMonthlyRemainingBalance: jest.fn(),
+}));
+
+jest.mock('../../src/core/cache.service', () => ({
+  __esModule: true,
+  CacheService: {
+    wrap: jest.fn((_key: string, fetcher: () => Promise<unknown>) => fetcher()),
+    invalidateTag: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/core/activity.service', () => ({
+  __esModule: true,
+  default: { log: jest.fn() },
+}));
+
+const NOW = new Date('2026-10-19T18:00:00Z');
+const sale = { bancaId: 'banca-1', ventanaId: 'ventana-1', vendedorId: 'vendedor-1', amount: 5000 };
+const bancaUser = { id: 'banca-user', role: 'BANCA', ventanaId: null } as any;
+
+const limit = (overrides: Record<string, unknown> = {}) => ({
+  id: 'limit-1',
+  vendedorId: 'vendedor-1',
+  softLimit: 80000,
+  hardLimit: 100000,
+  overrideLimit: null,
+  overrideUntil: null,
+  ...overrides,
+});
+
+describe('CreditLimitService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Saldo a hoy 70 000 + ventas de hoy sin evaluar 30 000 - 3 000 de comisión
+    (getMonthlyRemainingBalance as jest.Mock).mockResolvedValue(70000);
+    (prisma.ticket.aggregate as jest.Mock).mockResolvedValue({
+      _sum: { totalAmount: 30000, totalCommission: 3000, totalListeroCommission: 6000 },
+    });
+  });
+
+  it('blocks the sale when balance plus unsettled sales exceed the hard limit', async () => {
+    (CreditLimitRepository.findForSale as jest.Mock).mockResolvedValue([limit()]);
+
+    await expect(CreditLimitService.checkSale(sale, NOW)).rejects.toMatchObject({
+      statusCode: 409,
+      meta: { code: 'CREDIT_LIMIT_EXCEEDED', scope: 'VENDEDOR', limit: 100000, exposure: 97000, projected: 102000 },
+    });
+    expect(prisma.ticket.aggregate).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ vendedorId: 'vendedor-1', status: 'ACTIVE' }) })
+    );
+  });
+
+  it('only warns under an active banca override and ignores expired ones', async () => {
+    (CreditLimitRepository.findForSale as jest.Mock).mockResolvedValue([
+      limit({ overrideLimit: 150000, overrideUntil: '2026-10-20T00:00:00.000Z' }),
+    ]);
+
+    const warnings = await CreditLimitService.checkSale(sale, NOW);
+
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: 'CREDIT_LIMIT_WARNING', scope: 'VENDEDOR', limit: 80000, projected: 102000 }),
+    ]);
+
+    (CreditLimitRepository.findForSale as jest.Mock).mockResolvedValue([
+      limit({ overrideLimit: 150000, overrideUntil: '2026-10-19T12:00:00.000Z' }),
+    ]);
+    await expect(CreditLimitService.checkSale(sale, NOW)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('re-checks under a lock so two overlapping sales cannot both pass on the old exposure', async () => {
+    (CreditLimitRepository.findForSale as jest.Mock).mockResolvedValue([limit({ softLimit: null, hardLimit: 110000 })]);
+    let committed = 0;
+    const held = new Map<string, Promise<void>>();
+
+    // Transacción falsa: el advisory lock se libera al confirmar y las ventas confirmadas suman a la exposición
+    const sell = async (amount: number) => {
+      const releases: Array<() => void> = [];
+      const tx = {
+        $executeRaw: jest.fn(async (_sql: TemplateStringsArray, key: string) => {
+          const previous = held.get(key) ?? Promise.resolve();
+          held.set(key, new Promise((resolve) => releases.push(resolve)));
+          await previous;
+        }),
+        ticket: {
+          aggregate: jest.fn(async () => ({
+            _sum: { totalAmount: 30000 + committed, totalCommission: 3000, totalListeroCommission: 6000 },
+          })),
+        },
+      };
+      try {
+        await CreditLimitService.checkSaleInTransaction(tx as any, { ...sale, amount }, NOW);
+        await new Promise((resolve) => setImmediate(resolve));
+        committed += amount;
+      } finally {
+        releases.forEach((release) => release());
+      }
+    };
+
+    const outcomes = await Promise.allSettled([sell(8000), sell(8000)]);
+
+    expect(outcomes.map((o) => o.status)).toEqual(['fulfilled', 'rejected']);
+    expect((outcomes[1] as PromiseRejectedResult).reason).toMatchObject({
+      meta: { code: 'CREDIT_LIMIT_EXCEEDED', exposure: 105000, projected: 113000 },
+    });
+    expect(committed).toBe(8000);
+  });
+
+  it('audits temporary overrides and rejects ones longer than a week', async () => {
+    const stored = {
+      ...limit(),
+      bancaId: 'banca-1',
+      ventanaId: 'ventana-1',
+      overrideReason: null,
+      overrideBy: null,
+      ventana: { id: 'ventana-1', name: 'Central', bancaId: 'banca-1' },
+      vendedor: { id: 'vendedor-1', name: 'Ana', ventanaId: 'ventana-1' },
+    };
+    (CreditLimitRepository.findById as jest.Mock).mockResolvedValue(stored);
+    (CreditLimitRepository.update as jest.Mock).mockImplementation((_id: string, data: object) => ({ ...stored, ...data }));
+    const in2Days = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString();
+    const in10Days = new Date(Date.now() + 10 * 24 * 60 * 60 * 1000).toISOString();
+
+    await expect(
+      CreditLimitService.setOverride('limit-1', { limit: 150000, until: in10Days, reason: 'Feriado' }, bancaUser, 'banca-1')
+    ).rejects.toMatchObject({ statusCode: 400 });
+
+    const result = await CreditLimitService.setOverride(
+      'limit-1',
+      { limit: 150000, until: in2Days, reason: 'Feriado' },
+      bancaUser,
+      'banca-1'
+    );
+
+    expect(result).toMatchObject({ overrideActive: true, effectiveHardLimit: 150000 });
+    expect(CacheService.invalidateTag).toHaveBeenCalledWith('credit-limits:ventana-1');
+    expect((ActivityService.log as jest.Mock).mock.calls[0][0]).toMatchObject({
+      userId: 'banca-user',
+      bancaId: 'banca-1',
+      targetType: 'USER',
+      targetId: 'vendedor-1',
+      details: { op: 'credit_limit_override', hardLimit: 100000, overrideLimit: 150000, reason: 'Feriado' },
+    });
+  });
+});
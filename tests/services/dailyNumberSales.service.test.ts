@@ -0,0 +1,37 @@
+/// <reference types="jest" />
+import { DailyNumberSalesService } from '../../src/api/v1/services/dailyNumberSales.service';
+import { resolveTicketBancaId, resolvedTicketBancaSql } from '../../src/core/tenantResolution';
+import prisma from '../../src/core/prismaClient';
+
+jest.mock('../../src/core/prismaClient', () => {
+  const tx = { $executeRaw: jest.fn() };
+  return {
+    __esModule: true,
+    default: {
+      tx,
+      $transaction: jest.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+const tx = (prisma as any).tx;
+
+describe('tenant resolution', () => {
+  it('prefers the ventana banca and never falls back to a default banca', () => {
+    expect(
+      resolveTicketBancaId({ bancaId: 'stale', ventana: { bancaId: 'banca-v' }, sorteo: { bancaId: 'banca-s' } })
+    ).toBe('banca-v');
+    expect(resolveTicketBancaId({ bancaId: null, ventana: null, sorteo: { bancaId: null }, loteria: { bancaId: 'banca-l' } })).toBe(
+      'banca-l'
+    );
+    expect(resolveTicketBancaId({ bancaId: null })).toBeNull();
+  });
+
+  it('aggregates sorteo sales with the resolved banca instead of a hardcoded one', async () => {
+    await DailyNumberSalesService.aggregateSorteoSales('sorteo-1');
+
+    const [strings, ...values] = tx.$executeRaw.mock.calls[1];
+    expect(strings.join('?')).not.toMatch(/COALESCE\(t\."bancaId"/);
+    expect(values).toContain(resolvedTicketBancaSql);
+  });
+});
@@ -0,0 +1,233 @@
+/// <reference types="jest" />
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ExportJobService } from '../../src/api/v1/services/exportJob.service';
+import { LocalDiskExportStorage, setExportStorage } from '../../src/services/exports/storage';
+import CommissionsService from '../../src/api/v1/services/commissions.service';
+import prisma from '../../src/core/prismaClient';
+import { TenantContext } from '../../src/core/tenantContext';
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: {
+    exportJob: {
+      updateMany: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../../src/api/v1/services/commissions.service', () => {
+  const service = { list: jest.fn() };
+  return { __esModule: true, default: service, CommissionsService: service };
+});
+
+jest.mock('../../src/core/activity.service', () => ({
+  __esModule: true,
+  default: { log: jest.fn() },
+}));
+
+const buildJob = (overrides: Record<string, unknown> = {}) => ({
+  id: '7c1f6f0e-2d4b-4b8e-9a51-0a3c2f9d1e11',
+  userId: 'user-1',
+  bancaId: 'banca-1',
+  format: 'CSV',
+  filters: {
+    source: 'commissions',
+    date: 'range',
+    fromDate: '2026-10-01',
+    toDate: '2026-10-18',
+    filters: { scope: 'all', dimension: 'ventana' },
+  },
+  status: 'PROCESSING',
+  fileUrl: null,
+  errorMessage: null,
+  progress: 0,
+  totalRecords: null,
+  createdAt: new Date('2026-10-19T15:00:00Z'),
+  updatedAt: new Date('2026-10-19T15:00:00Z'),
+  completedAt: null,
+  idempotencyKey: null,
+  ...overrides,
+}) as any;
+
+const commissionRow = (i: number) => ({
+  date: '2026-10-01',
+  ventanaName: `Listero ${i}`,
+  totalTickets: i,
+  totalSales: i * 1000,
+  totalPayouts: 0,
+  totalCommission: i * 50,
+});
+
+describe('ExportJobService', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Solo el reloj: los streams del archivo siguen usando los timers reales
+    jest.useFakeTimers({
+      now: new Date('2026-10-19T16:00:00Z'),
+      doNotFake: ['nextTick', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask'],
+    });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'export-jobs-test-'));
+    setExportStorage(new LocalDiskExportStorage(dir));
+    (prisma.exportJob.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes the CSV file and completes the job with its storage key', async () => {
+    (CommissionsService.list as jest.Mock).mockResolvedValue([commissionRow(1), { ...commissionRow(2), ventanaName: 'Centro, Norte' }]);
+
+    const status = await ExportJobService.process(buildJob());
+
+    expect(status).toBe('COMPLETED');
+    expect(CommissionsService.list).toHaveBeenCalledWith(
+      'range',
+      '2026-10-01',
+      '2026-10-18',
+      { scope: 'all', dimension: 'ventana' },
+      undefined
+    );
+    const completeCall = (prisma.exportJob.updateMany as jest.Mock).mock.calls.at(-1)[0];
+    expect(completeCall.where).toEqual({ id: buildJob().id, status: 'PROCESSING' });
+    expect(completeCall.data).toMatchObject({
+      status: 'COMPLETED',
+      progress: 100,
+      totalRecords: 2,
+      fileUrl: `local:2026-10/${buildJob().id}.csv`,
+    });
+
+    const content = fs.readFileSync(path.join(dir, '2026-10', `${buildJob().id}.csv`), 'utf8');
+    const lines = content.replace(/^\ufeff/, '').trim().split('\n');
+    expect(lines[0]).toBe('Fecha,Listero,Vendedor,Tickets,Ventas,Premios,Comisión,Comisión Listero,Comisión Vendedor,Neto');
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toContain('"Centro, Norte"');
+  });
+
+  it('writes JSON with the source columns only', async () => {
+    (CommissionsService.list as jest.Mock).mockResolvedValue([{ ...commissionRow(1), internal: 'x' }]);
+
+    await ExportJobService.process(buildJob({ format: 'JSON' }));
+
+    const parsed = JSON.parse(fs.readFileSync(path.join(dir, '2026-10', `${buildJob().id}.json`), 'utf8'));
+    expect(parsed).toHaveLength(1);
+    expect(parsed[0]).toMatchObject({ ventanaName: 'Listero 1', totalSales: 1000, vendedorName: null });
+    expect(parsed[0]).not.toHaveProperty('internal');
+  });
+
+  it('stops between batches and removes the partial file when cancelled', async () => {
+    (CommissionsService.list as jest.Mock).mockResolvedValue(Array.from({ length: 1200 }, (_, i) => commissionRow(i)));
+    // El primer lote reporta progreso; el segundo encuentra el trabajo cancelado
+    (prisma.exportJob.updateMany as jest.Mock)
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    const status = await ExportJobService.process(buildJob());
+
+    expect(status).toBe('CANCELLED');
+    expect(fs.existsSync(path.join(dir, '2026-10', `${buildJob().id}.csv`))).toBe(false);
+    const calls = (prisma.exportJob.updateMany as jest.Mock).mock.calls;
+    expect(calls).toHaveLength(2);
+    expect(calls[0][0].data).toEqual({ progress: 41, totalRecords: 500 });
+    expect(calls[1][0].data).toEqual({ progress: 83, totalRecords: 1000 });
+  });
+
+  it('loads one month at a time and writes each page before loading the next', async () => {
+    (CommissionsService.list as jest.Mock).mockImplementation(async (_date: string, fromDate: string) => [
+      { ...commissionRow(1), date: fromDate },
+    ]);
+
+    const status = await ExportJobService.process(
+      buildJob({ filters: { ...buildJob().filters, fromDate: '2026-08-15', toDate: '2026-10-18' } })
+    );
+
+    expect(status).toBe('COMPLETED');
+    const list = CommissionsService.list as jest.Mock;
+    expect(list.mock.calls.map((call) => [call[1], call[2]])).toEqual([
+      ['2026-10-01', '2026-10-18'],
+      ['2026-09-01', '2026-09-30'],
+      ['2026-08-15', '2026-08-31'],
+    ]);
+
+    // Cada página reporta su progreso antes de que se pida la siguiente
+    const updates = prisma.exportJob.updateMany as jest.Mock;
+    expect(updates.mock.calls.slice(0, 3).map((call) => call[0].data)).toEqual([
+      { progress: 33, totalRecords: 1 },
+      { progress: 66, totalRecords: 2 },
+      { progress: 99, totalRecords: 3 },
+    ]);
+    expect(updates.mock.invocationCallOrder[0]).toBeLessThan(list.mock.invocationCallOrder[1]);
+    expect(updates.mock.invocationCallOrder[1]).toBeLessThan(list.mock.invocationCallOrder[2]);
+    expect(updates.mock.calls[3][0].data).toMatchObject({ status: 'COMPLETED', totalRecords: 3 });
+
+    const lines = fs
+      .readFileSync(path.join(dir, '2026-10', `${buildJob().id}.csv`), 'utf8')
+      .replace(/^\ufeff/, '')
+      .trim()
+      .split('\n');
+    expect(lines.slice(1).map((line) => line.slice(0, 10))).toEqual(['2026-10-01', '2026-09-01', '2026-08-15']);
+  });
+
+  it('drains jobs enqueued from a request under each job own banca, not the requester', async () => {
+    const jobB = { ...buildJob({ id: 'job-banca-b', bancaId: 'banca-b', userId: 'user-b', status: 'PENDING' }), user: { role: 'BANCA', ventanaId: null } };
+    (prisma.exportJob.create as jest.Mock).mockImplementation(async ({ data }: any) => buildJob({ ...data, id: 'job-banca-a', status: 'PENDING' }));
+    (prisma.exportJob.findMany as jest.Mock).mockResolvedValueOnce([jobB]).mockResolvedValueOnce([]);
+    const scopes: unknown[] = [];
+    (CommissionsService.list as jest.Mock).mockImplementation(async () => {
+      scopes.push(TenantContext.get());
+      return [commissionRow(1)];
+    });
+    const drain = jest.spyOn(ExportJobService, 'processPending');
+
+    await TenantContext.run({ bancaId: 'banca-a', role: 'BANCA', userId: 'user-a' }, () =>
+      ExportJobService.enqueue(buildJob().filters, 'CSV' as any, { id: 'user-a', role: 'BANCA' } as any, { bancaId: 'banca-a' })
+    );
+    await new Promise((resolve) => setImmediate(resolve));
+    await drain.mock.results[0].value;
+
+    expect(scopes).toEqual([{ bancaId: 'banca-b', role: 'BANCA', ventanaId: null, userId: 'user-b' }]);
+    expect(prisma.exportJob.updateMany).toHaveBeenCalledWith({
+      where: { id: 'job-banca-b', status: 'PROCESSING' },
+      data: expect.objectContaining({ status: 'COMPLETED' }),
+    });
+    drain.mockRestore();
+  });
+
+  it('marks the job FAILED when the data source throws', async () => {
+    (CommissionsService.list as jest.Mock).mockRejectedValue(new Error('timeout de base de datos'));
+
+    const status = await ExportJobService.process(buildJob());
+
+    expect(status).toBe('FAILED');
+    expect(prisma.exportJob.updateMany).toHaveBeenCalledWith({
+      where: { id: buildJob().id, status: 'PROCESSING' },
+      data: expect.objectContaining({ status: 'FAILED', errorMessage: 'timeout de base de datos' }),
+    });
+  });
+
+  it('deletes expired files and keeps the job without fileUrl', async () => {
+    fs.mkdirSync(path.join(dir, '2026-10'));
+    fs.writeFileSync(path.join(dir, '2026-10', 'old.csv'), 'a,b\n');
+    (prisma.exportJob.findMany as jest.Mock)
+      .mockResolvedValueOnce([{ id: 'job-old', fileUrl: 'local:2026-10/old.csv' }])
+      .mockResolvedValueOnce([]);
+    (prisma.exportJob.update as jest.Mock).mockResolvedValue({});
+
+    const result = await ExportJobService.cleanupExpired(new Date('2026-10-19T12:00:00Z'));
+
+    expect(result).toEqual({ removed: 1 });
+    expect(fs.existsSync(path.join(dir, '2026-10', 'old.csv'))).toBe(false);
+    expect(prisma.exportJob.update).toHaveBeenCalledWith({ where: { id: 'job-old' }, data: { fileUrl: null } });
+    const where = (prisma.exportJob.findMany as jest.Mock).mock.calls[0][0].where;
+    expect(where.completedAt.lt).toEqual(new Date('2026-10-18T12:00:00Z'));
+  });
+});
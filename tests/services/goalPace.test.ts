@@ -0,0 +1,69 @@
+/// <reference types="jest" />
+import { computeGoalPace, resolveGoalEndDate } from '../../src/utils/goalPace';
+
+describe('resolveGoalEndDate', () => {
+  it.each([
+    ['daily', '2026-10-19', undefined, '2026-10-19'],
+    ['weekly', '2026-10-19', undefined, '2026-10-25'],
+    ['monthly', '2026-10-05', undefined, '2026-10-31'],
+    ['monthly', '2028-02-01', undefined, '2028-02-29'],
+    ['custom', '2026-10-01', '2026-12-15', '2026-12-15'],
+  ] as const)('%s from %s → %s', (period, start, end, expected) => {
+    expect(resolveGoalEndDate(period, start, end)).toBe(expected);
+  });
+
+  it('requires endDate for custom goals', () => {
+    expect(() => resolveGoalEndDate('custom', '2026-10-01')).toThrow();
+  });
+});
+
+describe('computeGoalPace', () => {
+  const base = { target: 1_000_000, startDate: '2026-10-01', endDate: '2026-10-31' };
+
+  it('projects the current daily rate to the end of the period', () => {
+    // 10 de 31 días transcurridos, 280.645 vendidos → ritmo de 28.064,5/día
+    const pace = computeGoalPace({ ...base, actual: 280_645, today: '2026-10-10' });
+
+    expect(pace).toMatchObject({
+      totalDays: 31,
+      elapsedDays: 10,
+      remainingDays: 21,
+      pct: 28.06,
+      projected: 869999.5,
+      projectedPct: 87,
+      status: 'behind',
+      message: 'Al ritmo actual alcanzará el 87% de la meta',
+    });
+    expect(pace.requiredDailyRate).toBeCloseTo((1_000_000 - 280_645) / 21, 2);
+  });
+
+  it('is on track when the projection reaches the target', () => {
+    const pace = computeGoalPace({ ...base, actual: 500_000, today: '2026-10-15' });
+    expect(pace.status).toBe('on_track');
+    expect(pace.projectedPct).toBeGreaterThanOrEqual(100);
+  });
+
+  it('reports achieved goals regardless of the date', () => {
+    const pace = computeGoalPace({ ...base, actual: 1_050_000, today: '2026-10-20' });
+    expect(pace.status).toBe('achieved');
+    expect(pace.pct).toBe(105);
+    expect(pace.requiredDailyRate).toBe(0);
+  });
+
+  it('does not project before the goal starts', () => {
+    const pace = computeGoalPace({ ...base, actual: 0, today: '2026-09-28' });
+    expect(pace).toMatchObject({ status: 'upcoming', elapsedDays: 0, projected: null, projectedPct: null });
+  });
+
+  it('freezes the projection at the final value once the period ended', () => {
+    const pace = computeGoalPace({ ...base, actual: 900_000, today: '2026-11-03' });
+    expect(pace).toMatchObject({
+      status: 'missed',
+      elapsedDays: 31,
+      remainingDays: 0,
+      projected: 900_000,
+      projectedPct: 90,
+      requiredDailyRate: null,
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/// <reference types="jest" />
+import { applyHotNumberPolicy, resolveHotNumberState } from '../../src/repositories/helpers/hotNumbers.helper';
+import { calculateAccumulatedByNumbersAndScope } from '../../src/repositories/helpers/ticket-restriction.helper';
+import { parseHotNumberPolicy } from '../../src/types/schemas/databaseJson.schema';
+import prisma from '../../src/core/prismaClient';
+import { ReportDimension } from '../../src/types/enums/report.enum';
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: {
+    banca: { findUnique: jest.fn() },
+  },
+}));
+
+jest.mock('../../src/repositories/helpers/ticket-restriction.helper', () => ({
+  __esModule: true,
+  calculateAccumulatedByNumbersAndScope: jest.fn(),
+}));
+
+jest.mock('../../src/core/cache.service', () => ({
+  __esModule: true,
+  CacheService: {
+    wrap: jest.fn((_key: string, fetcher: () => Promise<unknown>) => fetcher()),
+  },
+}));
+
+// Capacidad de 900 000 a 90x: el número se agota con 10 000 vendidos
+const policyJson = {
+  payoutCapacity: 900000,
+  tiers: [
+    { share: 0.5, limitFactor: 0.5 },
+    { share: 0.8, limitFactor: 0.25, multiplierX: 70 },
+  ],
+};
+const policy = parseHotNumberPolicy(policyJson)!;
+const tx = { ticket: { aggregate: jest.fn() } } as any;
+
+const sale = (jugadas: Array<{ number: string; amount: number }>) =>
+  jugadas.map((j) => ({ type: 'NUMERO' as any, finalMultiplierX: 90, ...j }));
+
+describe('hot numbers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.banca.findUnique as jest.Mock).mockResolvedValue({ hotNumberPolicyJson: policyJson });
+  });
+
+  it('shrinks the per-ticket limit progressively as the number heats up', () => {
+    const state = (accumulated: number) =>
+      resolveHotNumberState(policy, { number: '15', accumulated, capacity: 900000, multiplierX: 90 });
+
+    expect(state(4000)).toMatchObject({ share: 0.4, tier: null, ticketLimit: null, offeredMultiplierX: 90 });
+    expect(state(6000)).toMatchObject({ share: 0.6, ticketLimit: 2000, offeredMultiplierX: 90 });
+    expect(state(9000)).toMatchObject({ share: 0.9, ticketLimit: 250, offeredMultiplierX: 70 });
+    expect(state(10000)).toMatchObject({ ticketLimit: 0, reason: 'Capacidad de pago agotada' });
+  });
+
+  it('rejects the sale with the hot-number reason', async () => {
+    (calculateAccumulatedByNumbersAndScope as jest.Mock).mockResolvedValue(new Map([['15', 6000], ['20', 0]]));
+
+    await expect(
+      applyHotNumberPolicy(tx, {
+        bancaId: 'banca-1',
+        sorteoId: 'sorteo-1',
+        jugadas: sale([{ number: '20', amount: 5000 }, { number: '15', amount: 2500 }]),
+      })
+    ).rejects.toMatchObject({
+      statusCode: 400,
+      message: 'El número 15: Número caliente (60% de la capacidad de pago). Disponible ₡2000.00',
+      meta: { code: 'NUMBER_HOT_LIMIT', number: '15', available: 2000 },
+    });
+    expect(calculateAccumulatedByNumbersAndScope).toHaveBeenCalledWith(
+      tx,
+      expect.objectContaining({ scopeType: ReportDimension.BANCA, scopeId: 'banca-1', sorteoId: 'sorteo-1', numbers: ['20', '15'] })
+    );
+  });
+
+  it('lowers the offered multiplier and warns instead of rejecting under the limit', async () => {
+    (calculateAccumulatedByNumbersAndScope as jest.Mock).mockResolvedValue(new Map([['15', 9000]]));
+    const jugadas = sale([{ number: '15', amount: 200 }]);
+
+    const warnings = await applyHotNumberPolicy(tx, { bancaId: 'banca-1', sorteoId: 'sorteo-1', jugadas });
+
+    expect(jugadas[0].finalMultiplierX).toBe(70);
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: 'HOT_NUMBER_MULTIPLIER_REDUCED', number: '15', multiplierX: 70, previousMultiplierX: 90 }),
+    ]);
+  });
+
+  it('uses the sorteo sales as capacity and skips bancas without policy', async () => {
+    (prisma.banca.findUnique as jest.Mock).mockResolvedValue({
+      hotNumberPolicyJson: { salesCapacityPercent: 60, tiers: [{ share: 0.5, limitFactor: 0.5 }] },
+    });
+    tx.ticket.aggregate.mockResolvedValue({ _sum: { totalAmount: 149000 } });
+    (calculateAccumulatedByNumbersAndScope as jest.Mock).mockResolvedValue(new Map([['15', 1000]]));
+
+    // 60% de 150 000 = 90 000 de capacidad → 1000 × 90 = 100%: agotado
+    await expect(
+      applyHotNumberPolicy(tx, { bancaId: 'banca-1', sorteoId: 'sorteo-1', jugadas: sale([{ number: '15', amount: 1000 }]) })
+    ).rejects.toMatchObject({ message: 'El número 15: Capacidad de pago agotada. Agotado para este sorteo' });
+
+    (prisma.banca.findUnique as jest.Mock).mockResolvedValue({ hotNumberPolicyJson: null });
+    await expect(
+      applyHotNumberPolicy(tx, { bancaId: 'banca-1', sorteoId: 'sorteo-1', jugadas: sale([{ number: '15', amount: 1000 }]) })
+    ).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,33 @@
+/// <reference types="jest" />
+import { Decimal } from 'decimal.js';
+import { percentOfMoney, roundMoney, sumMoney, toMinorUnits, toMoneyNumber } from '../../src/utils/decimal';
+
+describe('money arithmetic', () => {
+  it('rounds half away from zero like the NUMERIC cast', () => {
+    // 1.005 y 2.675 no son exactos en binario: toFixed(2) da 1.00 y 2.67
+    expect(roundMoney(1.005)).toBe(1.01);
+    expect(roundMoney(2.675)).toBe(2.68);
+    expect(roundMoney(-1.005)).toBe(-1.01);
+    expect(toMinorUnits('1234.565')).toBe(123457);
+  });
+
+  it('sums in cents so the order of the rows does not change the total', () => {
+    const rows = [0.1, 0.2, 0.3, 1000.07, 999.93, null, undefined];
+    expect(sumMoney(rows)).toBe(2000.6);
+    expect(sumMoney([...rows].reverse())).toBe(2000.6);
+    expect(sumMoney([])).toBe(0);
+  });
+
+  it('computes commissions to the cent', () => {
+    expect(percentOfMoney(1050, 7.5)).toBe(78.75);
+    expect(percentOfMoney(333, 8.5)).toBe(28.31); // 28.305
+    expect(percentOfMoney(10.05, 10)).toBe(1.01); // 1.005
+  });
+
+  it('reads Prisma decimals and cached strings as numbers', () => {
+    expect(toMoneyNumber(new Decimal('15000.50'))).toBe(15000.5);
+    expect(toMoneyNumber('99.999')).toBe(100);
+    expect(toMoneyNumber(12.5)).toBe(12.5);
+    expect(toMoneyNumber(null)).toBeNull();
+  });
+});
@@ -0,0 +1,211 @@
+/// <reference types="jest" />
+import {
+  monthsInRange,
+  periodRange,
+  rangeContains,
+} from '../../src/api/v1/services/accounts/accounts.periodLocks.helpers';
+import { PeriodLockService } from '../../src/api/v1/services/accounts/accounts.periodLocks';
+import { deleteStatement, registerPayment, reversePayment } from '../../src/api/v1/services/accounts/accounts.movements';
+import { recalculateMonthlyClosingForDimension } from '../../src/api/v1/services/accounts/monthlyClosing.service';
+import { TicketService } from '../../src/api/v1/services/ticket.service';
+import SorteoService from '../../src/api/v1/services/sorteo.service';
+import PeriodLockRepository from '../../src/repositories/periodLock.repository';
+import TicketRepository from '../../src/repositories/ticket.repository';
+import SorteoRepository from '../../src/repositories/sorteo.repository';
+import { AccountStatementRepository } from '../../src/repositories/accountStatement.repository';
+import prisma from '../../src/core/prismaClient';
+
+jest.mock('uuid', () => ({ v4: jest.fn() }));
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: {
+    sorteo: { findUnique: jest.fn() },
+    ventana: { findUnique: jest.fn() },
+    user: { findUnique: jest.fn() },
+    accountStatement: { findFirst: jest.fn(), create: jest.fn() },
+    accountPayment: { create: jest.fn(), update: jest.fn() },
+    bankStatementLine: { findUnique: jest.fn() },
+  },
+}));
+
+jest.mock('../../src/repositories/periodLock.repository', () => ({
+  __esModule: true,
+  default: {
+    create: jest.fn(),
+    findById: jest.fn(),
+    findByPeriod: jest.fn(),
+    findLockedCovering: jest.fn(),
+    transition: jest.fn(),
+    sorteoBooks: jest.fn(),
+    findMonthlyClosings: jest.fn(),
+    findOwnerBancaId: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/repositories/ticket.repository', () => ({
+  __esModule: true,
+  default: { getById: jest.fn(), cancel: jest.fn() },
+}));
+
+jest.mock('../../src/repositories/sorteo.repository', () => ({
+  __esModule: true,
+  default: { revertEvaluation: jest.fn() },
+}));
+
+jest.mock('../../src/repositories/accountStatement.repository', () => ({
+  __esModule: true,
+  AccountStatementRepository: { findById: jest.fn(), delete: jest.fn() },
+}));
+
+jest.mock('../../src/api/v1/services/accounts/monthlyClosing.service', () => ({
+  __esModule: true,
+  recalculateMonthlyClosingForDimension: jest.fn(),
+}));
+
+jest.mock('../../src/core/activity.service', () => ({
+  __esModule: true,
+  default: { log: jest.fn() },
+}));
+
+describe('period locks', () => {
+  it('resolves the day, ISO week and month that contain a date', () => {
+    expect(periodRange('DAY', '2026-10-15')).toEqual({ startDate: '2026-10-15', endDate: '2026-10-15' });
+    // 2026-10-15 es jueves: semana del lunes 12 al domingo 18
+    expect(periodRange('WEEK', '2026-10-15')).toEqual({ startDate: '2026-10-12', endDate: '2026-10-18' });
+    expect(periodRange('WEEK', '2026-10-18')).toEqual({ startDate: '2026-10-12', endDate: '2026-10-18' });
+    expect(periodRange('WEEK', '2026-10-12')).toEqual({ startDate: '2026-10-12', endDate: '2026-10-18' });
+    expect(periodRange('MONTH', '2026-02-10')).toEqual({ startDate: '2026-02-01', endDate: '2026-02-28' });
+    expect(periodRange('MONTH', '2026-12-31')).toEqual({ startDate: '2026-12-01', endDate: '2026-12-31' });
+  });
+
+  it('lists every month a locked period touches for re-closing', () => {
+    const week = periodRange('WEEK', '2026-12-31');
+    expect(week).toEqual({ startDate: '2026-12-28', endDate: '2027-01-03' });
+    expect(monthsInRange(week)).toEqual(['2026-12', '2027-01']);
+    expect(monthsInRange(periodRange('MONTH', '2026-10-01'))).toEqual(['2026-10']);
+  });
+
+  it('detects a wider lock that still covers a period', () => {
+    const month = periodRange('MONTH', '2026-10-01');
+    expect(rangeContains(month, periodRange('WEEK', '2026-10-15'))).toBe(true);
+    expect(rangeContains(month, periodRange('WEEK', '2026-10-01'))).toBe(false);
+    expect(rangeContains(periodRange('DAY', '2026-10-15'), month)).toBe(false);
+  });
+});
+
+describe('PeriodLockService', () => {
+  // Semana del 12 al 18 de octubre de 2026, bloqueada para banca-1
+  let week: any;
+  const actor = { id: 'banca-user', role: 'BANCA' } as any;
+  const locked = { statusCode: 409, meta: expect.objectContaining({ code: 'PERIOD_LOCKED' }) };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    week = {
+      id: 'lock-1',
+      bancaId: 'banca-1',
+      periodType: 'WEEK',
+      startDate: new Date('2026-10-12T00:00:00.000Z'),
+      endDate: new Date('2026-10-18T00:00:00.000Z'),
+      status: 'LOCKED',
+    };
+    const covers = (dateStr: string) =>
+      week.startDate <= new Date(`${dateStr}T00:00:00.000Z`) && new Date(`${dateStr}T00:00:00.000Z`) <= week.endDate;
+
+    (PeriodLockRepository.findLockedCovering as jest.Mock).mockImplementation(async (bancaId: string, dates: string[]) =>
+      week.bancaId === bancaId && week.status === 'LOCKED' && dates.some(covers) ? [week] : []
+    );
+    (PeriodLockRepository.findById as jest.Mock).mockImplementation(async () => ({ ...week }));
+    (PeriodLockRepository.findByPeriod as jest.Mock).mockImplementation(async () => ({ ...week }));
+    (PeriodLockRepository.transition as jest.Mock).mockImplementation(async (_id: string, from: string, data: any) => {
+      if (week.status !== from) return false;
+      week.status = data.status;
+      return true;
+    });
+    (PeriodLockRepository.findOwnerBancaId as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('resolves the banca from the ventana and fails closed without one', async () => {
+    (PeriodLockRepository.findOwnerBancaId as jest.Mock).mockResolvedValue('banca-1');
+    await expect(PeriodLockService.assertOpen({ bancaId: null, ventanaId: 'ventana-1' }, '2026-10-15', 'probar')).rejects.toMatchObject(locked);
+    expect(PeriodLockRepository.findOwnerBancaId).toHaveBeenCalledWith('ventana-1', undefined);
+
+    (PeriodLockRepository.findOwnerBancaId as jest.Mock).mockResolvedValue(null);
+    await expect(PeriodLockService.assertOpen({ bancaId: null }, '2026-10-15', 'probar')).rejects.toMatchObject({
+      statusCode: 409,
+      meta: 'PERIOD_BANCA_UNRESOLVED',
+    });
+    await expect(PeriodLockService.assertOpen({ bancaId: 'banca-1' }, '2026-10-19', 'probar')).resolves.toBeUndefined();
+  });
+
+  it('rejects cancelling a ticket sold in a locked period', async () => {
+    (TicketRepository.getById as jest.Mock).mockResolvedValue({
+      id: 'ticket-1',
+      businessDate: new Date('2026-10-15T00:00:00.000Z'),
+      createdAt: new Date('2026-10-15T18:00:00.000Z'),
+      ventana: { bancaId: 'banca-1' },
+    });
+
+    await expect(TicketService.cancel('ticket-1', 'user-1')).rejects.toMatchObject(locked);
+    expect(TicketRepository.cancel).not.toHaveBeenCalled();
+  });
+
+  it('rejects reverting a sorteo with tickets in a locked period', async () => {
+    (prisma.sorteo.findUnique as jest.Mock).mockResolvedValue({ id: 'sorteo-1', bancaId: null, status: 'EVALUATED' });
+    (PeriodLockRepository.sorteoBooks as jest.Mock).mockResolvedValue([
+      { bancaId: 'banca-2', businessDate: '2026-10-15' },
+      { bancaId: 'banca-1', businessDate: '2026-10-15' },
+    ]);
+
+    await expect(SorteoService.revertEvaluation('sorteo-1', 'admin-1', undefined, undefined, 'ADMIN' as any)).rejects.toMatchObject(locked);
+    expect(SorteoRepository.revertEvaluation).not.toHaveBeenCalled();
+  });
+
+  it('rejects registering and reversing payments and deleting statements in a locked period', async () => {
+    (prisma.ventana.findUnique as jest.Mock).mockResolvedValue({ bancaId: 'banca-1' });
+    const statement = { id: 'st-1', date: new Date('2026-10-15T00:00:00.000Z'), bancaId: null, ventanaId: 'ventana-1', vendedorId: null };
+
+    await expect(
+      registerPayment({
+        date: '2026-10-15',
+        ventanaId: 'ventana-1',
+        amount: 1000,
+        type: 'payment',
+        method: 'cash',
+        paidById: 'user-1',
+        paidByName: 'Cajero',
+      })
+    ).rejects.toMatchObject(locked);
+    expect(prisma.accountPayment.create).not.toHaveBeenCalled();
+
+    // Movimiento y statement sin banca propia: se resuelve por la ventana
+    (PeriodLockRepository.findOwnerBancaId as jest.Mock).mockResolvedValue('banca-1');
+    await expect(
+      reversePayment({ id: 'pay-1', isReversed: false, bancaId: null, date: statement.date, accountStatement: statement } as any, 'user-1')
+    ).rejects.toMatchObject(locked);
+    expect(prisma.accountPayment.update).not.toHaveBeenCalled();
+
+    (AccountStatementRepository.findById as jest.Mock).mockResolvedValue({ ...statement, ticketCount: 0 });
+    await expect(deleteStatement('st-1')).rejects.toMatchObject(locked);
+    expect(AccountStatementRepository.delete).not.toHaveBeenCalled();
+  });
+
+  it('lets writes through while reopened and re-closes the months when locked again', async () => {
+    const cancelTarget = { bancaId: 'banca-1' };
+    (PeriodLockRepository.findMonthlyClosings as jest.Mock).mockResolvedValue([
+      { closingMonth: '2026-10', dimension: 'banca', ventanaId: null, vendedorId: null, bancaId: 'banca-1' },
+      { closingMonth: '2026-10', dimension: 'ventana', ventanaId: 'ventana-1', vendedorId: null, bancaId: 'banca-1' },
+    ]);
+
+    await PeriodLockService.reopen('lock-1', { reason: 'Corrección de pagos' }, actor, 'banca-1');
+    await expect(PeriodLockService.assertOpen(cancelTarget, '2026-10-15', 'probar')).resolves.toBeUndefined();
+
+    const { reclosed } = await PeriodLockService.lock({ periodType: 'WEEK', date: '2026-10-15' }, actor, 'banca-1');
+
+    expect(reclosed).toBe(2);
+    expect(PeriodLockRepository.findMonthlyClosings).toHaveBeenCalledWith('banca-1', ['2026-10']);
+    expect(recalculateMonthlyClosingForDimension).toHaveBeenCalledWith('2026-10', 'ventana', 'ventana-1', null, 'banca-1');
+    await expect(PeriodLockService.assertOpen(cancelTarget, '2026-10-15', 'probar')).rejects.toMatchObject(locked);
+  });
+});
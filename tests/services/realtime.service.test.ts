@@ -0,0 +1,139 @@
+/// <reference types="jest" />
+import { canReceive, RealtimeClient, RealtimeEvent, RealtimeService } from '../../src/api/v1/services/realtime.service';
+import SorteoRepository from '../../src/repositories/sorteo.repository';
+
+jest.mock('../../src/core/redisClient', () => ({
+  __esModule: true,
+  getRedisClient: jest.fn(() => null),
+  isRedisAvailable: jest.fn(() => false),
+  redisSubscriber: null,
+}));
+
+jest.mock('../../src/repositories/sorteo.repository', () => ({
+  __esModule: true,
+  default: { aggregatePayoutExposure: jest.fn() },
+}));
+
+const client = (overrides: Partial<RealtimeClient> = {}): RealtimeClient => ({
+  id: 'client-1',
+  userId: 'user-1',
+  role: 'ADMIN' as any,
+  bancaId: 'banca-1',
+  ventanaId: null,
+  types: null,
+  sorteoId: null,
+  send: jest.fn(),
+  close: jest.fn(),
+  ...overrides,
+});
+
+const event = (overrides: Partial<RealtimeEvent> = {}): RealtimeEvent => ({
+  id: 'event-1',
+  type: 'ticket.created',
+  at: '2026-10-19T18:00:00.000Z',
+  bancaId: 'banca-1',
+  ventanaId: 'ventana-1',
+  vendedorId: 'vendedor-1',
+  sorteoId: 'sorteo-1',
+  data: {},
+  ...overrides,
+});
+
+describe('canReceive', () => {
+  it('keeps every role inside its banca, ventana or own sales', () => {
+    expect(canReceive(client(), event())).toBe(true);
+    expect(canReceive(client(), event({ bancaId: 'banca-2' }))).toBe(false);
+    expect(canReceive(client({ role: 'BANCA' as any }), event())).toBe(true);
+    expect(canReceive(client({ role: 'VENTANA' as any, ventanaId: 'ventana-1' }), event())).toBe(true);
+    expect(canReceive(client({ role: 'VENTANA' as any, ventanaId: 'ventana-2' }), event())).toBe(false);
+    expect(canReceive(client({ role: 'VENDEDOR' as any, userId: 'vendedor-1' }), event())).toBe(true);
+    expect(canReceive(client({ role: 'VENDEDOR' as any, userId: 'vendedor-2' }), event())).toBe(false);
+  });
+
+  it('sends banca-wide exposure only to admin and banca users', () => {
+    const exposure = event({ type: 'sorteo.exposure', ventanaId: undefined, vendedorId: undefined });
+
+    expect(canReceive(client({ role: 'BANCA' as any }), exposure)).toBe(true);
+    expect(canReceive(client({ role: 'VENTANA' as any, ventanaId: 'ventana-1' }), exposure)).toBe(false);
+    expect(canReceive(client({ role: 'VENDEDOR' as any, userId: 'vendedor-1' }), exposure)).toBe(false);
+  });
+
+  it('delivers global sorteo status changes to everyone', () => {
+    const status = event({ type: 'sorteo.status', bancaId: null, ventanaId: undefined, vendedorId: undefined });
+
+    expect(canReceive(client({ role: 'BANCA' as any }), status)).toBe(true);
+    expect(canReceive(client({ role: 'VENDEDOR' as any, userId: 'vendedor-2' }), status)).toBe(true);
+  });
+
+  it('applies the type and sorteo filters of the stream', () => {
+    expect(canReceive(client({ types: new Set(['sorteo.status']) }), event())).toBe(false);
+    expect(canReceive(client({ sorteoId: 'sorteo-2' }), event())).toBe(false);
+  });
+});
+
+describe('RealtimeService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    RealtimeService.closeAll();
+  });
+
+  it('delivers locally to the subscribed streams when redis is not available', () => {
+    const own = client({ id: 'a', role: 'VENDEDOR' as any, userId: 'vendedor-1' });
+    const other = client({ id: 'b', role: 'VENDEDOR' as any, userId: 'vendedor-2' });
+    RealtimeService.subscribe(own);
+    const unsubscribe = RealtimeService.subscribe(other);
+
+    RealtimeService.ticketCancelled(
+      { id: 'ticket-1', ticketNumber: 'T-0001', sorteoId: 'sorteo-1', totalAmount: 500, jugadas: [{ type: 'NUMERO', number: '47', amount: 500 }] },
+      { bancaId: 'banca-1', ventanaId: 'ventana-1', vendedorId: 'vendedor-1' },
+      'vendedor-1'
+    );
+
+    expect(own.send).toHaveBeenCalledTimes(1);
+    expect((own.send as jest.Mock).mock.calls[0][0]).toMatchObject({
+      type: 'ticket.cancelled',
+      data: { totalAmount: -500, jugadas: [{ number: '47', amount: -500 }] },
+    });
+    expect(other.send).not.toHaveBeenCalled();
+    unsubscribe();
+    expect(RealtimeService.connectionCount()).toBe(1);
+  });
+
+  it('only publishes restriction rejections as limit hits', () => {
+    const admin = client();
+    RealtimeService.subscribe(admin);
+    const scope = { bancaId: 'banca-1', ventanaId: 'ventana-1', vendedorId: 'vendedor-1', sorteoId: 'sorteo-1' };
+
+    RealtimeService.limitHit(Object.assign(new Error('Sorteo cerrado'), { meta: { code: 'SORTEO_CLOSED' } }), scope);
+    RealtimeService.limitHit(
+      Object.assign(new Error('Tope alcanzado'), { meta: { code: 'NUMBER_MAXTOTAL_EXCEEDED', number: '47', effectiveMaxTotal: 10000, available: 0 } }),
+      scope
+    );
+
+    expect(admin.send).toHaveBeenCalledTimes(1);
+    expect((admin.send as jest.Mock).mock.calls[0][0]).toMatchObject({
+      type: 'restriction.limit_hit',
+      data: { code: 'NUMBER_MAXTOTAL_EXCEEDED', number: '47', limit: 10000, available: 0 },
+    });
+  });
+
+  it('publishes the accumulated totals of sorteos with movement once per pass', async () => {
+    const admin = client();
+    RealtimeService.subscribe(admin);
+    (SorteoRepository.aggregatePayoutExposure as jest.Mock).mockResolvedValue([
+      { number: '47', amount: 300, tickets: 2 },
+      { number: '05', amount: 100, tickets: 1 },
+    ]);
+
+    RealtimeService.markExposureDirty('sorteo-1', 'banca-1');
+    RealtimeService.markExposureDirty('sorteo-1', 'banca-1');
+
+    expect(await RealtimeService.flushExposure()).toBe(1);
+    expect(SorteoRepository.aggregatePayoutExposure).toHaveBeenCalledWith('sorteo-1', undefined, 'banca-1');
+    expect((admin.send as jest.Mock).mock.calls[0][0]).toMatchObject({
+      type: 'sorteo.exposure',
+      data: { totalAmount: 400, numbers: [{ number: '05', amount: 100, tickets: 1 }, { number: '47', amount: 300, tickets: 2 }] },
+    });
+    expect(await RealtimeService.flushExposure()).toBe(0);
+  });
+});
@@ -0,0 +1,50 @@
+/// <reference types="jest" />
+import { computeNextRunAt, resolveReportPeriod } from '../../src/utils/reportSchedule';
+
+// Lunes 19/10/2026 12:00 hora CR (UTC-6)
+const now = new Date('2026-10-19T18:00:00Z');
+
+describe('resolveReportPeriod', () => {
+  it.each([
+    ['today', '2026-10-19', '2026-10-19'],
+    ['yesterday', '2026-10-18', '2026-10-18'],
+    ['last_7_days', '2026-10-12', '2026-10-18'],
+    ['this_week', '2026-10-19', '2026-10-19'],
+    ['last_week', '2026-10-12', '2026-10-18'],
+    ['this_month', '2026-10-01', '2026-10-19'],
+    ['last_month', '2026-09-01', '2026-09-30'],
+  ] as const)('%s → %s..%s', (period, from, to) => {
+    expect(resolveReportPeriod(period, now)).toEqual({ from, to });
+  });
+
+  it('uses the CR calendar day, not UTC', () => {
+    // 01:00 UTC del 20/10 sigue siendo 19/10 en CR
+    expect(resolveReportPeriod('today', new Date('2026-10-20T01:00:00Z'))).toEqual({ from: '2026-10-19', to: '2026-10-19' });
+  });
+});
+
+describe('computeNextRunAt', () => {
+  it('DAILY: later today if the time has not passed yet', () => {
+    expect(computeNextRunAt({ frequency: 'DAILY', timeOfDay: '15:30' }, now).toISOString()).toBe('2026-10-19T21:30:00.000Z');
+  });
+
+  it('DAILY: tomorrow if the time already passed', () => {
+    expect(computeNextRunAt({ frequency: 'DAILY', timeOfDay: '07:00' }, now).toISOString()).toBe('2026-10-20T13:00:00.000Z');
+  });
+
+  it('WEEKLY: next matching ISO weekday', () => {
+    // Lunes 07:00 ya pasó hoy → lunes siguiente
+    expect(computeNextRunAt({ frequency: 'WEEKLY', timeOfDay: '07:00', dayOfWeek: 1 }, now).toISOString()).toBe('2026-10-26T13:00:00.000Z');
+    // Domingo
+    expect(computeNextRunAt({ frequency: 'WEEKLY', timeOfDay: '20:00', dayOfWeek: 7 }, now).toISOString()).toBe('2026-10-26T02:00:00.000Z');
+  });
+
+  it('MONTHLY: next matching day of month', () => {
+    expect(computeNextRunAt({ frequency: 'MONTHLY', timeOfDay: '06:00', dayOfMonth: 1 }, now).toISOString()).toBe('2026-11-01T12:00:00.000Z');
+  });
+
+  it('is strictly after the reference instant', () => {
+    const exact = new Date('2026-10-19T21:30:00Z');
+    expect(computeNextRunAt({ frequency: 'DAILY', timeOfDay: '15:30' }, exact).toISOString()).toBe('2026-10-20T21:30:00.000Z');
+  });
+});
@@ -0,0 +1,62 @@
+/// <reference types="jest" />
+import { computeNumberRisk, layOffNet, NumberLiabilityRow } from '../../src/api/v1/services/risk.helpers';
+
+// Venta del sorteo 15 000 (comisión de listero 1 500): venta neta 13 500
+const rows: NumberLiabilityRow[] = [
+  { number: '20', sales: 5000, numeroPayout: 450000, reventadoSales: 0, commissionUser: 250, commissionVentana: 500, maxMultiplierX: 90, ticketCount: 4 },
+  { number: '15', sales: 10000, numeroPayout: 810000, reventadoSales: 1000, commissionUser: 500, commissionVentana: 1000, maxMultiplierX: 90, ticketCount: 9 },
+];
+const base = { rows, reventadoMultiplierX: 50, baseMultiplierX: 85 };
+
+describe('risk', () => {
+  it('computes the worst-case loss per number including reventado and suggests the lay-off', () => {
+    const risk = computeNumberRisk({
+      ...base,
+      legs: [],
+      maxLoss: 400000,
+      policy: { maxLossPerNumber: 400000, layOffCommissionPercent: 10 },
+    });
+
+    expect(risk.totals).toMatchObject({ sales: 15000, commissions: 1500, netSales: 13500, layOffCost: 0 });
+    // 15: 810 000 + 1 000 × 50 − 13 500
+    expect(risk.numbers.map((n) => [n.number, n.worstCaseLoss])).toEqual([['15', 846500], ['20', 436500]]);
+
+    // Cada colón cedido a 90x con 10% de comisión recupera 89.1
+    expect(risk.numbers[0].suggestion).toEqual({ amount: 5012, multiplierX: 90, commissionPercent: 10, lossAfter: 399930.8 });
+    expect(risk.numbers[1].suggestion).toMatchObject({ amount: 410 });
+    expect(risk.totals.suggestedLayOff).toBe(5422);
+  });
+
+  it('discounts recorded lay-offs and charges their cost on every number', () => {
+    const risk = computeNumberRisk({
+      ...base,
+      legs: [{ number: '15', amount: 5000, multiplierX: 90, commissionPercent: 10 }],
+      maxLoss: null,
+      policy: null,
+    });
+
+    // Costo de la cesión: 5 000 × 0.9 = 4 500; recupera 450 000 si sale el 15
+    expect(risk.totals).toMatchObject({ layOffAmount: 5000, layOffCost: 4500, worstCaseLoss: 441000 });
+    expect(risk.numbers.find((n) => n.number === '15')).toMatchObject({ layOffPayout: 450000, worstCaseLoss: 401000 });
+    expect(risk.numbers.find((n) => n.number === '20')).toMatchObject({ worstCaseLoss: 441000, suggestion: null });
+  });
+
+  it('lists numbers that only have a lay-off', () => {
+    const risk = computeNumberRisk({
+      ...base,
+      rows: [],
+      legs: [{ number: '07', amount: 100, multiplierX: 80, commissionPercent: 0 }],
+      maxLoss: 1,
+      policy: null,
+    });
+
+    expect(risk.numbers).toEqual([
+      expect.objectContaining({ number: '07', sales: 0, layOffPayout: 8000, worstCaseLoss: -7900, suggestion: null }),
+    ]);
+  });
+
+  it('nets a settled lay-off against what it cost', () => {
+    expect(layOffNet({ ceded: 5000, commission: 500, recovered: 0 })).toBe(-4500);
+    expect(layOffNet({ ceded: 5000, commission: 500, recovered: 450000 })).toBe(445500);
+  });
+});
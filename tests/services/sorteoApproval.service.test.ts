@@ -0,0 +1,233 @@
+/// <reference types="jest" />
+import { SorteoApprovalService } from '../../src/api/v1/services/sorteoApproval.service';
+import SorteoService from '../../src/api/v1/services/sorteo.service';
+import { SorteoEvaluationCoordinator } from '../../src/api/v1/services/sorteoEvaluation.coordinator';
+import SorteoRepository from '../../src/repositories/sorteo.repository';
+import prisma from '../../src/core/prismaClient';
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: {
+    banca: { findUnique: jest.fn() },
+    sorteo: { findUnique: jest.fn() },
+    sorteoApproval: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../../src/api/v1/services/sorteo.service', () => ({
+  __esModule: true,
+  default: { evaluate: jest.fn(), revertEvaluation: jest.fn(), validateSorteoOwnership: jest.fn() },
+}));
+
+jest.mock('../../src/api/v1/services/sorteoEvaluation.coordinator', () => ({
+  SorteoEvaluationCoordinator: { validate: jest.fn(), triggerPostEvaluation: jest.fn() },
+}));
+
+jest.mock('../../src/repositories/sorteo.repository', () => ({
+  __esModule: true,
+  default: { evaluate: jest.fn(), revertEvaluation: jest.fn() },
+}));
+
+jest.mock('../../src/core/activity.service', () => ({
+  __esModule: true,
+  default: { log: jest.fn() },
+}));
+
+const proposer = { id: 'user-1', role: 'BANCA' } as any;
+const sorteo = { id: 'sorteo-1', name: 'Tica 1:00 PM', bancaId: 'banca-1' };
+const approver = { id: 'user-2', role: 'BANCA' } as any;
+
+const buildApproval = (overrides: Record<string, unknown> = {}) => ({
+  id: 'approval-1',
+  sorteoId: 'sorteo-1',
+  bancaId: 'banca-1',
+  action: 'EVALUATE',
+  payload: { winningNumber: '42', extraMultiplierId: null, extraOutcomeCode: null },
+  status: 'PENDING',
+  proposedBy: 'user-1',
+  expiresAt: new Date(Date.now() + 60_000),
+  sorteo: { id: 'sorteo-1', name: 'Tica 1:00 PM', bancaId: 'banca-1', loteria: { id: 'loteria-1', name: 'Tica' } },
+  ...overrides,
+});
+
+describe('SorteoApprovalService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.sorteoApproval.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (SorteoService.evaluate as jest.Mock).mockResolvedValue({ id: 'sorteo-1', status: 'EVALUATED' });
+    (SorteoService.validateSorteoOwnership as jest.Mock).mockResolvedValue({
+      id: 'sorteo-1',
+      name: 'Tica 1:00 PM',
+      bancaId: 'banca-1',
+      status: 'OPEN',
+      digits: 2,
+    });
+  });
+
+  it('does not intercept when the banca has no dual-control policy', async () => {
+    (prisma.banca.findUnique as jest.Mock).mockResolvedValue({ evaluationDualControl: false });
+
+    const approval = await SorteoApprovalService.proposeIfRequired('EVALUATE', sorteo, { winningNumber: '42' }, proposer.id);
+
+    expect(approval).toBeNull();
+    expect(prisma.sorteoApproval.create).not.toHaveBeenCalled();
+  });
+
+  it('stores a pending evaluation when the policy is enabled', async () => {
+    (prisma.banca.findUnique as jest.Mock).mockResolvedValue({ evaluationDualControl: true });
+    (prisma.sorteoApproval.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.sorteoApproval.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 'approval-1', ...data }));
+    (prisma.sorteoApproval.findUnique as jest.Mock).mockResolvedValue(buildApproval());
+
+    const approval = await SorteoApprovalService.proposeIfRequired(
+      'EVALUATE',
+      sorteo,
+      { winningNumber: ' 42 ', extraMultiplierId: 'none' },
+      proposer.id
+    );
+
+    expect(approval?.status).toBe('PENDING');
+    const created = (prisma.sorteoApproval.create as jest.Mock).mock.calls[0][0].data;
+    expect(created).toMatchObject({
+      action: 'EVALUATE',
+      proposedBy: 'user-1',
+      payload: { winningNumber: '42', extraMultiplierId: null, extraOutcomeCode: null },
+    });
+    expect(created.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    expect(SorteoService.evaluate).not.toHaveBeenCalled();
+  });
+
+  it('refuses to evaluate without a proposer when the policy is enabled', async () => {
+    (prisma.banca.findUnique as jest.Mock).mockResolvedValue({ evaluationDualControl: true });
+
+    await expect(
+      SorteoApprovalService.proposeIfRequired('EVALUATE', sorteo, { winningNumber: '42' }, null)
+    ).rejects.toMatchObject({ statusCode: 409, meta: 'DUAL_CONTROL_REQUIRED' });
+    expect(prisma.sorteoApproval.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects approval by the same user who proposed it', async () => {
+    (prisma.sorteoApproval.findUnique as jest.Mock).mockResolvedValue(buildApproval());
+
+    await expect(
+      SorteoApprovalService.approve('approval-1', { winningNumber: '42' }, proposer, 'banca-1')
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(SorteoService.evaluate).not.toHaveBeenCalled();
+  });
+
+  it('rejects the request when the re-typed number does not match', async () => {
+    (prisma.sorteoApproval.findUnique as jest.Mock).mockResolvedValue(buildApproval());
+
+    await expect(
+      SorteoApprovalService.approve('approval-1', { winningNumber: '24' }, approver, 'banca-1')
+    ).rejects.toMatchObject({ statusCode: 409, meta: { code: 'WINNING_NUMBER_MISMATCH', fields: ['winningNumber'] } });
+    expect(SorteoService.evaluate).not.toHaveBeenCalled();
+    const update = (prisma.sorteoApproval.updateMany as jest.Mock).mock.calls.at(-1)[0];
+    expect(update.data.status).toBe('REJECTED');
+  });
+
+  it('rejects the request when the re-typed extra multiplier does not match', async () => {
+    (prisma.sorteoApproval.findUnique as jest.Mock).mockResolvedValue(
+      buildApproval({ payload: { winningNumber: '42', extraMultiplierId: 'mult-5x', extraOutcomeCode: null } })
+    );
+
+    await expect(
+      SorteoApprovalService.approve('approval-1', { winningNumber: '42' }, approver, 'banca-1')
+    ).rejects.toMatchObject({ statusCode: 409, meta: { code: 'EVALUATION_MISMATCH', fields: ['extraMultiplierId'] } });
+    expect(SorteoService.evaluate).not.toHaveBeenCalled();
+  });
+
+  it('executes the evaluation once a second user confirms the number', async () => {
+    (prisma.sorteoApproval.findUnique as jest.Mock).mockResolvedValue(buildApproval());
+
+    const result = await SorteoApprovalService.approve('approval-1', { winningNumber: '42' }, approver, 'banca-1');
+
+    expect(SorteoService.evaluate).toHaveBeenCalledWith(
+      'sorteo-1',
+      expect.objectContaining({ winningNumber: '42' }),
+      'user-2',
+      'banca-1',
+      'BANCA',
+      { approvedRequestId: 'approval-1' }
+    );
+    expect(result.sorteo).toMatchObject({ status: 'EVALUATED' });
+    const claim = (prisma.sorteoApproval.updateMany as jest.Mock).mock.calls.at(-1)[0];
+    expect(claim).toMatchObject({ where: { id: 'approval-1', status: 'PENDING' }, data: { status: 'APPROVED', decidedBy: 'user-2' } });
+  });
+});
+
+describe('SorteoService dual control', () => {
+  // El servicio real: la política se aplica dentro de evaluate/revertEvaluation, no en el controlador
+  const RealSorteoService = jest.requireActual('../../src/api/v1/services/sorteo.service').default;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (SorteoEvaluationCoordinator.validate as jest.Mock).mockResolvedValue({ extraOutcomeCode: null });
+    (prisma.banca.findUnique as jest.Mock).mockResolvedValue({ evaluationDualControl: true });
+    (prisma.sorteoApproval.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.sorteoApproval.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 'approval-1', ...data }));
+    (prisma.sorteoApproval.findUnique as jest.Mock).mockResolvedValue(buildApproval());
+    (prisma.sorteo.findUnique as jest.Mock).mockResolvedValue({ ...sorteo, status: 'OPEN', loteria: { name: 'Tica' } });
+  });
+
+  it('returns a pending approval instead of evaluating', async () => {
+    const result = await RealSorteoService.evaluate('sorteo-1', { winningNumber: '42' }, 'user-1', 'banca-1', 'BANCA');
+
+    expect(result).toMatchObject({ approval: { id: 'approval-1', status: 'PENDING' } });
+    expect(SorteoEvaluationCoordinator.validate).toHaveBeenCalled();
+    expect(SorteoRepository.evaluate).not.toHaveBeenCalled();
+  });
+
+  it('evaluates once the request was approved', async () => {
+    (prisma.sorteoApproval.findUnique as jest.Mock).mockResolvedValue(buildApproval({ status: 'APPROVED', executedAt: null }));
+    (prisma.sorteoApproval.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (SorteoRepository.evaluate as jest.Mock).mockResolvedValue({ ...sorteo, status: 'EVALUATED' });
+
+    const result = await RealSorteoService.evaluate('sorteo-1', { winningNumber: '42' }, 'user-2', 'banca-1', 'BANCA', {
+      approvedRequestId: 'approval-1',
+    });
+
+    expect(result).toMatchObject({ status: 'EVALUATED' });
+    expect(prisma.sorteoApproval.create).not.toHaveBeenCalled();
+    expect(SorteoRepository.evaluate).toHaveBeenCalledWith('sorteo-1', expect.objectContaining({ winningNumber: '42' }));
+    const consume = (prisma.sorteoApproval.updateMany as jest.Mock).mock.calls[0][0];
+    expect(consume).toMatchObject({
+      where: { id: 'approval-1', sorteoId: 'sorteo-1', action: 'EVALUATE', status: 'APPROVED', executedAt: null },
+    });
+  });
+
+  it.each([
+    ['an unknown id', null],
+    ['a pending request', buildApproval()],
+    ['a request for another sorteo', buildApproval({ status: 'APPROVED', sorteoId: 'sorteo-2' })],
+    ['a revert approval', buildApproval({ status: 'APPROVED', action: 'REVERT', payload: { reason: null } })],
+    ['an approval for another number', buildApproval({ status: 'APPROVED', payload: { winningNumber: '24' } })],
+    ['an approval already executed', buildApproval({ status: 'APPROVED', executedAt: new Date() })],
+  ])('refuses to evaluate with %s as approvedRequestId', async (_label, approval) => {
+    (prisma.sorteoApproval.findUnique as jest.Mock).mockResolvedValue(approval);
+
+    await expect(
+      RealSorteoService.evaluate('sorteo-1', { winningNumber: '42' }, 'user-2', 'banca-1', 'BANCA', {
+        approvedRequestId: 'approval-1',
+      })
+    ).rejects.toMatchObject({ statusCode: 409, meta: 'APPROVAL_INVALID' });
+    expect(SorteoRepository.evaluate).not.toHaveBeenCalled();
+  });
+
+  it('refuses an approval consumed concurrently by another execution', async () => {
+    (prisma.sorteoApproval.findUnique as jest.Mock).mockResolvedValue(buildApproval({ status: 'APPROVED', executedAt: null }));
+    (prisma.sorteoApproval.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+    await expect(
+      RealSorteoService.evaluate('sorteo-1', { winningNumber: '42' }, 'user-2', 'banca-1', 'BANCA', {
+        approvedRequestId: 'approval-1',
+      })
+    ).rejects.toMatchObject({ statusCode: 409, meta: 'APPROVAL_INVALID' });
+    expect(SorteoRepository.evaluate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+/// <reference types="jest" />
+import { SorteoPayoutSimulationService } from '../../src/api/v1/services/sorteoPayoutSimulation.service';
+import SorteoService from '../../src/api/v1/services/sorteo.service';
+import SorteoRepository from '../../src/repositories/sorteo.repository';
+import prisma from '../../src/core/prismaClient';
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: {
+    loteriaMultiplier: { findMany: jest.fn() },
+    ventana: { findMany: jest.fn() },
+    user: { findMany: jest.fn() },
+  },
+}));
+
+jest.mock('../../src/api/v1/services/sorteo.service', () => ({
+  __esModule: true,
+  default: { validateSorteoOwnership: jest.fn() },
+}));
+
+jest.mock('../../src/repositories/sorteo.repository', () => ({
+  __esModule: true,
+  default: { aggregatePayoutExposure: jest.fn() },
+}));
+
+const exposure = (overrides: Record<string, unknown> = {}) => ({
+  number: '47',
+  ventanaId: null,
+  vendedorId: null,
+  amount: 0,
+  numeroPayout: 0,
+  reventadoAmount: 0,
+  tickets: 0,
+  ...overrides,
+});
+
+describe('SorteoPayoutSimulationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (SorteoService.validateSorteoOwnership as jest.Mock).mockResolvedValue({
+      id: 'sorteo-1',
+      name: 'Tica 1:00 PM',
+      scheduledAt: new Date('2026-10-19T19:00:00Z'),
+      status: 'OPEN',
+      digits: 2,
+      loteriaId: 'loteria-1',
+      loteria: { id: 'loteria-1', name: 'Tica' },
+    });
+    (prisma.loteriaMultiplier.findMany as jest.Mock).mockResolvedValue([
+      { id: 'rev-1', name: 'Bola roja', valueX: 50 },
+    ]);
+    (prisma.ventana.findMany as jest.Mock).mockResolvedValue([{ id: 'ventana-1', name: 'Central' }]);
+    (prisma.user.findMany as jest.Mock).mockResolvedValue([{ id: 'vendedor-1', name: 'Ana' }]);
+  });
+
+  it('computes the payout per reventado scenario, split by ventana and vendedor', async () => {
+    (SorteoRepository.aggregatePayoutExposure as jest.Mock).mockImplementation((_id: string, number?: string) =>
+      Promise.resolve(
+        number
+          ? [exposure({ ventanaId: 'ventana-1', vendedorId: 'vendedor-1', amount: 150, numeroPayout: 9000, reventadoAmount: 50, tickets: 3 })]
+          : [exposure({ amount: 150, numeroPayout: 9000, reventadoAmount: 50 }), exposure({ number: '12', amount: 850, numeroPayout: 68000 })]
+      )
+    );
+
+    const result = await SorteoPayoutSimulationService.simulate('sorteo-1', { number: '47' }, 'banca-1', 'BANCA' as any);
+
+    expect(result.totalSales).toBe(1000);
+    expect(result.numberSales).toBe(150);
+    expect(result.scenarios).toEqual([
+      expect.objectContaining({ extraMultiplierId: null, reventadoPayout: 0, totalPayout: 9000, net: -8000 }),
+      expect.objectContaining({ extraMultiplierId: 'rev-1', reventadoPayout: 2500, totalPayout: 11500, net: -10500 }),
+    ]);
+    expect(result.byVentana[0]).toMatchObject({ ventanaId: 'ventana-1', ventanaName: 'Central', tickets: 3 });
+    expect(result.byVendedor[0].payouts).toEqual([
+      { extraMultiplierId: null, totalPayout: 9000 },
+      { extraMultiplierId: 'rev-1', totalPayout: 11500 },
+    ]);
+  });
+
+  it('rejects numbers that do not match the sorteo digits', async () => {
+    await expect(
+      SorteoPayoutSimulationService.simulate('sorteo-1', { number: '470' }, 'banca-1', 'BANCA' as any)
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(SorteoRepository.aggregatePayoutExposure).not.toHaveBeenCalled();
+  });
+
+  it('rejects an extra multiplier that does not apply to the sorteo', async () => {
+    (prisma.loteriaMultiplier.findMany as jest.Mock).mockResolvedValue([]);
+    (SorteoRepository.aggregatePayoutExposure as jest.Mock).mockResolvedValue([]);
+
+    await expect(
+      SorteoPayoutSimulationService.matrix('sorteo-1', { extraMultiplierId: 'otro' }, 'banca-1', 'BANCA' as any)
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('fills every possible number in the matrix and reports the worst case', async () => {
+    (SorteoRepository.aggregatePayoutExposure as jest.Mock).mockResolvedValue([
+      exposure({ number: '05', amount: 100, numeroPayout: 8000 }),
+      exposure({ number: '47', amount: 60, numeroPayout: 4800, reventadoAmount: 60 }),
+    ]);
+
+    const result = await SorteoPayoutSimulationService.matrix('sorteo-1', {}, 'banca-1', 'BANCA' as any);
+
+    expect(result.numbers).toHaveLength(100);
+    expect(result.numbers[0]).toMatchObject({ number: '00', amount: 0, maxPayout: 0, net: 160 });
+    expect(result.numbers[47]).toMatchObject({ number: '47', maxPayout: 7800 });
+    expect(result.worst).toEqual({ number: '05', maxPayout: 8000, net: -7840 });
+  });
+});
@@ -0,0 +1,229 @@
+/// <reference types="jest" />
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SorteoResultService } from '../../src/api/v1/services/sorteoResult.service';
+import SorteoService from '../../src/api/v1/services/sorteo.service';
+import { SorteoApprovalService } from '../../src/api/v1/services/sorteoApproval.service';
+import { CsvDropFolderResultProvider } from '../../src/services/results/providers';
+import { FetchedResult, ResultProvider, ResultRequest } from '../../src/services/results/types';
+import { ResultsProviderConfigSchema } from '../../src/types/schemas/databaseJson.schema';
+import prisma from '../../src/core/prismaClient';
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: {
+    sorteoResult: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../../src/api/v1/services/sorteo.service', () => ({
+  __esModule: true,
+  default: { evaluate: jest.fn(), validateSorteoOwnership: jest.fn() },
+}));
+
+jest.mock('../../src/api/v1/services/sorteoApproval.service', () => ({
+  SorteoApprovalService: { recordConfirmed: jest.fn(), markFailed: jest.fn() },
+}));
+
+jest.mock('../../src/core/activity.service', () => ({
+  __esModule: true,
+  default: { log: jest.fn() },
+}));
+
+/** Proveedor local: devuelve lo que el test le indique */
+class FakeResultProvider implements ResultProvider {
+  readonly type = 'fake';
+  requests: ResultRequest[] = [];
+
+  constructor(private readonly response: FetchedResult | null | Error) {}
+
+  async fetch(request: ResultRequest) {
+    this.requests.push(request);
+    if (this.response instanceof Error) throw this.response;
+    return this.response;
+  }
+}
+
+const providerConfig = (overrides: Record<string, unknown> = {}) =>
+  ResultsProviderConfigSchema.parse({ type: 'http', url: 'https://feed.example.com/{code}/{date}', ...overrides });
+
+const buildSorteo = (overrides: Record<string, unknown> = {}) => ({
+  id: 'sorteo-1',
+  name: 'Tica 1:00 PM',
+  scheduledAt: new Date('2026-10-19T19:00:00Z'),
+  status: 'OPEN',
+  digits: 2,
+  bancaId: 'banca-1',
+  loteria: { id: 'loteria-1', name: 'Tica', rulesJson: {} },
+  banca: { resultsDualConfirmation: false },
+  ...overrides,
+}) as any;
+
+describe('SorteoResultService.ingestSorteo', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.sorteoResult.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ id: 'result-1', ...data }));
+    (prisma.sorteoResult.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (SorteoService.evaluate as jest.Mock).mockResolvedValue({});
+    (SorteoApprovalService.recordConfirmed as jest.Mock).mockResolvedValue({ id: 'approval-1' });
+  });
+
+  it('auto mode evaluates the sorteo and marks the result APPLIED', async () => {
+    const provider = new FakeResultProvider({ winningNumber: '07' });
+
+    const outcome = await SorteoResultService.ingestSorteo(buildSorteo(), providerConfig({ mode: 'auto' }), provider);
+
+    expect(outcome).toBe('applied');
+    expect(provider.requests[0]).toMatchObject({ sorteoId: 'sorteo-1', loteriaName: 'Tica', digits: 2 });
+    expect(SorteoService.evaluate).toHaveBeenCalledWith('sorteo-1', { winningNumber: '07' }, null);
+    const update = (prisma.sorteoResult.updateMany as jest.Mock).mock.calls[0][0];
+    expect(update.data.status).toBe('APPLIED');
+  });
+
+  it('confirm mode queues the result without evaluating', async () => {
+    const outcome = await SorteoResultService.ingestSorteo(
+      buildSorteo(),
+      providerConfig(),
+      new FakeResultProvider({ winningNumber: '42', raw: { source: 'feed' } })
+    );
+
+    expect(outcome).toBe('queued');
+    expect(SorteoService.evaluate).not.toHaveBeenCalled();
+    const created = (prisma.sorteoResult.create as jest.Mock).mock.calls[0][0].data;
+    expect(created).toMatchObject({ winningNumber: '42', status: 'PENDING', source: 'fake', bancaId: 'banca-1' });
+  });
+
+  it('bancas with dual confirmation always queue, even in auto mode', async () => {
+    const outcome = await SorteoResultService.ingestSorteo(
+      buildSorteo({ banca: { resultsDualConfirmation: true } }),
+      providerConfig({ mode: 'auto' }),
+      new FakeResultProvider({ winningNumber: '42' })
+    );
+
+    expect(outcome).toBe('queued');
+    expect(SorteoService.evaluate).not.toHaveBeenCalled();
+  });
+
+  it('stores a FAILED result when the number does not match Sorteo.digits', async () => {
+    const outcome = await SorteoResultService.ingestSorteo(
+      buildSorteo({ digits: 3 }),
+      providerConfig({ mode: 'auto' }),
+      new FakeResultProvider({ winningNumber: '42' })
+    );
+
+    expect(outcome).toBe('failed');
+    expect(SorteoService.evaluate).not.toHaveBeenCalled();
+    const created = (prisma.sorteoResult.create as jest.Mock).mock.calls[0][0].data;
+    expect(created.status).toBe('FAILED');
+    expect(created.error).toContain('3 dígitos');
+  });
+
+  it('leaves no trace when the result is not published yet or the provider fails', async () => {
+    const sorteo = buildSorteo();
+
+    await expect(SorteoResultService.ingestSorteo(sorteo, providerConfig(), new FakeResultProvider(null))).resolves.toBe('not_ready');
+    await expect(
+      SorteoResultService.ingestSorteo(sorteo, providerConfig(), new FakeResultProvider(new Error('ECONNRESET')))
+    ).resolves.toBe('error');
+    expect(prisma.sorteoResult.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('SorteoResultService.confirm', () => {
+  const queued = (overrides: Record<string, unknown> = {}) => ({
+    id: 'result-1',
+    sorteoId: 'sorteo-1',
+    bancaId: 'banca-1',
+    winningNumber: '42',
+    source: 'http',
+    status: 'CONFIRMED',
+    confirmedBy: 'user-1',
+    sorteo: buildSorteo({ banca: { resultsDualConfirmation: true } }),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.sorteoResult.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (SorteoService.evaluate as jest.Mock).mockResolvedValue({});
+  });
+
+  it('requires a different person for the second confirmation', async () => {
+    (prisma.sorteoResult.findUnique as jest.Mock).mockResolvedValue(queued());
+
+    await expect(
+      SorteoResultService.confirm('result-1', {}, { id: 'user-1', role: 'BANCA' } as any, 'banca-1')
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(SorteoService.evaluate).not.toHaveBeenCalled();
+  });
+
+  it('requires the second confirmer to re-type the same number', async () => {
+    (prisma.sorteoResult.findUnique as jest.Mock).mockResolvedValue(queued());
+    const secondUser = { id: 'user-2', role: 'BANCA' } as any;
+
+    await expect(SorteoResultService.confirm('result-1', {}, secondUser, 'banca-1')).rejects.toMatchObject({ statusCode: 400 });
+    await expect(
+      SorteoResultService.confirm('result-1', { winningNumber: '24' }, secondUser, 'banca-1')
+    ).rejects.toMatchObject({ statusCode: 409, meta: 'WINNING_NUMBER_MISMATCH' });
+    expect(SorteoApprovalService.recordConfirmed).not.toHaveBeenCalled();
+    expect(SorteoService.evaluate).not.toHaveBeenCalled();
+  });
+
+  it('applies the number on the second confirmation through an approved request', async () => {
+    (prisma.sorteoResult.findUnique as jest.Mock).mockResolvedValue(queued());
+
+    await SorteoResultService.confirm('result-1', { winningNumber: '42' }, { id: 'user-2', role: 'BANCA' } as any, 'banca-1');
+
+    expect(SorteoApprovalService.recordConfirmed).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'sorteo-1' }),
+      { winningNumber: '42', extraMultiplierId: null },
+      'user-1',
+      'user-2',
+      expect.any(String)
+    );
+    expect(SorteoService.evaluate).toHaveBeenCalledWith(
+      'sorteo-1',
+      { winningNumber: '42', extraMultiplierId: null },
+      'user-2',
+      'banca-1',
+      'BANCA',
+      { approvedRequestId: 'approval-1' }
+    );
+    const update = (prisma.sorteoResult.updateMany as jest.Mock).mock.calls[0][0];
+    expect(update.data).toMatchObject({ status: 'APPLIED', secondConfirmedBy: 'user-2' });
+  });
+});
+
+describe('CsvDropFolderResultProvider', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'results-csv-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads the matching row, letting later files correct earlier ones', async () => {
+    fs.writeFileSync(path.join(dir, '2026-10-19-a.csv'), 'loteria,date,time,number\nTica,2026-10-19,13:00,15\nNica,2026-10-19,13:00,88\n');
+    fs.writeFileSync(path.join(dir, '2026-10-19-b.csv'), 'loteria,date,time,number\ntica,2026-10-19,13:00,51\n');
+
+    const result = await new CsvDropFolderResultProvider().fetch({
+      sorteoId: 'sorteo-1',
+      loteriaId: 'loteria-1',
+      loteriaName: 'Tica',
+      scheduledAt: new Date('2026-10-19T19:00:00Z'), // 13:00 en Costa Rica
+      digits: 2,
+      config: providerConfig({ type: 'csv', url: undefined, directory: dir }),
+    });
+
+    expect(result?.winningNumber).toBe('51');
+    expect(result?.raw).toMatchObject({ file: '2026-10-19-b.csv', line: 2 });
+  });
+});
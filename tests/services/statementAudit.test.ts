@@ -0,0 +1,73 @@
+/// <reference types="jest" />
+import {
+  auditRange,
+  diffRollups,
+  diffTotals,
+  findingKey,
+  STATEMENT_AUDIT_FIELDS,
+} from '../../src/api/v1/services/accounts/accounts.audit.helpers';
+
+const stored = {
+  totalSales: 10000,
+  totalPayouts: 7000,
+  listeroCommission: 1000,
+  vendedorCommission: 500,
+  ticketCount: 12,
+  totalPaid: 0,
+  totalCollected: 300,
+};
+
+describe('statement audit', () => {
+  it('reports nothing when the statement matches its source to the cent', () => {
+    expect(diffTotals({ ...stored, totalSales: 10000.004 }, stored, STATEMENT_AUDIT_FIELDS)).toEqual({});
+  });
+
+  it('reports each drifted field with expected, stored and difference', () => {
+    // Un tiquete anulado después de sincronizar: la fuente ya no lo cuenta
+    const expected = { ...stored, totalSales: 9500, ticketCount: 11 };
+
+    expect(diffTotals(expected, stored, STATEMENT_AUDIT_FIELDS)).toEqual({
+      totalSales: { expected: 9500, actual: 10000, diff: -500 },
+      ticketCount: { expected: 11, actual: 12, diff: -1 },
+    });
+  });
+
+  it('treats a missing statement as zeros', () => {
+    const diffs = diffTotals({ totalSales: 250.1, ticketCount: 1 }, {}, STATEMENT_AUDIT_FIELDS);
+
+    expect(Object.keys(diffs)).toEqual(['totalSales', 'ticketCount']);
+    expect(diffs.totalSales).toEqual({ expected: 250.1, actual: 0, diff: 250.1 });
+  });
+
+  it('flags rollup rows that drifted, are missing or are left over', () => {
+    const row = (entityId: string, totalAmount: number) => ({
+      businessDate: '2026-10-18',
+      bancaId: 'banca-1',
+      entityId,
+      totals: { totalAmount, jugadasCount: 4 },
+    });
+    const fields = ['totalAmount', 'jugadasCount'];
+
+    const drift = diffRollups([row('s-1', 500), row('s-2', 800)], [row('s-1', 500), row('s-2', 700), row('s-3', 100)], fields);
+
+    expect(drift).toEqual([
+      { businessDate: '2026-10-18', bancaId: 'banca-1', entityId: 's-2', diffs: { totalAmount: { expected: 800, actual: 700, diff: 100 } } },
+      {
+        businessDate: '2026-10-18',
+        bancaId: 'banca-1',
+        entityId: 's-3',
+        diffs: {
+          totalAmount: { expected: 0, actual: 100, diff: -100 },
+          jugadasCount: { expected: 0, actual: 4, diff: -4 },
+        },
+      },
+    ]);
+  });
+
+  it('audits the closed days ending yesterday', () => {
+    expect(auditRange(3, '2026-03-01')).toEqual({ fromDate: '2026-02-26', toDate: '2026-02-28' });
+    expect(findingKey({ source: 'ACCOUNT_STATEMENT', dimension: 'ventana', entityId: 'v-1', businessDate: '2026-02-28' })).toBe(
+      'ACCOUNT_STATEMENT|ventana|v-1|2026-02-28'
+    );
+  });
+});
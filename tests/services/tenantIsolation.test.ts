@@ -0,0 +1,410 @@
+/// <reference types="jest" />
+import fs from 'fs';
+import path from 'path';
+import {
+  assertRawQueryScoped,
+  rawBancaFilter,
+  scopeTenantArgs,
+  TENANT_MODELS,
+  TENANT_RELATIONS,
+} from '../../src/core/tenantIsolation';
+import { TenantContext, TenantScope } from '../../src/core/tenantContext';
+import { Prisma } from '../../src/generated/prisma/client';
+import CreditLimitRepository from '../../src/repositories/creditLimit.repository';
+import PayoutRequestRepository from '../../src/repositories/payoutRequest.repository';
+import VentanaRepository from '../../src/repositories/ventana.repository';
+import TicketRepository from '../../src/repositories/ticket.repository';
+import { AccountStatementRepository } from '../../src/repositories/accountStatement.repository';
+import { AccountPaymentRepository } from '../../src/repositories/accountPayment.repository';
+import LedgerRepository from '../../src/repositories/ledger.repository';
+import prisma from '../../src/core/prismaClient';
+import { CacheService } from '../../src/core/cache.service';
+import { bancaContextMiddleware } from '../../src/middlewares/bancaContext.middleware';
+
+jest.mock('uuid', () => ({ v4: jest.fn() }));
+
+/**
+ * Cliente en memoria: cada delegado pasa los argumentos por scopeTenantArgs (como la
+ * extensión real), filtra las filas con un evaluador mínimo de `where` y resuelve los
+ * `include` de lista de RELATIONS con el `where` que dejó el filtro. $queryRaw pasa por
+ * assertRawQueryScoped.
+ */
+jest.mock('../../src/core/prismaClient', () => {
+  const { scopeTenantArgs: scope, assertRawQueryScoped: assertRaw } = jest.requireActual(
+    '../../src/core/tenantIsolation'
+  );
+  const tables: Record<string, any[]> = {};
+  const RELATIONS: Record<string, Record<string, [string, string]>> = {
+    Sorteo: { tickets: ['Ticket', 'sorteoId'] },
+    Ticket: { jugadas: ['Jugada', 'ticketId'] },
+    AccountStatement: { payments: ['AccountPayment', 'accountStatementId'] },
+  };
+
+  const matches = (row: any, where: any): boolean =>
+    Object.entries(where ?? {}).every(([key, cond]: [string, any]) => {
+      if (key === 'AND') return (cond as any[]).every((w) => matches(row, w));
+      if (key === 'OR') return (cond as any[]).some((w) => matches(row, w));
+      if (cond !== null && typeof cond === 'object') {
+        if (Array.isArray(cond.in)) return cond.in.includes(row[key]);
+        throw new Error(`Filtro no soportado en el mock: ${key}`);
+      }
+      return row[key] === cond;
+    });
+
+  const load = (model: string, row: any, include: any): any => {
+    const loaded = { ...row };
+    for (const [field, [target, foreignKey]] of Object.entries(RELATIONS[model] ?? {})) {
+      const nested = include?.[field];
+      if (!nested) continue;
+      loaded[field] = tables[target]
+        .filter((child) => child[foreignKey] === row.id && matches(child, nested.where))
+        .map((child) => load(target, child, nested.include));
+    }
+    return loaded;
+  };
+
+  const delegate = (model: string, rows: any[]) => {
+    tables[model] = rows;
+    const run = (operation: string, args: any) => {
+      const scoped = scope(model, operation, args);
+      return rows.filter((row) => matches(row, scoped?.where));
+    };
+    const read = (operation: string, args: any) => {
+      const scoped = scope(model, operation, args);
+      return rows.filter((row) => matches(row, scoped?.where)).map((row) => load(model, row, scoped?.include));
+    };
+    return {
+      rows,
+      findUnique: jest.fn(async (args: any) => read('findUnique', args)[0] ?? null),
+      findFirst: jest.fn(async (args: any) => read('findFirst', args)[0] ?? null),
+      findMany: jest.fn(async (args: any) => read('findMany', args)),
+      count: jest.fn(async (args: any) => run('count', args).length),
+      update: jest.fn(async (args: any) => {
+        const [row] = run('update', args);
+        if (!row) throw new Error('Record to update not found');
+        return Object.assign(row, args.data);
+      }),
+      updateMany: jest.fn(async (args: any) => {
+        const found = run('updateMany', args);
+        found.forEach((row) => Object.assign(row, args.data));
+        return { count: found.length };
+      }),
+      create: jest.fn(async (args: any) => {
+        scope(model, 'create', args);
+        const row = { id: `${model}-${rows.length + 1}`, ...args.data };
+        rows.push(row);
+        return row;
+      }),
+    };
+  };
+
+  return {
+    __esModule: true,
+    default: {
+      creditLimit: delegate('CreditLimit', [
+        { id: 'limit-1', bancaId: 'banca-1', ventanaId: 'ventana-1', vendedorId: null },
+        { id: 'limit-2', bancaId: 'banca-2', ventanaId: 'ventana-2', vendedorId: null },
+      ]),
+      payoutRequest: delegate('PayoutRequest', [
+        { id: 'payout-1', bancaId: 'banca-1', ventanaId: 'ventana-1', status: 'PENDING' },
+        { id: 'payout-2', bancaId: 'banca-2', ventanaId: 'ventana-2', status: 'PENDING' },
+      ]),
+      ventana: delegate('Ventana', [
+        { id: 'ventana-1', bancaId: 'banca-1', code: 'V1' },
+        { id: 'ventana-2', bancaId: 'banca-2', code: 'V2' },
+      ]),
+      restrictionRule: delegate('RestrictionRule', [
+        { id: 'rule-global', bancaId: null, number: '13' },
+        { id: 'rule-1', bancaId: 'banca-1', number: '13' },
+        { id: 'rule-2', bancaId: 'banca-2', number: '13' },
+      ]),
+      sorteo: delegate('Sorteo', [{ id: 'sorteo-global', bancaId: null }]),
+      ticket: delegate('Ticket', [
+        { id: 'ticket-1', bancaId: 'banca-1', sorteoId: 'sorteo-global', deletedAt: null },
+        { id: 'ticket-2', bancaId: 'banca-2', sorteoId: 'sorteo-global', deletedAt: null },
+      ]),
+      jugada: delegate('Jugada', [
+        { id: 'jugada-1', bancaId: 'banca-1', ticketId: 'ticket-1', deletedAt: null },
+        { id: 'jugada-2', bancaId: 'banca-2', ticketId: 'ticket-2', deletedAt: null },
+      ]),
+      accountStatement: delegate('AccountStatement', [
+        { id: 'statement-1', bancaId: 'banca-1', month: '2026-10' },
+        { id: 'statement-2', bancaId: 'banca-2', month: '2026-10' },
+      ]),
+      accountPayment: delegate('AccountPayment', [
+        { id: 'payment-1', bancaId: 'banca-1', accountStatementId: 'statement-1' },
+        { id: 'payment-2', bancaId: 'banca-2', accountStatementId: 'statement-2' },
+      ]),
+      $transaction: jest.fn(async (operations: Promise<unknown>[]) => Promise.all(operations)),
+      $queryRaw: jest.fn(async (query: { sql: string; values: unknown[] }) => {
+        assertRaw(query.sql, query.values);
+        return [];
+      }),
+    },
+  };
+});
+
+const BANCA_1: TenantScope = { bancaId: 'banca-1', role: 'BANCA' };
+const asBanca1 = <T>(fn: () => Promise<T>) => TenantContext.run(BANCA_1, fn);
+const ids = (rows: Array<{ id: string }>) => rows.map((r) => r.id).sort();
+
+const READ_OPS = ['findMany', 'findFirst', 'findFirstOrThrow', 'count', 'aggregate', 'groupBy'];
+const UNIQUE_OPS = ['findUnique', 'findUniqueOrThrow', 'update', 'delete'];
+
+describe('tenant isolation', () => {
+  describe('scopeTenantArgs', () => {
+    it.each(Object.keys(TENANT_MODELS))('always adds the banca filter to %s reads', (model) => {
+      const filter = TENANT_MODELS[model].shared
+        ? { OR: [{ bancaId: 'banca-1' }, { bancaId: null }] }
+        : { bancaId: 'banca-1' };
+
+      for (const op of READ_OPS) {
+        expect(scopeTenantArgs(model, op, { where: { bancaId: 'banca-2' } }, BANCA_1).where).toEqual({
+          AND: [{ bancaId: 'banca-2' }, filter],
+        });
+        expect(scopeTenantArgs(model, op, undefined, BANCA_1).where).toEqual(filter);
+      }
+      for (const op of UNIQUE_OPS) {
+        expect(scopeTenantArgs(model, op, { where: { id: 'x' }, data: {} }, BANCA_1).where).toEqual({
+          id: 'x',
+          AND: [filter],
+        });
+      }
+    });
+
+    it('leaves ADMIN without an active banca, the explicit opt-out and untracked models unscoped', () => {
+      const args = { where: { id: 'x' } };
+
+      expect(scopeTenantArgs('Ticket', 'findMany', args, { bancaId: null, role: 'ADMIN' })).toBe(args);
+      expect(scopeTenantArgs('Ticket', 'findMany', args, { ...BANCA_1, crossTenant: true })).toBe(args);
+      expect(scopeTenantArgs('Ticket', 'findMany', args, undefined)).toBe(args);
+      expect(scopeTenantArgs('User', 'findMany', args, BANCA_1)).toBe(args);
+      expect(
+        TenantContext.run(BANCA_1, () => TenantContext.crossTenant(() => scopeTenantArgs('Ticket', 'findMany', args)))
+      ).toBe(args);
+    });
+
+    it('rejects non-admin roles without a banca and writes into another banca', () => {
+      expect(() => scopeTenantArgs('Ticket', 'findMany', {}, { bancaId: null, role: 'VENTANA' })).toThrow(
+        expect.objectContaining({ statusCode: 403 })
+      );
+
+      const crossTenant = expect.objectContaining({ statusCode: 403, meta: 'CROSS_TENANT_FORBIDDEN' });
+      expect(() => scopeTenantArgs('Ticket', 'create', { data: { bancaId: 'banca-2' } }, BANCA_1)).toThrow(crossTenant);
+      expect(() =>
+        scopeTenantArgs('Ventana', 'create', { data: { banca: { connect: { id: 'banca-2' } } } }, BANCA_1)
+      ).toThrow(crossTenant);
+      expect(() =>
+        scopeTenantArgs('Jugada', 'createMany', { data: [{ bancaId: 'banca-1' }, { bancaId: 'banca-2' }] }, BANCA_1)
+      ).toThrow(crossTenant);
+      expect(() =>
+        scopeTenantArgs('Ticket', 'update', { where: { id: 't' }, data: { bancaId: { set: 'banca-2' } } }, BANCA_1)
+      ).toThrow(crossTenant);
+      expect(() =>
+        scopeTenantArgs('CreditLimit', 'upsert', { where: { id: 'c' }, create: { bancaId: 'banca-2' }, update: {} }, BANCA_1)
+      ).toThrow(crossTenant);
+      expect(() => scopeTenantArgs('Ticket', 'create', { data: { bancaId: 'banca-1' } }, BANCA_1)).not.toThrow();
+    });
+
+    it('scopes list relations read through include, select and _count, also from untracked models', () => {
+      const args = {
+        where: { id: 's' },
+        include: {
+          tickets: { where: { deletedAt: null }, include: { jugadas: true } },
+          loteria: true,
+          _count: { select: { tickets: true } },
+        },
+      };
+
+      expect(scopeTenantArgs('Sorteo', 'findUnique', args, BANCA_1).include).toEqual({
+        tickets: {
+          where: { AND: [{ deletedAt: null }, { bancaId: 'banca-1' }] },
+          include: { jugadas: { where: { bancaId: 'banca-1' } } },
+        },
+        loteria: true,
+        _count: { select: { tickets: { where: { bancaId: 'banca-1' } } } },
+      });
+      expect(scopeTenantArgs('User', 'findUnique', { where: { id: 'u' }, select: { ticketsCreated: true } }, BANCA_1).select)
+        .toEqual({ ticketsCreated: { where: { bancaId: 'banca-1' } } });
+      expect(scopeTenantArgs('User', 'findUnique', args, { bancaId: null, role: 'ADMIN' })).toBe(args);
+    });
+
+    it('knows every list relation of the schema that points to a banca model', () => {
+      const schema = fs.readFileSync(path.join(__dirname, '../../prisma/schema.prisma'), 'utf8');
+      const bancaModels = Object.keys(TENANT_MODELS).filter((model) => !TENANT_MODELS[model].shared);
+      const relations = [...schema.matchAll(/^\s+(\w+)\s+(\w+)\[\]/gm)].map(([, field, type]) => ({ field, type }));
+
+      for (const { field, type } of relations) {
+        if (bancaModels.includes(type)) expect({ field, type }).toEqual({ field, type: TENANT_RELATIONS[field] });
+        else expect(TENANT_RELATIONS[field]).toBeUndefined();
+      }
+    });
+  });
+
+  describe('raw SQL', () => {
+    const ticketsOf = (column: Prisma.Sql) => Prisma.sql`SELECT id FROM "Ticket" WHERE ${column}`;
+
+    it('rejects SQL on banca tables that does not bind the banca, ventana or user of the context', () => {
+      const unscoped = Prisma.sql`SELECT id FROM "Ticket" WHERE "sorteoId" = ${'sorteo-global'}`;
+      const scope: TenantScope = { ...BANCA_1, ventanaId: 'ventana-1', userId: 'u-1' };
+      const rejected = expect.objectContaining({ statusCode: 403, meta: 'RAW_QUERY_UNSCOPED' });
+
+      expect(() => assertRawQueryScoped(unscoped.sql, unscoped.values, scope)).toThrow(rejected);
+      expect(() => assertRawQueryScoped('SELECT * FROM "Jugada"', [], scope)).toThrow(rejected);
+      expect(() => assertRawQueryScoped(`SELECT * FROM "Ticket" WHERE "ventanaId" = 'ventana-2'`, [], scope)).toThrow(rejected);
+
+      for (const id of ['banca-1', 'ventana-1', 'u-1']) {
+        const query = ticketsOf(Prisma.sql`"x" = ${id}`);
+        expect(() => assertRawQueryScoped(query.sql, query.values, scope)).not.toThrow();
+      }
+      expect(() => assertRawQueryScoped(`SELECT * FROM "Ticket" WHERE "bancaId" = 'banca-1'`, [], scope)).not.toThrow();
+      expect(() => assertRawQueryScoped('SELECT * FROM "Ticket" WHERE id = ANY($1)', [['t', 'banca-1']], scope)).not.toThrow();
+    });
+
+    it('lets catalog tables, ADMIN without a banca, jobs and the explicit opt-out through', () => {
+      expect(() => assertRawQueryScoped('SELECT * FROM "Sorteo"', [], BANCA_1)).not.toThrow();
+      expect(() => assertRawQueryScoped('SELECT * FROM "Ticket"', [], { bancaId: null, role: 'ADMIN' })).not.toThrow();
+      expect(() => assertRawQueryScoped('SELECT * FROM "Ticket"', [], undefined)).not.toThrow();
+      expect(() => assertRawQueryScoped('SELECT * FROM "Ticket"', [], { ...BANCA_1, crossTenant: true })).not.toThrow();
+    });
+
+    it('adds the banca of the context only when the context is scoped', () => {
+      const column = Prisma.sql`t."bancaId"`;
+
+      expect(TenantContext.run(BANCA_1, () => rawBancaFilter(column))).toMatchObject({ values: ['banca-1'] });
+      expect(rawBancaFilter(column)).toBe(Prisma.empty);
+      expect(TenantContext.run({ bancaId: null, role: 'ADMIN' }, () => rawBancaFilter(column))).toBe(Prisma.empty);
+    });
+
+    it('runs lazy queries handed to crossTenant without the filter', async () => {
+      let seen: TenantScope | undefined;
+      const lazy = { then: (resolve: (value: unknown) => void) => resolve((seen = TenantContext.get())) };
+
+      await asBanca1(() => TenantContext.crossTenant(() => lazy as unknown as Promise<unknown>));
+
+      expect(seen).toEqual({ ...BANCA_1, crossTenant: true });
+      expect(TenantContext.get()).toBeUndefined();
+    });
+
+    it('keeps ledger queries of a repository inside the banca and rejects the unscoped ones', async () => {
+      await asBanca1(async () => {
+        await LedgerRepository.balanceAsOf('VENTANA', 'ventana-2', '2026-10-01');
+        await expect(prisma.$queryRaw(Prisma.sql`SELECT id FROM "Ticket"` as any)).rejects.toMatchObject({ statusCode: 403 });
+      });
+
+      const [[query]] = (prisma.$queryRaw as jest.Mock).mock.calls;
+      expect(query.sql).toContain('"bancaId" = ?::uuid');
+      expect(query.values).toContain('banca-1');
+    });
+  });
+
+  describe('repositories under a BANCA context', () => {
+    it('never return rows of another banca by id', async () => {
+      await asBanca1(async () => {
+        expect(await CreditLimitRepository.findById('limit-2')).toBeNull();
+        expect(await PayoutRequestRepository.findById('payout-2')).toBeNull();
+        expect(await VentanaRepository.findById('ventana-2')).toBeNull();
+        expect(await CreditLimitRepository.findByScope('ventana-2', null)).toBeNull();
+        expect(await CreditLimitRepository.findById('limit-1')).toMatchObject({ id: 'limit-1' });
+      });
+    });
+
+    it('never list rows of another banca, even when asked for it explicitly', async () => {
+      await asBanca1(async () => {
+        expect(ids(await CreditLimitRepository.list({}))).toEqual(['limit-1']);
+        expect(await CreditLimitRepository.findForSale('ventana-2', 'vendedor-2')).toEqual([]);
+
+        const payouts = await PayoutRequestRepository.list({ ventanaId: 'ventana-2' });
+        expect(payouts).toEqual({ data: [], total: 0 });
+
+        const ventanas = await VentanaRepository.list({ bancaId: 'banca-2' });
+        expect(ventanas).toEqual({ data: [], total: 0 });
+        expect(ids((await VentanaRepository.list({})).data)).toEqual(['ventana-1']);
+      });
+    });
+
+    it('keep global catalog rows visible and block writes on foreign rows', async () => {
+      await asBanca1(async () => {
+        expect(ids(await prisma.restrictionRule.findMany({ where: { number: '13' } }))).toEqual(['rule-1', 'rule-global']);
+
+        await expect(CreditLimitRepository.update('limit-2', { softLimit: 1 })).rejects.toThrow();
+        expect(await PayoutRequestRepository.transition('payout-2', 'PENDING', { status: 'APPROVED' })).toBe(false);
+        await expect(
+          CreditLimitRepository.create({ bancaId: 'banca-2', ventanaId: 'ventana-2', hardLimit: 1 })
+        ).rejects.toMatchObject({ statusCode: 403 });
+      });
+
+      const stored = (prisma.payoutRequest as any).rows.find((r: any) => r.id === 'payout-2');
+      expect(stored.status).toBe('PENDING');
+    });
+
+    it('never return tickets, statements or payments of another banca', async () => {
+      await asBanca1(async () => {
+        expect(await TicketRepository.getById('ticket-2')).toBeNull();
+        expect(await TicketRepository.getById('ticket-1')).toMatchObject({ jugadas: [{ id: 'jugada-1' }] });
+
+        expect(await AccountStatementRepository.findById('statement-2')).toBeNull();
+        expect(ids(await AccountStatementRepository.findByMonth('2026-10', {}))).toEqual(['statement-1']);
+        expect(await AccountStatementRepository.findById('statement-1')).toMatchObject({ payments: [{ id: 'payment-1' }] });
+
+        expect(await AccountPaymentRepository.findById('payment-2')).toBeNull();
+        expect(await AccountPaymentRepository.findByStatementId('statement-2')).toEqual({ data: [], totalCount: 0 });
+      });
+    });
+
+    it('only return the own tickets of a global sorteo', async () => {
+      await asBanca1(async () => {
+        const sorteo: any = await prisma.sorteo.findUnique({ where: { id: 'sorteo-global' }, include: { tickets: true } });
+        expect(ids(sorteo.tickets)).toEqual(['ticket-1']);
+      });
+    });
+
+    it('lets ADMIN without an active banca read across bancas', async () => {
+      await TenantContext.run({ bancaId: null, role: 'ADMIN' }, async () => {
+        expect(ids(await CreditLimitRepository.list({}))).toEqual(['limit-1', 'limit-2']);
+      });
+    });
+  });
+
+  describe('cache', () => {
+    it('keeps cached entries per banca and runs the fetcher with the banca filter on', async () => {
+      const store = new Map<string, unknown>();
+      jest.spyOn(CacheService, 'get').mockImplementation(async (key: string) => (store.get(key) as any) ?? null);
+      jest.spyOn(CacheService, 'set').mockImplementation(async (key: string, value: unknown) => {
+        store.set(key, value);
+      });
+      const listLimits = () => CacheService.wrap('limits:all', async () => ids(await CreditLimitRepository.list({})));
+
+      expect(await asBanca1(listLimits)).toEqual(['limit-1']);
+      expect(await TenantContext.run({ bancaId: 'banca-2', role: 'BANCA' }, listLimits)).toEqual(['limit-2']);
+      expect(await TenantContext.run({ bancaId: null, role: 'ADMIN' }, listLimits)).toEqual(['limit-1', 'limit-2']);
+      expect([...store.keys()].sort()).toEqual(['limits:all', 'limits:all:tenant:banca-1', 'limits:all:tenant:banca-2']);
+    });
+  });
+
+  describe('bancaContextMiddleware', () => {
+    const runMiddleware = (user: Record<string, unknown>) =>
+      new Promise<{ err?: any; scope?: TenantScope }>((resolve) => {
+        const req: any = { user, headers: {} };
+        const res: any = { setHeader: jest.fn() };
+        bancaContextMiddleware(req, res, (err?: any) => resolve({ err, scope: TenantContext.get() }));
+      });
+
+    it('falls back to the JWT banca when resolving the context fails', async () => {
+      jest.spyOn(CacheService, 'wrap').mockRejectedValueOnce(new Error('redis down'));
+      (prisma as any).userBanca = { findMany: jest.fn().mockRejectedValue(new Error('db down')) };
+
+      const { err, scope } = await runMiddleware({ id: 'u-1', role: 'BANCA', bancaId: 'banca-1' });
+
+      expect(err).toBeUndefined();
+      expect(scope).toEqual({ bancaId: 'banca-1', role: 'BANCA', ventanaId: null, userId: 'u-1' });
+    });
+
+    it('rejects up front a cashier whose banca cannot be resolved', async () => {
+      const { err, scope } = await runMiddleware({ id: 'u-2', role: 'VENTANA', ventanaId: 'ventana-x', bancaId: null });
+
+      expect(err).toMatchObject({ statusCode: 403, meta: 'BANCA_CONTEXT_UNRESOLVED' });
+      expect(scope).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/// <reference types="jest" />
+import { TicketCancellationService } from '../../src/api/v1/services/ticketCancellation.service';
+import { TicketCancellationPolicyService } from '../../src/api/v1/services/ticket/TicketCancellationPolicyService';
+import { TicketService } from '../../src/api/v1/services/ticket.service';
+import prisma from '../../src/core/prismaClient';
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: {
+    ticket: { count: jest.fn() },
+    cancelRequest: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../../src/api/v1/services/ticket.service', () => ({
+  __esModule: true,
+  TicketService: { cancel: jest.fn() },
+}));
+
+jest.mock('../../src/core/activity.service', () => ({
+  __esModule: true,
+  default: { log: jest.fn() },
+}));
+
+const vendedor = { id: 'vendedor-1', role: 'VENDEDOR', ventanaId: 'ventana-1' } as any;
+const ventanaUser = { id: 'ventana-user', role: 'VENTANA', ventanaId: 'ventana-1' } as any;
+
+const buildRequest = (overrides: Record<string, unknown> = {}) => ({
+  id: 'request-1',
+  ticketId: 'ticket-1',
+  bancaId: 'banca-1',
+  ventanaId: 'ventana-1',
+  vendedorId: 'vendedor-1',
+  requestedBy: 'vendedor-1',
+  reason: 'Cliente se arrepintió',
+  violations: [{ code: 'TOO_CLOSE_TO_SORTEO' }],
+  status: 'PENDING',
+  ticket: { id: 'ticket-1', ticketNumber: 'T-0001' },
+  ...overrides,
+});
+
+describe('TicketCancellationPolicyService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('lets the ventana override the banca field by field', () => {
+    const policy = TicketCancellationPolicyService.resolve(
+      { maxMinutesAfterSale: 10, minMinutesBeforeSorteo: 15, maxPerVendedorPerDay: 3 },
+      { minMinutesBeforeSorteo: 30, maxPerVendedorPerDay: null, onViolation: 'block' }
+    );
+
+    expect(policy).toEqual({
+      maxMinutesAfterSale: 10,
+      minMinutesBeforeSorteo: 30,
+      maxPerVendedorPerDay: null,
+      onViolation: 'block',
+    });
+  });
+
+  it('reports every rule the cancellation breaks', async () => {
+    (prisma.ticket.count as jest.Mock).mockResolvedValue(3);
+    const now = new Date('2026-10-19T18:50:00Z');
+
+    const violations = await TicketCancellationPolicyService.check(
+      {
+        createdAt: new Date('2026-10-19T18:20:00Z'),
+        vendedorId: 'vendedor-1',
+        sorteo: { scheduledAt: new Date('2026-10-19T19:00:00Z') },
+      },
+      { maxMinutesAfterSale: 10, minMinutesBeforeSorteo: 15, maxPerVendedorPerDay: 3, onViolation: 'approval' },
+      now
+    );
+
+    expect(violations.map((v) => v.code)).toEqual(['SALE_WINDOW_EXCEEDED', 'TOO_CLOSE_TO_SORTEO', 'DAILY_LIMIT_REACHED']);
+    expect(violations[1]).toMatchObject({ limit: 15, actual: 10 });
+    const where = (prisma.ticket.count as jest.Mock).mock.calls[0][0].where;
+    expect(where).toMatchObject({ vendedorId: 'vendedor-1', status: 'CANCELLED' });
+  });
+
+  it('has no violations without a configured policy', async () => {
+    const policy = TicketCancellationPolicyService.resolve(null, undefined);
+
+    const violations = await TicketCancellationPolicyService.check(
+      { createdAt: new Date(0), vendedorId: 'vendedor-1', sorteo: { scheduledAt: new Date() } },
+      policy,
+      new Date()
+    );
+
+    expect(violations).toEqual([]);
+    expect(prisma.ticket.count).not.toHaveBeenCalled();
+  });
+});
+
+describe('TicketCancellationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.cancelRequest.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (TicketService.cancel as jest.Mock).mockResolvedValue({ id: 'ticket-1', status: 'CANCELLED' });
+  });
+
+  it('cancels the ticket on behalf of the approver once approved', async () => {
+    (prisma.cancelRequest.findUnique as jest.Mock).mockResolvedValue(buildRequest());
+
+    const result = await TicketCancellationService.approve('request-1', { note: 'Autorizado' }, ventanaUser, 'banca-1');
+
+    expect(TicketService.cancel).toHaveBeenCalledWith('ticket-1', 'ventana-user', undefined, 'banca-1', {
+      role: 'VENTANA',
+      reason: 'Cliente se arrepintió',
+      approvedRequestId: 'request-1',
+    });
+    expect(result.ticket).toMatchObject({ status: 'CANCELLED' });
+    const claim = (prisma.cancelRequest.updateMany as jest.Mock).mock.calls[0][0];
+    expect(claim).toMatchObject({ where: { id: 'request-1', status: 'PENDING' }, data: { status: 'APPROVED', decidedBy: 'ventana-user' } });
+  });
+
+  it('marks the request FAILED when the cancellation can no longer run', async () => {
+    (prisma.cancelRequest.findUnique as jest.Mock).mockResolvedValue(buildRequest());
+    (TicketService.cancel as jest.Mock).mockRejectedValue(Object.assign(new Error('Anulación bloqueada'), { statusCode: 409 }));
+
+    await expect(
+      TicketCancellationService.approve('request-1', {}, ventanaUser, 'banca-1')
+    ).rejects.toMatchObject({ statusCode: 409 });
+    const failed = (prisma.cancelRequest.updateMany as jest.Mock).mock.calls.at(-1)[0];
+    expect(failed).toMatchObject({ where: { status: 'APPROVED' }, data: { status: 'FAILED', error: 'Anulación bloqueada' } });
+  });
+
+  it('only lets a vendedor withdraw their own request', async () => {
+    (prisma.cancelRequest.findUnique as jest.Mock).mockResolvedValue(buildRequest({ vendedorId: 'vendedor-2', requestedBy: 'vendedor-2' }));
+
+    await expect(TicketCancellationService.reject('request-1', {}, vendedor, 'banca-1')).rejects.toMatchObject({ statusCode: 403 });
+    expect(prisma.cancelRequest.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('keeps ventana users to their own ventana', async () => {
+    (prisma.cancelRequest.findUnique as jest.Mock).mockResolvedValue(buildRequest({ ventanaId: 'ventana-2' }));
+
+    await expect(
+      TicketCancellationService.approve('request-1', {}, ventanaUser, 'banca-1')
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(TicketService.cancel).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+/// <reference types="jest" />
+import { TicketExpiryService } from '../../src/api/v1/services/ticketExpiry.service';
+import prisma from '../../src/core/prismaClient';
+import ActivityService from '../../src/core/activity.service';
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: {
+    banca: { findMany: jest.fn(), findUnique: jest.fn() },
+    ticket: { findMany: jest.fn(), findUnique: jest.fn(), updateMany: jest.fn() },
+  },
+}));
+
+jest.mock('../../src/core/activity.service', () => ({
+  __esModule: true,
+  default: { log: jest.fn() },
+}));
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const LOTERIA_ID = '2c8e4b1a-7d3f-4a6e-9b5c-1f0e2d3c4b5a';
+const bancaUser = { id: 'banca-user', role: 'BANCA', ventanaId: null } as any;
+
+const candidate = (overrides: Record<string, unknown> = {}) => ({
+  id: 'ticket-1',
+  ticketNumber: 'T250901-000010',
+  bancaId: 'banca-1',
+  ventanaId: 'ventana-1',
+  loteriaId: LOTERIA_ID,
+  remainingAmount: 25000,
+  claimDeadline: null,
+  ventana: { bancaId: 'banca-1' },
+  sorteo: { scheduledAt: new Date('2026-09-01T19:00:00Z') },
+  ...overrides,
+});
+
+describe('TicketExpiryService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('forfeits unclaimed prizes past the lotería or banca window and audits each one', async () => {
+    (prisma.banca.findMany as jest.Mock).mockResolvedValue([
+      { id: 'banca-1', payoutPolicyJson: { claimDays: 30, claimDaysByLoteria: { [LOTERIA_ID]: 7 } } },
+    ]);
+    (prisma.ticket.findMany as jest.Mock).mockResolvedValue([
+      candidate(),
+      candidate({ id: 'ticket-2', ticketNumber: 'T250901-000011', remainingAmount: 5000 }),
+    ]);
+    // ticket-2 recibió un pago mientras corría la pasada
+    (prisma.ticket.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+    const result = await TicketExpiryService.expireDue(NOW);
+
+    expect(result).toEqual({ expired: 1, forfeitedAmount: 25000 });
+    const { where } = (prisma.ticket.findMany as jest.Mock).mock.calls[0][0];
+    expect(where.OR).toEqual([
+      { claimDeadline: { lt: NOW } },
+      expect.objectContaining({ loteriaId: LOTERIA_ID, sorteo: { scheduledAt: { lt: new Date('2026-10-12T12:00:00Z') } } }),
+      expect.objectContaining({ loteriaId: { notIn: [LOTERIA_ID] }, sorteo: { scheduledAt: { lt: new Date('2026-09-19T12:00:00Z') } } }),
+    ]);
+    expect(prisma.ticket.updateMany).toHaveBeenCalledWith({
+      where: expect.objectContaining({ id: 'ticket-1', expiredAt: null, remainingAmount: 25000 }),
+      data: { expiredAt: NOW, forfeitedAmount: 25000, remainingAmount: 0 },
+    });
+    expect(ActivityService.log).toHaveBeenCalledTimes(1);
+    expect((ActivityService.log as jest.Mock).mock.calls[0][0]).toMatchObject({
+      userId: null,
+      bancaId: 'banca-1',
+      targetId: 'ticket-1',
+      details: { op: 'prize_expired', forfeitedAmount: 25000 },
+    });
+  });
+
+  it('reinstates the forfeited prize when the claim deadline is extended', async () => {
+    (prisma.ticket.findUnique as jest.Mock).mockResolvedValue({
+      ...candidate({ remainingAmount: 0 }),
+      isWinner: true,
+      status: 'EVALUATED',
+      deletedAt: null,
+      expiredAt: new Date('2026-10-02T06:00:00Z'),
+      forfeitedAmount: 25000,
+    });
+    (prisma.banca.findUnique as jest.Mock).mockResolvedValue({ payoutPolicyJson: { claimDays: 30 } });
+    (prisma.ticket.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    const claimDeadline = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+
+    const result = await TicketExpiryService.extendClaim('ticket-1', { claimDeadline, reason: 'Cliente hospitalizado' }, bancaUser, 'banca-1');
+
+    expect(result.reinstatedAmount).toBe(25000);
+    expect(prisma.ticket.updateMany).toHaveBeenCalledWith({
+      where: { id: 'ticket-1', status: 'EVALUATED', expiredAt: new Date('2026-10-02T06:00:00Z') },
+      data: { claimDeadline: new Date(claimDeadline), expiredAt: null, forfeitedAmount: null, remainingAmount: 25000 },
+    });
+    expect((ActivityService.log as jest.Mock).mock.calls[0][0].details).toMatchObject({
+      op: 'claim_deadline_extended',
+      previousDeadline: '2026-10-01T19:00:00.000Z',
+      reinstatedAmount: 25000,
+    });
+  });
+
+  it('hides tickets of other bancas and rejects past deadlines', async () => {
+    (prisma.ticket.findUnique as jest.Mock).mockResolvedValue({
+      ...candidate(),
+      isWinner: true,
+      status: 'EVALUATED',
+      deletedAt: null,
+      expiredAt: null,
+      forfeitedAmount: null,
+    });
+    const input = { claimDeadline: '2026-01-01T00:00:00Z', reason: 'Revisión' };
+
+    await expect(TicketExpiryService.extendClaim('ticket-1', input, bancaUser, 'banca-2')).rejects.toMatchObject({ statusCode: 404 });
+    await expect(TicketExpiryService.extendClaim('ticket-1', input, bancaUser, 'banca-1')).rejects.toMatchObject({ statusCode: 400 });
+    expect(prisma.ticket.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+/// <reference types="jest" />
+import 'express-async-errors';
+import express from 'express';
+import request from 'supertest';
+import ticketPaymentRoutes from '../../src/api/v1/routes/ticketPayment.route';
+import { errorHandler } from '../../src/middlewares/error.middleware';
+import PayoutRequestRepository from '../../src/repositories/payoutRequest.repository';
+import prisma from '../../src/core/prismaClient';
+import ActivityService from '../../src/core/activity.service';
+import { WebhookService } from '../../src/api/v1/services/webhook.service';
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: {
+    ticket: { findUnique: jest.fn(), update: jest.fn() },
+    ticketPayment: { findUnique: jest.fn(), findFirst: jest.fn(), aggregate: jest.fn(), create: jest.fn() },
+    $transaction: jest.fn((fn: any) => fn(prisma)),
+  },
+}));
+
+jest.mock('../../src/repositories/payoutRequest.repository', () => ({
+  __esModule: true,
+  default: {
+    findBancaPolicy: jest.fn(),
+    findPendingForTicket: jest.fn(),
+    create: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/middlewares/auth.middleware', () => ({
+  __esModule: true,
+  protect: (req: any, _res: any, next: any) => {
+    req.user = { id: 'cashier-1', role: 'VENDEDOR', ventanaId: 'ventana-2' };
+    next();
+  },
+}));
+
+jest.mock('../../src/middlewares/bancaContext.middleware', () => ({
+  __esModule: true,
+  bancaContextMiddleware: (_req: any, _res: any, next: any) => next(),
+}));
+
+jest.mock('../../src/core/activity.service', () => ({
+  __esModule: true,
+  default: { log: jest.fn() },
+}));
+
+jest.mock('../../src/api/v1/services/webhook.service', () => ({
+  __esModule: true,
+  WebhookService: { emit: jest.fn() },
+}));
+
+const TICKET_ID = '9b2f0c1e-5d4a-4e3b-a1c2-7f6e5d4c3b2a';
+
+const app = express();
+app.use(express.json());
+app.use('/ticket-payments', ticketPaymentRoutes);
+app.use(errorHandler);
+
+const winningTicket = {
+  id: TICKET_ID,
+  ticketNumber: 'T251019-000777',
+  bancaId: null,
+  ventanaId: 'ventana-1',
+  loteriaId: 'loteria-1',
+  status: 'EVALUATED',
+  isWinner: true,
+  claimDeadline: null,
+  expiredAt: null,
+  ventana: { id: 'ventana-1', bancaId: 'banca-1' },
+  sorteo: { scheduledAt: new Date() },
+  jugadas: [{ isWinner: true, payout: 40000 }],
+};
+
+const withPolicy = (payoutPolicyJson: Record<string, unknown>) =>
+  (PayoutRequestRepository.findBancaPolicy as jest.Mock).mockResolvedValue({ id: 'banca-1', payoutPolicyJson });
+
+describe('POST /ticket-payments payout policy', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.ticket.findUnique as jest.Mock).mockResolvedValue(winningTicket);
+    (prisma.ticketPayment.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.ticketPayment.aggregate as jest.Mock).mockResolvedValue({ _sum: { amountPaid: 0 } });
+    (PayoutRequestRepository.findPendingForTicket as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('rejects a cashier outside the selling ventana', async () => {
+    withPolicy({ sellingVentanaOnly: true });
+
+    const res = await request(app).post('/ticket-payments').send({ ticketId: TICKET_ID, amountPaid: 40000 });
+
+    expect(res.status).toBe(403);
+    expect(prisma.ticketPayment.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects payouts over the cashier daily maximum', async () => {
+    withPolicy({ maxPerCashierPerDay: 50000 });
+    (prisma.ticketPayment.aggregate as jest.Mock).mockResolvedValue({ _sum: { amountPaid: 20000 } });
+
+    const res = await request(app).post('/ticket-payments').send({ ticketId: TICKET_ID, amountPaid: 40000 });
+
+    expect(res.status).toBe(403);
+    expect(prisma.ticketPayment.create).not.toHaveBeenCalled();
+  });
+
+  it('creates a payout request above the approval threshold instead of paying', async () => {
+    withPolicy({ approvalThreshold: 25000 });
+    (PayoutRequestRepository.create as jest.Mock).mockResolvedValue({ id: 'payout-1', status: 'PENDING' });
+
+    const res = await request(app).post('/ticket-payments').send({ ticketId: TICKET_ID, amountPaid: 40000 });
+
+    expect(res.status).toBe(202);
+    expect(res.body.data).toMatchObject({ id: 'payout-1', status: 'PENDING' });
+    expect(PayoutRequestRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ ticketId: TICKET_ID, bancaId: 'banca-1', requestedBy: 'cashier-1', amountPaid: 40000 })
+    );
+    expect(prisma.ticketPayment.create).not.toHaveBeenCalled();
+  });
+
+  it('attributes a legacy ticket payment to the ventana banca in audit and webhooks', async () => {
+    withPolicy({});
+    (prisma.ticketPayment.create as jest.Mock).mockResolvedValue({ id: 'payment-1', ticketId: TICKET_ID });
+
+    const res = await request(app).post('/ticket-payments').send({ ticketId: TICKET_ID, amountPaid: 40000 });
+
+    expect(res.status).toBe(201);
+    expect(ActivityService.log).toHaveBeenCalledWith(expect.objectContaining({ action: 'TICKET_PAY', bancaId: 'banca-1', layer: 'service' }));
+    expect(WebhookService.emit).toHaveBeenCalledWith('ticket.paid', 'banca-1', expect.objectContaining({ paymentId: 'payment-1' }));
+  });
+
+  it('computes the remaining amount of a partial payment in cents', async () => {
+    withPolicy({});
+    (prisma.ticket.findUnique as jest.Mock).mockResolvedValue({
+      ...winningTicket,
+      jugadas: [{ isWinner: true, payout: 0.1 }, { isWinner: true, payout: 0.2 }],
+    });
+    (prisma.ticketPayment.create as jest.Mock).mockResolvedValue({ id: 'payment-1', ticketId: TICKET_ID });
+
+    const res = await request(app).post('/ticket-payments').send({ ticketId: TICKET_ID, amountPaid: 0.1 });
+
+    expect(res.status).toBe(201);
+    expect(prisma.ticketPayment.create).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ amountPaid: 0.1, isPartial: true, remainingAmount: 0.2 }) })
+    );
+  });
+});
@@ -0,0 +1,243 @@
+/// <reference types="jest" />
+import { TicketPayoutService } from '../../src/api/v1/services/ticketPayout.service';
+import { TicketPayoutPolicyService } from '../../src/api/v1/services/ticket/TicketPayoutPolicyService';
+import { TicketService } from '../../src/api/v1/services/ticket.service';
+import PayoutRequestRepository from '../../src/repositories/payoutRequest.repository';
+import prisma from '../../src/core/prismaClient';
+import { config } from '../../src/config';
+import { signTicketVerifyToken } from '../../src/utils/crypto';
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: {
+    ticketPayment: { aggregate: jest.fn() },
+  },
+}));
+
+jest.mock('../../src/repositories/payoutRequest.repository', () => ({
+  __esModule: true,
+  default: {
+    findTicketByNumber: jest.fn(),
+    findBancaPolicy: jest.fn(),
+    findById: jest.fn(),
+    findCashier: jest.fn(),
+    transition: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/repositories/ticket.repository', () => ({
+  __esModule: true,
+  TicketRepository: { findForVerification: jest.fn() },
+}));
+
+jest.mock('../../src/api/v1/services/ticket.service', () => ({
+  __esModule: true,
+  TicketService: { registerPayment: jest.fn() },
+}));
+
+jest.mock('../../src/core/activity.service', () => ({
+  __esModule: true,
+  default: { log: jest.fn() },
+}));
+
+const TICKET_ID = '9b2f0c1e-5d4a-4e3b-a1c2-7f6e5d4c3b2a';
+const cashier = { id: 'cashier-1', role: 'VENDEDOR', ventanaId: 'ventana-1' } as any;
+const bancaUser = { id: 'banca-user', role: 'BANCA', ventanaId: null } as any;
+
+const scannedTicket = (overrides: Record<string, unknown> = {}) => ({
+  id: TICKET_ID,
+  ticketNumber: 'T251019-000777',
+  bancaId: 'banca-1',
+  ventanaId: 'ventana-1',
+  status: 'EVALUATED',
+  isWinner: true,
+  deletedAt: null,
+  totalAmount: 500,
+  totalPayout: 40000,
+  totalPaid: 10000,
+  remainingAmount: 30000,
+  createdAt: new Date('2026-10-19T17:00:00Z'),
+  clienteNombre: 'CLIENTE CONTADO',
+  ventana: { id: 'ventana-1', name: 'Central', bancaId: 'banca-1' },
+  sorteo: { id: 'sorteo-1', name: 'Tica 1:00 PM', scheduledAt: new Date('2026-10-19T19:00:00Z'), status: 'EVALUATED', winningNumber: '47' },
+  jugadas: [{ type: 'NUMERO', number: '47', amount: 500, payout: 40000 }],
+  ...overrides,
+});
+
+const policy = (overrides: Record<string, unknown> = {}) => ({
+  sellingVentanaOnly: false,
+  maxPerCashierPerDay: null,
+  approvalThreshold: null,
+  claimDays: null,
+  claimDaysByLoteria: {},
+  ...overrides,
+});
+
+describe('TicketPayoutPolicyService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('blocks payouts at another ventana, past the claim window or over the cashier limit', async () => {
+    (prisma.ticketPayment.aggregate as jest.Mock).mockResolvedValue({ _sum: { amountPaid: 90000 } });
+
+    const { blocking, approval } = await TicketPayoutPolicyService.check(
+      { ventanaId: 'ventana-2', loteriaId: 'loteria-1', totalPayout: 40000, sorteo: { scheduledAt: new Date('2026-09-01T19:00:00Z') } },
+      cashier,
+      30000,
+      policy({ sellingVentanaOnly: true, maxPerCashierPerDay: 100000, claimDays: 30 }),
+      new Date('2026-10-19T18:00:00Z')
+    );
+
+    expect(blocking.map((v) => v.code)).toEqual(['CLAIM_PERIOD_EXPIRED', 'NOT_SELLING_VENTANA', 'CASHIER_DAILY_LIMIT']);
+    expect(blocking[2]).toMatchObject({ limit: 100000, actual: 120000 });
+    expect(approval).toEqual([]);
+  });
+
+  it('enforces the cashier limit under a lock so overlapping payouts cannot both pass', async () => {
+    let paidToday = 90000;
+    const held = new Map<string, Promise<void>>();
+
+    // Transacción falsa: el advisory lock se libera al confirmar y los pagos confirmados suman al día
+    const pay = async (amount: number) => {
+      const releases: Array<() => void> = [];
+      const tx = {
+        $executeRaw: jest.fn(async (_sql: TemplateStringsArray, key: string) => {
+          const previous = held.get(key) ?? Promise.resolve();
+          held.set(key, new Promise((resolve) => releases.push(resolve)));
+          await previous;
+        }),
+        ticketPayment: { aggregate: jest.fn(async () => ({ _sum: { amountPaid: paidToday } })) },
+      };
+      try {
+        await TicketPayoutPolicyService.enforceCashierDailyLimit(
+          tx as any,
+          cashier,
+          amount,
+          policy({ maxPerCashierPerDay: 100000 }),
+          new Date('2026-10-19T18:00:00Z')
+        );
+        await new Promise((resolve) => setImmediate(resolve));
+        paidToday += amount;
+      } finally {
+        releases.forEach((release) => release());
+      }
+    };
+
+    const outcomes = await Promise.allSettled([pay(6000), pay(6000)]);
+
+    expect(outcomes.map((o) => o.status)).toEqual(['fulfilled', 'rejected']);
+    expect((outcomes[1] as PromiseRejectedResult).reason).toMatchObject({
+      statusCode: 403,
+      meta: { code: 'PAYOUT_POLICY_VIOLATION', violations: [{ code: 'CASHIER_DAILY_LIMIT', actual: 102000 }] },
+    });
+    expect(paidToday).toBe(96000);
+  });
+
+  it('asks for approval based on the whole prize, not the partial amount', async () => {
+    const { blocking, approval } = await TicketPayoutPolicyService.check(
+      { ventanaId: 'ventana-1', loteriaId: 'loteria-1', totalPayout: 40000, sorteo: { scheduledAt: new Date() } },
+      cashier,
+      5000,
+      policy({ approvalThreshold: 25000 }),
+      new Date()
+    );
+
+    expect(blocking).toEqual([]);
+    expect(approval[0]).toMatchObject({ code: 'ABOVE_APPROVAL_THRESHOLD', limit: 25000, actual: 40000 });
+  });
+
+  it('uses the lotería window over the banca one and honours manual extensions', () => {
+    const now = new Date('2026-10-19T18:00:00Z');
+    const sorteo = { scheduledAt: new Date('2026-10-01T19:00:00Z') };
+    const byLoteria = policy({ claimDays: 30, claimDaysByLoteria: { 'loteria-1': 7 } });
+
+    expect(TicketPayoutPolicyService.expiryViolation({ loteriaId: 'loteria-2', sorteo }, byLoteria, now)).toBeNull();
+    expect(TicketPayoutPolicyService.expiryViolation({ loteriaId: 'loteria-1', sorteo }, byLoteria, now)).toMatchObject({
+      code: 'CLAIM_PERIOD_EXPIRED',
+      deadline: '2026-10-08T19:00:00.000Z',
+    });
+    expect(
+      TicketPayoutPolicyService.expiryViolation(
+        { loteriaId: 'loteria-1', claimDeadline: new Date('2026-10-25T00:00:00Z'), sorteo },
+        byLoteria,
+        now
+      )
+    ).toBeNull();
+  });
+
+  it('only applies the claim window to banca users', async () => {
+    const { blocking, approval } = await TicketPayoutPolicyService.check(
+      { ventanaId: 'ventana-2', loteriaId: 'loteria-1', totalPayout: 40000, sorteo: { scheduledAt: new Date() } },
+      bancaUser,
+      40000,
+      policy({ sellingVentanaOnly: true, maxPerCashierPerDay: 1000, approvalThreshold: 1000, claimDays: 30 }),
+      new Date()
+    );
+
+    expect(blocking).toEqual([]);
+    expect(approval).toEqual([]);
+    expect(prisma.ticketPayment.aggregate).not.toHaveBeenCalled();
+  });
+});
+
+describe('TicketPayoutService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (PayoutRequestRepository.findTicketByNumber as jest.Mock).mockResolvedValue(scannedTicket());
+    (PayoutRequestRepository.findBancaPolicy as jest.Mock).mockResolvedValue({ id: 'banca-1', payoutPolicyJson: null });
+    (TicketService.registerPayment as jest.Mock).mockResolvedValue({ id: TICKET_ID, status: 'PAID' });
+  });
+
+  it('pays the pending balance of a scanned QR through the payment service', async () => {
+    const code = `https://bancas.example.com/verificar/${signTicketVerifyToken('T251019-000777', TICKET_ID, config.ticketVerify.secret)}`;
+
+    await TicketPayoutService.pay({ code }, cashier, 'banca-1', 'req-1');
+
+    expect(PayoutRequestRepository.findTicketByNumber).toHaveBeenCalledWith('T251019-000777');
+    expect(TicketService.registerPayment).toHaveBeenCalledWith(
+      TICKET_ID,
+      expect.objectContaining({ amountPaid: 30000, method: 'cash' }),
+      'cashier-1',
+      'req-1',
+      { role: 'VENDEDOR', ventanaId: 'ventana-1', channel: 'scan' }
+    );
+  });
+
+  it('treats a forged QR or a ticket from another banca as not found', async () => {
+    const forged = signTicketVerifyToken('T251019-000777', TICKET_ID, 'otro-secreto-de-al-menos-32-caracteres');
+
+    await expect(TicketPayoutService.pay({ code: forged }, cashier, 'banca-1')).rejects.toMatchObject({ statusCode: 404 });
+    await expect(TicketPayoutService.pay({ code: 'T251019-000777' }, cashier, 'banca-2')).rejects.toMatchObject({ statusCode: 404 });
+    expect(TicketService.registerPayment).not.toHaveBeenCalled();
+  });
+
+  it('records the approved payout on behalf of the requesting cashier', async () => {
+    (PayoutRequestRepository.findById as jest.Mock).mockResolvedValue({
+      id: 'payout-1',
+      ticketId: TICKET_ID,
+      bancaId: 'banca-1',
+      ventanaId: 'ventana-1',
+      requestedBy: 'cashier-1',
+      amountPaid: 30000,
+      method: 'cash',
+      notes: null,
+      isFinal: false,
+      violations: [{ code: 'ABOVE_APPROVAL_THRESHOLD' }],
+      status: 'PENDING',
+      ticket: { ticketNumber: 'T251019-000777' },
+    });
+    (PayoutRequestRepository.findCashier as jest.Mock).mockResolvedValue(cashier);
+    (PayoutRequestRepository.transition as jest.Mock).mockResolvedValue(true);
+
+    await TicketPayoutService.approve('payout-1', {}, bancaUser, 'banca-1', 'req-2');
+
+    expect(TicketService.registerPayment).toHaveBeenCalledWith(
+      TICKET_ID,
+      expect.objectContaining({ amountPaid: 30000 }),
+      'cashier-1',
+      'req-2',
+      { role: 'VENDEDOR', ventanaId: 'ventana-1', approvedRequestId: 'payout-1' }
+    );
+  });
+});
@@ -0,0 +1,101 @@
+/// <reference types="jest" />
+import { TicketVerificationService } from '../../src/api/v1/services/ticketVerification.service';
+import { TicketRepository } from '../../src/repositories/ticket.repository';
+import { config } from '../../src/config';
+import { signTicketVerifyToken } from '../../src/utils/crypto';
+
+jest.mock('../../src/repositories/ticket.repository', () => ({
+  __esModule: true,
+  TicketRepository: { findForVerification: jest.fn() },
+}));
+
+const TICKET_ID = '4f1c7a52-9a3e-4c1b-8f7d-2b6e5d0c9a11';
+
+const buildTicket = (overrides: Record<string, unknown> = {}, sorteo: Record<string, unknown> = {}) => ({
+  id: TICKET_ID,
+  ticketNumber: 'T251019-000123',
+  status: 'EVALUATED',
+  isActive: true,
+  isWinner: true,
+  deletedAt: null,
+  totalAmount: 1000,
+  totalPayout: 80000,
+  totalPaid: 0,
+  remainingAmount: 80000,
+  createdAt: new Date('2026-10-19T17:00:00Z'),
+  jugadas: [
+    { type: 'NUMERO', number: '47', amount: 1000, isWinner: true, payout: 80000 },
+  ],
+  sorteo: {
+    name: 'Tica 1:00 PM',
+    scheduledAt: new Date('2026-10-19T19:00:00Z'),
+    status: 'EVALUATED',
+    winningNumber: '47',
+    loteria: { name: 'Tica' },
+    ...sorteo,
+  },
+  ...overrides,
+});
+
+const token = signTicketVerifyToken('T251019-000123', TICKET_ID, config.ticketVerify.secret);
+
+describe('TicketVerificationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('reports a pending prize without exposing internal ids', async () => {
+    (TicketRepository.findForVerification as jest.Mock).mockResolvedValue(buildTicket());
+
+    const result = await TicketVerificationService.verify(token);
+
+    expect(TicketRepository.findForVerification).toHaveBeenCalledWith('T251019-000123');
+    expect(result).toMatchObject({
+      ticketNumber: 'T251019-000123',
+      status: 'WINNER',
+      winningAmount: 80000,
+      pendingAmount: 80000,
+      sorteo: { loteria: 'Tica', winningNumber: '47' },
+    });
+    expect(JSON.stringify(result)).not.toContain(TICKET_ID);
+  });
+
+  it('rejects a token whose signature does not match the ticket', async () => {
+    (TicketRepository.findForVerification as jest.Mock).mockResolvedValue(buildTicket());
+    const forged = signTicketVerifyToken('T251019-000123', TICKET_ID, 'otro-secreto-de-al-menos-32-caracteres');
+
+    await expect(TicketVerificationService.verify(forged)).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('marks fully paid prizes as PAID', async () => {
+    (TicketRepository.findForVerification as jest.Mock).mockResolvedValue(
+      buildTicket({ status: 'PAID', totalPaid: 80000, remainingAmount: 0 })
+    );
+
+    const result = await TicketVerificationService.verify(token);
+
+    expect(result).toMatchObject({ status: 'PAID', paidAmount: 80000, pendingAmount: 0 });
+  });
+
+  it('hides the result until the sorteo is evaluated', async () => {
+    (TicketRepository.findForVerification as jest.Mock).mockResolvedValue(
+      buildTicket({ isWinner: false, totalPayout: 0, remainingAmount: 0 }, { status: 'OPEN', winningNumber: '12' })
+    );
+
+    const result = await TicketVerificationService.verify(token);
+
+    expect(result.status).toBe('ACTIVE');
+    expect(result.sorteo.winningNumber).toBeNull();
+    expect(result.jugadas[0]).toMatchObject({ isWinner: false, payout: 0 });
+  });
+
+  it('reports cancelled tickets regardless of the sorteo result', async () => {
+    (TicketRepository.findForVerification as jest.Mock).mockResolvedValue(
+      buildTicket({ status: 'CANCELLED', isActive: false, isWinner: false })
+    );
+
+    const result = await TicketVerificationService.verify(token);
+
+    expect(result).toMatchObject({ status: 'CANCELLED', winningAmount: 0 });
+  });
+});
@@ -0,0 +1,169 @@
+/// <reference types="jest" />
+import crypto from 'crypto';
+import { lookup } from 'dns/promises';
+import { signWebhookPayload, WebhookService, WEBHOOK_SIGNATURE_HEADER } from '../../src/api/v1/services/webhook.service';
+import { CreateWebhookSchema } from '../../src/api/v1/validators/webhook.validator';
+import WebhookRepository from '../../src/repositories/webhook.repository';
+import ActivityService from '../../src/core/activity.service';
+import prisma from '../../src/core/prismaClient';
+import { isPrivateHost } from '../../src/utils/publicUrl';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+jest.mock('../../src/core/prismaClient', () => ({
+  __esModule: true,
+  default: { webhook: { findMany: jest.fn() } },
+}));
+
+jest.mock('../../src/repositories/webhook.repository', () => ({
+  __esModule: true,
+  default: {
+    findSubscribers: jest.fn(),
+    findById: jest.fn(),
+    createDelivery: jest.fn(),
+    findDueRetries: jest.fn(),
+    claimRetry: jest.fn(),
+    finishRetry: jest.fn(),
+    markSuccess: jest.fn(),
+    markFailure: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/core/activity.service', () => ({
+  __esModule: true,
+  default: { log: jest.fn() },
+}));
+
+const webhook = {
+  id: 'wh-1',
+  name: 'ERP',
+  url: 'https://erp.example.com/hooks',
+  events: ['ticket.paid'],
+  secret: 'whsec_test_secret_value',
+  isActive: true,
+  failCount: 0,
+  bancaId: 'banca-1',
+};
+
+const { default: RealWebhookRepository } = jest.requireActual('../../src/repositories/webhook.repository');
+
+describe('webhooks', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fetchMock = jest.spyOn(global, 'fetch');
+    (lookup as jest.Mock).mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+    (WebhookRepository.findSubscribers as jest.Mock).mockResolvedValue([webhook]);
+    (WebhookRepository.findById as jest.Mock).mockResolvedValue(webhook);
+    (WebhookRepository.createDelivery as jest.Mock).mockResolvedValue({ id: 'delivery-1' });
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('signs timestamp and body so the receiver can verify the delivery', async () => {
+    fetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+
+    WebhookService.emit('ticket.paid', 'banca-1', { ticketId: 't-1' });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const [, init] = fetchMock.mock.calls[0];
+    const timestamp = Number(init.headers['X-Webhook-Timestamp']);
+    const expected = crypto.createHmac('sha256', webhook.secret).update(`${timestamp}.${init.body}`).digest('hex');
+    expect(init.headers[WEBHOOK_SIGNATURE_HEADER]).toBe(`sha256=${expected}`);
+    expect(signWebhookPayload(webhook.secret, timestamp, init.body)).toBe(`sha256=${expected}`);
+    expect(JSON.parse(init.body)).toMatchObject({ event: 'ticket.paid', bancaId: 'banca-1', data: { ticketId: 't-1' } });
+    expect(WebhookRepository.markSuccess).toHaveBeenCalledWith('wh-1');
+  });
+
+  it('only selects subscribers of the event and of the event banca', async () => {
+    await RealWebhookRepository.findSubscribers('ticket.paid', 'banca-1');
+    await RealWebhookRepository.findSubscribers('sorteo.evaluated', null);
+
+    expect((prisma.webhook.findMany as jest.Mock).mock.calls).toEqual([
+      [{ where: { isActive: true, events: { has: 'ticket.paid' }, OR: [{ bancaId: 'banca-1' }, { bancaId: null }] } }],
+      [{ where: { isActive: true, events: { has: 'sorteo.evaluated' }, OR: [{ bancaId: null }] } }],
+    ]);
+  });
+
+  it('persists each retry with its backoff and disables the webhook once retries are exhausted', async () => {
+    fetchMock.mockResolvedValue(new Response('boom', { status: 500 }));
+    (WebhookRepository.markFailure as jest.Mock).mockResolvedValue({ ...webhook, isActive: false, failCount: 10 });
+
+    // WebhookDelivery en memoria: los reintentos salen de lo guardado, no de timers del proceso
+    const deliveries: any[] = [];
+    (WebhookRepository.createDelivery as jest.Mock).mockImplementation(async (data: any) => {
+      const delivery = { id: `delivery-${deliveries.length + 1}`, ...data };
+      deliveries.push(delivery);
+      return delivery;
+    });
+    (WebhookRepository.findDueRetries as jest.Mock).mockImplementation(async (now: Date) =>
+      deliveries.filter((d) => d.nextAttemptAt && d.nextAttemptAt <= now)
+    );
+    (WebhookRepository.claimRetry as jest.Mock).mockImplementation(async (id: string, dueAt: Date, leaseUntil: Date) => {
+      const delivery = deliveries.find((d) => d.id === id);
+      if (delivery.nextAttemptAt?.getTime() !== dueAt.getTime()) return false;
+      delivery.nextAttemptAt = leaseUntil;
+      return true;
+    });
+    (WebhookRepository.finishRetry as jest.Mock).mockImplementation(async (id: string) => {
+      deliveries.find((d) => d.id === id).nextAttemptAt = null;
+    });
+
+    WebhookService.emit('ticket.paid', 'banca-1', { ticketId: 't-1' });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const delays = [];
+    for (let attempt = 1; attempt < 5; attempt++) {
+      const pending = deliveries.at(-1);
+      delays.push(pending.nextAttemptAt.getTime() - Date.now());
+      // Aún no vence: nada que enviar
+      expect(await WebhookService.retryDue(new Date(Date.now() + 1000))).toEqual({ due: 0, sent: 0 });
+      expect(await WebhookService.retryDue(pending.nextAttemptAt)).toEqual({ due: 1, sent: 1 });
+      expect(pending.nextAttemptAt).toBeNull();
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(5);
+    expect(delays.map((ms) => Math.round(ms / 1000))).toEqual([30, 120, 600, 1800]);
+    expect(deliveries.map((d) => d.attempt)).toEqual([1, 2, 3, 4, 5]);
+    expect(deliveries.at(-1).nextAttemptAt).toBeNull();
+    expect(WebhookRepository.markFailure).toHaveBeenCalledWith('wh-1', 10);
+    expect(ActivityService.log).toHaveBeenCalledWith(
+      expect.objectContaining({ targetId: 'wh-1', details: expect.objectContaining({ op: 'auto_disable' }) })
+    );
+  });
+
+  it('skips a retry another instance already claimed', async () => {
+    const dueAt = new Date('2026-10-19T16:00:00Z');
+    (WebhookRepository.findDueRetries as jest.Mock).mockResolvedValue([
+      { id: 'delivery-1', webhookId: 'wh-1', payload: { id: 'evt-1', event: 'ticket.paid' }, attempt: 1, nextAttemptAt: dueAt },
+    ]);
+    (WebhookRepository.claimRetry as jest.Mock).mockResolvedValue(false);
+
+    expect(await WebhookService.retryDue(dueAt)).toEqual({ due: 1, sent: 0 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('never calls hosts that resolve to private or link-local addresses', async () => {
+    (lookup as jest.Mock).mockResolvedValue([{ address: '169.254.169.254', family: 4 }]);
+
+    WebhookService.emit('ticket.paid', 'banca-1', { ticketId: 't-1' });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(WebhookRepository.createDelivery).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 0, responseBody: expect.stringContaining('169.254.169.254') })
+    );
+  });
+
+  it('rejects private, loopback and link-local URLs when registering a webhook', () => {
+    for (const host of ['localhost', '127.0.0.1', '10.0.0.5', '192.168.1.10', '169.254.169.254', '[::1]', '[fe80::1]']) {
+      expect(isPrivateHost(host)).toBe(true);
+      expect(CreateWebhookSchema.safeParse({ name: 'ERP', url: `http://${host}/hook`, events: ['ticket.paid'] }).success).toBe(false);
+    }
+    expect(CreateWebhookSchema.safeParse({ name: 'ERP', url: 'https://erp.example.com/hook', events: ['ticket.paid'] }).success).toBe(true);
+  });
+});